@@ -8,21 +8,63 @@ declare global {
   }
 }
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import { Dropzone } from './components/Dropzone';
 import { LogConsole } from './components/LogConsole';
 import { Button } from './components/Button';
 import { Tutorial } from './components/Tutorial';
+import { DataGrid } from './components/DataGrid';
+import { SessionList } from './components/SessionList';
+import { BatchPanel } from './components/BatchPanel';
+import { OwnerPolicyPanel } from './components/OwnerPolicyPanel';
+import { ColumnProfilePanel } from './components/ColumnProfilePanel';
+import { OverridesPanel } from './components/OverridesPanel';
 import { DownloadIcon, RocketIcon, RefreshIcon, CsvIcon, CheckCircleIcon } from './components/icons';
-import { transformData } from './services/transformer';
+import { readFileSheets } from './services/transformer';
+import { loadWorkbookFile, runTransformation, cancelTransformJobs, JobCancelledError } from './services/transformClient';
+import { buildCsv, buildExcel, buildOwnersCsv, buildQualityReport, buildTargetExport, buildWorkbook, excelExtraSheets } from './services/exporter';
+import { ownersForRows } from './services/owners';
+import { EXPORT_TARGETS, SALESFORCE_TARGET, SALESFORCE_TARGET_ID, getExportTarget } from './services/exportTargets';
+import { countBySeverity } from './services/quality';
+import { buildReviewWorkbook } from './services/reviewWorkbook';
+import { auditForRows, auditToRows } from './services/audit';
+import { parsePreviousExport, compareWithPrevious, changesOnly, deltaToRows } from './services/delta';
+import type { PreviousExport, DeltaReport } from './services/delta';
+import { parseSalesforceFile, reconcileRun, reconcileToRows, retryRows } from './services/reconcile';
+import type { SalesforceFile } from './services/reconcile';
+import { AUTO_PROFILE_ID, parseStoredProfiles, saveColumnProfile } from './services/columnProfiles';
+import type { ColumnProfile } from './services/columnProfiles';
+import { updateOutputCell, CSV_DATASETS } from './services/outputEditor';
+import type { CsvDatasetKey } from './services/outputEditor';
+import { isSessionStoreAvailable, listSessions, loadSession, saveSession, deleteSession, newSessionId, outputCounts } from './services/sessionStore';
+import type { SessionSummary } from './services/sessionStore';
+import { buildRunBundle, sha256Hex, templatedFileName, DEFAULT_FILE_NAME_TEMPLATE } from './services/manifest';
+import { batchProjectName } from './services/batch';
+import { OWNER_POLICIES, DEFAULT_OWNER_POLICY, parseStoredPolicies, savePolicyPreset } from './services/ownerPolicy';
+import type { OwnerPolicy } from './services/ownerPolicy';
+import { isBlankOverride, overridesToRows, parseOverrideSheet, parseStoredOverrides, upsertOverride } from './services/overrides';
+import type { ParcelOverride } from './services/overrides';
 import type { ValidationResult, OutputData } from './services/transformer';
-import type { FileStatus, FileType, LogEntry } from './types';
+import type { FileStatus, FileType, LogEntry, JobProgress } from './types';
+
+const FILE_NAME_TEMPLATE_KEY = 'land-data-tool.fileNameTemplate';
+const COLUMN_PROFILES_KEY = 'land-data-tool.columnProfiles';
+const OWNER_POLICIES_KEY = 'land-data-tool.ownerPolicies';
+const OWNER_POLICY_ID_KEY = 'land-data-tool.ownerPolicyId';
+const OVERRIDES_KEY = 'land-data-tool.overrides';
+// Undo steps kept for the manual overrides (in memory only)
+const MAX_OVERRIDE_UNDO = 50;
 
 const App = () => {
     const [files, setFiles] = useState<{ [key in FileType]: File | null }>({
         input: null,
         results: null,
     });
+    // Shown in the dropzones; kept separately from `files` because a restored session has no File objects
+    const [fileNames, setFileNames] = useState<{ [key in FileType]: string }>({
+        input: '',
+        results: '',
+    });
     const [fileStatus, setFileStatus] = useState<{ [key in FileType]: FileStatus }>({
         input: 'waiting',
         results: 'waiting',
@@ -31,11 +73,46 @@ const App = () => {
         input: null,
         results: null,
     });
+    // SHA-256 of the uploaded files for the run manifest ('' for restored sessions saved without them)
+    const [fileHashes, setFileHashes] = useState<{ [key in FileType]: string }>({
+        input: '',
+        results: '',
+    });
     
     const [logs, setLogs] = useState<LogEntry[]>([]);
     const [isProcessing, setIsProcessing] = useState<boolean>(false);
+    const [progress, setProgress] = useState<{ [key in FileType | 'process']: JobProgress | null }>({
+        input: null,
+        results: null,
+        process: null,
+    });
     const [outputData, setOutputData] = useState<OutputData | null>(null);
     const [activeTab, setActiveTab] = useState<'scouted' | 'retrieved' | 'contacted'>('scouted');
+    const [profileId, setProfileId] = useState<string>(AUTO_PROFILE_ID);
+    const [customProfiles, setCustomProfiles] = useState<ColumnProfile[]>(() => parseStoredProfiles(localStorage.getItem(COLUMN_PROFILES_KEY)));
+    // Owner selection policy for the next run: a built-in or custom preset, possibly edited since it was selected
+    const [customPolicies, setCustomPolicies] = useState<OwnerPolicy[]>(() => parseStoredPolicies(localStorage.getItem(OWNER_POLICIES_KEY)));
+    const [ownerPolicy, setOwnerPolicy] = useState<OwnerPolicy>(() => {
+        const id = localStorage.getItem(OWNER_POLICY_ID_KEY);
+        return [...OWNER_POLICIES, ...customPolicies].find(p => p.id === id) || DEFAULT_OWNER_POLICY;
+    });
+    // Manual overrides applied on every run; every change can be undone
+    const [overrides, setOverrides] = useState<ParcelOverride[]>(() => parseStoredOverrides(localStorage.getItem(OVERRIDES_KEY)));
+    const [overrideHistory, setOverrideHistory] = useState<ParcelOverride[][]>([]);
+    const activeOverrides = useMemo(() => overrides.filter(o => o.key && !isBlankOverride(o)), [overrides]);
+    const [previewVariant, setPreviewVariant] = useState<'data' | 'csv' | 'owners' | 'audit' | 'delta' | 'reconcile'>('data');
+    const [exportTargetId, setExportTargetId] = useState<string>(SALESFORCE_TARGET_ID);
+    const [mode, setMode] = useState<'single' | 'batch'>('single');
+    // Download file names: "{project}_{name}_{date}" by default; the project defaults to the Input file name
+    const [projectName, setProjectName] = useState<string>('');
+    const [fileNameTemplate, setFileNameTemplate] = useState<string>(() => localStorage.getItem(FILE_NAME_TEMPLATE_KEY) || DEFAULT_FILE_NAME_TEMPLATE);
+
+    // Optional previous Salesforce export for delta mode
+    const [previousExport, setPreviousExport] = useState<PreviousExport | null>(null);
+    const [previousFile, setPreviousFile] = useState<{ name: string, status: FileStatus, error: string | null }>({ name: '', status: 'waiting', error: null });
+    // Salesforce success/error files or report exports read back after an upload (reconciliation)
+    const [salesforceFiles, setSalesforceFiles] = useState<SalesforceFile[]>([]);
+    const [salesforceStatus, setSalesforceStatus] = useState<{ status: FileStatus, error: string | null }>({ status: 'waiting', error: null });
     
     // Used to force remounting of Dropzones to clear internal file inputs completely
     const [resetKey, setResetKey] = useState<number>(0);
@@ -45,18 +122,84 @@ const App = () => {
         results: null,
     });
 
+    // Saved sessions (IndexedDB). sessionId is the session the current workbooks/output belong to;
+    // it is cleared when a new file is loaded so the next run starts a new session.
+    const [sessions, setSessions] = useState<SessionSummary[]>([]);
+    const [sessionId, setSessionId] = useState<string | null>(null);
+    const sessionIdRef = useRef<string | null>(null);
+    const skipNextSave = useRef<boolean>(false);
+    const logsRef = useRef<LogEntry[]>([]);
+
     const addLog = useCallback((message: string, type: 'info' | 'error' | 'success' = 'info') => {
         setLogs(prev => [...prev, { message, type, timestamp: new Date().toISOString() }]);
     }, []);
 
-    const handleFileChange = useCallback(async (file: File, type: FileType) => {
+    const refreshSessions = useCallback(async () => {
+        if (!isSessionStoreAvailable()) return;
+        try {
+            setSessions(await listSessions());
+        } catch (error) {
+            addLog(`Could not list saved sessions: ${error instanceof Error ? error.message : String(error)}`, 'error');
+        }
+    }, [addLog]);
+
+    useEffect(() => {
+        refreshSessions();
+    }, [refreshSessions]);
+
+    const activateSession = (id: string | null) => {
+        sessionIdRef.current = id;
+        setSessionId(id);
+    };
+
+    useEffect(() => {
+        logsRef.current = logs;
+    }, [logs]);
+
+    // Save the session after every run and every preview edit
+    useEffect(() => {
+        if (!outputData || isProcessing || !sessionIdRef.current || !isSessionStoreAvailable()) return;
+        if (skipNextSave.current) {
+            skipNextSave.current = false;
+            return;
+        }
+        const id = sessionIdRef.current;
+        const existing = sessions.find(s => s.id === id);
+        const now = new Date().toISOString();
+        saveSession({
+            id,
+            createdAt: existing ? existing.createdAt : now,
+            updatedAt: now,
+            fileNames,
+            fileHashes,
+            profileId,
+            counts: outputCounts(outputData),
+            sheets: { input: fileDataCache.current.input, results: fileDataCache.current.results },
+            output: outputData,
+            logs: logsRef.current,
+        })
+            .then(refreshSessions)
+            .catch(error => addLog(`Could not save the session in this browser: ${error instanceof Error ? error.message : String(error)}`, 'error'));
+    }, [outputData, isProcessing]);
+
+    const handleFileChange = useCallback(async (file: File, type: FileType, selectedProfileId: string = profileId, profiles: ColumnProfile[] = customProfiles) => {
         setFiles(prev => ({ ...prev, [type]: file }));
+        setFileNames(prev => ({ ...prev, [type]: file.name }));
+        if (type === 'input') setProjectName(batchProjectName(file.name));
+        setFileHashes(prev => ({ ...prev, [type]: '' }));
+        file.arrayBuffer()
+            .then(sha256Hex)
+            .then(hash => setFileHashes(prev => ({ ...prev, [type]: hash })))
+            .catch(error => addLog(`Could not hash ${file.name}; manifest.json will have no SHA-256 for it: ${error instanceof Error ? error.message : String(error)}`, 'error'));
         setOutputData(null); // Reset output on new file
+        activateSession(null);
         setFileStatus(prev => ({...prev, [type]: 'loading' }));
         setFileErrors(prev => ({...prev, [type]: null }));
 
         try {
-            const { jsonData, validation } = await transformData(type, file, addLog);
+            const { jsonData, validation } = await loadWorkbookFile(file, type, addLog, selectedProfileId, (stage, percent) => {
+                setProgress(prev => ({ ...prev, [type]: { stage, percent } }));
+            }, profiles);
             if (validation.isValid) {
                 fileDataCache.current[type] = jsonData;
                 setFileStatus(prev => ({...prev, [type]: 'valid' }));
@@ -69,14 +212,135 @@ const App = () => {
                 validation.errors.forEach(err => addLog(err, 'error'));
             }
         } catch (error) {
+            fileDataCache.current[type] = null;
+            if (error instanceof JobCancelledError) {
+                addLog(`Loading of ${file.name} cancelled.`, 'error');
+                setFileStatus(prev => ({...prev, [type]: 'waiting' }));
+                return;
+            }
             const errorMessage = error instanceof Error ? error.message : String(error);
             addLog(`Error processing ${file.name}: ${errorMessage}`, 'error');
             setFileStatus(prev => ({...prev, [type]: 'invalid' }));
             setFileErrors(prev => ({...prev, [type]: errorMessage }));
-            fileDataCache.current[type] = null;
+        } finally {
+            setProgress(prev => ({ ...prev, [type]: null }));
+        }
+    }, [addLog, profileId, customProfiles]);
+
+    // Re-validate already loaded files against the newly selected mapping profile
+    const handleProfileChange = (newProfileId: string, profiles: ColumnProfile[] = customProfiles) => {
+        setProfileId(newProfileId);
+        (['input', 'results'] as FileType[]).forEach(type => {
+            const file = files[type];
+            if (file) handleFileChange(file, type, newProfileId, profiles);
+        });
+    };
+
+    const storeCustomProfiles = (profiles: ColumnProfile[]) => {
+        setCustomProfiles(profiles);
+        localStorage.setItem(COLUMN_PROFILES_KEY, JSON.stringify(profiles));
+    };
+
+    const handleColumnProfileSave = (profile: ColumnProfile, name: string) => {
+        const { profiles, saved } = saveColumnProfile(customProfiles, profile, name);
+        storeCustomProfiles(profiles);
+        addLog(`Column profile '${saved.name}' saved.`, 'success');
+        handleProfileChange(saved.id, profiles);
+    };
+
+    const handleColumnProfileDelete = (id: string) => {
+        const profiles = customProfiles.filter(p => p.id !== id);
+        storeCustomProfiles(profiles);
+        handleProfileChange(AUTO_PROFILE_ID, profiles);
+    };
+
+    // Imported profiles are merged into the saved ones; a profile with the same name takes the imported aliases
+    const handleColumnProfilesImport = async (file: File) => {
+        try {
+            const imported = parseStoredProfiles(await file.text());
+            if (imported.length === 0) {
+                addLog(`${file.name} has no usable column profile (expected the JSON written by 'Export profiles').`, 'error');
+                return;
+            }
+            storeCustomProfiles(imported.reduce((profiles, p) => saveColumnProfile(profiles, p, p.name).profiles, customProfiles));
+            addLog(`Imported ${imported.length} column profile(s) from ${file.name}.`, 'success');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addLog(`Could not read column profiles file ${file.name}: ${errorMessage}`, 'error');
+        }
+    };
+
+    const logDeltaSummary = useCallback((report: DeltaReport) => {
+        (['csvScouted', 'csvRetrieved', 'csvContacted'] as const).forEach(key => {
+            const c = report.cargas[key].counts;
+            addLog(`Delta ${key}: ${c.new} new, ${c.changed} changed, ${c.unchanged} unchanged, ${c.blocked} blocked (already further along in Salesforce; their Lead Status is kept).`);
+        });
+        if (report.missing.length > 0) {
+            addLog(`Delta: ${report.missing.length} External ID(s) from the previous export are missing from this run.`, 'error');
         }
     }, [addLog]);
 
+    const handlePreviousFileChange = useCallback(async (file: File) => {
+        setPreviousFile({ name: file.name, status: 'loading', error: null });
+        try {
+            addLog(`Reading ${file.name}...`);
+            const { previous, validation } = parsePreviousExport(await readFileSheets(file));
+            if (previous) {
+                setPreviousExport(previous);
+                setPreviousFile({ name: file.name, status: 'valid', error: null });
+                addLog(`Previous export '${file.name}' loaded with ${previous.rows.size} External IDs. Delta mode enabled.`, 'success');
+                if (outputData) logDeltaSummary(compareWithPrevious(outputData, previous));
+            } else {
+                setPreviousExport(null);
+                setPreviousFile({ name: file.name, status: 'invalid', error: validation.errors[0] });
+                validation.errors.forEach(err => addLog(err, 'error'));
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addLog(`Error processing ${file.name}: ${errorMessage}`, 'error');
+            setPreviousExport(null);
+            setPreviousFile({ name: file.name, status: 'invalid', error: errorMessage });
+        }
+    }, [addLog, logDeltaSummary, outputData]);
+
+    // Files with the same name replace the earlier copy; the others are added (e.g. a success file and an error file)
+    const handleSalesforceFilesChange = async (selected: File[]) => {
+        setSalesforceStatus({ status: 'loading', error: null });
+        const parsed: SalesforceFile[] = [];
+        let firstError: string | null = null;
+        for (const file of selected) {
+            try {
+                addLog(`Reading ${file.name}...`);
+                const { file: sfFile, validation } = parseSalesforceFile(await readFileSheets(file), file.name);
+                if (sfFile) {
+                    parsed.push(sfFile);
+                    addLog(`Salesforce ${sfFile.kind} file '${file.name}' loaded with ${sfFile.rows.size} External IDs.`, 'success');
+                } else {
+                    firstError = firstError || validation.errors[0];
+                    validation.errors.forEach(err => addLog(err, 'error'));
+                }
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                firstError = firstError || errorMessage;
+                addLog(`Error processing ${file.name}: ${errorMessage}`, 'error');
+            }
+        }
+        setSalesforceFiles(prev => [...prev.filter(f => !parsed.some(p => p.fileName === f.fileName)), ...parsed]);
+        setSalesforceStatus({ status: firstError ? 'invalid' : 'waiting', error: firstError });
+        if (parsed.length > 0) setPreviewVariant('reconcile');
+    };
+
+    // Files are matched against one Carga; the user can correct the one read from the file
+    const handleSalesforceCargaChange = (fileName: string, carga: CsvDatasetKey | null) => {
+        setSalesforceFiles(prev => prev.map(f => f.fileName === fileName ? { ...f, carga } : f));
+    };
+
+    const handleClearSalesforceFiles = () => {
+        setSalesforceFiles([]);
+        setSalesforceStatus({ status: 'waiting', error: null });
+        if (previewVariant === 'reconcile') setPreviewVariant('data');
+    };
+
     const handleRunTransformation = useCallback(async () => {
         if (!fileDataCache.current.input || !fileDataCache.current.results) {
             addLog("Both Input and Results files must be loaded and valid before running.", 'error');
@@ -86,26 +350,144 @@ const App = () => {
         setIsProcessing(true);
         setOutputData(null);
         setLogs([]); // Clear logs for new run
+        if (!sessionIdRef.current) activateSession(newSessionId());
         addLog("Starting transformation process...");
 
-        // Slight delay to allow UI to update processing state before heavy synchronous work
-        await new Promise(resolve => setTimeout(resolve, 100));
-
         try {
-            const { output } = await transformData('process', null, addLog, fileDataCache.current.input, fileDataCache.current.results);
+            const { output } = await runTransformation(fileDataCache.current.input, fileDataCache.current.results, addLog, (stage, percent) => {
+                setProgress(prev => ({ ...prev, process: { stage, percent } }));
+            }, ownerPolicy, activeOverrides);
             if (output) {
                 setOutputData(output);
                 addLog("Transformation complete. Output files are ready for download.", 'success');
+                if (previousExport) logDeltaSummary(compareWithPrevious(output, previousExport));
             } else {
                 throw new Error("Transformation did not produce any output data.");
             }
         } catch (error) {
+            if (error instanceof JobCancelledError) {
+                addLog("Transformation cancelled.", 'error');
+                return;
+            }
             const errorMessage = error instanceof Error ? error.message : String(error);
             addLog(`An unexpected error occurred during transformation: ${errorMessage}`, 'error');
         } finally {
             setIsProcessing(false);
+            setProgress(prev => ({ ...prev, process: null }));
         }
-    }, [addLog]);
+    }, [addLog, previousExport, logDeltaSummary, ownerPolicy, activeOverrides]);
+
+    const handleOwnerPolicySelect = (id: string) => {
+        const selected = [...OWNER_POLICIES, ...customPolicies].find(p => p.id === id);
+        if (!selected) return;
+        setOwnerPolicy(selected);
+        localStorage.setItem(OWNER_POLICY_ID_KEY, id);
+    };
+
+    const storeCustomPolicies = (policies: OwnerPolicy[]) => {
+        setCustomPolicies(policies);
+        localStorage.setItem(OWNER_POLICIES_KEY, JSON.stringify(policies));
+    };
+
+    const handleOwnerPolicySave = (name: string) => {
+        const { policies, saved } = savePolicyPreset(customPolicies, ownerPolicy, name);
+        storeCustomPolicies(policies);
+        setOwnerPolicy(saved);
+        localStorage.setItem(OWNER_POLICY_ID_KEY, saved.id);
+        addLog(`Owner selection policy preset '${saved.name}' saved.`, 'success');
+    };
+
+    const handleOwnerPolicyDelete = (id: string) => {
+        storeCustomPolicies(customPolicies.filter(p => p.id !== id));
+        setOwnerPolicy(DEFAULT_OWNER_POLICY);
+        localStorage.setItem(OWNER_POLICY_ID_KEY, DEFAULT_OWNER_POLICY.id);
+    };
+
+    const storeOverrides = (next: ParcelOverride[]) => {
+        setOverrides(next);
+        localStorage.setItem(OVERRIDES_KEY, JSON.stringify(next));
+    };
+
+    const handleOverridesChange = (next: ParcelOverride[], message: string) => {
+        setOverrideHistory(prev => [...prev, overrides].slice(-MAX_OVERRIDE_UNDO));
+        storeOverrides(next);
+        addLog(`${message} Applied on the next run.`);
+    };
+
+    const handleOverridesUndo = () => {
+        const previous = overrideHistory[overrideHistory.length - 1];
+        if (!previous) return;
+        setOverrideHistory(prev => prev.slice(0, -1));
+        storeOverrides(previous);
+        addLog(`Undid the last change to manual overrides (${previous.length} saved).`);
+    };
+
+    // Imported rows are merged into the saved overrides; a key already saved takes the imported values
+    const handleOverridesImport = async (file: File) => {
+        try {
+            const { overrides: imported, validation } = parseOverrideSheet(await readFileSheets(file), file.name);
+            if (!validation.isValid) {
+                validation.errors.forEach(e => addLog(e, 'error'));
+                return;
+            }
+            handleOverridesChange(imported.reduce(upsertOverride, overrides), `Imported ${imported.length} manual override(s) from ${file.name}.`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addLog(`Could not read overrides file ${file.name}: ${errorMessage}`, 'error');
+        }
+    };
+
+    const handleOverridesExport = () => {
+        const fileName = outputFileName('overrides.xlsx');
+        try {
+            const content = buildWorkbook({ Overrides: overridesToRows(overrides) });
+            window.saveAs(new Blob([content], { type: 'application/octet-stream' }), fileName);
+            addLog(`${fileName} downloaded successfully (${overrides.length} override(s)).`, 'success');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addLog(`Failed to generate ${fileName}: ${errorMessage}`, 'error');
+        }
+    };
+
+    const handleColumnProfilesExport = () => {
+        const fileName = outputFileName('column_profiles.json');
+        window.saveAs(new Blob([JSON.stringify(customProfiles, null, 2)], { type: 'application/json' }), fileName);
+        addLog(`${fileName} downloaded successfully (${customProfiles.length} column profile(s)).`, 'success');
+    };
+
+    // Stops every running parse/transform job (the worker is terminated and restarted on the next job)
+    const handleCancel = () => {
+        cancelTransformJobs();
+    };
+
+    const isBusy = isProcessing || fileStatus.input === 'loading' || fileStatus.results === 'loading';
+
+    const handleFileNameTemplateChange = (template: string) => {
+        setFileNameTemplate(template);
+        localStorage.setItem(FILE_NAME_TEMPLATE_KEY, template);
+    };
+
+    // "scouted_data.csv" -> "<project>_scouted_data_<date>.csv" following the file name template
+    const outputFileName = (fileName: string) => templatedFileName(fileNameTemplate, { project: projectName, date: new Date() }, fileName);
+
+    const handleDownloadAll = () => {
+        if (!outputData) return;
+        addLog('Generating ZIP with all output files...');
+        try {
+            const { fileName, content, manifest } = buildRunBundle(outputData, {
+                project: projectName,
+                profileId,
+                sources: (['input', 'results'] as FileType[]).map(role => ({ role, fileName: fileNames[role], sha256: fileHashes[role] })),
+                logs: logsRef.current,
+                template: fileNameTemplate,
+            });
+            window.saveAs(new Blob([content], { type: 'application/zip' }), fileName);
+            addLog(`${fileName} downloaded successfully (${manifest.files.length} files plus manifest.json).`, 'success');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addLog(`Failed to generate the ZIP: ${errorMessage}`, 'error');
+        }
+    };
 
     const handleDownloadExcel = (key: 'scouted' | 'retrieved' | 'contacted', fileName: string) => {
         if (!outputData || !outputData[key] || outputData[key].length === 0) {
@@ -114,12 +496,23 @@ const App = () => {
         }
         addLog(`Generating ${fileName}...`);
         try {
-            const ws = window.XLSX.utils.json_to_sheet(outputData[key]);
-            const wb = window.XLSX.utils.book_new();
-            window.XLSX.utils.book_append_sheet(wb, ws, 'Sheet1');
-            const excelBuffer = window.XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+            const excelBuffer = buildExcel(outputData[key], excelExtraSheets(outputData, key));
             const blob = new Blob([excelBuffer], { type: 'application/octet-stream' });
-            window.saveAs(blob, fileName);
+            window.saveAs(blob, outputFileName(fileName));
+            addLog(`${fileName} downloaded successfully.`, 'success');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addLog(`Failed to generate ${fileName}: ${errorMessage}`, 'error');
+        }
+    };
+
+    const handleDownloadQualityReport = () => {
+        if (!outputData) return;
+        const fileName = 'quality_report.xlsx';
+        addLog(`Generating ${fileName}...`);
+        try {
+            const blob = new Blob([buildQualityReport(outputData)], { type: 'application/octet-stream' });
+            window.saveAs(blob, outputFileName(fileName));
             addLog(`${fileName} downloaded successfully.`, 'success');
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
@@ -127,40 +520,81 @@ const App = () => {
         }
     };
 
-    const handleDownloadCSV = (key: 'csvScouted' | 'csvRetrieved' | 'csvContacted', fileName: string) => {
+    const handleDownloadReviewWorkbook = () => {
+        if (!outputData) return;
+        const fileName = 'review.xlsx';
+        addLog(`Generating ${fileName}...`);
+        try {
+            const blob = new Blob([buildReviewWorkbook(outputData)], { type: 'application/octet-stream' });
+            window.saveAs(blob, outputFileName(fileName));
+            addLog(`${fileName} downloaded successfully.`, 'success');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addLog(`Failed to generate ${fileName}: ${errorMessage}`, 'error');
+        }
+    };
+
+    // Download the active Carga in the selected export target (Salesforce, HubSpot, generic CSV, JSON Lines...)
+    const handleDownloadExport = (key: 'scouted' | 'retrieved' | 'contacted') => {
+        const target = getExportTarget(exportTargetId) || SALESFORCE_TARGET;
         if (!outputData || !outputData[key] || outputData[key].length === 0) {
-            addLog(`No data available to download for ${fileName}.`, 'error');
+            addLog(`No data available to download for ${key} (${target.name}).`, 'error');
+            return;
+        }
+        try {
+            const { fileName, mimeType, content } = buildTargetExport(outputData, key, target);
+            addLog(`Generating ${target.name} file ${fileName}...`);
+            window.saveAs(new Blob([content], { type: mimeType }), outputFileName(fileName));
+            addLog(`${fileName} downloaded successfully.`, 'success');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addLog(`Failed to generate the ${target.name} export: ${errorMessage}`, 'error');
+        }
+    };
+
+    const handleDownloadOwnersCSV = (key: 'retrieved' | 'contacted') => {
+        if (!outputData) return;
+        const fileName = `${key}_owners.csv`;
+        if (ownersRows.length === 0) {
+            addLog(`No owners available to download for ${fileName}.`, 'error');
             return;
         }
         addLog(`Generating CSV ${fileName}...`);
         try {
-            const data = outputData[key];
-            if (data.length === 0) {
-                addLog('No data to export', 'error');
-                return;
-            }
+            window.saveAs(new Blob([buildOwnersCsv(outputData, key)], { type: 'text/csv;charset=utf-8;' }), outputFileName(fileName));
+            addLog(`${fileName} downloaded successfully.`, 'success');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addLog(`Failed to generate ${fileName}: ${errorMessage}`, 'error');
+        }
+    };
 
-            // Get headers from the first row
-            const headers = Object.keys(data[0]);
-            
-            // Build CSV string
-            const csvRows = [
-                // Header row
-                headers.map(header => `"${header}"`).join(','),
-                // Data rows
-                ...data.map((row: any) => 
-                    headers.map(header => {
-                        const val = row[header] === null || row[header] === undefined ? '' : String(row[header]);
-                        // Escape quotes by doubling them
-                        const escapedVal = val.replace(/"/g, '""');
-                        return `"${escapedVal}"`;
-                    }).join(',')
-                )
-            ];
-
-            const csvString = '\uFEFF' + csvRows.join('\r\n'); // Add BOM for Excel compatibility
+    const handleDownloadChangesCSV = (key: CsvDatasetKey, fileName: string) => {
+        if (!outputData || !deltaReport) return;
+        const rows = changesOnly(outputData, deltaReport, key);
+        if (rows.length === 0) {
+            addLog(`No new or changed records to upsert for ${fileName}.`, 'info');
+            return;
+        }
+        saveCsv(rows, fileName);
+    };
+
+    const handleDownloadRetryCSV = (key: CsvDatasetKey, fileName: string) => {
+        if (!outputData || !reconcileReport) return;
+        const rows = retryRows(outputData, reconcileReport, key);
+        if (rows.length === 0) {
+            addLog(`No failed or missing records to retry for ${fileName}.`, 'info');
+            return;
+        }
+        saveCsv(rows, fileName);
+    };
+
+    const saveCsv = (data: any[], fileName: string) => {
+        addLog(`Generating CSV ${fileName}...`);
+        try {
+            const csvString = buildCsv(data);
             const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' });
-            window.saveAs(blob, fileName);
+            window.saveAs(blob, outputFileName(fileName));
             addLog(`${fileName} downloaded successfully.`, 'success');
 
         } catch (error) {
@@ -169,8 +603,97 @@ const App = () => {
         }
     };
 
+    const deltaReport = useMemo(() => {
+        if (!outputData || !previousExport) return null;
+        return compareWithPrevious(outputData, previousExport);
+    }, [outputData, previousExport]);
+
+    const deltaRows = useMemo(() => {
+        return deltaReport ? deltaToRows(deltaReport, CSV_DATASETS[activeTab].csvKey) : [];
+    }, [deltaReport, activeTab]);
+
+    const reconcileReport = useMemo(() => {
+        if (!outputData || salesforceFiles.length === 0) return null;
+        return reconcileRun(outputData, salesforceFiles);
+    }, [outputData, salesforceFiles]);
+
+    const reconcileRows = useMemo(() => {
+        return reconcileReport ? reconcileToRows(reconcileReport, CSV_DATASETS[activeTab].csvKey) : [];
+    }, [reconcileReport, activeTab]);
+
+    // Audit trail of the parcels in the active Carga (memoized: the grid re-indexes whenever its rows change)
+    const auditRows = useMemo(() => {
+        if (!outputData) return [];
+        return auditToRows(auditForRows(outputData.audit, outputData[CSV_DATASETS[activeTab].csvKey]));
+    }, [outputData, activeTab]);
+
+    // One contact per owner for the parcels in the active Carga
+    const ownersRows = useMemo(() => {
+        if (!outputData) return [];
+        return ownersForRows(outputData.owners, outputData[CSV_DATASETS[activeTab].csvKey]);
+    }, [outputData, activeTab]);
+
+    const handleCellEdit = (rowIndex: number, column: string, value: string) => {
+        if (!outputData) return;
+        const key = previewVariant === 'csv' ? CSV_DATASETS[activeTab].csvKey : activeTab;
+        setOutputData(updateOutputCell(outputData, key, rowIndex, column, value));
+        addLog(`Edited '${column}' on row ${rowIndex + 1} of ${key}: '${value}'.`);
+    };
+
+    // Restore parsed workbooks, output and logs; the files can be re-run or re-downloaded without the original Excel files
+    const handleOpenSession = async (id: string) => {
+        try {
+            const session = await loadSession(id);
+            if (!session) {
+                addLog('Saved session not found. It may have been deleted in another tab.', 'error');
+                refreshSessions();
+                return;
+            }
+            fileDataCache.current = { input: session.sheets.input, results: session.sheets.results };
+            setFiles({ input: null, results: null });
+            setFileNames(session.fileNames);
+            setFileHashes(session.fileHashes || { input: '', results: '' });
+            setProjectName(batchProjectName(session.fileNames.input));
+            setFileStatus({ input: 'valid', results: 'valid' });
+            setFileErrors({ input: null, results: null });
+            setProfileId(session.profileId);
+            setResetKey(prev => prev + 1);
+            setActiveTab('scouted');
+            setPreviewVariant('data');
+            setPreviousExport(null);
+            setPreviousFile({ name: '', status: 'waiting', error: null });
+            setSalesforceFiles([]);
+            setSalesforceStatus({ status: 'waiting', error: null });
+            activateSession(session.id);
+            skipNextSave.current = session.output !== null;
+            setOutputData(session.output);
+            setLogs([
+                ...session.logs,
+                { message: `Session from ${new Date(session.updatedAt).toLocaleString()} restored (${session.fileNames.input} + ${session.fileNames.results}).`, type: 'success', timestamp: new Date().toISOString() },
+            ]);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addLog(`Could not open the saved session: ${errorMessage}`, 'error');
+        }
+    };
+
+    const handleDeleteSession = async (id: string) => {
+        try {
+            await deleteSession(id);
+            if (sessionIdRef.current === id) activateSession(null);
+            refreshSessions();
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addLog(`Could not delete the saved session: ${errorMessage}`, 'error');
+        }
+    };
+
     const handleReset = () => {
         setFiles({ input: null, results: null });
+        setFileNames({ input: '', results: '' });
+        setFileHashes({ input: '', results: '' });
+        setProjectName('');
+        activateSession(null);
         setFileStatus({ input: 'waiting', results: 'waiting' });
         setFileErrors({ input: null, results: null });
         setLogs([]);
@@ -178,8 +701,38 @@ const App = () => {
         fileDataCache.current = { input: null, results: null };
         setResetKey(prev => prev + 1);
         setActiveTab('scouted');
+        setPreviewVariant('data');
+        setPreviousExport(null);
+        setPreviousFile({ name: '', status: 'waiting', error: null });
+        setSalesforceFiles([]);
+        setSalesforceStatus({ status: 'waiting', error: null });
     };
 
+    // Chosen before a run; shown in Step 2 and above the batch panel
+    const ownerPolicyPanel = (
+        <OwnerPolicyPanel
+            policy={ownerPolicy}
+            customPolicies={customPolicies}
+            onSelect={handleOwnerPolicySelect}
+            onChange={setOwnerPolicy}
+            onSave={handleOwnerPolicySave}
+            onDelete={handleOwnerPolicyDelete}
+            disabled={isBusy}
+        />
+    );
+
+    const overridesPanel = (
+        <OverridesPanel
+            overrides={overrides}
+            onChange={handleOverridesChange}
+            onUndo={handleOverridesUndo}
+            canUndo={overrideHistory.length > 0}
+            onImport={handleOverridesImport}
+            onExport={handleOverridesExport}
+            disabled={isBusy}
+        />
+    );
+
     return (
         <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-900 to-slate-800 text-slate-200 p-8 pb-16 relative overflow-x-hidden">
             <div className="max-w-4xl mx-auto space-y-8 relative z-10">
@@ -207,8 +760,45 @@ const App = () => {
                 {/* Tutorial Section */}
                 <Tutorial />
 
+                {/* Saved Sessions */}
+                {isSessionStoreAvailable() && (
+                    <SessionList
+                        sessions={sessions}
+                        activeSessionId={sessionId}
+                        onOpen={handleOpenSession}
+                        onDelete={handleDeleteSession}
+                        disabled={isBusy}
+                    />
+                )}
+
+                {/* Mode */}
+                <div className="flex space-x-1 bg-slate-800/80 p-1.5 rounded-xl">
+                    {(['single', 'batch'] as const).map(m => (
+                        <button
+                            key={m}
+                            onClick={() => setMode(m)}
+                            disabled={isBusy}
+                            className={`flex-1 py-2.5 text-sm font-bold rounded-lg transition-all duration-200 disabled:cursor-not-allowed ${
+                                mode === m
+                                ? 'bg-slate-600 text-white shadow-md ring-1 ring-white/10'
+                                : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700/50'
+                            }`}
+                        >
+                            {m === 'single' ? 'Single Project' : 'Batch (Many Projects)'}
+                        </button>
+                    ))}
+                </div>
+
+                {mode === 'batch' && (
+                    <>
+                        {ownerPolicyPanel}
+                        {overridesPanel}
+                        <BatchPanel profileId={profileId} customProfiles={customProfiles} onProfileChange={setProfileId} ownerPolicy={ownerPolicy} overrides={activeOverrides} />
+                    </>
+                )}
+
                 {/* Pipeline Steps Container with visual connector */}
-                <div className="relative space-y-8">
+                <div className={`relative space-y-8 ${mode === 'batch' ? 'hidden' : ''}`}>
                     {/* Vertical Connecting Line */}
                     <div className="absolute left-[29px] top-8 bottom-8 w-0.5 bg-gradient-to-b from-slate-700 via-green-900/50 to-slate-700 -z-10 hidden md:block"></div>
 
@@ -219,6 +809,19 @@ const App = () => {
                             Upload Files
                     </h2>
                     
+                    <div className="mb-6 pl-0 md:pl-12">
+                            <ColumnProfilePanel
+                                profileId={profileId}
+                                customProfiles={customProfiles}
+                                onSelect={(id) => handleProfileChange(id)}
+                                onSave={handleColumnProfileSave}
+                                onDelete={handleColumnProfileDelete}
+                                onImport={handleColumnProfilesImport}
+                                onExport={handleColumnProfilesExport}
+                                disabled={isBusy}
+                            />
+                    </div>
+
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6 pl-0 md:pl-12">
                             <Dropzone 
                                 key={`input-${resetKey}`}
@@ -226,7 +829,8 @@ const App = () => {
                                 description="Select 'Input File' (xlsx)"
                                 onFileSelect={(f) => handleFileChange(f, 'input')}
                                 status={fileStatus.input}
-                                fileName={files.input?.name}
+                                progress={progress.input}
+                                fileName={fileNames.input}
                                 errorMessage={fileErrors.input}
                             />
                             <Dropzone 
@@ -235,9 +839,22 @@ const App = () => {
                                 description="Select 'Results File' (xlsx)"
                                 onFileSelect={(f) => handleFileChange(f, 'results')}
                                 status={fileStatus.results}
-                                fileName={files.results?.name}
+                                progress={progress.results}
+                                fileName={fileNames.results}
                                 errorMessage={fileErrors.results}
                             />
+                            <div className="md:col-span-2">
+                                <Dropzone
+                                    key={`previous-${resetKey}`}
+                                    title="previous"
+                                    description="Optional: previous Salesforce export (csv/xlsx) to upload only changes"
+                                    onFileSelect={handlePreviousFileChange}
+                                    status={previousFile.status}
+                                    fileName={previousFile.name}
+                                    errorMessage={previousFile.error}
+                                    accept=".csv, .xlsx, .xls"
+                                />
+                            </div>
                     </div>
                     </div>
 
@@ -249,6 +866,8 @@ const App = () => {
                         </h2>
                         
                         <div className="pl-0 md:pl-12">
+                            {ownerPolicyPanel}
+                            {overridesPanel}
                             <div className="flex flex-col items-center justify-center py-4 bg-slate-800/30 rounded-xl border border-slate-700/50">
                                 <Button 
                                     onClick={handleRunTransformation} 
@@ -267,12 +886,20 @@ const App = () => {
                                         </>
                                     )}
                                 </Button>
+                                {isBusy && (
+                                    <button
+                                        onClick={handleCancel}
+                                        className="mt-3 px-4 py-1.5 text-sm font-semibold text-red-300 hover:text-white hover:bg-red-900/40 rounded-lg border border-red-800/60 transition-colors"
+                                    >
+                                        Cancel
+                                    </button>
+                                )}
                                 <p className="mt-4 text-sm text-slate-500">
                                     Validates structure, merges owners, and formats for Salesforce.
                                 </p>
                             </div>
 
-                            <LogConsole logs={logs} />
+                            <LogConsole logs={logs} progress={progress.process} />
                         </div>
                     </div>
 
@@ -286,6 +913,51 @@ const App = () => {
                         <div className="pl-0 md:pl-12">
                             {outputData ? (
                                 <>
+                                    {/* Data Quality */}
+                                    {(() => {
+                                        const counts = countBySeverity(outputData.quality);
+                                        return (
+                                            <div className="flex flex-col sm:flex-row items-center justify-between gap-3 bg-slate-800/40 rounded-xl px-4 py-3 mb-6 border border-slate-700/50">
+                                                <p className="text-sm text-slate-300">
+                                                    Data quality: <span className="text-red-400 font-semibold">{counts.error} errors</span> · <span className="text-amber-400 font-semibold">{counts.warning} warnings</span> · <span className="text-slate-400">{counts.info} info</span>
+                                                </p>
+                                                <Button variant="secondary" onClick={handleDownloadQualityReport} className="text-sm py-2" title="Per-rule issue counts with Parcel_ID, External ID and row references">
+                                                    <DownloadIcon className="w-4 h-4" />
+                                                    <span>Quality Report</span>
+                                                </Button>
+                                                <Button variant="secondary" onClick={handleDownloadReviewWorkbook} className="text-sm py-2" title="One formatted workbook: a sheet per Carga with highlighted rows to review, plus summary and issues">
+                                                    <DownloadIcon className="w-4 h-4" />
+                                                    <span>Review Workbook</span>
+                                                </Button>
+                                            </div>
+                                        );
+                                    })()}
+
+                                    {/* Download all */}
+                                    <div className="flex flex-col md:flex-row md:items-end gap-3 bg-slate-800/40 rounded-xl px-4 py-3 mb-6 border border-slate-700/50">
+                                        <label className="flex-1 text-xs font-medium text-slate-400">
+                                            Project
+                                            <input
+                                                value={projectName}
+                                                onChange={(e) => setProjectName(e.target.value)}
+                                                className="mt-1 w-full bg-slate-800 border border-slate-600 text-slate-200 text-sm rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+                                            />
+                                        </label>
+                                        <label className="flex-1 text-xs font-medium text-slate-400" title="Placeholders: {project}, {name}, {date}">
+                                            File names
+                                            <input
+                                                value={fileNameTemplate}
+                                                onChange={(e) => handleFileNameTemplateChange(e.target.value)}
+                                                className="mt-1 w-full bg-slate-800 border border-slate-600 text-slate-200 text-sm rounded-lg px-3 py-2 font-mono focus:outline-none focus:ring-2 focus:ring-green-500"
+                                            />
+                                        </label>
+                                        <Button onClick={handleDownloadAll} className="text-sm py-2" title="Excel checks, Salesforce CSVs, owner CSVs, quality report, review workbook, log and manifest.json in one ZIP">
+                                            <DownloadIcon className="w-4 h-4" />
+                                            <span>Download All (ZIP)</span>
+                                        </Button>
+                                    </div>
+                                    <p className="text-xs text-slate-500 -mt-4 mb-6 px-1">e.g. {outputFileName('scouted_data.csv')}</p>
+
                                     {/* Tabs */}
                                     <div className="flex space-x-1 bg-slate-800/80 p-1.5 rounded-xl mb-6">
                                     {['scouted', 'retrieved', 'contacted'].map((tab) => (
@@ -316,6 +988,14 @@ const App = () => {
                                                 <p className="text-slate-400 text-sm mt-1 font-medium">
                                                     {outputData[activeTab].length} records ready for export
                                                 </p>
+                                                {deltaReport && (() => {
+                                                    const c = deltaReport.cargas[CSV_DATASETS[activeTab].csvKey].counts;
+                                                    return (
+                                                        <p className="text-slate-400 text-xs mt-1">
+                                                            Delta: <span className="text-green-400">{c.new} new</span> · <span className="text-amber-400">{c.changed} changed</span> · {c.unchanged} unchanged · <span className="text-red-400">{c.blocked} blocked</span>
+                                                        </p>
+                                                    );
+                                                })()}
                                             </div>
                                             <div className="flex flex-col sm:flex-row items-center gap-3 w-full md:w-auto">
                                                 {/* Secondary Action: Excel */}
@@ -329,21 +1009,146 @@ const App = () => {
                                                     <span>Excel (Check)</span>
                                                 </Button>
 
-                                                {/* Primary Action: CSV */}
+                                                {/* Primary Action: export in the selected target */}
+                                                <select
+                                                    aria-label="Export target"
+                                                    value={exportTargetId}
+                                                    onChange={(e) => setExportTargetId(e.target.value)}
+                                                    className="w-full sm:w-auto bg-slate-800 border border-slate-600 text-slate-200 text-sm rounded-lg px-3 py-3 focus:outline-none focus:ring-2 focus:ring-green-500"
+                                                >
+                                                    {EXPORT_TARGETS.map(t => (
+                                                        <option key={t.id} value={t.id} title={t.description}>{t.name}</option>
+                                                    ))}
+                                                </select>
                                                 <Button 
-                                                    onClick={() => handleDownloadCSV(
-                                                        activeTab === 'scouted' ? 'csvScouted' : 
-                                                        activeTab === 'retrieved' ? 'csvRetrieved' : 'csvContacted', 
-                                                        `${activeTab}_data.csv`
-                                                    )}
+                                                    onClick={() => handleDownloadExport(activeTab)}
                                                     className="w-full sm:w-auto bg-green-600 hover:bg-green-500 text-white shadow-lg shadow-green-900/30 border border-green-500/20"
-                                                    title="Download formatted CSV for Salesforce"
+                                                    title={getExportTarget(exportTargetId)?.description}
                                                 >
                                                     <CsvIcon className="w-5 h-5" />
-                                                    <span>Download CSV</span>
+                                                    <span>Download</span>
                                                 </Button>
+
+                                                {activeTab !== 'scouted' && (
+                                                    <Button
+                                                        variant="secondary"
+                                                        onClick={() => handleDownloadOwnersCSV(activeTab)}
+                                                        className="w-full sm:w-auto text-sm"
+                                                        title="One row per owner per parcel, for Contact-to-Land junction records"
+                                                    >
+                                                        <CsvIcon className="w-4 h-4" />
+                                                        <span>Owners ({ownersRows.length})</span>
+                                                    </Button>
+                                                )}
+
+                                                {deltaReport && (
+                                                    <Button
+                                                        variant="secondary"
+                                                        onClick={() => handleDownloadChangesCSV(
+                                                            CSV_DATASETS[activeTab].csvKey,
+                                                            `${activeTab}_changes.csv`
+                                                        )}
+                                                        className="w-full sm:w-auto text-sm"
+                                                        title="Only new and changed leads; leads already further along in Salesforce keep their Salesforce Lead Status"
+                                                    >
+                                                        <CsvIcon className="w-4 h-4" />
+                                                        <span>Changes only</span>
+                                                    </Button>
+                                                )}
+                                            </div>
+                                        </div>
+                                    </div>
+
+                                    {/* Preview & Edit */}
+                                    <div className="mt-6 bg-slate-800/40 rounded-xl p-4 border border-slate-700/50">
+                                        <div className="flex items-center justify-between mb-4">
+                                            <h4 className="text-sm font-bold text-white">Preview &amp; Edit</h4>
+                                            <div className="flex space-x-1 bg-slate-900/60 p-1 rounded-lg">
+                                                {(['data', 'csv', 'owners', 'audit', ...(deltaReport ? ['delta'] as const : []), ...(reconcileReport ? ['reconcile'] as const : [])] as const).map(variant => (
+                                                    <button
+                                                        key={variant}
+                                                        onClick={() => setPreviewVariant(variant)}
+                                                        className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${
+                                                            previewVariant === variant ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-slate-200'
+                                                        }`}
+                                                    >
+                                                        {variant === 'data' ? 'Excel (Check)' : variant === 'csv' ? 'Salesforce CSV' : variant === 'owners' ? 'Owners' : variant === 'audit' ? 'Audit' : variant === 'delta' ? 'Delta' : 'Reconcile'}
+                                                    </button>
+                                                ))}
                                             </div>
                                         </div>
+                                        {previewVariant === 'owners' || previewVariant === 'audit' || (previewVariant === 'delta' && deltaReport) || (previewVariant === 'reconcile' && reconcileReport) ? (
+                                            <DataGrid
+                                                key={`${activeTab}-${previewVariant}`}
+                                                rows={previewVariant === 'owners' ? ownersRows : previewVariant === 'audit' ? auditRows : previewVariant === 'delta' ? deltaRows : reconcileRows}
+                                            />
+                                        ) : (
+                                            <DataGrid
+                                                key={`${activeTab}-${previewVariant}`}
+                                                rows={outputData[previewVariant === 'csv' ? CSV_DATASETS[activeTab].csvKey : activeTab]}
+                                                onCellEdit={handleCellEdit}
+                                            />
+                                        )}
+                                    </div>
+
+                                    {/* Reconcile with Salesforce */}
+                                    <div className="mt-6 bg-slate-800/40 rounded-xl p-4 border border-slate-700/50 space-y-4">
+                                        <div className="flex items-center justify-between">
+                                            <h4 className="text-sm font-bold text-white">Reconcile with Salesforce</h4>
+                                            {salesforceFiles.length > 0 && (
+                                                <button onClick={handleClearSalesforceFiles} className="text-xs font-semibold text-slate-400 hover:text-slate-200">
+                                                    Clear files
+                                                </button>
+                                            )}
+                                        </div>
+                                        <Dropzone
+                                            key={`salesforce-${resetKey}`}
+                                            title="salesforce"
+                                            description="After uploading: Salesforce success/error files or a report export (csv/xlsx), joined on Land External ID"
+                                            onFilesSelect={handleSalesforceFilesChange}
+                                            multiple
+                                            status={salesforceStatus.status}
+                                            errorMessage={salesforceStatus.error}
+                                            accept=".csv, .xlsx, .xls"
+                                        />
+                                        {reconcileReport && (() => {
+                                            const key = CSV_DATASETS[activeTab].csvKey;
+                                            const c = reconcileReport.cargas[key].counts;
+                                            return (
+                                                <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                                                    <div className="text-xs text-slate-400 space-y-1">
+                                                        {reconcileReport.files.map(f => (
+                                                            <div key={f.fileName} className="flex items-center gap-2">
+                                                                <span>{f.fileName} ({f.kind}, {f.rows})</span>
+                                                                <select
+                                                                    aria-label={`Carga of ${f.fileName}`}
+                                                                    value={f.carga || ''}
+                                                                    onChange={(e) => handleSalesforceCargaChange(f.fileName, (e.target.value || null) as CsvDatasetKey | null)}
+                                                                    className={`bg-slate-800 border text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-green-500 ${f.carga ? 'border-slate-600 text-slate-200' : 'border-red-700 text-red-300'}`}
+                                                                >
+                                                                    {!f.carga && <option value="">Choose Carga (not reconciled)</option>}
+                                                                    <option value="csvScouted">Scouted (Carga 1)</option>
+                                                                    <option value="csvRetrieved">Retrieved (Carga 2)</option>
+                                                                    <option value="csvContacted">Contacted (Carga 3)</option>
+                                                                </select>
+                                                            </div>
+                                                        ))}
+                                                        <p>
+                                                            <span className="text-green-400">{c.loaded} loaded</span> · <span className="text-amber-400">{c.changed} changed by Salesforce</span> · <span className="text-red-400">{c.failed} failed</span> · <span className="text-red-400">{c.missing} missing</span>{c.unverified > 0 && ` · ${c.unverified} not in any file`}
+                                                        </p>
+                                                    </div>
+                                                    <Button
+                                                        variant="secondary"
+                                                        onClick={() => handleDownloadRetryCSV(key, `${activeTab}_retry.csv`)}
+                                                        className="text-sm"
+                                                        title="Failed and missing leads in the Salesforce CSV layout, to upload again"
+                                                    >
+                                                        <CsvIcon className="w-4 h-4" />
+                                                        <span>Retry CSV ({c.failed + c.missing})</span>
+                                                    </Button>
+                                                </div>
+                                            );
+                                        })()}
                                     </div>
                                 </>
                             ) : (
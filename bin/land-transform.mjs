@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// Thin launcher so `land-transform` can run the TypeScript CLI without a separate build step.
+import { register } from 'tsx/esm/api';
+
+register();
+await import('../cli/land-transform.ts');
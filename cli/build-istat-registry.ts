@@ -0,0 +1,108 @@
+// Rebuilds services/istatMunicipalities.ts from the ISTAT "Elenco comuni italiani" CSV
+// (https://www.istat.it/classificazione/codici-dei-comuni-delle-province-e-delle-regioni/).
+//
+// Usage: npm run istat-registry -- <Elenco-comuni-italiani.csv> [YYYY-MM-DD]
+// The date is the day the list refers to; it defaults to a date in the file name (e.g. "Elenco-comuni-italiani-2020-01-01.csv"),
+// else today. Province codes are read as of that date, since some are reused (SU: Sud Sardegna, then Sulcis Iglesiente).
+
+import { readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { resolve, basename, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const OUTPUT = resolve(dirname(fileURLToPath(import.meta.url)), '../services/istatMunicipalities.ts');
+
+// Header names differ slightly between ISTAT releases, so columns are found by pattern
+const COLUMNS = {
+    istatCode: /codice comune formato alfanumerico/i,
+    cadastralCode: /codice catastale/i,
+    name: /denominazione in italiano/i,
+    otherName: /denominazione altra lingua/i,
+    province: /sigla automobilistica/i,
+    region: /denominazione regione/i,
+};
+
+// Older releases are Windows-1252, newer ones UTF-8
+const decode = (buffer: Buffer): string => {
+    const utf8 = buffer.toString('utf-8');
+    return (utf8.includes('\uFFFD') ? buffer.toString('latin1') : utf8).replace(/^\uFEFF/, '');
+};
+
+// Semicolon-separated, with quoted fields that may contain line breaks (some ISTAT headers span two lines)
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let current = '';
+    let quoted = false;
+    const endRow = () => {
+        row.push(current.trim());
+        if (row.some(v => v !== '')) rows.push(row);
+        row = [];
+        current = '';
+    };
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quoted) {
+            if (c === '"' && text[i + 1] === '"') { current += '"'; i++; }
+            else if (c === '"') quoted = false;
+            else current += c;
+        } else if (c === '"') {
+            quoted = true;
+        } else if (c === ';') {
+            row.push(current.trim());
+            current = '';
+        } else if (c === '\n') {
+            endRow();
+        } else if (c !== '\r') {
+            current += c;
+        }
+    }
+    endRow();
+    return rows;
+};
+
+const main = (argv: string[]): number => {
+    const input = argv[0];
+    if (!input || !existsSync(resolve(input))) {
+        console.error('Usage: npm run istat-registry -- <Elenco-comuni-italiani.csv> [YYYY-MM-DD]');
+        return 2;
+    }
+    const dateInName = basename(input).match(/(\d{4})-?(\d{2})-?(\d{2})/);
+    const validOn = argv[1] || (dateInName ? `${dateInName[1]}-${dateInName[2]}-${dateInName[3]}` : new Date().toISOString().slice(0, 10));
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(validOn)) {
+        console.error(`Invalid date '${validOn}', expected YYYY-MM-DD.`);
+        return 2;
+    }
+
+    const [headers, ...records] = parseCsv(decode(readFileSync(resolve(input))));
+    const keys = Object.keys(COLUMNS) as (keyof typeof COLUMNS)[];
+    const indexes = keys.map(key => headers.findIndex(h => COLUMNS[key].test(h)));
+    const missing = keys.findIndex((_, i) => indexes[i] < 0);
+    if (missing >= 0) {
+        console.error(`Column matching ${COLUMNS[keys[missing]]} not found. Headers: ${headers.join(' | ')}`);
+        return 1;
+    }
+
+    const rows = records
+        .filter(v => v[indexes[keys.indexOf('istatCode')]])
+        .map(v => indexes.map(i => (v[i] || '').replace(/;/g, ',')).join(';'))
+        .sort();
+
+    const content = `// Generated by cli/build-istat-registry.ts from the ISTAT "Elenco comuni italiani" CSV. Do not edit by hand;
+// re-run \`npm run istat-registry -- <Elenco-comuni-italiani.csv>\` when ISTAT publishes a new list.
+
+export const ISTAT_MUNICIPALITIES_SOURCE = {
+    file: '${basename(input).replace(/'/g, "\\'")}',
+    generatedAt: '${new Date().toISOString().slice(0, 10)}',
+    validOn: '${validOn}',
+    complete: true,
+};
+
+// istat;belfiore;name;otherLanguageName;province;region
+export const ISTAT_MUNICIPALITIES = \`${rows.join('\n').replace(/[`\\$]/g, c => `\\${c}`)}\`;
+`;
+    writeFileSync(OUTPUT, content, 'utf-8');
+    console.log(`Wrote ${OUTPUT} (${rows.length} comuni).`);
+    return 0;
+};
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,294 @@
+// Headless entry point: runs the same validation and Carga 1/2/3 transformation as the browser UI
+// and writes the Excel check files, the Salesforce CSVs and the per-owner contact CSVs to an output directory.
+//
+// Usage: land-transform --input <input.xlsx> --results <results.xlsx> [--out <dir>] [--profile <id>] [--profile-file <file.json>] [--policy <id|file.json>] [--overrides <file>] [--previous <export.csv>] [--salesforce [<carga>=]<file>...] [--target <id>...] [--quiet]
+//
+// Exit codes: 0 success, 1 validation failed, 2 usage or unexpected error.
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { resolve, basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import * as XLSX from 'xlsx';
+import { parseWorkbook, prepareWorkbook, runProcess } from '../services/transformer';
+import type { LogFunction } from '../services/transformer';
+import { COLUMN_PROFILES, AUTO_PROFILE_ID, parseStoredProfiles } from '../services/columnProfiles';
+import type { ColumnProfile, ProfileFileType } from '../services/columnProfiles';
+import { buildCsv, buildOutputFiles, buildTargetExport, OUTPUT_FILES } from '../services/exporter';
+import { EXPORT_TARGETS, SALESFORCE_TARGET_ID, getExportTarget } from '../services/exportTargets';
+import type { ExportTarget } from '../services/exportTargets';
+import type { CsvDatasetKey } from '../services/outputEditor';
+import { parsePreviousExport, compareWithPrevious, changesOnly, deltaToRows } from '../services/delta';
+import type { PreviousExport } from '../services/delta';
+import { parseSalesforceFile, reconcileRun, reconcileToRows, retryRows } from '../services/reconcile';
+import type { SalesforceFile } from '../services/reconcile';
+import { OWNER_POLICIES, DEFAULT_OWNER_POLICY_ID, normalizePolicy } from '../services/ownerPolicy';
+import type { OwnerPolicy } from '../services/ownerPolicy';
+import { parseOverrideSheet } from '../services/overrides';
+import type { ParcelOverride } from '../services/overrides';
+
+const EXIT_OK = 0;
+const EXIT_VALIDATION = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: land-transform --input <input.xlsx> --results <results.xlsx> [--out <dir>] [--profile <id>] [--profile-file <file.json>] [--policy <id|file.json>] [--overrides <file>] [--previous <export.csv>] [--salesforce [<carga>=]<file>...] [--target <id>...] [--quiet]
+
+Options:
+  -i, --input     Input workbook (sheet Hoja1/Sheet1)
+  -r, --results   Results workbook (All_Raw_Data, Owners_Normalized, ...)
+  -o, --out       Output directory (default: ./output)
+  -p, --profile   Column mapping profile: ${[AUTO_PROFILE_ID, ...COLUMN_PROFILES.map(p => p.id)].join(', ')} or the id of a --profile-file profile (default: ${AUTO_PROFILE_ID})
+      --profile-file  JSON file with user-defined column profiles (one profile or a list, as exported by the app); also used by auto-detection
+      --policy    Owner selection policy: ${OWNER_POLICIES.map(p => p.id).join(', ')} or a JSON policy file (default: ${DEFAULT_OWNER_POLICY_ID})
+      --overrides Manual overrides spreadsheet (csv/xlsx, Key column = Land External ID or Parcel_ID), applied after owner selection
+  -d, --previous  Previous Salesforce export (csv/xlsx); also writes <carga>_changes.csv and <carga>_delta.csv
+  -s, --salesforce  Salesforce success/error file or report export (csv/xlsx), repeatable; writes <carga>_reconcile.csv and <carga>_retry.csv.
+                  The Carga is read from the file's Lead Status or External IDs; prefix scouted=, retrieved= or contacted= to set it
+  -t, --target    Extra export target, repeatable: ${EXPORT_TARGETS.filter(t => t.id !== SALESFORCE_TARGET_ID).map(t => t.id).join(', ')} (Salesforce CSVs are always written)
+  -q, --quiet     Only print errors and the final summary
+  -h, --help      Show this help`;
+
+const createLogger = (quiet: boolean): LogFunction => (message, type = 'info') => {
+    if (type === 'error') {
+        console.error(`[error] ${message}`);
+    } else if (!quiet) {
+        console.log(`[${type}] ${message}`);
+    }
+};
+
+const loadWorkbook = (path: string, type: ProfileFileType, profileId: string, customProfiles: ColumnProfile[], log: LogFunction) => {
+    const label = type === 'input' ? 'Input' : 'Results';
+    const fullPath = resolve(path);
+    if (!existsSync(fullPath)) {
+        log(`${label} file not found: ${fullPath}`, 'error');
+        return null;
+    }
+    log(`Reading ${basename(fullPath)}...`);
+    const { jsonData, validation } = prepareWorkbook(parseWorkbook(readFileSync(fullPath), XLSX), type, log, profileId, customProfiles);
+    if (!validation.isValid) {
+        validation.errors.forEach(err => log(err, 'error'));
+        return null;
+    }
+    log(`'${basename(fullPath)}' loaded and validated successfully.`, 'success');
+    return jsonData;
+};
+
+const loadPreviousExport = (path: string, log: LogFunction): PreviousExport | null => {
+    const fullPath = resolve(path);
+    if (!existsSync(fullPath)) {
+        log(`Previous export not found: ${fullPath}`, 'error');
+        return null;
+    }
+    log(`Reading ${basename(fullPath)}...`);
+    const { previous, validation } = parsePreviousExport(parseWorkbook(readFileSync(fullPath), XLSX));
+    validation.errors.forEach(err => log(err, 'error'));
+    if (previous) log(`Previous export '${basename(fullPath)}' loaded with ${previous.rows.size} External IDs.`, 'success');
+    return previous;
+};
+
+// 'retrieved=errors.csv' assigns the file to that Carga instead of inferring it
+const loadSalesforceFile = (arg: string, log: LogFunction): SalesforceFile | null => {
+    const prefix = DELTA_FILES.find(({ carga }) => arg.startsWith(`${carga}=`));
+    const fullPath = resolve(prefix ? arg.slice(prefix.carga.length + 1) : arg);
+    if (!existsSync(fullPath)) {
+        log(`Salesforce file not found: ${fullPath}`, 'error');
+        return null;
+    }
+    log(`Reading ${basename(fullPath)}...`);
+    const { file, validation } = parseSalesforceFile(parseWorkbook(readFileSync(fullPath), XLSX), basename(fullPath));
+    validation.errors.forEach(err => log(err, 'error'));
+    if (file) log(`Salesforce ${file.kind} file '${file.fileName}' loaded with ${file.rows.size} External IDs.`, 'success');
+    return file && prefix ? { ...file, carga: prefix.key } : file;
+};
+
+const loadOverrides = (path: string, log: LogFunction): ParcelOverride[] | null => {
+    const fullPath = resolve(path);
+    if (!existsSync(fullPath)) {
+        log(`Overrides file not found: ${fullPath}`, 'error');
+        return null;
+    }
+    log(`Reading ${basename(fullPath)}...`);
+    const { overrides, validation } = parseOverrideSheet(parseWorkbook(readFileSync(fullPath), XLSX), basename(fullPath));
+    validation.errors.forEach(err => log(err, 'error'));
+    if (!validation.isValid) return null;
+    log(`Overrides file '${basename(fullPath)}' loaded with ${overrides.length} override(s).`, 'success');
+    return overrides;
+};
+
+// Built-in preset id, or a JSON file with { id, name, rules: [{ id, enabled }] } (the format custom presets are stored in)
+const loadOwnerPolicy = (value: string): OwnerPolicy | string => {
+    const builtIn = OWNER_POLICIES.find(p => p.id === value);
+    if (builtIn) return builtIn;
+    const fullPath = resolve(value);
+    if (!existsSync(fullPath)) {
+        return `Unknown owner policy '${value}'. Available: ${OWNER_POLICIES.map(p => p.id).join(', ')}, or a JSON policy file`;
+    }
+    try {
+        const parsed = JSON.parse(readFileSync(fullPath, 'utf-8'));
+        if (!parsed || !Array.isArray(parsed.rules)) return `Owner policy file ${fullPath} has no 'rules' list.`;
+        return normalizePolicy({ id: basename(fullPath), name: basename(fullPath), description: '', ...parsed });
+    } catch (error) {
+        return `Owner policy file ${fullPath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`;
+    }
+};
+
+// JSON file with one user-defined column profile or a list of them (the format the app exports)
+const loadProfileFile = (path: string): ColumnProfile[] | string => {
+    const fullPath = resolve(path);
+    if (!existsSync(fullPath)) return `Column profile file not found: ${fullPath}`;
+    const profiles = parseStoredProfiles(readFileSync(fullPath, 'utf-8'));
+    if (profiles.length === 0) {
+        return `Column profile file ${fullPath} has no usable profile (invalid JSON, no 'id', or the id of a built-in profile).`;
+    }
+    return profiles;
+};
+
+const DELTA_FILES: { key: CsvDatasetKey, carga: string }[] = [
+    { key: 'csvScouted', carga: 'scouted' },
+    { key: 'csvRetrieved', carga: 'retrieved' },
+    { key: 'csvContacted', carga: 'contacted' },
+];
+
+const main = (argv: string[]): number => {
+    let args;
+    try {
+        args = parseArgs({
+            args: argv,
+            options: {
+                input: { type: 'string', short: 'i' },
+                results: { type: 'string', short: 'r' },
+                out: { type: 'string', short: 'o', default: 'output' },
+                profile: { type: 'string', short: 'p', default: AUTO_PROFILE_ID },
+                'profile-file': { type: 'string' },
+                policy: { type: 'string', default: DEFAULT_OWNER_POLICY_ID },
+                overrides: { type: 'string' },
+                previous: { type: 'string', short: 'd' },
+                salesforce: { type: 'string', short: 's', multiple: true, default: [] },
+                target: { type: 'string', short: 't', multiple: true, default: [] },
+                quiet: { type: 'boolean', short: 'q', default: false },
+                help: { type: 'boolean', short: 'h', default: false },
+            },
+        }).values;
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        console.error(USAGE);
+        return EXIT_ERROR;
+    }
+
+    if (args.help) {
+        console.log(USAGE);
+        return EXIT_OK;
+    }
+    if (!args.input || !args.results) {
+        console.error('Both --input and --results are required.');
+        console.error(USAGE);
+        return EXIT_ERROR;
+    }
+
+    const targets: ExportTarget[] = [];
+    for (const id of args.target || []) {
+        const target = getExportTarget(id);
+        if (!target) {
+            console.error(`Unknown export target '${id}'. Available: ${EXPORT_TARGETS.map(t => t.id).join(', ')}`);
+            return EXIT_ERROR;
+        }
+        if (target.id !== SALESFORCE_TARGET_ID && !targets.includes(target)) targets.push(target);
+    }
+
+    const policy = loadOwnerPolicy(String(args.policy));
+    if (typeof policy === 'string') {
+        console.error(policy);
+        return EXIT_ERROR;
+    }
+
+    const customProfiles = args['profile-file'] ? loadProfileFile(args['profile-file']) : [];
+    if (typeof customProfiles === 'string') {
+        console.error(customProfiles);
+        return EXIT_ERROR;
+    }
+
+    const log = createLogger(Boolean(args.quiet));
+
+    try {
+        const profileId = String(args.profile);
+        const inputJson = loadWorkbook(args.input, 'input', profileId, customProfiles, log);
+        const resultsJson = loadWorkbook(args.results, 'results', profileId, customProfiles, log);
+        const previous = args.previous ? loadPreviousExport(args.previous, log) : null;
+        const salesforceFiles = (args.salesforce || []).map(path => loadSalesforceFile(path, log));
+        const overrides = args.overrides ? loadOverrides(args.overrides, log) : [];
+        if (!inputJson || !resultsJson || !overrides || (args.previous && !previous) || salesforceFiles.some(f => !f)) {
+            log('Validation failed. No output files were written.', 'error');
+            return EXIT_VALIDATION;
+        }
+
+        log('Starting transformation process...');
+        const output = runProcess(inputJson, resultsJson, log, () => {}, policy, overrides);
+
+        const outDir = resolve(String(args.out));
+        mkdirSync(outDir, { recursive: true });
+
+        // Same file set as the browser download and the batch ZIP
+        const files = buildOutputFiles(output, XLSX);
+        OUTPUT_FILES.filter(({ fileName }) => !files.some(f => f.fileName === fileName)).forEach(({ fileName }) => {
+            log(`No data available for ${fileName}, skipped.`, 'info');
+        });
+        files.forEach(({ fileName, content }) => {
+            const target = resolve(outDir, fileName);
+            if (typeof content === 'string') {
+                writeFileSync(target, content, 'utf-8');
+            } else {
+                writeFileSync(target, new Uint8Array(content));
+            }
+            const dataset = OUTPUT_FILES.find(f => f.fileName === fileName);
+            log(`Wrote ${target}${dataset ? ` (${output[dataset.key].length} rows)` : ''}.`, 'success');
+        });
+
+        targets.forEach(target => {
+            (['scouted', 'retrieved', 'contacted'] as const).forEach(key => {
+                const { fileName, content, rowCount } = buildTargetExport(output, key, target);
+                if (rowCount === 0) {
+                    log(`No data available for ${fileName}, skipped.`, 'info');
+                    return;
+                }
+                writeFileSync(resolve(outDir, fileName), content, 'utf-8');
+                log(`Wrote ${resolve(outDir, fileName)} (${rowCount} rows, ${target.name}).`, 'success');
+            });
+        });
+
+        if (previous) {
+            const report = compareWithPrevious(output, previous);
+            DELTA_FILES.forEach(({ key, carga }) => {
+                const c = report.cargas[key].counts;
+                log(`Delta ${carga}: ${c.new} new, ${c.changed} changed, ${c.unchanged} unchanged, ${c.blocked} blocked.`);
+                writeFileSync(resolve(outDir, `${carga}_changes.csv`), buildCsv(changesOnly(output, report, key)), 'utf-8');
+                writeFileSync(resolve(outDir, `${carga}_delta.csv`), buildCsv(deltaToRows(report, key)), 'utf-8');
+            });
+            if (report.missing.length > 0) {
+                log(`Delta: ${report.missing.length} External ID(s) from the previous export are missing from this run.`, 'error');
+            }
+        }
+
+        if (salesforceFiles.length > 0) {
+            const report = reconcileRun(output, salesforceFiles as SalesforceFile[]);
+            report.files.forEach(f => {
+                const carga = DELTA_FILES.find(d => d.key === f.carga)?.carga;
+                if (carga) log(`Reconciling '${f.fileName}' against ${carga}.`);
+                else log(`Could not tell which Carga '${f.fileName}' belongs to; not reconciled. Pass it as scouted=, retrieved= or contacted=<file>.`, 'error');
+            });
+            DELTA_FILES.forEach(({ key, carga }) => {
+                const c = report.cargas[key].counts;
+                log(`Reconcile ${carga}: ${c.loaded} loaded, ${c.changed} changed by Salesforce, ${c.failed} failed, ${c.missing} missing, ${c.unverified} unverified.`);
+                writeFileSync(resolve(outDir, `${carga}_reconcile.csv`), buildCsv(reconcileToRows(report, key)), 'utf-8');
+                writeFileSync(resolve(outDir, `${carga}_retry.csv`), buildCsv(retryRows(output, report, key)), 'utf-8');
+            });
+        }
+
+        console.log(`Done: ${output.scouted.length} scouted, ${output.retrieved.length} retrieved, ${output.contacted.length} contacted.`);
+        return EXIT_OK;
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        log(`An unexpected error occurred during transformation: ${errorMessage}`, 'error');
+        return EXIT_ERROR;
+    }
+};
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,358 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { Dropzone } from './Dropzone';
+import { LogConsole } from './LogConsole';
+import { Button } from './Button';
+import { CsvIcon, DownloadIcon, RocketIcon } from './icons';
+import { loadWorkbookFile, runTransformation, cancelTransformJobs, JobCancelledError } from '../services/transformClient';
+import { assignBatchFile, batchPairProblem, buildBatchZip, combineBatchCsv, pairBatchFiles } from '../services/batch';
+import type { BatchAssignment, BatchFileRole, BatchPair, BatchProjectOutput } from '../services/batch';
+import { buildCsv } from '../services/exporter';
+import type { CsvDatasetKey } from '../services/outputEditor';
+import { COLUMN_PROFILES, AUTO_PROFILE_ID } from '../services/columnProfiles';
+import type { ColumnProfile } from '../services/columnProfiles';
+import type { OwnerPolicy } from '../services/ownerPolicy';
+import type { ParcelOverride } from '../services/overrides';
+import type { FileType, JobProgress, LogEntry } from '../types';
+
+type PairStatus = 'pending' | 'loading' | 'processing' | 'done' | 'invalid' | 'error' | 'cancelled';
+
+interface PairState {
+    status: PairStatus;
+    message: string;
+}
+
+interface BatchPanelProps {
+    profileId: string;
+    customProfiles: ColumnProfile[]; // User-defined column profiles, after the built-in ones
+    onProfileChange: (profileId: string) => void;
+    ownerPolicy: OwnerPolicy;     // Every project of the batch uses the same policy
+    overrides: ParcelOverride[];  // and the same manual overrides
+}
+
+const STATUS_STYLES: { [key in PairStatus]: string } = {
+    pending: 'text-slate-400',
+    loading: 'text-green-400',
+    processing: 'text-green-400',
+    done: 'text-green-400',
+    invalid: 'text-red-400',
+    error: 'text-red-400',
+    cancelled: 'text-amber-400',
+};
+
+const COMBINED_FILES: { key: CsvDatasetKey, label: string, fileName: string }[] = [
+    { key: 'csvScouted', label: 'Scouted', fileName: 'combined_scouted_data.csv' },
+    { key: 'csvRetrieved', label: 'Retrieved', fileName: 'combined_retrieved_data.csv' },
+    { key: 'csvContacted', label: 'Contacted', fileName: 'combined_contacted_data.csv' },
+];
+
+const pairKey = (pair: BatchPair) => pair.project.toLowerCase();
+
+export const BatchPanel = ({ profileId, customProfiles, onProfileChange, ownerPolicy, overrides }: BatchPanelProps) => {
+    const [files, setFiles] = useState<{ [fileName: string]: File }>({});
+    const [assignments, setAssignments] = useState<BatchAssignment[]>([]);
+    const [pairStates, setPairStates] = useState<{ [key: string]: PairState }>({});
+    const [outputs, setOutputs] = useState<BatchProjectOutput[]>([]);
+    const [logs, setLogs] = useState<LogEntry[]>([]);
+    const [progress, setProgress] = useState<JobProgress | null>(null);
+    const [isRunning, setIsRunning] = useState<boolean>(false);
+    const cancelled = useRef<boolean>(false);
+
+    const addLog = useCallback((message: string, type: 'info' | 'error' | 'success' = 'info') => {
+        setLogs(prev => [...prev, { message, type, timestamp: new Date().toISOString() }]);
+    }, []);
+
+    const pairs = useMemo(() => pairBatchFiles(assignments), [assignments]);
+    const unassigned = assignments.filter(a => a.role === 'unknown');
+
+    const setPairState = (pair: BatchPair, status: PairStatus, message: string = '') => {
+        setPairStates(prev => ({ ...prev, [pairKey(pair)]: { status, message } }));
+    };
+
+    // New files replace earlier files with the same name
+    const handleFilesSelect = (selected: File[]) => {
+        setFiles(prev => {
+            const next = { ...prev };
+            selected.forEach(f => { next[f.name] = f; });
+            return next;
+        });
+        setAssignments(prev => [
+            ...prev.filter(a => !selected.some(f => f.name === a.fileName)),
+            ...selected.map(f => assignBatchFile(f.name)),
+        ]);
+        setOutputs([]);
+        setPairStates({});
+    };
+
+    const updateAssignment = (fileName: string, changes: Partial<BatchAssignment>) => {
+        setAssignments(prev => prev.map(a => (a.fileName === fileName ? { ...a, ...changes } : a)));
+        setOutputs([]);
+        setPairStates({});
+    };
+
+    const removeFile = (fileName: string) => {
+        setAssignments(prev => prev.filter(a => a.fileName !== fileName));
+        setFiles(prev => {
+            const next = { ...prev };
+            delete next[fileName];
+            return next;
+        });
+        setOutputs([]);
+        setPairStates({});
+    };
+
+    const loadFile = async (pair: BatchPair, fileName: string, type: FileType, log: typeof addLog) => {
+        const { jsonData, validation } = await loadWorkbookFile(files[fileName], type, log, profileId, (stage, percent) => {
+            setProgress({ stage: `${pair.project}: ${stage}`, percent });
+        }, customProfiles);
+        if (!validation.isValid) {
+            validation.errors.forEach(err => log(err, 'error'));
+            setPairState(pair, 'invalid', `${fileName}: ${validation.errors[0]}`);
+            return null;
+        }
+        return jsonData;
+    };
+
+    // Pairs run one after the other so only one workbook pair is held by the worker at a time
+    const handleRun = async () => {
+        cancelled.current = false;
+        setIsRunning(true);
+        setOutputs([]);
+        setLogs([]);
+        setPairStates(Object.fromEntries(pairs.map(p => [pairKey(p), { status: 'pending', message: batchPairProblem(p) || '' }])));
+
+        const results: BatchProjectOutput[] = [];
+        for (const pair of pairs) {
+            if (cancelled.current) {
+                setPairState(pair, 'cancelled');
+                continue;
+            }
+            const problem = batchPairProblem(pair);
+            if (problem) {
+                addLog(`[${pair.project}] Skipped: ${problem}.`, 'error');
+                setPairState(pair, 'invalid', problem);
+                continue;
+            }
+
+            const log = (message: string, type: 'info' | 'error' | 'success' = 'info') => addLog(`[${pair.project}] ${message}`, type);
+            try {
+                setPairState(pair, 'loading', 'Validating files');
+                const inputJson = await loadFile(pair, pair.inputs[0], 'input', log);
+                const resultsJson = inputJson ? await loadFile(pair, pair.results[0], 'results', log) : null;
+                if (!inputJson || !resultsJson) continue;
+
+                setPairState(pair, 'processing', 'Transforming');
+                const { output } = await runTransformation(inputJson, resultsJson, log, (stage, percent) => {
+                    setProgress({ stage: `${pair.project}: ${stage}`, percent });
+                }, ownerPolicy, overrides);
+                results.push({ project: pair.project, output });
+                setPairState(pair, 'done', `${output.scouted.length} scouted, ${output.retrieved.length} retrieved, ${output.contacted.length} contacted`);
+                log('Transformation complete.', 'success');
+            } catch (error) {
+                if (error instanceof JobCancelledError) {
+                    setPairState(pair, 'cancelled');
+                    continue;
+                }
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                log(`An unexpected error occurred during transformation: ${errorMessage}`, 'error');
+                setPairState(pair, 'error', errorMessage);
+            }
+        }
+
+        setOutputs(results);
+        setProgress(null);
+        setIsRunning(false);
+        addLog(`Batch finished: ${results.length} of ${pairs.length} project(s) transformed.`, results.length === pairs.length ? 'success' : 'error');
+    };
+
+    const handleCancel = () => {
+        cancelled.current = true;
+        cancelTransformJobs();
+    };
+
+    const handleDownloadCombined = (key: CsvDatasetKey, fileName: string) => {
+        const { rows, duplicates } = combineBatchCsv(outputs, key);
+        if (rows.length === 0) {
+            addLog(`No data available to download for ${fileName}.`, 'error');
+            return;
+        }
+        if (duplicates.length > 0) {
+            addLog(`${fileName}: ${duplicates.length} External ID(s) appear in several projects and were kept once (first project wins).`, 'info');
+            duplicates.slice(0, 10).forEach(d => addLog(`  ${d.externalId}: ${d.projects.join(', ')}`, 'info'));
+        }
+        try {
+            window.saveAs(new Blob([buildCsv(rows)], { type: 'text/csv;charset=utf-8;' }), fileName);
+            addLog(`${fileName} downloaded successfully (${rows.length} rows).`, 'success');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addLog(`Failed to generate ${fileName}: ${errorMessage}`, 'error');
+        }
+    };
+
+    const handleDownloadZip = () => {
+        const fileName = 'batch_outputs.zip';
+        addLog(`Generating ${fileName}...`);
+        try {
+            window.saveAs(new Blob([buildBatchZip(outputs)], { type: 'application/zip' }), fileName);
+            addLog(`${fileName} downloaded successfully.`, 'success');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addLog(`Failed to generate ${fileName}: ${errorMessage}`, 'error');
+        }
+    };
+
+    const runnable = pairs.filter(p => !batchPairProblem(p)).length;
+
+    return (
+        <div className="bg-slate-900/50 p-6 rounded-2xl border border-slate-700 shadow-xl backdrop-blur-sm animate-fade-in space-y-6">
+            <h2 className="text-xl font-semibold flex items-center gap-4 text-white">Batch Processing</h2>
+
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <label htmlFor="batch-column-profile" className="text-sm font-medium text-slate-400">Column profile</label>
+                <select
+                    id="batch-column-profile"
+                    value={profileId}
+                    disabled={isRunning}
+                    onChange={(e) => onProfileChange(e.target.value)}
+                    className="bg-slate-800 border border-slate-600 text-slate-200 text-sm rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                    <option value={AUTO_PROFILE_ID}>Auto-detect from headers</option>
+                    {[...COLUMN_PROFILES, ...customProfiles].map(p => (
+                        <option key={p.id} value={p.id} title={p.description}>{p.name}</option>
+                    ))}
+                </select>
+            </div>
+
+            <Dropzone
+                title="batch"
+                description="Select every Input and Results file (xlsx); they are paired by project name"
+                onFilesSelect={handleFilesSelect}
+                multiple
+                status="waiting"
+            />
+
+            {assignments.length > 0 && (
+                <div className="bg-slate-800/40 rounded-xl p-4 border border-slate-700/50 overflow-x-auto">
+                    <h3 className="text-sm font-bold text-white mb-3">Files ({assignments.length})</h3>
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs text-slate-400">
+                                <th className="py-1 pr-3 font-semibold">File</th>
+                                <th className="py-1 pr-3 font-semibold">Type</th>
+                                <th className="py-1 pr-3 font-semibold">Project</th>
+                                <th />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {assignments.map(a => (
+                                <tr key={a.fileName} className="border-t border-slate-700/50">
+                                    <td className="py-1.5 pr-3 text-slate-200 break-all">{a.fileName}</td>
+                                    <td className="py-1.5 pr-3">
+                                        <select
+                                            aria-label={`Type of ${a.fileName}`}
+                                            value={a.role}
+                                            disabled={isRunning}
+                                            onChange={(e) => updateAssignment(a.fileName, { role: e.target.value as BatchFileRole })}
+                                            className="bg-slate-800 border border-slate-600 text-slate-200 text-xs rounded-lg px-2 py-1"
+                                        >
+                                            <option value="input">Input</option>
+                                            <option value="results">Results</option>
+                                            <option value="unknown">Ignore</option>
+                                        </select>
+                                    </td>
+                                    <td className="py-1.5 pr-3">
+                                        <input
+                                            aria-label={`Project of ${a.fileName}`}
+                                            value={a.project}
+                                            disabled={isRunning}
+                                            onChange={(e) => updateAssignment(a.fileName, { project: e.target.value })}
+                                            className="w-full bg-slate-800 border border-slate-600 text-slate-200 text-xs rounded-lg px-2 py-1"
+                                        />
+                                    </td>
+                                    <td className="py-1.5 text-right">
+                                        <button
+                                            onClick={() => removeFile(a.fileName)}
+                                            disabled={isRunning}
+                                            className="px-2 py-1 text-xs text-red-300 hover:text-white hover:bg-red-900/40 rounded-lg disabled:opacity-50"
+                                        >
+                                            Remove
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {unassigned.length > 0 && (
+                        <p className="text-xs text-amber-400 mt-2">{unassigned.length} file(s) could not be recognised as Input or Results and are ignored until a type is chosen.</p>
+                    )}
+                </div>
+            )}
+
+            {pairs.length > 0 && (
+                <div className="bg-slate-800/40 rounded-xl p-4 border border-slate-700/50">
+                    <h3 className="text-sm font-bold text-white mb-3">Projects ({pairs.length})</h3>
+                    <div className="space-y-2">
+                        {pairs.map(pair => {
+                            const state = pairStates[pairKey(pair)];
+                            const problem = batchPairProblem(pair);
+                            const status: PairStatus = state ? state.status : problem ? 'invalid' : 'pending';
+                            return (
+                                <div key={pairKey(pair)} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-lg border border-slate-700 bg-slate-800/40">
+                                    <div className="min-w-0">
+                                        <p className="text-sm text-slate-200 font-semibold truncate">{pair.project}</p>
+                                        <p className="text-xs text-slate-500 truncate">{[...pair.inputs, ...pair.results].join(' + ')}</p>
+                                    </div>
+                                    <p className={`text-xs font-semibold flex-shrink-0 ${STATUS_STYLES[status]}`}>
+                                        {status}{(state?.message || problem) ? ` · ${state?.message || problem}` : ''}
+                                    </p>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
+            <div className="flex flex-col items-center justify-center py-4 bg-slate-800/30 rounded-xl border border-slate-700/50">
+                <Button onClick={handleRun} disabled={isRunning || runnable === 0} className="w-full md:w-auto min-w-[200px]">
+                    <RocketIcon className="w-5 h-5" />
+                    {isRunning ? 'Processing...' : `Run ${runnable} Project(s)`}
+                </Button>
+                {isRunning && (
+                    <button
+                        onClick={handleCancel}
+                        className="mt-3 px-4 py-1.5 text-sm font-semibold text-red-300 hover:text-white hover:bg-red-900/40 rounded-lg border border-red-800/60 transition-colors"
+                    >
+                        Cancel
+                    </button>
+                )}
+            </div>
+
+            <LogConsole logs={logs} progress={progress} />
+
+            {outputs.length > 0 && !isRunning && (
+                <div className="flex flex-col sm:flex-row flex-wrap items-center gap-3">
+                    {COMBINED_FILES.map(({ key, label, fileName }) => (
+                        <React.Fragment key={key}>
+                            <Button
+                                variant="secondary"
+                                onClick={() => handleDownloadCombined(key, fileName)}
+                                className="w-full sm:w-auto text-sm"
+                                title="Salesforce CSV across all projects, deduplicated by Land External ID"
+                            >
+                                <CsvIcon className="w-4 h-4" />
+                                <span>Combined {label}</span>
+                            </Button>
+                        </React.Fragment>
+                    ))}
+                    <Button
+                        onClick={handleDownloadZip}
+                        className="w-full sm:w-auto text-sm"
+                        title="One folder per project with the Excel checks, Salesforce CSVs, owner CSVs and quality report"
+                    >
+                        <DownloadIcon className="w-4 h-4" />
+                        <span>ZIP per Project</span>
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,174 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDownIcon } from './icons';
+import { AUTO_PROFILE_ID, COLUMN_PROFILES, getProfile, setProfileAliases } from '../services/columnProfiles';
+import type { ColumnProfile, ProfileFileType } from '../services/columnProfiles';
+
+interface ColumnProfilePanelProps {
+    profileId: string;                          // Selected profile, or AUTO_PROFILE_ID
+    customProfiles: ColumnProfile[];
+    onSelect: (id: string) => void;
+    onSave: (profile: ColumnProfile, name: string) => void; // Save the edited aliases as a custom profile (overwrites one with the same name)
+    onDelete: (id: string) => void;
+    onImport: (file: File) => void;
+    onExport: () => void;
+    disabled?: boolean;
+}
+
+const FILE_TYPE_LABELS: { [key in ProfileFileType]: string } = {
+    input: 'Input file',
+    results: 'Results file',
+};
+
+const buttonClass = 'px-3 py-1.5 text-sm font-semibold text-slate-300 hover:text-white hover:bg-slate-700/60 rounded-lg border border-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+const inputClass = 'w-full bg-slate-800 border border-slate-600 text-slate-200 text-sm rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-green-500';
+
+// Aliases are edited as comma-separated text, keyed by file type, sheet and canonical column ('' = the sheet itself)
+type AliasTexts = { [key: string]: string };
+const textKey = (type: ProfileFileType, sheet: string, column: string | null) => `${type}|${sheet}|${column ?? ''}`;
+
+const toTexts = (profile: ColumnProfile): AliasTexts => {
+    const texts: AliasTexts = {};
+    (['input', 'results'] as ProfileFileType[]).forEach(type => profile[type].forEach(m => {
+        texts[textKey(type, m.sheet, null)] = m.sheetAliases.join(', ');
+        Object.keys(m.columns).forEach(c => {
+            texts[textKey(type, m.sheet, c)] = m.columns[c].join(', ');
+        });
+    }));
+    return texts;
+};
+
+const splitAliases = (text: string): string[] => text.split(',').map(a => a.trim()).filter(a => a !== '');
+
+export const ColumnProfilePanel = ({ profileId, customProfiles, onSelect, onSave, onDelete, onImport, onExport, disabled = false }: ColumnProfilePanelProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [profileName, setProfileName] = useState('');
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    // The editor starts from the selected profile; auto-detection starts from the standard layout
+    const profiles = [...COLUMN_PROFILES, ...customProfiles];
+    const base = getProfile(profileId, profiles) || COLUMN_PROFILES[0];
+    const isCustom = customProfiles.some(p => p.id === profileId);
+    const [texts, setTexts] = useState<AliasTexts>(() => toTexts(base));
+
+    useEffect(() => {
+        setTexts(toTexts(base));
+    }, [base]);
+
+    const draft = (): ColumnProfile => {
+        let profile = base;
+        (['input', 'results'] as ProfileFileType[]).forEach(type => base[type].forEach(m => {
+            profile = setProfileAliases(profile, type, m.sheet, null, splitAliases(texts[textKey(type, m.sheet, null)] || ''));
+            Object.keys(m.columns).forEach(c => {
+                profile = setProfileAliases(profile, type, m.sheet, c, splitAliases(texts[textKey(type, m.sheet, c)] || ''));
+            });
+        }));
+        return profile;
+    };
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onImport(file);
+        e.target.value = '';
+    };
+
+    const aliasInput = (type: ProfileFileType, sheet: string, column: string | null) => {
+        const key = textKey(type, sheet, column);
+        return (
+            <input
+                value={texts[key] || ''}
+                onChange={(e) => setTexts(prev => ({ ...prev, [key]: e.target.value }))}
+                disabled={disabled}
+                placeholder="Aliases, comma-separated"
+                aria-label={`Aliases for ${column === null ? `sheet ${sheet}` : `${sheet} column ${column}`}`}
+                className={inputClass}
+            />
+        );
+    };
+
+    return (
+        <div className="w-full bg-slate-800/40 rounded-xl p-4 border border-slate-700/50">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <label htmlFor="column-profile" className="text-sm font-medium text-slate-400">Column profile</label>
+                <select
+                    id="column-profile"
+                    value={profileId}
+                    onChange={(e) => onSelect(e.target.value)}
+                    disabled={disabled}
+                    className="bg-slate-800 border border-slate-600 text-slate-200 text-sm rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                    <option value={AUTO_PROFILE_ID}>Auto-detect from headers</option>
+                    {profiles.map(p => (
+                        <option key={p.id} value={p.id} title={p.description}>{p.name}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => setIsOpen(!isOpen)}
+                    className="sm:ml-auto flex items-center gap-1 text-xs font-semibold text-slate-400 hover:text-slate-200"
+                    aria-expanded={isOpen}
+                    aria-controls="column-profile-editor"
+                >
+                    Edit profiles
+                    <ChevronDownIcon className={`w-4 h-4 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+                </button>
+            </div>
+
+            {isOpen && (
+                <div id="column-profile-editor" className="mt-4 space-y-4 animate-fade-in">
+                    <p className="text-xs text-slate-500">
+                        Headers and sheet names listed here are renamed to the canonical name on the left (case, spaces and separators are ignored).
+                        Editing starts from '{base.name}'; save it under a new name to create a custom profile.
+                    </p>
+                    {(['input', 'results'] as ProfileFileType[]).map(type => (
+                        <div key={type} className="space-y-3">
+                            <h3 className="text-sm font-semibold text-slate-300">{FILE_TYPE_LABELS[type]}</h3>
+                            {base[type].map(m => (
+                                <div key={m.sheet} className="space-y-1 px-3 py-2 rounded-lg bg-slate-900/40 border border-slate-700/50">
+                                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-center">
+                                        <span className="text-sm text-slate-200">Sheet {m.sheet}</span>
+                                        <div className="sm:col-span-2">{aliasInput(type, m.sheet, null)}</div>
+                                    </div>
+                                    {Object.keys(m.columns).map(c => (
+                                        <div key={c} className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-center">
+                                            <span className="text-xs font-mono text-slate-400 pl-3">{c}</span>
+                                            <div className="sm:col-span-2">{aliasInput(type, m.sheet, c)}</div>
+                                        </div>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+
+                    <div className="flex flex-col sm:flex-row gap-2">
+                        <input
+                            value={profileName}
+                            onChange={(e) => setProfileName(e.target.value)}
+                            placeholder={isCustom ? base.name : 'Profile name'}
+                            className={`flex-1 ${inputClass}`}
+                        />
+                        <button
+                            onClick={() => { onSave(draft(), profileName.trim() || base.name); setProfileName(''); }}
+                            disabled={disabled || (!profileName.trim() && !isCustom)}
+                            className="px-3 py-1.5 text-sm font-semibold text-green-300 hover:text-white hover:bg-green-900/40 rounded-lg border border-green-800/60 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Save profile
+                        </button>
+                        {isCustom && (
+                            <button
+                                onClick={() => onDelete(profileId)}
+                                disabled={disabled}
+                                className="px-3 py-1.5 text-sm font-semibold text-red-300 hover:text-white hover:bg-red-900/40 rounded-lg border border-red-800/60 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Delete profile
+                            </button>
+                        )}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        <button onClick={() => fileInput.current?.click()} disabled={disabled} className={buttonClass}>Import profiles</button>
+                        <input ref={fileInput} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+                        <button onClick={onExport} disabled={disabled || customProfiles.length === 0} className={buttonClass}>Export profiles</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,181 @@
+import React, { useEffect, useMemo, useState } from 'react';
+
+interface DataGridProps {
+    rows: any[];
+    onCellEdit?: (rowIndex: number, column: string, value: string) => void;
+    pageSize?: number;
+}
+
+type SortDirection = 'asc' | 'desc';
+
+const cellText = (val: any): string => (val === null || val === undefined ? '' : String(val));
+
+// Numeric-aware comparison so "Foglio 2" sorts before "Foglio 10" and "1,25" is treated as a number
+const compareValues = (a: any, b: any): number => {
+    const sa = cellText(a);
+    const sb = cellText(b);
+    const na = Number(sa.replace(',', '.'));
+    const nb = Number(sb.replace(',', '.'));
+    if (sa !== '' && sb !== '' && !isNaN(na) && !isNaN(nb)) return na - nb;
+    return sa.localeCompare(sb, 'it', { numeric: true, sensitivity: 'base' });
+};
+
+export const DataGrid: React.FC<DataGridProps> = ({ rows, onCellEdit, pageSize = 25 }) => {
+    const [search, setSearch] = useState('');
+    const [filters, setFilters] = useState<{ [column: string]: string }>({});
+    const [sort, setSort] = useState<{ column: string, direction: SortDirection } | null>(null);
+    const [page, setPage] = useState(0);
+    const [editing, setEditing] = useState<{ rowIndex: number, column: string, value: string } | null>(null);
+
+    const columns = useMemo(() => {
+        const cols: string[] = [];
+        rows.forEach(row => Object.keys(row).forEach(k => { if (!cols.includes(k)) cols.push(k); }));
+        return cols;
+    }, [rows]);
+
+    // Work on original row indices so edits can be written back regardless of sorting/filtering
+    const visibleIndices = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        const activeFilters = Object.keys(filters)
+            .filter(c => filters[c].trim() !== '')
+            .map(c => [c, filters[c].trim().toLowerCase()]);
+
+        const indices = rows.map((_, i) => i).filter(i => {
+            const row = rows[i];
+            if (term && !columns.some(c => cellText(row[c]).toLowerCase().includes(term))) return false;
+            return activeFilters.every(([c, v]) => cellText(row[c]).toLowerCase().includes(v));
+        });
+
+        if (sort) {
+            const factor = sort.direction === 'asc' ? 1 : -1;
+            indices.sort((a, b) => factor * compareValues(rows[a][sort.column], rows[b][sort.column]));
+        }
+        return indices;
+    }, [rows, columns, search, filters, sort]);
+
+    const pageCount = Math.max(1, Math.ceil(visibleIndices.length / pageSize));
+
+    // Keep the current page in range when filters shrink the result set
+    useEffect(() => {
+        if (page > pageCount - 1) setPage(pageCount - 1);
+    }, [page, pageCount]);
+
+    const pageIndices = visibleIndices.slice(page * pageSize, (page + 1) * pageSize);
+
+    const toggleSort = (column: string) => {
+        setSort(prev => {
+            if (!prev || prev.column !== column) return { column, direction: 'asc' };
+            if (prev.direction === 'asc') return { column, direction: 'desc' };
+            return null;
+        });
+    };
+
+    const commitEdit = () => {
+        if (!editing) return;
+        if (onCellEdit && editing.value !== cellText(rows[editing.rowIndex][editing.column])) {
+            onCellEdit(editing.rowIndex, editing.column, editing.value);
+        }
+        setEditing(null);
+    };
+
+    if (rows.length === 0) {
+        return <div className="text-center py-6 text-slate-500 text-sm">No records in this dataset.</div>;
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <input
+                    type="search"
+                    value={search}
+                    onChange={(e) => { setSearch(e.target.value); setPage(0); }}
+                    placeholder="Search all columns..."
+                    className="w-full sm:w-72 bg-slate-800 border border-slate-600 text-slate-200 text-sm rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <span className="text-xs text-slate-400">
+                    {visibleIndices.length} of {rows.length} rows{onCellEdit ? ' · double-click a cell to edit' : ''}
+                </span>
+            </div>
+
+            <div className="overflow-auto max-h-[28rem] rounded-lg border border-slate-700">
+                <table className="min-w-full text-xs text-left">
+                    <thead className="bg-slate-800 sticky top-0 z-10">
+                        <tr>
+                            {columns.map(col => (
+                                <th key={col} className="px-3 py-2 font-semibold text-slate-300 whitespace-nowrap">
+                                    <button onClick={() => toggleSort(col)} className="flex items-center gap-1 hover:text-white" title="Sort">
+                                        {col}
+                                        <span className="text-green-400">
+                                            {sort?.column === col ? (sort.direction === 'asc' ? '▲' : '▼') : ''}
+                                        </span>
+                                    </button>
+                                </th>
+                            ))}
+                        </tr>
+                        <tr>
+                            {columns.map(col => (
+                                <th key={col} className="px-2 pb-2">
+                                    <input
+                                        value={filters[col] || ''}
+                                        onChange={(e) => { setFilters(prev => ({ ...prev, [col]: e.target.value })); setPage(0); }}
+                                        placeholder="Filter"
+                                        className="w-full min-w-[5rem] bg-slate-900 border border-slate-700 text-slate-300 rounded px-2 py-1 font-normal focus:outline-none focus:ring-1 focus:ring-green-500"
+                                    />
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {pageIndices.map(rowIndex => (
+                            <tr key={rowIndex} className="border-t border-slate-800 hover:bg-slate-800/60">
+                                {columns.map(col => {
+                                    const isEditing = editing?.rowIndex === rowIndex && editing.column === col;
+                                    return (
+                                        <td
+                                            key={col}
+                                            className="px-3 py-1.5 text-slate-300 whitespace-nowrap max-w-xs truncate"
+                                            title={cellText(rows[rowIndex][col])}
+                                            onDoubleClick={() => onCellEdit && setEditing({ rowIndex, column: col, value: cellText(rows[rowIndex][col]) })}
+                                        >
+                                            {isEditing ? (
+                                                <input
+                                                    autoFocus
+                                                    value={editing.value}
+                                                    onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                                                    onBlur={commitEdit}
+                                                    onKeyDown={(e) => {
+                                                        if (e.key === 'Enter') commitEdit();
+                                                        if (e.key === 'Escape') setEditing(null);
+                                                    }}
+                                                    className="w-full bg-slate-950 border border-green-500 text-white rounded px-1 py-0.5 focus:outline-none"
+                                                />
+                                            ) : cellText(rows[rowIndex][col])}
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="flex items-center justify-end gap-2 text-xs text-slate-400">
+                <button
+                    onClick={() => setPage(p => Math.max(0, p - 1))}
+                    disabled={page === 0}
+                    className="px-3 py-1 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                    Previous
+                </button>
+                <span>Page {page + 1} of {pageCount}</span>
+                <button
+                    onClick={() => setPage(p => Math.min(pageCount - 1, p + 1))}
+                    disabled={page >= pageCount - 1}
+                    className="px-3 py-1 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                    Next
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -1,19 +1,31 @@
 import React, { useCallback, useState } from 'react';
-import type { FileStatus } from '../types';
+import type { FileStatus, JobProgress } from '../types';
 import { AlertIcon, CheckCircleIcon, UploadIcon, SpinnerIcon, FileTextIcon } from './icons';
 
 interface DropzoneProps {
     title: string;
     description: string;
-    onFileSelect: (file: File) => void;
+    onFileSelect?: (file: File) => void;
+    onFilesSelect?: (files: File[]) => void;   // With `multiple`: every dropped/selected file
+    multiple?: boolean;
     status: FileStatus;
     fileName?: string;
     errorMessage?: string | null;
+    accept?: string;
+    progress?: JobProgress | null;
 }
 
-export const Dropzone: React.FC<DropzoneProps> = ({ title, description, onFileSelect, status, fileName, errorMessage }) => {
+export const Dropzone: React.FC<DropzoneProps> = ({ title, description, onFileSelect, onFilesSelect, multiple = false, status, fileName, errorMessage, accept = '.xlsx, .xls', progress }) => {
     const [isDragOver, setIsDragOver] = useState(false);
 
+    const selectFiles = (files: FileList) => {
+        if (multiple && onFilesSelect) {
+            onFilesSelect(Array.from(files));
+        } else if (onFileSelect) {
+            onFileSelect(files[0]);
+        }
+    };
+
     const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
         e.preventDefault();
         e.stopPropagation();
@@ -37,15 +49,16 @@ export const Dropzone: React.FC<DropzoneProps> = ({ title, description, onFileSe
         setIsDragOver(false);
         const files = e.dataTransfer.files;
         if (files && files.length > 0) {
-            onFileSelect(files[0]);
+            selectFiles(files);
         }
     };
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const files = e.target.files;
         if (files && files.length > 0) {
-            onFileSelect(files[0]);
+            selectFiles(files);
         }
+        if (multiple) e.target.value = ''; // Allow adding the same file(s) again
     };
 
     const getStatusContent = () => {
@@ -75,7 +88,7 @@ export const Dropzone: React.FC<DropzoneProps> = ({ title, description, onFileSe
             default:
                 return {
                     icon: <UploadIcon />,
-                    text: 'Drop File Here or Click to Upload',
+                    text: multiple ? 'Drop Files Here or Click to Upload' : 'Drop File Here or Click to Upload',
                     color: 'text-slate-400',
                     borderColor: 'border-slate-600'
                 };
@@ -98,6 +111,15 @@ export const Dropzone: React.FC<DropzoneProps> = ({ title, description, onFileSe
                 <div className="w-10 h-10 mb-3 transition-transform group-hover:scale-110 duration-300">{icon}</div>
                 <p className="mb-2 text-sm font-semibold break-all line-clamp-2">{text}</p>
                 
+                {status === 'loading' && progress && (
+                    <div className="w-48 mt-1">
+                        <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                            <div className="h-full bg-green-500 transition-all duration-200" style={{ width: `${progress.percent}%` }} />
+                        </div>
+                        <p className="text-xs text-slate-400 mt-1">{progress.stage}</p>
+                    </div>
+                )}
+
                 {status === 'waiting' && (
                    <p className="text-xs text-slate-500">{description}</p>
                 )}
@@ -115,7 +137,8 @@ export const Dropzone: React.FC<DropzoneProps> = ({ title, description, onFileSe
                 type="file" 
                 className="hidden" 
                 onChange={handleFileChange}
-                accept=".xlsx, .xls"
+                accept={accept}
+                multiple={multiple}
             />
         </div>
     );
@@ -1,9 +1,10 @@
 import React, { useEffect, useRef } from 'react';
-import type { LogEntry } from '../types';
+import type { LogEntry, JobProgress } from '../types';
 import { AlertIcon, CheckCircleIcon, InfoIcon } from './icons';
 
 interface LogConsoleProps {
     logs: LogEntry[];
+    progress?: JobProgress | null;
 }
 
 const LogIcon = ({ type }: { type: LogEntry['type'] }) => {
@@ -28,7 +29,7 @@ const getTextColor = (type: LogEntry['type']) => {
 }
 
 
-export const LogConsole = ({ logs }: LogConsoleProps) => {
+export const LogConsole = ({ logs, progress }: LogConsoleProps) => {
     const consoleEndRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
@@ -36,15 +37,28 @@ export const LogConsole = ({ logs }: LogConsoleProps) => {
     }, [logs]);
 
     return (
-        <div className="w-full mt-6 h-64 bg-slate-950/70 rounded-lg border border-slate-700 p-4 font-mono text-sm overflow-y-auto shadow-inner">
-            {logs.length === 0 && <span className="text-slate-500">Awaiting transformation...</span>}
-            {logs.map((log) => (
-                <div key={log.timestamp + log.message} className={`flex items-start gap-3 mb-2 ${getTextColor(log.type)}`}>
-                    <div className="flex-shrink-0 mt-0.5 w-4 h-4"><LogIcon type={log.type} /></div>
-                    <span className="flex-grow whitespace-pre-wrap break-words">{log.message}</span>
+        <div className="w-full mt-6">
+            {progress && (
+                <div className="mb-3">
+                    <div className="flex justify-between text-xs text-slate-400 mb-1">
+                        <span>{progress.stage}</span>
+                        <span>{progress.percent}%</span>
+                    </div>
+                    <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                        <div className="h-full bg-green-500 transition-all duration-200" style={{ width: `${progress.percent}%` }} />
+                    </div>
                 </div>
-            ))}
-            <div ref={consoleEndRef} />
+            )}
+            <div className="h-64 bg-slate-950/70 rounded-lg border border-slate-700 p-4 font-mono text-sm overflow-y-auto shadow-inner">
+                {logs.length === 0 && <span className="text-slate-500">Awaiting transformation...</span>}
+                {logs.map((log) => (
+                    <div key={log.timestamp + log.message} className={`flex items-start gap-3 mb-2 ${getTextColor(log.type)}`}>
+                        <div className="flex-shrink-0 mt-0.5 w-4 h-4"><LogIcon type={log.type} /></div>
+                        <span className="flex-grow whitespace-pre-wrap break-words">{log.message}</span>
+                    </div>
+                ))}
+                <div ref={consoleEndRef} />
+            </div>
         </div>
     );
 };
\ No newline at end of file
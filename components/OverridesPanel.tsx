@@ -0,0 +1,184 @@
+import React, { useRef, useState } from 'react';
+import { ChevronDownIcon } from './icons';
+import { describeOverride, emptyOverride, isBlankOverride, overrideWarnings, removeOverride, upsertOverride, OVERRIDE_FIELDS, OVERRIDE_FIELD_LABELS } from '../services/overrides';
+import type { ParcelOverride } from '../services/overrides';
+
+interface OverridesPanelProps {
+    overrides: ParcelOverride[];
+    onChange: (overrides: ParcelOverride[], message: string) => void;   // Every change is one undo step
+    onUndo: () => void;
+    canUndo: boolean;
+    onImport: (file: File) => void;
+    onExport: () => void;
+    disabled?: boolean;
+}
+
+const LEAD_STATUS_SUGGESTIONS = ['Scouted', 'Retrieved', 'Contacted'];
+
+const inputClass = 'w-full bg-slate-800 border border-slate-600 text-slate-200 text-sm rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-green-500';
+const buttonClass = 'px-3 py-1.5 text-sm font-semibold text-slate-300 hover:text-white hover:bg-slate-700/60 rounded-lg border border-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+export const OverridesPanel = ({ overrides, onChange, onUndo, canUndo, onImport, onExport, disabled = false }: OverridesPanelProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [draft, setDraft] = useState<ParcelOverride>(emptyOverride());
+    const [editingKey, setEditingKey] = useState<string | null>(null);
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    const warnings = overrideWarnings(draft);
+    const canSave = Boolean(draft.key.trim()) && !isBlankOverride(draft);
+
+    const handleSave = () => {
+        const saved = { ...draft, key: draft.key.trim() };
+        // An edited override keeps its place in the list; another override with the same key is replaced
+        const next = editingKey === null
+            ? upsertOverride(overrides, saved)
+            : overrides
+                .filter(o => o.key === editingKey || o.key.toUpperCase() !== saved.key.toUpperCase())
+                .map(o => (o.key === editingKey ? saved : o));
+        onChange(next, `Manual override for '${saved.key}' saved: ${describeOverride(saved)}.`);
+        setDraft(emptyOverride());
+        setEditingKey(null);
+    };
+
+    const handleEdit = (o: ParcelOverride) => {
+        setDraft({ ...o });
+        setEditingKey(o.key);
+    };
+
+    const handleCancel = () => {
+        setDraft(emptyOverride());
+        setEditingKey(null);
+    };
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onImport(file);
+        e.target.value = '';
+    };
+
+    return (
+        <div className="w-full bg-slate-800/40 rounded-xl p-4 border border-slate-700/50 mb-4">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <p className="text-sm font-medium text-slate-400">
+                    Manual overrides
+                    <span className="ml-2 text-xs text-slate-500">{overrides.length} saved, applied on every run</span>
+                </p>
+                <button
+                    onClick={() => setIsOpen(!isOpen)}
+                    className="sm:ml-auto flex items-center gap-1 text-xs font-semibold text-slate-400 hover:text-slate-200"
+                    aria-expanded={isOpen}
+                    aria-controls="overrides-editor"
+                >
+                    Edit
+                    <ChevronDownIcon className={`w-4 h-4 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+                </button>
+            </div>
+
+            {isOpen && (
+                <div id="overrides-editor" className="mt-4 space-y-4 animate-fade-in">
+                    <p className="text-xs text-slate-500">
+                        Key by Land External ID, or by Parcel_ID to cover every land with that ID. Empty fields keep the computed value.
+                        A forced fiscal code takes that owner's name and PEC when the owner is listed on the parcel.
+                    </p>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        <input
+                            value={draft.key}
+                            onChange={(e) => setDraft({ ...draft, key: e.target.value })}
+                            placeholder="Land External ID or Parcel_ID"
+                            aria-label="Key"
+                            disabled={disabled}
+                            className={`${inputClass} sm:col-span-2`}
+                        />
+                        {OVERRIDE_FIELDS.map(field => (
+                            <input
+                                key={field}
+                                value={draft[field]}
+                                onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                                placeholder={OVERRIDE_FIELD_LABELS[field]}
+                                aria-label={OVERRIDE_FIELD_LABELS[field]}
+                                list={field === 'leadStatus' ? 'override-lead-status' : undefined}
+                                disabled={disabled || draft.exclude}
+                                className={inputClass}
+                            />
+                        ))}
+                        <datalist id="override-lead-status">
+                            {LEAD_STATUS_SUGGESTIONS.map(s => <option key={s} value={s} />)}
+                        </datalist>
+                        <input
+                            value={draft.note}
+                            onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                            placeholder="Note (why)"
+                            aria-label="Note"
+                            disabled={disabled}
+                            className={`${inputClass} sm:col-span-2`}
+                        />
+                        <label className="flex items-center gap-2 text-sm text-slate-300">
+                            <input
+                                type="checkbox"
+                                checked={draft.exclude}
+                                onChange={() => setDraft({ ...draft, exclude: !draft.exclude })}
+                                disabled={disabled}
+                                className="accent-green-500"
+                            />
+                            Exclude this parcel from every Carga
+                        </label>
+                    </div>
+                    {warnings.length > 0 && <p className="text-xs text-amber-400">Check: {warnings.join('; ')}</p>}
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            onClick={handleSave}
+                            disabled={disabled || !canSave}
+                            className="px-3 py-1.5 text-sm font-semibold text-green-300 hover:text-white hover:bg-green-900/40 rounded-lg border border-green-800/60 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {editingKey !== null ? 'Update override' : 'Add override'}
+                        </button>
+                        {editingKey !== null && (
+                            <button onClick={handleCancel} disabled={disabled} className={buttonClass}>Cancel</button>
+                        )}
+                    </div>
+
+                    {overrides.length > 0 && (
+                        <ul className="space-y-1">
+                            {overrides.map(o => (
+                                <li key={o.key} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-slate-900/40 border border-slate-700/50">
+                                    <div className="min-w-0 flex-1">
+                                        <p className="text-sm text-slate-200 font-mono truncate">{o.key}</p>
+                                        <p className="text-xs text-slate-500 truncate" title={o.note}>
+                                            {describeOverride(o)}{o.note ? ` - ${o.note}` : ''}
+                                        </p>
+                                    </div>
+                                    <button onClick={() => handleEdit(o)} disabled={disabled} className="px-2 text-xs text-slate-400 hover:text-white disabled:opacity-30">
+                                        Edit
+                                    </button>
+                                    <button
+                                        onClick={() => onChange(removeOverride(overrides, o.key), `Manual override for '${o.key}' removed.`)}
+                                        disabled={disabled}
+                                        className="px-2 text-xs text-red-300 hover:text-white disabled:opacity-30"
+                                        aria-label={`Remove override for ${o.key}`}
+                                    >
+                                        Remove
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    <div className="flex flex-wrap gap-2">
+                        <button onClick={onUndo} disabled={disabled || !canUndo} className={buttonClass}>Undo</button>
+                        <button onClick={() => fileInput.current?.click()} disabled={disabled} className={buttonClass}>Import spreadsheet</button>
+                        <input ref={fileInput} type="file" accept=".xlsx, .xls, .csv" onChange={handleFile} className="hidden" />
+                        <button onClick={onExport} disabled={disabled || overrides.length === 0} className={buttonClass}>Export spreadsheet</button>
+                        <button
+                            onClick={() => onChange([], `All ${overrides.length} manual override(s) cleared.`)}
+                            disabled={disabled || overrides.length === 0}
+                            className="px-3 py-1.5 text-sm font-semibold text-red-300 hover:text-white hover:bg-red-900/40 rounded-lg border border-red-800/60 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Clear all
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
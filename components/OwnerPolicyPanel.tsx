@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { ChevronDownIcon } from './icons';
+import { OWNER_POLICIES, OWNER_RULE_STAGE_LABELS, getOwnerRule, moveRule, toggleRule } from '../services/ownerPolicy';
+import type { OwnerPolicy } from '../services/ownerPolicy';
+
+interface OwnerPolicyPanelProps {
+    policy: OwnerPolicy;                        // Active policy, possibly edited since it was selected
+    customPolicies: OwnerPolicy[];
+    onSelect: (id: string) => void;
+    onChange: (policy: OwnerPolicy) => void;
+    onSave: (name: string) => void;             // Save the active rules as a custom preset (overwrites one with the same name)
+    onDelete: (id: string) => void;
+    disabled?: boolean;
+}
+
+const sameRules = (a: OwnerPolicy, b: OwnerPolicy): boolean => JSON.stringify(a.rules) === JSON.stringify(b.rules);
+
+export const OwnerPolicyPanel = ({ policy, customPolicies, onSelect, onChange, onSave, onDelete, disabled = false }: OwnerPolicyPanelProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [presetName, setPresetName] = useState('');
+
+    const presets = [...OWNER_POLICIES, ...customPolicies];
+    const saved = presets.find(p => p.id === policy.id);
+    const modified = !saved || !sameRules(saved, policy);
+    const isCustom = customPolicies.some(p => p.id === policy.id);
+
+    return (
+        <div className="w-full bg-slate-800/40 rounded-xl p-4 border border-slate-700/50 mb-4">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <label htmlFor="owner-policy" className="text-sm font-medium text-slate-400">Owner selection policy</label>
+                <select
+                    id="owner-policy"
+                    value={policy.id}
+                    onChange={(e) => onSelect(e.target.value)}
+                    disabled={disabled}
+                    className="bg-slate-800 border border-slate-600 text-slate-200 text-sm rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                    {presets.map(p => (
+                        <option key={p.id} value={p.id} title={p.description}>{p.name}</option>
+                    ))}
+                </select>
+                {modified && <span className="text-xs font-semibold text-amber-400">modified</span>}
+                <button
+                    onClick={() => setIsOpen(!isOpen)}
+                    className="sm:ml-auto flex items-center gap-1 text-xs font-semibold text-slate-400 hover:text-slate-200"
+                    aria-expanded={isOpen}
+                    aria-controls="owner-policy-rules"
+                >
+                    Rules
+                    <ChevronDownIcon className={`w-4 h-4 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+                </button>
+            </div>
+            {saved && <p className="text-xs text-slate-500 mt-2">{saved.description}</p>}
+
+            {isOpen && (
+                <div id="owner-policy-rules" className="mt-4 space-y-3 animate-fade-in">
+                    <ol className="space-y-1">
+                        {policy.rules.map((r, i) => {
+                            const rule = getOwnerRule(r.id);
+                            if (!rule) return null;
+                            return (
+                                <li key={r.id} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-slate-900/40 border border-slate-700/50">
+                                    <input
+                                        type="checkbox"
+                                        checked={r.enabled}
+                                        onChange={() => onChange(toggleRule(policy, r.id))}
+                                        disabled={disabled}
+                                        aria-label={`Enable ${rule.name}`}
+                                        className="accent-green-500"
+                                    />
+                                    <div className="min-w-0 flex-1">
+                                        <p className={`text-sm ${r.enabled ? 'text-slate-200' : 'text-slate-500'}`}>
+                                            {rule.name}
+                                            <span className="ml-2 text-xs text-slate-500">{OWNER_RULE_STAGE_LABELS[rule.stage]}</span>
+                                        </p>
+                                        <p className="text-xs text-slate-500 truncate" title={rule.description}>{rule.description}</p>
+                                    </div>
+                                    <button
+                                        onClick={() => onChange(moveRule(policy, r.id, -1))}
+                                        disabled={disabled || i === 0}
+                                        className="px-2 text-slate-400 hover:text-white disabled:opacity-30"
+                                        aria-label={`Move ${rule.name} up`}
+                                    >
+                                        &uarr;
+                                    </button>
+                                    <button
+                                        onClick={() => onChange(moveRule(policy, r.id, 1))}
+                                        disabled={disabled || i === policy.rules.length - 1}
+                                        className="px-2 text-slate-400 hover:text-white disabled:opacity-30"
+                                        aria-label={`Move ${rule.name} down`}
+                                    >
+                                        &darr;
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ol>
+                    <p className="text-xs text-slate-500">
+                        Rules apply in this order within each stage. Main owner criteria are compared in order; the first row still wins a full tie.
+                    </p>
+                    <div className="flex flex-col sm:flex-row gap-2">
+                        <input
+                            value={presetName}
+                            onChange={(e) => setPresetName(e.target.value)}
+                            placeholder={isCustom ? policy.name : 'Preset name'}
+                            className="flex-1 bg-slate-800 border border-slate-600 text-slate-200 text-sm rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+                        />
+                        <button
+                            onClick={() => { onSave(presetName.trim() || policy.name); setPresetName(''); }}
+                            disabled={disabled || (!presetName.trim() && !isCustom)}
+                            className="px-3 py-1.5 text-sm font-semibold text-green-300 hover:text-white hover:bg-green-900/40 rounded-lg border border-green-800/60 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Save preset
+                        </button>
+                        {isCustom && (
+                            <button
+                                onClick={() => onDelete(policy.id)}
+                                disabled={disabled}
+                                className="px-3 py-1.5 text-sm font-semibold text-red-300 hover:text-white hover:bg-red-900/40 rounded-lg border border-red-800/60 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Delete preset
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
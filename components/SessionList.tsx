@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { ChevronDownIcon, FileTextIcon } from './icons';
+import type { SessionSummary } from '../services/sessionStore';
+
+interface SessionListProps {
+    sessions: SessionSummary[];
+    activeSessionId: string | null;
+    onOpen: (id: string) => void;
+    onDelete: (id: string) => void;
+    disabled?: boolean;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+export const SessionList = ({ sessions, activeSessionId, onOpen, onDelete, disabled = false }: SessionListProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    return (
+        <div className="bg-slate-900/70 p-6 rounded-2xl shadow-lg border border-slate-700 transition-all hover:bg-slate-900/90 hover:border-slate-600">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex justify-between items-center text-left text-xl font-semibold text-slate-200 focus:outline-none"
+                aria-expanded={isOpen}
+                aria-controls="session-list"
+            >
+                <div className="flex items-center gap-3">
+                    <FileTextIcon className="w-6 h-6 text-green-400" />
+                    <span>Saved Sessions</span>
+                    <span className="text-sm font-normal text-slate-500">({sessions.length})</span>
+                </div>
+                <ChevronDownIcon className={`w-6 h-6 transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`} />
+            </button>
+            {isOpen && (
+                <div id="session-list" className="mt-4 space-y-2 animate-fade-in">
+                    {sessions.length === 0 && (
+                        <p className="text-sm text-slate-500">No saved sessions yet. A session is saved in this browser after every run.</p>
+                    )}
+                    {sessions.map(s => (
+                        <div
+                            key={s.id}
+                            className={`flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-lg border ${s.id === activeSessionId ? 'border-green-700 bg-green-900/20' : 'border-slate-700 bg-slate-800/40'}`}
+                        >
+                            <div className="min-w-0">
+                                <p className="text-sm text-slate-200 truncate">{s.fileNames.input} + {s.fileNames.results}</p>
+                                <p className="text-xs text-slate-500">
+                                    {formatDate(s.updatedAt)}
+                                    {s.counts
+                                        ? ` · ${s.counts.scouted} scouted, ${s.counts.retrieved} retrieved, ${s.counts.contacted} contacted`
+                                        : ' · not run'}
+                                </p>
+                            </div>
+                            <div className="flex gap-2 flex-shrink-0">
+                                <button
+                                    onClick={() => onOpen(s.id)}
+                                    disabled={disabled}
+                                    className="px-3 py-1.5 text-sm font-semibold text-green-300 hover:text-white hover:bg-green-900/40 rounded-lg border border-green-800/60 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    Open
+                                </button>
+                                <button
+                                    onClick={() => onDelete(s.id)}
+                                    disabled={disabled}
+                                    className="px-3 py-1.5 text-sm font-semibold text-red-300 hover:text-white hover:bg-red-900/40 rounded-lg border border-red-800/60 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    Delete
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
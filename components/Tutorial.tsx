@@ -86,6 +86,9 @@ export const Tutorial = () => {
                                     </li>
                                 </ul>
                             </div>
+                            <p className="text-xs text-slate-400">
+                                Workbooks from other providers may use different sheet names or headers. Pick a <span className="text-slate-300 font-semibold">Column profile</span> in step 1 or leave it on <span className="text-slate-300">Auto-detect</span>; the detected mapping is reported in the log.
+                            </p>
                          </div>
                     </div>
                 </div>
@@ -0,0 +1,76 @@
+// --- Owner Resolution Audit Trail ---
+// Records, per parcel, every decision processOwnersForLand takes so users can explain why a parcel shows a given owner.
+
+export type AuditStep =
+    | 'lineage'             // Owners taken from a parcel this one was split from, merged into, ...
+    | 'geo-filter'          // All_Raw_Data row kept/dropped by the municipality filter
+    | 'geo-fallback'        // Municipality filter removed everyone, all rows restored
+    | 'public-entity'       // Public or non-commercial entity excluded by the owner policy
+    | 'corporate-priority'  // Individual dropped because a company owner exists
+    | 'individual-priority' // Company dropped because an individual owner exists
+    | 'normalized-match'    // Owners_Normalized row matched/unmatched against the remaining fiscal codes
+    | 'ownership-total'     // Quota sum checked; duplicate owner rows dropped when they inflate it
+    | 'main-owner'          // Main owner chosen (source and quota)
+    | 'name-source'         // Where the first/last name came from
+    | 'override'            // Manual override applied on top of the resolved owner
+    | 'no-owner';           // No owner could be resolved
+
+export type AuditOutcome = 'kept' | 'dropped' | 'matched' | 'unmatched' | 'selected' | 'info';
+
+export interface AuditEvent {
+    step: AuditStep;
+    outcome: AuditOutcome;
+    cf?: string;
+    name?: string;
+    quota?: string;
+    detail: string;
+}
+
+export interface ParcelAudit {
+    parcelId: string;
+    externalId: string;
+    municipality: string;
+    events: AuditEvent[];
+}
+
+export const AUDIT_STEP_LABELS: { [key in AuditStep]: string } = {
+    'lineage': 'Parcel lineage',
+    'geo-filter': 'Municipality filter',
+    'geo-fallback': 'Municipality fallback',
+    'public-entity': 'Public entity',
+    'corporate-priority': 'Corporate Priority',
+    'individual-priority': 'Individual Priority',
+    'normalized-match': 'Owners_Normalized match',
+    'ownership-total': 'Ownership total',
+    'main-owner': 'Main owner',
+    'name-source': 'Name source',
+    'override': 'Manual override',
+    'no-owner': 'No owner',
+};
+
+// Flatten to one row per event for the "Audit" sheet and the preview grid
+export const auditToRows = (audit: ParcelAudit[]): any[] => {
+    const rows: any[] = [];
+    audit.forEach(parcel => {
+        parcel.events.forEach(ev => {
+            rows.push({
+                'Land External ID': parcel.externalId,
+                'Parcel_ID': parcel.parcelId,
+                'Municipality': parcel.municipality,
+                'Step': AUDIT_STEP_LABELS[ev.step],
+                'Outcome': ev.outcome,
+                'Fiscal Code': ev.cf || '',
+                'Owner': ev.name || '',
+                'Quota': ev.quota || '',
+                'Detail': ev.detail,
+            });
+        });
+    });
+    return rows;
+};
+
+// Audit entries for the parcels present in a given CSV dataset (matched on "Land External ID")
+export const auditForRows = (audit: ParcelAudit[], csvRows: any[]): ParcelAudit[] => {
+    const ids = new Set(csvRows.map(r => r['Land External ID']));
+    return audit.filter(a => ids.has(a.externalId));
+};
@@ -0,0 +1,114 @@
+// --- Batch Mode ---
+// Several Input/Results pairs (one per project area) in one run: files are paired by name, each pair is
+// validated and transformed on its own, and the Carga CSVs can then be combined or bundled per project.
+
+import type { OutputData } from './transformer';
+import type { CsvDatasetKey } from './outputEditor';
+import type { FileType } from '../types';
+import { buildOutputFiles } from './exporter';
+import { buildZip, safeFileName } from './zip';
+
+export type BatchFileRole = FileType | 'unknown';
+
+// Manual assignment of one uploaded file; the defaults come from the file name
+export interface BatchAssignment {
+    fileName: string;
+    role: BatchFileRole;
+    project: string;
+}
+
+export interface BatchPair {
+    project: string;
+    inputs: string[];
+    results: string[];
+}
+
+const ROLE_PATTERNS: { role: FileType, pattern: RegExp }[] = [
+    { role: 'results', pattern: /results?|risultati/i },
+    { role: 'input', pattern: /input|particelle/i },
+];
+
+export const detectFileRole = (fileName: string): BatchFileRole => {
+    const match = ROLE_PATTERNS.find(r => r.pattern.test(fileName));
+    return match ? match.role : 'unknown';
+};
+
+// "AreaNord_Input_v2.xlsx" and "AreaNord - Results.xlsx" both belong to project "AreaNord"
+export const batchProjectName = (fileName: string): string => {
+    let name = String(fileName).replace(/\.[^.]+$/, '');
+    ROLE_PATTERNS.forEach(r => { name = name.replace(new RegExp(r.pattern.source, 'ig'), ' '); });
+    name = name.replace(/(^|[\s_.-])v\d+(?=$|[\s_.-])/ig, ' ');     // Version suffixes
+    return name.replace(/[\s_.-]+/g, ' ').trim() || String(fileName);
+};
+
+export const assignBatchFile = (fileName: string): BatchAssignment => ({
+    fileName,
+    role: detectFileRole(fileName),
+    project: batchProjectName(fileName),
+});
+
+// Group assigned files by project (case-insensitive), in project name order
+export const pairBatchFiles = (assignments: BatchAssignment[]): BatchPair[] => {
+    const pairs = new Map<string, BatchPair>();
+    assignments.forEach(a => {
+        if (a.role === 'unknown') return;
+        const key = a.project.trim().toLowerCase();
+        const pair = pairs.get(key) || { project: a.project.trim(), inputs: [], results: [] };
+        (a.role === 'input' ? pair.inputs : pair.results).push(a.fileName);
+        pairs.set(key, pair);
+    });
+    return Array.from(pairs.values()).sort((a, b) => a.project.localeCompare(b.project));
+};
+
+// Why a pair cannot be processed, or null when it has exactly one Input and one Results file
+export const batchPairProblem = (pair: BatchPair): string | null => {
+    if (pair.inputs.length === 0) return 'No Input file';
+    if (pair.results.length === 0) return 'No Results file';
+    if (pair.inputs.length > 1) return `${pair.inputs.length} Input files`;
+    if (pair.results.length > 1) return `${pair.results.length} Results files`;
+    return null;
+};
+
+export interface BatchProjectOutput {
+    project: string;
+    output: OutputData;
+}
+
+export interface CombinedCsv {
+    rows: any[];
+    duplicates: { externalId: string, projects: string[] }[];   // External IDs produced by more than one project
+}
+
+// One Carga CSV across all projects, deduplicated by Land External ID (the first project in order wins)
+export const combineBatchCsv = (projects: BatchProjectOutput[], key: CsvDatasetKey): CombinedCsv => {
+    const seen = new Map<string, string[]>();
+    const rows: any[] = [];
+    projects.forEach(({ project, output }) => {
+        (output[key] || []).forEach(row => {
+            const id = String(row['Land External ID'] ?? '');
+            const producedBy = seen.get(id);
+            if (producedBy) {
+                if (!producedBy.includes(project)) producedBy.push(project);
+                return;
+            }
+            seen.set(id, [project]);
+            rows.push(row);
+        });
+    });
+    const duplicates = Array.from(seen.entries())
+        .filter(([, p]) => p.length > 1)
+        .map(([externalId, p]) => ({ externalId, projects: p }));
+    return { rows, duplicates };
+};
+
+// One folder per project with the same files the CLI writes
+export const buildBatchZip = (projects: BatchProjectOutput[], xlsx: any = window.XLSX): Uint8Array => {
+    const used = new Set<string>();
+    const entries = projects.flatMap(({ project, output }) => {
+        let folder = safeFileName(project);
+        for (let i = 2; used.has(folder.toLowerCase()); i++) folder = `${safeFileName(project)} (${i})`;
+        used.add(folder.toLowerCase());
+        return buildOutputFiles(output, xlsx).map(f => ({ path: `${folder}/${f.fileName}`, content: f.content }));
+    });
+    return buildZip(entries, xlsx);
+};
@@ -0,0 +1,355 @@
+// --- Column Mapping Profiles ---
+// Cadastral data providers deliver the same information under different sheet names and headers.
+// A profile maps those provider-specific names onto the canonical names used by validation and runProcess,
+// so the rest of the pipeline never has to know where a workbook came from.
+
+export type ProfileFileType = 'input' | 'results';
+
+export interface SheetMapping {
+    sheet: string;                          // Canonical sheet name
+    sheetAliases: string[];                 // Accepted alternative sheet names
+    columns: { [canonical: string]: string[] }; // Canonical column -> accepted header aliases
+}
+
+export interface ColumnProfile {
+    id: string;
+    name: string;
+    description: string;
+    input: SheetMapping[];
+    results: SheetMapping[];
+}
+
+export interface ProfileApplication {
+    jsonData: { [sheetName: string]: any[] };
+    renamed: string[]; // Human-readable list of "Original -> Canonical" renames
+}
+
+export const AUTO_PROFILE_ID = 'auto';
+
+// Headers are compared ignoring case, surrounding spaces and the kind of separator ("Parcel ID" == "parcel_id")
+export const normalizeHeader = (h: any): string => String(h ?? '').trim().toLowerCase().replace(/[\s_\-.]+/g, '_');
+
+// Canonical layout (the format the tool was originally written for) with the aliases seen so far
+const DEFAULT_INPUT: SheetMapping[] = [
+    {
+        sheet: 'Hoja1',
+        sheetAliases: ['Sheet1'],
+        columns: {
+            provincia: [], comune: [], foglio: [], particella: [], Area: [], Sezione: [], CP: [], Parcel_ID: [],
+        },
+    },
+    // Optional: parcel splits and merges, old foglio/particella -> new (see services/lineage.ts)
+    {
+        sheet: 'Variations',
+        sheetAliases: ['Variazioni', 'Frazionamenti', 'Lineage'],
+        columns: {
+            comune: ['Municipality'],
+            foglio_old: ['Foglio Originario', 'Foglio Soppresso', 'Old Foglio', 'Old Sheet'],
+            particella_old: ['Particella Originaria', 'Particella Soppressa', 'Old Particella', 'Old Parcel'],
+            foglio_new: ['Foglio Derivato', 'Foglio Nuovo', 'New Foglio', 'New Sheet'],
+            particella_new: ['Particella Derivata', 'Particella Nuova', 'New Particella', 'New Parcel'],
+            tipo: ['Tipo Variazione', 'Variazione', 'Variation Type', 'Type'],
+            data: ['Data Variazione', 'Variation Date', 'Date'],
+        },
+    },
+];
+
+const DEFAULT_RESULTS: SheetMapping[] = [
+    {
+        sheet: 'All_Raw_Data',
+        sheetAliases: [],
+        columns: { Parcel_ID: [], cf_owner: [], denominazione_owner: [], nome: [], cognome: [], foglio: [], particella: [] },
+    },
+    {
+        sheet: 'Owners_Normalized',
+        sheetAliases: [],
+        columns: { Parcel_ID: [], owner_name: [], owner_cf: [], quota: [], diritto: [] },
+    },
+    {
+        sheet: 'All_Companies_Found',
+        sheetAliases: [],
+        columns: { cf: [], pec_email: [] },
+    },
+    {
+        sheet: 'Final_Mailing_By_Parcel',
+        sheetAliases: [],
+        columns: {
+            Parcel_ID: ['Elenco_Parcel_ID'],
+            Full_Name: ['Destinatario', 'Nominativo'],
+            cf: ['fiscal_code', 'codice_fiscale'],
+        },
+    },
+];
+
+// Extend a base layout with extra sheet/column aliases
+const extend = (base: SheetMapping[], extra: { [sheet: string]: { sheetAliases?: string[], columns?: { [canonical: string]: string[] } } }): SheetMapping[] => {
+    return base.map(m => {
+        const e = extra[m.sheet];
+        if (!e) return m;
+        const columns: { [canonical: string]: string[] } = {};
+        Object.keys(m.columns).forEach(c => {
+            columns[c] = [...m.columns[c], ...((e.columns && e.columns[c]) || [])];
+        });
+        return { sheet: m.sheet, sheetAliases: [...m.sheetAliases, ...(e.sheetAliases || [])], columns };
+    });
+};
+
+export const COLUMN_PROFILES: ColumnProfile[] = [
+    {
+        id: 'default',
+        name: 'Standard (Hoja1 / Results)',
+        description: 'Original layout: Hoja1/Sheet1 input sheet and the four standard results sheets.',
+        input: DEFAULT_INPUT,
+        results: DEFAULT_RESULTS,
+    },
+    {
+        id: 'catasto-it',
+        name: 'Catasto (Italian headers)',
+        description: 'Extended Italian headers such as "Provincia", "Superficie (ha)", "CAP", "Codice Fiscale".',
+        input: extend(DEFAULT_INPUT, {
+            Hoja1: {
+                sheetAliases: ['Foglio1', 'Particelle', 'Terreni'],
+                columns: {
+                    provincia: ['Sigla Provincia', 'Prov'],
+                    comune: ['Nome Comune', 'Comune Catastale'],
+                    foglio: ['N Foglio', 'Numero Foglio'],
+                    particella: ['N Particella', 'Numero Particella', 'Mappale'],
+                    Area: ['Superficie', 'Superficie (ha)', 'Superficie_Ha', 'Area (ha)'],
+                    Sezione: ['Sez', 'Sezione Censuaria'],
+                    CP: ['CAP', 'Codice Postale'],
+                    Parcel_ID: ['ID Particella', 'Id_Parcella', 'Codice Particella'],
+                },
+            },
+        }),
+        results: extend(DEFAULT_RESULTS, {
+            All_Raw_Data: {
+                sheetAliases: ['Dati_Grezzi', 'Intestatari'],
+                columns: {
+                    Parcel_ID: ['ID Particella', 'Id_Parcella'],
+                    cf_owner: ['Codice Fiscale', 'CF Intestatario'],
+                    denominazione_owner: ['Denominazione', 'Intestatario'],
+                    cognome: ['Cognome'],
+                    foglio: ['N Foglio', 'Numero Foglio'],
+                    particella: ['N Particella', 'Numero Particella', 'Mappale'],
+                },
+            },
+            Owners_Normalized: {
+                sheetAliases: ['Proprietari', 'Titolari'],
+                columns: {
+                    Parcel_ID: ['ID Particella', 'Id_Parcella'],
+                    owner_name: ['Proprietario', 'Nominativo', 'Titolare'],
+                    owner_cf: ['Codice Fiscale', 'CF'],
+                    quota: ['Quota Possesso', 'Quota Proprieta'],
+                    diritto: ['Tipo Diritto', 'Diritto Reale', 'Titolo'],
+                },
+            },
+            All_Companies_Found: {
+                sheetAliases: ['Societa', 'Aziende'],
+                columns: { cf: ['Codice Fiscale', 'Partita IVA', 'P IVA'], pec_email: ['PEC', 'Indirizzo PEC'] },
+            },
+            Final_Mailing_By_Parcel: {
+                sheetAliases: ['Invii', 'Mailing'],
+                columns: { Parcel_ID: ['ID Particella', 'Id_Parcella'] },
+            },
+        }),
+    },
+    {
+        id: 'english',
+        name: 'English headers',
+        description: 'English headers such as "Province", "Municipality", "Sheet", "Parcel", "Owner Name", "Share".',
+        input: extend(DEFAULT_INPUT, {
+            Hoja1: {
+                sheetAliases: ['Parcels', 'Lands', 'Data'],
+                columns: {
+                    provincia: ['Province'],
+                    comune: ['Municipality', 'City'],
+                    foglio: ['Sheet', 'Map Sheet'],
+                    particella: ['Parcel', 'Parcel Number'],
+                    Area: ['Area (ha)', 'Area Ha', 'Surface'],
+                    Sezione: ['Section'],
+                    CP: ['Postal Code', 'ZIP', 'Zip Code'],
+                    Parcel_ID: ['Parcel ID', 'ParcelId'],
+                },
+            },
+        }),
+        results: extend(DEFAULT_RESULTS, {
+            All_Raw_Data: {
+                sheetAliases: ['Raw Data', 'Raw'],
+                columns: {
+                    Parcel_ID: ['Parcel ID'],
+                    cf_owner: ['Owner Fiscal Code', 'Owner CF', 'Tax Code'],
+                    denominazione_owner: ['Owner Name', 'Owner'],
+                    nome: ['First Name'],
+                    cognome: ['Last Name', 'Surname'],
+                    foglio: ['Sheet'],
+                    particella: ['Parcel', 'Parcel Number'],
+                },
+            },
+            Owners_Normalized: {
+                sheetAliases: ['Owners'],
+                columns: {
+                    Parcel_ID: ['Parcel ID'],
+                    owner_name: ['Owner Name', 'Name'],
+                    owner_cf: ['Owner Fiscal Code', 'Fiscal Code', 'Tax Code'],
+                    quota: ['Share', 'Ownership Share'],
+                    diritto: ['Right', 'Right Type', 'Ownership Right'],
+                },
+            },
+            All_Companies_Found: {
+                sheetAliases: ['Companies'],
+                columns: { cf: ['Fiscal Code', 'VAT Number', 'Tax Code'], pec_email: ['PEC', 'Certified Email'] },
+            },
+            Final_Mailing_By_Parcel: {
+                sheetAliases: ['Mailing', 'Mailing List'],
+                columns: { Parcel_ID: ['Parcel ID'], Full_Name: ['Recipient', 'Name'], cf: ['Tax Code'] },
+            },
+        }),
+    },
+];
+
+export const getProfile = (id: string, profiles: ColumnProfile[] = COLUMN_PROFILES): ColumnProfile | undefined => profiles.find(p => p.id === id);
+
+// --- User-defined Profiles ---
+// Custom profiles use the standard sheets and canonical columns with their own aliases. They are kept as JSON
+// (browser localStorage, or a file for the CLI's --profile-file); a file holds one profile or a list of them.
+
+const aliasList = (value: any): string[] => (Array.isArray(value) ? value : [])
+    .map(a => String(a ?? '').trim())
+    .filter(a => a !== '');
+
+// Stored profiles may come from an older version or a hand-edited file: rebuild them on the standard layout,
+// dropping unknown sheets and columns and keeping only non-empty aliases
+export const normalizeProfile = (profile: any): ColumnProfile => {
+    const mappings = (base: SheetMapping[], stored: any): SheetMapping[] => base.map(m => {
+        const found = (Array.isArray(stored) ? stored : []).find((s: any) => s && s.sheet === m.sheet) || {};
+        const columns: { [canonical: string]: string[] } = {};
+        Object.keys(m.columns).forEach(c => {
+            columns[c] = aliasList(found.columns && found.columns[c]);
+        });
+        return { sheet: m.sheet, sheetAliases: aliasList(found.sheetAliases), columns };
+    });
+    return {
+        id: String(profile.id),
+        name: String(profile.name || profile.id),
+        description: String(profile.description || ''),
+        input: mappings(DEFAULT_INPUT, profile.input),
+        results: mappings(DEFAULT_RESULTS, profile.results),
+    };
+};
+
+// Parse stored or imported custom profiles; anything unreadable, and ids of built-in profiles, are ignored
+export const parseStoredProfiles = (json: string | null): ColumnProfile[] => {
+    if (!json) return [];
+    try {
+        const parsed = JSON.parse(json);
+        return (Array.isArray(parsed) ? parsed : [parsed])
+            .filter(p => p && typeof p.id === 'string' && p.id !== AUTO_PROFILE_ID)
+            .filter(p => !COLUMN_PROFILES.some(b => b.id === p.id))
+            .map(normalizeProfile);
+    } catch {
+        return [];
+    }
+};
+
+// Save the aliases of `profile` as a custom profile; a custom profile with the same name (case-insensitive) is overwritten
+export const saveColumnProfile = (customProfiles: ColumnProfile[], profile: ColumnProfile, name: string): { profiles: ColumnProfile[], saved: ColumnProfile } => {
+    const existing = customProfiles.find(p => p.name.trim().toLowerCase() === name.trim().toLowerCase());
+    const newId = `custom-${Date.now().toString(36)}`;
+    let id = existing ? existing.id : newId;
+    for (let i = 2; !existing && customProfiles.some(p => p.id === id); i++) id = `${newId}-${i}`;
+    const saved = normalizeProfile({ ...profile, id, name: name.trim(), description: profile.description || 'Custom profile' });
+    const profiles = existing ? customProfiles.map(p => (p.id === existing.id ? saved : p)) : [...customProfiles, saved];
+    return { profiles, saved };
+};
+
+// Replace the aliases of one sheet (column === null) or of one canonical column
+export const setProfileAliases = (profile: ColumnProfile, type: ProfileFileType, sheet: string, column: string | null, aliases: string[]): ColumnProfile => {
+    return {
+        ...profile,
+        [type]: profile[type].map(m => {
+            if (m.sheet !== sheet) return m;
+            if (column === null) return { ...m, sheetAliases: aliases };
+            return { ...m, columns: { ...m.columns, [column]: aliases } };
+        }),
+    };
+};
+
+// Find the actual key in `keys` that matches the canonical name or one of its aliases
+export const findColumnKey = (keys: string[], candidates: string[]): string | undefined => {
+    for (const c of candidates) {
+        const target = normalizeHeader(c);
+        const found = keys.find(k => normalizeHeader(k) === target);
+        if (found) return found;
+    }
+    return undefined;
+};
+
+const findSheetName = (jsonData: { [sheetName: string]: any[] }, mapping: SheetMapping): string | undefined => {
+    return findColumnKey(Object.keys(jsonData), [mapping.sheet, ...mapping.sheetAliases]);
+};
+
+// Score = number of canonical columns the profile can resolve in this workbook
+const scoreProfile = (jsonData: { [sheetName: string]: any[] }, profile: ColumnProfile, type: ProfileFileType): number => {
+    let score = 0;
+    profile[type].forEach(mapping => {
+        const sheetName = findSheetName(jsonData, mapping);
+        if (!sheetName) return;
+        score++;
+        const keys = Object.keys((jsonData[sheetName] || [])[0] || {});
+        Object.keys(mapping.columns).forEach(canonical => {
+            if (findColumnKey(keys, [canonical, ...mapping.columns[canonical]])) score++;
+        });
+    });
+    return score;
+};
+
+// Pick the profile that resolves the most sheets/columns. Ties go to the earlier profile (the standard layout first).
+export const detectProfile = (jsonData: { [sheetName: string]: any[] }, type: ProfileFileType, profiles: ColumnProfile[] = COLUMN_PROFILES): ColumnProfile => {
+    let best = profiles[0];
+    let bestScore = scoreProfile(jsonData, best, type);
+    profiles.slice(1).forEach(profile => {
+        const score = scoreProfile(jsonData, profile, type);
+        if (score > bestScore) {
+            best = profile;
+            bestScore = score;
+        }
+    });
+    return best;
+};
+
+// Rename sheets and columns to their canonical names. Unmapped sheets and columns are kept untouched.
+export const applyProfile = (jsonData: { [sheetName: string]: any[] }, profile: ColumnProfile, type: ProfileFileType): ProfileApplication => {
+    const result: { [sheetName: string]: any[] } = { ...jsonData };
+    const renamed: string[] = [];
+
+    profile[type].forEach(mapping => {
+        const sheetName = findSheetName(jsonData, mapping);
+        if (!sheetName) return;
+
+        const rows = jsonData[sheetName] || [];
+        const keys = Object.keys(rows[0] || {});
+        const keyMap: { [actual: string]: string } = {};
+        Object.keys(mapping.columns).forEach(canonical => {
+            const actual = findColumnKey(keys, [canonical, ...mapping.columns[canonical]]);
+            if (actual && actual !== canonical && !keys.includes(canonical)) {
+                keyMap[actual] = canonical;
+                renamed.push(`${mapping.sheet}: '${actual}' -> '${canonical}'`);
+            }
+        });
+
+        if (sheetName !== mapping.sheet) {
+            delete result[sheetName];
+            renamed.push(`Sheet '${sheetName}' -> '${mapping.sheet}'`);
+        }
+
+        result[mapping.sheet] = Object.keys(keyMap).length === 0 ? rows : rows.map(row => {
+            const newRow: { [key: string]: any } = {};
+            Object.keys(row).forEach(k => {
+                newRow[keyMap[k] || k] = row[k];
+            });
+            return newRow;
+        });
+    });
+
+    return { jsonData: result, renamed };
+};
@@ -0,0 +1,174 @@
+// --- Incremental Delta Mode ---
+// Compares a run against a previous Salesforce export (one of our CSVs or a report keyed on "Land External ID")
+// so only real changes are upserted and no lead is ever sent backward in the pipeline.
+
+import { findColumnKey } from './columnProfiles';
+import type { OutputData, ValidationResult } from './transformer';
+import type { CsvDatasetKey } from './outputEditor';
+
+export type DeltaStatus = 'new' | 'changed' | 'unchanged' | 'missing';
+
+export interface FieldChange {
+    field: string;
+    previous: string;
+    current: string;
+}
+
+export interface DeltaRow {
+    externalId: string;
+    status: DeltaStatus;
+    changes: FieldChange[];
+    blocked: boolean;           // Lead is already further along in Salesforce; its Lead Status is never sent back
+    previousLeadStatus: string;
+}
+
+export interface CargaDelta {
+    rows: DeltaRow[];
+    counts: { [key in Exclude<DeltaStatus, 'missing'>]: number } & { blocked: number };
+}
+
+export interface DeltaReport {
+    cargas: { [key in CsvDatasetKey]: CargaDelta };
+    missing: string[]; // External IDs in the previous export that this run no longer produces
+}
+
+const EXTERNAL_ID_ALIASES = ['Land External ID', 'Land_External_ID__c', 'External ID', 'External_ID__c'];
+const LEAD_STATUS_ALIASES = ['Lead Status', 'Lead_Status__c', 'Status'];
+
+// Pipeline order. Any other non-empty Salesforce status is assumed to be beyond Contacted.
+const LEAD_STATUS_RANK: { [status: string]: number } = { scouted: 1, retrieved: 2, contacted: 3 };
+const ADVANCED_RANK = 99;
+
+export const leadStatusRank = (status: any): number => {
+    const s = String(status ?? '').trim().toLowerCase();
+    if (!s) return 0;
+    return LEAD_STATUS_RANK[s] ?? ADVANCED_RANK;
+};
+
+const text = (val: any): string => (val === null || val === undefined ? '' : String(val).trim());
+
+// "1,25" and "1.25" are the same area; everything else is compared as trimmed text
+export const sameValue = (a: string, b: string): boolean => {
+    if (a === b) return true;
+    const na = Number(a.replace(',', '.'));
+    const nb = Number(b.replace(',', '.'));
+    return a !== '' && b !== '' && !isNaN(na) && !isNaN(nb) && na === nb;
+};
+
+export interface PreviousExport {
+    rows: Map<string, any>;
+    externalIdColumn: string;
+}
+
+// Validate the first sheet of a previous export and index it by External ID
+export const parsePreviousExport = (jsonData: { [sheetName: string]: any[] }): { previous: PreviousExport | null, validation: ValidationResult } => {
+    const errors: string[] = [];
+    const sheetName = Object.keys(jsonData)[0];
+    const sheet = sheetName ? jsonData[sheetName] : [];
+    if (!sheet || sheet.length === 0) {
+        errors.push('Previous export is empty.');
+        return { previous: null, validation: { isValid: false, errors } };
+    }
+
+    const keys = Object.keys(sheet[0]);
+    const idCol = findColumnKey(keys, EXTERNAL_ID_ALIASES);
+    if (!idCol) {
+        errors.push(`Previous export is missing the 'Land External ID' column. Found columns: ${keys.join(', ')}`);
+        return { previous: null, validation: { isValid: false, errors } };
+    }
+
+    const rows = new Map<string, any>();
+    sheet.forEach(row => {
+        const id = text(row[idCol]);
+        if (id && !rows.has(id)) rows.set(id, row);
+    });
+    return { previous: { rows, externalIdColumn: idCol }, validation: { isValid: true, errors } };
+};
+
+const compareCarga = (csvRows: any[], previous: PreviousExport): CargaDelta => {
+    const counts = { new: 0, changed: 0, unchanged: 0, blocked: 0 };
+    const rows: DeltaRow[] = csvRows.map(row => {
+        const externalId = text(row['Land External ID']);
+        const prev = previous.rows.get(externalId);
+        if (!prev) {
+            counts.new++;
+            return { externalId, status: 'new', changes: [], blocked: false, previousLeadStatus: '' };
+        }
+
+        const prevKeys = Object.keys(prev);
+        const prevStatusCol = findColumnKey(prevKeys, LEAD_STATUS_ALIASES);
+        const previousLeadStatus = prevStatusCol ? text(prev[prevStatusCol]) : '';
+        const blocked = leadStatusRank(previousLeadStatus) > leadStatusRank(row['Lead Status']);
+
+        const changes: FieldChange[] = [];
+        Object.keys(row).forEach(field => {
+            // A blocked lead keeps its Salesforce status, so the status difference is not a change
+            if (field === 'Land External ID' || (blocked && field === 'Lead Status')) return;
+            // Match report headers and Salesforce API names ("Main_Owner_Name__c"); fields absent from the export are not compared
+            const prevCol = field === 'Lead Status' ? prevStatusCol : findColumnKey(prevKeys, [field, `${field}__c`]);
+            if (!prevCol) return;
+            const current = text(row[field]);
+            const previousValue = text(prev[prevCol]);
+            if (!sameValue(current, previousValue)) {
+                changes.push({ field, previous: previousValue, current });
+            }
+        });
+
+        const status: DeltaStatus = changes.length > 0 ? 'changed' : 'unchanged';
+        counts[status]++;
+        if (blocked) counts.blocked++;
+        return { externalId, status, changes, blocked, previousLeadStatus };
+    });
+    return { rows, counts };
+};
+
+export const compareWithPrevious = (output: OutputData, previous: PreviousExport): DeltaReport => {
+    const current = new Set<string>();
+    (['csvScouted', 'csvRetrieved', 'csvContacted'] as CsvDatasetKey[]).forEach(key => {
+        output[key].forEach(r => current.add(text(r['Land External ID'])));
+    });
+    const missing = Array.from(previous.rows.keys()).filter(id => !current.has(id));
+
+    return {
+        cargas: {
+            csvScouted: compareCarga(output.csvScouted, previous),
+            csvRetrieved: compareCarga(output.csvRetrieved, previous),
+            csvContacted: compareCarga(output.csvContacted, previous),
+        },
+        missing,
+    };
+};
+
+// Rows to upsert for a Carga: new and changed leads. A lead Salesforce already has at a later stage is sent with
+// its Salesforce Lead Status, so its data is updated without moving it back in the pipeline.
+export const changesOnly = (output: OutputData, report: DeltaReport, key: CsvDatasetKey): any[] => {
+    const delta = report.cargas[key];
+    const rows: any[] = [];
+    output[key].forEach((row, i) => {
+        const d = delta.rows[i];
+        if (!d || (d.status !== 'new' && d.status !== 'changed')) return;
+        rows.push(d.blocked ? { ...row, 'Lead Status': d.previousLeadStatus } : row);
+    });
+    return rows;
+};
+
+// One row per changed field (or per lead for new/unchanged/missing) for display and export
+export const deltaToRows = (report: DeltaReport, key: CsvDatasetKey): any[] => {
+    const rows: any[] = [];
+    report.cargas[key].rows.forEach(d => {
+        const base = {
+            'Land External ID': d.externalId,
+            'Delta': d.status,
+            'Blocked': d.blocked ? `Yes (Salesforce: ${d.previousLeadStatus}, kept)` : '',
+        };
+        if (d.changes.length === 0) {
+            rows.push({ ...base, 'Field': '', 'Previous': '', 'Current': '' });
+        } else {
+            d.changes.forEach(c => rows.push({ ...base, 'Field': c.field, 'Previous': c.previous, 'Current': c.current }));
+        }
+    });
+    report.missing.forEach(id => {
+        rows.push({ 'Land External ID': id, 'Delta': 'missing', 'Blocked': '', 'Field': '', 'Previous': '', 'Current': '' });
+    });
+    return rows;
+};
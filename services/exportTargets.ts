@@ -0,0 +1,266 @@
+// --- Export Targets ---
+// Named file layouts for the same lead data. mapToCsvRow builds a neutral LeadRecord per parcel; a target decides
+// field order, header labels, length limits, boolean/decimal/date formats, delimiter and encoding.
+// The Salesforce target reproduces the original import CSV exactly.
+
+export type LeadField =
+    | 'externalId' | 'leadStatus'
+    | 'province' | 'provinceCode' | 'region' | 'municipality' | 'istatCode' | 'section' | 'foglio' | 'particella' | 'area'
+    | 'firstName' | 'lastName' | 'email' | 'fiscalCode' | 'fiscalCodeStatus' | 'cp'
+    | 'hasVariousOwners' | 'numberOfOwners' | 'allOwners' | 'ownershipTotal' | 'ownershipStatus'
+    | 'lineageMatch' | 'predecessorIds'
+    | 'exportDate';
+
+export type LeadFieldType = 'text' | 'boolean' | 'decimal' | 'integer' | 'date';
+
+export const LEAD_FIELD_TYPES: { [key in LeadField]: LeadFieldType } = {
+    externalId: 'text',
+    leadStatus: 'text',
+    province: 'text',
+    provinceCode: 'text',
+    region: 'text',
+    municipality: 'text',
+    istatCode: 'text',
+    section: 'text',
+    foglio: 'text',
+    particella: 'text',
+    area: 'decimal',
+    firstName: 'text',
+    lastName: 'text',
+    email: 'text',
+    fiscalCode: 'text',
+    fiscalCodeStatus: 'text',
+    cp: 'text',
+    hasVariousOwners: 'boolean',
+    numberOfOwners: 'integer',
+    allOwners: 'text',
+    ownershipTotal: 'decimal',
+    ownershipStatus: 'text',
+    lineageMatch: 'boolean',
+    predecessorIds: 'text',
+    exportDate: 'date',
+};
+
+// Sanitized values before any target-specific formatting ('' = no value)
+export type LeadRecord = { [key in LeadField]: any };
+
+export interface TargetField {
+    source: LeadField;
+    label: string;
+    maxLength?: number;
+}
+
+export type DateFormat = 'iso' | 'dd/mm/yyyy' | 'mm/dd/yyyy';
+
+export interface ExportTarget {
+    id: string;
+    name: string;
+    description: string;
+    format: 'csv' | 'jsonl';
+    fileSuffix: string;                 // "<carga><suffix>.<csv|jsonl>"
+    delimiter: string;
+    encoding: 'utf-8' | 'utf-8-bom';    // BOM helps Excel detect UTF-8
+    lineEnding: '\r\n' | '\n';
+    quoteAll: boolean;                  // Otherwise only values containing the delimiter, quotes or newlines are quoted
+    booleans: [string, string];         // Labels for true/false
+    decimalSeparator: '.' | ',';
+    dateFormat: DateFormat;
+    typed: boolean;                     // Keep numbers/booleans as JSON types (JSON Lines only)
+    fields: TargetField[];
+}
+
+export const SALESFORCE_TARGET_ID = 'salesforce';
+
+export const SALESFORCE_TARGET: ExportTarget = {
+    id: SALESFORCE_TARGET_ID,
+    name: 'Salesforce',
+    description: 'Campaign import CSV (Carga 1/2/3 upserts on Land External ID)',
+    format: 'csv',
+    fileSuffix: '_data',
+    delimiter: ',',
+    encoding: 'utf-8-bom',
+    lineEnding: '\r\n',
+    quoteAll: true,
+    booleans: ['True', 'False'],
+    decimalSeparator: ',',
+    dateFormat: 'dd/mm/yyyy',
+    typed: false,
+    fields: [
+        { source: 'externalId', label: 'Land External ID' },
+        { source: 'leadStatus', label: 'Lead Status' },
+        { source: 'province', label: 'Land Province' },
+        { source: 'region', label: 'Land Region' },
+        { source: 'municipality', label: 'Municipality' },
+        { source: 'section', label: 'Sezione' },
+        { source: 'foglio', label: 'Foglio' },
+        { source: 'particella', label: 'Particella' },
+        { source: 'area', label: 'Cadastral Area (Ha)' },
+        { source: 'firstName', label: 'Main Owner Name', maxLength: 40 },
+        { source: 'lastName', label: 'Main Owner Last Name', maxLength: 80 },
+        { source: 'email', label: 'Email' },
+        { source: 'fiscalCode', label: 'Fiscal Code' },
+        { source: 'fiscalCodeStatus', label: 'Fiscal Code Status' },
+        { source: 'cp', label: 'CP' },
+        { source: 'hasVariousOwners', label: 'Has Various Owners' },
+        { source: 'numberOfOwners', label: 'Number of Owners' },
+        { source: 'allOwners', label: 'All Owners', maxLength: 255 },
+        { source: 'lineageMatch', label: 'Lineage Match' },
+        { source: 'predecessorIds', label: 'Predecessor External IDs', maxLength: 255 },
+    ],
+};
+
+export const EXPORT_TARGETS: ExportTarget[] = [
+    SALESFORCE_TARGET,
+    {
+        id: 'hubspot',
+        name: 'HubSpot',
+        description: 'Contacts import with HubSpot default property labels',
+        format: 'csv',
+        fileSuffix: '_hubspot',
+        delimiter: ',',
+        encoding: 'utf-8',
+        lineEnding: '\n',
+        quoteAll: false,
+        booleans: ['true', 'false'],
+        decimalSeparator: '.',
+        dateFormat: 'mm/dd/yyyy',
+        typed: false,
+        fields: [
+            { source: 'externalId', label: 'Land External ID' },
+            { source: 'leadStatus', label: 'Lead Status' },
+            { source: 'firstName', label: 'First Name' },
+            { source: 'lastName', label: 'Last Name' },
+            { source: 'email', label: 'Email' },
+            { source: 'municipality', label: 'City' },
+            { source: 'province', label: 'State/Region' },
+            { source: 'cp', label: 'Postal Code' },
+            { source: 'fiscalCode', label: 'Fiscal Code' },
+            { source: 'section', label: 'Sezione' },
+            { source: 'foglio', label: 'Foglio' },
+            { source: 'particella', label: 'Particella' },
+            { source: 'area', label: 'Cadastral Area (Ha)' },
+            { source: 'hasVariousOwners', label: 'Has Various Owners' },
+            { source: 'numberOfOwners', label: 'Number of Owners' },
+            { source: 'allOwners', label: 'All Owners' },
+            { source: 'exportDate', label: 'Import Date' },
+        ],
+    },
+    {
+        id: 'generic-csv',
+        name: 'Generic CSV (UTF-8)',
+        description: 'Every field, dot decimals, ISO dates, no BOM',
+        format: 'csv',
+        fileSuffix: '_utf8',
+        delimiter: ',',
+        encoding: 'utf-8',
+        lineEnding: '\r\n',
+        quoteAll: false,
+        booleans: ['true', 'false'],
+        decimalSeparator: '.',
+        dateFormat: 'iso',
+        typed: false,
+        fields: (Object.keys(LEAD_FIELD_TYPES) as LeadField[]).map(source => ({
+            source,
+            label: source.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`),
+        })),
+    },
+    {
+        id: 'jsonl',
+        name: 'JSON Lines',
+        description: 'One JSON object per parcel for the data lake',
+        format: 'jsonl',
+        fileSuffix: '_data',
+        delimiter: '',
+        encoding: 'utf-8',
+        lineEnding: '\n',
+        quoteAll: false,
+        booleans: ['true', 'false'],
+        decimalSeparator: '.',
+        dateFormat: 'iso',
+        typed: true,
+        fields: (Object.keys(LEAD_FIELD_TYPES) as LeadField[]).map(source => ({ source, label: source })),
+    },
+];
+
+export const getExportTarget = (id: string): ExportTarget | undefined => EXPORT_TARGETS.find(t => t.id === id);
+
+export const targetFileName = (target: ExportTarget, carga: string): string => {
+    return `${carga}${target.fileSuffix}.${target.format === 'jsonl' ? 'jsonl' : 'csv'}`;
+};
+
+export const targetMimeType = (target: ExportTarget): string => {
+    return target.format === 'jsonl' ? 'application/x-ndjson;charset=utf-8' : 'text/csv;charset=utf-8;';
+};
+
+const formatDate = (value: any, format: DateFormat): string => {
+    const d = value instanceof Date ? value : new Date(value);
+    if (isNaN(d.getTime())) return '';
+    const yyyy = String(d.getFullYear());
+    const mm = String(d.getMonth() + 1).padStart(2, '0');
+    const dd = String(d.getDate()).padStart(2, '0');
+    if (format === 'dd/mm/yyyy') return `${dd}/${mm}/${yyyy}`;
+    if (format === 'mm/dd/yyyy') return `${mm}/${dd}/${yyyy}`;
+    return `${yyyy}-${mm}-${dd}`;
+};
+
+const formatValue = (value: any, field: TargetField, target: ExportTarget): any => {
+    const type = LEAD_FIELD_TYPES[field.source];
+    const empty = value === null || value === undefined || value === '';
+
+    switch (type) {
+        case 'boolean':
+            if (target.typed) return Boolean(value);
+            return value ? target.booleans[0] : target.booleans[1];
+        case 'decimal': {
+            if (empty) return target.typed ? null : '';
+            const s = String(value);
+            if (target.typed) {
+                const n = Number(s.replace(',', '.'));
+                return isNaN(n) ? s : n;
+            }
+            return target.decimalSeparator === ',' ? s.replace('.', ',') : s.replace(',', '.');
+        }
+        case 'integer': {
+            if (empty) return target.typed ? null : '';
+            const n = Number(value);
+            return target.typed && !isNaN(n) ? n : String(value);
+        }
+        case 'date':
+            if (empty) return target.typed ? null : '';
+            return formatDate(value, target.dateFormat);
+        case 'text':
+        default: {
+            const s = empty ? '' : String(value);
+            return field.maxLength ? s.substring(0, field.maxLength) : s;
+        }
+    }
+};
+
+// One output row keyed by the target's header labels, in the target's field order
+export const formatLeadRecord = (record: LeadRecord, target: ExportTarget): { [label: string]: any } => {
+    const row: { [label: string]: any } = {};
+    target.fields.forEach(field => {
+        row[field.label] = formatValue(record[field.source], field, target);
+    });
+    return row;
+};
+
+const quoteCsv = (value: any, target: ExportTarget): string => {
+    const s = value === null || value === undefined ? '' : String(value);
+    const needsQuotes = target.quoteAll || s.includes(target.delimiter) || /["\r\n]/.test(s);
+    return needsQuotes ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+// Serialize formatted rows into the target's file content
+export const serializeForTarget = (rows: { [label: string]: any }[], target: ExportTarget): string => {
+    const bom = target.encoding === 'utf-8-bom' ? '\uFEFF' : '';
+    if (target.format === 'jsonl') {
+        return bom + rows.map(r => JSON.stringify(r)).join(target.lineEnding) + (rows.length > 0 ? target.lineEnding : '');
+    }
+    const headers = target.fields.map(f => f.label);
+    const lines = [
+        headers.map(h => quoteCsv(h, target)).join(target.delimiter),
+        ...rows.map(r => headers.map(h => quoteCsv(r[h], target)).join(target.delimiter)),
+    ];
+    return bom + lines.join(target.lineEnding);
+};
@@ -0,0 +1,126 @@
+// --- Output file builders ---
+// Shared by the browser download buttons and the headless CLI so both produce byte-identical files.
+
+import { auditForRows, auditToRows } from './audit';
+import { CSV_DATASETS } from './outputEditor';
+import { qualityIssueRows, qualitySummaryRows } from './quality';
+import { ownersForRows } from './owners';
+import { buildReviewWorkbook } from './reviewWorkbook';
+import { toLeadRecord } from './transformer';
+import type { OutputData } from './transformer';
+import { formatLeadRecord, serializeForTarget, targetFileName, targetMimeType, SALESFORCE_TARGET_ID } from './exportTargets';
+import type { ExportTarget } from './exportTargets';
+import type { DatasetKey } from './outputEditor';
+
+// Build a Salesforce-ready CSV string (quoted fields, CRLF rows, BOM for Excel compatibility)
+export const buildCsv = (data: any[]): string => {
+    if (!data || data.length === 0) return '';
+
+    // Get headers from the first row
+    const headers = Object.keys(data[0]);
+
+    const csvRows = [
+        // Header row
+        headers.map(header => `"${header}"`).join(','),
+        // Data rows
+        ...data.map((row: any) =>
+            headers.map(header => {
+                const val = row[header] === null || row[header] === undefined ? '' : String(row[header]);
+                // Escape quotes by doubling them
+                const escapedVal = val.replace(/"/g, '""');
+                return `"${escapedVal}"`;
+            }).join(',')
+        )
+    ];
+
+    return '\uFEFF' + csvRows.join('\r\n');
+};
+
+// Build an xlsx workbook with one sheet per entry (empty extra sheets are skipped) and return its bytes
+export const buildWorkbook = (sheets: { [sheetName: string]: any[] }, xlsx: any = window.XLSX): ArrayBuffer => {
+    const wb = xlsx.utils.book_new();
+    Object.keys(sheets).forEach((sheetName, i) => {
+        if (i === 0 || sheets[sheetName].length > 0) {
+            xlsx.utils.book_append_sheet(wb, xlsx.utils.json_to_sheet(sheets[sheetName]), sheetName);
+        }
+    });
+    return xlsx.write(wb, { bookType: 'xlsx', type: 'array' });
+};
+
+// Build an xlsx workbook ('Sheet1' plus optional extra sheets such as 'Audit') and return its bytes
+export const buildExcel = (data: any[], extraSheets: { [sheetName: string]: any[] } = {}, xlsx: any = window.XLSX): ArrayBuffer => {
+    return buildWorkbook({ Sheet1: data, ...extraSheets }, xlsx);
+};
+
+// Data quality report: per-rule counts plus every issue with its row reference
+export const buildQualityReport = (output: OutputData, xlsx: any = window.XLSX): ArrayBuffer => {
+    return buildWorkbook({ Summary: qualitySummaryRows(output.quality), Issues: qualityIssueRows(output.quality) }, xlsx);
+};
+
+// Extra sheets bundled with each "Excel (Check)" file: the owners and the owner resolution audit for the parcels in that Carga
+export const excelExtraSheets = (output: OutputData, key: 'scouted' | 'retrieved' | 'contacted'): { [sheetName: string]: any[] } => {
+    if (key === 'scouted') return {};
+    const csvRows = output[CSV_DATASETS[key].csvKey];
+    return {
+        Owners: ownersForRows(output.owners, csvRows),
+        Audit: output.audit ? auditToRows(auditForRows(output.audit, csvRows)) : [],
+    };
+};
+
+// One contact per owner for the parcels of a Carga (Contact-to-Land junction import)
+export const buildOwnersCsv = (output: OutputData, key: 'scouted' | 'retrieved' | 'contacted'): string => {
+    return buildCsv(ownersForRows(output.owners, output[CSV_DATASETS[key].csvKey]));
+};
+
+// File for one Carga in the chosen export target.
+// Salesforce uses the CSV dataset itself so edits made in the "Salesforce CSV" preview are kept;
+// other targets are built from the internal dataset.
+export const buildTargetExport = (
+    output: OutputData,
+    key: 'scouted' | 'retrieved' | 'contacted',
+    target: ExportTarget,
+    exportDate: Date = new Date()
+): { fileName: string, mimeType: string, content: string, rowCount: number } => {
+    const { csvKey, status } = CSV_DATASETS[key];
+    const fileName = targetFileName(target, key);
+    const mimeType = targetMimeType(target);
+    if (target.id === SALESFORCE_TARGET_ID) {
+        return { fileName, mimeType, content: buildCsv(output[csvKey]), rowCount: output[csvKey].length };
+    }
+    const rows = output[key].map(row => formatLeadRecord(toLeadRecord(row, status, exportDate), target));
+    return { fileName, mimeType, content: serializeForTarget(rows, target), rowCount: rows.length };
+};
+
+// Same file names the Download step uses
+export const OUTPUT_FILES: { key: DatasetKey, fileName: string, kind: 'excel' | 'csv' }[] = [
+    { key: 'scouted', fileName: 'scouted_data.xlsx', kind: 'excel' },
+    { key: 'retrieved', fileName: 'retrieved_data.xlsx', kind: 'excel' },
+    { key: 'contacted', fileName: 'contacted_data.xlsx', kind: 'excel' },
+    { key: 'csvScouted', fileName: 'scouted_data.csv', kind: 'csv' },
+    { key: 'csvRetrieved', fileName: 'retrieved_data.csv', kind: 'csv' },
+    { key: 'csvContacted', fileName: 'contacted_data.csv', kind: 'csv' },
+];
+
+// Every output file of a run, as written by the CLI: Excel checks, Salesforce CSVs, owner CSVs, the quality report
+// and the review workbook.
+// Empty datasets are skipped.
+export const buildOutputFiles = (output: OutputData, xlsx: any = window.XLSX): { fileName: string, content: string | ArrayBuffer | Uint8Array }[] => {
+    const files: { fileName: string, content: string | ArrayBuffer | Uint8Array }[] = [];
+    OUTPUT_FILES.forEach(({ key, fileName, kind }) => {
+        const data = output[key];
+        if (!data || data.length === 0) return;
+        files.push({
+            fileName,
+            content: kind === 'excel'
+                ? buildExcel(data, excelExtraSheets(output, key as 'scouted' | 'retrieved' | 'contacted'), xlsx)
+                : buildCsv(data),
+        });
+    });
+    (['retrieved', 'contacted'] as const).forEach(key => {
+        const content = buildOwnersCsv(output, key);
+        if (content) files.push({ fileName: `${key}_owners.csv`, content });
+    });
+    files.push({ fileName: 'quality_report.xlsx', content: buildQualityReport(output, xlsx) });
+    files.push({ fileName: 'review.xlsx', content: buildReviewWorkbook(output, xlsx) });
+    return files;
+};
@@ -0,0 +1,121 @@
+// --- Italian Fiscal Codes (Codice Fiscale / Partita IVA) ---
+// Personal codes: 16 chars, last one is a checksum letter. Company codes: 11 digits, last one is a Luhn-style check digit.
+
+export type OwnerType = 'person' | 'company' | 'invalid';
+
+export interface FiscalCodeInfo {
+    code: string;          // Normalized (trimmed, uppercase) code
+    type: OwnerType;
+    birthDate?: string;    // ISO date (YYYY-MM-DD), personal codes only
+    sex?: 'M' | 'F';
+    belfiore?: string;     // Cadastral municipality code of birth (e.g. H501 = Roma)
+}
+
+// Output labels used in the "Fiscal Code Status" column
+export const OWNER_TYPE_LABELS: { [key in OwnerType]: string } = {
+    person: 'Person',
+    company: 'Company',
+    invalid: 'Invalid',
+};
+
+const CF_PATTERN = /^[A-Z]{6}[0-9LMNPQRSTUV]{2}[ABCDEHLMPRST][0-9LMNPQRSTUV]{2}[A-Z][0-9LMNPQRSTUV]{3}[A-Z]$/;
+const PIVA_PATTERN = /^\d{11}$/;
+
+// Values for characters in odd positions (1st, 3rd, ...). Digits share the value of the letter with the same index.
+const ODD_VALUES = [1, 0, 5, 7, 9, 13, 15, 17, 19, 21, 2, 4, 18, 20, 11, 3, 6, 8, 12, 14, 16, 10, 22, 25, 24, 23];
+const MONTH_LETTERS = 'ABCDEHLMPRST';
+// Omocodia: digits replaced by letters to disambiguate identical codes
+const OMOCODE_LETTERS = 'LMNPQRSTUV';
+const OMOCODE_POSITIONS = [6, 7, 9, 10, 12, 13, 14];
+
+const charIndex = (c: string): number => (/\d/.test(c) ? Number(c) : c.charCodeAt(0) - 65);
+
+export const normalizeFiscalCode = (cf: any): string => String(cf ?? '').replace(/\s+/g, '').toUpperCase();
+
+const computeCfCheckChar = (first15: string): string => {
+    let sum = 0;
+    for (let i = 0; i < 15; i++) {
+        const idx = charIndex(first15[i]);
+        // Positions are 1-based in the specification: index 0 is "odd"
+        sum += i % 2 === 0 ? ODD_VALUES[idx] : idx;
+    }
+    return String.fromCharCode(65 + (sum % 26));
+};
+
+export const isValidCodiceFiscale = (cf: any): boolean => {
+    const code = normalizeFiscalCode(cf);
+    if (!CF_PATTERN.test(code)) return false;
+    return computeCfCheckChar(code.substring(0, 15)) === code[15];
+};
+
+export const isValidPartitaIva = (piva: any): boolean => {
+    const code = normalizeFiscalCode(piva);
+    if (!PIVA_PATTERN.test(code)) return false;
+    let sum = 0;
+    for (let i = 0; i < 11; i++) {
+        let d = Number(code[i]);
+        if (i % 2 === 1) {
+            d *= 2;
+            if (d > 9) d -= 9;
+        }
+        sum += d;
+    }
+    return sum % 10 === 0;
+};
+
+// Replace omocodia letters with their original digits
+const decodeOmocodia = (code: string): string => {
+    const chars = code.split('');
+    OMOCODE_POSITIONS.forEach(pos => {
+        const i = OMOCODE_LETTERS.indexOf(chars[pos]);
+        if (i >= 0) chars[pos] = String(i);
+    });
+    return chars.join('');
+};
+
+// Extract birth date, sex and Belfiore code from a personal codice fiscale (assumes it is valid).
+// Returns null when the day does not exist (00, 32-40, 72+, or past the end of the month).
+const decodePersonalCode = (code: string, referenceYear: number): Pick<FiscalCodeInfo, 'birthDate' | 'sex' | 'belfiore'> | null => {
+    const decoded = decodeOmocodia(code);
+    const yy = Number(decoded.substring(6, 8));
+    const month = MONTH_LETTERS.indexOf(decoded[8]) + 1;
+    let day = Number(decoded.substring(9, 11));
+    const sex: 'M' | 'F' = day > 40 ? 'F' : 'M';
+    if (day > 40) day -= 40;
+
+    // Two-digit year: anything "in the future" belongs to the previous century
+    const century = yy > referenceYear % 100 ? 1900 : 2000;
+    const year = century + yy;
+
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    if (day < 1 || day > daysInMonth) return null;
+
+    const birthDate = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    return { birthDate, sex, belfiore: decoded.substring(11, 15) };
+};
+
+export const parseFiscalCode = (cf: any, referenceYear: number = new Date().getFullYear()): FiscalCodeInfo => {
+    const code = normalizeFiscalCode(cf);
+    if (isValidPartitaIva(code)) {
+        return { code, type: 'company' };
+    }
+    const personal = isValidCodiceFiscale(code) ? decodePersonalCode(code, referenceYear) : null;
+    if (personal) {
+        return { code, type: 'person', ...personal };
+    }
+    return { code, type: 'invalid' };
+};
+
+export const classifyOwner = (cf: any): OwnerType => parseFiscalCode(cf).type;
+
+// Owner type for the Corporate/Individual Priority filters, from the shape of the code as the original rule did: any
+// numeric code is a company (also with a bad check digit, or a leading zero lost in Excel), any other code a person.
+// Checksum problems are reported through the Fiscal Code Status instead of changing who is picked.
+export const policyOwnerType = (cf: any): 'company' | 'person' | '' => {
+    const code = normalizeFiscalCode(cf);
+    if (!code) return '';
+    return /^\d/.test(code) ? 'company' : 'person';
+};
+
+// Numeric codes starting with 8 or 9 belong to public and non-commercial entities (comuni, regioni, enti, associazioni)
+export const isPublicEntityCode = (cf: any): boolean => /^[89]\d{10}$/.test(normalizeFiscalCode(cf));
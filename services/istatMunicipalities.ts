@@ -0,0 +1,7915 @@
+// Generated by cli/build-istat-registry.ts from the ISTAT "Elenco comuni italiani" CSV. Do not edit by hand;
+// re-run `npm run istat-registry -- <Elenco-comuni-italiani.csv>` when ISTAT publishes a new list.
+
+export const ISTAT_MUNICIPALITIES_SOURCE = {
+    file: 'Elenco-comuni-italiani-2020-01-01.csv',
+    generatedAt: '2026-10-19',
+    validOn: '2020-01-01',
+    complete: true,
+};
+
+// istat;belfiore;name;otherLanguageName;province;region
+export const ISTAT_MUNICIPALITIES = `001001;A074;Agliè;;TO;Piemonte
+001002;A109;Airasca;;TO;Piemonte
+001003;A117;Ala di Stura;;TO;Piemonte
+001004;A157;Albiano d'Ivrea;;TO;Piemonte
+001006;A218;Almese;;TO;Piemonte
+001007;A221;Alpette;;TO;Piemonte
+001008;A222;Alpignano;;TO;Piemonte
+001009;A275;Andezeno;;TO;Piemonte
+001010;A282;Andrate;;TO;Piemonte
+001011;A295;Angrogna;;TO;Piemonte
+001012;A405;Arignano;;TO;Piemonte
+001013;A518;Avigliana;;TO;Piemonte
+001014;A525;Azeglio;;TO;Piemonte
+001015;A584;Bairo;;TO;Piemonte
+001016;A587;Balangero;;TO;Piemonte
+001017;A590;Baldissero Canavese;;TO;Piemonte
+001018;A591;Baldissero Torinese;;TO;Piemonte
+001019;A599;Balme;;TO;Piemonte
+001020;A607;Banchette;;TO;Piemonte
+001021;A625;Barbania;;TO;Piemonte
+001022;A651;Bardonecchia;;TO;Piemonte
+001023;A673;Barone Canavese;;TO;Piemonte
+001024;A734;Beinasco;;TO;Piemonte
+001025;A853;Bibiana;;TO;Piemonte
+001026;A910;Bobbio Pellice;;TO;Piemonte
+001027;A941;Bollengo;;TO;Piemonte
+001028;A990;Borgaro Torinese;;TO;Piemonte
+001029;B003;Borgiallo;;TO;Piemonte
+001030;B015;Borgofranco d'Ivrea;;TO;Piemonte
+001031;B021;Borgomasino;;TO;Piemonte
+001032;B024;Borgone Susa;;TO;Piemonte
+001033;B075;Bosconero;;TO;Piemonte
+001034;B121;Brandizzo;;TO;Piemonte
+001035;B171;Bricherasio;;TO;Piemonte
+001036;B205;Brosso;;TO;Piemonte
+001037;B209;Brozolo;;TO;Piemonte
+001038;B216;Bruino;;TO;Piemonte
+001039;B225;Brusasco;;TO;Piemonte
+001040;B232;Bruzolo;;TO;Piemonte
+001041;B278;Buriasco;;TO;Piemonte
+001042;B279;Burolo;;TO;Piemonte
+001043;B284;Busano;;TO;Piemonte
+001044;B297;Bussoleno;;TO;Piemonte
+001045;B305;Buttigliera Alta;;TO;Piemonte
+001046;B350;Cafasse;;TO;Piemonte
+001047;B435;Caluso;;TO;Piemonte
+001048;B462;Cambiano;;TO;Piemonte
+001049;B512;Campiglione Fenile;;TO;Piemonte
+001050;B588;Candia Canavese;;TO;Piemonte
+001051;B592;Candiolo;;TO;Piemonte
+001052;B605;Canischio;;TO;Piemonte
+001053;B628;Cantalupa;;TO;Piemonte
+001054;B637;Cantoira;;TO;Piemonte
+001055;B705;Caprie;;TO;Piemonte
+001056;B733;Caravino;;TO;Piemonte
+001057;B762;Carema;;TO;Piemonte
+001058;B777;Carignano;;TO;Piemonte
+001059;B791;Carmagnola;;TO;Piemonte
+001060;B867;Casalborgone;;TO;Piemonte
+001061;B953;Cascinette d'Ivrea;;TO;Piemonte
+001062;B955;Caselette;;TO;Piemonte
+001063;B960;Caselle Torinese;;TO;Piemonte
+001064;C045;Castagneto Po;;TO;Piemonte
+001065;C048;Castagnole Piemonte;;TO;Piemonte
+001066;C133;Castellamonte;;TO;Piemonte
+001067;C241;Castelnuovo Nigra;;TO;Piemonte
+001068;C307;Castiglione Torinese;;TO;Piemonte
+001069;C369;Cavagnolo;;TO;Piemonte
+001070;C404;Cavour;;TO;Piemonte
+001071;C487;Cercenasco;;TO;Piemonte
+001072;C497;Ceres;;TO;Piemonte
+001073;C505;Ceresole Reale;;TO;Piemonte
+001074;C564;Cesana Torinese;;TO;Piemonte
+001075;C604;Chialamberto;;TO;Piemonte
+001076;C610;Chianocco;;TO;Piemonte
+001077;C624;Chiaverano;;TO;Piemonte
+001078;C627;Chieri;;TO;Piemonte
+001079;C629;Chiesanuova;;TO;Piemonte
+001080;C639;Chiomonte;;TO;Piemonte
+001081;C655;Chiusa di San Michele;;TO;Piemonte
+001082;C665;Chivasso;;TO;Piemonte
+001083;C679;Ciconio;;TO;Piemonte
+001084;C711;Cintano;;TO;Piemonte
+001085;C715;Cinzano;;TO;Piemonte
+001086;C722;Ciriè;;TO;Piemonte
+001087;C793;Claviere;;TO;Piemonte
+001088;C801;Coassolo Torinese;;TO;Piemonte
+001089;C803;Coazze;;TO;Piemonte
+001090;C860;Collegno;;TO;Piemonte
+001091;C867;Colleretto Castelnuovo;;TO;Piemonte
+001092;C868;Colleretto Giacosa;;TO;Piemonte
+001093;C955;Condove;;TO;Piemonte
+001094;D008;Corio;;TO;Piemonte
+001095;D092;Cossano Canavese;;TO;Piemonte
+001096;D197;Cuceglio;;TO;Piemonte
+001097;D202;Cumiana;;TO;Piemonte
+001098;D208;Cuorgnè;;TO;Piemonte
+001099;D373;Druento;;TO;Piemonte
+001100;D433;Exilles;;TO;Piemonte
+001101;D520;Favria;;TO;Piemonte
+001102;D524;Feletto;;TO;Piemonte
+001103;D532;Fenestrelle;;TO;Piemonte
+001104;D562;Fiano;;TO;Piemonte
+001105;D608;Fiorano Canavese;;TO;Piemonte
+001106;D646;Foglizzo;;TO;Piemonte
+001107;D725;Forno Canavese;;TO;Piemonte
+001108;D781;Frassinetto;;TO;Piemonte
+001109;D805;Front;;TO;Piemonte
+001110;D812;Frossasco;;TO;Piemonte
+001111;D931;Garzigliana;;TO;Piemonte
+001112;D933;Gassino Torinese;;TO;Piemonte
+001113;D983;Germagnano;;TO;Piemonte
+001114;E009;Giaglione;;TO;Piemonte
+001115;E020;Giaveno;;TO;Piemonte
+001116;E067;Givoletto;;TO;Piemonte
+001117;E154;Gravere;;TO;Piemonte
+001118;E199;Groscavallo;;TO;Piemonte
+001119;E203;Grosso;;TO;Piemonte
+001120;E216;Grugliasco;;TO;Piemonte
+001121;E301;Ingria;;TO;Piemonte
+001122;E311;Inverso Pinasca;;TO;Piemonte
+001123;E345;Isolabella;;TO;Piemonte
+001124;E368;Issiglio;;TO;Piemonte
+001125;E379;Ivrea;;TO;Piemonte
+001126;E394;La Cassa;;TO;Piemonte
+001127;E423;La Loggia;;TO;Piemonte
+001128;E445;Lanzo Torinese;;TO;Piemonte
+001129;E484;Lauriano;;TO;Piemonte
+001130;E518;Leini;;TO;Piemonte
+001131;E520;Lemie;;TO;Piemonte
+001132;E551;Lessolo;;TO;Piemonte
+001133;E566;Levone;;TO;Piemonte
+001134;E635;Locana;;TO;Piemonte
+001135;E660;Lombardore;;TO;Piemonte
+001136;E661;Lombriasco;;TO;Piemonte
+001137;E683;Loranzè;;TO;Piemonte
+001139;E758;Luserna San Giovanni;;TO;Piemonte
+001140;E759;Lusernetta;;TO;Piemonte
+001141;E763;Lusigliè;;TO;Piemonte
+001142;E782;Macello;;TO;Piemonte
+001143;E817;Maglione;;TO;Piemonte
+001144;E941;Marentino;;TO;Piemonte
+001145;F041;Massello;;TO;Piemonte
+001146;F053;Mathi;;TO;Piemonte
+001147;F058;Mattie;;TO;Piemonte
+001148;F067;Mazzè;;TO;Piemonte
+001149;F074;Meana di Susa;;TO;Piemonte
+001150;F140;Mercenasco;;TO;Piemonte
+001152;F182;Mezzenile;;TO;Piemonte
+001153;F315;Mombello di Torino;;TO;Piemonte
+001154;F318;Mompantero;;TO;Piemonte
+001155;F327;Monastero di Lanzo;;TO;Piemonte
+001156;F335;Moncalieri;;TO;Piemonte
+001157;D553;Moncenisio;;TO;Piemonte
+001158;F407;Montaldo Torinese;;TO;Piemonte
+001159;F411;Montalenghe;;TO;Piemonte
+001160;F420;Montalto Dora;;TO;Piemonte
+001161;F422;Montanaro;;TO;Piemonte
+001162;F651;Monteu da Po;;TO;Piemonte
+001163;F733;Moriondo Torinese;;TO;Piemonte
+001164;F889;Nichelino;;TO;Piemonte
+001165;F906;Noasca;;TO;Piemonte
+001166;F925;Nole;;TO;Piemonte
+001167;F927;Nomaglio;;TO;Piemonte
+001168;F931;None;;TO;Piemonte
+001169;F948;Novalesa;;TO;Piemonte
+001170;G010;Oglianico;;TO;Piemonte
+001171;G087;Orbassano;;TO;Piemonte
+001172;G109;Orio Canavese;;TO;Piemonte
+001173;G151;Osasco;;TO;Piemonte
+001174;G152;Osasio;;TO;Piemonte
+001175;G196;Oulx;;TO;Piemonte
+001176;G202;Ozegna;;TO;Piemonte
+001177;G262;Palazzo Canavese;;TO;Piemonte
+001178;G303;Pancalieri;;TO;Piemonte
+001179;G330;Parella;;TO;Piemonte
+001180;G387;Pavarolo;;TO;Piemonte
+001181;G392;Pavone Canavese;;TO;Piemonte
+001183;G398;Pecetto Torinese;;TO;Piemonte
+001184;G463;Perosa Argentina;;TO;Piemonte
+001185;G462;Perosa Canavese;;TO;Piemonte
+001186;G465;Perrero;;TO;Piemonte
+001187;G477;Pertusio;;TO;Piemonte
+001188;G505;Pessinetto;;TO;Piemonte
+001189;G559;Pianezza;;TO;Piemonte
+001190;G672;Pinasca;;TO;Piemonte
+001191;G674;Pinerolo;;TO;Piemonte
+001192;G678;Pino Torinese;;TO;Piemonte
+001193;G684;Piobesi Torinese;;TO;Piemonte
+001194;G691;Piossasco;;TO;Piemonte
+001195;G705;Piscina;;TO;Piemonte
+001196;G719;Piverone;;TO;Piemonte
+001197;G777;Poirino;;TO;Piemonte
+001198;G805;Pomaretto;;TO;Piemonte
+001199;G826;Pont-Canavese;;TO;Piemonte
+001200;G900;Porte;;TO;Piemonte
+001201;G973;Pragelato;;TO;Piemonte
+001202;G978;Prali;;TO;Piemonte
+001203;G979;Pralormo;;TO;Piemonte
+001204;G982;Pramollo;;TO;Piemonte
+001205;G986;Prarostino;;TO;Piemonte
+001206;G988;Prascorsano;;TO;Piemonte
+001207;G997;Pratiglione;;TO;Piemonte
+001208;H100;Quagliuzzo;;TO;Piemonte
+001209;H120;Quassolo;;TO;Piemonte
+001210;H127;Quincinetto;;TO;Piemonte
+001211;H207;Reano;;TO;Piemonte
+001212;H270;Ribordone;;TO;Piemonte
+001213;H333;Rivalba;;TO;Piemonte
+001214;H335;Rivalta di Torino;;TO;Piemonte
+001215;H337;Riva presso Chieri;;TO;Piemonte
+001216;H338;Rivara;;TO;Piemonte
+001217;H340;Rivarolo Canavese;;TO;Piemonte
+001218;H344;Rivarossa;;TO;Piemonte
+001219;H355;Rivoli;;TO;Piemonte
+001220;H367;Robassomero;;TO;Piemonte
+001221;H386;Rocca Canavese;;TO;Piemonte
+001222;H498;Roletto;;TO;Piemonte
+001223;H511;Romano Canavese;;TO;Piemonte
+001224;H539;Ronco Canavese;;TO;Piemonte
+001225;H547;Rondissone;;TO;Piemonte
+001226;H554;Rorà;;TO;Piemonte
+001227;H555;Roure;;TO;Piemonte
+001228;H583;Rosta;;TO;Piemonte
+001229;H627;Rubiana;;TO;Piemonte
+001230;H631;Rueglio;;TO;Piemonte
+001231;H691;Salassa;;TO;Piemonte
+001232;H684;Salbertrand;;TO;Piemonte
+001233;H702;Salerano Canavese;;TO;Piemonte
+001234;H734;Salza di Pinerolo;;TO;Piemonte
+001235;H753;Samone;;TO;Piemonte
+001236;H775;San Benigno Canavese;;TO;Piemonte
+001237;H789;San Carlo Canavese;;TO;Piemonte
+001238;H804;San Colombano Belmonte;;TO;Piemonte
+001239;H820;San Didero;;TO;Piemonte
+001240;H847;San Francesco al Campo;;TO;Piemonte
+001241;H855;Sangano;;TO;Piemonte
+001242;H862;San Germano Chisone;;TO;Piemonte
+001243;H873;San Gillio;;TO;Piemonte
+001244;H890;San Giorgio Canavese;;TO;Piemonte
+001245;H900;San Giorio di Susa;;TO;Piemonte
+001246;H936;San Giusto Canavese;;TO;Piemonte
+001247;H997;San Martino Canavese;;TO;Piemonte
+001248;I024;San Maurizio Canavese;;TO;Piemonte
+001249;I030;San Mauro Torinese;;TO;Piemonte
+001250;I090;San Pietro Val Lemina;;TO;Piemonte
+001251;I126;San Ponso;;TO;Piemonte
+001252;I137;San Raffaele Cimena;;TO;Piemonte
+001253;I152;San Sebastiano da Po;;TO;Piemonte
+001254;I154;San Secondo di Pinerolo;;TO;Piemonte
+001255;I258;Sant'Ambrogio di Torino;;TO;Piemonte
+001256;I296;Sant'Antonino di Susa;;TO;Piemonte
+001257;I327;Santena;;TO;Piemonte
+001258;I465;Sauze di Cesana;;TO;Piemonte
+001259;I466;Sauze d'Oulx;;TO;Piemonte
+001260;I490;Scalenghe;;TO;Piemonte
+001261;I511;Scarmagno;;TO;Piemonte
+001262;I539;Sciolze;;TO;Piemonte
+001263;I692;Sestriere;;TO;Piemonte
+001264;I701;Settimo Rottaro;;TO;Piemonte
+001265;I703;Settimo Torinese;;TO;Piemonte
+001266;I702;Settimo Vittone;;TO;Piemonte
+001267;I886;Sparone;;TO;Piemonte
+001268;I969;Strambinello;;TO;Piemonte
+001269;I970;Strambino;;TO;Piemonte
+001270;L013;Susa;;TO;Piemonte
+001271;L066;Tavagnasco;;TO;Piemonte
+001272;L219;Torino;;TO;Piemonte
+001273;L238;Torrazza Piemonte;;TO;Piemonte
+001274;L247;Torre Canavese;;TO;Piemonte
+001275;L277;Torre Pellice;;TO;Piemonte
+001276;L327;Trana;;TO;Piemonte
+001278;L345;Traversella;;TO;Piemonte
+001279;L340;Traves;;TO;Piemonte
+001280;L445;Trofarello;;TO;Piemonte
+001281;L515;Usseaux;;TO;Piemonte
+001282;L516;Usseglio;;TO;Piemonte
+001283;L538;Vaie;;TO;Piemonte
+001284;L555;Val della Torre;;TO;Piemonte
+001285;L578;Valgioie;;TO;Piemonte
+001286;L629;Vallo Torinese;;TO;Piemonte
+001287;L644;Valperga;;TO;Piemonte
+001288;B510;Valprato Soana;;TO;Piemonte
+001289;L685;Varisella;;TO;Piemonte
+001290;L698;Vauda Canavese;;TO;Piemonte
+001291;L726;Venaus;;TO;Piemonte
+001292;L727;Venaria Reale;;TO;Piemonte
+001293;L779;Verolengo;;TO;Piemonte
+001294;L787;Verrua Savoia;;TO;Piemonte
+001295;L811;Vestignè;;TO;Piemonte
+001296;L830;Vialfrè;;TO;Piemonte
+001298;L857;Vidracco;;TO;Piemonte
+001299;L898;Vigone;;TO;Piemonte
+001300;L948;Villafranca Piemonte;;TO;Piemonte
+001301;L982;Villanova Canavese;;TO;Piemonte
+001302;M002;Villarbasse;;TO;Piemonte
+001303;L999;Villar Dora;;TO;Piemonte
+001304;M004;Villareggia;;TO;Piemonte
+001305;M007;Villar Focchiardo;;TO;Piemonte
+001306;M013;Villar Pellice;;TO;Piemonte
+001307;M014;Villar Perosa;;TO;Piemonte
+001308;M027;Villastellone;;TO;Piemonte
+001309;M060;Vinovo;;TO;Piemonte
+001310;M069;Virle Piemonte;;TO;Piemonte
+001311;M071;Vische;;TO;Piemonte
+001312;M080;Vistrorio;;TO;Piemonte
+001313;M094;Viù;;TO;Piemonte
+001314;M122;Volpiano;;TO;Piemonte
+001315;M133;Volvera;;TO;Piemonte
+001316;M316;Mappano;;TO;Piemonte
+001317;M405;Val di Chy;;TO;Piemonte
+001318;M415;Valchiusa;;TO;Piemonte
+002002;A119;Alagna Valsesia;;VC;Piemonte
+002003;A130;Albano Vercellese;;VC;Piemonte
+002004;A198;Alice Castello;;VC;Piemonte
+002006;A358;Arborio;;VC;Piemonte
+002007;A466;Asigliano Vercellese;;VC;Piemonte
+002008;A600;Balmuccia;;VC;Piemonte
+002009;A601;Balocco;;VC;Piemonte
+002011;A847;Bianzè;;VC;Piemonte
+002014;A914;Boccioleto;;VC;Piemonte
+002015;B009;Borgo d'Ale;;VC;Piemonte
+002016;B041;Borgosesia;;VC;Piemonte
+002017;B046;Borgo Vercelli;;VC;Piemonte
+002021;B280;Buronzo;;VC;Piemonte
+002025;B505;Campertogno;;VC;Piemonte
+002029;B752;Carcoforo;;VC;Piemonte
+002030;B767;Caresana;;VC;Piemonte
+002031;B768;Caresanablot;;VC;Piemonte
+002032;B782;Carisio;;VC;Piemonte
+002033;B928;Casanova Elvo;;VC;Piemonte
+002035;B952;San Giacomo Vercellese;;VC;Piemonte
+002041;C548;Cervatto;;VC;Piemonte
+002042;C680;Cigliano;;VC;Piemonte
+002043;C757;Civiasco;;VC;Piemonte
+002045;C884;Collobiano;;VC;Piemonte
+002047;D113;Costanzana;;VC;Piemonte
+002048;D132;Cravagliana;;VC;Piemonte
+002049;D154;Crescentino;;VC;Piemonte
+002052;D187;Crova;;VC;Piemonte
+002054;D281;Desana;;VC;Piemonte
+002057;D641;Fobello;;VC;Piemonte
+002058;D676;Fontanetto Po;;VC;Piemonte
+002059;D712;Formigliana;;VC;Piemonte
+002061;D938;Gattinara;;VC;Piemonte
+002062;E007;Ghislarengo;;VC;Piemonte
+002065;E163;Greggio;;VC;Piemonte
+002066;E237;Guardabosone;;VC;Piemonte
+002067;E433;Lamporo;;VC;Piemonte
+002068;E528;Lenta;;VC;Piemonte
+002070;E583;Lignana;;VC;Piemonte
+002071;E626;Livorno Ferraris;;VC;Piemonte
+002072;E711;Lozzolo;;VC;Piemonte
+002078;F297;Mollia;;VC;Piemonte
+002079;F342;Moncrivello;;VC;Piemonte
+002082;F774;Motta de' Conti;;VC;Piemonte
+002088;G016;Olcenengo;;VC;Piemonte
+002089;G018;Oldenico;;VC;Piemonte
+002090;G266;Palazzolo Vercellese;;VC;Piemonte
+002091;G471;Pertengo;;VC;Piemonte
+002093;G528;Pezzana;;VC;Piemonte
+002096;G666;Pila;;VC;Piemonte
+002097;G685;Piode;;VC;Piemonte
+002102;G940;Postua;;VC;Piemonte
+002104;G985;Prarolo;;VC;Piemonte
+002107;H108;Quarona;;VC;Piemonte
+002108;H132;Quinto Vercellese;;VC;Piemonte
+002110;H188;Rassa;;VC;Piemonte
+002113;H293;Rimella;;VC;Piemonte
+002115;H346;Rive;;VC;Piemonte
+002116;H365;Roasio;;VC;Piemonte
+002118;H549;Ronsecco;;VC;Piemonte
+002121;H577;Rossa;;VC;Piemonte
+002122;H364;Rovasenda;;VC;Piemonte
+002126;H690;Salasco;;VC;Piemonte
+002127;H707;Sali Vercellese;;VC;Piemonte
+002128;H725;Saluggia;;VC;Piemonte
+002131;H861;San Germano Vercellese;;VC;Piemonte
+002133;I337;Santhià;;VC;Piemonte
+002134;I544;Scopa;;VC;Piemonte
+002135;I545;Scopello;;VC;Piemonte
+002137;I663;Serravalle Sesia;;VC;Piemonte
+002142;I984;Stroppiana;;VC;Piemonte
+002147;L420;Tricerro;;VC;Piemonte
+002148;L429;Trino;;VC;Piemonte
+002150;L451;Tronzano Vercellese;;VC;Piemonte
+002152;L566;Valduggia;;VC;Piemonte
+002156;L669;Varallo;;VC;Piemonte
+002158;L750;Vercelli;;VC;Piemonte
+002163;M003;Villarboit;;VC;Piemonte
+002164;M028;Villata;;VC;Piemonte
+002166;M106;Vocca;;VC;Piemonte
+002170;M389;Alto Sermenza;;VC;Piemonte
+002171;M398;Cellio con Breia;;VC;Piemonte
+003001;A088;Agrate Conturbia;;NO;Piemonte
+003002;A264;Ameno;;NO;Piemonte
+003006;A414;Armeno;;NO;Piemonte
+003008;A429;Arona;;NO;Piemonte
+003012;A653;Barengo;;NO;Piemonte
+003016;A752;Bellinzago Novarese;;NO;Piemonte
+003018;A844;Biandrate;;NO;Piemonte
+003019;A911;Boca;;NO;Piemonte
+003021;A929;Bogogno;;NO;Piemonte
+003022;A953;Bolzano Novarese;;NO;Piemonte
+003023;B016;Borgolavezzaro;;NO;Piemonte
+003024;B019;Borgomanero;;NO;Piemonte
+003025;B043;Borgo Ticino;;NO;Piemonte
+003026;B176;Briga Novarese;;NO;Piemonte
+003027;B183;Briona;;NO;Piemonte
+003030;B431;Caltignaga;;NO;Piemonte
+003032;B473;Cameri;;NO;Piemonte
+003036;B823;Carpignano Sesia;;NO;Piemonte
+003037;B864;Casalbeltrame;;NO;Piemonte
+003039;B883;Casaleggio Novara;;NO;Piemonte
+003040;B897;Casalino;;NO;Piemonte
+003041;B920;Casalvolone;;NO;Piemonte
+003042;C149;Castellazzo Novarese;;NO;Piemonte
+003043;C166;Castelletto sopra Ticino;;NO;Piemonte
+003044;C364;Cavaglietto;;NO;Piemonte
+003045;C365;Cavaglio d'Agogna;;NO;Piemonte
+003047;C378;Cavallirio;;NO;Piemonte
+003049;C483;Cerano;;NO;Piemonte
+003051;C829;Colazza;;NO;Piemonte
+003052;C926;Comignago;;NO;Piemonte
+003055;D162;Cressa;;NO;Piemonte
+003058;D216;Cureggio;;NO;Piemonte
+003060;D309;Divignano;;NO;Piemonte
+003062;D347;Dormelletto;;NO;Piemonte
+003065;D492;Fara Novarese;;NO;Piemonte
+003066;D675;Fontaneto d'Agogna;;NO;Piemonte
+003068;D872;Galliate;;NO;Piemonte
+003069;D911;Garbagna Novarese;;NO;Piemonte
+003070;D921;Gargallo;;NO;Piemonte
+003073;E001;Ghemme;;NO;Piemonte
+003076;E120;Gozzano;;NO;Piemonte
+003077;E143;Granozzo con Monticello;;NO;Piemonte
+003079;E177;Grignasco;;NO;Piemonte
+003082;E314;Invorio;;NO;Piemonte
+003083;E436;Landiona;;NO;Piemonte
+003084;E544;Lesa;;NO;Piemonte
+003088;E803;Maggiora;;NO;Piemonte
+003090;E880;Mandello Vitta;;NO;Piemonte
+003091;E907;Marano Ticino;;NO;Piemonte
+003093;F047;Massino Visconti;;NO;Piemonte
+003095;F093;Meina;;NO;Piemonte
+003097;F188;Mezzomerico;;NO;Piemonte
+003098;F191;Miasino;;NO;Piemonte
+003100;F317;Momo;;NO;Piemonte
+003103;F859;Nebbiuno;;NO;Piemonte
+003104;F886;Nibbiola;;NO;Piemonte
+003106;F952;Novara;;NO;Piemonte
+003108;G019;Oleggio;;NO;Piemonte
+003109;G020;Oleggio Castello;;NO;Piemonte
+003112;G134;Orta San Giulio;;NO;Piemonte
+003114;G349;Paruzzaro;;NO;Piemonte
+003115;G421;Pella;;NO;Piemonte
+003116;G520;Pettenasco;;NO;Piemonte
+003119;G703;Pisano;;NO;Piemonte
+003120;G775;Pogno;;NO;Piemonte
+003121;G809;Pombia;;NO;Piemonte
+003122;H001;Prato Sesia;;NO;Piemonte
+003129;H213;Recetto;;NO;Piemonte
+003130;H502;Romagnano Sesia;;NO;Piemonte
+003131;H518;Romentino;;NO;Piemonte
+003133;I025;San Maurizio d'Opaglio;;NO;Piemonte
+003134;I052;San Nazzaro Sesia;;NO;Piemonte
+003135;I116;San Pietro Mosezzo;;NO;Piemonte
+003138;I736;Sillavengo;;NO;Piemonte
+003139;I767;Sizzano;;NO;Piemonte
+003140;I857;Soriso;;NO;Piemonte
+003141;I880;Sozzago;;NO;Piemonte
+003143;L007;Suno;;NO;Piemonte
+003144;L104;Terdobbiate;;NO;Piemonte
+003146;L223;Tornaco;;NO;Piemonte
+003149;L356;Trecate;;NO;Piemonte
+003153;L668;Vaprio d'Agogna;;NO;Piemonte
+003154;L670;Varallo Pombia;;NO;Piemonte
+003158;L808;Vespolate;;NO;Piemonte
+003159;L847;Vicolungo;;NO;Piemonte
+003164;M062;Vinzaglio;;NO;Piemonte
+003166;M416;Gattico-Veruno;;NO;Piemonte
+004001;A016;Acceglio;;CN;Piemonte
+004002;A113;Aisone;;CN;Piemonte
+004003;A124;Alba;;CN;Piemonte
+004004;A139;Albaretto della Torre;;CN;Piemonte
+004005;A238;Alto;;CN;Piemonte
+004006;A394;Argentera;;CN;Piemonte
+004007;A396;Arguello;;CN;Piemonte
+004008;A555;Bagnasco;;CN;Piemonte
+004009;A571;Bagnolo Piemonte;;CN;Piemonte
+004010;A589;Baldissero d'Alba;;CN;Piemonte
+004011;A629;Barbaresco;;CN;Piemonte
+004012;A660;Barge;;CN;Piemonte
+004013;A671;Barolo;;CN;Piemonte
+004014;A709;Bastia Mondovì;;CN;Piemonte
+004015;A716;Battifollo;;CN;Piemonte
+004016;A735;Beinette;;CN;Piemonte
+004017;A750;Bellino;;CN;Piemonte
+004018;A774;Belvedere Langhe;;CN;Piemonte
+004019;A779;Bene Vagienna;;CN;Piemonte
+004020;A782;Benevello;;CN;Piemonte
+004021;A798;Bergolo;;CN;Piemonte
+004022;A805;Bernezzo;;CN;Piemonte
+004023;A979;Bonvicino;;CN;Piemonte
+004024;B018;Borgomale;;CN;Piemonte
+004025;B033;Borgo San Dalmazzo;;CN;Piemonte
+004026;B079;Bosia;;CN;Piemonte
+004027;B084;Bossolasco;;CN;Piemonte
+004028;B101;Boves;;CN;Piemonte
+004029;B111;Bra;;CN;Piemonte
+004030;B167;Briaglia;;CN;Piemonte
+004031;B175;Briga Alta;;CN;Piemonte
+004032;B200;Brondello;;CN;Piemonte
+004033;B204;Brossasco;;CN;Piemonte
+004034;B285;Busca;;CN;Piemonte
+004035;B467;Camerana;;CN;Piemonte
+004037;B573;Canale;;CN;Piemonte
+004038;B621;Canosio;;CN;Piemonte
+004039;B692;Caprauna;;CN;Piemonte
+004040;B719;Caraglio;;CN;Piemonte
+004041;B720;Caramagna Piemonte;;CN;Piemonte
+004042;B755;Cardè;;CN;Piemonte
+004043;B841;Carrù;;CN;Piemonte
+004044;B845;Cartignano;;CN;Piemonte
+004045;B894;Casalgrasso;;CN;Piemonte
+004046;C046;Castagnito;;CN;Piemonte
+004047;C081;Casteldelfino;;CN;Piemonte
+004049;C165;Castelletto Stura;;CN;Piemonte
+004050;C167;Castelletto Uzzone;;CN;Piemonte
+004051;C173;Castellinaldo d'Alba;;CN;Piemonte
+004052;C176;Castellino Tanaro;;CN;Piemonte
+004053;C205;Castelmagno;;CN;Piemonte
+004054;C214;Castelnuovo di Ceva;;CN;Piemonte
+004055;C314;Castiglione Falletto;;CN;Piemonte
+004056;C317;Castiglione Tinella;;CN;Piemonte
+004057;C323;Castino;;CN;Piemonte
+004058;C375;Cavallerleone;;CN;Piemonte
+004059;C376;Cavallermaggiore;;CN;Piemonte
+004060;C441;Celle di Macra;;CN;Piemonte
+004061;C466;Centallo;;CN;Piemonte
+004062;C504;Ceresole Alba;;CN;Piemonte
+004063;C530;Cerretto Langhe;;CN;Piemonte
+004064;C547;Cervasca;;CN;Piemonte
+004065;C550;Cervere;;CN;Piemonte
+004066;C589;Ceva;;CN;Piemonte
+004067;C599;Cherasco;;CN;Piemonte
+004068;C653;Chiusa di Pesio;;CN;Piemonte
+004069;C681;Cigliè;;CN;Piemonte
+004070;C738;Cissone;;CN;Piemonte
+004071;C792;Clavesana;;CN;Piemonte
+004072;D022;Corneliano d'Alba;;CN;Piemonte
+004073;D062;Cortemilia;;CN;Piemonte
+004074;D093;Cossano Belbo;;CN;Piemonte
+004075;D120;Costigliole Saluzzo;;CN;Piemonte
+004076;D133;Cravanzana;;CN;Piemonte
+004077;D172;Crissolo;;CN;Piemonte
+004078;D205;Cuneo;;CN;Piemonte
+004079;D271;Demonte;;CN;Piemonte
+004080;D291;Diano d'Alba;;CN;Piemonte
+004081;D314;Dogliani;;CN;Piemonte
+004082;D372;Dronero;;CN;Piemonte
+004083;D401;Elva;;CN;Piemonte
+004084;D410;Entracque;;CN;Piemonte
+004085;D412;Envie;;CN;Piemonte
+004086;D499;Farigliano;;CN;Piemonte
+004087;D511;Faule;;CN;Piemonte
+004088;D523;Feisoglio;;CN;Piemonte
+004089;D742;Fossano;;CN;Piemonte
+004090;D751;Frabosa Soprana;;CN;Piemonte
+004091;D752;Frabosa Sottana;;CN;Piemonte
+004092;D782;Frassino;;CN;Piemonte
+004093;D856;Gaiola;;CN;Piemonte
+004094;D894;Gambasca;;CN;Piemonte
+004095;D920;Garessio;;CN;Piemonte
+004096;D967;Genola;;CN;Piemonte
+004097;E111;Gorzegno;;CN;Piemonte
+004098;E115;Gottasecca;;CN;Piemonte
+004099;E118;Govone;;CN;Piemonte
+004100;E182;Grinzane Cavour;;CN;Piemonte
+004101;E251;Guarene;;CN;Piemonte
+004102;E282;Igliano;;CN;Piemonte
+004103;E327;Isasca;;CN;Piemonte
+004104;E406;Lagnasco;;CN;Piemonte
+004105;E430;La Morra;;CN;Piemonte
+004106;E540;Lequio Berria;;CN;Piemonte
+004107;E539;Lequio Tanaro;;CN;Piemonte
+004108;E546;Lesegno;;CN;Piemonte
+004109;E564;Levice;;CN;Piemonte
+004110;E597;Limone Piemonte;;CN;Piemonte
+004111;E615;Lisio;;CN;Piemonte
+004112;E789;Macra;;CN;Piemonte
+004113;E809;Magliano Alfieri;;CN;Piemonte
+004114;E808;Magliano Alpi;;CN;Piemonte
+004115;E887;Mango;;CN;Piemonte
+004116;E894;Manta;;CN;Piemonte
+004117;E939;Marene;;CN;Piemonte
+004118;E945;Margarita;;CN;Piemonte
+004119;E963;Marmora;;CN;Piemonte
+004120;E973;Marsaglia;;CN;Piemonte
+004121;E988;Martiniana Po;;CN;Piemonte
+004122;F114;Melle;;CN;Piemonte
+004123;F279;Moiola;;CN;Piemonte
+004124;F309;Mombarcaro;;CN;Piemonte
+004125;F312;Mombasiglio;;CN;Piemonte
+004126;F326;Monastero di Vasco;;CN;Piemonte
+004127;F329;Monasterolo Casotto;;CN;Piemonte
+004128;F330;Monasterolo di Savigliano;;CN;Piemonte
+004129;F338;Monchiero;;CN;Piemonte
+004130;F351;Mondovì;;CN;Piemonte
+004131;F355;Monesiglio;;CN;Piemonte
+004132;F358;Monforte d'Alba;;CN;Piemonte
+004133;F385;Montà;;CN;Piemonte
+004134;F405;Montaldo di Mondovì;;CN;Piemonte
+004135;F408;Montaldo Roero;;CN;Piemonte
+004136;F424;Montanera;;CN;Piemonte
+004137;F550;Montelupo Albese;;CN;Piemonte
+004138;F558;Montemale di Cuneo;;CN;Piemonte
+004139;F608;Monterosso Grana;;CN;Piemonte
+004140;F654;Monteu Roero;;CN;Piemonte
+004141;F666;Montezemolo;;CN;Piemonte
+004142;F669;Monticello d'Alba;;CN;Piemonte
+004143;F723;Moretta;;CN;Piemonte
+004144;F743;Morozzo;;CN;Piemonte
+004145;F809;Murazzano;;CN;Piemonte
+004146;F811;Murello;;CN;Piemonte
+004147;F846;Narzole;;CN;Piemonte
+004148;F863;Neive;;CN;Piemonte
+004149;F883;Neviglie;;CN;Piemonte
+004150;F894;Niella Belbo;;CN;Piemonte
+004151;F895;Niella Tanaro;;CN;Piemonte
+004152;F961;Novello;;CN;Piemonte
+004153;F972;Nucetto;;CN;Piemonte
+004154;G066;Oncino;;CN;Piemonte
+004155;G114;Ormea;;CN;Piemonte
+004156;G183;Ostana;;CN;Piemonte
+004157;G228;Paesana;;CN;Piemonte
+004158;G240;Pagno;;CN;Piemonte
+004159;G302;Pamparato;;CN;Piemonte
+004160;G339;Paroldo;;CN;Piemonte
+004161;G457;Perletto;;CN;Piemonte
+004162;G458;Perlo;;CN;Piemonte
+004163;G526;Peveragno;;CN;Piemonte
+004164;G532;Pezzolo Valle Uzzone;;CN;Piemonte
+004165;G561;Pianfei;;CN;Piemonte
+004166;G575;Piasco;;CN;Piemonte
+004167;G625;Pietraporzio;;CN;Piemonte
+004168;G683;Piobesi d'Alba;;CN;Piemonte
+004169;G697;Piozzo;;CN;Piemonte
+004170;G742;Pocapaglia;;CN;Piemonte
+004171;G800;Polonghera;;CN;Piemonte
+004172;G837;Pontechianale;;CN;Piemonte
+004173;G970;Pradleves;;CN;Piemonte
+004174;H011;Prazzo;;CN;Piemonte
+004175;H059;Priero;;CN;Piemonte
+004176;H068;Priocca;;CN;Piemonte
+004177;H069;Priola;;CN;Piemonte
+004178;H085;Prunetto;;CN;Piemonte
+004179;H150;Racconigi;;CN;Piemonte
+004180;H247;Revello;;CN;Piemonte
+004181;H285;Rifreddo;;CN;Piemonte
+004182;H326;Rittana;;CN;Piemonte
+004183;H362;Roaschia;;CN;Piemonte
+004184;H363;Roascio;;CN;Piemonte
+004185;H377;Robilante;;CN;Piemonte
+004186;H378;Roburent;;CN;Piemonte
+004187;H385;Roccabruna;;CN;Piemonte
+004188;H391;Rocca Cigliè;;CN;Piemonte
+004189;H395;Rocca de' Baldi;;CN;Piemonte
+004190;H407;Roccaforte Mondovì;;CN;Piemonte
+004191;H447;Roccasparvera;;CN;Piemonte
+004192;H453;Roccavione;;CN;Piemonte
+004193;H462;Rocchetta Belbo;;CN;Piemonte
+004194;H472;Roddi;;CN;Piemonte
+004195;H473;Roddino;;CN;Piemonte
+004196;H474;Rodello;;CN;Piemonte
+004197;H578;Rossana;;CN;Piemonte
+004198;H633;Ruffia;;CN;Piemonte
+004199;H695;Sale delle Langhe;;CN;Piemonte
+004200;H704;Sale San Giovanni;;CN;Piemonte
+004201;H710;Saliceto;;CN;Piemonte
+004202;H716;Salmour;;CN;Piemonte
+004203;H727;Saluzzo;;CN;Piemonte
+004204;H746;Sambuco;;CN;Piemonte
+004205;H755;Sampeyre;;CN;Piemonte
+004206;H770;San Benedetto Belbo;;CN;Piemonte
+004207;H812;San Damiano Macra;;CN;Piemonte
+004208;H851;Sanfrè;;CN;Piemonte
+004209;H852;Sanfront;;CN;Piemonte
+004210;I037;San Michele Mondovì;;CN;Piemonte
+004211;I210;Sant'Albano Stura;;CN;Piemonte
+004212;I316;Santa Vittoria d'Alba;;CN;Piemonte
+004213;I367;Santo Stefano Belbo;;CN;Piemonte
+004214;I372;Santo Stefano Roero;;CN;Piemonte
+004215;I470;Savigliano;;CN;Piemonte
+004216;I484;Scagnello;;CN;Piemonte
+004217;I512;Scarnafigi;;CN;Piemonte
+004218;I646;Serralunga d'Alba;;CN;Piemonte
+004219;I659;Serravalle Langhe;;CN;Piemonte
+004220;I750;Sinio;;CN;Piemonte
+004221;I817;Somano;;CN;Piemonte
+004222;I822;Sommariva del Bosco;;CN;Piemonte
+004223;I823;Sommariva Perno;;CN;Piemonte
+004224;I985;Stroppo;;CN;Piemonte
+004225;L048;Tarantasca;;CN;Piemonte
+004226;L252;Torre Bormida;;CN;Piemonte
+004227;L241;Torre Mondovì;;CN;Piemonte
+004228;L278;Torre San Giorgio;;CN;Piemonte
+004229;L281;Torresina;;CN;Piemonte
+004230;L367;Treiso;;CN;Piemonte
+004231;L410;Trezzo Tinella;;CN;Piemonte
+004232;L427;Trinità;;CN;Piemonte
+004233;L558;Valdieri;;CN;Piemonte
+004234;L580;Valgrana;;CN;Piemonte
+004235;L631;Valloriate;;CN;Piemonte
+004237;L729;Venasca;;CN;Piemonte
+004238;L758;Verduno;;CN;Piemonte
+004239;L771;Vernante;;CN;Piemonte
+004240;L804;Verzuolo;;CN;Piemonte
+004241;L817;Vezza d'Alba;;CN;Piemonte
+004242;L841;Vicoforte;;CN;Piemonte
+004243;L888;Vignolo;;CN;Piemonte
+004244;L942;Villafalletto;;CN;Piemonte
+004245;L974;Villanova Mondovì;;CN;Piemonte
+004246;L990;Villanova Solaro;;CN;Piemonte
+004247;M015;Villar San Costanzo;;CN;Piemonte
+004248;M055;Vinadio;;CN;Piemonte
+004249;M063;Viola;;CN;Piemonte
+004250;M136;Vottignasco;;CN;Piemonte
+005001;A072;Agliano Terme;;AT;Piemonte
+005002;A173;Albugnano;;AT;Piemonte
+005003;A312;Antignano;;AT;Piemonte
+005004;A352;Aramengo;;AT;Piemonte
+005005;A479;Asti;;AT;Piemonte
+005006;A527;Azzano d'Asti;;AT;Piemonte
+005007;A588;Baldichieri d'Asti;;AT;Piemonte
+005008;A770;Belveglio;;AT;Piemonte
+005009;A812;Berzano di San Pietro;;AT;Piemonte
+005010;B221;Bruno;;AT;Piemonte
+005011;B236;Bubbio;;AT;Piemonte
+005012;B306;Buttigliera d'Asti;;AT;Piemonte
+005013;B376;Calamandrana;;AT;Piemonte
+005014;B418;Calliano;;AT;Piemonte
+005015;B425;Calosso;;AT;Piemonte
+005016;B469;Camerano Casasco;;AT;Piemonte
+005017;B594;Canelli;;AT;Piemonte
+005018;B633;Cantarana;;AT;Piemonte
+005019;B707;Capriglio;;AT;Piemonte
+005020;B991;Casorzo;;AT;Piemonte
+005021;C022;Cassinasco;;AT;Piemonte
+005022;C049;Castagnole delle Lanze;;AT;Piemonte
+005023;C047;Castagnole Monferrato;;AT;Piemonte
+005024;C064;Castel Boglione;;AT;Piemonte
+005025;C127;Castell'Alfero;;AT;Piemonte
+005026;C154;Castellero;;AT;Piemonte
+005027;C161;Castelletto Molina;;AT;Piemonte
+005028;A300;Castello di Annone;;AT;Piemonte
+005029;C226;Castelnuovo Belbo;;AT;Piemonte
+005030;C230;Castelnuovo Calcea;;AT;Piemonte
+005031;C232;Castelnuovo Don Bosco;;AT;Piemonte
+005032;C253;Castel Rocchero;;AT;Piemonte
+005033;C438;Cellarengo;;AT;Piemonte
+005034;C440;Celle Enomondo;;AT;Piemonte
+005035;C528;Cerreto d'Asti;;AT;Piemonte
+005036;C533;Cerro Tanaro;;AT;Piemonte
+005037;C583;Cessole;;AT;Piemonte
+005038;C658;Chiusano d'Asti;;AT;Piemonte
+005039;C701;Cinaglio;;AT;Piemonte
+005040;C739;Cisterna d'Asti;;AT;Piemonte
+005041;C804;Coazzolo;;AT;Piemonte
+005042;C807;Cocconato;;AT;Piemonte
+005044;D046;Corsione;;AT;Piemonte
+005045;D050;Cortandone;;AT;Piemonte
+005046;D051;Cortanze;;AT;Piemonte
+005047;D052;Cortazzone;;AT;Piemonte
+005048;D072;Cortiglione;;AT;Piemonte
+005049;D101;Cossombrato;;AT;Piemonte
+005050;D119;Costigliole d'Asti;;AT;Piemonte
+005051;D207;Cunico;;AT;Piemonte
+005052;D388;Dusino San Michele;;AT;Piemonte
+005053;D554;Ferrere;;AT;Piemonte
+005054;D678;Fontanile;;AT;Piemonte
+005055;D802;Frinco;;AT;Piemonte
+005056;E134;Grana;;AT;Piemonte
+005057;E159;Grazzano Badoglio;;AT;Piemonte
+005058;E295;Incisa Scapaccino;;AT;Piemonte
+005059;E338;Isola d'Asti;;AT;Piemonte
+005060;E633;Loazzolo;;AT;Piemonte
+005061;E917;Maranzana;;AT;Piemonte
+005062;E944;Maretto;;AT;Piemonte
+005063;F254;Moasca;;AT;Piemonte
+005064;F308;Mombaldone;;AT;Piemonte
+005065;F311;Mombaruzzo;;AT;Piemonte
+005066;F316;Mombercelli;;AT;Piemonte
+005067;F323;Monale;;AT;Piemonte
+005068;F325;Monastero Bormida;;AT;Piemonte
+005069;F336;Moncalvo;;AT;Piemonte
+005070;F343;Moncucco Torinese;;AT;Piemonte
+005071;F361;Mongardino;;AT;Piemonte
+005072;F386;Montabone;;AT;Piemonte
+005073;F390;Montafia;;AT;Piemonte
+005074;F409;Montaldo Scarampi;;AT;Piemonte
+005075;F468;Montechiaro d'Asti;;AT;Piemonte
+005076;F527;Montegrosso d'Asti;;AT;Piemonte
+005077;F556;Montemagno;;AT;Piemonte
+005079;F709;Moransengo;;AT;Piemonte
+005080;F902;Nizza Monferrato;;AT;Piemonte
+005081;G048;Olmo Gentile;;AT;Piemonte
+005082;G358;Passerano Marmorito;;AT;Piemonte
+005083;G430;Penango;;AT;Piemonte
+005084;G593;Piea;;AT;Piemonte
+005085;G676;Pino d'Asti;;AT;Piemonte
+005086;G692;Piovà Massaia;;AT;Piemonte
+005087;G894;Portacomaro;;AT;Piemonte
+005088;H102;Quaranti;;AT;Piemonte
+005089;H219;Refrancore;;AT;Piemonte
+005090;H250;Revigliasco d'Asti;;AT;Piemonte
+005091;H366;Roatto;;AT;Piemonte
+005092;H376;Robella;;AT;Piemonte
+005093;H392;Rocca d'Arazzo;;AT;Piemonte
+005094;H451;Roccaverano;;AT;Piemonte
+005095;H466;Rocchetta Palafea;;AT;Piemonte
+005096;H468;Rocchetta Tanaro;;AT;Piemonte
+005097;H811;San Damiano d'Asti;;AT;Piemonte
+005098;H899;San Giorgio Scarampi;;AT;Piemonte
+005099;H987;San Martino Alfieri;;AT;Piemonte
+005100;I017;San Marzano Oliveto;;AT;Piemonte
+005101;I076;San Paolo Solbrito;;AT;Piemonte
+005103;I555;Scurzolengo;;AT;Piemonte
+005104;I637;Serole;;AT;Piemonte
+005105;I678;Sessame;;AT;Piemonte
+005106;I698;Settime;;AT;Piemonte
+005107;I781;Soglio;;AT;Piemonte
+005108;L168;Tigliole;;AT;Piemonte
+005109;L203;Tonco;;AT;Piemonte
+005110;L204;Tonengo;;AT;Piemonte
+005111;L531;Vaglio Serra;;AT;Piemonte
+005112;L574;Valfenera;;AT;Piemonte
+005113;L807;Vesime;;AT;Piemonte
+005114;L829;Viale;;AT;Piemonte
+005115;L834;Viarigi;;AT;Piemonte
+005116;L879;Vigliano d'Asti;;AT;Piemonte
+005117;L945;Villafranca d'Asti;;AT;Piemonte
+005118;L984;Villanova d'Asti;;AT;Piemonte
+005119;M019;Villa San Secondo;;AT;Piemonte
+005120;M058;Vinchio;;AT;Piemonte
+005121;M302;Montiglio Monferrato;;AT;Piemonte
+006001;A052;Acqui Terme;;AL;Piemonte
+006002;A146;Albera Ligure;;AL;Piemonte
+006003;A182;Alessandria;;AL;Piemonte
+006004;A189;Alfiano Natta;;AL;Piemonte
+006005;A197;Alice Bel Colle;;AL;Piemonte
+006007;A227;Altavilla Monferrato;;AL;Piemonte
+006008;A245;Alzano Scrivia;;AL;Piemonte
+006009;A436;Arquata Scrivia;;AL;Piemonte
+006010;A523;Avolasca;;AL;Piemonte
+006011;A605;Balzola;;AL;Piemonte
+006012;A689;Basaluzzo;;AL;Piemonte
+006013;A708;Bassignana;;AL;Piemonte
+006014;A738;Belforte Monferrato;;AL;Piemonte
+006015;A793;Bergamasco;;AL;Piemonte
+006016;A813;Berzano di Tortona;;AL;Piemonte
+006017;A889;Bistagno;;AL;Piemonte
+006018;A998;Borghetto di Borbera;;AL;Piemonte
+006019;B029;Borgoratto Alessandrino;;AL;Piemonte
+006020;B037;Borgo San Martino;;AL;Piemonte
+006021;B071;Bosco Marengo;;AL;Piemonte
+006022;B080;Bosio;;AL;Piemonte
+006023;B109;Bozzole;;AL;Piemonte
+006024;B179;Brignano-Frascata;;AL;Piemonte
+006025;B311;Cabella Ligure;;AL;Piemonte
+006026;B453;Camagna Monferrato;;AL;Piemonte
+006027;B482;Camino;;AL;Piemonte
+006028;B629;Cantalupo Ligure;;AL;Piemonte
+006029;B701;Capriata d'Orba;;AL;Piemonte
+006030;B736;Carbonara Scrivia;;AL;Piemonte
+006031;B765;Carentino;;AL;Piemonte
+006032;B769;Carezzano;;AL;Piemonte
+006033;B818;Carpeneto;;AL;Piemonte
+006034;B836;Carrega Ligure;;AL;Piemonte
+006035;B840;Carrosio;;AL;Piemonte
+006036;B847;Cartosio;;AL;Piemonte
+006037;B870;Casal Cermelli;;AL;Piemonte
+006038;B882;Casaleggio Boiro;;AL;Piemonte
+006039;B885;Casale Monferrato;;AL;Piemonte
+006040;B902;Casalnoceto;;AL;Piemonte
+006041;B941;Casasco;;AL;Piemonte
+006043;C027;Cassine;;AL;Piemonte
+006044;C030;Cassinelle;;AL;Piemonte
+006045;C137;Castellania Coppi;;AL;Piemonte
+006046;C142;Castellar Guidobono;;AL;Piemonte
+006047;C148;Castellazzo Bormida;;AL;Piemonte
+006048;C156;Castelletto d'Erro;;AL;Piemonte
+006049;C158;Castelletto d'Orba;;AL;Piemonte
+006050;C160;Castelletto Merli;;AL;Piemonte
+006051;C162;Castelletto Monferrato;;AL;Piemonte
+006052;C229;Castelnuovo Bormida;;AL;Piemonte
+006053;C243;Castelnuovo Scrivia;;AL;Piemonte
+006054;C274;Castelspina;;AL;Piemonte
+006055;C387;Cavatore;;AL;Piemonte
+006056;C432;Cella Monte;;AL;Piemonte
+006057;C503;Cereseto;;AL;Piemonte
+006058;C507;Cerreto Grue;;AL;Piemonte
+006059;C531;Cerrina Monferrato;;AL;Piemonte
+006060;C962;Coniolo;;AL;Piemonte
+006061;C977;Conzano;;AL;Piemonte
+006062;D102;Costa Vescovato;;AL;Piemonte
+006063;D149;Cremolino;;AL;Piemonte
+006065;D272;Denice;;AL;Piemonte
+006066;D277;Dernice;;AL;Piemonte
+006067;D447;Fabbrica Curone;;AL;Piemonte
+006068;D528;Felizzano;;AL;Piemonte
+006069;D559;Fraconalto;;AL;Piemonte
+006070;D759;Francavilla Bisio;;AL;Piemonte
+006071;D770;Frascaro;;AL;Piemonte
+006072;D777;Frassinello Monferrato;;AL;Piemonte
+006073;D780;Frassineto Po;;AL;Piemonte
+006074;D797;Fresonara;;AL;Piemonte
+006075;D813;Frugarolo;;AL;Piemonte
+006076;D814;Fubine Monferrato;;AL;Piemonte
+006077;D835;Gabiano;;AL;Piemonte
+006078;D890;Gamalero;;AL;Piemonte
+006079;D910;Garbagna;;AL;Piemonte
+006081;D944;Gavi;;AL;Piemonte
+006082;E015;Giarole;;AL;Piemonte
+006083;E164;Gremiasco;;AL;Piemonte
+006084;E188;Grognardo;;AL;Piemonte
+006085;E191;Grondona;;AL;Piemonte
+006086;E255;Guazzora;;AL;Piemonte
+006087;E360;Isola Sant'Antonio;;AL;Piemonte
+006088;E543;Lerma;;AL;Piemonte
+006090;E870;Malvicino;;AL;Piemonte
+006091;F015;Masio;;AL;Piemonte
+006092;F096;Melazzo;;AL;Piemonte
+006093;F131;Merana;;AL;Piemonte
+006094;F232;Mirabello Monferrato;;AL;Piemonte
+006095;F281;Molare;;AL;Piemonte
+006096;F293;Molino dei Torti;;AL;Piemonte
+006097;F313;Mombello Monferrato;;AL;Piemonte
+006098;F320;Momperone;;AL;Piemonte
+006099;F337;Moncestino;;AL;Piemonte
+006100;F365;Mongiardino Ligure;;AL;Piemonte
+006101;F374;Monleale;;AL;Piemonte
+006102;F387;Montacuto;;AL;Piemonte
+006103;F403;Montaldeo;;AL;Piemonte
+006104;F404;Montaldo Bormida;;AL;Piemonte
+006105;F455;Montecastello;;AL;Piemonte
+006106;F469;Montechiaro d'Acqui;;AL;Piemonte
+006107;F518;Montegioco;;AL;Piemonte
+006108;F562;Montemarzino;;AL;Piemonte
+006109;F707;Morano sul Po;;AL;Piemonte
+006110;F713;Morbello;;AL;Piemonte
+006111;F737;Mornese;;AL;Piemonte
+006112;F751;Morsasco;;AL;Piemonte
+006113;F814;Murisengo;;AL;Piemonte
+006114;F965;Novi Ligure;;AL;Piemonte
+006115;F995;Occimiano;;AL;Piemonte
+006116;F997;Odalengo Grande;;AL;Piemonte
+006117;F998;Odalengo Piccolo;;AL;Piemonte
+006118;G042;Olivola;;AL;Piemonte
+006119;G124;Orsara Bormida;;AL;Piemonte
+006120;G193;Ottiglio;;AL;Piemonte
+006121;G197;Ovada;;AL;Piemonte
+006122;G199;Oviglio;;AL;Piemonte
+006123;G204;Ozzano Monferrato;;AL;Piemonte
+006124;G215;Paderna;;AL;Piemonte
+006125;G334;Pareto;;AL;Piemonte
+006126;G338;Parodi Ligure;;AL;Piemonte
+006127;G367;Pasturana;;AL;Piemonte
+006128;G397;Pecetto di Valenza;;AL;Piemonte
+006129;G619;Pietra Marazzi;;AL;Piemonte
+006131;G807;Pomaro Monferrato;;AL;Piemonte
+006132;G839;Pontecurone;;AL;Piemonte
+006133;G858;Pontestura;;AL;Piemonte
+006134;G861;Ponti;;AL;Piemonte
+006135;G872;Ponzano Monferrato;;AL;Piemonte
+006136;G877;Ponzone;;AL;Piemonte
+006137;G960;Pozzol Groppo;;AL;Piemonte
+006138;G961;Pozzolo Formigaro;;AL;Piemonte
+006139;G987;Prasco;;AL;Piemonte
+006140;H021;Predosa;;AL;Piemonte
+006141;H104;Quargnento;;AL;Piemonte
+006142;H121;Quattordio;;AL;Piemonte
+006143;H272;Ricaldone;;AL;Piemonte
+006144;H334;Rivalta Bormida;;AL;Piemonte
+006145;H343;Rivarone;;AL;Piemonte
+006146;H406;Roccaforte Ligure;;AL;Piemonte
+006147;H414;Rocca Grimalda;;AL;Piemonte
+006148;H465;Rocchetta Ligure;;AL;Piemonte
+006149;H569;Rosignano Monferrato;;AL;Piemonte
+006150;H677;Sala Monferrato;;AL;Piemonte
+006151;H694;Sale;;AL;Piemonte
+006152;H810;San Cristoforo;;AL;Piemonte
+006153;H878;San Giorgio Monferrato;;AL;Piemonte
+006154;I144;San Salvatore Monferrato;;AL;Piemonte
+006155;I150;San Sebastiano Curone;;AL;Piemonte
+006156;I190;Sant'Agata Fossili;;AL;Piemonte
+006157;I429;Sardigliano;;AL;Piemonte
+006158;I432;Sarezzano;;AL;Piemonte
+006159;I645;Serralunga di Crea;;AL;Piemonte
+006160;I657;Serravalle Scrivia;;AL;Piemonte
+006161;I711;Sezzadio;;AL;Piemonte
+006162;I738;Silvano d'Orba;;AL;Piemonte
+006163;I798;Solero;;AL;Piemonte
+006164;I808;Solonghello;;AL;Piemonte
+006165;I901;Spigno Monferrato;;AL;Piemonte
+006166;I911;Spineto Scrivia;;AL;Piemonte
+006167;I941;Stazzano;;AL;Piemonte
+006168;I977;Strevi;;AL;Piemonte
+006169;L027;Tagliolo Monferrato;;AL;Piemonte
+006170;L059;Tassarolo;;AL;Piemonte
+006171;L139;Terruggia;;AL;Piemonte
+006172;L143;Terzo;;AL;Piemonte
+006173;L165;Ticineto;;AL;Piemonte
+006174;L304;Tortona;;AL;Piemonte
+006175;L403;Treville;;AL;Piemonte
+006176;L432;Trisobbio;;AL;Piemonte
+006177;L570;Valenza;;AL;Piemonte
+006178;L633;Valmacca;;AL;Piemonte
+006179;L881;Vignale Monferrato;;AL;Piemonte
+006180;L887;Vignole Borbera;;AL;Piemonte
+006181;L904;Viguzzolo;;AL;Piemonte
+006182;L931;Villadeati;;AL;Piemonte
+006183;L963;Villalvernia;;AL;Piemonte
+006184;L970;Villamiroglio;;AL;Piemonte
+006185;L972;Villanova Monferrato;;AL;Piemonte
+006186;M009;Villaromagnano;;AL;Piemonte
+006187;M077;Visone;;AL;Piemonte
+006188;M120;Volpedo;;AL;Piemonte
+006189;M121;Volpeglino;;AL;Piemonte
+006190;M123;Voltaggio;;AL;Piemonte
+006191;M388;Cassano Spinola;;AL;Piemonte
+006192;M397;Alluvioni Piovera;;AL;Piemonte
+006193;M420;Lu e Cuccaro Monferrato;;AL;Piemonte
+007001;A205;Allein;;AO;Valle d'Aosta/Vallée d'Aoste
+007002;A305;Antey-Saint-André;;AO;Valle d'Aosta/Vallée d'Aoste
+007003;A326;Aosta;;AO;Valle d'Aosta/Vallée d'Aoste
+007004;A424;Arnad;;AO;Valle d'Aosta/Vallée d'Aoste
+007005;A452;Arvier;;AO;Valle d'Aosta/Vallée d'Aoste
+007006;A521;Avise;;AO;Valle d'Aosta/Vallée d'Aoste
+007007;A094;Ayas;;AO;Valle d'Aosta/Vallée d'Aoste
+007008;A108;Aymavilles;;AO;Valle d'Aosta/Vallée d'Aoste
+007009;A643;Bard;;AO;Valle d'Aosta/Vallée d'Aoste
+007010;A877;Bionaz;;AO;Valle d'Aosta/Vallée d'Aoste
+007011;B192;Brissogne;;AO;Valle d'Aosta/Vallée d'Aoste
+007012;B230;Brusson;;AO;Valle d'Aosta/Vallée d'Aoste
+007013;C593;Challand-Saint-Anselme;;AO;Valle d'Aosta/Vallée d'Aoste
+007014;C594;Challand-Saint-Victor;;AO;Valle d'Aosta/Vallée d'Aoste
+007015;C595;Chambave;;AO;Valle d'Aosta/Vallée d'Aoste
+007016;B491;Chamois;;AO;Valle d'Aosta/Vallée d'Aoste
+007017;C596;Champdepraz;;AO;Valle d'Aosta/Vallée d'Aoste
+007018;B540;Champorcher;;AO;Valle d'Aosta/Vallée d'Aoste
+007019;C598;Charvensod;;AO;Valle d'Aosta/Vallée d'Aoste
+007020;C294;Châtillon;;AO;Valle d'Aosta/Vallée d'Aoste
+007021;C821;Cogne;;AO;Valle d'Aosta/Vallée d'Aoste
+007022;D012;Courmayeur;;AO;Valle d'Aosta/Vallée d'Aoste
+007023;D338;Donnas;;AO;Valle d'Aosta/Vallée d'Aoste
+007024;D356;Doues;;AO;Valle d'Aosta/Vallée d'Aoste
+007025;D402;Emarèse;;AO;Valle d'Aosta/Vallée d'Aoste
+007026;D444;Etroubles;;AO;Valle d'Aosta/Vallée d'Aoste
+007027;D537;Fénis;;AO;Valle d'Aosta/Vallée d'Aoste
+007028;D666;Fontainemore;;AO;Valle d'Aosta/Vallée d'Aoste
+007029;D839;Gaby;;AO;Valle d'Aosta/Vallée d'Aoste
+007030;E029;Gignod;;AO;Valle d'Aosta/Vallée d'Aoste
+007031;E165;Gressan;;AO;Valle d'Aosta/Vallée d'Aoste
+007032;E167;Gressoney-La-Trinité;;AO;Valle d'Aosta/Vallée d'Aoste
+007033;E168;Gressoney-Saint-Jean;;AO;Valle d'Aosta/Vallée d'Aoste
+007034;E273;Hône;;AO;Valle d'Aosta/Vallée d'Aoste
+007035;E306;Introd;;AO;Valle d'Aosta/Vallée d'Aoste
+007036;E369;Issime;;AO;Valle d'Aosta/Vallée d'Aoste
+007037;E371;Issogne;;AO;Valle d'Aosta/Vallée d'Aoste
+007038;E391;Jovençan;;AO;Valle d'Aosta/Vallée d'Aoste
+007039;A308;La Magdeleine;;AO;Valle d'Aosta/Vallée d'Aoste
+007040;E458;La Salle;;AO;Valle d'Aosta/Vallée d'Aoste
+007041;E470;La Thuile;;AO;Valle d'Aosta/Vallée d'Aoste
+007042;E587;Lillianes;;AO;Valle d'Aosta/Vallée d'Aoste
+007043;F367;Montjovet;;AO;Valle d'Aosta/Vallée d'Aoste
+007044;F726;Morgex;;AO;Valle d'Aosta/Vallée d'Aoste
+007045;F987;Nus;;AO;Valle d'Aosta/Vallée d'Aoste
+007046;G045;Ollomont;;AO;Valle d'Aosta/Vallée d'Aoste
+007047;G012;Oyace;;AO;Valle d'Aosta/Vallée d'Aoste
+007048;G459;Perloz;;AO;Valle d'Aosta/Vallée d'Aoste
+007049;G794;Pollein;;AO;Valle d'Aosta/Vallée d'Aoste
+007050;G545;Pontboset;;AO;Valle d'Aosta/Vallée d'Aoste
+007051;G860;Pontey;;AO;Valle d'Aosta/Vallée d'Aoste
+007052;G854;Pont-Saint-Martin;;AO;Valle d'Aosta/Vallée d'Aoste
+007053;H042;Pré-Saint-Didier;;AO;Valle d'Aosta/Vallée d'Aoste
+007054;H110;Quart;;AO;Valle d'Aosta/Vallée d'Aoste
+007055;H262;Rhêmes-Notre-Dame;;AO;Valle d'Aosta/Vallée d'Aoste
+007056;H263;Rhêmes-Saint-Georges;;AO;Valle d'Aosta/Vallée d'Aoste
+007057;H497;Roisan;;AO;Valle d'Aosta/Vallée d'Aoste
+007058;H669;Saint-Christophe;;AO;Valle d'Aosta/Vallée d'Aoste
+007059;H670;Saint-Denis;;AO;Valle d'Aosta/Vallée d'Aoste
+007060;H671;Saint-Marcel;;AO;Valle d'Aosta/Vallée d'Aoste
+007061;H672;Saint-Nicolas;;AO;Valle d'Aosta/Vallée d'Aoste
+007062;H673;Saint-Oyen;;AO;Valle d'Aosta/Vallée d'Aoste
+007063;H674;Saint-Pierre;;AO;Valle d'Aosta/Vallée d'Aoste
+007064;H675;Saint-Rhémy-en-Bosses;;AO;Valle d'Aosta/Vallée d'Aoste
+007065;H676;Saint-Vincent;;AO;Valle d'Aosta/Vallée d'Aoste
+007066;I442;Sarre;;AO;Valle d'Aosta/Vallée d'Aoste
+007067;L217;Torgnon;;AO;Valle d'Aosta/Vallée d'Aoste
+007068;L582;Valgrisenche;;AO;Valle d'Aosta/Vallée d'Aoste
+007069;L643;Valpelline;;AO;Valle d'Aosta/Vallée d'Aoste
+007070;L647;Valsavarenche;;AO;Valle d'Aosta/Vallée d'Aoste
+007071;L654;Valtournenche;;AO;Valle d'Aosta/Vallée d'Aoste
+007072;L783;Verrayes;;AO;Valle d'Aosta/Vallée d'Aoste
+007073;C282;Verrès;;AO;Valle d'Aosta/Vallée d'Aoste
+007074;L981;Villeneuve;;AO;Valle d'Aosta/Vallée d'Aoste
+008001;A111;Airole;;IM;Liguria
+008002;A338;Apricale;;IM;Liguria
+008003;A344;Aquila d'Arroscia;;IM;Liguria
+008004;A418;Armo;;IM;Liguria
+008005;A499;Aurigo;;IM;Liguria
+008006;A536;Badalucco;;IM;Liguria
+008007;A581;Bajardo;;IM;Liguria
+008008;A984;Bordighera;;IM;Liguria
+008009;A993;Borghetto d'Arroscia;;IM;Liguria
+008010;B020;Borgomaro;;IM;Liguria
+008011;B559;Camporosso;;IM;Liguria
+008012;B734;Caravonica;;IM;Liguria
+008014;C143;Castellaro;;IM;Liguria
+008015;C110;Castel Vittorio;;IM;Liguria
+008016;C511;Ceriana;;IM;Liguria
+008017;C559;Cervo;;IM;Liguria
+008018;C578;Cesio;;IM;Liguria
+008019;C657;Chiusanico;;IM;Liguria
+008020;C660;Chiusavecchia;;IM;Liguria
+008021;C718;Cipressa;;IM;Liguria
+008022;C755;Civezza;;IM;Liguria
+008023;D087;Cosio d'Arroscia;;IM;Liguria
+008024;D114;Costarainera;;IM;Liguria
+008025;D293;Diano Arentino;;IM;Liguria
+008026;D296;Diano Castello;;IM;Liguria
+008027;D297;Diano Marina;;IM;Liguria
+008028;D298;Diano San Pietro;;IM;Liguria
+008029;D318;Dolceacqua;;IM;Liguria
+008030;D319;Dolcedo;;IM;Liguria
+008031;E290;Imperia;;IM;Liguria
+008032;E346;Isolabona;;IM;Liguria
+008033;E719;Lucinasco;;IM;Liguria
+008034;F123;Mendatica;;IM;Liguria
+008035;F290;Molini di Triora;;IM;Liguria
+008037;F528;Montegrosso Pian Latte;;IM;Liguria
+008038;G041;Olivetta San Michele;;IM;Liguria
+008039;G164;Ospedaletti;;IM;Liguria
+008040;G454;Perinaldo;;IM;Liguria
+008041;G607;Pietrabruna;;IM;Liguria
+008042;G632;Pieve di Teco;;IM;Liguria
+008043;G660;Pigna;;IM;Liguria
+008044;G814;Pompeiana;;IM;Liguria
+008045;G840;Pontedassio;;IM;Liguria
+008046;G890;Pornassio;;IM;Liguria
+008047;H027;Prelà;;IM;Liguria
+008048;H180;Ranzo;;IM;Liguria
+008049;H257;Rezzo;;IM;Liguria
+008050;H328;Riva Ligure;;IM;Liguria
+008051;H460;Rocchetta Nervina;;IM;Liguria
+008052;H763;San Bartolomeo al Mare;;IM;Liguria
+008053;H780;San Biagio della Cima;;IM;Liguria
+008054;H957;San Lorenzo al Mare;;IM;Liguria
+008055;I138;Sanremo;;IM;Liguria
+008056;I365;Santo Stefano al Mare;;IM;Liguria
+008057;I556;Seborga;;IM;Liguria
+008058;I796;Soldano;;IM;Liguria
+008059;L024;Taggia;;IM;Liguria
+008060;L146;Terzorio;;IM;Liguria
+008061;L430;Triora;;IM;Liguria
+008062;L596;Vallebona;;IM;Liguria
+008063;L599;Vallecrosia;;IM;Liguria
+008064;L693;Vasia;;IM;Liguria
+008065;L741;Ventimiglia;;IM;Liguria
+008066;L809;Vessalico;;IM;Liguria
+008067;L943;Villa Faraldi;;IM;Liguria
+008068;M387;Montalto Carpasio;;IM;Liguria
+009001;A122;Alassio;;SV;Liguria
+009002;A145;Albenga;;SV;Liguria
+009003;A165;Albissola Marina;;SV;Liguria
+009004;A166;Albisola Superiore;;SV;Liguria
+009005;A226;Altare;;SV;Liguria
+009006;A278;Andora;;SV;Liguria
+009007;A422;Arnasco;;SV;Liguria
+009008;A593;Balestrino;;SV;Liguria
+009009;A647;Bardineto;;SV;Liguria
+009010;A796;Bergeggi;;SV;Liguria
+009011;A931;Boissano;;SV;Liguria
+009012;A999;Borghetto Santo Spirito;;SV;Liguria
+009013;B005;Borgio Verezzi;;SV;Liguria
+009014;B048;Bormida;;SV;Liguria
+009015;B369;Cairo Montenotte;;SV;Liguria
+009016;B409;Calice Ligure;;SV;Liguria
+009017;B416;Calizzano;;SV;Liguria
+009018;B748;Carcare;;SV;Liguria
+009019;B927;Casanova Lerrone;;SV;Liguria
+009020;C063;Castelbianco;;SV;Liguria
+009021;C276;Castelvecchio di Rocca Barbena;;SV;Liguria
+009022;C443;Celle Ligure;;SV;Liguria
+009023;C463;Cengio;;SV;Liguria
+009024;C510;Ceriale;;SV;Liguria
+009025;C729;Cisano sul Neva;;SV;Liguria
+009026;D095;Cosseria;;SV;Liguria
+009027;D264;Dego;;SV;Liguria
+009028;D424;Erli;;SV;Liguria
+009029;D600;Finale Ligure;;SV;Liguria
+009030;D927;Garlenda;;SV;Liguria
+009031;E064;Giustenice;;SV;Liguria
+009032;E066;Giusvalla;;SV;Liguria
+009033;E414;Laigueglia;;SV;Liguria
+009034;E632;Loano;;SV;Liguria
+009035;E816;Magliolo;;SV;Liguria
+009036;E860;Mallare;;SV;Liguria
+009037;F046;Massimino;;SV;Liguria
+009038;F213;Millesimo;;SV;Liguria
+009039;F226;Mioglia;;SV;Liguria
+009040;F813;Murialdo;;SV;Liguria
+009041;F847;Nasino;;SV;Liguria
+009042;F926;Noli;;SV;Liguria
+009043;G076;Onzo;;SV;Liguria
+009044;D522;Orco Feglino;;SV;Liguria
+009045;G144;Ortovero;;SV;Liguria
+009046;G155;Osiglia;;SV;Liguria
+009047;G281;Pallare;;SV;Liguria
+009048;G542;Piana Crixia;;SV;Liguria
+009049;G605;Pietra Ligure;;SV;Liguria
+009050;G741;Plodio;;SV;Liguria
+009051;G866;Pontinvrea;;SV;Liguria
+009052;H126;Quiliano;;SV;Liguria
+009053;H266;Rialto;;SV;Liguria
+009054;H452;Roccavignale;;SV;Liguria
+009055;I453;Sassello;;SV;Liguria
+009056;I480;Savona;;SV;Liguria
+009057;I926;Spotorno;;SV;Liguria
+009058;I946;Stella;;SV;Liguria
+009059;I947;Stellanello;;SV;Liguria
+009060;L152;Testico;;SV;Liguria
+009061;L190;Toirano;;SV;Liguria
+009062;L315;Tovo San Giacomo;;SV;Liguria
+009063;L499;Urbe;;SV;Liguria
+009064;L528;Vado Ligure;;SV;Liguria
+009065;L675;Varazze;;SV;Liguria
+009066;L730;Vendone;;SV;Liguria
+009067;L823;Vezzi Portio;;SV;Liguria
+009068;L975;Villanova d'Albenga;;SV;Liguria
+009069;M197;Zuccarello;;SV;Liguria
+010001;A388;Arenzano;;GE;Liguria
+010002;A506;Avegno;;GE;Liguria
+010003;A658;Bargagli;;GE;Liguria
+010004;A922;Bogliasco;;GE;Liguria
+010005;B067;Borzonasca;;GE;Liguria
+010006;B282;Busalla;;GE;Liguria
+010007;B490;Camogli;;GE;Liguria
+010008;B538;Campo Ligure;;GE;Liguria
+010009;B551;Campomorone;;GE;Liguria
+010010;B726;Carasco;;GE;Liguria
+010011;B939;Casarza Ligure;;GE;Liguria
+010012;B956;Casella;;GE;Liguria
+010013;C302;Castiglione Chiavarese;;GE;Liguria
+010014;C481;Ceranesi;;GE;Liguria
+010015;C621;Chiavari;;GE;Liguria
+010016;C673;Cicagna;;GE;Liguria
+010017;C823;Cogoleto;;GE;Liguria
+010018;C826;Cogorno;;GE;Liguria
+010019;C995;Coreglia Ligure;;GE;Liguria
+010020;D175;Crocefieschi;;GE;Liguria
+010021;D255;Davagna;;GE;Liguria
+010022;D509;Fascia;;GE;Liguria
+010023;D512;Favale di Malvaro;;GE;Liguria
+010024;D677;Fontanigorda;;GE;Liguria
+010025;D969;Genova;;GE;Liguria
+010026;E109;Gorreto;;GE;Liguria
+010027;E341;Isola del Cantone;;GE;Liguria
+010028;E488;Lavagna;;GE;Liguria
+010029;E519;Leivi;;GE;Liguria
+010030;E695;Lorsica;;GE;Liguria
+010031;E737;Lumarzo;;GE;Liguria
+010032;F020;Masone;;GE;Liguria
+010033;F098;Mele;;GE;Liguria
+010034;F173;Mezzanego;;GE;Liguria
+010035;F202;Mignanego;;GE;Liguria
+010036;F256;Moconesi;;GE;Liguria
+010037;F354;Moneglia;;GE;Liguria
+010038;F445;Montebruno;;GE;Liguria
+010039;F682;Montoggio;;GE;Liguria
+010040;F858;Ne;;GE;Liguria
+010041;F862;Neirone;;GE;Liguria
+010042;G093;Orero;;GE;Liguria
+010043;G646;Pieve Ligure;;GE;Liguria
+010044;G913;Portofino;;GE;Liguria
+010045;H073;Propata;;GE;Liguria
+010046;H183;Rapallo;;GE;Liguria
+010047;H212;Recco;;GE;Liguria
+010048;H258;Rezzoaglio;;GE;Liguria
+010049;H536;Ronco Scrivia;;GE;Liguria
+010050;H546;Rondanina;;GE;Liguria
+010051;H581;Rossiglione;;GE;Liguria
+010052;H599;Rovegno;;GE;Liguria
+010053;H802;San Colombano Certenoli;;GE;Liguria
+010054;I225;Santa Margherita Ligure;;GE;Liguria
+010055;I346;Sant'Olcese;;GE;Liguria
+010056;I368;Santo Stefano d'Aveto;;GE;Liguria
+010057;I475;Savignone;;GE;Liguria
+010058;I640;Serra Riccò;;GE;Liguria
+010059;I693;Sestri Levante;;GE;Liguria
+010060;I852;Sori;;GE;Liguria
+010061;L167;Tiglieto;;GE;Liguria
+010062;L298;Torriglia;;GE;Liguria
+010063;L416;Tribogna;;GE;Liguria
+010064;L507;Uscio;;GE;Liguria
+010065;L546;Valbrevenna;;GE;Liguria
+010066;M105;Vobbia;;GE;Liguria
+010067;M182;Zoagli;;GE;Liguria
+011001;A261;Ameglia;;SP;Liguria
+011002;A373;Arcola;;SP;Liguria
+011003;A836;Beverino;;SP;Liguria
+011004;A932;Bolano;;SP;Liguria
+011005;A961;Bonassola;;SP;Liguria
+011006;A992;Borghetto di Vara;;SP;Liguria
+011007;B214;Brugnato;;SP;Liguria
+011008;B410;Calice al Cornoviglio;;SP;Liguria
+011009;B838;Carro;;SP;Liguria
+011010;B839;Carrodano;;SP;Liguria
+011011;C240;Castelnuovo Magra;;SP;Liguria
+011012;D265;Deiva Marina;;SP;Liguria
+011013;D655;Follo;;SP;Liguria
+011014;D758;Framura;;SP;Liguria
+011015;E463;La Spezia;;SP;Liguria
+011016;E542;Lerici;;SP;Liguria
+011017;E560;Levanto;;SP;Liguria
+011018;E842;Maissana;;SP;Liguria
+011019;F609;Monterosso al Mare;;SP;Liguria
+011020;G143;Luni;;SP;Liguria
+011021;G664;Pignone;;SP;Liguria
+011022;G925;Portovenere;;SP;Liguria
+011023;H275;Riccò del Golfo di Spezia;;SP;Liguria
+011024;H304;Riomaggiore;;SP;Liguria
+011025;H461;Rocchetta di Vara;;SP;Liguria
+011026;I363;Santo Stefano di Magra;;SP;Liguria
+011027;I449;Sarzana;;SP;Liguria
+011028;E070;Sesta Godano;;SP;Liguria
+011029;L681;Varese Ligure;;SP;Liguria
+011030;L774;Vernazza;;SP;Liguria
+011031;L819;Vezzano Ligure;;SP;Liguria
+011032;M177;Zignago;;SP;Liguria
+012001;A085;Agra;;VA;Lombardia
+012002;A167;Albizzate;;VA;Lombardia
+012003;A290;Angera;;VA;Lombardia
+012004;A371;Arcisate;;VA;Lombardia
+012005;A441;Arsago Seprio;;VA;Lombardia
+012006;A531;Azzate;;VA;Lombardia
+012007;A532;Azzio;;VA;Lombardia
+012008;A619;Barasso;;VA;Lombardia
+012009;A645;Bardello;;VA;Lombardia
+012010;A728;Bedero Valcuvia;;VA;Lombardia
+012011;A819;Besano;;VA;Lombardia
+012012;A825;Besnate;;VA;Lombardia
+012013;A826;Besozzo;;VA;Lombardia
+012014;A845;Biandronno;;VA;Lombardia
+012015;A891;Bisuschio;;VA;Lombardia
+012016;A918;Bodio Lomnago;;VA;Lombardia
+012017;B126;Brebbia;;VA;Lombardia
+012018;B131;Bregano;;VA;Lombardia
+012019;B150;Brenta;;VA;Lombardia
+012020;B166;Brezzo di Bedero;;VA;Lombardia
+012021;B182;Brinzio;;VA;Lombardia
+012022;B191;Brissago-Valtravaglia;;VA;Lombardia
+012023;B219;Brunello;;VA;Lombardia
+012024;B228;Brusimpiano;;VA;Lombardia
+012025;B258;Buguggiate;;VA;Lombardia
+012026;B300;Busto Arsizio;;VA;Lombardia
+012027;B326;Cadegliano-Viconago;;VA;Lombardia
+012029;B368;Cairate;;VA;Lombardia
+012030;B634;Cantello;;VA;Lombardia
+012031;B732;Caravate;;VA;Lombardia
+012032;B754;Cardano al Campo;;VA;Lombardia
+012033;B796;Carnago;;VA;Lombardia
+012034;B805;Caronno Pertusella;;VA;Lombardia
+012035;B807;Caronno Varesino;;VA;Lombardia
+012036;B875;Casale Litta;;VA;Lombardia
+012037;B921;Casalzuigno;;VA;Lombardia
+012038;B949;Casciago;;VA;Lombardia
+012039;B987;Casorate Sempione;;VA;Lombardia
+012040;C004;Cassano Magnago;;VA;Lombardia
+012041;B999;Cassano Valcuvia;;VA;Lombardia
+012042;C139;Castellanza;;VA;Lombardia
+012043;B312;Castello Cabiaglio;;VA;Lombardia
+012044;C273;Castelseprio;;VA;Lombardia
+012045;C181;Castelveccana;;VA;Lombardia
+012046;C300;Castiglione Olona;;VA;Lombardia
+012047;C343;Castronno;;VA;Lombardia
+012048;C382;Cavaria con Premezzo;;VA;Lombardia
+012049;C409;Cazzago Brabbia;;VA;Lombardia
+012050;C732;Cislago;;VA;Lombardia
+012051;C751;Cittiglio;;VA;Lombardia
+012052;C796;Clivio;;VA;Lombardia
+012053;C810;Cocquio-Trevisago;;VA;Lombardia
+012054;C911;Comabbio;;VA;Lombardia
+012055;C922;Comerio;;VA;Lombardia
+012056;D144;Cremenaga;;VA;Lombardia
+012057;D185;Crosio della Valle;;VA;Lombardia
+012058;D192;Cuasso al Monte;;VA;Lombardia
+012059;D199;Cugliate-Fabiasco;;VA;Lombardia
+012060;D204;Cunardo;;VA;Lombardia
+012061;D217;Curiglia con Monteviasco;;VA;Lombardia
+012062;D238;Cuveglio;;VA;Lombardia
+012063;D239;Cuvio;;VA;Lombardia
+012064;D256;Daverio;;VA;Lombardia
+012065;D384;Dumenza;;VA;Lombardia
+012066;D385;Duno;;VA;Lombardia
+012067;D467;Fagnano Olona;;VA;Lombardia
+012068;D543;Ferno;;VA;Lombardia
+012069;D551;Ferrera di Varese;;VA;Lombardia
+012070;D869;Gallarate;;VA;Lombardia
+012071;D871;Galliate Lombardo;;VA;Lombardia
+012072;D946;Gavirate;;VA;Lombardia
+012073;D951;Gazzada Schianno;;VA;Lombardia
+012074;D963;Gemonio;;VA;Lombardia
+012075;D981;Gerenzano;;VA;Lombardia
+012076;D987;Germignaga;;VA;Lombardia
+012077;E079;Golasecca;;VA;Lombardia
+012078;E101;Gorla Maggiore;;VA;Lombardia
+012079;E102;Gorla Minore;;VA;Lombardia
+012080;E104;Gornate Olona;;VA;Lombardia
+012081;E144;Grantola;;VA;Lombardia
+012082;E292;Inarzo;;VA;Lombardia
+012083;E299;Induno Olona;;VA;Lombardia
+012084;E367;Ispra;;VA;Lombardia
+012085;E386;Jerago con Orago;;VA;Lombardia
+012086;E494;Lavena Ponte Tresa;;VA;Lombardia
+012087;E496;Laveno-Mombello;;VA;Lombardia
+012088;E510;Leggiuno;;VA;Lombardia
+012089;E665;Lonate Ceppino;;VA;Lombardia
+012090;E666;Lonate Pozzolo;;VA;Lombardia
+012091;E707;Lozza;;VA;Lombardia
+012092;E734;Luino;;VA;Lombardia
+012093;E769;Luvinate;;VA;Lombardia
+012095;E856;Malgesso;;VA;Lombardia
+012096;E863;Malnate;;VA;Lombardia
+012097;E929;Marchirolo;;VA;Lombardia
+012098;E965;Marnate;;VA;Lombardia
+012099;F002;Marzio;;VA;Lombardia
+012100;F007;Masciago Primo;;VA;Lombardia
+012101;F134;Mercallo;;VA;Lombardia
+012102;F154;Mesenzana;;VA;Lombardia
+012103;F526;Montegrino Valtravaglia;;VA;Lombardia
+012104;F703;Monvalle;;VA;Lombardia
+012105;F711;Morazzone;;VA;Lombardia
+012106;F736;Mornago;;VA;Lombardia
+012107;G008;Oggiona con Santo Stefano;;VA;Lombardia
+012108;G028;Olgiate Olona;;VA;Lombardia
+012109;G103;Origgio;;VA;Lombardia
+012110;G105;Orino;;VA;Lombardia
+012113;G906;Porto Ceresio;;VA;Lombardia
+012114;G907;Porto Valtravaglia;;VA;Lombardia
+012115;H173;Rancio Valcuvia;;VA;Lombardia
+012116;H174;Ranco;;VA;Lombardia
+012117;H723;Saltrio;;VA;Lombardia
+012118;H736;Samarate;;VA;Lombardia
+012119;I441;Saronno;;VA;Lombardia
+012120;I688;Sesto Calende;;VA;Lombardia
+012121;I793;Solbiate Arno;;VA;Lombardia
+012122;I794;Solbiate Olona;;VA;Lombardia
+012123;I819;Somma Lombardo;;VA;Lombardia
+012124;L003;Sumirago;;VA;Lombardia
+012125;L032;Taino;;VA;Lombardia
+012126;L115;Ternate;;VA;Lombardia
+012127;L319;Tradate;;VA;Lombardia
+012128;L342;Travedona-Monate;;VA;Lombardia
+012129;A705;Tronzano Lago Maggiore;;VA;Lombardia
+012130;L480;Uboldo;;VA;Lombardia
+012131;L577;Valganna;;VA;Lombardia
+012132;L671;Varano Borghi;;VA;Lombardia
+012133;L682;Varese;;VA;Lombardia
+012134;L703;Vedano Olona;;VA;Lombardia
+012136;L733;Venegono Inferiore;;VA;Lombardia
+012137;L734;Venegono Superiore;;VA;Lombardia
+012138;L765;Vergiate;;VA;Lombardia
+012139;L876;Viggiù;;VA;Lombardia
+012140;M101;Vizzola Ticino;;VA;Lombardia
+012141;H872;Sangiano;;VA;Lombardia
+012142;M339;Maccagno con Pino e Veddasca;;VA;Lombardia
+012143;M425;Cadrezzate con Osmate;;VA;Lombardia
+013003;A143;Albavilla;;CO;Lombardia
+013004;A153;Albese con Cassano;;CO;Lombardia
+013005;A164;Albiolo;;CO;Lombardia
+013006;A224;Alserio;;CO;Lombardia
+013007;A249;Alzate Brianza;;CO;Lombardia
+013009;A319;Anzano del Parco;;CO;Lombardia
+013010;A333;Appiano Gentile;;CO;Lombardia
+013011;A391;Argegno;;CO;Lombardia
+013012;A430;Arosio;;CO;Lombardia
+013013;A476;Asso;;CO;Lombardia
+013015;A670;Barni;;CO;Lombardia
+013021;A778;Bene Lario;;CO;Lombardia
+013022;A791;Beregazzo con Figliaro;;CO;Lombardia
+013023;A870;Binago;;CO;Lombardia
+013024;A898;Bizzarone;;CO;Lombardia
+013025;A904;Blessagno;;CO;Lombardia
+013026;A905;Blevio;;CO;Lombardia
+013028;B134;Bregnano;;CO;Lombardia
+013029;B144;Brenna;;CO;Lombardia
+013030;B172;Brienno;;CO;Lombardia
+013032;B218;Brunate;;CO;Lombardia
+013034;B262;Bulgarograsso;;CO;Lombardia
+013035;B313;Cabiate;;CO;Lombardia
+013036;B346;Cadorago;;CO;Lombardia
+013037;B355;Caglio;;CO;Lombardia
+013040;B513;Campione d'Italia;;CO;Lombardia
+013041;B639;Cantù;;CO;Lombardia
+013042;B641;Canzo;;CO;Lombardia
+013043;B653;Capiago Intimiano;;CO;Lombardia
+013044;B730;Carate Urio;;CO;Lombardia
+013045;B742;Carbonate;;CO;Lombardia
+013046;B778;Carimate;;CO;Lombardia
+013047;B785;Carlazzo;;CO;Lombardia
+013048;B851;Carugo;;CO;Lombardia
+013052;B974;Caslino d'Erba;;CO;Lombardia
+013053;B977;Casnate con Bernate;;CO;Lombardia
+013055;C020;Cassina Rizzardi;;CO;Lombardia
+013058;C206;Castelmarte;;CO;Lombardia
+013059;C220;Castelnuovo Bozzente;;CO;Lombardia
+013062;C381;Cavargna;;CO;Lombardia
+013063;C482;Cerano d'Intelvi;;CO;Lombardia
+013064;C516;Cermenate;;CO;Lombardia
+013065;C520;Cernobbio;;CO;Lombardia
+013068;C724;Cirimido;;CO;Lombardia
+013071;C787;Claino con Osteno;;CO;Lombardia
+013074;C902;Colonno;;CO;Lombardia
+013075;C933;Como;;CO;Lombardia
+013077;D041;Corrido;;CO;Lombardia
+013083;D147;Cremia;;CO;Lombardia
+013084;D196;Cucciago;;CO;Lombardia
+013085;D232;Cusino;;CO;Lombardia
+013087;D310;Dizzasco;;CO;Lombardia
+013089;D329;Domaso;;CO;Lombardia
+013090;D341;Dongo;;CO;Lombardia
+013092;D355;Dosso del Liro;;CO;Lombardia
+013095;D416;Erba;;CO;Lombardia
+013097;D445;Eupilio;;CO;Lombardia
+013098;D462;Faggeto Lario;;CO;Lombardia
+013099;D482;Faloppio;;CO;Lombardia
+013100;D531;Fenegrò;;CO;Lombardia
+013101;D579;Figino Serenza;;CO;Lombardia
+013102;D605;Fino Mornasco;;CO;Lombardia
+013106;D930;Garzeno;;CO;Lombardia
+013107;D974;Gera Lario;;CO;Lombardia
+013110;E139;Grandate;;CO;Lombardia
+013111;E141;Grandola ed Uniti;;CO;Lombardia
+013113;E172;Griante;;CO;Lombardia
+013114;E235;Guanzate;;CO;Lombardia
+013118;E309;Inverigo;;CO;Lombardia
+013119;E405;Laglio;;CO;Lombardia
+013120;E416;Laino;;CO;Lombardia
+013121;E428;Lambrugo;;CO;Lombardia
+013123;E462;Lasnigo;;CO;Lombardia
+013126;E569;Lezzeno;;CO;Lombardia
+013128;E593;Limido Comasco;;CO;Lombardia
+013129;E607;Lipomo;;CO;Lombardia
+013130;E623;Livo;;CO;Lombardia
+013131;E638;Locate Varesino;;CO;Lombardia
+013133;E659;Lomazzo;;CO;Lombardia
+013134;E679;Longone al Segrino;;CO;Lombardia
+013135;E735;Luisago;;CO;Lombardia
+013136;E749;Lurago d'Erba;;CO;Lombardia
+013137;E750;Lurago Marinone;;CO;Lombardia
+013138;E753;Lurate Caccivio;;CO;Lombardia
+013139;E830;Magreglio;;CO;Lombardia
+013143;E951;Mariano Comense;;CO;Lombardia
+013144;F017;Maslianico;;CO;Lombardia
+013145;F120;Menaggio;;CO;Lombardia
+013147;F151;Merone;;CO;Lombardia
+013152;F305;Moltrasio;;CO;Lombardia
+013153;F372;Monguzzo;;CO;Lombardia
+013154;F427;Montano Lucino;;CO;Lombardia
+013155;F564;Montemezzo;;CO;Lombardia
+013157;F688;Montorfano;;CO;Lombardia
+013159;F788;Mozzate;;CO;Lombardia
+013160;F828;Musso;;CO;Lombardia
+013161;F877;Nesso;;CO;Lombardia
+013163;F958;Novedrate;;CO;Lombardia
+013165;G025;Olgiate Comasco;;CO;Lombardia
+013169;G056;Oltrona di San Mamette;;CO;Lombardia
+013170;G126;Orsenigo;;CO;Lombardia
+013178;G415;Peglio;;CO;Lombardia
+013183;G556;Pianello del Lario;;CO;Lombardia
+013184;G665;Pigra;;CO;Lombardia
+013185;G737;Plesio;;CO;Lombardia
+013186;G773;Pognana Lario;;CO;Lombardia
+013187;G821;Ponna;;CO;Lombardia
+013188;G847;Ponte Lambro;;CO;Lombardia
+013189;G889;Porlezza;;CO;Lombardia
+013192;H074;Proserpio;;CO;Lombardia
+013193;H094;Pusiano;;CO;Lombardia
+013195;H255;Rezzago;;CO;Lombardia
+013197;H478;Rodero;;CO;Lombardia
+013199;H521;Ronago;;CO;Lombardia
+013201;H601;Rovellasca;;CO;Lombardia
+013202;H602;Rovello Porro;;CO;Lombardia
+013203;H679;Sala Comacina;;CO;Lombardia
+013204;H760;San Bartolomeo Val Cavargna;;CO;Lombardia
+013206;H840;San Fermo della Battaglia;;CO;Lombardia
+013207;I051;San Nazzaro Val Cavargna;;CO;Lombardia
+013211;I529;Schignano;;CO;Lombardia
+013212;I611;Senna Comasco;;CO;Lombardia
+013216;I856;Sorico;;CO;Lombardia
+013217;I860;Sormano;;CO;Lombardia
+013218;I943;Stazzona;;CO;Lombardia
+013222;L071;Tavernerio;;CO;Lombardia
+013223;L228;Torno;;CO;Lombardia
+013226;L413;Trezzone;;CO;Lombardia
+013227;L470;Turate;;CO;Lombardia
+013228;L487;Uggiate-Trevano;;CO;Lombardia
+013229;L547;Valbrona;;CO;Lombardia
+013232;L640;Valmorea;;CO;Lombardia
+013233;H259;Val Rezzo;;CO;Lombardia
+013234;C936;Valsolda;;CO;Lombardia
+013236;L715;Veleso;;CO;Lombardia
+013238;L737;Veniano;;CO;Lombardia
+013239;L748;Vercana;;CO;Lombardia
+013242;L792;Vertemate con Minoprio;;CO;Lombardia
+013245;L956;Villa Guardia;;CO;Lombardia
+013246;M156;Zelbio;;CO;Lombardia
+013248;I162;San Siro;;CO;Lombardia
+013249;M315;Gravedona ed Uniti;;CO;Lombardia
+013250;M335;Bellagio;;CO;Lombardia
+013251;M336;Colverde;;CO;Lombardia
+013252;M341;Tremezzina;;CO;Lombardia
+013253;M383;Alta Valle Intelvi;;CO;Lombardia
+013254;M394;Centro Valle Intelvi;;CO;Lombardia
+013255;M412;Solbiate con Cagno;;CO;Lombardia
+014001;A135;Albaredo per San Marco;;SO;Lombardia
+014002;A172;Albosaggia;;SO;Lombardia
+014003;A273;Andalo Valtellino;;SO;Lombardia
+014004;A337;Aprica;;SO;Lombardia
+014005;A382;Ardenno;;SO;Lombardia
+014006;A777;Bema;;SO;Lombardia
+014007;A787;Berbenno di Valtellina;;SO;Lombardia
+014008;A848;Bianzone;;SO;Lombardia
+014009;B049;Bormio;;SO;Lombardia
+014010;B255;Buglio in Monte;;SO;Lombardia
+014011;B366;Caiolo;;SO;Lombardia
+014012;B530;Campodolcino;;SO;Lombardia
+014013;B993;Caspoggio;;SO;Lombardia
+014014;C186;Castello dell'Acqua;;SO;Lombardia
+014015;C325;Castione Andevenno;;SO;Lombardia
+014016;C418;Cedrasco;;SO;Lombardia
+014017;C493;Cercino;;SO;Lombardia
+014018;C623;Chiavenna;;SO;Lombardia
+014019;C628;Chiesa in Valmalenco;;SO;Lombardia
+014020;C651;Chiuro;;SO;Lombardia
+014021;C709;Cino;;SO;Lombardia
+014022;C785;Civo;;SO;Lombardia
+014023;C903;Colorina;;SO;Lombardia
+014024;D088;Cosio Valtellino;;SO;Lombardia
+014025;D258;Dazio;;SO;Lombardia
+014026;D266;Delebio;;SO;Lombardia
+014027;D377;Dubino;;SO;Lombardia
+014028;D456;Faedo Valtellino;;SO;Lombardia
+014029;D694;Forcola;;SO;Lombardia
+014030;D830;Fusine;;SO;Lombardia
+014031;D990;Gerola Alta;;SO;Lombardia
+014032;E090;Gordona;;SO;Lombardia
+014033;E200;Grosio;;SO;Lombardia
+014034;E201;Grosotto;;SO;Lombardia
+014035;E342;Madesimo;;SO;Lombardia
+014036;E443;Lanzada;;SO;Lombardia
+014037;E621;Livigno;;SO;Lombardia
+014038;E705;Lovero;;SO;Lombardia
+014039;E896;Mantello;;SO;Lombardia
+014040;F070;Mazzo di Valtellina;;SO;Lombardia
+014041;F115;Mello;;SO;Lombardia
+014043;F153;Mese;;SO;Lombardia
+014044;F393;Montagna in Valtellina;;SO;Lombardia
+014045;F712;Morbegno;;SO;Lombardia
+014046;F956;Novate Mezzola;;SO;Lombardia
+014047;G410;Pedesina;;SO;Lombardia
+014048;G572;Piantedo;;SO;Lombardia
+014049;G576;Piateda;;SO;Lombardia
+014050;G718;Piuro;;SO;Lombardia
+014051;G431;Poggiridenti;;SO;Lombardia
+014052;G829;Ponte in Valtellina;;SO;Lombardia
+014053;G937;Postalesio;;SO;Lombardia
+014054;G993;Prata Camportaccio;;SO;Lombardia
+014055;H192;Rasura;;SO;Lombardia
+014056;H493;Rogolo;;SO;Lombardia
+014057;H752;Samolaco;;SO;Lombardia
+014058;H868;San Giacomo Filippo;;SO;Lombardia
+014059;I636;Sernio;;SO;Lombardia
+014060;I828;Sondalo;;SO;Lombardia
+014061;I829;Sondrio;;SO;Lombardia
+014062;I928;Spriana;;SO;Lombardia
+014063;L035;Talamona;;SO;Lombardia
+014064;L056;Tartano;;SO;Lombardia
+014065;L084;Teglio;;SO;Lombardia
+014066;L175;Tirano;;SO;Lombardia
+014067;L244;Torre di Santa Maria;;SO;Lombardia
+014068;L316;Tovo di Sant'Agata;;SO;Lombardia
+014069;L330;Traona;;SO;Lombardia
+014070;L392;Tresivio;;SO;Lombardia
+014071;L557;Valdidentro;;SO;Lombardia
+014072;L563;Valdisotto;;SO;Lombardia
+014073;L576;Valfurva;;SO;Lombardia
+014074;L638;Val Masino;;SO;Lombardia
+014075;L749;Verceia;;SO;Lombardia
+014076;L799;Vervio;;SO;Lombardia
+014077;L907;Villa di Chiavenna;;SO;Lombardia
+014078;L908;Villa di Tirano;;SO;Lombardia
+015002;A010;Abbiategrasso;;MI;Lombardia
+015005;A127;Albairate;;MI;Lombardia
+015007;A375;Arconate;;MI;Lombardia
+015009;A389;Arese;;MI;Lombardia
+015010;A413;Arluno;;MI;Lombardia
+015011;A473;Assago;;MI;Lombardia
+015012;A652;Bareggio;;MI;Lombardia
+015014;A697;Basiano;;MI;Lombardia
+015015;A699;Basiglio;;MI;Lombardia
+015016;A751;Bellinzago Lombardo;;MI;Lombardia
+015019;A804;Bernate Ticino;;MI;Lombardia
+015022;A820;Besate;;MI;Lombardia
+015024;A872;Binasco;;MI;Lombardia
+015026;A920;Boffalora sopra Ticino;;MI;Lombardia
+015027;A940;Bollate;;MI;Lombardia
+015032;B162;Bresso;;MI;Lombardia
+015035;B235;Bubbiano;;MI;Lombardia
+015036;B240;Buccinasco;;MI;Lombardia
+015038;B286;Buscate;;MI;Lombardia
+015040;B292;Bussero;;MI;Lombardia
+015041;B301;Busto Garolfo;;MI;Lombardia
+015042;B448;Calvignasco;;MI;Lombardia
+015044;B461;Cambiago;;MI;Lombardia
+015046;B593;Canegrate;;MI;Lombardia
+015050;B820;Carpiano;;MI;Lombardia
+015051;B850;Carugate;;MI;Lombardia
+015055;B938;Casarile;;MI;Lombardia
+015058;B989;Casorezzo;;MI;Lombardia
+015059;C003;Cassano d'Adda;;MI;Lombardia
+015060;C014;Cassina de' Pecchi;;MI;Lombardia
+015061;C033;Cassinetta di Lugagnano;;MI;Lombardia
+015062;C052;Castano Primo;;MI;Lombardia
+015070;C523;Cernusco sul Naviglio;;MI;Lombardia
+015071;C536;Cerro al Lambro;;MI;Lombardia
+015072;C537;Cerro Maggiore;;MI;Lombardia
+015074;C565;Cesano Boscone;;MI;Lombardia
+015076;C569;Cesate;;MI;Lombardia
+015077;C707;Cinisello Balsamo;;MI;Lombardia
+015078;C733;Cisliano;;MI;Lombardia
+015081;C895;Cologno Monzese;;MI;Lombardia
+015082;C908;Colturano;;MI;Lombardia
+015085;C986;Corbetta;;MI;Lombardia
+015086;D013;Cormano;;MI;Lombardia
+015087;D018;Cornaredo;;MI;Lombardia
+015093;D045;Corsico;;MI;Lombardia
+015096;D198;Cuggiono;;MI;Lombardia
+015097;D229;Cusago;;MI;Lombardia
+015098;D231;Cusano Milanino;;MI;Lombardia
+015099;D244;Dairago;;MI;Lombardia
+015101;D367;Dresano;;MI;Lombardia
+015103;D845;Gaggiano;;MI;Lombardia
+015105;D912;Garbagnate Milanese;;MI;Lombardia
+015106;D995;Gessate;;MI;Lombardia
+015108;E094;Gorgonzola;;MI;Lombardia
+015110;E170;Grezzago;;MI;Lombardia
+015112;E258;Gudo Visconti;;MI;Lombardia
+015113;E313;Inveruno;;MI;Lombardia
+015114;E317;Inzago;;MI;Lombardia
+015115;E395;Lacchiarella;;MI;Lombardia
+015116;E415;Lainate;;MI;Lombardia
+015118;E514;Legnano;;MI;Lombardia
+015122;E610;Liscate;;MI;Lombardia
+015125;E639;Locate di Triulzi;;MI;Lombardia
+015130;E801;Magenta;;MI;Lombardia
+015131;E819;Magnago;;MI;Lombardia
+015134;E921;Marcallo con Casone;;MI;Lombardia
+015136;F003;Masate;;MI;Lombardia
+015139;F084;Mediglia;;MI;Lombardia
+015140;F100;Melegnano;;MI;Lombardia
+015142;F119;Melzo;;MI;Lombardia
+015144;F155;Mesero;;MI;Lombardia
+015146;F205;Milano;;MI;Lombardia
+015150;D033;Morimondo;;MI;Lombardia
+015151;F783;Motta Visconti;;MI;Lombardia
+015154;F874;Nerviano;;MI;Lombardia
+015155;F939;Nosate;;MI;Lombardia
+015157;F955;Novate Milanese;;MI;Lombardia
+015158;F968;Noviglio;;MI;Lombardia
+015159;G078;Opera;;MI;Lombardia
+015164;G181;Ossona;;MI;Lombardia
+015165;G206;Ozzero;;MI;Lombardia
+015166;G220;Paderno Dugnano;;MI;Lombardia
+015167;G316;Pantigliate;;MI;Lombardia
+015168;G324;Parabiago;;MI;Lombardia
+015169;G385;Paullo;;MI;Lombardia
+015170;C013;Pero;;MI;Lombardia
+015171;G488;Peschiera Borromeo;;MI;Lombardia
+015172;G502;Pessano con Bornago;;MI;Lombardia
+015173;G634;Pieve Emanuele;;MI;Lombardia
+015175;G686;Pioltello;;MI;Lombardia
+015176;G772;Pogliano Milanese;;MI;Lombardia
+015177;G955;Pozzo d'Adda;;MI;Lombardia
+015178;G965;Pozzuolo Martesana;;MI;Lombardia
+015179;H026;Pregnana Milanese;;MI;Lombardia
+015181;H240;Rescaldina;;MI;Lombardia
+015182;H264;Rho;;MI;Lombardia
+015183;H371;Robecchetto con Induno;;MI;Lombardia
+015184;H373;Robecco sul Naviglio;;MI;Lombardia
+015185;H470;Rodano;;MI;Lombardia
+015188;H560;Rosate;;MI;Lombardia
+015189;H623;Rozzano;;MI;Lombardia
+015191;H803;San Colombano al Lambro;;MI;Lombardia
+015192;H827;San Donato Milanese;;MI;Lombardia
+015194;H884;San Giorgio su Legnano;;MI;Lombardia
+015195;H930;San Giuliano Milanese;;MI;Lombardia
+015200;I361;Santo Stefano Ticino;;MI;Lombardia
+015201;I409;San Vittore Olona;;MI;Lombardia
+015202;I415;San Zenone al Lambro;;MI;Lombardia
+015204;I566;Sedriano;;MI;Lombardia
+015205;I577;Segrate;;MI;Lombardia
+015206;I602;Senago;;MI;Lombardia
+015209;I690;Sesto San Giovanni;;MI;Lombardia
+015210;I696;Settala;;MI;Lombardia
+015211;I700;Settimo Milanese;;MI;Lombardia
+015213;I786;Solaro;;MI;Lombardia
+015219;L408;Trezzano Rosa;;MI;Lombardia
+015220;L409;Trezzano sul Naviglio;;MI;Lombardia
+015221;L411;Trezzo sull'Adda;;MI;Lombardia
+015222;L415;Tribiano;;MI;Lombardia
+015224;L454;Truccazzano;;MI;Lombardia
+015226;L471;Turbigo;;MI;Lombardia
+015229;L665;Vanzago;;MI;Lombardia
+015230;L667;Vaprio d'Adda;;MI;Lombardia
+015236;L773;Vernate;;MI;Lombardia
+015237;L883;Vignate;;MI;Lombardia
+015242;M053;Vimodrone;;MI;Lombardia
+015243;M091;Vittuone;;MI;Lombardia
+015244;M102;Vizzolo Predabissi;;MI;Lombardia
+015247;M176;Zibido San Giacomo;;MI;Lombardia
+015248;L928;Villa Cortese;;MI;Lombardia
+015249;L664;Vanzaghello;;MI;Lombardia
+015250;A618;Baranzate;;MI;Lombardia
+015251;M424;Vermezzo con Zelo;;MI;Lombardia
+016001;A057;Adrara San Martino;;BG;Lombardia
+016002;A058;Adrara San Rocco;;BG;Lombardia
+016003;A129;Albano Sant'Alessandro;;BG;Lombardia
+016004;A163;Albino;;BG;Lombardia
+016005;A214;Almè;;BG;Lombardia
+016006;A216;Almenno San Bartolomeo;;BG;Lombardia
+016007;A217;Almenno San Salvatore;;BG;Lombardia
+016008;A246;Alzano Lombardo;;BG;Lombardia
+016009;A259;Ambivere;;BG;Lombardia
+016010;A304;Antegnate;;BG;Lombardia
+016011;A365;Arcene;;BG;Lombardia
+016012;A383;Ardesio;;BG;Lombardia
+016013;A440;Arzago d'Adda;;BG;Lombardia
+016014;A511;Averara;;BG;Lombardia
+016015;A517;Aviatico;;BG;Lombardia
+016016;A528;Azzano San Paolo;;BG;Lombardia
+016017;A533;Azzone;;BG;Lombardia
+016018;A557;Bagnatica;;BG;Lombardia
+016019;A631;Barbata;;BG;Lombardia
+016020;A664;Bariano;;BG;Lombardia
+016021;A684;Barzana;;BG;Lombardia
+016022;A732;Bedulita;;BG;Lombardia
+016023;A786;Berbenno;;BG;Lombardia
+016024;A794;Bergamo;;BG;Lombardia
+016025;A815;Berzo San Fermo;;BG;Lombardia
+016026;A846;Bianzano;;BG;Lombardia
+016027;A903;Blello;;BG;Lombardia
+016028;A937;Bolgare;;BG;Lombardia
+016029;A950;Boltiere;;BG;Lombardia
+016030;A963;Bonate Sopra;;BG;Lombardia
+016031;A962;Bonate Sotto;;BG;Lombardia
+016032;B010;Borgo di Terzo;;BG;Lombardia
+016033;B083;Bossico;;BG;Lombardia
+016034;B088;Bottanuco;;BG;Lombardia
+016035;B112;Bracca;;BG;Lombardia
+016036;B123;Branzi;;BG;Lombardia
+016037;B137;Brembate;;BG;Lombardia
+016038;B138;Brembate di Sopra;;BG;Lombardia
+016040;B178;Brignano Gera d'Adda;;BG;Lombardia
+016041;B217;Brumano;;BG;Lombardia
+016042;B223;Brusaporto;;BG;Lombardia
+016043;B393;Calcinate;;BG;Lombardia
+016044;B395;Calcio;;BG;Lombardia
+016046;B434;Calusco d'Adda;;BG;Lombardia
+016047;B442;Calvenzano;;BG;Lombardia
+016048;B471;Camerata Cornello;;BG;Lombardia
+016049;B618;Canonica d'Adda;;BG;Lombardia
+016050;B661;Capizzone;;BG;Lombardia
+016051;B703;Capriate San Gervasio;;BG;Lombardia
+016052;B710;Caprino Bergamasco;;BG;Lombardia
+016053;B731;Caravaggio;;BG;Lombardia
+016055;B801;Carobbio degli Angeli;;BG;Lombardia
+016056;B803;Carona;;BG;Lombardia
+016057;B854;Carvico;;BG;Lombardia
+016058;B947;Casazza;;BG;Lombardia
+016059;B971;Casirate d'Adda;;BG;Lombardia
+016060;B978;Casnigo;;BG;Lombardia
+016061;C007;Cassiglio;;BG;Lombardia
+016062;C079;Castelli Calepio;;BG;Lombardia
+016063;C255;Castel Rozzone;;BG;Lombardia
+016064;C324;Castione della Presolana;;BG;Lombardia
+016065;C337;Castro;;BG;Lombardia
+016066;C396;Cavernago;;BG;Lombardia
+016067;C410;Cazzano Sant'Andrea;;BG;Lombardia
+016068;C456;Cenate Sopra;;BG;Lombardia
+016069;C457;Cenate Sotto;;BG;Lombardia
+016070;C459;Cene;;BG;Lombardia
+016071;C506;Cerete;;BG;Lombardia
+016072;C635;Chignolo d'Isola;;BG;Lombardia
+016073;C649;Chiuduno;;BG;Lombardia
+016074;C728;Cisano Bergamasco;;BG;Lombardia
+016075;C730;Ciserano;;BG;Lombardia
+016076;C759;Cividate al Piano;;BG;Lombardia
+016077;C800;Clusone;;BG;Lombardia
+016078;C835;Colere;;BG;Lombardia
+016079;C894;Cologno al Serio;;BG;Lombardia
+016080;C910;Colzate;;BG;Lombardia
+016081;C937;Comun Nuovo;;BG;Lombardia
+016082;D015;Corna Imagna;;BG;Lombardia
+016083;D066;Cortenuova;;BG;Lombardia
+016084;D110;Costa di Mezzate;;BG;Lombardia
+016085;D103;Costa Valle Imagna;;BG;Lombardia
+016086;D117;Costa Volpino;;BG;Lombardia
+016087;D126;Covo;;BG;Lombardia
+016088;D139;Credaro;;BG;Lombardia
+016089;D221;Curno;;BG;Lombardia
+016090;D233;Cusio;;BG;Lombardia
+016091;D245;Dalmine;;BG;Lombardia
+016092;D352;Dossena;;BG;Lombardia
+016093;D406;Endine Gaiano;;BG;Lombardia
+016094;D411;Entratico;;BG;Lombardia
+016096;D490;Fara Gera d'Adda;;BG;Lombardia
+016097;D491;Fara Olivana con Sola;;BG;Lombardia
+016098;D588;Filago;;BG;Lombardia
+016099;D604;Fino del Monte;;BG;Lombardia
+016100;D606;Fiorano al Serio;;BG;Lombardia
+016101;D672;Fontanella;;BG;Lombardia
+016102;D684;Fonteno;;BG;Lombardia
+016103;D688;Foppolo;;BG;Lombardia
+016104;D697;Foresto Sparso;;BG;Lombardia
+016105;D727;Fornovo San Giovanni;;BG;Lombardia
+016106;D817;Fuipiano Valle Imagna;;BG;Lombardia
+016107;D903;Gandellino;;BG;Lombardia
+016108;D905;Gandino;;BG;Lombardia
+016109;D906;Gandosso;;BG;Lombardia
+016110;D943;Gaverina Terme;;BG;Lombardia
+016111;D952;Gazzaniga;;BG;Lombardia
+016113;E006;Ghisalba;;BG;Lombardia
+016114;E100;Gorlago;;BG;Lombardia
+016115;E103;Gorle;;BG;Lombardia
+016116;E106;Gorno;;BG;Lombardia
+016117;E148;Grassobbio;;BG;Lombardia
+016118;E189;Gromo;;BG;Lombardia
+016119;E192;Grone;;BG;Lombardia
+016120;E219;Grumello del Monte;;BG;Lombardia
+016121;E353;Isola di Fondra;;BG;Lombardia
+016122;E370;Isso;;BG;Lombardia
+016123;E422;Lallio;;BG;Lombardia
+016124;E509;Leffe;;BG;Lombardia
+016125;E524;Lenna;;BG;Lombardia
+016126;E562;Levate;;BG;Lombardia
+016127;E640;Locatello;;BG;Lombardia
+016128;E704;Lovere;;BG;Lombardia
+016129;E751;Lurano;;BG;Lombardia
+016130;E770;Luzzana;;BG;Lombardia
+016131;E794;Madone;;BG;Lombardia
+016132;E901;Mapello;;BG;Lombardia
+016133;E987;Martinengo;;BG;Lombardia
+016134;F186;Mezzoldo;;BG;Lombardia
+016135;F243;Misano di Gera d'Adda;;BG;Lombardia
+016136;F276;Moio de' Calvi;;BG;Lombardia
+016137;F328;Monasterolo del Castello;;BG;Lombardia
+016139;F547;Montello;;BG;Lombardia
+016140;F720;Morengo;;BG;Lombardia
+016141;F738;Mornico al Serio;;BG;Lombardia
+016142;F786;Mozzanica;;BG;Lombardia
+016143;F791;Mozzo;;BG;Lombardia
+016144;F864;Nembro;;BG;Lombardia
+016145;G049;Olmo al Brembo;;BG;Lombardia
+016146;G050;Oltre il Colle;;BG;Lombardia
+016147;G054;Oltressenda Alta;;BG;Lombardia
+016148;G068;Oneta;;BG;Lombardia
+016149;G075;Onore;;BG;Lombardia
+016150;G108;Orio al Serio;;BG;Lombardia
+016151;G118;Ornica;;BG;Lombardia
+016152;G159;Osio Sopra;;BG;Lombardia
+016153;G160;Osio Sotto;;BG;Lombardia
+016154;G233;Pagazzano;;BG;Lombardia
+016155;G249;Paladina;;BG;Lombardia
+016156;G259;Palazzago;;BG;Lombardia
+016157;G295;Palosco;;BG;Lombardia
+016158;G346;Parre;;BG;Lombardia
+016159;G350;Parzanica;;BG;Lombardia
+016160;G412;Pedrengo;;BG;Lombardia
+016161;G418;Peia;;BG;Lombardia
+016162;G564;Pianico;;BG;Lombardia
+016163;G574;Piario;;BG;Lombardia
+016164;G579;Piazza Brembana;;BG;Lombardia
+016165;G583;Piazzatorre;;BG;Lombardia
+016166;G588;Piazzolo;;BG;Lombardia
+016167;G774;Pognano;;BG;Lombardia
+016168;F941;Ponte Nossa;;BG;Lombardia
+016169;G853;Ponteranica;;BG;Lombardia
+016170;G856;Ponte San Pietro;;BG;Lombardia
+016171;G864;Pontida;;BG;Lombardia
+016172;G867;Pontirolo Nuovo;;BG;Lombardia
+016173;G968;Pradalunga;;BG;Lombardia
+016174;H020;Predore;;BG;Lombardia
+016175;H036;Premolo;;BG;Lombardia
+016176;H046;Presezzo;;BG;Lombardia
+016177;H091;Pumenengo;;BG;Lombardia
+016178;H176;Ranica;;BG;Lombardia
+016179;H177;Ranzanico;;BG;Lombardia
+016180;H331;Riva di Solto;;BG;Lombardia
+016182;H492;Rogno;;BG;Lombardia
+016183;H509;Romano di Lombardia;;BG;Lombardia
+016184;H535;Roncobello;;BG;Lombardia
+016185;H544;Roncola;;BG;Lombardia
+016186;H584;Rota d'Imagna;;BG;Lombardia
+016187;H615;Rovetta;;BG;Lombardia
+016188;H910;San Giovanni Bianco;;BG;Lombardia
+016189;B310;San Paolo d'Argon;;BG;Lombardia
+016190;I079;San Pellegrino Terme;;BG;Lombardia
+016191;I168;Santa Brigida;;BG;Lombardia
+016193;I437;Sarnico;;BG;Lombardia
+016194;I506;Scanzorosciate;;BG;Lombardia
+016195;I530;Schilpario;;BG;Lombardia
+016196;I567;Sedrina;;BG;Lombardia
+016197;I597;Selvino;;BG;Lombardia
+016198;I628;Seriate;;BG;Lombardia
+016199;I629;Serina;;BG;Lombardia
+016200;I812;Solto Collina;;BG;Lombardia
+016201;I830;Songavazzo;;BG;Lombardia
+016202;I858;Sorisole;;BG;Lombardia
+016203;I869;Sotto il Monte Giovanni XXIII;;BG;Lombardia
+016204;I873;Sovere;;BG;Lombardia
+016205;I916;Spinone al Lago;;BG;Lombardia
+016206;I919;Spirano;;BG;Lombardia
+016207;I951;Stezzano;;BG;Lombardia
+016208;I986;Strozza;;BG;Lombardia
+016209;I997;Suisio;;BG;Lombardia
+016210;L037;Taleggio;;BG;Lombardia
+016211;L073;Tavernola Bergamasca;;BG;Lombardia
+016212;L087;Telgate;;BG;Lombardia
+016213;L118;Terno d'Isola;;BG;Lombardia
+016214;L251;Torre Boldone;;BG;Lombardia
+016215;L257;Torre de' Busi;;BG;Lombardia
+016216;L265;Torre de' Roveri;;BG;Lombardia
+016217;L276;Torre Pallavicina;;BG;Lombardia
+016218;L388;Trescore Balneario;;BG;Lombardia
+016219;L400;Treviglio;;BG;Lombardia
+016220;L404;Treviolo;;BG;Lombardia
+016221;C789;Ubiale Clanezzo;;BG;Lombardia
+016222;L502;Urgnano;;BG;Lombardia
+016223;L544;Valbondione;;BG;Lombardia
+016224;L545;Valbrembo;;BG;Lombardia
+016225;L579;Valgoglio;;BG;Lombardia
+016226;L623;Valleve;;BG;Lombardia
+016227;L642;Valnegra;;BG;Lombardia
+016229;L655;Valtorta;;BG;Lombardia
+016230;L707;Vedeseta;;BG;Lombardia
+016232;L752;Verdellino;;BG;Lombardia
+016233;L753;Verdello;;BG;Lombardia
+016234;L795;Vertova;;BG;Lombardia
+016235;L827;Viadanica;;BG;Lombardia
+016236;L865;Vigano San Martino;;BG;Lombardia
+016237;L894;Vigolo;;BG;Lombardia
+016238;L929;Villa d'Adda;;BG;Lombardia
+016239;A215;Villa d'Almè;;BG;Lombardia
+016240;L936;Villa di Serio;;BG;Lombardia
+016241;L938;Villa d'Ogna;;BG;Lombardia
+016242;M045;Villongo;;BG;Lombardia
+016243;M050;Vilminore di Scalve;;BG;Lombardia
+016244;M144;Zandobbio;;BG;Lombardia
+016245;M147;Zanica;;BG;Lombardia
+016246;M184;Zogno;;BG;Lombardia
+016247;D111;Costa Serina;;BG;Lombardia
+016248;A193;Algua;;BG;Lombardia
+016249;D016;Cornalba;;BG;Lombardia
+016250;F085;Medolago;;BG;Lombardia
+016251;I813;Solza;;BG;Lombardia
+016252;M333;Sant'Omobono Terme;;BG;Lombardia
+016253;M334;Val Brembilla;;BG;Lombardia
+017001;A034;Acquafredda;;BS;Lombardia
+017002;A060;Adro;;BS;Lombardia
+017003;A082;Agnosine;;BS;Lombardia
+017004;A188;Alfianello;;BS;Lombardia
+017005;A288;Anfo;;BS;Lombardia
+017006;A293;Angolo Terme;;BS;Lombardia
+017007;A451;Artogne;;BS;Lombardia
+017008;A529;Azzano Mella;;BS;Lombardia
+017009;A569;Bagnolo Mella;;BS;Lombardia
+017010;A578;Bagolino;;BS;Lombardia
+017011;A630;Barbariga;;BS;Lombardia
+017012;A661;Barghe;;BS;Lombardia
+017013;A702;Bassano Bresciano;;BS;Lombardia
+017014;A729;Bedizzole;;BS;Lombardia
+017015;A799;Berlingo;;BS;Lombardia
+017016;A816;Berzo Demo;;BS;Lombardia
+017017;A817;Berzo Inferiore;;BS;Lombardia
+017018;A861;Bienno;;BS;Lombardia
+017019;A878;Bione;;BS;Lombardia
+017020;B035;Borgo San Giacomo;;BS;Lombardia
+017021;B040;Borgosatollo;;BS;Lombardia
+017022;B054;Borno;;BS;Lombardia
+017023;B091;Botticino;;BS;Lombardia
+017024;B100;Bovegno;;BS;Lombardia
+017025;B102;Bovezzo;;BS;Lombardia
+017026;B120;Brandico;;BS;Lombardia
+017027;B124;Braone;;BS;Lombardia
+017028;B149;Breno;;BS;Lombardia
+017029;B157;Brescia;;BS;Lombardia
+017030;B184;Brione;;BS;Lombardia
+017031;B365;Caino;;BS;Lombardia
+017032;B394;Calcinato;;BS;Lombardia
+017033;B436;Calvagese della Riviera;;BS;Lombardia
+017034;B450;Calvisano;;BS;Lombardia
+017035;B664;Capo di Ponte;;BS;Lombardia
+017036;B676;Capovalle;;BS;Lombardia
+017037;B698;Capriano del Colle;;BS;Lombardia
+017038;B711;Capriolo;;BS;Lombardia
+017039;B817;Carpenedolo;;BS;Lombardia
+017040;C055;Castegnato;;BS;Lombardia
+017041;C072;Castelcovati;;BS;Lombardia
+017042;C208;Castel Mella;;BS;Lombardia
+017043;C293;Castenedolo;;BS;Lombardia
+017044;C330;Casto;;BS;Lombardia
+017045;C332;Castrezzato;;BS;Lombardia
+017046;C408;Cazzago San Martino;;BS;Lombardia
+017047;C417;Cedegolo;;BS;Lombardia
+017048;C439;Cellatica;;BS;Lombardia
+017049;C549;Cerveno;;BS;Lombardia
+017050;C585;Ceto;;BS;Lombardia
+017051;C591;Cevo;;BS;Lombardia
+017052;C618;Chiari;;BS;Lombardia
+017053;C685;Cigole;;BS;Lombardia
+017054;C691;Cimbergo;;BS;Lombardia
+017055;C760;Cividate Camuno;;BS;Lombardia
+017056;C806;Coccaglio;;BS;Lombardia
+017057;C850;Collebeato;;BS;Lombardia
+017058;C883;Collio;;BS;Lombardia
+017059;C893;Cologne;;BS;Lombardia
+017060;C925;Comezzano-Cizzago;;BS;Lombardia
+017061;C948;Concesio;;BS;Lombardia
+017062;D058;Corte Franca;;BS;Lombardia
+017063;D064;Corteno Golgi;;BS;Lombardia
+017064;D082;Corzano;;BS;Lombardia
+017065;D251;Darfo Boario Terme;;BS;Lombardia
+017066;D270;Dello;;BS;Lombardia
+017067;D284;Desenzano del Garda;;BS;Lombardia
+017068;D391;Edolo;;BS;Lombardia
+017069;D421;Erbusco;;BS;Lombardia
+017070;D434;Esine;;BS;Lombardia
+017071;D576;Fiesse;;BS;Lombardia
+017072;D634;Flero;;BS;Lombardia
+017073;D891;Gambara;;BS;Lombardia
+017074;D917;Gardone Riviera;;BS;Lombardia
+017075;D918;Gardone Val Trompia;;BS;Lombardia
+017076;D924;Gargnano;;BS;Lombardia
+017077;D940;Gavardo;;BS;Lombardia
+017078;D999;Ghedi;;BS;Lombardia
+017079;E010;Gianico;;BS;Lombardia
+017080;E116;Gottolengo;;BS;Lombardia
+017081;E271;Gussago;;BS;Lombardia
+017082;E280;Idro;;BS;Lombardia
+017083;E297;Incudine;;BS;Lombardia
+017084;E325;Irma;;BS;Lombardia
+017085;E333;Iseo;;BS;Lombardia
+017086;E364;Isorella;;BS;Lombardia
+017087;E497;Lavenone;;BS;Lombardia
+017088;E526;Leno;;BS;Lombardia
+017089;E596;Limone sul Garda;;BS;Lombardia
+017090;E652;Lodrino;;BS;Lombardia
+017091;E654;Lograto;;BS;Lombardia
+017092;M312;Lonato del Garda;;BS;Lombardia
+017093;E673;Longhena;;BS;Lombardia
+017094;E698;Losine;;BS;Lombardia
+017095;E706;Lozio;;BS;Lombardia
+017096;E738;Lumezzane;;BS;Lombardia
+017097;E787;Maclodio;;BS;Lombardia
+017098;E800;Magasa;;BS;Lombardia
+017099;E841;Mairano;;BS;Lombardia
+017100;E851;Malegno;;BS;Lombardia
+017101;E865;Malonno;;BS;Lombardia
+017102;E883;Manerba del Garda;;BS;Lombardia
+017103;E884;Manerbio;;BS;Lombardia
+017104;E928;Marcheno;;BS;Lombardia
+017105;E961;Marmentino;;BS;Lombardia
+017106;E967;Marone;;BS;Lombardia
+017107;F063;Mazzano;;BS;Lombardia
+017108;F216;Milzano;;BS;Lombardia
+017109;F373;Moniga del Garda;;BS;Lombardia
+017110;F375;Monno;;BS;Lombardia
+017111;F532;Monte Isola;;BS;Lombardia
+017112;F672;Monticelli Brusati;;BS;Lombardia
+017113;F471;Montichiari;;BS;Lombardia
+017114;F680;Montirone;;BS;Lombardia
+017115;F806;Mura;;BS;Lombardia
+017116;F820;Muscoline;;BS;Lombardia
+017117;F851;Nave;;BS;Lombardia
+017118;F884;Niardo;;BS;Lombardia
+017119;F989;Nuvolento;;BS;Lombardia
+017120;F990;Nuvolera;;BS;Lombardia
+017121;G001;Odolo;;BS;Lombardia
+017122;G006;Offlaga;;BS;Lombardia
+017123;G061;Ome;;BS;Lombardia
+017124;G074;Ono San Pietro;;BS;Lombardia
+017125;G149;Orzinuovi;;BS;Lombardia
+017126;G150;Orzivecchi;;BS;Lombardia
+017127;G170;Ospitaletto;;BS;Lombardia
+017128;G179;Ossimo;;BS;Lombardia
+017129;G213;Padenghe sul Garda;;BS;Lombardia
+017130;G217;Paderno Franciacorta;;BS;Lombardia
+017131;G247;Paisco Loveno;;BS;Lombardia
+017132;G248;Paitone;;BS;Lombardia
+017133;G264;Palazzolo sull'Oglio;;BS;Lombardia
+017134;G327;Paratico;;BS;Lombardia
+017135;G354;Paspardo;;BS;Lombardia
+017136;G361;Passirano;;BS;Lombardia
+017137;G391;Pavone del Mella;;BS;Lombardia
+017138;G407;San Paolo;;BS;Lombardia
+017139;G474;Pertica Alta;;BS;Lombardia
+017140;G475;Pertica Bassa;;BS;Lombardia
+017141;G529;Pezzaze;;BS;Lombardia
+017142;G546;Pian Camuno;;BS;Lombardia
+017143;G710;Pisogne;;BS;Lombardia
+017144;G779;Polaveno;;BS;Lombardia
+017145;G801;Polpenazze del Garda;;BS;Lombardia
+017146;G815;Pompiano;;BS;Lombardia
+017147;G818;Poncarale;;BS;Lombardia
+017148;G844;Ponte di Legno;;BS;Lombardia
+017149;G859;Pontevico;;BS;Lombardia
+017150;G869;Pontoglio;;BS;Lombardia
+017151;G959;Pozzolengo;;BS;Lombardia
+017152;G977;Pralboino;;BS;Lombardia
+017153;H043;Preseglie;;BS;Lombardia
+017155;H055;Prevalle;;BS;Lombardia
+017156;H078;Provaglio d'Iseo;;BS;Lombardia
+017157;H077;Provaglio Val Sabbia;;BS;Lombardia
+017158;H086;Puegnago del Garda;;BS;Lombardia
+017159;H140;Quinzano d'Oglio;;BS;Lombardia
+017160;H230;Remedello;;BS;Lombardia
+017161;H256;Rezzato;;BS;Lombardia
+017162;H410;Roccafranca;;BS;Lombardia
+017163;H477;Rodengo Saiano;;BS;Lombardia
+017164;H484;Roè Volciano;;BS;Lombardia
+017165;H525;Roncadelle;;BS;Lombardia
+017166;H598;Rovato;;BS;Lombardia
+017167;H630;Rudiano;;BS;Lombardia
+017168;H650;Sabbio Chiese;;BS;Lombardia
+017169;H699;Sale Marasino;;BS;Lombardia
+017170;H717;Salò;;BS;Lombardia
+017171;H838;San Felice del Benaco;;BS;Lombardia
+017172;H865;San Gervasio Bresciano;;BS;Lombardia
+017173;I412;San Zeno Naviglio;;BS;Lombardia
+017174;I433;Sarezzo;;BS;Lombardia
+017175;I476;Saviore dell'Adamello;;BS;Lombardia
+017176;I588;Sellero;;BS;Lombardia
+017177;I607;Seniga;;BS;Lombardia
+017178;I631;Serle;;BS;Lombardia
+017179;I633;Sirmione;;BS;Lombardia
+017180;I782;Soiano del Lago;;BS;Lombardia
+017181;I831;Sonico;;BS;Lombardia
+017182;L002;Sulzano;;BS;Lombardia
+017183;C698;Tavernole sul Mella;;BS;Lombardia
+017184;L094;Temù;;BS;Lombardia
+017185;L169;Tignale;;BS;Lombardia
+017186;L210;Torbole Casaglia;;BS;Lombardia
+017187;L312;Toscolano-Maderno;;BS;Lombardia
+017188;L339;Travagliato;;BS;Lombardia
+017189;L372;Tremosine sul Garda;;BS;Lombardia
+017190;L380;Trenzano;;BS;Lombardia
+017191;L406;Treviso Bresciano;;BS;Lombardia
+017192;L494;Urago d'Oglio;;BS;Lombardia
+017193;L626;Vallio Terme;;BS;Lombardia
+017194;L468;Valvestino;;BS;Lombardia
+017195;L777;Verolanuova;;BS;Lombardia
+017196;L778;Verolavecchia;;BS;Lombardia
+017197;L812;Vestone;;BS;Lombardia
+017198;L816;Vezza d'Oglio;;BS;Lombardia
+017199;L919;Villa Carcina;;BS;Lombardia
+017200;L923;Villachiara;;BS;Lombardia
+017201;L995;Villanuova sul Clisi;;BS;Lombardia
+017202;M065;Vione;;BS;Lombardia
+017203;M070;Visano;;BS;Lombardia
+017204;M104;Vobarno;;BS;Lombardia
+017205;M188;Zone;;BS;Lombardia
+017206;G549;Piancogno;;BS;Lombardia
+018001;A118;Alagna;;PV;Lombardia
+018002;A134;Albaredo Arnaboldi;;PV;Lombardia
+018003;A171;Albonese;;PV;Lombardia
+018004;A175;Albuzzano;;PV;Lombardia
+018005;A387;Arena Po;;PV;Lombardia
+018006;A538;Badia Pavese;;PV;Lombardia
+018007;A550;Bagnaria;;PV;Lombardia
+018008;A634;Barbianello;;PV;Lombardia
+018009;A690;Bascapè;;PV;Lombardia
+018011;A712;Bastida Pancarana;;PV;Lombardia
+018012;A718;Battuda;;PV;Lombardia
+018013;A741;Belgioioso;;PV;Lombardia
+018014;A792;Bereguardo;;PV;Lombardia
+018015;A989;Borgarello;;PV;Lombardia
+018016;B028;Borgo Priolo;;PV;Lombardia
+018017;B030;Borgoratto Mormorolo;;PV;Lombardia
+018018;B038;Borgo San Siro;;PV;Lombardia
+018019;B051;Bornasco;;PV;Lombardia
+018020;B082;Bosnasco;;PV;Lombardia
+018021;B117;Brallo di Pregola;;PV;Lombardia
+018022;B142;Breme;;PV;Lombardia
+018023;B159;Bressana Bottarone;;PV;Lombardia
+018024;B201;Broni;;PV;Lombardia
+018025;B447;Calvignano;;PV;Lombardia
+018026;B567;Campospinoso;;PV;Lombardia
+018027;B587;Candia Lomellina;;PV;Lombardia
+018029;B613;Canneto Pavese;;PV;Lombardia
+018030;B741;Carbonara al Ticino;;PV;Lombardia
+018031;B929;Casanova Lonati;;PV;Lombardia
+018032;B945;Casatisma;;PV;Lombardia
+018033;B954;Casei Gerola;;PV;Lombardia
+018034;B988;Casorate Primo;;PV;Lombardia
+018035;C038;Cassolnovo;;PV;Lombardia
+018036;C050;Castana;;PV;Lombardia
+018037;C053;Casteggio;;PV;Lombardia
+018038;C157;Castelletto di Branduzzo;;PV;Lombardia
+018039;C184;Castello d'Agogna;;PV;Lombardia
+018040;C213;Castelnovetto;;PV;Lombardia
+018041;C360;Cava Manara;;PV;Lombardia
+018042;C414;Cecima;;PV;Lombardia
+018043;C484;Ceranova;;PV;Lombardia
+018044;C508;Ceretto Lomellina;;PV;Lombardia
+018045;C509;Cergnago;;PV;Lombardia
+018046;C541;Certosa di Pavia;;PV;Lombardia
+018047;C551;Cervesina;;PV;Lombardia
+018048;C637;Chignolo Po;;PV;Lombardia
+018049;C684;Cigognola;;PV;Lombardia
+018050;C686;Cilavegna;;PV;Lombardia
+018051;C813;Codevilla;;PV;Lombardia
+018052;C958;Confienza;;PV;Lombardia
+018053;C979;Copiano;;PV;Lombardia
+018054;C982;Corana;;PV;Lombardia
+018057;D081;Corvino San Quirico;;PV;Lombardia
+018058;D109;Costa de' Nobili;;PV;Lombardia
+018059;D127;Cozzo;;PV;Lombardia
+018060;B824;Cura Carpignano;;PV;Lombardia
+018061;D348;Dorno;;PV;Lombardia
+018062;D552;Ferrera Erbognone;;PV;Lombardia
+018063;D594;Filighera;;PV;Lombardia
+018064;D732;Fortunago;;PV;Lombardia
+018065;D771;Frascarolo;;PV;Lombardia
+018066;D873;Galliavola;;PV;Lombardia
+018067;D892;Gambarana;;PV;Lombardia
+018068;D901;Gambolò;;PV;Lombardia
+018069;D925;Garlasco;;PV;Lombardia
+018071;D980;Gerenzago;;PV;Lombardia
+018072;E062;Giussago;;PV;Lombardia
+018073;E072;Godiasco Salice Terme;;PV;Lombardia
+018074;E081;Golferenzo;;PV;Lombardia
+018075;E152;Gravellona Lomellina;;PV;Lombardia
+018076;E195;Gropello Cairoli;;PV;Lombardia
+018077;E310;Inverno e Monteleone;;PV;Lombardia
+018078;E437;Landriano;;PV;Lombardia
+018079;E439;Langosco;;PV;Lombardia
+018080;E454;Lardirago;;PV;Lombardia
+018081;E600;Linarolo;;PV;Lombardia
+018082;E608;Lirio;;PV;Lombardia
+018083;E662;Lomello;;PV;Lombardia
+018084;B387;Lungavilla;;PV;Lombardia
+018085;E804;Magherno;;PV;Lombardia
+018086;E934;Marcignago;;PV;Lombardia
+018087;E999;Marzano;;PV;Lombardia
+018088;F080;Mede;;PV;Lombardia
+018089;F122;Menconico;;PV;Lombardia
+018090;F170;Mezzana Bigli;;PV;Lombardia
+018091;F171;Mezzana Rabattone;;PV;Lombardia
+018092;F175;Mezzanino;;PV;Lombardia
+018093;F238;Miradolo Terme;;PV;Lombardia
+018094;F417;Montalto Pavese;;PV;Lombardia
+018095;F440;Montebello della Battaglia;;PV;Lombardia
+018096;F449;Montecalvo Versiggia;;PV;Lombardia
+018097;F638;Montescano;;PV;Lombardia
+018098;F644;Montesegale;;PV;Lombardia
+018099;F670;Monticelli Pavese;;PV;Lombardia
+018100;F701;Montù Beccaria;;PV;Lombardia
+018101;F739;Mornico Losana;;PV;Lombardia
+018102;F754;Mortara;;PV;Lombardia
+018103;F891;Nicorvo;;PV;Lombardia
+018104;G021;Olevano di Lomellina;;PV;Lombardia
+018105;G032;Oliva Gessi;;PV;Lombardia
+018106;G194;Ottobiano;;PV;Lombardia
+018107;G275;Palestro;;PV;Lombardia
+018108;G304;Pancarana;;PV;Lombardia
+018109;G342;Parona;;PV;Lombardia
+018110;G388;Pavia;;PV;Lombardia
+018111;G612;Pietra de' Giorgi;;PV;Lombardia
+018112;G635;Pieve Albignola;;PV;Lombardia
+018113;G639;Pieve del Cairo;;PV;Lombardia
+018114;G650;Pieve Porto Morone;;PV;Lombardia
+018115;G671;Pinarolo Po;;PV;Lombardia
+018116;G720;Pizzale;;PV;Lombardia
+018117;G851;Ponte Nizza;;PV;Lombardia
+018118;G895;Portalbera;;PV;Lombardia
+018119;H204;Rea;;PV;Lombardia
+018120;H216;Redavalle;;PV;Lombardia
+018121;H246;Retorbido;;PV;Lombardia
+018122;H336;Rivanazzano Terme;;PV;Lombardia
+018123;H369;Robbio;;PV;Lombardia
+018124;H375;Robecco Pavese;;PV;Lombardia
+018125;H396;Rocca de' Giorgi;;PV;Lombardia
+018126;H450;Rocca Susella;;PV;Lombardia
+018127;H491;Rognano;;PV;Lombardia
+018128;H505;Romagnese;;PV;Lombardia
+018129;H527;Roncaro;;PV;Lombardia
+018130;H559;Rosasco;;PV;Lombardia
+018131;H614;Rovescala;;PV;Lombardia
+018133;H799;San Cipriano Po;;PV;Lombardia
+018134;H814;San Damiano al Colle;;PV;Lombardia
+018135;H859;San Genesio ed Uniti;;PV;Lombardia
+018136;H885;San Giorgio di Lomellina;;PV;Lombardia
+018137;I014;San Martino Siccomario;;PV;Lombardia
+018138;I048;Sannazzaro de' Burgondi;;PV;Lombardia
+018139;I175;Santa Cristina e Bissone;;PV;Lombardia
+018140;I203;Santa Giuletta;;PV;Lombardia
+018141;I213;Sant'Alessio con Vialone;;PV;Lombardia
+018142;I230;Santa Margherita di Staffora;;PV;Lombardia
+018143;I237;Santa Maria della Versa;;PV;Lombardia
+018144;I276;Sant'Angelo Lomellina;;PV;Lombardia
+018145;I416;San Zenone al Po;;PV;Lombardia
+018146;I447;Sartirana Lomellina;;PV;Lombardia
+018147;I487;Scaldasole;;PV;Lombardia
+018148;I599;Semiana;;PV;Lombardia
+018149;I739;Silvano Pietra;;PV;Lombardia
+018150;E265;Siziano;;PV;Lombardia
+018151;I825;Sommo;;PV;Lombardia
+018152;I894;Spessa;;PV;Lombardia
+018153;I968;Stradella;;PV;Lombardia
+018154;B014;Suardi;;PV;Lombardia
+018155;L237;Torrazza Coste;;PV;Lombardia
+018156;L250;Torre Beretti e Castellaro;;PV;Lombardia
+018157;L256;Torre d'Arese;;PV;Lombardia
+018158;L262;Torre de' Negri;;PV;Lombardia
+018159;L269;Torre d'Isola;;PV;Lombardia
+018160;L285;Torrevecchia Pia;;PV;Lombardia
+018161;L292;Torricella Verzate;;PV;Lombardia
+018162;I236;Travacò Siccomario;;PV;Lombardia
+018163;L440;Trivolzio;;PV;Lombardia
+018164;L449;Tromello;;PV;Lombardia
+018165;L453;Trovo;;PV;Lombardia
+018166;L562;Val di Nizza;;PV;Lombardia
+018167;L568;Valeggio;;PV;Lombardia
+018168;L593;Valle Lomellina;;PV;Lombardia
+018169;L617;Valle Salimbene;;PV;Lombardia
+018171;L690;Varzi;;PV;Lombardia
+018172;L716;Velezzo Lomellina;;PV;Lombardia
+018173;L720;Vellezzo Bellini;;PV;Lombardia
+018174;L784;Verretto;;PV;Lombardia
+018175;L788;Verrua Po;;PV;Lombardia
+018176;L854;Vidigulfo;;PV;Lombardia
+018177;L872;Vigevano;;PV;Lombardia
+018178;L917;Villa Biscossi;;PV;Lombardia
+018179;L983;Villanova d'Ardenghi;;PV;Lombardia
+018180;L994;Villanterio;;PV;Lombardia
+018181;M079;Vistarino;;PV;Lombardia
+018182;M109;Voghera;;PV;Lombardia
+018183;M119;Volpara;;PV;Lombardia
+018184;M150;Zavattarello;;PV;Lombardia
+018185;M152;Zeccone;;PV;Lombardia
+018186;M161;Zeme;;PV;Lombardia
+018187;M162;Zenevredo;;PV;Lombardia
+018188;M166;Zerbo;;PV;Lombardia
+018189;M167;Zerbolò;;PV;Lombardia
+018190;M180;Zinasco;;PV;Lombardia
+018191;M338;Cornale e Bastida;;PV;Lombardia
+018192;M372;Corteolona e Genzone;;PV;Lombardia
+018193;M419;Colli Verdi;;PV;Lombardia
+019001;A039;Acquanegra Cremonese;;CR;Lombardia
+019002;A076;Agnadello;;CR;Lombardia
+019003;A299;Annicco;;CR;Lombardia
+019004;A526;Azzanello;;CR;Lombardia
+019005;A570;Bagnolo Cremasco;;CR;Lombardia
+019006;A972;Bonemerse;;CR;Lombardia
+019007;A986;Bordolano;;CR;Lombardia
+019009;B439;Calvatone;;CR;Lombardia
+019010;B484;Camisano;;CR;Lombardia
+019011;B498;Campagnola Cremasca;;CR;Lombardia
+019012;B650;Capergnanica;;CR;Lombardia
+019013;B679;Cappella Cantone;;CR;Lombardia
+019014;B680;Cappella de' Picenardi;;CR;Lombardia
+019015;B686;Capralba;;CR;Lombardia
+019016;B869;Casalbuttano ed Uniti;;CR;Lombardia
+019017;B881;Casale Cremasco-Vidolasco;;CR;Lombardia
+019018;B889;Casaletto Ceredano;;CR;Lombardia
+019019;B890;Casaletto di Sopra;;CR;Lombardia
+019020;B891;Casaletto Vaprio;;CR;Lombardia
+019021;B898;Casalmaggiore;;CR;Lombardia
+019022;B900;Casalmorano;;CR;Lombardia
+019023;C089;Casteldidone;;CR;Lombardia
+019024;C115;Castel Gabbiano;;CR;Lombardia
+019025;C153;Castelleone;;CR;Lombardia
+019026;B129;Castelverde;;CR;Lombardia
+019027;C290;Castelvisconti;;CR;Lombardia
+019028;C435;Cella Dati;;CR;Lombardia
+019029;C634;Chieve;;CR;Lombardia
+019030;C678;Cicognolo;;CR;Lombardia
+019031;C703;Cingia de' Botti;;CR;Lombardia
+019032;D056;Corte de' Cortesi con Cignone;;CR;Lombardia
+019033;D057;Corte de' Frati;;CR;Lombardia
+019034;D141;Credera Rubbiano;;CR;Lombardia
+019035;D142;Crema;;CR;Lombardia
+019036;D150;Cremona;;CR;Lombardia
+019037;D151;Cremosano;;CR;Lombardia
+019038;D186;Crotta d'Adda;;CR;Lombardia
+019039;D203;Cumignano sul Naviglio;;CR;Lombardia
+019040;D278;Derovere;;CR;Lombardia
+019041;D358;Dovera;;CR;Lombardia
+019043;D574;Fiesco;;CR;Lombardia
+019044;D710;Formigara;;CR;Lombardia
+019045;D834;Gabbioneta-Binanuova;;CR;Lombardia
+019046;D841;Gadesco-Pieve Delmona;;CR;Lombardia
+019047;D966;Genivolta;;CR;Lombardia
+019048;D993;Gerre de' Caprioli;;CR;Lombardia
+019049;E082;Gombito;;CR;Lombardia
+019050;E193;Grontardo;;CR;Lombardia
+019051;E217;Grumello Cremonese ed Uniti;;CR;Lombardia
+019052;E272;Gussola;;CR;Lombardia
+019053;E356;Isola Dovarese;;CR;Lombardia
+019054;E380;Izano;;CR;Lombardia
+019055;E793;Madignano;;CR;Lombardia
+019056;E843;Malagnino;;CR;Lombardia
+019057;E983;Martignana di Po;;CR;Lombardia
+019058;F434;Monte Cremasco;;CR;Lombardia
+019059;F681;Montodine;;CR;Lombardia
+019060;F761;Moscazzano;;CR;Lombardia
+019061;F771;Motta Baluffi;;CR;Lombardia
+019062;G004;Offanengo;;CR;Lombardia
+019063;G047;Olmeneta;;CR;Lombardia
+019064;G185;Ostiano;;CR;Lombardia
+019065;G222;Paderno Ponchielli;;CR;Lombardia
+019066;G260;Palazzo Pignano;;CR;Lombardia
+019067;G306;Pandino;;CR;Lombardia
+019068;G469;Persico Dosimo;;CR;Lombardia
+019069;G483;Pescarolo ed Uniti;;CR;Lombardia
+019070;G504;Pessina Cremonese;;CR;Lombardia
+019072;G558;Pianengo;;CR;Lombardia
+019073;G603;Pieranica;;CR;Lombardia
+019074;G647;Pieve d'Olmi;;CR;Lombardia
+019075;G651;Pieve San Giacomo;;CR;Lombardia
+019076;G721;Pizzighettone;;CR;Lombardia
+019077;B914;Pozzaglio ed Uniti;;CR;Lombardia
+019078;H130;Quintano;;CR;Lombardia
+019079;H276;Ricengo;;CR;Lombardia
+019080;H314;Ripalta Arpina;;CR;Lombardia
+019081;H315;Ripalta Cremasca;;CR;Lombardia
+019082;H316;Ripalta Guerina;;CR;Lombardia
+019083;H341;Rivarolo del Re ed Uniti;;CR;Lombardia
+019084;H357;Rivolta d'Adda;;CR;Lombardia
+019085;H372;Robecco d'Oglio;;CR;Lombardia
+019086;H508;Romanengo;;CR;Lombardia
+019087;H731;Salvirola;;CR;Lombardia
+019088;H767;San Bassano;;CR;Lombardia
+019089;H815;San Daniele Po;;CR;Lombardia
+019090;H918;San Giovanni in Croce;;CR;Lombardia
+019091;I007;San Martino del Lago;;CR;Lombardia
+019092;I497;Scandolara Ravara;;CR;Lombardia
+019093;I498;Scandolara Ripa d'Oglio;;CR;Lombardia
+019094;I627;Sergnano;;CR;Lombardia
+019095;I683;Sesto ed Uniti;;CR;Lombardia
+019096;I790;Solarolo Rainerio;;CR;Lombardia
+019097;I827;Soncino;;CR;Lombardia
+019098;I849;Soresina;;CR;Lombardia
+019099;I865;Sospiro;;CR;Lombardia
+019100;I906;Spinadesco;;CR;Lombardia
+019101;I909;Spineda;;CR;Lombardia
+019102;I914;Spino d'Adda;;CR;Lombardia
+019103;I935;Stagno Lombardo;;CR;Lombardia
+019104;L164;Ticengo;;CR;Lombardia
+019105;L221;Torlino Vimercati;;CR;Lombardia
+019106;L225;Tornata;;CR;Lombardia
+019107;L258;Torre de' Picenardi;;CR;Lombardia
+019108;L296;Torricella del Pizzo;;CR;Lombardia
+019109;L389;Trescore Cremasco;;CR;Lombardia
+019110;L426;Trigolo;;CR;Lombardia
+019111;L535;Vaiano Cremasco;;CR;Lombardia
+019112;L539;Vailate;;CR;Lombardia
+019113;L806;Vescovato;;CR;Lombardia
+019114;M116;Volongo;;CR;Lombardia
+019115;M127;Voltido;;CR;Lombardia
+019116;M418;Piadena Drizzona;;CR;Lombardia
+020001;A038;Acquanegra sul Chiese;;MN;Lombardia
+020002;A470;Asola;;MN;Lombardia
+020003;A575;Bagnolo San Vito;;MN;Lombardia
+020007;B110;Bozzolo;;MN;Lombardia
+020008;B612;Canneto sull'Oglio;;MN;Lombardia
+020010;B901;Casalmoro;;MN;Lombardia
+020011;B907;Casaloldo;;MN;Lombardia
+020012;B911;Casalromano;;MN;Lombardia
+020013;C059;Castelbelforte;;MN;Lombardia
+020014;C076;Castel d'Ario;;MN;Lombardia
+020015;C118;Castel Goffredo;;MN;Lombardia
+020016;C195;Castellucchio;;MN;Lombardia
+020017;C312;Castiglione delle Stiviere;;MN;Lombardia
+020018;C406;Cavriana;;MN;Lombardia
+020019;C502;Ceresara;;MN;Lombardia
+020020;C930;Commessaggio;;MN;Lombardia
+020021;D227;Curtatone;;MN;Lombardia
+020022;D351;Dosolo;;MN;Lombardia
+020024;D949;Gazoldo degli Ippoliti;;MN;Lombardia
+020025;D959;Gazzuolo;;MN;Lombardia
+020026;E078;Goito;;MN;Lombardia
+020027;E089;Gonzaga;;MN;Lombardia
+020028;E261;Guidizzolo;;MN;Lombardia
+020029;E818;Magnacavallo;;MN;Lombardia
+020030;E897;Mantova;;MN;Lombardia
+020031;E922;Marcaria;;MN;Lombardia
+020032;E949;Mariana Mantovana;;MN;Lombardia
+020033;E962;Marmirolo;;MN;Lombardia
+020034;F086;Medole;;MN;Lombardia
+020035;F267;Moglia;;MN;Lombardia
+020036;F705;Monzambano;;MN;Lombardia
+020037;B012;Motteggiana;;MN;Lombardia
+020038;G186;Ostiglia;;MN;Lombardia
+020039;G417;Pegognaga;;MN;Lombardia
+020041;G717;Piubega;;MN;Lombardia
+020042;G753;Poggio Rusco;;MN;Lombardia
+020043;G816;Pomponesco;;MN;Lombardia
+020044;G862;Ponti sul Mincio;;MN;Lombardia
+020045;G917;Porto Mantovano;;MN;Lombardia
+020046;H129;Quingentole;;MN;Lombardia
+020047;H143;Quistello;;MN;Lombardia
+020048;H218;Redondesco;;MN;Lombardia
+020050;H342;Rivarolo Mantovano;;MN;Lombardia
+020051;H481;Rodigo;;MN;Lombardia
+020052;H541;Roncoferraro;;MN;Lombardia
+020053;H604;Roverbella;;MN;Lombardia
+020054;H652;Sabbioneta;;MN;Lombardia
+020055;H771;San Benedetto Po;;MN;Lombardia
+020056;H870;San Giacomo delle Segnate;;MN;Lombardia
+020057;H883;San Giorgio Bigarello;;MN;Lombardia
+020058;H912;San Giovanni del Dosso;;MN;Lombardia
+020059;I005;San Martino dall'Argine;;MN;Lombardia
+020060;I532;Schivenoglia;;MN;Lombardia
+020061;I632;Sermide e Felonica;;MN;Lombardia
+020062;I662;Serravalle a Po;;MN;Lombardia
+020063;I801;Solferino;;MN;Lombardia
+020064;L015;Sustinente;;MN;Lombardia
+020065;L020;Suzzara;;MN;Lombardia
+020066;L826;Viadana;;MN;Lombardia
+020068;M044;Villimpenta;;MN;Lombardia
+020070;M125;Volta Mantovana;;MN;Lombardia
+020071;M340;Borgo Virgilio;;MN;Lombardia
+020072;M396;Borgo Mantovano;;MN;Lombardia
+020073;M406;Borgocarbonara;;MN;Lombardia
+021001;A179;Aldino;Aldein;BZ;Trentino-Alto Adige/Südtirol
+021002;A286;Andriano;Andrian;BZ;Trentino-Alto Adige/Südtirol
+021003;A306;Anterivo;Altrei;BZ;Trentino-Alto Adige/Südtirol
+021004;A332;Appiano sulla strada del vino;Eppan an der Weinstraße;BZ;Trentino-Alto Adige/Südtirol
+021005;A507;Avelengo;Hafling;BZ;Trentino-Alto Adige/Südtirol
+021006;A537;Badia;Abtei;BZ;Trentino-Alto Adige/Südtirol
+021007;A635;Barbiano;Barbian;BZ;Trentino-Alto Adige/Südtirol
+021008;A952;Bolzano;Bozen;BZ;Trentino-Alto Adige/Südtirol
+021009;B116;Braies;Prags;BZ;Trentino-Alto Adige/Südtirol
+021010;B145;Brennero;Brenner;BZ;Trentino-Alto Adige/Südtirol
+021011;B160;Bressanone;Brixen;BZ;Trentino-Alto Adige/Südtirol
+021012;B203;Bronzolo;Branzoll;BZ;Trentino-Alto Adige/Südtirol
+021013;B220;Brunico;Bruneck;BZ;Trentino-Alto Adige/Südtirol
+021014;B364;Caines;Kuens;BZ;Trentino-Alto Adige/Südtirol
+021015;B397;Caldaro sulla strada del vino;Kaltern an der Weinstraße;BZ;Trentino-Alto Adige/Südtirol
+021016;B529;Campo di Trens;Freienfeld;BZ;Trentino-Alto Adige/Südtirol
+021017;B570;Campo Tures;Sand in Taufers;BZ;Trentino-Alto Adige/Südtirol
+021018;C062;Castelbello-Ciardes;Kastelbell-Tschars;BZ;Trentino-Alto Adige/Südtirol
+021019;C254;Castelrotto;Kastelruth;BZ;Trentino-Alto Adige/Südtirol
+021020;A022;Cermes;Tscherms;BZ;Trentino-Alto Adige/Südtirol
+021021;C625;Chienes;Kiens;BZ;Trentino-Alto Adige/Südtirol
+021022;C652;Chiusa;Klausen;BZ;Trentino-Alto Adige/Südtirol
+021023;B799;Cornedo all'Isarco;Karneid;BZ;Trentino-Alto Adige/Südtirol
+021024;D048;Cortaccia sulla strada del vino;Kurtatsch an der Weinstraße;BZ;Trentino-Alto Adige/Südtirol
+021025;D075;Cortina sulla strada del vino;Kurtinig an der Weinstraße;BZ;Trentino-Alto Adige/Südtirol
+021026;D079;Corvara in Badia;Corvara;BZ;Trentino-Alto Adige/Südtirol
+021027;D222;Curon Venosta;Graun im Vinschgau;BZ;Trentino-Alto Adige/Südtirol
+021028;D311;Dobbiaco;Toblach;BZ;Trentino-Alto Adige/Südtirol
+021029;D392;Egna;Neumarkt;BZ;Trentino-Alto Adige/Südtirol
+021030;D484;Falzes;Pfalzen;BZ;Trentino-Alto Adige/Südtirol
+021031;D571;Fiè allo Sciliar;Völs am Schlern;BZ;Trentino-Alto Adige/Südtirol
+021032;D731;Fortezza;Franzensfeste;BZ;Trentino-Alto Adige/Südtirol
+021033;D821;Funes;Villnöß;BZ;Trentino-Alto Adige/Südtirol
+021034;D860;Gais;Gais;BZ;Trentino-Alto Adige/Südtirol
+021035;D923;Gargazzone;Gargazon;BZ;Trentino-Alto Adige/Südtirol
+021036;E069;Glorenza;Glurns;BZ;Trentino-Alto Adige/Südtirol
+021037;E398;Laces;Latsch;BZ;Trentino-Alto Adige/Südtirol
+021038;E412;Lagundo;Algund;BZ;Trentino-Alto Adige/Südtirol
+021039;E420;Laion;Lajen;BZ;Trentino-Alto Adige/Südtirol
+021040;E421;Laives;Leifers;BZ;Trentino-Alto Adige/Südtirol
+021041;E434;Lana;Lana;BZ;Trentino-Alto Adige/Südtirol
+021042;E457;Lasa;Laas;BZ;Trentino-Alto Adige/Südtirol
+021043;E481;Lauregno;Laurein;BZ;Trentino-Alto Adige/Südtirol
+021044;E764;Luson;Lüsen;BZ;Trentino-Alto Adige/Südtirol
+021045;E829;Magrè sulla strada del vino;Margreid an der Weinstraße;BZ;Trentino-Alto Adige/Südtirol
+021046;E862;Malles Venosta;Mals;BZ;Trentino-Alto Adige/Südtirol
+021047;E938;Marebbe;Enneberg;BZ;Trentino-Alto Adige/Südtirol
+021048;E959;Marlengo;Marling;BZ;Trentino-Alto Adige/Südtirol
+021049;E981;Martello;Martell;BZ;Trentino-Alto Adige/Südtirol
+021050;F118;Meltina;Mölten;BZ;Trentino-Alto Adige/Südtirol
+021051;F132;Merano;Meran;BZ;Trentino-Alto Adige/Südtirol
+021052;F371;Monguelfo-Tesido;Welsberg-Taisten;BZ;Trentino-Alto Adige/Südtirol
+021053;F392;Montagna;Montan;BZ;Trentino-Alto Adige/Südtirol
+021054;F766;Moso in Passiria;Moos in Passeier;BZ;Trentino-Alto Adige/Südtirol
+021055;F836;Nalles;Nals;BZ;Trentino-Alto Adige/Südtirol
+021056;F849;Naturno;Naturns;BZ;Trentino-Alto Adige/Südtirol
+021057;F856;Naz-Sciaves;Natz-Schabs;BZ;Trentino-Alto Adige/Südtirol
+021058;F949;Nova Levante;Welschnofen;BZ;Trentino-Alto Adige/Südtirol
+021059;F950;Nova Ponente;Deutschnofen;BZ;Trentino-Alto Adige/Südtirol
+021060;G083;Ora;Auer;BZ;Trentino-Alto Adige/Südtirol
+021061;G140;Ortisei;St. Ulrich;BZ;Trentino-Alto Adige/Südtirol
+021062;G328;Parcines;Partschins;BZ;Trentino-Alto Adige/Südtirol
+021063;G443;Perca;Percha;BZ;Trentino-Alto Adige/Südtirol
+021064;G299;Plaus;Plaus;BZ;Trentino-Alto Adige/Südtirol
+021065;G830;Ponte Gardena;Waidbruck;BZ;Trentino-Alto Adige/Südtirol
+021066;G936;Postal;Burgstall;BZ;Trentino-Alto Adige/Südtirol
+021067;H004;Prato allo Stelvio;Prad am Stilfserjoch;BZ;Trentino-Alto Adige/Südtirol
+021068;H019;Predoi;Prettau;BZ;Trentino-Alto Adige/Südtirol
+021069;H081;Proves;Proveis;BZ;Trentino-Alto Adige/Südtirol
+021070;H152;Racines;Ratschings;BZ;Trentino-Alto Adige/Südtirol
+021071;H189;Rasun-Anterselva;Rasen-Antholz;BZ;Trentino-Alto Adige/Südtirol
+021072;H236;Renon;Ritten;BZ;Trentino-Alto Adige/Südtirol
+021073;H284;Rifiano;Riffian;BZ;Trentino-Alto Adige/Südtirol
+021074;H299;Rio di Pusteria;Mühlbach;BZ;Trentino-Alto Adige/Südtirol
+021075;H475;Rodengo;Rodeneck;BZ;Trentino-Alto Adige/Südtirol
+021076;H719;Salorno;Salurn;BZ;Trentino-Alto Adige/Südtirol
+021077;H786;San Candido;Innichen;BZ;Trentino-Alto Adige/Südtirol
+021079;H858;San Genesio Atesino;Jenesien;BZ;Trentino-Alto Adige/Südtirol
+021080;H952;San Leonardo in Passiria;St. Leonhard in Passeier;BZ;Trentino-Alto Adige/Südtirol
+021081;H956;San Lorenzo di Sebato;St. Lorenzen;BZ;Trentino-Alto Adige/Südtirol
+021082;H988;San Martino in Badia;St. Martin in Thurn;BZ;Trentino-Alto Adige/Südtirol
+021083;H989;San Martino in Passiria;St. Martin in Passeier;BZ;Trentino-Alto Adige/Südtirol
+021084;I065;San Pancrazio;St. Pankraz;BZ;Trentino-Alto Adige/Südtirol
+021085;I173;Santa Cristina Valgardena;St. Christina in Gröden;BZ;Trentino-Alto Adige/Südtirol
+021086;I431;Sarentino;Sarntal;BZ;Trentino-Alto Adige/Südtirol
+021087;I519;Scena;Schenna;BZ;Trentino-Alto Adige/Südtirol
+021088;I593;Selva dei Molini;Mühlwald;BZ;Trentino-Alto Adige/Südtirol
+021089;I591;Selva di Val Gardena;Wolkenstein in Gröden;BZ;Trentino-Alto Adige/Südtirol
+021091;I604;Senales;Schnals;BZ;Trentino-Alto Adige/Südtirol
+021092;I687;Sesto;Sexten;BZ;Trentino-Alto Adige/Südtirol
+021093;I729;Silandro;Schlanders;BZ;Trentino-Alto Adige/Südtirol
+021094;I771;Sluderno;Schluderns;BZ;Trentino-Alto Adige/Südtirol
+021095;I948;Stelvio;Stilfs;BZ;Trentino-Alto Adige/Südtirol
+021096;L106;Terento;Terenten;BZ;Trentino-Alto Adige/Südtirol
+021097;L108;Terlano;Terlan;BZ;Trentino-Alto Adige/Südtirol
+021098;L111;Termeno sulla strada del vino;Tramin an der Weinstraße;BZ;Trentino-Alto Adige/Südtirol
+021099;L149;Tesimo;Tisens;BZ;Trentino-Alto Adige/Südtirol
+021100;L176;Tires;Tiers;BZ;Trentino-Alto Adige/Südtirol
+021101;L178;Tirolo;Tirol;BZ;Trentino-Alto Adige/Südtirol
+021102;L444;Trodena nel parco naturale;Truden im Naturpark;BZ;Trentino-Alto Adige/Südtirol
+021103;L455;Tubre;Taufers im Münstertal;BZ;Trentino-Alto Adige/Südtirol
+021104;L490;Ultimo;Ulten;BZ;Trentino-Alto Adige/Südtirol
+021105;L527;Vadena;Pfatten;BZ;Trentino-Alto Adige/Südtirol
+021106;L552;Valdaora;Olang;BZ;Trentino-Alto Adige/Südtirol
+021107;L564;Val di Vizze;Pfitsch;BZ;Trentino-Alto Adige/Südtirol
+021108;L595;Valle Aurina;Ahrntal;BZ;Trentino-Alto Adige/Südtirol
+021109;L601;Valle di Casies;Gsies;BZ;Trentino-Alto Adige/Südtirol
+021110;L660;Vandoies;Vintl;BZ;Trentino-Alto Adige/Südtirol
+021111;L687;Varna;Vahrn;BZ;Trentino-Alto Adige/Südtirol
+021112;L745;Verano;Vöran;BZ;Trentino-Alto Adige/Südtirol
+021113;L915;Villabassa;Niederdorf;BZ;Trentino-Alto Adige/Südtirol
+021114;L971;Villandro;Villanders;BZ;Trentino-Alto Adige/Südtirol
+021115;M067;Vipiteno;Sterzing;BZ;Trentino-Alto Adige/Südtirol
+021116;L724;Velturno;Feldthurns;BZ;Trentino-Alto Adige/Südtirol
+021117;E491;La Valle;Wengen;BZ;Trentino-Alto Adige/Südtirol
+021118;I603;Senale-San Felice;Unsere Liebe Frau im Walde-St. Felix;BZ;Trentino-Alto Adige/Südtirol
+022001;A116;Ala;;TN;Trentino-Alto Adige/Südtirol
+022002;A158;Albiano;;TN;Trentino-Alto Adige/Südtirol
+022003;A178;Aldeno;;TN;Trentino-Alto Adige/Südtirol
+022005;A274;Andalo;;TN;Trentino-Alto Adige/Südtirol
+022006;A372;Arco;;TN;Trentino-Alto Adige/Südtirol
+022007;A520;Avio;;TN;Trentino-Alto Adige/Südtirol
+022009;A694;Baselga di Pinè;;TN;Trentino-Alto Adige/Südtirol
+022011;A730;Bedollo;;TN;Trentino-Alto Adige/Südtirol
+022013;A821;Besenello;;TN;Trentino-Alto Adige/Südtirol
+022015;A863;Bieno;;TN;Trentino-Alto Adige/Südtirol
+022017;A902;Bleggio Superiore;;TN;Trentino-Alto Adige/Südtirol
+022018;A916;Bocenago;;TN;Trentino-Alto Adige/Südtirol
+022021;A968;Bondone;;TN;Trentino-Alto Adige/Südtirol
+022022;B006;Borgo Valsugana;;TN;Trentino-Alto Adige/Südtirol
+022025;B153;Brentonico;;TN;Trentino-Alto Adige/Südtirol
+022026;B158;Bresimo;;TN;Trentino-Alto Adige/Südtirol
+022029;B335;Caderzone Terme;;TN;Trentino-Alto Adige/Südtirol
+022032;B389;Calceranica al Lago;;TN;Trentino-Alto Adige/Südtirol
+022033;B400;Caldes;;TN;Trentino-Alto Adige/Südtirol
+022034;B404;Caldonazzo;;TN;Trentino-Alto Adige/Südtirol
+022035;B419;Calliano;;TN;Trentino-Alto Adige/Südtirol
+022036;B514;Campitello di Fassa;;TN;Trentino-Alto Adige/Südtirol
+022037;B525;Campodenno;;TN;Trentino-Alto Adige/Südtirol
+022038;B577;Canal San Bovo;;TN;Trentino-Alto Adige/Südtirol
+022039;B579;Canazei;;TN;Trentino-Alto Adige/Südtirol
+022040;B697;Capriana;;TN;Trentino-Alto Adige/Südtirol
+022042;B783;Carisolo;;TN;Trentino-Alto Adige/Südtirol
+022043;B856;Carzano;;TN;Trentino-Alto Adige/Südtirol
+022045;C183;Castel Condino;;TN;Trentino-Alto Adige/Südtirol
+022047;C189;Castello-Molina di Fiemme;;TN;Trentino-Alto Adige/Südtirol
+022048;C194;Castello Tesino;;TN;Trentino-Alto Adige/Südtirol
+022049;C216;Castelnuovo;;TN;Trentino-Alto Adige/Südtirol
+022050;C372;Cavalese;;TN;Trentino-Alto Adige/Südtirol
+022051;C380;Cavareno;;TN;Trentino-Alto Adige/Südtirol
+022052;C392;Cavedago;;TN;Trentino-Alto Adige/Südtirol
+022053;C393;Cavedine;;TN;Trentino-Alto Adige/Südtirol
+022054;C400;Cavizzana;;TN;Trentino-Alto Adige/Südtirol
+022058;C700;Cimone;;TN;Trentino-Alto Adige/Südtirol
+022059;C712;Cinte Tesino;;TN;Trentino-Alto Adige/Südtirol
+022060;C727;Cis;;TN;Trentino-Alto Adige/Südtirol
+022061;C756;Civezzano;;TN;Trentino-Alto Adige/Südtirol
+022062;C794;Cles;;TN;Trentino-Alto Adige/Südtirol
+022064;C931;Commezzadura;;TN;Trentino-Alto Adige/Südtirol
+022068;D188;Croviana;;TN;Trentino-Alto Adige/Südtirol
+022071;D246;Dambel;;TN;Trentino-Alto Adige/Südtirol
+022074;D273;Denno;;TN;Trentino-Alto Adige/Südtirol
+022078;D365;Drena;;TN;Trentino-Alto Adige/Südtirol
+022079;D371;Dro;;TN;Trentino-Alto Adige/Südtirol
+022081;D468;Fai della Paganella;;TN;Trentino-Alto Adige/Südtirol
+022083;D565;Fiavè;;TN;Trentino-Alto Adige/Südtirol
+022085;D573;Fierozzo;;TN;Trentino-Alto Adige/Südtirol
+022087;D651;Folgaria;;TN;Trentino-Alto Adige/Südtirol
+022089;D714;Fornace;;TN;Trentino-Alto Adige/Südtirol
+022090;D775;Frassilongo;;TN;Trentino-Alto Adige/Südtirol
+022091;D928;Garniga Terme;;TN;Trentino-Alto Adige/Südtirol
+022092;E048;Giovo;;TN;Trentino-Alto Adige/Südtirol
+022093;E065;Giustino;;TN;Trentino-Alto Adige/Südtirol
+022095;E178;Grigno;;TN;Trentino-Alto Adige/Südtirol
+022097;E288;Imer;;TN;Trentino-Alto Adige/Südtirol
+022098;E334;Isera;;TN;Trentino-Alto Adige/Südtirol
+022102;E492;Lavarone;;TN;Trentino-Alto Adige/Südtirol
+022103;E500;Lavis;;TN;Trentino-Alto Adige/Südtirol
+022104;E565;Levico Terme;;TN;Trentino-Alto Adige/Südtirol
+022106;E624;Livo;;TN;Trentino-Alto Adige/Südtirol
+022108;E664;Lona-Lases;;TN;Trentino-Alto Adige/Südtirol
+022109;E757;Luserna;;TN;Trentino-Alto Adige/Südtirol
+022110;E850;Malé;;TN;Trentino-Alto Adige/Südtirol
+022112;F045;Massimeno;;TN;Trentino-Alto Adige/Südtirol
+022113;F068;Mazzin;;TN;Trentino-Alto Adige/Südtirol
+022114;F168;Mezzana;;TN;Trentino-Alto Adige/Südtirol
+022115;F176;Mezzano;;TN;Trentino-Alto Adige/Südtirol
+022116;F183;Mezzocorona;;TN;Trentino-Alto Adige/Südtirol
+022117;F187;Mezzolombardo;;TN;Trentino-Alto Adige/Südtirol
+022118;F263;Moena;;TN;Trentino-Alto Adige/Südtirol
+022120;F307;Molveno;;TN;Trentino-Alto Adige/Südtirol
+022123;F728;Mori;;TN;Trentino-Alto Adige/Südtirol
+022124;F835;Nago-Torbole;;TN;Trentino-Alto Adige/Südtirol
+022127;F920;Nogaredo;;TN;Trentino-Alto Adige/Südtirol
+022128;F929;Nomi;;TN;Trentino-Alto Adige/Südtirol
+022129;F947;Novaledo;;TN;Trentino-Alto Adige/Südtirol
+022130;G168;Ospedaletto;;TN;Trentino-Alto Adige/Südtirol
+022131;G173;Ossana;;TN;Trentino-Alto Adige/Südtirol
+022133;G296;Palù del Fersina;;TN;Trentino-Alto Adige/Südtirol
+022134;G305;Panchià;;TN;Trentino-Alto Adige/Südtirol
+022135;M303;Ronzo-Chienis;;TN;Trentino-Alto Adige/Südtirol
+022136;G419;Peio;;TN;Trentino-Alto Adige/Südtirol
+022137;G428;Pellizzano;;TN;Trentino-Alto Adige/Südtirol
+022138;G429;Pelugo;;TN;Trentino-Alto Adige/Südtirol
+022139;G452;Pergine Valsugana;;TN;Trentino-Alto Adige/Südtirol
+022142;G656;Pieve Tesino;;TN;Trentino-Alto Adige/Südtirol
+022143;G681;Pinzolo;;TN;Trentino-Alto Adige/Südtirol
+022144;G808;Pomarolo;;TN;Trentino-Alto Adige/Südtirol
+022147;H018;Predazzo;;TN;Trentino-Alto Adige/Südtirol
+022150;H146;Rabbi;;TN;Trentino-Alto Adige/Südtirol
+022153;H330;Riva del Garda;;TN;Trentino-Alto Adige/Südtirol
+022155;H517;Romeno;;TN;Trentino-Alto Adige/Südtirol
+022156;H528;Roncegno Terme;;TN;Trentino-Alto Adige/Südtirol
+022157;H532;Ronchi Valsugana;;TN;Trentino-Alto Adige/Südtirol
+022159;H552;Ronzone;;TN;Trentino-Alto Adige/Südtirol
+022160;H607;Roverè della Luna;;TN;Trentino-Alto Adige/Südtirol
+022161;H612;Rovereto;;TN;Trentino-Alto Adige/Südtirol
+022162;H634;Ruffrè-Mendola;;TN;Trentino-Alto Adige/Südtirol
+022163;H639;Rumo;;TN;Trentino-Alto Adige/Südtirol
+022164;H666;Sagron Mis;;TN;Trentino-Alto Adige/Südtirol
+022165;H754;Samone;;TN;Trentino-Alto Adige/Südtirol
+022167;I042;San Michele all'Adige;;TN;Trentino-Alto Adige/Südtirol
+022168;I354;Sant'Orsola Terme;;TN;Trentino-Alto Adige/Südtirol
+022169;I411;Sanzeno;;TN;Trentino-Alto Adige/Südtirol
+022170;I439;Sarnonico;;TN;Trentino-Alto Adige/Südtirol
+022171;I554;Scurelle;;TN;Trentino-Alto Adige/Südtirol
+022172;I576;Segonzano;;TN;Trentino-Alto Adige/Südtirol
+022173;I714;Sfruz;;TN;Trentino-Alto Adige/Südtirol
+022176;I839;Soraga di Fassa;;TN;Trentino-Alto Adige/Südtirol
+022177;I871;Sover;;TN;Trentino-Alto Adige/Südtirol
+022179;I899;Spiazzo;;TN;Trentino-Alto Adige/Südtirol
+022180;I924;Spormaggiore;;TN;Trentino-Alto Adige/Südtirol
+022181;I925;Sporminore;;TN;Trentino-Alto Adige/Südtirol
+022182;I949;Stenico;;TN;Trentino-Alto Adige/Südtirol
+022183;I964;Storo;;TN;Trentino-Alto Adige/Südtirol
+022184;I975;Strembo;;TN;Trentino-Alto Adige/Südtirol
+022188;L089;Telve;;TN;Trentino-Alto Adige/Südtirol
+022189;L090;Telve di Sopra;;TN;Trentino-Alto Adige/Südtirol
+022190;L096;Tenna;;TN;Trentino-Alto Adige/Südtirol
+022191;L097;Tenno;;TN;Trentino-Alto Adige/Südtirol
+022193;L121;Terragnolo;;TN;Trentino-Alto Adige/Südtirol
+022195;L145;Terzolas;;TN;Trentino-Alto Adige/Südtirol
+022196;L147;Tesero;;TN;Trentino-Alto Adige/Südtirol
+022199;L174;Tione di Trento;;TN;Trentino-Alto Adige/Südtirol
+022200;L200;Ton;;TN;Trentino-Alto Adige/Südtirol
+022202;L211;Torcegno;;TN;Trentino-Alto Adige/Südtirol
+022203;L322;Trambileno;;TN;Trentino-Alto Adige/Südtirol
+022205;L378;Trento;;TN;Trentino-Alto Adige/Südtirol
+022209;L575;Valfloriana;;TN;Trentino-Alto Adige/Südtirol
+022210;L588;Vallarsa;;TN;Trentino-Alto Adige/Südtirol
+022213;L769;Vermiglio;;TN;Trentino-Alto Adige/Südtirol
+022216;L886;Vignola-Falesina;;TN;Trentino-Alto Adige/Südtirol
+022222;L957;Villa Lagarina;;TN;Trentino-Alto Adige/Südtirol
+022224;M113;Volano;;TN;Trentino-Alto Adige/Südtirol
+022226;M173;Ziano di Fiemme;;TN;Trentino-Alto Adige/Südtirol
+022228;M314;Comano Terme;;TN;Trentino-Alto Adige/Südtirol
+022229;M313;Ledro;;TN;Trentino-Alto Adige/Südtirol
+022230;M344;Predaia;;TN;Trentino-Alto Adige/Südtirol
+022231;M345;San Lorenzo Dorsino;;TN;Trentino-Alto Adige/Südtirol
+022232;M343;Valdaone;;TN;Trentino-Alto Adige/Südtirol
+022233;M366;Dimaro Folgarida;;TN;Trentino-Alto Adige/Südtirol
+022234;M365;Pieve di Bono-Prezzo;;TN;Trentino-Alto Adige/Südtirol
+022235;M349;Altavalle;;TN;Trentino-Alto Adige/Südtirol
+022236;M350;Altopiano della Vigolana;;TN;Trentino-Alto Adige/Südtirol
+022237;M351;Amblar-Don;;TN;Trentino-Alto Adige/Südtirol
+022238;M352;Borgo Chiese;;TN;Trentino-Alto Adige/Südtirol
+022239;M353;Borgo Lares;;TN;Trentino-Alto Adige/Südtirol
+022240;M354;Castel Ivano;;TN;Trentino-Alto Adige/Südtirol
+022241;M355;Cembra Lisignago;;TN;Trentino-Alto Adige/Südtirol
+022242;M356;Contà;;TN;Trentino-Alto Adige/Südtirol
+022243;M357;Madruzzo;;TN;Trentino-Alto Adige/Südtirol
+022244;M358;Porte di Rendena;;TN;Trentino-Alto Adige/Südtirol
+022245;M359;Primiero San Martino di Castrozza;;TN;Trentino-Alto Adige/Südtirol
+022246;M360;Sella Giudicarie;;TN;Trentino-Alto Adige/Südtirol
+022247;M361;Tre Ville;;TN;Trentino-Alto Adige/Südtirol
+022248;M362;Vallelaghi;;TN;Trentino-Alto Adige/Südtirol
+022249;M363;Ville d'Anaunia;;TN;Trentino-Alto Adige/Südtirol
+022250;M390;San Giovanni di Fassa;Sèn Jan;TN;Trentino-Alto Adige/Südtirol
+022251;M407;Terre d'Adige;;TN;Trentino-Alto Adige/Südtirol
+022252;M429;Borgo d'Anaunia;;TN;Trentino-Alto Adige/Südtirol
+022253;M430;Novella;;TN;Trentino-Alto Adige/Südtirol
+022254;M431;Ville di Fiemme;;TN;Trentino-Alto Adige/Südtirol
+023001;A061;Affi;;VR;Veneto
+023002;A137;Albaredo d'Adige;;VR;Veneto
+023003;A292;Angiari;;VR;Veneto
+023004;A374;Arcole;;VR;Veneto
+023005;A540;Badia Calavena;;VR;Veneto
+023006;A650;Bardolino;;VR;Veneto
+023007;A737;Belfiore;;VR;Veneto
+023008;A837;Bevilacqua;;VR;Veneto
+023009;A964;Bonavigo;;VR;Veneto
+023010;B070;Boschi Sant'Anna;;VR;Veneto
+023011;B073;Bosco Chiesanuova;;VR;Veneto
+023012;B107;Bovolone;;VR;Veneto
+023013;B152;Brentino Belluno;;VR;Veneto
+023014;B154;Brenzone sul Garda;;VR;Veneto
+023015;B296;Bussolengo;;VR;Veneto
+023016;B304;Buttapietra;;VR;Veneto
+023017;B402;Caldiero;;VR;Veneto
+023018;B709;Caprino Veronese;;VR;Veneto
+023019;B886;Casaleone;;VR;Veneto
+023020;C041;Castagnaro;;VR;Veneto
+023021;C078;Castel d'Azzano;;VR;Veneto
+023022;C225;Castelnuovo del Garda;;VR;Veneto
+023023;C370;Cavaion Veronese;;VR;Veneto
+023024;C412;Cazzano di Tramigna;;VR;Veneto
+023025;C498;Cerea;;VR;Veneto
+023026;C538;Cerro Veronese;;VR;Veneto
+023027;C890;Cologna Veneta;;VR;Veneto
+023028;C897;Colognola ai Colli;;VR;Veneto
+023029;C943;Concamarise;;VR;Veneto
+023030;D118;Costermano sul Garda;;VR;Veneto
+023031;D317;Dolcè;;VR;Veneto
+023032;D419;Erbè;;VR;Veneto
+023033;D420;Erbezzo;;VR;Veneto
+023034;D549;Ferrara di Monte Baldo;;VR;Veneto
+023035;D818;Fumane;;VR;Veneto
+023036;D915;Garda;;VR;Veneto
+023037;D957;Gazzo Veronese;;VR;Veneto
+023038;E171;Grezzana;;VR;Veneto
+023039;E284;Illasi;;VR;Veneto
+023040;E349;Isola della Scala;;VR;Veneto
+023041;E358;Isola Rizza;;VR;Veneto
+023042;E489;Lavagno;;VR;Veneto
+023043;E502;Lazise;;VR;Veneto
+023044;E512;Legnago;;VR;Veneto
+023045;E848;Malcesine;;VR;Veneto
+023046;E911;Marano di Valpolicella;;VR;Veneto
+023047;F172;Mezzane di Sotto;;VR;Veneto
+023048;F218;Minerbe;;VR;Veneto
+023049;F461;Montecchia di Crosara;;VR;Veneto
+023050;F508;Monteforte d'Alpone;;VR;Veneto
+023051;F789;Mozzecane;;VR;Veneto
+023052;F861;Negrar di Valpolicella;;VR;Veneto
+023053;F918;Nogara;;VR;Veneto
+023054;F921;Nogarole Rocca;;VR;Veneto
+023055;G080;Oppeano;;VR;Veneto
+023056;G297;Palù;;VR;Veneto
+023057;G365;Pastrengo;;VR;Veneto
+023058;G481;Pescantina;;VR;Veneto
+023059;G489;Peschiera del Garda;;VR;Veneto
+023060;G945;Povegliano Veronese;;VR;Veneto
+023061;H048;Pressana;;VR;Veneto
+023062;H356;Rivoli Veronese;;VR;Veneto
+023063;H522;Roncà;;VR;Veneto
+023064;H540;Ronco all'Adige;;VR;Veneto
+023065;H606;Roverchiara;;VR;Veneto
+023066;H610;Roveredo di Guà;;VR;Veneto
+023067;H608;Roverè Veronese;;VR;Veneto
+023068;H714;Salizzole;;VR;Veneto
+023069;H783;San Bonifacio;;VR;Veneto
+023070;H916;San Giovanni Ilarione;;VR;Veneto
+023071;H924;San Giovanni Lupatoto;;VR;Veneto
+023072;H944;Sanguinetto;;VR;Veneto
+023073;I003;San Martino Buon Albergo;;VR;Veneto
+023074;H712;San Mauro di Saline;;VR;Veneto
+023075;I105;San Pietro di Morubio;;VR;Veneto
+023076;I109;San Pietro in Cariano;;VR;Veneto
+023077;I259;Sant'Ambrogio di Valpolicella;;VR;Veneto
+023078;I292;Sant'Anna d'Alfaedo;;VR;Veneto
+023079;I414;San Zeno di Montagna;;VR;Veneto
+023080;I594;Selva di Progno;;VR;Veneto
+023081;I775;Soave;;VR;Veneto
+023082;I821;Sommacampagna;;VR;Veneto
+023083;I826;Sona;;VR;Veneto
+023084;I850;Sorgà;;VR;Veneto
+023085;L136;Terrazzo;;VR;Veneto
+023086;L287;Torri del Benaco;;VR;Veneto
+023087;L364;Tregnago;;VR;Veneto
+023088;L396;Trevenzuolo;;VR;Veneto
+023089;L567;Valeggio sul Mincio;;VR;Veneto
+023090;L722;Velo Veronese;;VR;Veneto
+023091;L781;Verona;;VR;Veneto
+023092;D193;Veronella;;VR;Veneto
+023093;L810;Vestenanova;;VR;Veneto
+023094;L869;Vigasio;;VR;Veneto
+023095;L912;Villa Bartolomea;;VR;Veneto
+023096;L949;Villafranca di Verona;;VR;Veneto
+023097;M172;Zevio;;VR;Veneto
+023098;M178;Zimella;;VR;Veneto
+024001;A093;Agugliaro;;VI;Veneto
+024002;A154;Albettone;;VI;Veneto
+024003;A220;Alonte;;VI;Veneto
+024004;A231;Altavilla Vicentina;;VI;Veneto
+024005;A236;Altissimo;;VI;Veneto
+024006;A377;Arcugnano;;VI;Veneto
+024007;A444;Arsiero;;VI;Veneto
+024008;A459;Arzignano;;VI;Veneto
+024009;A465;Asiago;;VI;Veneto
+024010;A467;Asigliano Veneto;;VI;Veneto
+024012;A703;Bassano del Grappa;;VI;Veneto
+024013;A954;Bolzano Vicentino;;VI;Veneto
+024014;B132;Breganze;;VI;Veneto
+024015;B143;Brendola;;VI;Veneto
+024016;B161;Bressanvido;;VI;Veneto
+024017;B196;Brogliano;;VI;Veneto
+024018;B403;Caldogno;;VI;Veneto
+024019;B433;Caltrano;;VI;Veneto
+024020;B441;Calvene;;VI;Veneto
+024021;B485;Camisano Vicentino;;VI;Veneto
+024022;B511;Campiglia dei Berici;;VI;Veneto
+024024;B835;Carrè;;VI;Veneto
+024025;B844;Cartigliano;;VI;Veneto
+024026;C037;Cassola;;VI;Veneto
+024027;C056;Castegnero;;VI;Veneto
+024028;C119;Castelgomberto;;VI;Veneto
+024029;C605;Chiampo;;VI;Veneto
+024030;C650;Chiuppano;;VI;Veneto
+024032;C824;Cogollo del Cengio;;VI;Veneto
+024034;D020;Cornedo Vicentino;;VI;Veneto
+024035;D107;Costabissara;;VI;Veneto
+024036;D136;Creazzo;;VI;Veneto
+024037;D156;Crespadoro;;VI;Veneto
+024038;D379;Dueville;;VI;Veneto
+024039;D407;Enego;;VI;Veneto
+024040;D496;Fara Vicentino;;VI;Veneto
+024041;D750;Foza;;VI;Veneto
+024042;D882;Gallio;;VI;Veneto
+024043;D897;Gambellara;;VI;Veneto
+024044;D902;Gambugliano;;VI;Veneto
+024046;E184;Grisignano di Zocco;;VI;Veneto
+024047;E226;Grumolo delle Abbadesse;;VI;Veneto
+024048;E354;Isola Vicentina;;VI;Veneto
+024049;E403;Laghi;;VI;Veneto
+024050;E465;Lastebasse;;VI;Veneto
+024051;E671;Longare;;VI;Veneto
+024052;E682;Lonigo;;VI;Veneto
+024053;E731;Lugo di Vicenza;;VI;Veneto
+024055;E864;Malo;;VI;Veneto
+024056;E912;Marano Vicentino;;VI;Veneto
+024057;E970;Marostica;;VI;Veneto
+024060;F442;Montebello Vicentino;;VI;Veneto
+024061;F464;Montecchio Maggiore;;VI;Veneto
+024062;F465;Montecchio Precalcino;;VI;Veneto
+024063;F486;Monte di Malo;;VI;Veneto
+024064;F514;Montegalda;;VI;Veneto
+024065;F515;Montegaldella;;VI;Veneto
+024066;F662;Monteviale;;VI;Veneto
+024067;F675;Monticello Conte Otto;;VI;Veneto
+024068;F696;Montorso Vicentino;;VI;Veneto
+024070;F829;Mussolente;;VI;Veneto
+024071;F838;Nanto;;VI;Veneto
+024072;F922;Nogarole Vicentino;;VI;Veneto
+024073;F957;Nove;;VI;Veneto
+024074;F964;Noventa Vicentina;;VI;Veneto
+024075;G095;Orgiano;;VI;Veneto
+024076;G406;Pedemonte;;VI;Veneto
+024077;G560;Pianezze;;VI;Veneto
+024078;G694;Piovene Rocchette;;VI;Veneto
+024079;G776;Pojana Maggiore;;VI;Veneto
+024080;G931;Posina;;VI;Veneto
+024081;G943;Pove del Grappa;;VI;Veneto
+024082;G957;Pozzoleone;;VI;Veneto
+024083;H134;Quinto Vicentino;;VI;Veneto
+024084;H214;Recoaro Terme;;VI;Veneto
+024085;H361;Roana;;VI;Veneto
+024086;H512;Romano d'Ezzelino;;VI;Veneto
+024087;H556;Rosà;;VI;Veneto
+024088;H580;Rossano Veneto;;VI;Veneto
+024089;H594;Rotzo;;VI;Veneto
+024090;F810;Salcedo;;VI;Veneto
+024091;H829;Sandrigo;;VI;Veneto
+024094;I117;San Pietro Mussolino;;VI;Veneto
+024095;I353;Santorso;;VI;Veneto
+024096;I401;San Vito di Leguzzano;;VI;Veneto
+024097;I425;Sarcedo;;VI;Veneto
+024098;I430;Sarego;;VI;Veneto
+024099;I527;Schiavon;;VI;Veneto
+024100;I531;Schio;;VI;Veneto
+024101;I783;Solagna;;VI;Veneto
+024102;I867;Sossano;;VI;Veneto
+024103;I879;Sovizzo;;VI;Veneto
+024104;L156;Tezze sul Brenta;;VI;Veneto
+024105;L157;Thiene;;VI;Veneto
+024106;D717;Tonezza del Cimone;;VI;Veneto
+024107;L248;Torrebelvicino;;VI;Veneto
+024108;L297;Torri di Quartesolo;;VI;Veneto
+024110;L433;Trissino;;VI;Veneto
+024111;L551;Valdagno;;VI;Veneto
+024112;L554;Valdastico;;VI;Veneto
+024113;L624;Valli del Pasubio;;VI;Veneto
+024115;L723;Velo d'Astico;;VI;Veneto
+024116;L840;Vicenza;;VI;Veneto
+024117;L952;Villaga;;VI;Veneto
+024118;M032;Villaverla;;VI;Veneto
+024119;M145;Zanè;;VI;Veneto
+024120;M170;Zermeghedo;;VI;Veneto
+024121;M194;Zovencedo;;VI;Veneto
+024122;M199;Zugliano;;VI;Veneto
+024123;M384;Val Liona;;VI;Veneto
+024124;M401;Barbarano Mossano;;VI;Veneto
+024125;M423;Valbrenta;;VI;Veneto
+024126;M426;Colceresa;;VI;Veneto
+024127;M427;Lusiana Conco;;VI;Veneto
+025001;A083;Agordo;;BL;Veneto
+025002;A121;Alano di Piave;;BL;Veneto
+025003;A206;Alleghe;;BL;Veneto
+025004;A443;Arsiè;;BL;Veneto
+025005;A501;Auronzo di Cadore;;BL;Veneto
+025006;A757;Belluno;;BL;Veneto
+025007;A982;Borca di Cadore;;BL;Veneto
+025008;B375;Calalzo di Cadore;;BL;Veneto
+025010;C458;Cencenighe Agordino;;BL;Veneto
+025011;C577;Cesiomaggiore;;BL;Veneto
+025012;C630;Chies d'Alpago;;BL;Veneto
+025013;C672;Cibiana di Cadore;;BL;Veneto
+025014;C872;Colle Santa Lucia;;BL;Veneto
+025015;C920;Comelico Superiore;;BL;Veneto
+025016;A266;Cortina d'Ampezzo;;BL;Veneto
+025017;D247;Danta di Cadore;;BL;Veneto
+025018;D330;Domegge di Cadore;;BL;Veneto
+025019;D470;Falcade;;BL;Veneto
+025021;D530;Feltre;;BL;Veneto
+025022;D686;Fonzaso;;BL;Veneto
+025023;B574;Canale d'Agordo;;BL;Veneto
+025025;E113;Gosaldo;;BL;Veneto
+025026;E429;Lamon;;BL;Veneto
+025027;E490;La Valle Agordina;;BL;Veneto
+025029;E588;Limana;;BL;Veneto
+025030;E622;Livinallongo del Col di Lana;;BL;Veneto
+025032;E687;Lorenzago di Cadore;;BL;Veneto
+025033;E708;Lozzo di Cadore;;BL;Veneto
+025035;G169;Ospitale di Cadore;;BL;Veneto
+025036;G404;Pedavena;;BL;Veneto
+025037;G442;Perarolo di Cadore;;BL;Veneto
+025039;G642;Pieve di Cadore;;BL;Veneto
+025040;B662;Ponte nelle Alpi;;BL;Veneto
+025043;H327;Rivamonte Agordino;;BL;Veneto
+025044;H379;Rocca Pietore;;BL;Veneto
+025045;H938;San Gregorio nelle Alpi;;BL;Veneto
+025046;I063;San Nicolò di Comelico;;BL;Veneto
+025047;I088;San Pietro di Cadore;;BL;Veneto
+025048;I206;Santa Giustina;;BL;Veneto
+025049;I347;San Tomaso Agordino;;BL;Veneto
+025050;C919;Santo Stefano di Cadore;;BL;Veneto
+025051;I392;San Vito di Cadore;;BL;Veneto
+025053;I563;Sedico;;BL;Veneto
+025054;I592;Selva di Cadore;;BL;Veneto
+025055;I626;Seren del Grappa;;BL;Veneto
+025056;I866;Sospirolo;;BL;Veneto
+025057;I876;Soverzene;;BL;Veneto
+025058;I673;Sovramonte;;BL;Veneto
+025059;L030;Taibon Agordino;;BL;Veneto
+025060;L040;Tambre;;BL;Veneto
+025062;L584;Vallada Agordina;;BL;Veneto
+025063;L590;Valle di Cadore;;BL;Veneto
+025065;L890;Vigo di Cadore;;BL;Veneto
+025066;M108;Vodo Cadore;;BL;Veneto
+025067;M124;Voltago Agordino;;BL;Veneto
+025069;M189;Zoppè di Cadore;;BL;Veneto
+025070;M332;Quero Vas;;BL;Veneto
+025071;M342;Longarone;;BL;Veneto
+025072;M375;Alpago;;BL;Veneto
+025073;M374;Val di Zoldo;;BL;Veneto
+025074;M421;Borgo Valbelluna;;BL;Veneto
+026001;A237;Altivole;;TV;Veneto
+026002;A360;Arcade;;TV;Veneto
+026003;A471;Asolo;;TV;Veneto
+026004;B061;Borso del Grappa;;TV;Veneto
+026005;B128;Breda di Piave;;TV;Veneto
+026006;B349;Caerano di San Marco;;TV;Veneto
+026007;B678;Cappella Maggiore;;TV;Veneto
+026008;B744;Carbonera;;TV;Veneto
+026009;B879;Casale sul Sile;;TV;Veneto
+026010;B965;Casier;;TV;Veneto
+026011;C073;Castelcucco;;TV;Veneto
+026012;C111;Castelfranco Veneto;;TV;Veneto
+026013;C190;Castello di Godego;;TV;Veneto
+026014;C384;Cavaso del Tomba;;TV;Veneto
+026015;C580;Cessalto;;TV;Veneto
+026016;C614;Chiarano;;TV;Veneto
+026017;C689;Cimadolmo;;TV;Veneto
+026018;C735;Cison di Valmarino;;TV;Veneto
+026019;C815;Codognè;;TV;Veneto
+026020;C848;Colle Umberto;;TV;Veneto
+026021;C957;Conegliano;;TV;Veneto
+026022;C992;Cordignano;;TV;Veneto
+026023;D030;Cornuda;;TV;Veneto
+026025;C670;Crocetta del Montello;;TV;Veneto
+026026;D505;Farra di Soligo;;TV;Veneto
+026027;D654;Follina;;TV;Veneto
+026028;D674;Fontanelle;;TV;Veneto
+026029;D680;Fonte;;TV;Veneto
+026030;D794;Fregona;;TV;Veneto
+026031;D854;Gaiarine;;TV;Veneto
+026032;E021;Giavera del Montello;;TV;Veneto
+026033;E071;Godega di Sant'Urbano;;TV;Veneto
+026034;E092;Gorgo al Monticano;;TV;Veneto
+026035;E373;Istrana;;TV;Veneto
+026036;E692;Loria;;TV;Veneto
+026037;E893;Mansuè;;TV;Veneto
+026038;E940;Mareno di Piave;;TV;Veneto
+026039;F009;Maser;;TV;Veneto
+026040;F012;Maserada sul Piave;;TV;Veneto
+026041;F088;Meduna di Livenza;;TV;Veneto
+026042;F190;Miane;;TV;Veneto
+026043;F269;Mogliano Veneto;;TV;Veneto
+026044;F332;Monastier di Treviso;;TV;Veneto
+026045;F360;Monfumo;;TV;Veneto
+026046;F443;Montebelluna;;TV;Veneto
+026047;F725;Morgano;;TV;Veneto
+026048;F729;Moriago della Battaglia;;TV;Veneto
+026049;F770;Motta di Livenza;;TV;Veneto
+026050;F872;Nervesa della Battaglia;;TV;Veneto
+026051;F999;Oderzo;;TV;Veneto
+026052;G115;Ormelle;;TV;Veneto
+026053;G123;Orsago;;TV;Veneto
+026055;G229;Paese;;TV;Veneto
+026056;G408;Pederobba;;TV;Veneto
+026057;G645;Pieve di Soligo;;TV;Veneto
+026058;G846;Ponte di Piave;;TV;Veneto
+026059;G875;Ponzano Veneto;;TV;Veneto
+026060;G909;Portobuffolè;;TV;Veneto
+026061;G933;Possagno;;TV;Veneto
+026062;G944;Povegliano;;TV;Veneto
+026063;H022;Preganziol;;TV;Veneto
+026064;H131;Quinto di Treviso;;TV;Veneto
+026065;H220;Refrontolo;;TV;Veneto
+026066;H238;Resana;;TV;Veneto
+026067;H253;Revine Lago;;TV;Veneto
+026068;H280;Riese Pio X;;TV;Veneto
+026069;H523;Roncade;;TV;Veneto
+026070;H706;Salgareda;;TV;Veneto
+026071;H781;San Biagio di Callalta;;TV;Veneto
+026072;H843;San Fior;;TV;Veneto
+026073;I103;San Pietro di Feletto;;TV;Veneto
+026074;I124;San Polo di Piave;;TV;Veneto
+026075;I221;Santa Lucia di Piave;;TV;Veneto
+026076;I382;San Vendemiano;;TV;Veneto
+026077;I417;San Zenone degli Ezzelini;;TV;Veneto
+026078;I435;Sarmede;;TV;Veneto
+026079;I578;Segusino;;TV;Veneto
+026080;I635;Sernaglia della Battaglia;;TV;Veneto
+026081;F116;Silea;;TV;Veneto
+026082;I927;Spresiano;;TV;Veneto
+026083;L014;Susegana;;TV;Veneto
+026084;L058;Tarzo;;TV;Veneto
+026085;L402;Trevignano;;TV;Veneto
+026086;L407;Treviso;;TV;Veneto
+026087;L565;Valdobbiadene;;TV;Veneto
+026088;L700;Vazzola;;TV;Veneto
+026089;L706;Vedelago;;TV;Veneto
+026090;L856;Vidor;;TV;Veneto
+026091;M048;Villorba;;TV;Veneto
+026092;M089;Vittorio Veneto;;TV;Veneto
+026093;M118;Volpago del Montello;;TV;Veneto
+026094;M163;Zenson di Piave;;TV;Veneto
+026095;M171;Zero Branco;;TV;Veneto
+026096;M422;Pieve del Grappa;;TV;Veneto
+027001;A302;Annone Veneto;;VE;Veneto
+027002;B493;Campagna Lupia;;VE;Veneto
+027003;B546;Campolongo Maggiore;;VE;Veneto
+027004;B554;Camponogara;;VE;Veneto
+027005;B642;Caorle;;VE;Veneto
+027006;C383;Cavarzere;;VE;Veneto
+027007;C422;Ceggia;;VE;Veneto
+027008;C638;Chioggia;;VE;Veneto
+027009;C714;Cinto Caomaggiore;;VE;Veneto
+027010;C938;Cona;;VE;Veneto
+027011;C950;Concordia Sagittaria;;VE;Veneto
+027012;D325;Dolo;;VE;Veneto
+027013;D415;Eraclea;;VE;Veneto
+027014;D578;Fiesso d'Artico;;VE;Veneto
+027015;D740;Fossalta di Piave;;VE;Veneto
+027016;D741;Fossalta di Portogruaro;;VE;Veneto
+027017;D748;Fossò;;VE;Veneto
+027018;E215;Gruaro;;VE;Veneto
+027019;C388;Jesolo;;VE;Veneto
+027020;E936;Marcon;;VE;Veneto
+027021;E980;Martellago;;VE;Veneto
+027022;F130;Meolo;;VE;Veneto
+027023;F229;Mira;;VE;Veneto
+027024;F241;Mirano;;VE;Veneto
+027025;F826;Musile di Piave;;VE;Veneto
+027026;F904;Noale;;VE;Veneto
+027027;F963;Noventa di Piave;;VE;Veneto
+027028;G565;Pianiga;;VE;Veneto
+027029;G914;Portogruaro;;VE;Veneto
+027030;G981;Pramaggiore;;VE;Veneto
+027031;H117;Quarto d'Altino;;VE;Veneto
+027032;H735;Salzano;;VE;Veneto
+027033;H823;San Donà di Piave;;VE;Veneto
+027034;I040;San Michele al Tagliamento;;VE;Veneto
+027035;I242;Santa Maria di Sala;;VE;Veneto
+027036;I373;San Stino di Livenza;;VE;Veneto
+027037;I551;Scorzè;;VE;Veneto
+027038;I908;Spinea;;VE;Veneto
+027039;I965;Stra;;VE;Veneto
+027040;L085;Teglio Veneto;;VE;Veneto
+027041;L267;Torre di Mosto;;VE;Veneto
+027042;L736;Venezia;;VE;Veneto
+027043;L899;Vigonovo;;VE;Veneto
+027044;M308;Cavallino-Treporti;;VE;Veneto
+028001;A001;Abano Terme;;PD;Veneto
+028002;A075;Agna;;PD;Veneto
+028003;A161;Albignasego;;PD;Veneto
+028004;A296;Anguillara Veneta;;PD;Veneto
+028005;A434;Arquà Petrarca;;PD;Veneto
+028006;A438;Arre;;PD;Veneto
+028007;A458;Arzergrande;;PD;Veneto
+028008;A568;Bagnoli di Sopra;;PD;Veneto
+028009;A613;Baone;;PD;Veneto
+028010;A637;Barbona;;PD;Veneto
+028011;A714;Battaglia Terme;;PD;Veneto
+028012;A906;Boara Pisani;;PD;Veneto
+028013;B031;Borgoricco;;PD;Veneto
+028014;B106;Bovolenta;;PD;Veneto
+028015;B213;Brugine;;PD;Veneto
+028016;B345;Cadoneghe;;PD;Veneto
+028017;B524;Campodarsego;;PD;Veneto
+028018;B531;Campodoro;;PD;Veneto
+028019;B563;Camposampiero;;PD;Veneto
+028020;B564;Campo San Martino;;PD;Veneto
+028021;B589;Candiana;;PD;Veneto
+028022;B749;Carceri;;PD;Veneto
+028023;B795;Carmignano di Brenta;;PD;Veneto
+028026;B848;Cartura;;PD;Veneto
+028027;B877;Casale di Scodosia;;PD;Veneto
+028028;B912;Casalserugo;;PD;Veneto
+028029;C057;Castelbaldo;;PD;Veneto
+028030;C544;Cervarese Santa Croce;;PD;Veneto
+028031;C713;Cinto Euganeo;;PD;Veneto
+028032;C743;Cittadella;;PD;Veneto
+028033;C812;Codevigo;;PD;Veneto
+028034;C964;Conselve;;PD;Veneto
+028035;D040;Correzzola;;PD;Veneto
+028036;D226;Curtarolo;;PD;Veneto
+028037;D442;Este;;PD;Veneto
+028038;D679;Fontaniva;;PD;Veneto
+028039;D879;Galliera Veneta;;PD;Veneto
+028040;D889;Galzignano Terme;;PD;Veneto
+028041;D956;Gazzo;;PD;Veneto
+028042;E145;Grantorto;;PD;Veneto
+028043;E146;Granze;;PD;Veneto
+028044;E515;Legnaro;;PD;Veneto
+028045;E592;Limena;;PD;Veneto
+028046;E684;Loreggia;;PD;Veneto
+028047;E709;Lozzo Atestino;;PD;Veneto
+028048;F011;Maserà di Padova;;PD;Veneto
+028049;F013;Masi;;PD;Veneto
+028050;F033;Massanzago;;PD;Veneto
+028052;F092;Megliadino San Vitale;;PD;Veneto
+028053;F148;Merlara;;PD;Veneto
+028054;F161;Mestrino;;PD;Veneto
+028055;F382;Monselice;;PD;Veneto
+028056;F394;Montagnana;;PD;Veneto
+028057;F529;Montegrotto Terme;;PD;Veneto
+028058;F962;Noventa Padovana;;PD;Veneto
+028059;G167;Ospedaletto Euganeo;;PD;Veneto
+028060;G224;Padova;;PD;Veneto
+028061;G461;Pernumia;;PD;Veneto
+028062;G534;Piacenza d'Adige;;PD;Veneto
+028063;G587;Piazzola sul Brenta;;PD;Veneto
+028064;G688;Piombino Dese;;PD;Veneto
+028065;G693;Piove di Sacco;;PD;Veneto
+028066;G802;Polverara;;PD;Veneto
+028067;G823;Ponso;;PD;Veneto
+028068;G850;Pontelongo;;PD;Veneto
+028069;G855;Ponte San Nicolò;;PD;Veneto
+028070;G963;Pozzonovo;;PD;Veneto
+028071;H622;Rovolon;;PD;Veneto
+028072;H625;Rubano;;PD;Veneto
+028073;H655;Saccolongo;;PD;Veneto
+028075;H893;San Giorgio delle Pertiche;;PD;Veneto
+028076;H897;San Giorgio in Bosco;;PD;Veneto
+028077;I008;San Martino di Lupari;;PD;Veneto
+028078;I107;San Pietro in Gu;;PD;Veneto
+028079;I120;San Pietro Viminario;;PD;Veneto
+028080;I207;Santa Giustina in Colle;;PD;Veneto
+028082;I275;Sant'Angelo di Piove di Sacco;;PD;Veneto
+028083;I319;Sant'Elena;;PD;Veneto
+028084;I375;Sant'Urbano;;PD;Veneto
+028085;I418;Saonara;;PD;Veneto
+028086;I595;Selvazzano Dentro;;PD;Veneto
+028087;I799;Solesino;;PD;Veneto
+028088;I938;Stanghella;;PD;Veneto
+028089;L100;Teolo;;PD;Veneto
+028090;L132;Terrassa Padovana;;PD;Veneto
+028091;L199;Tombolo;;PD;Veneto
+028092;L270;Torreglia;;PD;Veneto
+028093;L349;Trebaseleghe;;PD;Veneto
+028094;L414;Tribano;;PD;Veneto
+028095;L497;Urbana;;PD;Veneto
+028096;L710;Veggiano;;PD;Veneto
+028097;L805;Vescovana;;PD;Veneto
+028098;L878;Vighizzolo d'Este;;PD;Veneto
+028099;L892;Vigodarzere;;PD;Veneto
+028100;L900;Vigonza;;PD;Veneto
+028101;L934;Villa del Conte;;PD;Veneto
+028102;L937;Villa Estense;;PD;Veneto
+028103;L947;Villafranca Padovana;;PD;Veneto
+028104;L979;Villanova di Camposampiero;;PD;Veneto
+028105;M103;Vo';;PD;Veneto
+028106;M300;Due Carrare;;PD;Veneto
+028107;M402;Borgo Veneto;;PD;Veneto
+029001;A059;Adria;;RO;Veneto
+029002;A400;Ariano nel Polesine;;RO;Veneto
+029003;A435;Arquà Polesine;;RO;Veneto
+029004;A539;Badia Polesine;;RO;Veneto
+029005;A574;Bagnolo di Po;;RO;Veneto
+029006;A795;Bergantino;;RO;Veneto
+029007;B069;Bosaro;;RO;Veneto
+029008;B432;Calto;;RO;Veneto
+029009;B578;Canaro;;RO;Veneto
+029010;B582;Canda;;RO;Veneto
+029011;C122;Castelguglielmo;;RO;Veneto
+029012;C207;Castelmassa;;RO;Veneto
+029013;C215;Castelnovo Bariano;;RO;Veneto
+029014;C461;Ceneselli;;RO;Veneto
+029015;C500;Ceregnano;;RO;Veneto
+029017;C987;Corbola;;RO;Veneto
+029018;D105;Costa di Rovigo;;RO;Veneto
+029019;D161;Crespino;;RO;Veneto
+029021;D568;Ficarolo;;RO;Veneto
+029022;D577;Fiesso Umbertiano;;RO;Veneto
+029023;D776;Frassinelle Polesine;;RO;Veneto
+029024;D788;Fratta Polesine;;RO;Veneto
+029025;D855;Gaiba;;RO;Veneto
+029026;D942;Gavello;;RO;Veneto
+029027;E008;Giacciano con Baruchella;;RO;Veneto
+029028;E240;Guarda Veneta;;RO;Veneto
+029029;E522;Lendinara;;RO;Veneto
+029030;E689;Loreo;;RO;Veneto
+029031;E761;Lusia;;RO;Veneto
+029032;F095;Melara;;RO;Veneto
+029033;F994;Occhiobello;;RO;Veneto
+029034;G323;Papozze;;RO;Veneto
+029035;G525;Pettorazza Grimani;;RO;Veneto
+029036;G673;Pincara;;RO;Veneto
+029037;G782;Polesella;;RO;Veneto
+029038;G836;Pontecchio Polesine;;RO;Veneto
+029039;G923;Porto Tolle;;RO;Veneto
+029040;H573;Rosolina;;RO;Veneto
+029041;H620;Rovigo;;RO;Veneto
+029042;H689;Salara;;RO;Veneto
+029043;H768;San Bellino;;RO;Veneto
+029044;H996;San Martino di Venezze;;RO;Veneto
+029045;I953;Stienta;;RO;Veneto
+029046;L026;Taglio di Po;;RO;Veneto
+029047;L359;Trecenta;;RO;Veneto
+029048;L939;Villadose;;RO;Veneto
+029049;L967;Villamarzana;;RO;Veneto
+029050;L985;Villanova del Ghebbo;;RO;Veneto
+029051;L988;Villanova Marchesana;;RO;Veneto
+029052;G926;Porto Viro;;RO;Veneto
+030001;A103;Aiello del Friuli;;UD;Friuli-Venezia Giulia
+030002;A254;Amaro;;UD;Friuli-Venezia Giulia
+030003;A267;Ampezzo;;UD;Friuli-Venezia Giulia
+030004;A346;Aquileia;;UD;Friuli-Venezia Giulia
+030005;A447;Arta Terme;;UD;Friuli-Venezia Giulia
+030006;A448;Artegna;;UD;Friuli-Venezia Giulia
+030007;A491;Attimis;;UD;Friuli-Venezia Giulia
+030008;A553;Bagnaria Arsa;;UD;Friuli-Venezia Giulia
+030009;A700;Basiliano;;UD;Friuli-Venezia Giulia
+030010;A810;Bertiolo;;UD;Friuli-Venezia Giulia
+030011;A855;Bicinicco;;UD;Friuli-Venezia Giulia
+030012;A983;Bordano;;UD;Friuli-Venezia Giulia
+030013;B259;Buja;;UD;Friuli-Venezia Giulia
+030014;B309;Buttrio;;UD;Friuli-Venezia Giulia
+030015;B483;Camino al Tagliamento;;UD;Friuli-Venezia Giulia
+030016;B536;Campoformido;;UD;Friuli-Venezia Giulia
+030018;B788;Carlino;;UD;Friuli-Venezia Giulia
+030019;B994;Cassacco;;UD;Friuli-Venezia Giulia
+030020;C327;Castions di Strada;;UD;Friuli-Venezia Giulia
+030021;C389;Cavazzo Carnico;;UD;Friuli-Venezia Giulia
+030022;C494;Cercivento;;UD;Friuli-Venezia Giulia
+030023;C556;Cervignano del Friuli;;UD;Friuli-Venezia Giulia
+030024;C641;Chiopris-Viscone;;UD;Friuli-Venezia Giulia
+030025;C656;Chiusaforte;;UD;Friuli-Venezia Giulia
+030026;C758;Cividale del Friuli;;UD;Friuli-Venezia Giulia
+030027;C817;Codroipo;;UD;Friuli-Venezia Giulia
+030028;C885;Colloredo di Monte Albano;;UD;Friuli-Venezia Giulia
+030029;C918;Comeglians;;UD;Friuli-Venezia Giulia
+030030;D027;Corno di Rosazzo;;UD;Friuli-Venezia Giulia
+030031;D085;Coseano;;UD;Friuli-Venezia Giulia
+030032;D300;Dignano;;UD;Friuli-Venezia Giulia
+030033;D316;Dogna;;UD;Friuli-Venezia Giulia
+030034;D366;Drenchia;;UD;Friuli-Venezia Giulia
+030035;D408;Enemonzo;;UD;Friuli-Venezia Giulia
+030036;D455;Faedis;;UD;Friuli-Venezia Giulia
+030037;D461;Fagagna;;UD;Friuli-Venezia Giulia
+030039;D630;Flaibano;;UD;Friuli-Venezia Giulia
+030040;D718;Forni Avoltri;;UD;Friuli-Venezia Giulia
+030041;D719;Forni di Sopra;;UD;Friuli-Venezia Giulia
+030042;D720;Forni di Sotto;;UD;Friuli-Venezia Giulia
+030043;D962;Gemona del Friuli;;UD;Friuli-Venezia Giulia
+030044;E083;Gonars;;UD;Friuli-Venezia Giulia
+030045;E179;Grimacco;;UD;Friuli-Venezia Giulia
+030046;E473;Latisana;;UD;Friuli-Venezia Giulia
+030047;E476;Lauco;;UD;Friuli-Venezia Giulia
+030048;E553;Lestizza;;UD;Friuli-Venezia Giulia
+030049;E584;Lignano Sabbiadoro;;UD;Friuli-Venezia Giulia
+030051;E760;Lusevera;;UD;Friuli-Venezia Giulia
+030052;E820;Magnano in Riviera;;UD;Friuli-Venezia Giulia
+030053;E833;Majano;;UD;Friuli-Venezia Giulia
+030054;E847;Malborghetto Valbruna;;UD;Friuli-Venezia Giulia
+030055;E899;Manzano;;UD;Friuli-Venezia Giulia
+030056;E910;Marano Lagunare;;UD;Friuli-Venezia Giulia
+030057;E982;Martignacco;;UD;Friuli-Venezia Giulia
+030058;F144;Mereto di Tomba;;UD;Friuli-Venezia Giulia
+030059;F266;Moggio Udinese;;UD;Friuli-Venezia Giulia
+030060;F275;Moimacco;;UD;Friuli-Venezia Giulia
+030061;F574;Montenars;;UD;Friuli-Venezia Giulia
+030062;F756;Mortegliano;;UD;Friuli-Venezia Giulia
+030063;F760;Moruzzo;;UD;Friuli-Venezia Giulia
+030064;F832;Muzzana del Turgnano;;UD;Friuli-Venezia Giulia
+030065;F898;Nimis;;UD;Friuli-Venezia Giulia
+030066;G163;Osoppo;;UD;Friuli-Venezia Giulia
+030067;G198;Ovaro;;UD;Friuli-Venezia Giulia
+030068;G238;Pagnacco;;UD;Friuli-Venezia Giulia
+030069;G268;Palazzolo dello Stella;;UD;Friuli-Venezia Giulia
+030070;G284;Palmanova;;UD;Friuli-Venezia Giulia
+030071;G300;Paluzza;;UD;Friuli-Venezia Giulia
+030072;G352;Pasian di Prato;;UD;Friuli-Venezia Giulia
+030073;G381;Paularo;;UD;Friuli-Venezia Giulia
+030074;G389;Pavia di Udine;;UD;Friuli-Venezia Giulia
+030075;G743;Pocenia;;UD;Friuli-Venezia Giulia
+030076;G831;Pontebba;;UD;Friuli-Venezia Giulia
+030077;G891;Porpetto;;UD;Friuli-Venezia Giulia
+030078;G949;Povoletto;;UD;Friuli-Venezia Giulia
+030079;G966;Pozzuolo del Friuli;;UD;Friuli-Venezia Giulia
+030080;G969;Pradamano;;UD;Friuli-Venezia Giulia
+030081;H002;Prato Carnico;;UD;Friuli-Venezia Giulia
+030082;H014;Precenicco;;UD;Friuli-Venezia Giulia
+030083;H029;Premariacco;;UD;Friuli-Venezia Giulia
+030084;H038;Preone;;UD;Friuli-Venezia Giulia
+030085;H040;Prepotto;;UD;Friuli-Venezia Giulia
+030086;H089;Pulfero;;UD;Friuli-Venezia Giulia
+030087;H161;Ragogna;;UD;Friuli-Venezia Giulia
+030088;H196;Ravascletto;;UD;Friuli-Venezia Giulia
+030089;H200;Raveo;;UD;Friuli-Venezia Giulia
+030090;H206;Reana del Rojale;;UD;Friuli-Venezia Giulia
+030091;H229;Remanzacco;;UD;Friuli-Venezia Giulia
+030092;H242;Resia;;UD;Friuli-Venezia Giulia
+030093;H244;Resiutta;;UD;Friuli-Venezia Giulia
+030094;H289;Rigolato;;UD;Friuli-Venezia Giulia
+030095;H347;Rive d'Arcano;;UD;Friuli-Venezia Giulia
+030097;H533;Ronchis;;UD;Friuli-Venezia Giulia
+030098;H629;Ruda;;UD;Friuli-Venezia Giulia
+030099;H816;San Daniele del Friuli;;UD;Friuli-Venezia Giulia
+030100;H895;San Giorgio di Nogaro;;UD;Friuli-Venezia Giulia
+030101;H906;San Giovanni al Natisone;;UD;Friuli-Venezia Giulia
+030102;H951;San Leonardo;;UD;Friuli-Venezia Giulia
+030103;I092;San Pietro al Natisone;;UD;Friuli-Venezia Giulia
+030104;I248;Santa Maria la Longa;;UD;Friuli-Venezia Giulia
+030105;I404;San Vito al Torre;;UD;Friuli-Venezia Giulia
+030106;I405;San Vito di Fagagna;;UD;Friuli-Venezia Giulia
+030107;I464;Sauris;;UD;Friuli-Venezia Giulia
+030108;I478;Savogna;;UD;Friuli-Venezia Giulia
+030109;I562;Sedegliano;;UD;Friuli-Venezia Giulia
+030110;I777;Socchieve;;UD;Friuli-Venezia Giulia
+030111;I974;Stregna;;UD;Friuli-Venezia Giulia
+030112;L018;Sutrio;;UD;Friuli-Venezia Giulia
+030113;G736;Taipana;;UD;Friuli-Venezia Giulia
+030114;L039;Talmassons;;UD;Friuli-Venezia Giulia
+030116;L050;Tarcento;;UD;Friuli-Venezia Giulia
+030117;L057;Tarvisio;;UD;Friuli-Venezia Giulia
+030118;L065;Tavagnacco;;UD;Friuli-Venezia Giulia
+030120;L144;Terzo d'Aquileia;;UD;Friuli-Venezia Giulia
+030121;L195;Tolmezzo;;UD;Friuli-Venezia Giulia
+030122;L246;Torreano;;UD;Friuli-Venezia Giulia
+030123;L309;Torviscosa;;UD;Friuli-Venezia Giulia
+030124;L335;Trasaghis;;UD;Friuli-Venezia Giulia
+030126;L382;Treppo Grande;;UD;Friuli-Venezia Giulia
+030127;L421;Tricesimo;;UD;Friuli-Venezia Giulia
+030128;L438;Trivignano Udinese;;UD;Friuli-Venezia Giulia
+030129;L483;Udine;;UD;Friuli-Venezia Giulia
+030130;L686;Varmo;;UD;Friuli-Venezia Giulia
+030131;L743;Venzone;;UD;Friuli-Venezia Giulia
+030132;L801;Verzegnis;;UD;Friuli-Venezia Giulia
+030133;L909;Villa Santina;;UD;Friuli-Venezia Giulia
+030135;M073;Visco;;UD;Friuli-Venezia Giulia
+030136;M200;Zuglio;;UD;Friuli-Venezia Giulia
+030137;D700;Forgaria nel Friuli;;UD;Friuli-Venezia Giulia
+030138;M311;Campolongo Tapogliano;;UD;Friuli-Venezia Giulia
+030188;M317;Rivignano Teor;;UD;Friuli-Venezia Giulia
+030189;I421;Sappada;;UD;Friuli-Venezia Giulia
+030190;M400;Fiumicello Villa Vicentina;;UD;Friuli-Venezia Giulia
+030191;M399;Treppo Ligosullo;;UD;Friuli-Venezia Giulia
+031001;B712;Capriva del Friuli;;GO;Friuli-Venezia Giulia
+031002;D014;Cormons;;GO;Friuli-Venezia Giulia
+031003;D312;Doberdò del Lago;Doberdob;GO;Friuli-Venezia Giulia
+031004;D321;Dolegna del Collio;;GO;Friuli-Venezia Giulia
+031005;D504;Farra d'Isonzo;;GO;Friuli-Venezia Giulia
+031006;D645;Fogliano Redipuglia;;GO;Friuli-Venezia Giulia
+031007;E098;Gorizia;;GO;Friuli-Venezia Giulia
+031008;E124;Gradisca d'Isonzo;;GO;Friuli-Venezia Giulia
+031009;E125;Grado;;GO;Friuli-Venezia Giulia
+031010;E952;Mariano del Friuli;;GO;Friuli-Venezia Giulia
+031011;F081;Medea;;GO;Friuli-Venezia Giulia
+031012;F356;Monfalcone;;GO;Friuli-Venezia Giulia
+031013;F710;Moraro;;GO;Friuli-Venezia Giulia
+031014;F767;Mossa;;GO;Friuli-Venezia Giulia
+031015;H514;Romans d'Isonzo;;GO;Friuli-Venezia Giulia
+031016;H531;Ronchi dei Legionari;;GO;Friuli-Venezia Giulia
+031017;H665;Sagrado;;GO;Friuli-Venezia Giulia
+031018;H787;San Canzian d'Isonzo;;GO;Friuli-Venezia Giulia
+031019;H845;San Floriano del Collio;teverjan;GO;Friuli-Venezia Giulia
+031020;H964;San Lorenzo Isontino;;GO;Friuli-Venezia Giulia
+031021;I082;San Pier d'Isonzo;;GO;Friuli-Venezia Giulia
+031022;I479;Savogna d'Isonzo;Sovodnje ob So?i;GO;Friuli-Venezia Giulia
+031023;I939;Staranzano;;GO;Friuli-Venezia Giulia
+031024;L474;Turriaco;;GO;Friuli-Venezia Giulia
+031025;M043;Villesse;;GO;Friuli-Venezia Giulia
+032001;D383;Duino Aurisina;Devin Nabreina;TS;Friuli-Venezia Giulia
+032002;F378;Monrupino;Repentabor;TS;Friuli-Venezia Giulia
+032003;F795;Muggia;;TS;Friuli-Venezia Giulia
+032004;D324;San Dorligo della Valle;Dolina;TS;Friuli-Venezia Giulia
+032005;I715;Sgonico;Zgonik;TS;Friuli-Venezia Giulia
+032006;L424;Trieste;;TS;Friuli-Venezia Giulia
+033001;A067;Agazzano;;PC;Emilia-Romagna
+033002;A223;Alseno;;PC;Emilia-Romagna
+033003;A823;Besenzone;;PC;Emilia-Romagna
+033004;A831;Bettola;;PC;Emilia-Romagna
+033005;A909;Bobbio;;PC;Emilia-Romagna
+033006;B025;Borgonovo Val Tidone;;PC;Emilia-Romagna
+033007;B332;Cadeo;;PC;Emilia-Romagna
+033008;B405;Calendasco;;PC;Emilia-Romagna
+033010;B643;Caorso;;PC;Emilia-Romagna
+033011;B812;Carpaneto Piacentino;;PC;Emilia-Romagna
+033012;C145;Castell'Arquato;;PC;Emilia-Romagna
+033013;C261;Castel San Giovanni;;PC;Emilia-Romagna
+033014;C288;Castelvetro Piacentino;;PC;Emilia-Romagna
+033015;C513;Cerignale;;PC;Emilia-Romagna
+033016;C838;Coli;;PC;Emilia-Romagna
+033017;D054;Corte Brugnatella;;PC;Emilia-Romagna
+033018;D061;Cortemaggiore;;PC;Emilia-Romagna
+033019;D502;Farini;;PC;Emilia-Romagna
+033020;D555;Ferriere;;PC;Emilia-Romagna
+033021;D611;Fiorenzuola d'Arda;;PC;Emilia-Romagna
+033022;D958;Gazzola;;PC;Emilia-Romagna
+033023;E114;Gossolengo;;PC;Emilia-Romagna
+033024;E132;Gragnano Trebbiense;;PC;Emilia-Romagna
+033025;E196;Gropparello;;PC;Emilia-Romagna
+033026;E726;Lugagnano Val d'Arda;;PC;Emilia-Romagna
+033027;F671;Monticelli d'Ongina;;PC;Emilia-Romagna
+033028;F724;Morfasso;;PC;Emilia-Romagna
+033030;G195;Ottone;;PC;Emilia-Romagna
+033032;G535;Piacenza;;PC;Emilia-Romagna
+033033;G557;Pianello Val Tidone;;PC;Emilia-Romagna
+033034;G696;Piozzano;;PC;Emilia-Romagna
+033035;G747;Podenzano;;PC;Emilia-Romagna
+033036;G842;Ponte dell'Olio;;PC;Emilia-Romagna
+033037;G852;Pontenure;;PC;Emilia-Romagna
+033038;H350;Rivergaro;;PC;Emilia-Romagna
+033039;H593;Rottofreno;;PC;Emilia-Romagna
+033040;H887;San Giorgio Piacentino;;PC;Emilia-Romagna
+033041;G788;San Pietro in Cerro;;PC;Emilia-Romagna
+033042;I434;Sarmato;;PC;Emilia-Romagna
+033043;L348;Travo;;PC;Emilia-Romagna
+033044;L772;Vernasca;;PC;Emilia-Romagna
+033045;L897;Vigolzone;;PC;Emilia-Romagna
+033046;L980;Villanova sull'Arda;;PC;Emilia-Romagna
+033047;M165;Zerba;;PC;Emilia-Romagna
+033048;L848;Ziano Piacentino;;PC;Emilia-Romagna
+033049;M386;Alta Val Tidone;;PC;Emilia-Romagna
+034001;A138;Albareto;;PR;Emilia-Romagna
+034002;A646;Bardi;;PR;Emilia-Romagna
+034003;A731;Bedonia;;PR;Emilia-Romagna
+034004;A788;Berceto;;PR;Emilia-Romagna
+034005;A987;Bore;;PR;Emilia-Romagna
+034006;B042;Borgo Val di Taro;;PR;Emilia-Romagna
+034007;B293;Busseto;;PR;Emilia-Romagna
+034008;B408;Calestano;;PR;Emilia-Romagna
+034009;C852;Collecchio;;PR;Emilia-Romagna
+034010;C904;Colorno;;PR;Emilia-Romagna
+034011;C934;Compiano;;PR;Emilia-Romagna
+034012;D026;Corniglio;;PR;Emilia-Romagna
+034013;D526;Felino;;PR;Emilia-Romagna
+034014;B034;Fidenza;;PR;Emilia-Romagna
+034015;D673;Fontanellato;;PR;Emilia-Romagna
+034016;D685;Fontevivo;;PR;Emilia-Romagna
+034017;D728;Fornovo di Taro;;PR;Emilia-Romagna
+034018;E438;Langhirano;;PR;Emilia-Romagna
+034019;E547;Lesignano de' Bagni;;PR;Emilia-Romagna
+034020;F082;Medesano;;PR;Emilia-Romagna
+034022;F340;Monchio delle Corti;;PR;Emilia-Romagna
+034023;F473;Montechiarugolo;;PR;Emilia-Romagna
+034024;F882;Neviano degli Arduini;;PR;Emilia-Romagna
+034025;F914;Noceto;;PR;Emilia-Romagna
+034026;G255;Palanzano;;PR;Emilia-Romagna
+034027;G337;Parma;;PR;Emilia-Romagna
+034028;G424;Pellegrino Parmense;;PR;Emilia-Romagna
+034030;H384;Roccabianca;;PR;Emilia-Romagna
+034031;H682;Sala Baganza;;PR;Emilia-Romagna
+034032;H720;Salsomaggiore Terme;;PR;Emilia-Romagna
+034033;I153;San Secondo Parmense;;PR;Emilia-Romagna
+034035;I803;Solignano;;PR;Emilia-Romagna
+034036;I840;Soragna;;PR;Emilia-Romagna
+034038;E548;Terenzo;;PR;Emilia-Romagna
+034039;L183;Tizzano Val Parma;;PR;Emilia-Romagna
+034040;L229;Tornolo;;PR;Emilia-Romagna
+034041;L299;Torrile;;PR;Emilia-Romagna
+034042;L346;Traversetolo;;PR;Emilia-Romagna
+034044;L641;Valmozzola;;PR;Emilia-Romagna
+034045;L672;Varano de' Melegari;;PR;Emilia-Romagna
+034046;L689;Varsi;;PR;Emilia-Romagna
+034049;M325;Sissa Trecasali;;PR;Emilia-Romagna
+034050;M367;Polesine Zibello;;PR;Emilia-Romagna
+034051;M411;Sorbolo Mezzani;;PR;Emilia-Romagna
+035001;A162;Albinea;;RE;Emilia-Romagna
+035002;A573;Bagnolo in Piano;;RE;Emilia-Romagna
+035003;A586;Baiso;;RE;Emilia-Romagna
+035004;A850;Bibbiano;;RE;Emilia-Romagna
+035005;A988;Boretto;;RE;Emilia-Romagna
+035006;B156;Brescello;;RE;Emilia-Romagna
+035008;B328;Cadelbosco di Sopra;;RE;Emilia-Romagna
+035009;B499;Campagnola Emilia;;RE;Emilia-Romagna
+035010;B502;Campegine;;RE;Emilia-Romagna
+035011;B825;Carpineti;;RE;Emilia-Romagna
+035012;B893;Casalgrande;;RE;Emilia-Romagna
+035013;B967;Casina;;RE;Emilia-Romagna
+035014;C141;Castellarano;;RE;Emilia-Romagna
+035015;C218;Castelnovo di Sotto;;RE;Emilia-Romagna
+035016;C219;Castelnovo ne' Monti;;RE;Emilia-Romagna
+035017;C405;Cavriago;;RE;Emilia-Romagna
+035018;C669;Canossa;;RE;Emilia-Romagna
+035020;D037;Correggio;;RE;Emilia-Romagna
+035021;D450;Fabbrico;;RE;Emilia-Romagna
+035022;D934;Gattatico;;RE;Emilia-Romagna
+035023;E232;Gualtieri;;RE;Emilia-Romagna
+035024;E253;Guastalla;;RE;Emilia-Romagna
+035026;E772;Luzzara;;RE;Emilia-Romagna
+035027;F463;Montecchio Emilia;;RE;Emilia-Romagna
+035028;F960;Novellara;;RE;Emilia-Romagna
+035029;G947;Poviglio;;RE;Emilia-Romagna
+035030;H122;Quattro Castella;;RE;Emilia-Romagna
+035032;H225;Reggiolo;;RE;Emilia-Romagna
+035033;H223;Reggio nell'Emilia;;RE;Emilia-Romagna
+035034;H298;Rio Saliceto;;RE;Emilia-Romagna
+035035;H500;Rolo;;RE;Emilia-Romagna
+035036;H628;Rubiera;;RE;Emilia-Romagna
+035037;I011;San Martino in Rio;;RE;Emilia-Romagna
+035038;I123;San Polo d'Enza;;RE;Emilia-Romagna
+035039;I342;Sant'Ilario d'Enza;;RE;Emilia-Romagna
+035040;I496;Scandiano;;RE;Emilia-Romagna
+035041;L184;Toano;;RE;Emilia-Romagna
+035042;L815;Vetto;;RE;Emilia-Romagna
+035043;L820;Vezzano sul Crostolo;;RE;Emilia-Romagna
+035044;L831;Viano;;RE;Emilia-Romagna
+035045;L969;Villa Minozzo;;RE;Emilia-Romagna
+035046;M364;Ventasso;;RE;Emilia-Romagna
+036001;A713;Bastiglia;;MO;Emilia-Romagna
+036002;A959;Bomporto;;MO;Emilia-Romagna
+036003;B539;Campogalliano;;MO;Emilia-Romagna
+036004;B566;Camposanto;;MO;Emilia-Romagna
+036005;B819;Carpi;;MO;Emilia-Romagna
+036006;C107;Castelfranco Emilia;;MO;Emilia-Romagna
+036007;C242;Castelnuovo Rangone;;MO;Emilia-Romagna
+036008;C287;Castelvetro di Modena;;MO;Emilia-Romagna
+036009;C398;Cavezzo;;MO;Emilia-Romagna
+036010;C951;Concordia sulla Secchia;;MO;Emilia-Romagna
+036011;D486;Fanano;;MO;Emilia-Romagna
+036012;D599;Finale Emilia;;MO;Emilia-Romagna
+036013;D607;Fiorano Modenese;;MO;Emilia-Romagna
+036014;D617;Fiumalbo;;MO;Emilia-Romagna
+036015;D711;Formigine;;MO;Emilia-Romagna
+036016;D783;Frassinoro;;MO;Emilia-Romagna
+036017;E264;Guiglia;;MO;Emilia-Romagna
+036018;E426;Lama Mocogno;;MO;Emilia-Romagna
+036019;E904;Maranello;;MO;Emilia-Romagna
+036020;E905;Marano sul Panaro;;MO;Emilia-Romagna
+036021;F087;Medolla;;MO;Emilia-Romagna
+036022;F240;Mirandola;;MO;Emilia-Romagna
+036023;F257;Modena;;MO;Emilia-Romagna
+036024;F484;Montecreto;;MO;Emilia-Romagna
+036025;F503;Montefiorino;;MO;Emilia-Romagna
+036026;F642;Montese;;MO;Emilia-Romagna
+036027;F930;Nonantola;;MO;Emilia-Romagna
+036028;F966;Novi di Modena;;MO;Emilia-Romagna
+036029;G250;Palagano;;MO;Emilia-Romagna
+036030;G393;Pavullo nel Frignano;;MO;Emilia-Romagna
+036031;G649;Pievepelago;;MO;Emilia-Romagna
+036032;G789;Polinago;;MO;Emilia-Romagna
+036033;H061;Prignano sulla Secchia;;MO;Emilia-Romagna
+036034;H195;Ravarino;;MO;Emilia-Romagna
+036035;H303;Riolunato;;MO;Emilia-Romagna
+036036;H794;San Cesario sul Panaro;;MO;Emilia-Romagna
+036037;H835;San Felice sul Panaro;;MO;Emilia-Romagna
+036038;I128;San Possidonio;;MO;Emilia-Romagna
+036039;I133;San Prospero;;MO;Emilia-Romagna
+036040;I462;Sassuolo;;MO;Emilia-Romagna
+036041;I473;Savignano sul Panaro;;MO;Emilia-Romagna
+036042;F357;Serramazzoni;;MO;Emilia-Romagna
+036043;I689;Sestola;;MO;Emilia-Romagna
+036044;I802;Soliera;;MO;Emilia-Romagna
+036045;I903;Spilamberto;;MO;Emilia-Romagna
+036046;L885;Vignola;;MO;Emilia-Romagna
+036047;M183;Zocca;;MO;Emilia-Romagna
+037001;A324;Anzola dell'Emilia;;BO;Emilia-Romagna
+037002;A392;Argelato;;BO;Emilia-Romagna
+037003;A665;Baricella;;BO;Emilia-Romagna
+037005;A785;Bentivoglio;;BO;Emilia-Romagna
+037006;A944;Bologna;;BO;Emilia-Romagna
+037007;B044;Borgo Tossignano;;BO;Emilia-Romagna
+037008;B249;Budrio;;BO;Emilia-Romagna
+037009;B399;Calderara di Reno;;BO;Emilia-Romagna
+037010;B572;Camugnano;;BO;Emilia-Romagna
+037011;B880;Casalecchio di Reno;;BO;Emilia-Romagna
+037012;B892;Casalfiumanese;;BO;Emilia-Romagna
+037013;C075;Castel d'Aiano;;BO;Emilia-Romagna
+037014;C086;Castel del Rio;;BO;Emilia-Romagna
+037015;B969;Castel di Casio;;BO;Emilia-Romagna
+037016;C121;Castel Guelfo di Bologna;;BO;Emilia-Romagna
+037017;C185;Castello d'Argile;;BO;Emilia-Romagna
+037019;C204;Castel Maggiore;;BO;Emilia-Romagna
+037020;C265;Castel San Pietro Terme;;BO;Emilia-Romagna
+037021;C292;Castenaso;;BO;Emilia-Romagna
+037022;C296;Castiglione dei Pepoli;;BO;Emilia-Romagna
+037024;D166;Crevalcore;;BO;Emilia-Romagna
+037025;D360;Dozza;;BO;Emilia-Romagna
+037026;D668;Fontanelice;;BO;Emilia-Romagna
+037027;D847;Gaggio Montano;;BO;Emilia-Romagna
+037028;D878;Galliera;;BO;Emilia-Romagna
+037030;E136;Granarolo dell'Emilia;;BO;Emilia-Romagna
+037031;E187;Grizzana Morandi;;BO;Emilia-Romagna
+037032;E289;Imola;;BO;Emilia-Romagna
+037033;A771;Lizzano in Belvedere;;BO;Emilia-Romagna
+037034;E655;Loiano;;BO;Emilia-Romagna
+037035;E844;Malalbergo;;BO;Emilia-Romagna
+037036;B689;Marzabotto;;BO;Emilia-Romagna
+037037;F083;Medicina;;BO;Emilia-Romagna
+037038;F219;Minerbio;;BO;Emilia-Romagna
+037039;F288;Molinella;;BO;Emilia-Romagna
+037040;F363;Monghidoro;;BO;Emilia-Romagna
+037041;F597;Monterenzio;;BO;Emilia-Romagna
+037042;F627;Monte San Pietro;;BO;Emilia-Romagna
+037044;F706;Monzuno;;BO;Emilia-Romagna
+037045;F718;Mordano;;BO;Emilia-Romagna
+037046;G205;Ozzano dell'Emilia;;BO;Emilia-Romagna
+037047;G570;Pianoro;;BO;Emilia-Romagna
+037048;G643;Pieve di Cento;;BO;Emilia-Romagna
+037050;H678;Sala Bolognese;;BO;Emilia-Romagna
+037051;G566;San Benedetto Val di Sambro;;BO;Emilia-Romagna
+037052;H896;San Giorgio di Piano;;BO;Emilia-Romagna
+037053;G467;San Giovanni in Persiceto;;BO;Emilia-Romagna
+037054;H945;San Lazzaro di Savena;;BO;Emilia-Romagna
+037055;I110;San Pietro in Casale;;BO;Emilia-Romagna
+037056;I191;Sant'Agata Bolognese;;BO;Emilia-Romagna
+037057;G972;Sasso Marconi;;BO;Emilia-Romagna
+037059;L762;Vergato;;BO;Emilia-Romagna
+037060;M185;Zola Predosa;;BO;Emilia-Romagna
+037061;M320;Valsamoggia;;BO;Emilia-Romagna
+037062;M369;Alto Reno Terme;;BO;Emilia-Romagna
+038001;A393;Argenta;;FE;Emilia-Romagna
+038003;A965;Bondeno;;FE;Emilia-Romagna
+038004;C469;Cento;;FE;Emilia-Romagna
+038005;C814;Codigoro;;FE;Emilia-Romagna
+038006;C912;Comacchio;;FE;Emilia-Romagna
+038007;C980;Copparo;;FE;Emilia-Romagna
+038008;D548;Ferrara;;FE;Emilia-Romagna
+038010;E320;Jolanda di Savoia;;FE;Emilia-Romagna
+038011;E410;Lagosanto;;FE;Emilia-Romagna
+038012;F016;Masi Torello;;FE;Emilia-Romagna
+038014;F156;Mesola;;FE;Emilia-Romagna
+038017;G184;Ostellato;;FE;Emilia-Romagna
+038018;G768;Poggio Renatico;;FE;Emilia-Romagna
+038019;G916;Portomaggiore;;FE;Emilia-Romagna
+038022;L868;Vigarano Mainarda;;FE;Emilia-Romagna
+038023;M110;Voghiera;;FE;Emilia-Romagna
+038025;E107;Goro;;FE;Emilia-Romagna
+038027;M323;Fiscaglia;;FE;Emilia-Romagna
+038028;M381;Terre del Reno;;FE;Emilia-Romagna
+038029;M410;Riva del Po;;FE;Emilia-Romagna
+038030;M409;Tresignana;;FE;Emilia-Romagna
+039001;A191;Alfonsine;;RA;Emilia-Romagna
+039002;A547;Bagnacavallo;;RA;Emilia-Romagna
+039003;A551;Bagnara di Romagna;;RA;Emilia-Romagna
+039004;B188;Brisighella;;RA;Emilia-Romagna
+039005;B982;Casola Valsenio;;RA;Emilia-Romagna
+039006;C065;Castel Bolognese;;RA;Emilia-Romagna
+039007;C553;Cervia;;RA;Emilia-Romagna
+039008;C963;Conselice;;RA;Emilia-Romagna
+039009;D121;Cotignola;;RA;Emilia-Romagna
+039010;D458;Faenza;;RA;Emilia-Romagna
+039011;D829;Fusignano;;RA;Emilia-Romagna
+039012;E730;Lugo;;RA;Emilia-Romagna
+039013;F029;Massa Lombarda;;RA;Emilia-Romagna
+039014;H199;Ravenna;;RA;Emilia-Romagna
+039015;H302;Riolo Terme;;RA;Emilia-Romagna
+039016;H642;Russi;;RA;Emilia-Romagna
+039017;I196;Sant'Agata sul Santerno;;RA;Emilia-Romagna
+039018;I787;Solarolo;;RA;Emilia-Romagna
+040001;A565;Bagno di Romagna;;FC;Emilia-Romagna
+040003;A809;Bertinoro;;FC;Emilia-Romagna
+040004;B001;Borghi;;FC;Emilia-Romagna
+040005;C339;Castrocaro Terme e Terra del Sole;;FC;Emilia-Romagna
+040007;C573;Cesena;;FC;Emilia-Romagna
+040008;C574;Cesenatico;;FC;Emilia-Romagna
+040009;C777;Civitella di Romagna;;FC;Emilia-Romagna
+040011;D357;Dovadola;;FC;Emilia-Romagna
+040012;D704;Forlì;;FC;Emilia-Romagna
+040013;D705;Forlimpopoli;;FC;Emilia-Romagna
+040014;D867;Galeata;;FC;Emilia-Romagna
+040015;D899;Gambettola;;FC;Emilia-Romagna
+040016;D935;Gatteo;;FC;Emilia-Romagna
+040018;E675;Longiano;;FC;Emilia-Romagna
+040019;F097;Meldola;;FC;Emilia-Romagna
+040020;F139;Mercato Saraceno;;FC;Emilia-Romagna
+040022;F259;Modigliana;;FC;Emilia-Romagna
+040028;F668;Montiano;;FC;Emilia-Romagna
+040031;G904;Portico e San Benedetto;;FC;Emilia-Romagna
+040032;H017;Predappio;;FC;Emilia-Romagna
+040033;H034;Premilcuore;;FC;Emilia-Romagna
+040036;H437;Rocca San Casciano;;FC;Emilia-Romagna
+040037;H542;Roncofreddo;;FC;Emilia-Romagna
+040041;I027;San Mauro Pascoli;;FC;Emilia-Romagna
+040043;I310;Santa Sofia;;FC;Emilia-Romagna
+040044;I444;Sarsina;;FC;Emilia-Romagna
+040045;I472;Savignano sul Rubicone;;FC;Emilia-Romagna
+040046;I779;Sogliano al Rubicone;;FC;Emilia-Romagna
+040049;L361;Tredozio;;FC;Emilia-Romagna
+040050;L764;Verghereto;;FC;Emilia-Romagna
+041001;A035;Acqualagna;;PU;Marche
+041002;A327;Apecchio;;PU;Marche
+041005;A740;Belforte all'Isauro;;PU;Marche
+041006;B026;Borgo Pace;;PU;Marche
+041007;B352;Cagli;;PU;Marche
+041008;B636;Cantiano;;PU;Marche
+041009;B816;Carpegna;;PU;Marche
+041010;B846;Cartoceto;;PU;Marche
+041013;D488;Fano;;PU;Marche
+041014;D541;Fermignano;;PU;Marche
+041015;D749;Fossombrone;;PU;Marche
+041016;D791;Fratte Rosa;;PU;Marche
+041017;D807;Frontino;;PU;Marche
+041018;D808;Frontone;;PU;Marche
+041019;D836;Gabicce Mare;;PU;Marche
+041020;E122;Gradara;;PU;Marche
+041021;E351;Isola del Piano;;PU;Marche
+041022;E743;Lunano;;PU;Marche
+041023;E785;Macerata Feltria;;PU;Marche
+041025;F135;Mercatello sul Metauro;;PU;Marche
+041026;F136;Mercatino Conca;;PU;Marche
+041027;F310;Mombaroccio;;PU;Marche
+041028;F347;Mondavio;;PU;Marche
+041029;F348;Mondolfo;;PU;Marche
+041030;F450;Montecalvo in Foglia;;PU;Marche
+041031;F467;Monte Cerignone;;PU;Marche
+041032;F474;Monteciccardo;;PU;Marche
+041033;F478;Montecopiolo;;PU;Marche
+041034;F497;Montefelcino;;PU;Marche
+041035;F524;Monte Grimano Terme;;PU;Marche
+041036;F533;Montelabbate;;PU;Marche
+041038;F589;Monte Porzio;;PU;Marche
+041041;G416;Peglio;;PU;Marche
+041043;G453;Pergola;;PU;Marche
+041044;G479;Pesaro;;PU;Marche
+041045;G514;Petriano;;PU;Marche
+041047;G551;Piandimeleto;;PU;Marche
+041048;G627;Pietrarubbia;;PU;Marche
+041049;G682;Piobbico;;PU;Marche
+041051;H809;San Costanzo;;PU;Marche
+041054;H958;San Lorenzo in Campo;;PU;Marche
+041057;I287;Sant'Angelo in Vado;;PU;Marche
+041058;I344;Sant'Ippolito;;PU;Marche
+041060;I460;Sassofeltrio;;PU;Marche
+041061;I654;Serra Sant'Abbondio;;PU;Marche
+041064;L078;Tavoleto;;PU;Marche
+041065;L081;Tavullia;;PU;Marche
+041066;L498;Urbania;;PU;Marche
+041067;L500;Urbino;;PU;Marche
+041068;M331;Vallefoglia;;PU;Marche
+041069;M380;Colli al Metauro;;PU;Marche
+041070;M379;Terre Roveresche;;PU;Marche
+041071;M413;Sassocorvaro Auditore;;PU;Marche
+042001;A092;Agugliano;;AN;Marche
+042002;A271;Ancona;;AN;Marche
+042003;A366;Arcevia;;AN;Marche
+042004;A626;Barbara;;AN;Marche
+042005;A769;Belvedere Ostrense;;AN;Marche
+042006;B468;Camerano;;AN;Marche
+042007;B470;Camerata Picena;;AN;Marche
+042008;C060;Castelbellino;;AN;Marche
+042010;C100;Castelfidardo;;AN;Marche
+042011;C152;Castelleone di Suasa;;AN;Marche
+042012;C248;Castelplanio;;AN;Marche
+042013;C524;Cerreto d'Esi;;AN;Marche
+042014;C615;Chiaravalle;;AN;Marche
+042015;D007;Corinaldo;;AN;Marche
+042016;D211;Cupramontana;;AN;Marche
+042017;D451;Fabriano;;AN;Marche
+042018;D472;Falconara Marittima;;AN;Marche
+042019;D597;Filottrano;;AN;Marche
+042020;D965;Genga;;AN;Marche
+042021;E388;Jesi;;AN;Marche
+042022;E690;Loreto;;AN;Marche
+042023;E837;Maiolati Spontini;;AN;Marche
+042024;F145;Mergo;;AN;Marche
+042025;F381;Monsano;;AN;Marche
+042026;F453;Montecarotto;;AN;Marche
+042027;F560;Montemarciano;;AN;Marche
+042029;F600;Monte Roberto;;AN;Marche
+042030;F634;Monte San Vito;;AN;Marche
+042031;F745;Morro d'Alba;;AN;Marche
+042032;F978;Numana;;AN;Marche
+042033;G003;Offagna;;AN;Marche
+042034;G157;Osimo;;AN;Marche
+042035;F401;Ostra;;AN;Marche
+042036;F581;Ostra Vetere;;AN;Marche
+042037;G771;Poggio San Marcello;;AN;Marche
+042038;G803;Polverigi;;AN;Marche
+042040;H575;Rosora;;AN;Marche
+042041;H979;San Marcello;;AN;Marche
+042042;I071;San Paolo di Jesi;;AN;Marche
+042043;I251;Santa Maria Nuova;;AN;Marche
+042044;I461;Sassoferrato;;AN;Marche
+042045;I608;Senigallia;;AN;Marche
+042046;I643;Serra de' Conti;;AN;Marche
+042047;I653;Serra San Quirico;;AN;Marche
+042048;I758;Sirolo;;AN;Marche
+042049;I932;Staffolo;;AN;Marche
+042050;M318;Trecastelli;;AN;Marche
+043002;A329;Apiro;;MC;Marche
+043003;A334;Appignano;;MC;Marche
+043004;A739;Belforte del Chienti;;MC;Marche
+043005;A947;Bolognola;;MC;Marche
+043006;B398;Caldarola;;MC;Marche
+043007;B474;Camerino;;MC;Marche
+043008;B562;Camporotondo di Fiastrone;;MC;Marche
+043009;C251;Castelraimondo;;MC;Marche
+043010;C267;Castelsantangelo sul Nera;;MC;Marche
+043011;C582;Cessapalombo;;MC;Marche
+043012;C704;Cingoli;;MC;Marche
+043013;C770;Civitanova Marche;;MC;Marche
+043014;C886;Colmurano;;MC;Marche
+043015;D042;Corridonia;;MC;Marche
+043016;D429;Esanatoglia;;MC;Marche
+043017;D564;Fiastra;;MC;Marche
+043019;D628;Fiuminata;;MC;Marche
+043020;D853;Gagliole;;MC;Marche
+043021;E228;Gualdo;;MC;Marche
+043022;E694;Loro Piceno;;MC;Marche
+043023;E783;Macerata;;MC;Marche
+043024;F051;Matelica;;MC;Marche
+043025;F268;Mogliano;;MC;Marche
+043026;F454;Montecassiano;;MC;Marche
+043027;F460;Monte Cavallo;;MC;Marche
+043028;F482;Montecosaro;;MC;Marche
+043029;F496;Montefano;;MC;Marche
+043030;F552;Montelupone;;MC;Marche
+043031;F621;Monte San Giusto;;MC;Marche
+043032;F622;Monte San Martino;;MC;Marche
+043033;F749;Morrovalle;;MC;Marche
+043034;F793;Muccia;;MC;Marche
+043035;G436;Penna San Giovanni;;MC;Marche
+043036;G515;Petriolo;;MC;Marche
+043038;G657;Pieve Torina;;MC;Marche
+043039;G690;Pioraco;;MC;Marche
+043040;D566;Poggio San Vicino;;MC;Marche
+043041;F567;Pollenza;;MC;Marche
+043042;G919;Porto Recanati;;MC;Marche
+043043;F632;Potenza Picena;;MC;Marche
+043044;H211;Recanati;;MC;Marche
+043045;H323;Ripe San Ginesio;;MC;Marche
+043046;H876;San Ginesio;;MC;Marche
+043047;I156;San Severino Marche;;MC;Marche
+043048;I286;Sant'Angelo in Pontano;;MC;Marche
+043049;I436;Sarnano;;MC;Marche
+043050;I569;Sefro;;MC;Marche
+043051;I651;Serrapetrona;;MC;Marche
+043052;I661;Serravalle di Chienti;;MC;Marche
+043053;L191;Tolentino;;MC;Marche
+043054;L366;Treia;;MC;Marche
+043055;L501;Urbisaglia;;MC;Marche
+043056;L517;Ussita;;MC;Marche
+043057;M078;Visso;;MC;Marche
+043058;M382;Valfornace;;MC;Marche
+044001;A044;Acquasanta Terme;;AP;Marche
+044002;A047;Acquaviva Picena;;AP;Marche
+044005;A335;Appignano del Tronto;;AP;Marche
+044006;A437;Arquata del Tronto;;AP;Marche
+044007;A462;Ascoli Piceno;;AP;Marche
+044010;B727;Carassai;;AP;Marche
+044011;C093;Castel di Lama;;AP;Marche
+044012;C321;Castignano;;AP;Marche
+044013;C331;Castorano;;AP;Marche
+044014;C877;Colli del Tronto;;AP;Marche
+044015;C935;Comunanza;;AP;Marche
+044016;D096;Cossignano;;AP;Marche
+044017;D210;Cupra Marittima;;AP;Marche
+044020;D652;Folignano;;AP;Marche
+044021;D691;Force;;AP;Marche
+044023;E207;Grottammare;;AP;Marche
+044027;E868;Maltignano;;AP;Marche
+044029;F044;Massignano;;AP;Marche
+044031;F380;Monsampolo del Tronto;;AP;Marche
+044032;F415;Montalto delle Marche;;AP;Marche
+044034;F487;Montedinove;;AP;Marche
+044036;F501;Montefiore dell'Aso;;AP;Marche
+044038;F516;Montegallo;;AP;Marche
+044044;F570;Montemonaco;;AP;Marche
+044045;F591;Monteprandone;;AP;Marche
+044054;G005;Offida;;AP;Marche
+044056;G289;Palmiano;;AP;Marche
+044063;H321;Ripatransone;;AP;Marche
+044064;H390;Roccafluvione;;AP;Marche
+044065;H588;Rotella;;AP;Marche
+044066;H769;San Benedetto del Tronto;;AP;Marche
+044071;I912;Spinetoli;;AP;Marche
+044073;L728;Venarotta;;AP;Marche
+045001;A496;Aulla;;MS;Toscana
+045002;A576;Bagnone;;MS;Toscana
+045003;B832;Carrara;;MS;Toscana
+045004;B979;Casola in Lunigiana;;MS;Toscana
+045005;C914;Comano;;MS;Toscana
+045006;D590;Filattiera;;MS;Toscana
+045007;D629;Fivizzano;;MS;Toscana
+045008;D735;Fosdinovo;;MS;Toscana
+045009;E574;Licciana Nardi;;MS;Toscana
+045010;F023;Massa;;MS;Toscana
+045011;F679;Montignoso;;MS;Toscana
+045012;F802;Mulazzo;;MS;Toscana
+045013;G746;Podenzana;;MS;Toscana
+045014;G870;Pontremoli;;MS;Toscana
+045015;L386;Tresana;;MS;Toscana
+045016;L946;Villafranca in Lunigiana;;MS;Toscana
+045017;M169;Zeri;;MS;Toscana
+046001;A241;Altopascio;;LU;Toscana
+046002;A560;Bagni di Lucca;;LU;Toscana
+046003;A657;Barga;;LU;Toscana
+046004;B007;Borgo a Mozzano;;LU;Toscana
+046005;B455;Camaiore;;LU;Toscana
+046006;B557;Camporgiano;;LU;Toscana
+046007;B648;Capannori;;LU;Toscana
+046008;B760;Careggine;;LU;Toscana
+046009;C236;Castelnuovo di Garfagnana;;LU;Toscana
+046010;C303;Castiglione di Garfagnana;;LU;Toscana
+046011;C996;Coreglia Antelminelli;;LU;Toscana
+046013;D730;Forte dei Marmi;;LU;Toscana
+046014;D734;Fosciandora;;LU;Toscana
+046015;D874;Gallicano;;LU;Toscana
+046017;E715;Lucca;;LU;Toscana
+046018;F035;Massarosa;;LU;Toscana
+046019;F225;Minucciano;;LU;Toscana
+046020;F283;Molazzana;;LU;Toscana
+046021;F452;Montecarlo;;LU;Toscana
+046022;G480;Pescaglia;;LU;Toscana
+046023;G582;Piazza al Serchio;;LU;Toscana
+046024;G628;Pietrasanta;;LU;Toscana
+046025;G648;Pieve Fosciana;;LU;Toscana
+046026;G882;Porcari;;LU;Toscana
+046027;I142;San Romano in Garfagnana;;LU;Toscana
+046028;I622;Seravezza;;LU;Toscana
+046030;I942;Stazzema;;LU;Toscana
+046031;L533;Vagli Sotto;;LU;Toscana
+046033;L833;Viareggio;;LU;Toscana
+046034;L913;Villa Basilica;;LU;Toscana
+046035;L926;Villa Collemandina;;LU;Toscana
+046036;M319;Fabbriche di Vergemoli;;LU;Toscana
+046037;M347;Sillano Giuncugnano;;LU;Toscana
+047002;A071;Agliana;;PT;Toscana
+047003;B251;Buggiano;;PT;Toscana
+047005;E432;Lamporecchio;;PT;Toscana
+047006;E451;Larciano;;PT;Toscana
+047007;E960;Marliana;;PT;Toscana
+047008;F025;Massa e Cozzile;;PT;Toscana
+047009;F384;Monsummano Terme;;PT;Toscana
+047010;F410;Montale;;PT;Toscana
+047011;A561;Montecatini-Terme;;PT;Toscana
+047012;G491;Pescia;;PT;Toscana
+047013;G636;Pieve a Nievole;;PT;Toscana
+047014;G713;Pistoia;;PT;Toscana
+047016;G833;Ponte Buggianese;;PT;Toscana
+047017;H109;Quarrata;;PT;Toscana
+047018;H744;Sambuca Pistoiese;;PT;Toscana
+047020;I660;Serravalle Pistoiese;;PT;Toscana
+047021;L522;Uzzano;;PT;Toscana
+047022;C631;Chiesina Uzzanese;;PT;Toscana
+047023;M376;Abetone Cutigliano;;PT;Toscana
+047024;M377;San Marcello Piteglio;;PT;Toscana
+048001;A564;Bagno a Ripoli;;FI;Toscana
+048002;A632;Barberino di Mugello;;FI;Toscana
+048004;B036;Borgo San Lorenzo;;FI;Toscana
+048005;B406;Calenzano;;FI;Toscana
+048006;B507;Campi Bisenzio;;FI;Toscana
+048008;B684;Capraia e Limite;;FI;Toscana
+048010;C101;Castelfiorentino;;FI;Toscana
+048011;C529;Cerreto Guidi;;FI;Toscana
+048012;C540;Certaldo;;FI;Toscana
+048013;D299;Dicomano;;FI;Toscana
+048014;D403;Empoli;;FI;Toscana
+048015;D575;Fiesole;;FI;Toscana
+048017;D612;Firenze;;FI;Toscana
+048018;D613;Firenzuola;;FI;Toscana
+048019;D815;Fucecchio;;FI;Toscana
+048020;D895;Gambassi Terme;;FI;Toscana
+048021;E169;Greve in Chianti;;FI;Toscana
+048022;E291;Impruneta;;FI;Toscana
+048024;E466;Lastra a Signa;;FI;Toscana
+048025;E668;Londa;;FI;Toscana
+048026;E971;Marradi;;FI;Toscana
+048027;F398;Montaione;;FI;Toscana
+048028;F551;Montelupo Fiorentino;;FI;Toscana
+048030;F648;Montespertoli;;FI;Toscana
+048031;G270;Palazzuolo sul Senio;;FI;Toscana
+048032;G420;Pelago;;FI;Toscana
+048033;G825;Pontassieve;;FI;Toscana
+048035;H222;Reggello;;FI;Toscana
+048036;H286;Rignano sull'Arno;;FI;Toscana
+048037;H635;Rufina;;FI;Toscana
+048038;H791;San Casciano in Val di Pesa;;FI;Toscana
+048039;H937;San Godenzo;;FI;Toscana
+048041;B962;Scandicci;;FI;Toscana
+048043;I684;Sesto Fiorentino;;FI;Toscana
+048044;I728;Signa;;FI;Toscana
+048046;L529;Vaglia;;FI;Toscana
+048049;L838;Vicchio;;FI;Toscana
+048050;M059;Vinci;;FI;Toscana
+048052;M321;Figline e Incisa Valdarno;;FI;Toscana
+048053;M326;Scarperia e San Piero;;FI;Toscana
+048054;M408;Barberino Tavarnelle;;FI;Toscana
+049001;A852;Bibbona;;LI;Toscana
+049002;B509;Campiglia Marittima;;LI;Toscana
+049003;B553;Campo nell'Elba;;LI;Toscana
+049004;B669;Capoliveri;;LI;Toscana
+049005;B685;Capraia Isola;;LI;Toscana
+049006;C044;Castagneto Carducci;;LI;Toscana
+049007;C415;Cecina;;LI;Toscana
+049008;C869;Collesalvetti;;LI;Toscana
+049009;E625;Livorno;;LI;Toscana
+049010;E930;Marciana;;LI;Toscana
+049011;E931;Marciana Marina;;LI;Toscana
+049012;G687;Piombino;;LI;Toscana
+049013;E680;Porto Azzurro;;LI;Toscana
+049014;G912;Portoferraio;;LI;Toscana
+049017;H570;Rosignano Marittimo;;LI;Toscana
+049018;I390;San Vincenzo;;LI;Toscana
+049019;I454;Sassetta;;LI;Toscana
+049020;L019;Suvereto;;LI;Toscana
+049021;M391;Rio;;LI;Toscana
+050001;A864;Bientina;;PI;Toscana
+050002;B303;Buti;;PI;Toscana
+050003;B390;Calci;;PI;Toscana
+050004;B392;Calcinaia;;PI;Toscana
+050005;B647;Capannoli;;PI;Toscana
+050006;B878;Casale Marittimo;;PI;Toscana
+050008;B950;Cascina;;PI;Toscana
+050009;C113;Castelfranco di Sotto;;PI;Toscana
+050010;C174;Castellina Marittima;;PI;Toscana
+050011;C244;Castelnuovo di Val di Cecina;;PI;Toscana
+050012;C609;Chianni;;PI;Toscana
+050014;D510;Fauglia;;PI;Toscana
+050015;E250;Guardistallo;;PI;Toscana
+050016;E413;Lajatico;;PI;Toscana
+050019;F458;Montecatini Val di Cecina;;PI;Toscana
+050020;F640;Montescudaio;;PI;Toscana
+050021;F661;Monteverdi Marittimo;;PI;Toscana
+050022;F686;Montopoli in Val d'Arno;;PI;Toscana
+050023;G090;Orciano Pisano;;PI;Toscana
+050024;G254;Palaia;;PI;Toscana
+050025;G395;Peccioli;;PI;Toscana
+050026;G702;Pisa;;PI;Toscana
+050027;G804;Pomarance;;PI;Toscana
+050028;G822;Ponsacco;;PI;Toscana
+050029;G843;Pontedera;;PI;Toscana
+050030;H319;Riparbella;;PI;Toscana
+050031;A562;San Giuliano Terme;;PI;Toscana
+050032;I046;San Miniato;;PI;Toscana
+050033;I177;Santa Croce sull'Arno;;PI;Toscana
+050034;I217;Santa Luce;;PI;Toscana
+050035;I232;Santa Maria a Monte;;PI;Toscana
+050036;L138;Terricciola;;PI;Toscana
+050037;L702;Vecchiano;;PI;Toscana
+050038;L850;Vicopisano;;PI;Toscana
+050039;M126;Volterra;;PI;Toscana
+050040;M327;Casciana Terme Lari;;PI;Toscana
+050041;M328;Crespina Lorenzana;;PI;Toscana
+051001;A291;Anghiari;;AR;Toscana
+051002;A390;Arezzo;;AR;Toscana
+051003;A541;Badia Tedalda;;AR;Toscana
+051004;A851;Bibbiena;;AR;Toscana
+051005;B243;Bucine;;AR;Toscana
+051006;B670;Capolona;;AR;Toscana
+051007;B693;Caprese Michelangelo;;AR;Toscana
+051008;C102;Castel Focognano;;AR;Toscana
+051010;C263;Castel San Niccolò;;AR;Toscana
+051011;C318;Castiglion Fibocchi;;AR;Toscana
+051012;C319;Castiglion Fiorentino;;AR;Toscana
+051013;C407;Cavriglia;;AR;Toscana
+051014;C648;Chitignano;;AR;Toscana
+051015;C663;Chiusi della Verna;;AR;Toscana
+051016;C774;Civitella in Val di Chiana;;AR;Toscana
+051017;D077;Cortona;;AR;Toscana
+051018;D649;Foiano della Chiana;;AR;Toscana
+051020;E693;Loro Ciuffenna;;AR;Toscana
+051021;E718;Lucignano;;AR;Toscana
+051022;E933;Marciano della Chiana;;AR;Toscana
+051023;F565;Montemignaio;;AR;Toscana
+051024;F594;Monterchi;;AR;Toscana
+051025;F628;Monte San Savino;;AR;Toscana
+051026;F656;Montevarchi;;AR;Toscana
+051027;G139;Ortignano Raggiolo;;AR;Toscana
+051030;G653;Pieve Santo Stefano;;AR;Toscana
+051031;G879;Poppi;;AR;Toscana
+051033;H901;San Giovanni Valdarno;;AR;Toscana
+051034;I155;Sansepolcro;;AR;Toscana
+051035;I681;Sestino;;AR;Toscana
+051037;I991;Subbiano;;AR;Toscana
+051038;L038;Talla;;AR;Toscana
+051039;L123;Terranuova Bracciolini;;AR;Toscana
+051040;M322;Castelfranco Piandiscò;;AR;Toscana
+051041;M329;Pratovecchio Stia;;AR;Toscana
+051042;M392;Laterina Pergine Valdarno;;AR;Toscana
+052001;A006;Abbadia San Salvatore;;SI;Toscana
+052002;A461;Asciano;;SI;Toscana
+052003;B269;Buonconvento;;SI;Toscana
+052004;B984;Casole d'Elsa;;SI;Toscana
+052005;C172;Castellina in Chianti;;SI;Toscana
+052006;C227;Castelnuovo Berardenga;;SI;Toscana
+052007;C313;Castiglione d'Orcia;;SI;Toscana
+052008;C587;Cetona;;SI;Toscana
+052009;C608;Chianciano Terme;;SI;Toscana
+052010;C661;Chiusdino;;SI;Toscana
+052011;C662;Chiusi;;SI;Toscana
+052012;C847;Colle di Val d'Elsa;;SI;Toscana
+052013;D858;Gaiole in Chianti;;SI;Toscana
+052015;F592;Montepulciano;;SI;Toscana
+052016;F598;Monteriggioni;;SI;Toscana
+052017;F605;Monteroni d'Arbia;;SI;Toscana
+052018;F676;Monticiano;;SI;Toscana
+052019;F815;Murlo;;SI;Toscana
+052020;G547;Piancastagnaio;;SI;Toscana
+052021;G602;Pienza;;SI;Toscana
+052022;G752;Poggibonsi;;SI;Toscana
+052023;H153;Radda in Chianti;;SI;Toscana
+052024;H156;Radicofani;;SI;Toscana
+052025;H157;Radicondoli;;SI;Toscana
+052026;H185;Rapolano Terme;;SI;Toscana
+052027;H790;San Casciano dei Bagni;;SI;Toscana
+052028;H875;San Gimignano;;SI;Toscana
+052030;I135;San Quirico d'Orcia;;SI;Toscana
+052031;I445;Sarteano;;SI;Toscana
+052032;I726;Siena;;SI;Toscana
+052033;A468;Sinalunga;;SI;Toscana
+052034;I877;Sovicille;;SI;Toscana
+052035;L303;Torrita di Siena;;SI;Toscana
+052036;L384;Trequanda;;SI;Toscana
+052037;M378;Montalcino;;SI;Toscana
+053001;A369;Arcidosso;;GR;Toscana
+053002;B497;Campagnatico;;GR;Toscana
+053003;B646;Capalbio;;GR;Toscana
+053004;C085;Castel del Piano;;GR;Toscana
+053005;C147;Castell'Azzara;;GR;Toscana
+053006;C310;Castiglione della Pescaia;;GR;Toscana
+053007;C705;Cinigiano;;GR;Toscana
+053008;C782;Civitella Paganico;;GR;Toscana
+053009;D656;Follonica;;GR;Toscana
+053010;D948;Gavorrano;;GR;Toscana
+053011;E202;Grosseto;;GR;Toscana
+053012;E348;Isola del Giglio;;GR;Toscana
+053013;E810;Magliano in Toscana;;GR;Toscana
+053014;E875;Manciano;;GR;Toscana
+053015;F032;Massa Marittima;;GR;Toscana
+053016;F437;Monte Argentario;;GR;Toscana
+053017;F677;Montieri;;GR;Toscana
+053018;G088;Orbetello;;GR;Toscana
+053019;G716;Pitigliano;;GR;Toscana
+053020;H417;Roccalbegna;;GR;Toscana
+053021;H449;Roccastrada;;GR;Toscana
+053022;I187;Santa Fiora;;GR;Toscana
+053023;I504;Scansano;;GR;Toscana
+053024;I510;Scarlino;;GR;Toscana
+053025;I571;Seggiano;;GR;Toscana
+053026;I841;Sorano;;GR;Toscana
+053027;F612;Monterotondo Marittimo;;GR;Toscana
+053028;I601;Semproniano;;GR;Toscana
+054001;A475;Assisi;;PG;Umbria
+054002;A710;Bastia Umbra;;PG;Umbria
+054003;A832;Bettona;;PG;Umbria
+054004;A835;Bevagna;;PG;Umbria
+054005;B504;Campello sul Clitunno;;PG;Umbria
+054006;B609;Cannara;;PG;Umbria
+054007;B948;Cascia;;PG;Umbria
+054008;C252;Castel Ritaldi;;PG;Umbria
+054009;C309;Castiglione del Lago;;PG;Umbria
+054010;C527;Cerreto di Spoleto;;PG;Umbria
+054011;C742;Citerna;;PG;Umbria
+054012;C744;Città della Pieve;;PG;Umbria
+054013;C745;Città di Castello;;PG;Umbria
+054014;C845;Collazzone;;PG;Umbria
+054015;C990;Corciano;;PG;Umbria
+054016;D108;Costacciaro;;PG;Umbria
+054017;D279;Deruta;;PG;Umbria
+054018;D653;Foligno;;PG;Umbria
+054019;D745;Fossato di Vico;;PG;Umbria
+054020;D787;Fratta Todina;;PG;Umbria
+054021;E012;Giano dell'Umbria;;PG;Umbria
+054022;E229;Gualdo Cattaneo;;PG;Umbria
+054023;E230;Gualdo Tadino;;PG;Umbria
+054024;E256;Gubbio;;PG;Umbria
+054025;E613;Lisciano Niccone;;PG;Umbria
+054026;E805;Magione;;PG;Umbria
+054027;E975;Marsciano;;PG;Umbria
+054028;F024;Massa Martana;;PG;Umbria
+054029;F456;Monte Castello di Vibio;;PG;Umbria
+054030;F492;Montefalco;;PG;Umbria
+054031;F540;Monteleone di Spoleto;;PG;Umbria
+054032;F629;Monte Santa Maria Tiberina;;PG;Umbria
+054033;F685;Montone;;PG;Umbria
+054034;F911;Nocera Umbra;;PG;Umbria
+054035;F935;Norcia;;PG;Umbria
+054036;G212;Paciano;;PG;Umbria
+054037;G308;Panicale;;PG;Umbria
+054038;G359;Passignano sul Trasimeno;;PG;Umbria
+054039;G478;Perugia;;PG;Umbria
+054040;G601;Piegaro;;PG;Umbria
+054041;G618;Pietralunga;;PG;Umbria
+054042;G758;Poggiodomo;;PG;Umbria
+054043;H015;Preci;;PG;Umbria
+054044;H935;San Giustino;;PG;Umbria
+054045;I263;Sant'Anatolia di Narco;;PG;Umbria
+054046;I522;Scheggia e Pascelupo;;PG;Umbria
+054047;I523;Scheggino;;PG;Umbria
+054048;I585;Sellano;;PG;Umbria
+054049;I727;Sigillo;;PG;Umbria
+054050;I888;Spello;;PG;Umbria
+054051;I921;Spoleto;;PG;Umbria
+054052;L188;Todi;;PG;Umbria
+054053;L216;Torgiano;;PG;Umbria
+054054;L397;Trevi;;PG;Umbria
+054055;L466;Tuoro sul Trasimeno;;PG;Umbria
+054056;D786;Umbertide;;PG;Umbria
+054057;L573;Valfabbrica;;PG;Umbria
+054058;L627;Vallo di Nera;;PG;Umbria
+054059;L653;Valtopina;;PG;Umbria
+055001;A045;Acquasparta;;TR;Umbria
+055002;A207;Allerona;;TR;Umbria
+055003;A242;Alviano;;TR;Umbria
+055004;A262;Amelia;;TR;Umbria
+055005;A439;Arrone;;TR;Umbria
+055006;A490;Attigliano;;TR;Umbria
+055007;A691;Baschi;;TR;Umbria
+055008;B446;Calvi dell'Umbria;;TR;Umbria
+055009;C117;Castel Giorgio;;TR;Umbria
+055010;C289;Castel Viscardo;;TR;Umbria
+055011;D454;Fabro;;TR;Umbria
+055012;D538;Ferentillo;;TR;Umbria
+055013;D570;Ficulle;;TR;Umbria
+055014;E045;Giove;;TR;Umbria
+055015;E241;Guardea;;TR;Umbria
+055016;E729;Lugnano in Teverina;;TR;Umbria
+055017;F457;Montecastrilli;;TR;Umbria
+055018;F462;Montecchio;;TR;Umbria
+055019;F510;Montefranco;;TR;Umbria
+055020;F513;Montegabbione;;TR;Umbria
+055021;F543;Monteleone d'Orvieto;;TR;Umbria
+055022;F844;Narni;;TR;Umbria
+055023;G148;Orvieto;;TR;Umbria
+055024;G189;Otricoli;;TR;Umbria
+055025;G344;Parrano;;TR;Umbria
+055026;G432;Penna in Teverina;;TR;Umbria
+055027;G790;Polino;;TR;Umbria
+055028;G881;Porano;;TR;Umbria
+055029;H857;San Gemini;;TR;Umbria
+055030;I381;San Venanzo;;TR;Umbria
+055031;I981;Stroncone;;TR;Umbria
+055032;L117;Terni;;TR;Umbria
+055033;M258;Avigliano Umbro;;TR;Umbria
+056001;A040;Acquapendente;;VT;Lazio
+056002;A412;Arlena di Castro;;VT;Lazio
+056003;A577;Bagnoregio;;VT;Lazio
+056004;A628;Barbarano Romano;;VT;Lazio
+056005;A704;Bassano Romano;;VT;Lazio
+056006;A706;Bassano in Teverina;;VT;Lazio
+056007;A857;Blera;;VT;Lazio
+056008;A949;Bolsena;;VT;Lazio
+056009;A955;Bomarzo;;VT;Lazio
+056010;B388;Calcata;;VT;Lazio
+056011;B597;Canepina;;VT;Lazio
+056012;B604;Canino;;VT;Lazio
+056013;B663;Capodimonte;;VT;Lazio
+056014;B688;Capranica;;VT;Lazio
+056015;B691;Caprarola;;VT;Lazio
+056016;B735;Carbognano;;VT;Lazio
+056017;C269;Castel Sant'Elia;;VT;Lazio
+056018;C315;Castiglione in Teverina;;VT;Lazio
+056019;C446;Celleno;;VT;Lazio
+056020;C447;Cellere;;VT;Lazio
+056021;C765;Civita Castellana;;VT;Lazio
+056022;C780;Civitella d'Agliano;;VT;Lazio
+056023;C988;Corchiano;;VT;Lazio
+056024;D452;Fabrica di Roma;;VT;Lazio
+056025;D475;Faleria;;VT;Lazio
+056026;D503;Farnese;;VT;Lazio
+056027;D870;Gallese;;VT;Lazio
+056028;E126;Gradoli;;VT;Lazio
+056029;E128;Graffignano;;VT;Lazio
+056030;E210;Grotte di Castro;;VT;Lazio
+056031;E330;Ischia di Castro;;VT;Lazio
+056032;E467;Latera;;VT;Lazio
+056033;E713;Lubriano;;VT;Lazio
+056034;E978;Marta;;VT;Lazio
+056035;F419;Montalto di Castro;;VT;Lazio
+056036;F499;Montefiascone;;VT;Lazio
+056037;F603;Monte Romano;;VT;Lazio
+056038;F606;Monterosi;;VT;Lazio
+056039;F868;Nepi;;VT;Lazio
+056040;G065;Onano;;VT;Lazio
+056041;G111;Oriolo Romano;;VT;Lazio
+056042;G135;Orte;;VT;Lazio
+056043;G571;Piansano;;VT;Lazio
+056044;H071;Proceno;;VT;Lazio
+056045;H534;Ronciglione;;VT;Lazio
+056046;H913;Villa San Giovanni in Tuscia;;VT;Lazio
+056047;H969;San Lorenzo Nuovo;;VT;Lazio
+056048;I855;Soriano nel Cimino;;VT;Lazio
+056049;L017;Sutri;;VT;Lazio
+056050;D024;Tarquinia;;VT;Lazio
+056051;L150;Tessennano;;VT;Lazio
+056052;L310;Tuscania;;VT;Lazio
+056053;L569;Valentano;;VT;Lazio
+056054;L612;Vallerano;;VT;Lazio
+056055;A701;Vasanello;;VT;Lazio
+056056;L713;Vejano;;VT;Lazio
+056057;L814;Vetralla;;VT;Lazio
+056058;L882;Vignanello;;VT;Lazio
+056059;M082;Viterbo;;VT;Lazio
+056060;M086;Vitorchiano;;VT;Lazio
+057001;A019;Accumoli;;RI;Lazio
+057002;A258;Amatrice;;RI;Lazio
+057003;A315;Antrodoco;;RI;Lazio
+057004;A464;Ascrea;;RI;Lazio
+057005;A765;Belmonte in Sabina;;RI;Lazio
+057006;A981;Borbona;;RI;Lazio
+057007;B008;Borgorose;;RI;Lazio
+057008;A996;Borgo Velino;;RI;Lazio
+057009;B627;Cantalice;;RI;Lazio
+057010;B631;Cantalupo in Sabina;;RI;Lazio
+057011;B934;Casaprota;;RI;Lazio
+057012;A472;Casperia;;RI;Lazio
+057013;C098;Castel di Tora;;RI;Lazio
+057014;C224;Castelnuovo di Farfa;;RI;Lazio
+057015;C268;Castel Sant'Angelo;;RI;Lazio
+057016;C746;Cittaducale;;RI;Lazio
+057017;C749;Cittareale;;RI;Lazio
+057018;C841;Collalto Sabino;;RI;Lazio
+057019;C857;Colle di Tora;;RI;Lazio
+057020;C859;Collegiove;;RI;Lazio
+057021;C876;Collevecchio;;RI;Lazio
+057022;C880;Colli sul Velino;;RI;Lazio
+057023;C946;Concerviano;;RI;Lazio
+057024;C959;Configni;;RI;Lazio
+057025;C969;Contigliano;;RI;Lazio
+057026;D124;Cottanello;;RI;Lazio
+057027;D493;Fara in Sabina;;RI;Lazio
+057028;D560;Fiamignano;;RI;Lazio
+057029;D689;Forano;;RI;Lazio
+057030;D785;Frasso Sabino;;RI;Lazio
+057031;E160;Greccio;;RI;Lazio
+057032;E393;Labro;;RI;Lazio
+057033;E535;Leonessa;;RI;Lazio
+057034;E681;Longone Sabino;;RI;Lazio
+057035;E812;Magliano Sabina;;RI;Lazio
+057036;E927;Marcetelli;;RI;Lazio
+057037;F193;Micigliano;;RI;Lazio
+057038;F319;Mompeo;;RI;Lazio
+057039;F430;Montasola;;RI;Lazio
+057040;F446;Montebuono;;RI;Lazio
+057041;F541;Monteleone Sabino;;RI;Lazio
+057042;F579;Montenero Sabino;;RI;Lazio
+057043;F619;Monte San Giovanni in Sabina;;RI;Lazio
+057044;F687;Montopoli di Sabina;;RI;Lazio
+057045;F746;Morro Reatino;;RI;Lazio
+057046;F876;Nespolo;;RI;Lazio
+057047;B595;Orvinio;;RI;Lazio
+057048;G232;Paganico Sabino;;RI;Lazio
+057049;G498;Pescorocchiano;;RI;Lazio
+057050;G513;Petrella Salto;;RI;Lazio
+057051;G756;Poggio Bustone;;RI;Lazio
+057052;G757;Poggio Catino;;RI;Lazio
+057053;G763;Poggio Mirteto;;RI;Lazio
+057054;G764;Poggio Moiano;;RI;Lazio
+057055;G765;Poggio Nativo;;RI;Lazio
+057056;G770;Poggio San Lorenzo;;RI;Lazio
+057057;G934;Posta;;RI;Lazio
+057058;G951;Pozzaglia Sabina;;RI;Lazio
+057059;H282;Rieti;;RI;Lazio
+057060;H354;Rivodutri;;RI;Lazio
+057061;H427;Roccantica;;RI;Lazio
+057062;H446;Rocca Sinibalda;;RI;Lazio
+057063;H713;Salisano;;RI;Lazio
+057064;I499;Scandriglia;;RI;Lazio
+057065;I581;Selci;;RI;Lazio
+057066;I959;Stimigliano;;RI;Lazio
+057067;L046;Tarano;;RI;Lazio
+057068;L189;Toffia;;RI;Lazio
+057069;L293;Torricella in Sabina;;RI;Lazio
+057070;L286;Torri in Sabina;;RI;Lazio
+057071;G507;Turania;;RI;Lazio
+057072;L525;Vacone;;RI;Lazio
+057073;L676;Varco Sabino;;RI;Lazio
+058001;A062;Affile;;RM;Lazio
+058002;A084;Agosta;;RM;Lazio
+058003;A132;Albano Laziale;;RM;Lazio
+058004;A210;Allumiere;;RM;Lazio
+058005;A297;Anguillara Sabazia;;RM;Lazio
+058006;A309;Anticoli Corrado;;RM;Lazio
+058007;A323;Anzio;;RM;Lazio
+058008;A370;Arcinazzo Romano;;RM;Lazio
+058009;A401;Ariccia;;RM;Lazio
+058010;A446;Arsoli;;RM;Lazio
+058011;A449;Artena;;RM;Lazio
+058012;A749;Bellegra;;RM;Lazio
+058013;B114;Bracciano;;RM;Lazio
+058014;B472;Camerata Nuova;;RM;Lazio
+058015;B496;Campagnano di Roma;;RM;Lazio
+058016;B576;Canale Monterano;;RM;Lazio
+058017;B635;Canterano;;RM;Lazio
+058018;B649;Capena;;RM;Lazio
+058019;B687;Capranica Prenestina;;RM;Lazio
+058020;B828;Carpineto Romano;;RM;Lazio
+058021;B932;Casape;;RM;Lazio
+058022;C116;Castel Gandolfo;;RM;Lazio
+058023;C203;Castel Madama;;RM;Lazio
+058024;C237;Castelnuovo di Porto;;RM;Lazio
+058025;C266;Castel San Pietro Romano;;RM;Lazio
+058026;C390;Cave;;RM;Lazio
+058027;C518;Cerreto Laziale;;RM;Lazio
+058028;C543;Cervara di Roma;;RM;Lazio
+058029;C552;Cerveteri;;RM;Lazio
+058030;C677;Ciciliano;;RM;Lazio
+058031;C702;Cineto Romano;;RM;Lazio
+058032;C773;Civitavecchia;;RM;Lazio
+058033;C784;Civitella San Paolo;;RM;Lazio
+058034;C858;Colleferro;;RM;Lazio
+058035;C900;Colonna;;RM;Lazio
+058036;D561;Fiano Romano;;RM;Lazio
+058037;D586;Filacciano;;RM;Lazio
+058038;D707;Formello;;RM;Lazio
+058039;D773;Frascati;;RM;Lazio
+058040;D875;Gallicano nel Lazio;;RM;Lazio
+058041;D945;Gavignano;;RM;Lazio
+058042;D964;Genazzano;;RM;Lazio
+058043;D972;Genzano di Roma;;RM;Lazio
+058044;D978;Gerano;;RM;Lazio
+058045;E091;Gorga;;RM;Lazio
+058046;E204;Grottaferrata;;RM;Lazio
+058047;E263;Guidonia Montecelio;;RM;Lazio
+058048;E382;Jenne;;RM;Lazio
+058049;E392;Labico;;RM;Lazio
+058050;C767;Lanuvio;;RM;Lazio
+058051;E576;Licenza;;RM;Lazio
+058052;E813;Magliano Romano;;RM;Lazio
+058053;B632;Mandela;;RM;Lazio
+058054;E900;Manziana;;RM;Lazio
+058055;E908;Marano Equo;;RM;Lazio
+058056;E924;Marcellina;;RM;Lazio
+058057;E958;Marino;;RM;Lazio
+058058;F064;Mazzano Romano;;RM;Lazio
+058059;F127;Mentana;;RM;Lazio
+058060;F477;Monte Compatri;;RM;Lazio
+058061;F504;Monteflavio;;RM;Lazio
+058062;F534;Montelanico;;RM;Lazio
+058063;F545;Montelibretti;;RM;Lazio
+058064;F590;Monte Porzio Catone;;RM;Lazio
+058065;F611;Monterotondo;;RM;Lazio
+058066;F692;Montorio Romano;;RM;Lazio
+058067;F730;Moricone;;RM;Lazio
+058068;F734;Morlupo;;RM;Lazio
+058069;F857;Nazzano;;RM;Lazio
+058070;F865;Nemi;;RM;Lazio
+058071;F871;Nerola;;RM;Lazio
+058072;F880;Nettuno;;RM;Lazio
+058073;G022;Olevano Romano;;RM;Lazio
+058074;G274;Palestrina;;RM;Lazio
+058075;G293;Palombara Sabina;;RM;Lazio
+058076;G444;Percile;;RM;Lazio
+058077;G704;Pisoniano;;RM;Lazio
+058078;G784;Poli;;RM;Lazio
+058079;G811;Pomezia;;RM;Lazio
+058080;G874;Ponzano Romano;;RM;Lazio
+058081;H267;Riano;;RM;Lazio
+058082;H288;Rignano Flaminio;;RM;Lazio
+058083;H300;Riofreddo;;RM;Lazio
+058084;H387;Rocca Canterano;;RM;Lazio
+058085;H401;Rocca di Cave;;RM;Lazio
+058086;H404;Rocca di Papa;;RM;Lazio
+058087;H411;Roccagiovine;;RM;Lazio
+058088;H432;Rocca Priora;;RM;Lazio
+058089;H441;Rocca Santo Stefano;;RM;Lazio
+058090;H494;Roiate;;RM;Lazio
+058091;H501;Roma;;RM;Lazio
+058092;H618;Roviano;;RM;Lazio
+058093;H658;Sacrofano;;RM;Lazio
+058094;H745;Sambuci;;RM;Lazio
+058095;H942;San Gregorio da Sassola;;RM;Lazio
+058096;I125;San Polo dei Cavalieri;;RM;Lazio
+058097;I255;Santa Marinella;;RM;Lazio
+058098;I284;Sant'Angelo Romano;;RM;Lazio
+058099;I352;Sant'Oreste;;RM;Lazio
+058100;I400;San Vito Romano;;RM;Lazio
+058101;I424;Saracinesco;;RM;Lazio
+058102;I573;Segni;;RM;Lazio
+058103;I992;Subiaco;;RM;Lazio
+058104;L182;Tivoli;;RM;Lazio
+058105;L192;Tolfa;;RM;Lazio
+058106;L302;Torrita Tiberina;;RM;Lazio
+058107;L401;Trevignano Romano;;RM;Lazio
+058108;L611;Vallepietra;;RM;Lazio
+058109;L625;Vallinfreda;;RM;Lazio
+058110;L639;Valmontone;;RM;Lazio
+058111;L719;Velletri;;RM;Lazio
+058112;L851;Vicovaro;;RM;Lazio
+058113;M095;Vivaro Romano;;RM;Lazio
+058114;M141;Zagarolo;;RM;Lazio
+058115;M207;Lariano;;RM;Lazio
+058116;M212;Ladispoli;;RM;Lazio
+058117;M213;Ardea;;RM;Lazio
+058118;M272;Ciampino;;RM;Lazio
+058119;M295;San Cesareo;;RM;Lazio
+058120;M297;Fiumicino;;RM;Lazio
+058122;M309;Fonte Nuova;;RM;Lazio
+059001;A341;Aprilia;;LT;Lazio
+059002;A707;Bassiano;;LT;Lazio
+059003;B527;Campodimele;;LT;Lazio
+059004;C104;Castelforte;;LT;Lazio
+059005;C740;Cisterna di Latina;;LT;Lazio
+059006;D003;Cori;;LT;Lazio
+059007;D662;Fondi;;LT;Lazio
+059008;D708;Formia;;LT;Lazio
+059009;D843;Gaeta;;LT;Lazio
+059010;E375;Itri;;LT;Lazio
+059011;E472;Latina;;LT;Lazio
+059012;E527;Lenola;;LT;Lazio
+059013;E798;Maenza;;LT;Lazio
+059014;F224;Minturno;;LT;Lazio
+059015;F616;Monte San Biagio;;LT;Lazio
+059016;F937;Norma;;LT;Lazio
+059017;G865;Pontinia;;LT;Lazio
+059018;G871;Ponza;;LT;Lazio
+059019;G698;Priverno;;LT;Lazio
+059020;H076;Prossedi;;LT;Lazio
+059021;H413;Roccagorga;;LT;Lazio
+059022;H421;Rocca Massima;;LT;Lazio
+059023;H444;Roccasecca dei Volsci;;LT;Lazio
+059024;H647;Sabaudia;;LT;Lazio
+059025;H836;San Felice Circeo;;LT;Lazio
+059026;I339;Santi Cosma e Damiano;;LT;Lazio
+059027;I634;Sermoneta;;LT;Lazio
+059028;I712;Sezze;;LT;Lazio
+059029;I832;Sonnino;;LT;Lazio
+059030;I892;Sperlonga;;LT;Lazio
+059031;I902;Spigno Saturnia;;LT;Lazio
+059032;L120;Terracina;;LT;Lazio
+059033;L742;Ventotene;;LT;Lazio
+060001;A032;Acquafondata;;FR;Lazio
+060002;A054;Acuto;;FR;Lazio
+060003;A123;Alatri;;FR;Lazio
+060004;A244;Alvito;;FR;Lazio
+060005;A256;Amaseno;;FR;Lazio
+060006;A269;Anagni;;FR;Lazio
+060007;A348;Aquino;;FR;Lazio
+060008;A363;Arce;;FR;Lazio
+060009;A421;Arnara;;FR;Lazio
+060010;A433;Arpino;;FR;Lazio
+060011;A486;Atina;;FR;Lazio
+060012;A502;Ausonia;;FR;Lazio
+060013;A763;Belmonte Castello;;FR;Lazio
+060014;A720;Boville Ernica;;FR;Lazio
+060015;B195;Broccostella;;FR;Lazio
+060016;B543;Campoli Appennino;;FR;Lazio
+060017;B862;Casalattico;;FR;Lazio
+060018;B919;Casalvieri;;FR;Lazio
+060019;C034;Cassino;;FR;Lazio
+060020;C177;Castelliri;;FR;Lazio
+060021;C223;Castelnuovo Parano;;FR;Lazio
+060022;C340;Castrocielo;;FR;Lazio
+060023;C338;Castro dei Volsci;;FR;Lazio
+060024;C413;Ceccano;;FR;Lazio
+060025;C479;Ceprano;;FR;Lazio
+060026;C545;Cervaro;;FR;Lazio
+060027;C836;Colfelice;;FR;Lazio
+060028;C864;Collepardo;;FR;Lazio
+060029;C870;Colle San Magno;;FR;Lazio
+060030;C998;Coreno Ausonio;;FR;Lazio
+060031;D440;Esperia;;FR;Lazio
+060032;D483;Falvaterra;;FR;Lazio
+060033;D539;Ferentino;;FR;Lazio
+060034;D591;Filettino;;FR;Lazio
+060035;A310;Fiuggi;;FR;Lazio
+060036;D667;Fontana Liri;;FR;Lazio
+060037;D682;Fontechiari;;FR;Lazio
+060038;D810;Frosinone;;FR;Lazio
+060039;D819;Fumone;;FR;Lazio
+060040;D881;Gallinaro;;FR;Lazio
+060041;E057;Giuliano di Roma;;FR;Lazio
+060042;E236;Guarcino;;FR;Lazio
+060043;E340;Isola del Liri;;FR;Lazio
+060044;F620;Monte San Giovanni Campano;;FR;Lazio
+060045;F740;Morolo;;FR;Lazio
+060046;G276;Paliano;;FR;Lazio
+060047;G362;Pastena;;FR;Lazio
+060048;G374;Patrica;;FR;Lazio
+060049;G500;Pescosolido;;FR;Lazio
+060050;G591;Picinisco;;FR;Lazio
+060051;G592;Pico;;FR;Lazio
+060052;G598;Piedimonte San Germano;;FR;Lazio
+060053;G659;Piglio;;FR;Lazio
+060054;G662;Pignataro Interamna;;FR;Lazio
+060055;G749;Pofi;;FR;Lazio
+060056;G838;Pontecorvo;;FR;Lazio
+060057;G935;Posta Fibreno;;FR;Lazio
+060058;H324;Ripi;;FR;Lazio
+060059;H393;Rocca d'Arce;;FR;Lazio
+060060;H443;Roccasecca;;FR;Lazio
+060061;H779;San Biagio Saracinisco;;FR;Lazio
+060062;H824;San Donato Val di Comino;;FR;Lazio
+060063;H880;San Giorgio a Liri;;FR;Lazio
+060064;H917;San Giovanni Incarico;;FR;Lazio
+060065;I256;Sant'Ambrogio sul Garigliano;;FR;Lazio
+060066;I265;Sant'Andrea del Garigliano;;FR;Lazio
+060067;I302;Sant'Apollinare;;FR;Lazio
+060068;I321;Sant'Elia Fiumerapido;;FR;Lazio
+060069;I351;Santopadre;;FR;Lazio
+060070;I408;San Vittore del Lazio;;FR;Lazio
+060071;I669;Serrone;;FR;Lazio
+060072;I697;Settefrati;;FR;Lazio
+060073;I716;Sgurgola;;FR;Lazio
+060074;I838;Sora;;FR;Lazio
+060075;I973;Strangolagalli;;FR;Lazio
+060076;L009;Supino;;FR;Lazio
+060077;L105;Terelle;;FR;Lazio
+060078;L243;Torre Cajetani;;FR;Lazio
+060079;L290;Torrice;;FR;Lazio
+060080;L398;Trevi nel Lazio;;FR;Lazio
+060081;L437;Trivigliano;;FR;Lazio
+060082;L598;Vallecorsa;;FR;Lazio
+060083;L605;Vallemaio;;FR;Lazio
+060084;L614;Vallerotonda;;FR;Lazio
+060085;L780;Veroli;;FR;Lazio
+060086;L836;Vicalvi;;FR;Lazio
+060087;L843;Vico nel Lazio;;FR;Lazio
+060088;A081;Villa Latina;;FR;Lazio
+060089;L905;Villa Santa Lucia;;FR;Lazio
+060090;I364;Villa Santo Stefano;;FR;Lazio
+060091;M083;Viticuso;;FR;Lazio
+061001;A106;Ailano;;CE;Campania
+061002;A200;Alife;;CE;Campania
+061003;A243;Alvignano;;CE;Campania
+061004;A403;Arienzo;;CE;Campania
+061005;A512;Aversa;;CE;Campania
+061006;A579;Baia e Latina;;CE;Campania
+061007;A755;Bellona;;CE;Campania
+061008;B361;Caianello;;CE;Campania
+061009;B362;Caiazzo;;CE;Campania
+061010;B445;Calvi Risorta;;CE;Campania
+061011;B477;Camigliano;;CE;Campania
+061012;B581;Cancello ed Arnone;;CE;Campania
+061013;B667;Capodrise;;CE;Campania
+061014;B704;Capriati a Volturno;;CE;Campania
+061015;B715;Capua;;CE;Campania
+061016;B779;Carinaro;;CE;Campania
+061017;B781;Carinola;;CE;Campania
+061018;B860;Casagiove;;CE;Campania
+061019;B872;Casal di Principe;;CE;Campania
+061020;B916;Casaluce;;CE;Campania
+061021;B935;Casapulla;;CE;Campania
+061022;B963;Caserta;;CE;Campania
+061023;B494;Castel Campagnano;;CE;Campania
+061024;C097;Castel di Sasso;;CE;Campania
+061025;C178;Castello del Matese;;CE;Campania
+061026;C211;Castel Morrone;;CE;Campania
+061027;C291;Castel Volturno;;CE;Campania
+061028;C558;Cervino;;CE;Campania
+061029;C561;Cesa;;CE;Campania
+061030;C716;Ciorlano;;CE;Campania
+061031;C939;Conca della Campania;;CE;Campania
+061032;D228;Curti;;CE;Campania
+061033;D361;Dragoni;;CE;Campania
+061034;D683;Fontegreca;;CE;Campania
+061035;D709;Formicola;;CE;Campania
+061036;D769;Francolise;;CE;Campania
+061037;D799;Frignano;;CE;Campania
+061038;D884;Gallo Matese;;CE;Campania
+061039;D886;Galluccio;;CE;Campania
+061040;E011;Giano Vetusto;;CE;Campania
+061041;E039;Gioia Sannitica;;CE;Campania
+061042;E158;Grazzanise;;CE;Campania
+061043;E173;Gricignano di Aversa;;CE;Campania
+061044;E554;Letino;;CE;Campania
+061045;E570;Liberi;;CE;Campania
+061046;E754;Lusciano;;CE;Campania
+061047;E784;Macerata Campania;;CE;Campania
+061048;E791;Maddaloni;;CE;Campania
+061049;E932;Marcianise;;CE;Campania
+061050;E998;Marzano Appio;;CE;Campania
+061051;F203;Mignano Monte Lungo;;CE;Campania
+061052;F352;Mondragone;;CE;Campania
+061053;G130;Orta di Atella;;CE;Campania
+061054;G333;Parete;;CE;Campania
+061055;G364;Pastorano;;CE;Campania
+061056;G541;Piana di Monte Verna;;CE;Campania
+061057;G596;Piedimonte Matese;;CE;Campania
+061058;G620;Pietramelara;;CE;Campania
+061059;G630;Pietravairano;;CE;Campania
+061060;G661;Pignataro Maggiore;;CE;Campania
+061061;G849;Pontelatone;;CE;Campania
+061062;G903;Portico di Caserta;;CE;Campania
+061063;G991;Prata Sannita;;CE;Campania
+061064;G995;Pratella;;CE;Campania
+061065;H045;Presenzano;;CE;Campania
+061066;H202;Raviscanina;;CE;Campania
+061067;H210;Recale;;CE;Campania
+061068;H268;Riardo;;CE;Campania
+061069;H398;Rocca d'Evandro;;CE;Campania
+061070;H423;Roccamonfina;;CE;Campania
+061071;H436;Roccaromana;;CE;Campania
+061072;H459;Rocchetta e Croce;;CE;Campania
+061073;H165;Ruviano;;CE;Campania
+061074;H798;San Cipriano d'Aversa;;CE;Campania
+061075;H834;San Felice a Cancello;;CE;Campania
+061076;H939;San Gregorio Matese;;CE;Campania
+061077;H978;San Marcellino;;CE;Campania
+061078;I056;San Nicola la Strada;;CE;Campania
+061079;I113;San Pietro Infine;;CE;Campania
+061080;I130;San Potito Sannitico;;CE;Campania
+061081;I131;San Prisco;;CE;Campania
+061082;I233;Santa Maria a Vico;;CE;Campania
+061083;I234;Santa Maria Capua Vetere;;CE;Campania
+061084;I247;Santa Maria la Fossa;;CE;Campania
+061085;I261;San Tammaro;;CE;Campania
+061086;I273;Sant'Angelo d'Alife;;CE;Campania
+061087;I306;Sant'Arpino;;CE;Campania
+061088;I676;Sessa Aurunca;;CE;Campania
+061089;I885;Sparanise;;CE;Campania
+061090;I993;Succivo;;CE;Campania
+061091;L083;Teano;;CE;Campania
+061092;L155;Teverola;;CE;Campania
+061093;L205;Tora e Piccilli;;CE;Campania
+061094;L379;Trentola Ducenta;;CE;Campania
+061095;L540;Vairano Patenora;;CE;Campania
+061096;L594;Valle Agricola;;CE;Campania
+061097;L591;Valle di Maddaloni;;CE;Campania
+061098;D801;Villa di Briano;;CE;Campania
+061099;L844;Villa Literno;;CE;Campania
+061100;M092;Vitulazio;;CE;Campania
+061101;D471;Falciano del Massico;;CE;Campania
+061102;M262;Cellole;;CE;Campania
+061103;M260;Casapesenna;;CE;Campania
+061104;F043;San Marco Evangelista;;CE;Campania
+062001;A110;Airola;;BN;Campania
+062002;A265;Amorosi;;BN;Campania
+062003;A328;Apice;;BN;Campania
+062004;A330;Apollosa;;BN;Campania
+062005;A431;Arpaia;;BN;Campania
+062006;A432;Arpaise;;BN;Campania
+062007;A696;Baselice;;BN;Campania
+062008;A783;Benevento;;BN;Campania
+062009;A970;Bonea;;BN;Campania
+062010;B239;Bucciano;;BN;Campania
+062011;B267;Buonalbergo;;BN;Campania
+062012;B444;Calvi;;BN;Campania
+062013;B541;Campolattaro;;BN;Campania
+062014;B542;Campoli del Monte Taburno;;BN;Campania
+062015;B873;Casalduni;;BN;Campania
+062016;C106;Castelfranco in Miscano;;BN;Campania
+062017;C245;Castelpagano;;BN;Campania
+062018;C250;Castelpoto;;BN;Campania
+062019;C280;Castelvenere;;BN;Campania
+062020;C284;Castelvetere in Val Fortore;;BN;Campania
+062021;C359;Cautano;;BN;Campania
+062022;C476;Ceppaloni;;BN;Campania
+062023;C525;Cerreto Sannita;;BN;Campania
+062024;C719;Circello;;BN;Campania
+062025;C846;Colle Sannita;;BN;Campania
+062026;D230;Cusano Mutri;;BN;Campania
+062027;D380;Dugenta;;BN;Campania
+062028;D386;Durazzano;;BN;Campania
+062029;D469;Faicchio;;BN;Campania
+062030;D644;Foglianise;;BN;Campania
+062031;D650;Foiano di Val Fortore;;BN;Campania
+062032;D693;Forchia;;BN;Campania
+062033;D755;Fragneto l'Abate;;BN;Campania
+062034;D756;Fragneto Monforte;;BN;Campania
+062035;D784;Frasso Telesino;;BN;Campania
+062036;E034;Ginestra degli Schiavoni;;BN;Campania
+062037;E249;Guardia Sanframondi;;BN;Campania
+062038;E589;Limatola;;BN;Campania
+062039;F113;Melizzano;;BN;Campania
+062040;F274;Moiano;;BN;Campania
+062041;F287;Molinara;;BN;Campania
+062042;F494;Montefalcone di Val Fortore;;BN;Campania
+062043;F636;Montesarchio;;BN;Campania
+062044;F717;Morcone;;BN;Campania
+062045;G227;Paduli;;BN;Campania
+062046;G243;Pago Veiano;;BN;Campania
+062047;G311;Pannarano;;BN;Campania
+062048;G318;Paolisi;;BN;Campania
+062049;G386;Paupisi;;BN;Campania
+062050;G494;Pesco Sannita;;BN;Campania
+062051;G626;Pietraroja;;BN;Campania
+062052;G631;Pietrelcina;;BN;Campania
+062053;G827;Ponte;;BN;Campania
+062054;G848;Pontelandolfo;;BN;Campania
+062055;H087;Puglianello;;BN;Campania
+062056;H227;Reino;;BN;Campania
+062057;H764;San Bartolomeo in Galdo;;BN;Campania
+062058;H894;San Giorgio del Sannio;;BN;Campania
+062059;H898;San Giorgio La Molara;;BN;Campania
+062060;H953;San Leucio del Sannio;;BN;Campania
+062061;H955;San Lorenzello;;BN;Campania
+062062;H967;San Lorenzo Maggiore;;BN;Campania
+062063;H973;San Lupo;;BN;Campania
+062064;H984;San Marco dei Cavoti;;BN;Campania
+062065;I002;San Martino Sannita;;BN;Campania
+062066;I049;San Nazzaro;;BN;Campania
+062067;I062;San Nicola Manfredi;;BN;Campania
+062068;I145;San Salvatore Telesino;;BN;Campania
+062069;I179;Santa Croce del Sannio;;BN;Campania
+062070;I197;Sant'Agata de' Goti;;BN;Campania
+062071;I277;Sant'Angelo a Cupolo;;BN;Campania
+062072;I455;Sassinoro;;BN;Campania
+062073;I809;Solopaca;;BN;Campania
+062074;L086;Telese Terme;;BN;Campania
+062075;L185;Tocco Caudio;;BN;Campania
+062076;L254;Torrecuso;;BN;Campania
+062077;M093;Vitulano;;BN;Campania
+062078;F557;Sant'Arcangelo Trimonte;;BN;Campania
+063001;A024;Acerra;;NA;Campania
+063002;A064;Afragola;;NA;Campania
+063003;A068;Agerola;;NA;Campania
+063004;A268;Anacapri;;NA;Campania
+063005;A455;Arzano;;NA;Campania
+063006;A535;Bacoli;;NA;Campania
+063007;A617;Barano d'Ischia;;NA;Campania
+063008;B076;Boscoreale;;NA;Campania
+063009;B077;Boscotrecase;;NA;Campania
+063010;B227;Brusciano;;NA;Campania
+063011;B371;Caivano;;NA;Campania
+063012;B452;Calvizzano;;NA;Campania
+063013;B565;Camposano;;NA;Campania
+063014;B696;Capri;;NA;Campania
+063015;B740;Carbonara di Nola;;NA;Campania
+063016;B759;Cardito;;NA;Campania
+063017;B905;Casalnuovo di Napoli;;NA;Campania
+063018;B922;Casamarciano;;NA;Campania
+063019;B924;Casamicciola Terme;;NA;Campania
+063020;B925;Casandrino;;NA;Campania
+063021;B946;Casavatore;;NA;Campania
+063022;B980;Casola di Napoli;;NA;Campania
+063023;B990;Casoria;;NA;Campania
+063024;C129;Castellammare di Stabia;;NA;Campania
+063025;C188;Castello di Cisterna;;NA;Campania
+063026;C495;Cercola;;NA;Campania
+063027;C675;Cicciano;;NA;Campania
+063028;C697;Cimitile;;NA;Campania
+063029;C929;Comiziano;;NA;Campania
+063030;D170;Crispano;;NA;Campania
+063031;D702;Forio;;NA;Campania
+063032;D789;Frattamaggiore;;NA;Campania
+063033;D790;Frattaminore;;NA;Campania
+063034;E054;Giugliano in Campania;;NA;Campania
+063035;E131;Gragnano;;NA;Campania
+063036;E224;Grumo Nevano;;NA;Campania
+063037;E329;Ischia;;NA;Campania
+063038;E396;Lacco Ameno;;NA;Campania
+063039;E557;Lettere;;NA;Campania
+063040;E620;Liveri;;NA;Campania
+063041;E906;Marano di Napoli;;NA;Campania
+063042;E954;Mariglianella;;NA;Campania
+063043;E955;Marigliano;;NA;Campania
+063044;F030;Massa Lubrense;;NA;Campania
+063045;F111;Melito di Napoli;;NA;Campania
+063046;F162;Meta;;NA;Campania
+063047;F488;Monte di Procida;;NA;Campania
+063048;F799;Mugnano di Napoli;;NA;Campania
+063049;F839;Napoli;;NA;Campania
+063050;F924;Nola;;NA;Campania
+063051;G190;Ottaviano;;NA;Campania
+063052;G283;Palma Campania;;NA;Campania
+063053;G568;Piano di Sorrento;;NA;Campania
+063054;G670;Pimonte;;NA;Campania
+063055;G762;Poggiomarino;;NA;Campania
+063056;G795;Pollena Trocchia;;NA;Campania
+063057;G812;Pomigliano d'Arco;;NA;Campania
+063058;G813;Pompei;;NA;Campania
+063059;G902;Portici;;NA;Campania
+063060;G964;Pozzuoli;;NA;Campania
+063061;H072;Procida;;NA;Campania
+063062;H101;Qualiano;;NA;Campania
+063063;H114;Quarto;;NA;Campania
+063064;H243;Ercolano;;NA;Campania
+063065;H433;Roccarainola;;NA;Campania
+063066;H860;San Gennaro Vesuviano;;NA;Campania
+063067;H892;San Giorgio a Cremano;;NA;Campania
+063068;H931;San Giuseppe Vesuviano;;NA;Campania
+063069;I073;San Paolo Bel Sito;;NA;Campania
+063070;I151;San Sebastiano al Vesuvio;;NA;Campania
+063071;I208;Sant'Agnello;;NA;Campania
+063072;I262;Sant'Anastasia;;NA;Campania
+063073;I293;Sant'Antimo;;NA;Campania
+063074;I300;Sant'Antonio Abate;;NA;Campania
+063075;I391;San Vitaliano;;NA;Campania
+063076;I469;Saviano;;NA;Campania
+063077;I540;Scisciano;;NA;Campania
+063078;I652;Serrara Fontana;;NA;Campania
+063079;I820;Somma Vesuviana;;NA;Campania
+063080;I862;Sorrento;;NA;Campania
+063081;I978;Striano;;NA;Campania
+063082;L142;Terzigno;;NA;Campania
+063083;L245;Torre Annunziata;;NA;Campania
+063084;L259;Torre del Greco;;NA;Campania
+063085;L460;Tufino;;NA;Campania
+063086;L845;Vico Equense;;NA;Campania
+063087;G309;Villaricca;;NA;Campania
+063088;M072;Visciano;;NA;Campania
+063089;M115;Volla;;NA;Campania
+063090;M273;Santa Maria la Carità;;NA;Campania
+063091;M280;Trecase;;NA;Campania
+063092;M289;Massa di Somma;;NA;Campania
+064001;A101;Aiello del Sabato;;AV;Campania
+064002;A228;Altavilla Irpina;;AV;Campania
+064003;A284;Andretta;;AV;Campania
+064004;A347;Aquilonia;;AV;Campania
+064005;A399;Ariano Irpino;;AV;Campania
+064006;A489;Atripalda;;AV;Campania
+064007;A508;Avella;;AV;Campania
+064008;A509;Avellino;;AV;Campania
+064009;A566;Bagnoli Irpino;;AV;Campania
+064010;A580;Baiano;;AV;Campania
+064011;A881;Bisaccia;;AV;Campania
+064012;A975;Bonito;;AV;Campania
+064013;B367;Cairano;;AV;Campania
+064014;B374;Calabritto;;AV;Campania
+064015;B415;Calitri;;AV;Campania
+064016;B590;Candida;;AV;Campania
+064017;B674;Caposele;;AV;Campania
+064018;B706;Capriglia Irpina;;AV;Campania
+064019;B776;Carife;;AV;Campania
+064020;B866;Casalbore;;AV;Campania
+064021;B997;Cassano Irpino;;AV;Campania
+064022;C058;Castel Baronia;;AV;Campania
+064023;C105;Castelfranci;;AV;Campania
+064024;C283;Castelvetere sul Calore;;AV;Campania
+064025;C557;Cervinara;;AV;Campania
+064026;C576;Cesinali;;AV;Campania
+064027;C606;Chianche;;AV;Campania
+064028;C659;Chiusano di San Domenico;;AV;Campania
+064029;C971;Contrada;;AV;Campania
+064030;C976;Conza della Campania;;AV;Campania
+064031;D331;Domicella;;AV;Campania
+064032;D638;Flumeri;;AV;Campania
+064033;D671;Fontanarosa;;AV;Campania
+064034;D701;Forino;;AV;Campania
+064035;D798;Frigento;;AV;Campania
+064036;D998;Gesualdo;;AV;Campania
+064037;E161;Greci;;AV;Campania
+064038;E206;Grottaminarda;;AV;Campania
+064039;E214;Grottolella;;AV;Campania
+064040;E245;Guardia Lombardi;;AV;Campania
+064041;E397;Lacedonia;;AV;Campania
+064042;E448;Lapio;;AV;Campania
+064043;E487;Lauro;;AV;Campania
+064044;E605;Lioni;;AV;Campania
+064045;E746;Luogosano;;AV;Campania
+064046;E891;Manocalzati;;AV;Campania
+064047;E997;Marzano di Nola;;AV;Campania
+064048;F110;Melito Irpino;;AV;Campania
+064049;F141;Mercogliano;;AV;Campania
+064050;F230;Mirabella Eclano;;AV;Campania
+064051;F397;Montaguto;;AV;Campania
+064052;F448;Montecalvo Irpino;;AV;Campania
+064053;F491;Montefalcione;;AV;Campania
+064054;F506;Monteforte Irpino;;AV;Campania
+064055;F511;Montefredane;;AV;Campania
+064056;F512;Montefusco;;AV;Campania
+064057;F546;Montella;;AV;Campania
+064058;F559;Montemarano;;AV;Campania
+064059;F566;Montemiletto;;AV;Campania
+064060;F660;Monteverde;;AV;Campania
+064063;F744;Morra De Sanctis;;AV;Campania
+064064;F762;Moschiano;;AV;Campania
+064065;F798;Mugnano del Cardinale;;AV;Campania
+064066;F988;Nusco;;AV;Campania
+064067;G165;Ospedaletto d'Alpinolo;;AV;Campania
+064068;G242;Pago del Vallo di Lauro;;AV;Campania
+064069;G340;Parolise;;AV;Campania
+064070;G370;Paternopoli;;AV;Campania
+064071;G519;Petruro Irpino;;AV;Campania
+064072;G611;Pietradefusi;;AV;Campania
+064073;G629;Pietrastornina;;AV;Campania
+064074;G990;Prata di Principato Ultra;;AV;Campania
+064075;H006;Pratola Serra;;AV;Campania
+064076;H097;Quadrelle;;AV;Campania
+064077;H128;Quindici;;AV;Campania
+064078;H382;Roccabascerana;;AV;Campania
+064079;H438;Rocca San Felice;;AV;Campania
+064080;H592;Rotondi;;AV;Campania
+064081;H733;Salza Irpina;;AV;Campania
+064082;H975;San Mango sul Calore;;AV;Campania
+064083;I016;San Martino Valle Caudina;;AV;Campania
+064084;I034;San Michele di Serino;;AV;Campania
+064085;I061;San Nicola Baronia;;AV;Campania
+064086;I129;San Potito Ultra;;AV;Campania
+064087;I163;San Sossio Baronia;;AV;Campania
+064088;I219;Santa Lucia di Serino;;AV;Campania
+064089;I264;Sant'Andrea di Conza;;AV;Campania
+064090;I279;Sant'Angelo all'Esca;;AV;Campania
+064091;I280;Sant'Angelo a Scala;;AV;Campania
+064092;I281;Sant'Angelo dei Lombardi;;AV;Campania
+064093;I301;Santa Paolina;;AV;Campania
+064095;I357;Santo Stefano del Sole;;AV;Campania
+064096;I471;Savignano Irpino;;AV;Campania
+064097;I493;Scampitella;;AV;Campania
+064098;I606;Senerchia;;AV;Campania
+064099;I630;Serino;;AV;Campania
+064100;I756;Sirignano;;AV;Campania
+064101;I805;Solofra;;AV;Campania
+064102;I843;Sorbo Serpico;;AV;Campania
+064103;I893;Sperone;;AV;Campania
+064104;I990;Sturno;;AV;Campania
+064105;L004;Summonte;;AV;Campania
+064106;L061;Taurano;;AV;Campania
+064107;L062;Taurasi;;AV;Campania
+064108;L102;Teora;;AV;Campania
+064109;L214;Torella dei Lombardi;;AV;Campania
+064110;L272;Torre Le Nocelle;;AV;Campania
+064111;L301;Torrioni;;AV;Campania
+064112;L399;Trevico;;AV;Campania
+064113;L461;Tufo;;AV;Campania
+064114;L589;Vallata;;AV;Campania
+064115;L616;Vallesaccarda;;AV;Campania
+064116;L739;Venticano;;AV;Campania
+064117;L965;Villamaina;;AV;Campania
+064118;L973;Villanova del Battista;;AV;Campania
+064119;M130;Volturara Irpina;;AV;Campania
+064120;M203;Zungoli;;AV;Campania
+064121;M330;Montoro;;AV;Campania
+065001;A023;Acerno;;SA;Campania
+065002;A091;Agropoli;;SA;Campania
+065003;A128;Albanella;;SA;Campania
+065004;A186;Alfano;;SA;Campania
+065005;A230;Altavilla Silentina;;SA;Campania
+065006;A251;Amalfi;;SA;Campania
+065007;A294;Angri;;SA;Campania
+065008;A343;Aquara;;SA;Campania
+065009;A460;Ascea;;SA;Campania
+065010;A484;Atena Lucana;;SA;Campania
+065011;A487;Atrani;;SA;Campania
+065012;A495;Auletta;;SA;Campania
+065013;A674;Baronissi;;SA;Campania
+065014;A717;Battipaglia;;SA;Campania
+065015;A756;Bellosguardo;;SA;Campania
+065016;B115;Bracigliano;;SA;Campania
+065017;B242;Buccino;;SA;Campania
+065018;B266;Buonabitacolo;;SA;Campania
+065019;B351;Caggiano;;SA;Campania
+065020;B437;Calvanico;;SA;Campania
+065021;B476;Camerota;;SA;Campania
+065022;B492;Campagna;;SA;Campania
+065023;B555;Campora;;SA;Campania
+065024;B608;Cannalonga;;SA;Campania
+065025;B644;Capaccio Paestum;;SA;Campania
+065026;B868;Casalbuono;;SA;Campania
+065027;B888;Casaletto Spartano;;SA;Campania
+065028;B895;Casal Velino;;SA;Campania
+065029;B959;Caselle in Pittari;;SA;Campania
+065030;C069;Castelcivita;;SA;Campania
+065031;C125;Castellabate;;SA;Campania
+065032;C231;Castelnuovo Cilento;;SA;Campania
+065033;C235;Castelnuovo di Conza;;SA;Campania
+065034;C259;Castel San Giorgio;;SA;Campania
+065035;C262;Castel San Lorenzo;;SA;Campania
+065036;C306;Castiglione del Genovesi;;SA;Campania
+065037;C361;Cava de' Tirreni;;SA;Campania
+065038;C444;Celle di Bulgheria;;SA;Campania
+065039;C470;Centola;;SA;Campania
+065040;C485;Ceraso;;SA;Campania
+065041;C584;Cetara;;SA;Campania
+065042;C676;Cicerale;;SA;Campania
+065043;C879;Colliano;;SA;Campania
+065044;C940;Conca dei Marini;;SA;Campania
+065045;C973;Controne;;SA;Campania
+065046;C974;Contursi Terme;;SA;Campania
+065047;C984;Corbara;;SA;Campania
+065048;D011;Corleto Monforte;;SA;Campania
+065049;D195;Cuccaro Vetere;;SA;Campania
+065050;D390;Eboli;;SA;Campania
+065051;D527;Felitto;;SA;Campania
+065052;D615;Fisciano;;SA;Campania
+065053;D826;Furore;;SA;Campania
+065054;D832;Futani;;SA;Campania
+065055;E026;Giffoni Sei Casali;;SA;Campania
+065056;E027;Giffoni Valle Piana;;SA;Campania
+065057;E037;Gioi;;SA;Campania
+065058;E060;Giungano;;SA;Campania
+065059;E365;Ispani;;SA;Campania
+065060;E480;Laureana Cilento;;SA;Campania
+065061;E485;Laurino;;SA;Campania
+065062;E486;Laurito;;SA;Campania
+065063;E498;Laviano;;SA;Campania
+065064;E767;Lustra;;SA;Campania
+065065;E814;Magliano Vetere;;SA;Campania
+065066;E839;Maiori;;SA;Campania
+065067;F138;Mercato San Severino;;SA;Campania
+065068;F223;Minori;;SA;Campania
+065069;F278;Moio della Civitella;;SA;Campania
+065070;F426;Montano Antilia;;SA;Campania
+065071;F479;Montecorice;;SA;Campania
+065072;F480;Montecorvino Pugliano;;SA;Campania
+065073;F481;Montecorvino Rovella;;SA;Campania
+065074;F507;Monteforte Cilento;;SA;Campania
+065075;F618;Monte San Giacomo;;SA;Campania
+065076;F625;Montesano sulla Marcellana;;SA;Campania
+065077;F731;Morigerati;;SA;Campania
+065078;F912;Nocera Inferiore;;SA;Campania
+065079;F913;Nocera Superiore;;SA;Campania
+065080;F967;Novi Velia;;SA;Campania
+065081;G011;Ogliastro Cilento;;SA;Campania
+065082;G023;Olevano sul Tusciano;;SA;Campania
+065083;G039;Oliveto Citra;;SA;Campania
+065084;G063;Omignano;;SA;Campania
+065085;G121;Orria;;SA;Campania
+065086;G192;Ottati;;SA;Campania
+065087;G226;Padula;;SA;Campania
+065088;G230;Pagani;;SA;Campania
+065089;G292;Palomonte;;SA;Campania
+065090;G426;Pellezzano;;SA;Campania
+065091;G447;Perdifumo;;SA;Campania
+065092;G455;Perito;;SA;Campania
+065093;G476;Pertosa;;SA;Campania
+065094;G509;Petina;;SA;Campania
+065095;G538;Piaggine;;SA;Campania
+065096;G707;Pisciotta;;SA;Campania
+065097;G793;Polla;;SA;Campania
+065098;G796;Pollica;;SA;Campania
+065099;G834;Pontecagnano Faiano;;SA;Campania
+065100;G932;Positano;;SA;Campania
+065101;G939;Postiglione;;SA;Campania
+065102;G976;Praiano;;SA;Campania
+065103;H062;Prignano Cilento;;SA;Campania
+065104;H198;Ravello;;SA;Campania
+065105;H277;Ricigliano;;SA;Campania
+065106;H394;Roccadaspide;;SA;Campania
+065107;H412;Roccagloriosa;;SA;Campania
+065108;H431;Roccapiemonte;;SA;Campania
+065109;H485;Rofrano;;SA;Campania
+065110;H503;Romagnano al Monte;;SA;Campania
+065111;H564;Roscigno;;SA;Campania
+065112;H644;Rutino;;SA;Campania
+065113;H654;Sacco;;SA;Campania
+065114;H683;Sala Consilina;;SA;Campania
+065115;H686;Salento;;SA;Campania
+065116;H703;Salerno;;SA;Campania
+065117;H732;Salvitelle;;SA;Campania
+065118;H800;San Cipriano Picentino;;SA;Campania
+065119;H907;San Giovanni a Piro;;SA;Campania
+065120;H943;San Gregorio Magno;;SA;Campania
+065121;H977;San Mango Piemonte;;SA;Campania
+065122;I019;San Marzano sul Sarno;;SA;Campania
+065123;I031;San Mauro Cilento;;SA;Campania
+065124;I032;San Mauro la Bruca;;SA;Campania
+065125;I089;San Pietro al Tanagro;;SA;Campania
+065126;I143;San Rufo;;SA;Campania
+065127;I253;Santa Marina;;SA;Campania
+065128;I278;Sant'Angelo a Fasanella;;SA;Campania
+065129;I307;Sant'Arsenio;;SA;Campania
+065130;I317;Sant'Egidio del Monte Albino;;SA;Campania
+065131;I260;Santomenna;;SA;Campania
+065132;I377;San Valentino Torio;;SA;Campania
+065133;I410;Sanza;;SA;Campania
+065134;I422;Sapri;;SA;Campania
+065135;I438;Sarno;;SA;Campania
+065136;I451;Sassano;;SA;Campania
+065137;I483;Scafati;;SA;Campania
+065138;I486;Scala;;SA;Campania
+065139;I648;Serramezzana;;SA;Campania
+065140;I666;Serre;;SA;Campania
+065141;I677;Sessa Cilento;;SA;Campania
+065142;I720;Siano;;SA;Campania
+065143;M253;Sicignano degli Alburni;;SA;Campania
+065144;G887;Stella Cilento;;SA;Campania
+065145;I960;Stio;;SA;Campania
+065146;D292;Teggiano;;SA;Campania
+065147;L212;Torchiara;;SA;Campania
+065148;L233;Torraca;;SA;Campania
+065149;L274;Torre Orsaia;;SA;Campania
+065150;L306;Tortorella;;SA;Campania
+065151;L323;Tramonti;;SA;Campania
+065152;L377;Trentinara;;SA;Campania
+065153;G540;Valle dell'Angelo;;SA;Campania
+065154;L628;Vallo della Lucania;;SA;Campania
+065155;L656;Valva;;SA;Campania
+065156;L835;Vibonati;;SA;Campania
+065157;L860;Vietri sul Mare;;SA;Campania
+065158;M294;Bellizzi;;SA;Campania
+066001;A018;Acciano;;AQ;Abruzzo
+066002;A100;Aielli;;AQ;Abruzzo
+066003;A187;Alfedena;;AQ;Abruzzo
+066004;A318;Anversa degli Abruzzi;;AQ;Abruzzo
+066005;A481;Ateleta;;AQ;Abruzzo
+066006;A515;Avezzano;;AQ;Abruzzo
+066007;A603;Balsorano;;AQ;Abruzzo
+066008;A656;Barete;;AQ;Abruzzo
+066009;A667;Barisciano;;AQ;Abruzzo
+066010;A678;Barrea;;AQ;Abruzzo
+066011;A884;Bisegna;;AQ;Abruzzo
+066012;B256;Bugnara;;AQ;Abruzzo
+066013;B358;Cagnano Amiterno;;AQ;Abruzzo
+066014;B382;Calascio;;AQ;Abruzzo
+066015;B526;Campo di Giove;;AQ;Abruzzo
+066016;B569;Campotosto;;AQ;Abruzzo
+066017;B606;Canistro;;AQ;Abruzzo
+066018;B624;Cansano;;AQ;Abruzzo
+066019;B651;Capestrano;;AQ;Abruzzo
+066020;B656;Capistrello;;AQ;Abruzzo
+066021;B658;Capitignano;;AQ;Abruzzo
+066022;B672;Caporciano;;AQ;Abruzzo
+066023;B677;Cappadocia;;AQ;Abruzzo
+066024;B725;Carapelle Calvisio;;AQ;Abruzzo
+066025;B842;Carsoli;;AQ;Abruzzo
+066026;C083;Castel del Monte;;AQ;Abruzzo
+066027;C090;Castel di Ieri;;AQ;Abruzzo
+066028;C096;Castel di Sangro;;AQ;Abruzzo
+066029;C126;Castellafiume;;AQ;Abruzzo
+066030;C278;Castelvecchio Calvisio;;AQ;Abruzzo
+066031;C279;Castelvecchio Subequo;;AQ;Abruzzo
+066032;C426;Celano;;AQ;Abruzzo
+066033;C492;Cerchio;;AQ;Abruzzo
+066034;C766;Civita d'Antino;;AQ;Abruzzo
+066035;C778;Civitella Alfedena;;AQ;Abruzzo
+066036;C783;Civitella Roveto;;AQ;Abruzzo
+066037;C811;Cocullo;;AQ;Abruzzo
+066038;C844;Collarmele;;AQ;Abruzzo
+066039;C862;Collelongo;;AQ;Abruzzo
+066040;C866;Collepietro;;AQ;Abruzzo
+066041;C999;Corfinio;;AQ;Abruzzo
+066042;D465;Fagnano Alto;;AQ;Abruzzo
+066043;D681;Fontecchio;;AQ;Abruzzo
+066044;D736;Fossa;;AQ;Abruzzo
+066045;D850;Gagliano Aterno;;AQ;Abruzzo
+066046;E040;Gioia dei Marsi;;AQ;Abruzzo
+066047;E096;Goriano Sicoli;;AQ;Abruzzo
+066048;E307;Introdacqua;;AQ;Abruzzo
+066049;A345;L'Aquila;;AQ;Abruzzo
+066050;E505;Lecce nei Marsi;;AQ;Abruzzo
+066051;E723;Luco dei Marsi;;AQ;Abruzzo
+066052;E724;Lucoli;;AQ;Abruzzo
+066053;E811;Magliano de' Marsi;;AQ;Abruzzo
+066054;F022;Massa d'Albe;;AQ;Abruzzo
+066055;M255;Molina Aterno;;AQ;Abruzzo
+066056;F595;Montereale;;AQ;Abruzzo
+066057;F732;Morino;;AQ;Abruzzo
+066058;F852;Navelli;;AQ;Abruzzo
+066059;F996;Ocre;;AQ;Abruzzo
+066060;G002;Ofena;;AQ;Abruzzo
+066061;G079;Opi;;AQ;Abruzzo
+066062;G102;Oricola;;AQ;Abruzzo
+066063;G142;Ortona dei Marsi;;AQ;Abruzzo
+066064;G145;Ortucchio;;AQ;Abruzzo
+066065;G200;Ovindoli;;AQ;Abruzzo
+066066;G210;Pacentro;;AQ;Abruzzo
+066067;G449;Pereto;;AQ;Abruzzo
+066068;G484;Pescasseroli;;AQ;Abruzzo
+066069;G492;Pescina;;AQ;Abruzzo
+066070;G493;Pescocostanzo;;AQ;Abruzzo
+066071;G524;Pettorano sul Gizio;;AQ;Abruzzo
+066072;G726;Pizzoli;;AQ;Abruzzo
+066073;G766;Poggio Picenze;;AQ;Abruzzo
+066074;G992;Prata d'Ansidonia;;AQ;Abruzzo
+066075;H007;Pratola Peligna;;AQ;Abruzzo
+066076;H056;Prezza;;AQ;Abruzzo
+066077;H166;Raiano;;AQ;Abruzzo
+066078;H353;Rivisondoli;;AQ;Abruzzo
+066079;H389;Roccacasale;;AQ;Abruzzo
+066080;H399;Rocca di Botte;;AQ;Abruzzo
+066081;H400;Rocca di Cambio;;AQ;Abruzzo
+066082;H402;Rocca di Mezzo;;AQ;Abruzzo
+066083;H429;Rocca Pia;;AQ;Abruzzo
+066084;H434;Roccaraso;;AQ;Abruzzo
+066085;H772;San Benedetto dei Marsi;;AQ;Abruzzo
+066086;H773;San Benedetto in Perillis;;AQ;Abruzzo
+066087;H819;San Demetrio ne' Vestini;;AQ;Abruzzo
+066088;I121;San Pio delle Camere;;AQ;Abruzzo
+066089;I326;Sante Marie;;AQ;Abruzzo
+066090;I336;Sant'Eusanio Forconese;;AQ;Abruzzo
+066091;I360;Santo Stefano di Sessanio;;AQ;Abruzzo
+066092;I389;San Vincenzo Valle Roveto;;AQ;Abruzzo
+066093;I501;Scanno;;AQ;Abruzzo
+066094;I543;Scontrone;;AQ;Abruzzo
+066095;I546;Scoppito;;AQ;Abruzzo
+066096;I553;Scurcola Marsicana;;AQ;Abruzzo
+066097;I558;Secinaro;;AQ;Abruzzo
+066098;I804;Sulmona;;AQ;Abruzzo
+066099;L025;Tagliacozzo;;AQ;Abruzzo
+066100;L173;Tione degli Abruzzi;;AQ;Abruzzo
+066101;L227;Tornimparte;;AQ;Abruzzo
+066102;L334;Trasacco;;AQ;Abruzzo
+066103;L958;Villalago;;AQ;Abruzzo
+066104;M021;Villa Santa Lucia degli Abruzzi;;AQ;Abruzzo
+066105;M023;Villa Sant'Angelo;;AQ;Abruzzo
+066106;M031;Villavallelonga;;AQ;Abruzzo
+066107;M041;Villetta Barrea;;AQ;Abruzzo
+066108;M090;Vittorito;;AQ;Abruzzo
+067001;A125;Alba Adriatica;;TE;Abruzzo
+067002;A270;Ancarano;;TE;Abruzzo
+067003;A445;Arsita;;TE;Abruzzo
+067004;A488;Atri;;TE;Abruzzo
+067005;A692;Basciano;;TE;Abruzzo
+067006;A746;Bellante;;TE;Abruzzo
+067007;A885;Bisenti;;TE;Abruzzo
+067008;B515;Campli;;TE;Abruzzo
+067009;B640;Canzano;;TE;Abruzzo
+067010;C040;Castel Castagna;;TE;Abruzzo
+067011;C128;Castellalto;;TE;Abruzzo
+067012;C169;Castelli;;TE;Abruzzo
+067013;C316;Castiglione Messer Raimondo;;TE;Abruzzo
+067014;C322;Castilenti;;TE;Abruzzo
+067015;C449;Cellino Attanasio;;TE;Abruzzo
+067016;C517;Cermignano;;TE;Abruzzo
+067017;C781;Civitella del Tronto;;TE;Abruzzo
+067018;C311;Colledara;;TE;Abruzzo
+067019;C901;Colonnella;;TE;Abruzzo
+067020;C972;Controguerra;;TE;Abruzzo
+067021;D043;Corropoli;;TE;Abruzzo
+067022;D076;Cortino;;TE;Abruzzo
+067023;D179;Crognaleto;;TE;Abruzzo
+067024;D489;Fano Adriano;;TE;Abruzzo
+067025;E058;Giulianova;;TE;Abruzzo
+067026;E343;Isola del Gran Sasso d'Italia;;TE;Abruzzo
+067027;F500;Montefino;;TE;Abruzzo
+067028;F690;Montorio al Vomano;;TE;Abruzzo
+067029;F747;Morro d'Oro;;TE;Abruzzo
+067030;F764;Mosciano Sant'Angelo;;TE;Abruzzo
+067031;F870;Nereto;;TE;Abruzzo
+067032;F942;Notaresco;;TE;Abruzzo
+067033;G437;Penna Sant'Andrea;;TE;Abruzzo
+067034;G608;Pietracamela;;TE;Abruzzo
+067035;F831;Pineto;;TE;Abruzzo
+067036;H440;Rocca Santa Maria;;TE;Abruzzo
+067037;F585;Roseto degli Abruzzi;;TE;Abruzzo
+067038;I318;Sant'Egidio alla Vibrata;;TE;Abruzzo
+067039;I348;Sant'Omero;;TE;Abruzzo
+067040;I741;Silvi;;TE;Abruzzo
+067041;L103;Teramo;;TE;Abruzzo
+067042;L207;Torano Nuovo;;TE;Abruzzo
+067043;L295;Torricella Sicura;;TE;Abruzzo
+067044;L307;Tortoreto;;TE;Abruzzo
+067045;L314;Tossicia;;TE;Abruzzo
+067046;L597;Valle Castellana;;TE;Abruzzo
+067047;E989;Martinsicuro;;TE;Abruzzo
+068001;A008;Abbateggio;;PE;Abruzzo
+068002;A120;Alanno;;PE;Abruzzo
+068003;A945;Bolognano;;PE;Abruzzo
+068004;B193;Brittoli;;PE;Abruzzo
+068005;B294;Bussi sul Tirino;;PE;Abruzzo
+068006;B681;Cappelle sul Tavo;;PE;Abruzzo
+068007;B722;Caramanico Terme;;PE;Abruzzo
+068008;B827;Carpineto della Nora;;PE;Abruzzo
+068009;C308;Castiglione a Casauria;;PE;Abruzzo
+068010;C354;Catignano;;PE;Abruzzo
+068011;C474;Cepagatti;;PE;Abruzzo
+068012;C750;Città Sant'Angelo;;PE;Abruzzo
+068013;C771;Civitaquana;;PE;Abruzzo
+068014;C779;Civitella Casanova;;PE;Abruzzo
+068015;C853;Collecorvino;;PE;Abruzzo
+068016;D078;Corvara;;PE;Abruzzo
+068017;D201;Cugnoli;;PE;Abruzzo
+068018;D394;Elice;;PE;Abruzzo
+068019;D501;Farindola;;PE;Abruzzo
+068020;E558;Lettomanoppello;;PE;Abruzzo
+068021;E691;Loreto Aprutino;;PE;Abruzzo
+068022;E892;Manoppello;;PE;Abruzzo
+068023;F441;Montebello di Bertona;;PE;Abruzzo
+068024;F646;Montesilvano;;PE;Abruzzo
+068025;F765;Moscufo;;PE;Abruzzo
+068026;F908;Nocciano;;PE;Abruzzo
+068027;G438;Penne;;PE;Abruzzo
+068028;G482;Pescara;;PE;Abruzzo
+068029;G499;Pescosansonesco;;PE;Abruzzo
+068030;G555;Pianella;;PE;Abruzzo
+068031;G589;Picciano;;PE;Abruzzo
+068032;G621;Pietranico;;PE;Abruzzo
+068033;G878;Popoli;;PE;Abruzzo
+068034;H425;Roccamorice;;PE;Abruzzo
+068035;H562;Rosciano;;PE;Abruzzo
+068036;H715;Salle;;PE;Abruzzo
+068037;I332;Sant'Eufemia a Maiella;;PE;Abruzzo
+068038;I376;San Valentino in Abruzzo Citeriore;;PE;Abruzzo
+068039;I482;Scafa;;PE;Abruzzo
+068040;I649;Serramonacesca;;PE;Abruzzo
+068041;I922;Spoltore;;PE;Abruzzo
+068042;L186;Tocco da Casauria;;PE;Abruzzo
+068043;L263;Torre de' Passeri;;PE;Abruzzo
+068044;L475;Turrivalignani;;PE;Abruzzo
+068045;L846;Vicoli;;PE;Abruzzo
+068046;L922;Villa Celiera;;PE;Abruzzo
+069001;A235;Altino;;CH;Abruzzo
+069002;A367;Archi;;CH;Abruzzo
+069003;A398;Ari;;CH;Abruzzo
+069004;A402;Arielli;;CH;Abruzzo
+069005;A485;Atessa;;CH;Abruzzo
+069006;A956;Bomba;;CH;Abruzzo
+069007;B057;Borrello;;CH;Abruzzo
+069008;B238;Bucchianico;;CH;Abruzzo
+069009;B268;Montebello sul Sangro;;CH;Abruzzo
+069010;B620;Canosa Sannita;;CH;Abruzzo
+069011;B826;Carpineto Sinello;;CH;Abruzzo
+069012;B853;Carunchio;;CH;Abruzzo
+069013;B859;Casacanditella;;CH;Abruzzo
+069014;B861;Casalanguida;;CH;Abruzzo
+069015;B865;Casalbordino;;CH;Abruzzo
+069016;B896;Casalincontrada;;CH;Abruzzo
+069017;B985;Casoli;;CH;Abruzzo
+069018;C114;Castel Frentano;;CH;Abruzzo
+069019;C123;Castelguidone;;CH;Abruzzo
+069020;C298;Castiglione Messer Marino;;CH;Abruzzo
+069021;C428;Celenza sul Trigno;;CH;Abruzzo
+069022;C632;Chieti;;CH;Abruzzo
+069023;C768;Civitaluparella;;CH;Abruzzo
+069024;C776;Civitella Messer Raimondo;;CH;Abruzzo
+069025;C855;Colledimacine;;CH;Abruzzo
+069026;C856;Colledimezzo;;CH;Abruzzo
+069027;D137;Crecchio;;CH;Abruzzo
+069028;D209;Cupello;;CH;Abruzzo
+069029;D315;Dogliola;;CH;Abruzzo
+069030;D494;Fara Filiorum Petri;;CH;Abruzzo
+069031;D495;Fara San Martino;;CH;Abruzzo
+069032;D592;Filetto;;CH;Abruzzo
+069033;D738;Fossacesia;;CH;Abruzzo
+069034;D757;Fraine;;CH;Abruzzo
+069035;D763;Francavilla al Mare;;CH;Abruzzo
+069036;D796;Fresagrandinaria;;CH;Abruzzo
+069037;D803;Frisa;;CH;Abruzzo
+069038;D823;Furci;;CH;Abruzzo
+069039;D898;Gamberale;;CH;Abruzzo
+069040;D996;Gessopalena;;CH;Abruzzo
+069041;E052;Gissi;;CH;Abruzzo
+069042;E056;Giuliano Teatino;;CH;Abruzzo
+069043;E243;Guardiagrele;;CH;Abruzzo
+069044;E266;Guilmi;;CH;Abruzzo
+069045;E424;Lama dei Peligni;;CH;Abruzzo
+069046;E435;Lanciano;;CH;Abruzzo
+069047;E531;Lentella;;CH;Abruzzo
+069048;E559;Lettopalena;;CH;Abruzzo
+069049;E611;Liscia;;CH;Abruzzo
+069050;F196;Miglianico;;CH;Abruzzo
+069051;F433;Montazzoli;;CH;Abruzzo
+069052;F498;Monteferrante;;CH;Abruzzo
+069053;F535;Montelapiano;;CH;Abruzzo
+069054;F578;Montenerodomo;;CH;Abruzzo
+069055;F582;Monteodorisio;;CH;Abruzzo
+069056;F785;Mozzagrogna;;CH;Abruzzo
+069057;G128;Orsogna;;CH;Abruzzo
+069058;G141;Ortona;;CH;Abruzzo
+069059;G237;Paglieta;;CH;Abruzzo
+069060;G271;Palena;;CH;Abruzzo
+069061;G290;Palmoli;;CH;Abruzzo
+069062;G294;Palombaro;;CH;Abruzzo
+069063;G434;Pennadomo;;CH;Abruzzo
+069064;G435;Pennapiedimonte;;CH;Abruzzo
+069065;G441;Perano;;CH;Abruzzo
+069066;G724;Pizzoferrato;;CH;Abruzzo
+069067;G760;Poggiofiorito;;CH;Abruzzo
+069068;G799;Pollutri;;CH;Abruzzo
+069069;H052;Pretoro;;CH;Abruzzo
+069070;H098;Quadri;;CH;Abruzzo
+069071;H184;Rapino;;CH;Abruzzo
+069072;H320;Ripa Teatina;;CH;Abruzzo
+069073;H424;Roccamontepiano;;CH;Abruzzo
+069074;H439;Rocca San Giovanni;;CH;Abruzzo
+069075;H442;Roccascalegna;;CH;Abruzzo
+069076;H448;Roccaspinalveti;;CH;Abruzzo
+069077;H495;Roio del Sangro;;CH;Abruzzo
+069078;H566;Rosello;;CH;Abruzzo
+069079;H784;San Buono;;CH;Abruzzo
+069080;H923;San Giovanni Lipioni;;CH;Abruzzo
+069081;D690;San Giovanni Teatino;;CH;Abruzzo
+069082;H991;San Martino sulla Marrucina;;CH;Abruzzo
+069083;I148;San Salvo;;CH;Abruzzo
+069084;I244;Santa Maria Imbaro;;CH;Abruzzo
+069085;I335;Sant'Eusanio del Sangro;;CH;Abruzzo
+069086;I394;San Vito Chietino;;CH;Abruzzo
+069087;I520;Scerni;;CH;Abruzzo
+069088;I526;Schiavi di Abruzzo;;CH;Abruzzo
+069089;L047;Taranta Peligna;;CH;Abruzzo
+069090;L194;Tollo;;CH;Abruzzo
+069091;L218;Torino di Sangro;;CH;Abruzzo
+069092;L224;Tornareccio;;CH;Abruzzo
+069093;L253;Torrebruna;;CH;Abruzzo
+069094;L284;Torrevecchia Teatina;;CH;Abruzzo
+069095;L291;Torricella Peligna;;CH;Abruzzo
+069096;L363;Treglio;;CH;Abruzzo
+069097;L459;Tufillo;;CH;Abruzzo
+069098;L526;Vacri;;CH;Abruzzo
+069099;E372;Vasto;;CH;Abruzzo
+069100;L961;Villalfonsina;;CH;Abruzzo
+069101;L964;Villamagna;;CH;Abruzzo
+069102;M022;Villa Santa Maria;;CH;Abruzzo
+069103;G613;Pietraferrazzana;;CH;Abruzzo
+069104;D480;Fallo;;CH;Abruzzo
+070001;A050;Acquaviva Collecroce;;CB;Molise
+070002;A616;Baranello;;CB;Molise
+070003;A930;Bojano;;CB;Molise
+070004;A971;Bonefro;;CB;Molise
+070005;B295;Busso;;CB;Molise
+070006;B519;Campobasso;;CB;Molise
+070007;B522;Campochiaro;;CB;Molise
+070008;B528;Campodipietra;;CB;Molise
+070009;B544;Campolieto;;CB;Molise
+070010;B550;Campomarino;;CB;Molise
+070011;B858;Casacalenda;;CB;Molise
+070012;B871;Casalciprano;;CB;Molise
+070013;C066;Castelbottaccio;;CB;Molise
+070014;C175;Castellino del Biferno;;CB;Molise
+070015;C197;Castelmauro;;CB;Molise
+070016;C346;Castropignano;;CB;Molise
+070017;C486;Cercemaggiore;;CB;Molise
+070018;C488;Cercepiccola;;CB;Molise
+070019;C764;Civitacampomarano;;CB;Molise
+070020;C854;Colle d'Anchise;;CB;Molise
+070021;C875;Colletorto;;CB;Molise
+070022;C772;Duronia;;CB;Molise
+070023;D550;Ferrazzano;;CB;Molise
+070024;D737;Fossalto;;CB;Molise
+070025;D896;Gambatesa;;CB;Molise
+070026;E030;Gildone;;CB;Molise
+070027;E244;Guardialfiera;;CB;Molise
+070028;E248;Guardiaregia;;CB;Molise
+070029;E259;Guglionesi;;CB;Molise
+070030;E381;Jelsi;;CB;Molise
+070031;E456;Larino;;CB;Molise
+070032;E599;Limosano;;CB;Molise
+070033;E722;Lucito;;CB;Molise
+070034;E748;Lupara;;CB;Molise
+070035;E780;Macchia Valfortore;;CB;Molise
+070036;E799;Mafalda;;CB;Molise
+070037;F055;Matrice;;CB;Molise
+070038;F233;Mirabello Sannitico;;CB;Molise
+070039;F294;Molise;;CB;Molise
+070040;F322;Monacilioni;;CB;Molise
+070041;F391;Montagano;;CB;Molise
+070042;F475;Montecilfone;;CB;Molise
+070043;F495;Montefalcone nel Sannio;;CB;Molise
+070044;F548;Montelongo;;CB;Molise
+070045;F569;Montemitro;;CB;Molise
+070046;F576;Montenero di Bisaccia;;CB;Molise
+070047;F689;Montorio nei Frentani;;CB;Molise
+070048;F748;Morrone del Sannio;;CB;Molise
+070049;G086;Oratino;;CB;Molise
+070050;G257;Palata;;CB;Molise
+070051;G506;Petacciato;;CB;Molise
+070052;G512;Petrella Tifernina;;CB;Molise
+070053;G609;Pietracatella;;CB;Molise
+070054;G610;Pietracupa;;CB;Molise
+070055;G910;Portocannone;;CB;Molise
+070056;H083;Provvidenti;;CB;Molise
+070057;H273;Riccia;;CB;Molise
+070058;H311;Ripabottoni;;CB;Molise
+070059;H313;Ripalimosani;;CB;Molise
+070060;H454;Roccavivara;;CB;Molise
+070061;H589;Rotello;;CB;Molise
+070062;H693;Salcito;;CB;Molise
+070063;H782;San Biase;;CB;Molise
+070064;H833;San Felice del Molise;;CB;Molise
+070065;H867;San Giacomo degli Schiavoni;;CB;Molise
+070066;H920;San Giovanni in Galdo;;CB;Molise
+070067;H928;San Giuliano del Sannio;;CB;Molise
+070068;H929;San Giuliano di Puglia;;CB;Molise
+070069;H990;San Martino in Pensilis;;CB;Molise
+070070;I023;San Massimo;;CB;Molise
+070071;I122;San Polo Matese;;CB;Molise
+070072;I181;Santa Croce di Magliano;;CB;Molise
+070073;I289;Sant'Angelo Limosano;;CB;Molise
+070074;I320;Sant'Elia a Pianisi;;CB;Molise
+070075;I618;Sepino;;CB;Molise
+070076;I910;Spinete;;CB;Molise
+070077;L069;Tavenna;;CB;Molise
+070078;L113;Termoli;;CB;Molise
+070079;L215;Torella del Sannio;;CB;Molise
+070080;L230;Toro;;CB;Molise
+070081;L435;Trivento;;CB;Molise
+070082;L458;Tufara;;CB;Molise
+070083;L505;Ururi;;CB;Molise
+070084;M057;Vinchiaturo;;CB;Molise
+071001;A015;Accadia;;FG;Puglia
+071002;A150;Alberona;;FG;Puglia
+071003;A320;Anzano di Puglia;;FG;Puglia
+071004;A339;Apricena;;FG;Puglia
+071005;A463;Ascoli Satriano;;FG;Puglia
+071006;A854;Biccari;;FG;Puglia
+071007;B104;Bovino;;FG;Puglia
+071008;B357;Cagnano Varano;;FG;Puglia
+071009;B584;Candela;;FG;Puglia
+071010;B724;Carapelle;;FG;Puglia
+071011;B784;Carlantino;;FG;Puglia
+071012;B829;Carpino;;FG;Puglia
+071013;B904;Casalnuovo Monterotaro;;FG;Puglia
+071014;B917;Casalvecchio di Puglia;;FG;Puglia
+071015;C198;Castelluccio dei Sauri;;FG;Puglia
+071016;C202;Castelluccio Valmaggiore;;FG;Puglia
+071017;C222;Castelnuovo della Daunia;;FG;Puglia
+071018;C429;Celenza Valfortore;;FG;Puglia
+071019;C442;Celle di San Vito;;FG;Puglia
+071020;C514;Cerignola;;FG;Puglia
+071021;C633;Chieuti;;FG;Puglia
+071022;D269;Deliceto;;FG;Puglia
+071023;D459;Faeto;;FG;Puglia
+071024;D643;Foggia;;FG;Puglia
+071025;E332;Ischitella;;FG;Puglia
+071026;E363;Isole Tremiti;;FG;Puglia
+071027;E549;Lesina;;FG;Puglia
+071028;E716;Lucera;;FG;Puglia
+071029;E885;Manfredonia;;FG;Puglia
+071031;F059;Mattinata;;FG;Puglia
+071032;F538;Monteleone di Puglia;;FG;Puglia
+071033;F631;Monte Sant'Angelo;;FG;Puglia
+071034;F777;Motta Montecorvino;;FG;Puglia
+071035;G125;Orsara di Puglia;;FG;Puglia
+071036;G131;Orta Nova;;FG;Puglia
+071037;G312;Panni;;FG;Puglia
+071038;G487;Peschici;;FG;Puglia
+071039;G604;Pietramontecorvino;;FG;Puglia
+071040;G761;Poggio Imperiale;;FG;Puglia
+071041;H287;Rignano Garganico;;FG;Puglia
+071042;H467;Rocchetta Sant'Antonio;;FG;Puglia
+071043;H480;Rodi Garganico;;FG;Puglia
+071044;H568;Roseto Valfortore;;FG;Puglia
+071046;H926;San Giovanni Rotondo;;FG;Puglia
+071047;H985;San Marco in Lamis;;FG;Puglia
+071048;H986;San Marco la Catola;;FG;Puglia
+071049;I054;San Nicandro Garganico;;FG;Puglia
+071050;I072;San Paolo di Civitate;;FG;Puglia
+071051;I158;San Severo;;FG;Puglia
+071052;I193;Sant'Agata di Puglia;;FG;Puglia
+071053;I641;Serracapriola;;FG;Puglia
+071054;I962;Stornara;;FG;Puglia
+071055;I963;Stornarella;;FG;Puglia
+071056;L273;Torremaggiore;;FG;Puglia
+071058;L447;Troia;;FG;Puglia
+071059;L842;Vico del Gargano;;FG;Puglia
+071060;L858;Vieste;;FG;Puglia
+071061;M131;Volturara Appula;;FG;Puglia
+071062;M132;Volturino;;FG;Puglia
+071063;M266;Ordona;;FG;Puglia
+071064;M267;Zapponeta;;FG;Puglia
+072001;A048;Acquaviva delle Fonti;;BA;Puglia
+072002;A055;Adelfia;;BA;Puglia
+072003;A149;Alberobello;;BA;Puglia
+072004;A225;Altamura;;BA;Puglia
+072006;A662;Bari;;BA;Puglia
+072008;A874;Binetto;;BA;Puglia
+072010;A892;Bitetto;;BA;Puglia
+072011;A893;Bitonto;;BA;Puglia
+072012;A894;Bitritto;;BA;Puglia
+072014;B716;Capurso;;BA;Puglia
+072015;B923;Casamassima;;BA;Puglia
+072016;B998;Cassano delle Murge;;BA;Puglia
+072017;C134;Castellana Grotte;;BA;Puglia
+072018;C436;Cellamare;;BA;Puglia
+072019;C975;Conversano;;BA;Puglia
+072020;C983;Corato;;BA;Puglia
+072021;E038;Gioia del Colle;;BA;Puglia
+072022;E047;Giovinazzo;;BA;Puglia
+072023;E155;Gravina in Puglia;;BA;Puglia
+072024;E223;Grumo Appula;;BA;Puglia
+072025;E645;Locorotondo;;BA;Puglia
+072027;F262;Modugno;;BA;Puglia
+072028;F280;Mola di Bari;;BA;Puglia
+072029;F284;Molfetta;;BA;Puglia
+072030;F376;Monopoli;;BA;Puglia
+072031;F915;Noci;;BA;Puglia
+072032;F923;Noicattaro;;BA;Puglia
+072033;G291;Palo del Colle;;BA;Puglia
+072034;G769;Poggiorsini;;BA;Puglia
+072035;G787;Polignano a Mare;;BA;Puglia
+072036;H096;Putignano;;BA;Puglia
+072037;H643;Rutigliano;;BA;Puglia
+072038;H645;Ruvo di Puglia;;BA;Puglia
+072039;H749;Sammichele di Bari;;BA;Puglia
+072040;I053;Sannicandro di Bari;;BA;Puglia
+072041;I330;Santeramo in Colle;;BA;Puglia
+072043;L109;Terlizzi;;BA;Puglia
+072044;L220;Toritto;;BA;Puglia
+072046;L425;Triggiano;;BA;Puglia
+072047;L472;Turi;;BA;Puglia
+072048;L571;Valenzano;;BA;Puglia
+073001;A514;Avetrana;;TA;Puglia
+073002;B808;Carosino;;TA;Puglia
+073003;C136;Castellaneta;;TA;Puglia
+073004;D171;Crispiano;;TA;Puglia
+073005;D463;Faggiano;;TA;Puglia
+073006;D754;Fragagnano;;TA;Puglia
+073007;E036;Ginosa;;TA;Puglia
+073008;E205;Grottaglie;;TA;Puglia
+073009;E469;Laterza;;TA;Puglia
+073010;E537;Leporano;;TA;Puglia
+073011;E630;Lizzano;;TA;Puglia
+073012;E882;Manduria;;TA;Puglia
+073013;E986;Martina Franca;;TA;Puglia
+073014;E995;Maruggio;;TA;Puglia
+073015;F027;Massafra;;TA;Puglia
+073016;F531;Monteiasi;;TA;Puglia
+073017;F563;Montemesola;;TA;Puglia
+073018;F587;Monteparano;;TA;Puglia
+073019;F784;Mottola;;TA;Puglia
+073020;G251;Palagianello;;TA;Puglia
+073021;G252;Palagiano;;TA;Puglia
+073022;H090;Pulsano;;TA;Puglia
+073023;H409;Roccaforzata;;TA;Puglia
+073024;H882;San Giorgio Ionico;;TA;Puglia
+073025;I018;San Marzano di San Giuseppe;;TA;Puglia
+073026;I467;Sava;;TA;Puglia
+073027;L049;Taranto;;TA;Puglia
+073028;L294;Torricella;;TA;Puglia
+073029;M298;Statte;;TA;Puglia
+074001;B180;Brindisi;;BR;Puglia
+074002;B809;Carovigno;;BR;Puglia
+074003;C424;Ceglie Messapica;;BR;Puglia
+074004;C448;Cellino San Marco;;BR;Puglia
+074005;C741;Cisternino;;BR;Puglia
+074006;D422;Erchie;;BR;Puglia
+074007;D508;Fasano;;BR;Puglia
+074008;D761;Francavilla Fontana;;BR;Puglia
+074009;E471;Latiano;;BR;Puglia
+074010;F152;Mesagne;;BR;Puglia
+074011;G098;Oria;;BR;Puglia
+074012;G187;Ostuni;;BR;Puglia
+074013;H822;San Donaci;;BR;Puglia
+074014;I045;San Michele Salentino;;BR;Puglia
+074015;I066;San Pancrazio Salentino;;BR;Puglia
+074016;I119;San Pietro Vernotico;;BR;Puglia
+074017;I396;San Vito dei Normanni;;BR;Puglia
+074018;L213;Torchiarolo;;BR;Puglia
+074019;L280;Torre Santa Susanna;;BR;Puglia
+074020;L920;Villa Castelli;;BR;Puglia
+075002;A184;Alessano;;LE;Puglia
+075003;A185;Alezio;;LE;Puglia
+075004;A208;Alliste;;LE;Puglia
+075005;A281;Andrano;;LE;Puglia
+075006;A350;Aradeo;;LE;Puglia
+075007;A425;Arnesano;;LE;Puglia
+075008;A572;Bagnolo del Salento;;LE;Puglia
+075009;B086;Botrugno;;LE;Puglia
+075010;B413;Calimera;;LE;Puglia
+075011;B506;Campi Salentina;;LE;Puglia
+075012;B616;Cannole;;LE;Puglia
+075013;B690;Caprarica di Lecce;;LE;Puglia
+075014;B792;Carmiano;;LE;Puglia
+075015;B822;Carpignano Salentino;;LE;Puglia
+075016;B936;Casarano;;LE;Puglia
+075017;C334;Castri di Lecce;;LE;Puglia
+075018;C335;Castrignano de' Greci;;LE;Puglia
+075019;C336;Castrignano del Capo;;LE;Puglia
+075020;C377;Cavallino;;LE;Puglia
+075021;C865;Collepasso;;LE;Puglia
+075022;C978;Copertino;;LE;Puglia
+075023;D006;Corigliano d'Otranto;;LE;Puglia
+075024;D044;Corsano;;LE;Puglia
+075025;D223;Cursi;;LE;Puglia
+075026;D237;Cutrofiano;;LE;Puglia
+075027;D305;Diso;;LE;Puglia
+075028;D851;Gagliano del Capo;;LE;Puglia
+075029;D862;Galatina;;LE;Puglia
+075030;D863;Galatone;;LE;Puglia
+075031;D883;Gallipoli;;LE;Puglia
+075032;E053;Giuggianello;;LE;Puglia
+075033;E061;Giurdignano;;LE;Puglia
+075034;E227;Guagnano;;LE;Puglia
+075035;E506;Lecce;;LE;Puglia
+075036;E538;Lequile;;LE;Puglia
+075037;E563;Leverano;;LE;Puglia
+075038;E629;Lizzanello;;LE;Puglia
+075039;E815;Maglie;;LE;Puglia
+075040;E979;Martano;;LE;Puglia
+075041;E984;Martignano;;LE;Puglia
+075042;F054;Matino;;LE;Puglia
+075043;F101;Melendugno;;LE;Puglia
+075044;F109;Melissano;;LE;Puglia
+075045;F117;Melpignano;;LE;Puglia
+075046;F194;Miggiano;;LE;Puglia
+075047;F221;Minervino di Lecce;;LE;Puglia
+075048;F604;Monteroni di Lecce;;LE;Puglia
+075049;F623;Montesano Salentino;;LE;Puglia
+075050;F716;Morciano di Leuca;;LE;Puglia
+075051;F816;Muro Leccese;;LE;Puglia
+075052;F842;Nardò;;LE;Puglia
+075053;F881;Neviano;;LE;Puglia
+075054;F916;Nociglia;;LE;Puglia
+075055;F970;Novoli;;LE;Puglia
+075056;G136;Ortelle;;LE;Puglia
+075057;G188;Otranto;;LE;Puglia
+075058;G285;Palmariggi;;LE;Puglia
+075059;G325;Parabita;;LE;Puglia
+075060;G378;Patù;;LE;Puglia
+075061;G751;Poggiardo;;LE;Puglia
+075063;H147;Racale;;LE;Puglia
+075064;H632;Ruffano;;LE;Puglia
+075065;H708;Salice Salentino;;LE;Puglia
+075066;H729;Salve;;LE;Puglia
+075067;H757;Sanarica;;LE;Puglia
+075068;H793;San Cesario di Lecce;;LE;Puglia
+075069;H826;San Donato di Lecce;;LE;Puglia
+075070;I059;Sannicola;;LE;Puglia
+075071;I115;San Pietro in Lama;;LE;Puglia
+075072;I172;Santa Cesarea Terme;;LE;Puglia
+075073;I549;Scorrano;;LE;Puglia
+075074;I559;Seclì;;LE;Puglia
+075075;I780;Sogliano Cavour;;LE;Puglia
+075076;I800;Soleto;;LE;Puglia
+075077;I887;Specchia;;LE;Puglia
+075078;I923;Spongano;;LE;Puglia
+075079;I930;Squinzano;;LE;Puglia
+075080;I950;Sternatia;;LE;Puglia
+075081;L008;Supersano;;LE;Puglia
+075082;L010;Surano;;LE;Puglia
+075083;L011;Surbo;;LE;Puglia
+075084;L064;Taurisano;;LE;Puglia
+075085;L074;Taviano;;LE;Puglia
+075086;L166;Tiggiano;;LE;Puglia
+075087;L383;Trepuzzi;;LE;Puglia
+075088;L419;Tricase;;LE;Puglia
+075089;L462;Tuglie;;LE;Puglia
+075090;L484;Ugento;;LE;Puglia
+075091;L485;Uggiano la Chiesa;;LE;Puglia
+075092;L711;Veglie;;LE;Puglia
+075093;L776;Vernole;;LE;Puglia
+075094;M187;Zollino;;LE;Puglia
+075095;M264;San Cassiano;;LE;Puglia
+075096;M261;Castro;;LE;Puglia
+075097;M263;Porto Cesareo;;LE;Puglia
+075098;M428;Presicce-Acquarica;;LE;Puglia
+076001;A013;Abriola;;PZ;Basilicata
+076002;A020;Acerenza;;PZ;Basilicata
+076003;A131;Albano di Lucania;;PZ;Basilicata
+076004;A321;Anzi;;PZ;Basilicata
+076005;A415;Armento;;PZ;Basilicata
+076006;A482;Atella;;PZ;Basilicata
+076007;A519;Avigliano;;PZ;Basilicata
+076008;A604;Balvano;;PZ;Basilicata
+076009;A612;Banzi;;PZ;Basilicata
+076010;A615;Baragiano;;PZ;Basilicata
+076011;A666;Barile;;PZ;Basilicata
+076012;A743;Bella;;PZ;Basilicata
+076013;B173;Brienza;;PZ;Basilicata
+076014;B181;Brindisi Montagna;;PZ;Basilicata
+076015;B440;Calvello;;PZ;Basilicata
+076016;B443;Calvera;;PZ;Basilicata
+076017;B549;Campomaggiore;;PZ;Basilicata
+076018;B580;Cancellara;;PZ;Basilicata
+076019;B743;Carbone;;PZ;Basilicata
+076020;B906;San Paolo Albanese;;PZ;Basilicata
+076021;C120;Castelgrande;;PZ;Basilicata
+076022;C199;Castelluccio Inferiore;;PZ;Basilicata
+076023;C201;Castelluccio Superiore;;PZ;Basilicata
+076024;C209;Castelmezzano;;PZ;Basilicata
+076025;C271;Castelsaraceno;;PZ;Basilicata
+076026;C345;Castronuovo di Sant'Andrea;;PZ;Basilicata
+076027;C539;Cersosimo;;PZ;Basilicata
+076028;C619;Chiaromonte;;PZ;Basilicata
+076029;D010;Corleto Perticara;;PZ;Basilicata
+076030;D414;Episcopia;;PZ;Basilicata
+076031;D497;Fardella;;PZ;Basilicata
+076032;D593;Filiano;;PZ;Basilicata
+076033;D696;Forenza;;PZ;Basilicata
+076034;D766;Francavilla in Sinni;;PZ;Basilicata
+076035;D876;Gallicchio;;PZ;Basilicata
+076036;D971;Genzano di Lucania;;PZ;Basilicata
+076037;E221;Grumento Nova;;PZ;Basilicata
+076038;E246;Guardia Perticara;;PZ;Basilicata
+076039;E409;Lagonegro;;PZ;Basilicata
+076040;E474;Latronico;;PZ;Basilicata
+076041;E482;Laurenzana;;PZ;Basilicata
+076042;E483;Lauria;;PZ;Basilicata
+076043;E493;Lavello;;PZ;Basilicata
+076044;E919;Maratea;;PZ;Basilicata
+076045;E976;Marsico Nuovo;;PZ;Basilicata
+076046;E977;Marsicovetere;;PZ;Basilicata
+076047;F006;Maschito;;PZ;Basilicata
+076048;F104;Melfi;;PZ;Basilicata
+076049;F249;Missanello;;PZ;Basilicata
+076050;F295;Moliterno;;PZ;Basilicata
+076051;F568;Montemilone;;PZ;Basilicata
+076052;F573;Montemurro;;PZ;Basilicata
+076053;F817;Muro Lucano;;PZ;Basilicata
+076054;F866;Nemoli;;PZ;Basilicata
+076055;F917;Noepoli;;PZ;Basilicata
+076056;G081;Oppido Lucano;;PZ;Basilicata
+076057;G261;Palazzo San Gervasio;;PZ;Basilicata
+076058;G496;Pescopagano;;PZ;Basilicata
+076059;G590;Picerno;;PZ;Basilicata
+076060;G616;Pietragalla;;PZ;Basilicata
+076061;G623;Pietrapertosa;;PZ;Basilicata
+076062;G663;Pignola;;PZ;Basilicata
+076063;G942;Potenza;;PZ;Basilicata
+076064;H186;Rapolla;;PZ;Basilicata
+076065;H187;Rapone;;PZ;Basilicata
+076066;H307;Rionero in Vulture;;PZ;Basilicata
+076067;H312;Ripacandida;;PZ;Basilicata
+076068;H348;Rivello;;PZ;Basilicata
+076069;H426;Roccanova;;PZ;Basilicata
+076070;H590;Rotonda;;PZ;Basilicata
+076071;H641;Ruoti;;PZ;Basilicata
+076072;H646;Ruvo del Monte;;PZ;Basilicata
+076073;H795;San Chirico Nuovo;;PZ;Basilicata
+076074;H796;San Chirico Raparo;;PZ;Basilicata
+076075;H808;San Costantino Albanese;;PZ;Basilicata
+076076;H831;San Fele;;PZ;Basilicata
+076077;H994;San Martino d'Agri;;PZ;Basilicata
+076078;I157;San Severino Lucano;;PZ;Basilicata
+076079;I288;Sant'Angelo Le Fratte;;PZ;Basilicata
+076080;I305;Sant'Arcangelo;;PZ;Basilicata
+076081;I426;Sarconi;;PZ;Basilicata
+076082;I457;Sasso di Castalda;;PZ;Basilicata
+076083;G614;Satriano di Lucania;;PZ;Basilicata
+076084;H730;Savoia di Lucania;;PZ;Basilicata
+076085;I610;Senise;;PZ;Basilicata
+076086;I917;Spinoso;;PZ;Basilicata
+076087;L082;Teana;;PZ;Basilicata
+076088;L126;Terranova di Pollino;;PZ;Basilicata
+076089;L181;Tito;;PZ;Basilicata
+076090;L197;Tolve;;PZ;Basilicata
+076091;L326;Tramutola;;PZ;Basilicata
+076092;L357;Trecchina;;PZ;Basilicata
+076093;L439;Trivigno;;PZ;Basilicata
+076094;L532;Vaglio Basilicata;;PZ;Basilicata
+076095;L738;Venosa;;PZ;Basilicata
+076096;L859;Vietri di Potenza;;PZ;Basilicata
+076097;L873;Viggianello;;PZ;Basilicata
+076098;L874;Viggiano;;PZ;Basilicata
+076099;E033;Ginestra;;PZ;Basilicata
+076100;M269;Paterno;;PZ;Basilicata
+077001;A017;Accettura;;MT;Basilicata
+077002;A196;Aliano;;MT;Basilicata
+077003;A801;Bernalda;;MT;Basilicata
+077004;B391;Calciano;;MT;Basilicata
+077005;C723;Cirigliano;;MT;Basilicata
+077006;C888;Colobraro;;MT;Basilicata
+077007;D128;Craco;;MT;Basilicata
+077008;D547;Ferrandina;;MT;Basilicata
+077009;D909;Garaguso;;MT;Basilicata
+077010;E093;Gorgoglione;;MT;Basilicata
+077011;E147;Grassano;;MT;Basilicata
+077012;E213;Grottole;;MT;Basilicata
+077013;E326;Irsina;;MT;Basilicata
+077014;F052;Matera;;MT;Basilicata
+077015;F201;Miglionico;;MT;Basilicata
+077016;F399;Montalbano Jonico;;MT;Basilicata
+077017;F637;Montescaglioso;;MT;Basilicata
+077018;A942;Nova Siri;;MT;Basilicata
+077019;G037;Oliveto Lucano;;MT;Basilicata
+077020;G712;Pisticci;;MT;Basilicata
+077021;G786;Policoro;;MT;Basilicata
+077022;G806;Pomarico;;MT;Basilicata
+077023;H591;Rotondella;;MT;Basilicata
+077024;H687;Salandra;;MT;Basilicata
+077025;H888;San Giorgio Lucano;;MT;Basilicata
+077026;I029;San Mauro Forte;;MT;Basilicata
+077027;I954;Stigliano;;MT;Basilicata
+077028;L418;Tricarico;;MT;Basilicata
+077029;L477;Tursi;;MT;Basilicata
+077030;D513;Valsinni;;MT;Basilicata
+077031;M256;Scanzano Jonico;;MT;Basilicata
+078001;A033;Acquaformosa;;CS;Calabria
+078002;A041;Acquappesa;;CS;Calabria
+078003;A053;Acri;;CS;Calabria
+078004;A102;Aiello Calabro;;CS;Calabria
+078005;A105;Aieta;;CS;Calabria
+078006;A160;Albidona;;CS;Calabria
+078007;A183;Alessandria del Carretto;;CS;Calabria
+078008;A234;Altilia;;CS;Calabria
+078009;A240;Altomonte;;CS;Calabria
+078010;A253;Amantea;;CS;Calabria
+078011;A263;Amendolara;;CS;Calabria
+078012;A340;Aprigliano;;CS;Calabria
+078013;A762;Belmonte Calabro;;CS;Calabria
+078014;A768;Belsito;;CS;Calabria
+078015;A773;Belvedere Marittimo;;CS;Calabria
+078016;A842;Bianchi;;CS;Calabria
+078017;A887;Bisignano;;CS;Calabria
+078018;A912;Bocchigliero;;CS;Calabria
+078019;A973;Bonifati;;CS;Calabria
+078020;B270;Buonvicino;;CS;Calabria
+078021;B424;Calopezzati;;CS;Calabria
+078022;B426;Caloveto;;CS;Calabria
+078023;B500;Campana;;CS;Calabria
+078024;B607;Canna;;CS;Calabria
+078025;B774;Cariati;;CS;Calabria
+078026;B802;Carolei;;CS;Calabria
+078027;B813;Carpanzano;;CS;Calabria
+078029;C002;Cassano all'Ionio;;CS;Calabria
+078030;C301;Castiglione Cosentino;;CS;Calabria
+078031;C108;Castrolibero;;CS;Calabria
+078032;C348;Castroregio;;CS;Calabria
+078033;C349;Castrovillari;;CS;Calabria
+078034;C430;Celico;;CS;Calabria
+078035;C437;Cellara;;CS;Calabria
+078036;C489;Cerchiara di Calabria;;CS;Calabria
+078037;C515;Cerisano;;CS;Calabria
+078038;C554;Cervicati;;CS;Calabria
+078039;C560;Cerzeto;;CS;Calabria
+078040;C588;Cetraro;;CS;Calabria
+078041;C763;Civita;;CS;Calabria
+078042;C795;Cleto;;CS;Calabria
+078043;C905;Colosimi;;CS;Calabria
+078045;D086;Cosenza;;CS;Calabria
+078046;D180;Cropalati;;CS;Calabria
+078047;D184;Crosia;;CS;Calabria
+078048;D289;Diamante;;CS;Calabria
+078049;D304;Dipignano;;CS;Calabria
+078050;D328;Domanico;;CS;Calabria
+078051;D464;Fagnano Castello;;CS;Calabria
+078052;D473;Falconara Albanese;;CS;Calabria
+078053;D582;Figline Vegliaturo;;CS;Calabria
+078054;D614;Firmo;;CS;Calabria
+078055;D624;Fiumefreddo Bruzio;;CS;Calabria
+078056;D764;Francavilla Marittima;;CS;Calabria
+078057;D774;Frascineto;;CS;Calabria
+078058;D828;Fuscaldo;;CS;Calabria
+078059;E180;Grimaldi;;CS;Calabria
+078060;E185;Grisolia;;CS;Calabria
+078061;E242;Guardia Piemontese;;CS;Calabria
+078062;E407;Lago;;CS;Calabria
+078063;E417;Laino Borgo;;CS;Calabria
+078064;E419;Laino Castello;;CS;Calabria
+078065;E450;Lappano;;CS;Calabria
+078066;E475;Lattarico;;CS;Calabria
+078067;E677;Longobardi;;CS;Calabria
+078068;E678;Longobucco;;CS;Calabria
+078069;E745;Lungro;;CS;Calabria
+078070;E773;Luzzi;;CS;Calabria
+078071;E835;Maierà;;CS;Calabria
+078072;E859;Malito;;CS;Calabria
+078073;E872;Malvito;;CS;Calabria
+078074;E878;Mandatoriccio;;CS;Calabria
+078075;E888;Mangone;;CS;Calabria
+078076;E914;Marano Marchesato;;CS;Calabria
+078077;E915;Marano Principato;;CS;Calabria
+078078;F001;Marzi;;CS;Calabria
+078079;F125;Mendicino;;CS;Calabria
+078080;F370;Mongrassano;;CS;Calabria
+078081;F416;Montalto Uffugo;;CS;Calabria
+078082;F519;Montegiordano;;CS;Calabria
+078083;F708;Morano Calabro;;CS;Calabria
+078084;F735;Mormanno;;CS;Calabria
+078085;F775;Mottafollone;;CS;Calabria
+078086;F907;Nocara;;CS;Calabria
+078087;G110;Oriolo;;CS;Calabria
+078088;G129;Orsomarso;;CS;Calabria
+078089;G298;Paludi;;CS;Calabria
+078090;G307;Panettieri;;CS;Calabria
+078091;G317;Paola;;CS;Calabria
+078092;G320;Papasidero;;CS;Calabria
+078093;G331;Parenti;;CS;Calabria
+078094;G372;Paterno Calabro;;CS;Calabria
+078096;G411;Pedivigliano;;CS;Calabria
+078097;G553;Piane Crati;;CS;Calabria
+078098;G615;Pietrafitta;;CS;Calabria
+078099;G622;Pietrapaola;;CS;Calabria
+078100;G733;Plataci;;CS;Calabria
+078101;G975;Praia a Mare;;CS;Calabria
+078102;H235;Rende;;CS;Calabria
+078103;H416;Rocca Imperiale;;CS;Calabria
+078104;H488;Roggiano Gravina;;CS;Calabria
+078105;H490;Rogliano;;CS;Calabria
+078106;H565;Rose;;CS;Calabria
+078107;H572;Roseto Capo Spulico;;CS;Calabria
+078109;H585;Rota Greca;;CS;Calabria
+078110;H621;Rovito;;CS;Calabria
+078111;H765;San Basile;;CS;Calabria
+078112;H774;San Benedetto Ullano;;CS;Calabria
+078113;H806;San Cosmo Albanese;;CS;Calabria
+078114;H818;San Demetrio Corone;;CS;Calabria
+078115;H825;San Donato di Ninea;;CS;Calabria
+078116;H841;San Fili;;CS;Calabria
+078117;H877;Sangineto;;CS;Calabria
+078118;H881;San Giorgio Albanese;;CS;Calabria
+078119;H919;San Giovanni in Fiore;;CS;Calabria
+078120;H961;San Lorenzo Bellizzi;;CS;Calabria
+078121;H962;San Lorenzo del Vallo;;CS;Calabria
+078122;H971;San Lucido;;CS;Calabria
+078123;H981;San Marco Argentano;;CS;Calabria
+078124;H992;San Martino di Finita;;CS;Calabria
+078125;I060;San Nicola Arcella;;CS;Calabria
+078126;I108;San Pietro in Amantea;;CS;Calabria
+078127;I114;San Pietro in Guarano;;CS;Calabria
+078128;I165;San Sosti;;CS;Calabria
+078129;I171;Santa Caterina Albanese;;CS;Calabria
+078130;I183;Santa Domenica Talao;;CS;Calabria
+078131;I192;Sant'Agata di Esaro;;CS;Calabria
+078132;C717;Santa Maria del Cedro;;CS;Calabria
+078133;I309;Santa Sofia d'Epiro;;CS;Calabria
+078134;I359;Santo Stefano di Rogliano;;CS;Calabria
+078135;I388;San Vincenzo La Costa;;CS;Calabria
+078136;I423;Saracena;;CS;Calabria
+078137;I485;Scala Coeli;;CS;Calabria
+078138;I489;Scalea;;CS;Calabria
+078139;D290;Scigliano;;CS;Calabria
+078140;I642;Serra d'Aiello;;CS;Calabria
+078142;I895;Spezzano Albanese;;CS;Calabria
+078143;I896;Spezzano della Sila;;CS;Calabria
+078145;L055;Tarsia;;CS;Calabria
+078146;L124;Terranova da Sibari;;CS;Calabria
+078147;L134;Terravecchia;;CS;Calabria
+078148;L206;Torano Castello;;CS;Calabria
+078149;L305;Tortora;;CS;Calabria
+078150;L353;Trebisacce;;CS;Calabria
+078152;L524;Vaccarizzo Albanese;;CS;Calabria
+078153;L747;Verbicaro;;CS;Calabria
+078154;B903;Villapiana;;CS;Calabria
+078155;M202;Zumpano;;CS;Calabria
+078156;M385;Casali del Manco;;CS;Calabria
+078157;M403;Corigliano-Rossano;;CS;Calabria
+079002;A155;Albi;;CZ;Calabria
+079003;A255;Amaroni;;CZ;Calabria
+079004;A257;Amato;;CZ;Calabria
+079005;A272;Andali;;CZ;Calabria
+079007;A397;Argusto;;CZ;Calabria
+079008;A542;Badolato;;CZ;Calabria
+079009;A736;Belcastro;;CZ;Calabria
+079011;B002;Borgia;;CZ;Calabria
+079012;B085;Botricello;;CZ;Calabria
+079017;B717;Caraffa di Catanzaro;;CZ;Calabria
+079018;B758;Cardinale;;CZ;Calabria
+079020;B790;Carlopoli;;CZ;Calabria
+079023;C352;Catanzaro;;CZ;Calabria
+079024;C453;Cenadi;;CZ;Calabria
+079025;C472;Centrache;;CZ;Calabria
+079027;C542;Cerva;;CZ;Calabria
+079029;C616;Chiaravalle Centrale;;CZ;Calabria
+079030;C674;Cicala;;CZ;Calabria
+079033;C960;Conflenti;;CZ;Calabria
+079034;D049;Cortale;;CZ;Calabria
+079036;D181;Cropani;;CZ;Calabria
+079039;D218;Curinga;;CZ;Calabria
+079042;D257;Davoli;;CZ;Calabria
+079043;D261;Decollatura;;CZ;Calabria
+079047;D476;Falerna;;CZ;Calabria
+079048;D544;Feroleto Antico;;CZ;Calabria
+079052;D744;Fossato Serralta;;CZ;Calabria
+079055;D852;Gagliato;;CZ;Calabria
+079056;D932;Gasperina;;CZ;Calabria
+079058;E031;Gimigliano;;CZ;Calabria
+079059;E050;Girifalco;;CZ;Calabria
+079060;E068;Gizzeria;;CZ;Calabria
+079061;E239;Guardavalle;;CZ;Calabria
+079063;E328;Isca sullo Ionio;;CZ;Calabria
+079065;E274;Jacurso;;CZ;Calabria
+079068;E806;Magisano;;CZ;Calabria
+079069;E834;Maida;;CZ;Calabria
+079071;E923;Marcedusa;;CZ;Calabria
+079072;E925;Marcellinara;;CZ;Calabria
+079073;E990;Martirano;;CZ;Calabria
+079074;E991;Martirano Lombardo;;CZ;Calabria
+079077;F200;Miglierina;;CZ;Calabria
+079080;F432;Montauro;;CZ;Calabria
+079081;F586;Montepaone;;CZ;Calabria
+079083;F780;Motta Santa Lucia;;CZ;Calabria
+079087;F910;Nocera Terinese;;CZ;Calabria
+079088;G034;Olivadi;;CZ;Calabria
+079089;G272;Palermiti;;CZ;Calabria
+079092;G439;Pentone;;CZ;Calabria
+079094;G517;Petrizzi;;CZ;Calabria
+079095;G518;Petronà;;CZ;Calabria
+079096;D546;Pianopoli;;CZ;Calabria
+079099;G734;Platania;;CZ;Calabria
+079108;H846;San Floro;;CZ;Calabria
+079110;H976;San Mango d'Aquino;;CZ;Calabria
+079114;I093;San Pietro a Maida;;CZ;Calabria
+079115;I095;San Pietro Apostolo;;CZ;Calabria
+079116;I164;San Sostene;;CZ;Calabria
+079117;I170;Santa Caterina dello Ionio;;CZ;Calabria
+079118;I266;Sant'Andrea Apostolo dello Ionio;;CZ;Calabria
+079122;I393;San Vito sullo Ionio;;CZ;Calabria
+079123;I463;Satriano;;CZ;Calabria
+079126;I589;Sellia;;CZ;Calabria
+079127;I590;Sellia Marina;;CZ;Calabria
+079129;I655;Serrastretta;;CZ;Calabria
+079130;I671;Sersale;;CZ;Calabria
+079131;I704;Settingiano;;CZ;Calabria
+079133;I745;Simeri Crichi;;CZ;Calabria
+079134;I844;Sorbo San Basile;;CZ;Calabria
+079137;I872;Soverato;;CZ;Calabria
+079138;I874;Soveria Mannelli;;CZ;Calabria
+079139;I875;Soveria Simeri;;CZ;Calabria
+079142;I929;Squillace;;CZ;Calabria
+079143;I937;Stalettì;;CZ;Calabria
+079146;L070;Taverna;;CZ;Calabria
+079147;L177;Tiriolo;;CZ;Calabria
+079148;L240;Torre di Ruggiero;;CZ;Calabria
+079151;I322;Vallefiorita;;CZ;Calabria
+079157;M140;Zagarise;;CZ;Calabria
+079160;M208;Lamezia Terme;;CZ;Calabria
+080001;A065;Africo;;RC;Calabria
+080002;A077;Agnana Calabra;;RC;Calabria
+080003;A303;Anoia;;RC;Calabria
+080004;A314;Antonimina;;RC;Calabria
+080005;A385;Ardore;;RC;Calabria
+080006;A544;Bagaladi;;RC;Calabria
+080007;A552;Bagnara Calabra;;RC;Calabria
+080008;A780;Benestare;;RC;Calabria
+080009;A843;Bianco;;RC;Calabria
+080010;A897;Bivongi;;RC;Calabria
+080011;B097;Bova;;RC;Calabria
+080012;B098;Bovalino;;RC;Calabria
+080013;B099;Bova Marina;;RC;Calabria
+080014;B118;Brancaleone;;RC;Calabria
+080015;B234;Bruzzano Zeffirio;;RC;Calabria
+080016;B379;Calanna;;RC;Calabria
+080017;B481;Camini;;RC;Calabria
+080018;B516;Campo Calabro;;RC;Calabria
+080019;B591;Candidoni;;RC;Calabria
+080020;B617;Canolo;;RC;Calabria
+080021;B718;Caraffa del Bianco;;RC;Calabria
+080022;B756;Cardeto;;RC;Calabria
+080023;B766;Careri;;RC;Calabria
+080024;B966;Casignana;;RC;Calabria
+080025;C285;Caulonia;;RC;Calabria
+080026;C695;Ciminà;;RC;Calabria
+080027;C710;Cinquefrondi;;RC;Calabria
+080028;C747;Cittanova;;RC;Calabria
+080029;C954;Condofuri;;RC;Calabria
+080030;D089;Cosoleto;;RC;Calabria
+080031;D268;Delianuova;;RC;Calabria
+080032;D545;Feroleto della Chiesa;;RC;Calabria
+080033;D557;Ferruzzano;;RC;Calabria
+080034;D619;Fiumara;;RC;Calabria
+080035;D864;Galatro;;RC;Calabria
+080036;D975;Gerace;;RC;Calabria
+080037;E025;Giffone;;RC;Calabria
+080038;E041;Gioia Tauro;;RC;Calabria
+080039;E044;Gioiosa Ionica;;RC;Calabria
+080040;E212;Grotteria;;RC;Calabria
+080041;E402;Laganadi;;RC;Calabria
+080042;E479;Laureana di Borrello;;RC;Calabria
+080043;D976;Locri;;RC;Calabria
+080044;E873;Mammola;;RC;Calabria
+080045;E956;Marina di Gioiosa Ionica;;RC;Calabria
+080046;E968;Maropati;;RC;Calabria
+080047;E993;Martone;;RC;Calabria
+080048;F105;Melicuccà;;RC;Calabria
+080049;F106;Melicucco;;RC;Calabria
+080050;F112;Melito di Porto Salvo;;RC;Calabria
+080051;F301;Molochio;;RC;Calabria
+080052;F324;Monasterace;;RC;Calabria
+080053;D746;Montebello Jonico;;RC;Calabria
+080054;F779;Motta San Giovanni;;RC;Calabria
+080055;G082;Oppido Mamertina;;RC;Calabria
+080056;G277;Palizzi;;RC;Calabria
+080057;G288;Palmi;;RC;Calabria
+080058;G394;Pazzano;;RC;Calabria
+080059;G729;Placanica;;RC;Calabria
+080060;G735;Platì;;RC;Calabria
+080061;G791;Polistena;;RC;Calabria
+080062;G905;Portigliola;;RC;Calabria
+080063;H224;Reggio di Calabria;;RC;Calabria
+080064;H265;Riace;;RC;Calabria
+080065;H359;Rizziconi;;RC;Calabria
+080066;H408;Roccaforte del Greco;;RC;Calabria
+080067;H456;Roccella Ionica;;RC;Calabria
+080068;H489;Roghudi;;RC;Calabria
+080069;H558;Rosarno;;RC;Calabria
+080070;H013;Samo;;RC;Calabria
+080071;H889;San Giorgio Morgeto;;RC;Calabria
+080072;H903;San Giovanni di Gerace;;RC;Calabria
+080073;H959;San Lorenzo;;RC;Calabria
+080074;H970;San Luca;;RC;Calabria
+080075;I102;San Pietro di Caridà;;RC;Calabria
+080076;I132;San Procopio;;RC;Calabria
+080077;I139;San Roberto;;RC;Calabria
+080078;I176;Santa Cristina d'Aspromonte;;RC;Calabria
+080079;I198;Sant'Agata del Bianco;;RC;Calabria
+080080;I214;Sant'Alessio in Aspromonte;;RC;Calabria
+080081;I333;Sant'Eufemia d'Aspromonte;;RC;Calabria
+080082;I341;Sant'Ilario dello Ionio;;RC;Calabria
+080083;I371;Santo Stefano in Aspromonte;;RC;Calabria
+080084;I536;Scido;;RC;Calabria
+080085;I537;Scilla;;RC;Calabria
+080086;I600;Seminara;;RC;Calabria
+080087;I656;Serrata;;RC;Calabria
+080088;I725;Siderno;;RC;Calabria
+080089;I753;Sinopoli;;RC;Calabria
+080090;I936;Staiti;;RC;Calabria
+080091;I955;Stignano;;RC;Calabria
+080092;I956;Stilo;;RC;Calabria
+080093;L063;Taurianova;;RC;Calabria
+080094;L127;Terranova Sappo Minulio;;RC;Calabria
+080095;L673;Varapodio;;RC;Calabria
+080096;M018;Villa San Giovanni;;RC;Calabria
+080097;M277;San Ferdinando;;RC;Calabria
+081001;A176;Alcamo;;TP;Sicilia
+081002;B288;Buseto Palizzolo;;TP;Sicilia
+081003;B385;Calatafimi-Segesta;;TP;Sicilia
+081004;B521;Campobello di Mazara;;TP;Sicilia
+081005;C130;Castellammare del Golfo;;TP;Sicilia
+081006;C286;Castelvetrano;;TP;Sicilia
+081007;D234;Custonaci;;TP;Sicilia
+081008;D423;Erice;;TP;Sicilia
+081009;D518;Favignana;;TP;Sicilia
+081010;E023;Gibellina;;TP;Sicilia
+081011;E974;Marsala;;TP;Sicilia
+081012;F061;Mazara del Vallo;;TP;Sicilia
+081013;G208;Paceco;;TP;Sicilia
+081014;G315;Pantelleria;;TP;Sicilia
+081015;G347;Partanna;;TP;Sicilia
+081016;G767;Poggioreale;;TP;Sicilia
+081017;H688;Salaparuta;;TP;Sicilia
+081018;H700;Salemi;;TP;Sicilia
+081019;I291;Santa Ninfa;;TP;Sicilia
+081020;I407;San Vito Lo Capo;;TP;Sicilia
+081021;L331;Trapani;;TP;Sicilia
+081022;G319;Valderice;;TP;Sicilia
+081023;M081;Vita;;TP;Sicilia
+081024;M281;Petrosino;;TP;Sicilia
+082001;A195;Alia;;PA;Sicilia
+082002;A202;Alimena;;PA;Sicilia
+082003;A203;Aliminusa;;PA;Sicilia
+082004;A229;Altavilla Milicia;;PA;Sicilia
+082005;A239;Altofonte;;PA;Sicilia
+082006;A546;Bagheria;;PA;Sicilia
+082007;A592;Balestrate;;PA;Sicilia
+082008;A719;Baucina;;PA;Sicilia
+082009;A764;Belmonte Mezzagno;;PA;Sicilia
+082010;A882;Bisacquino;;PA;Sicilia
+082011;A946;Bolognetta;;PA;Sicilia
+082012;A958;Bompietro;;PA;Sicilia
+082013;A991;Borgetto;;PA;Sicilia
+082014;B315;Caccamo;;PA;Sicilia
+082015;B430;Caltavuturo;;PA;Sicilia
+082016;B533;Campofelice di Fitalia;;PA;Sicilia
+082017;B532;Campofelice di Roccella;;PA;Sicilia
+082018;B535;Campofiorito;;PA;Sicilia
+082019;B556;Camporeale;;PA;Sicilia
+082020;B645;Capaci;;PA;Sicilia
+082021;B780;Carini;;PA;Sicilia
+082022;C067;Castelbuono;;PA;Sicilia
+082023;C074;Casteldaccia;;PA;Sicilia
+082024;C135;Castellana Sicula;;PA;Sicilia
+082025;C344;Castronovo di Sicilia;;PA;Sicilia
+082026;C420;Cefalà Diana;;PA;Sicilia
+082027;C421;Cefalù;;PA;Sicilia
+082028;C496;Cerda;;PA;Sicilia
+082029;C654;Chiusa Sclafani;;PA;Sicilia
+082030;C696;Ciminna;;PA;Sicilia
+082031;C708;Cinisi;;PA;Sicilia
+082032;C871;Collesano;;PA;Sicilia
+082033;C968;Contessa Entellina;;PA;Sicilia
+082034;D009;Corleone;;PA;Sicilia
+082035;D567;Ficarazzi;;PA;Sicilia
+082036;D907;Gangi;;PA;Sicilia
+082037;D977;Geraci Siculo;;PA;Sicilia
+082038;E013;Giardinello;;PA;Sicilia
+082039;E055;Giuliana;;PA;Sicilia
+082040;E074;Godrano;;PA;Sicilia
+082041;E149;Gratteri;;PA;Sicilia
+082042;E337;Isnello;;PA;Sicilia
+082043;E350;Isola delle Femmine;;PA;Sicilia
+082044;E459;Lascari;;PA;Sicilia
+082045;E541;Lercara Friddi;;PA;Sicilia
+082046;E957;Marineo;;PA;Sicilia
+082047;F184;Mezzojuso;;PA;Sicilia
+082048;F246;Misilmeri;;PA;Sicilia
+082049;F377;Monreale;;PA;Sicilia
+082050;F544;Montelepre;;PA;Sicilia
+082051;F553;Montemaggiore Belsito;;PA;Sicilia
+082052;G263;Palazzo Adriano;;PA;Sicilia
+082053;G273;Palermo;;PA;Sicilia
+082054;G348;Partinico;;PA;Sicilia
+082055;G510;Petralia Soprana;;PA;Sicilia
+082056;G511;Petralia Sottana;;PA;Sicilia
+082057;G543;Piana degli Albanesi;;PA;Sicilia
+082058;G792;Polizzi Generosa;;PA;Sicilia
+082059;G797;Pollina;;PA;Sicilia
+082060;H070;Prizzi;;PA;Sicilia
+082061;H422;Roccamena;;PA;Sicilia
+082062;H428;Roccapalumba;;PA;Sicilia
+082063;H797;San Cipirello;;PA;Sicilia
+082064;H933;San Giuseppe Jato;;PA;Sicilia
+082065;I028;San Mauro Castelverde;;PA;Sicilia
+082066;I174;Santa Cristina Gela;;PA;Sicilia
+082067;I188;Santa Flavia;;PA;Sicilia
+082068;I534;Sciara;;PA;Sicilia
+082069;I541;Sclafani Bagni;;PA;Sicilia
+082070;L112;Termini Imerese;;PA;Sicilia
+082071;L131;Terrasini;;PA;Sicilia
+082072;L282;Torretta;;PA;Sicilia
+082073;L317;Trabia;;PA;Sicilia
+082074;L332;Trappeto;;PA;Sicilia
+082075;L519;Ustica;;PA;Sicilia
+082076;L603;Valledolmo;;PA;Sicilia
+082077;L740;Ventimiglia di Sicilia;;PA;Sicilia
+082078;L837;Vicari;;PA;Sicilia
+082079;L916;Villabate;;PA;Sicilia
+082080;L951;Villafrati;;PA;Sicilia
+082081;I538;Scillato;;PA;Sicilia
+082082;M268;Blufi;;PA;Sicilia
+083001;A177;Alcara li Fusi;;ME;Sicilia
+083002;A194;Alì;;ME;Sicilia
+083003;A201;Alì Terme;;ME;Sicilia
+083004;A313;Antillo;;ME;Sicilia
+083005;A638;Barcellona Pozzo di Gotto;;ME;Sicilia
+083006;A698;Basicò;;ME;Sicilia
+083007;B198;Brolo;;ME;Sicilia
+083008;B660;Capizzi;;ME;Sicilia
+083009;B666;Capo d'Orlando;;ME;Sicilia
+083010;B695;Capri Leone;;ME;Sicilia
+083011;B804;Caronia;;ME;Sicilia
+083012;B918;Casalvecchio Siculo;;ME;Sicilia
+083013;C094;Castel di Lucio;;ME;Sicilia
+083014;C051;Castell'Umberto;;ME;Sicilia
+083015;C210;Castelmola;;ME;Sicilia
+083016;C347;Castroreale;;ME;Sicilia
+083017;C568;Cesarò;;ME;Sicilia
+083018;C956;Condrò;;ME;Sicilia
+083019;D474;Falcone;;ME;Sicilia
+083020;D569;Ficarra;;ME;Sicilia
+083021;D622;Fiumedinisi;;ME;Sicilia
+083022;D635;Floresta;;ME;Sicilia
+083023;D661;Fondachelli-Fantina;;ME;Sicilia
+083024;D733;Forza d'Agrò;;ME;Sicilia
+083025;D765;Francavilla di Sicilia;;ME;Sicilia
+083026;D793;Frazzanò;;ME;Sicilia
+083027;D824;Furci Siculo;;ME;Sicilia
+083028;D825;Furnari;;ME;Sicilia
+083029;D844;Gaggi;;ME;Sicilia
+083030;D861;Galati Mamertino;;ME;Sicilia
+083031;D885;Gallodoro;;ME;Sicilia
+083032;E014;Giardini-Naxos;;ME;Sicilia
+083033;E043;Gioiosa Marea;;ME;Sicilia
+083034;E142;Graniti;;ME;Sicilia
+083035;E233;Gualtieri Sicaminò;;ME;Sicilia
+083036;E374;Itala;;ME;Sicilia
+083037;E523;Leni;;ME;Sicilia
+083038;E555;Letojanni;;ME;Sicilia
+083039;E571;Librizzi;;ME;Sicilia
+083040;E594;Limina;;ME;Sicilia
+083041;E606;Lipari;;ME;Sicilia
+083042;E674;Longi;;ME;Sicilia
+083043;E855;Malfa;;ME;Sicilia
+083044;E869;Malvagna;;ME;Sicilia
+083045;E876;Mandanici;;ME;Sicilia
+083046;F066;Mazzarrà Sant'Andrea;;ME;Sicilia
+083047;F147;Merì;;ME;Sicilia
+083048;F158;Messina;;ME;Sicilia
+083049;F206;Milazzo;;ME;Sicilia
+083050;F210;Militello Rosmarino;;ME;Sicilia
+083051;F242;Mirto;;ME;Sicilia
+083052;F251;Mistretta;;ME;Sicilia
+083053;F277;Moio Alcantara;;ME;Sicilia
+083054;F359;Monforte San Giorgio;;ME;Sicilia
+083055;F368;Mongiuffi Melia;;ME;Sicilia
+083056;F395;Montagnareale;;ME;Sicilia
+083057;F400;Montalbano Elicona;;ME;Sicilia
+083058;F772;Motta Camastra;;ME;Sicilia
+083059;F773;Motta d'Affermo;;ME;Sicilia
+083060;F848;Naso;;ME;Sicilia
+083061;F901;Nizza di Sicilia;;ME;Sicilia
+083062;F951;Novara di Sicilia;;ME;Sicilia
+083063;G036;Oliveri;;ME;Sicilia
+083064;G209;Pace del Mela;;ME;Sicilia
+083065;G234;Pagliara;;ME;Sicilia
+083066;G377;Patti;;ME;Sicilia
+083067;G522;Pettineo;;ME;Sicilia
+083068;G699;Piraino;;ME;Sicilia
+083069;H151;Raccuja;;ME;Sicilia
+083070;H228;Reitano;;ME;Sicilia
+083071;H405;Roccafiorita;;ME;Sicilia
+083072;H418;Roccalumera;;ME;Sicilia
+083073;H380;Roccavaldina;;ME;Sicilia
+083074;H455;Roccella Valdemone;;ME;Sicilia
+083075;H479;Rodì Milici;;ME;Sicilia
+083076;H519;Rometta;;ME;Sicilia
+083077;H842;San Filippo del Mela;;ME;Sicilia
+083078;H850;San Fratello;;ME;Sicilia
+083079;H982;San Marco d'Alunzio;;ME;Sicilia
+083080;I084;San Pier Niceto;;ME;Sicilia
+083081;I086;San Piero Patti;;ME;Sicilia
+083082;I147;San Salvatore di Fitalia;;ME;Sicilia
+083083;I184;Santa Domenica Vittoria;;ME;Sicilia
+083084;I199;Sant'Agata di Militello;;ME;Sicilia
+083085;I215;Sant'Alessio Siculo;;ME;Sicilia
+083086;I220;Santa Lucia del Mela;;ME;Sicilia
+083087;I254;Santa Marina Salina;;ME;Sicilia
+083088;I283;Sant'Angelo di Brolo;;ME;Sicilia
+083089;I311;Santa Teresa di Riva;;ME;Sicilia
+083090;I328;San Teodoro;;ME;Sicilia
+083091;I370;Santo Stefano di Camastra;;ME;Sicilia
+083092;I420;Saponara;;ME;Sicilia
+083093;I477;Savoca;;ME;Sicilia
+083094;I492;Scaletta Zanclea;;ME;Sicilia
+083095;I747;Sinagra;;ME;Sicilia
+083096;I881;Spadafora;;ME;Sicilia
+083097;L042;Taormina;;ME;Sicilia
+083098;L271;Torregrotta;;ME;Sicilia
+083099;L308;Tortorici;;ME;Sicilia
+083100;L431;Tripi;;ME;Sicilia
+083101;L478;Tusa;;ME;Sicilia
+083102;L482;Ucria;;ME;Sicilia
+083103;L561;Valdina;;ME;Sicilia
+083104;L735;Venetico;;ME;Sicilia
+083105;L950;Villafranca Tirrena;;ME;Sicilia
+083106;M210;Terme Vigliatore;;ME;Sicilia
+083107;M211;Acquedolci;;ME;Sicilia
+083108;M286;Torrenova;;ME;Sicilia
+084001;A089;Agrigento;;AG;Sicilia
+084002;A181;Alessandria della Rocca;;AG;Sicilia
+084003;A351;Aragona;;AG;Sicilia
+084004;A896;Bivona;;AG;Sicilia
+084005;B275;Burgio;;AG;Sicilia
+084006;B377;Calamonaci;;AG;Sicilia
+084007;B427;Caltabellotta;;AG;Sicilia
+084008;B460;Camastra;;AG;Sicilia
+084009;B486;Cammarata;;AG;Sicilia
+084010;B520;Campobello di Licata;;AG;Sicilia
+084011;B602;Canicattì;;AG;Sicilia
+084012;C275;Casteltermini;;AG;Sicilia
+084013;C341;Castrofilippo;;AG;Sicilia
+084014;C356;Cattolica Eraclea;;AG;Sicilia
+084015;C668;Cianciana;;AG;Sicilia
+084016;C928;Comitini;;AG;Sicilia
+084017;D514;Favara;;AG;Sicilia
+084018;E209;Grotte;;AG;Sicilia
+084019;E390;Joppolo Giancaxio;;AG;Sicilia
+084020;E431;Lampedusa e Linosa;;AG;Sicilia
+084021;E573;Licata;;AG;Sicilia
+084022;E714;Lucca Sicula;;AG;Sicilia
+084023;F126;Menfi;;AG;Sicilia
+084024;F414;Montallegro;;AG;Sicilia
+084025;F655;Montevago;;AG;Sicilia
+084026;F845;Naro;;AG;Sicilia
+084027;G282;Palma di Montechiaro;;AG;Sicilia
+084028;F299;Porto Empedocle;;AG;Sicilia
+084029;H148;Racalmuto;;AG;Sicilia
+084030;H159;Raffadali;;AG;Sicilia
+084031;H194;Ravanusa;;AG;Sicilia
+084032;H205;Realmonte;;AG;Sicilia
+084033;H269;Ribera;;AG;Sicilia
+084034;H743;Sambuca di Sicilia;;AG;Sicilia
+084035;H778;San Biagio Platani;;AG;Sicilia
+084036;H914;San Giovanni Gemini;;AG;Sicilia
+084037;I185;Santa Elisabetta;;AG;Sicilia
+084038;I224;Santa Margherita di Belice;;AG;Sicilia
+084039;I290;Sant'Angelo Muxaro;;AG;Sicilia
+084040;I356;Santo Stefano Quisquina;;AG;Sicilia
+084041;I533;Sciacca;;AG;Sicilia
+084042;I723;Siculiana;;AG;Sicilia
+084043;L944;Villafranca Sicula;;AG;Sicilia
+085001;A049;Acquaviva Platani;;CL;Sicilia
+085002;A957;Bompensiere;;CL;Sicilia
+085003;B302;Butera;;CL;Sicilia
+085004;B429;Caltanissetta;;CL;Sicilia
+085005;B537;Campofranco;;CL;Sicilia
+085006;D267;Delia;;CL;Sicilia
+085007;D960;Gela;;CL;Sicilia
+085008;E953;Marianopoli;;CL;Sicilia
+085009;F065;Mazzarino;;CL;Sicilia
+085010;E618;Milena;;CL;Sicilia
+085011;F489;Montedoro;;CL;Sicilia
+085012;F830;Mussomeli;;CL;Sicilia
+085013;F899;Niscemi;;CL;Sicilia
+085014;H245;Resuttano;;CL;Sicilia
+085015;H281;Riesi;;CL;Sicilia
+085016;H792;San Cataldo;;CL;Sicilia
+085017;I169;Santa Caterina Villarmosa;;CL;Sicilia
+085018;I644;Serradifalco;;CL;Sicilia
+085019;I824;Sommatino;;CL;Sicilia
+085020;L016;Sutera;;CL;Sicilia
+085021;L609;Vallelunga Pratameno;;CL;Sicilia
+085022;L959;Villalba;;CL;Sicilia
+086001;A070;Agira;;EN;Sicilia
+086002;A098;Aidone;;EN;Sicilia
+086003;A478;Assoro;;EN;Sicilia
+086004;A676;Barrafranca;;EN;Sicilia
+086005;B381;Calascibetta;;EN;Sicilia
+086006;C353;Catenanuova;;EN;Sicilia
+086007;C471;Centuripe;;EN;Sicilia
+086008;C480;Cerami;;EN;Sicilia
+086009;C342;Enna;;EN;Sicilia
+086010;D849;Gagliano Castelferrato;;EN;Sicilia
+086011;E536;Leonforte;;EN;Sicilia
+086012;F892;Nicosia;;EN;Sicilia
+086013;F900;Nissoria;;EN;Sicilia
+086014;G580;Piazza Armerina;;EN;Sicilia
+086015;G624;Pietraperzia;;EN;Sicilia
+086016;H221;Regalbuto;;EN;Sicilia
+086017;I891;Sperlinga;;EN;Sicilia
+086018;L448;Troina;;EN;Sicilia
+086019;L583;Valguarnera Caropepe;;EN;Sicilia
+086020;M011;Villarosa;;EN;Sicilia
+087001;A025;Aci Bonaccorsi;;CT;Sicilia
+087002;A026;Aci Castello;;CT;Sicilia
+087003;A027;Aci Catena;;CT;Sicilia
+087004;A028;Acireale;;CT;Sicilia
+087005;A029;Aci Sant'Antonio;;CT;Sicilia
+087006;A056;Adrano;;CT;Sicilia
+087007;A766;Belpasso;;CT;Sicilia
+087008;A841;Biancavilla;;CT;Sicilia
+087009;B202;Bronte;;CT;Sicilia
+087010;B384;Calatabiano;;CT;Sicilia
+087011;B428;Caltagirone;;CT;Sicilia
+087012;B561;Camporotondo Etneo;;CT;Sicilia
+087013;C091;Castel di Iudica;;CT;Sicilia
+087014;C297;Castiglione di Sicilia;;CT;Sicilia
+087015;C351;Catania;;CT;Sicilia
+087016;D623;Fiumefreddo di Sicilia;;CT;Sicilia
+087017;E017;Giarre;;CT;Sicilia
+087018;E133;Grammichele;;CT;Sicilia
+087019;E156;Gravina di Catania;;CT;Sicilia
+087020;E578;Licodia Eubea;;CT;Sicilia
+087021;E602;Linguaglossa;;CT;Sicilia
+087022;E854;Maletto;;CT;Sicilia
+087023;F004;Mascali;;CT;Sicilia
+087024;F005;Mascalucia;;CT;Sicilia
+087025;F209;Militello in Val di Catania;;CT;Sicilia
+087026;F214;Milo;;CT;Sicilia
+087027;F217;Mineo;;CT;Sicilia
+087028;F231;Mirabella Imbaccari;;CT;Sicilia
+087029;F250;Misterbianco;;CT;Sicilia
+087030;F781;Motta Sant'Anastasia;;CT;Sicilia
+087031;F890;Nicolosi;;CT;Sicilia
+087032;G253;Palagonia;;CT;Sicilia
+087033;G371;Paternò;;CT;Sicilia
+087034;G402;Pedara;;CT;Sicilia
+087035;G597;Piedimonte Etneo;;CT;Sicilia
+087036;H154;Raddusa;;CT;Sicilia
+087037;H168;Ramacca;;CT;Sicilia
+087038;H175;Randazzo;;CT;Sicilia
+087039;H325;Riposto;;CT;Sicilia
+087040;H805;San Cono;;CT;Sicilia
+087041;H922;San Giovanni la Punta;;CT;Sicilia
+087042;H940;San Gregorio di Catania;;CT;Sicilia
+087043;I035;San Michele di Ganzaria;;CT;Sicilia
+087044;I098;San Pietro Clarenza;;CT;Sicilia
+087045;I202;Sant'Agata li Battiati;;CT;Sicilia
+087046;I216;Sant'Alfio;;CT;Sicilia
+087047;I240;Santa Maria di Licodia;;CT;Sicilia
+087048;I314;Santa Venerina;;CT;Sicilia
+087049;I548;Scordia;;CT;Sicilia
+087050;L355;Trecastagni;;CT;Sicilia
+087051;L369;Tremestieri Etneo;;CT;Sicilia
+087052;L658;Valverde;;CT;Sicilia
+087053;L828;Viagrande;;CT;Sicilia
+087054;M100;Vizzini;;CT;Sicilia
+087055;M139;Zafferana Etnea;;CT;Sicilia
+087056;M271;Mazzarrone;;CT;Sicilia
+087057;M283;Maniace;;CT;Sicilia
+087058;M287;Ragalna;;CT;Sicilia
+088001;A014;Acate;;RG;Sicilia
+088002;C612;Chiaramonte Gulfi;;RG;Sicilia
+088003;C927;Comiso;;RG;Sicilia
+088004;E016;Giarratana;;RG;Sicilia
+088005;E366;Ispica;;RG;Sicilia
+088006;F258;Modica;;RG;Sicilia
+088007;F610;Monterosso Almo;;RG;Sicilia
+088008;G953;Pozzallo;;RG;Sicilia
+088009;H163;Ragusa;;RG;Sicilia
+088010;I178;Santa Croce Camerina;;RG;Sicilia
+088011;I535;Scicli;;RG;Sicilia
+088012;M088;Vittoria;;RG;Sicilia
+089001;A494;Augusta;;SR;Sicilia
+089002;A522;Avola;;SR;Sicilia
+089003;B237;Buccheri;;SR;Sicilia
+089004;B287;Buscemi;;SR;Sicilia
+089005;B603;Canicattini Bagni;;SR;Sicilia
+089006;B787;Carlentini;;SR;Sicilia
+089007;C006;Cassaro;;SR;Sicilia
+089008;D540;Ferla;;SR;Sicilia
+089009;D636;Floridia;;SR;Sicilia
+089010;D768;Francofonte;;SR;Sicilia
+089011;E532;Lentini;;SR;Sicilia
+089012;F107;Melilli;;SR;Sicilia
+089013;F943;Noto;;SR;Sicilia
+089014;G211;Pachino;;SR;Sicilia
+089015;G267;Palazzolo Acreide;;SR;Sicilia
+089016;H574;Rosolini;;SR;Sicilia
+089017;I754;Siracusa;;SR;Sicilia
+089018;I785;Solarino;;SR;Sicilia
+089019;I864;Sortino;;SR;Sicilia
+089020;M257;Portopalo di Capo Passero;;SR;Sicilia
+089021;M279;Priolo Gargallo;;SR;Sicilia
+090001;A069;Aggius;;SS;Sardegna
+090002;A115;Alà dei Sardi;;SS;Sardegna
+090003;A192;Alghero;;SS;Sardegna
+090004;A287;Anela;;SS;Sardegna
+090005;A379;Ardara;;SS;Sardegna
+090006;A453;Arzachena;;SS;Sardegna
+090007;A606;Banari;;SS;Sardegna
+090008;A781;Benetutti;;SS;Sardegna
+090009;A789;Berchidda;;SS;Sardegna
+090010;A827;Bessude;;SS;Sardegna
+090011;A976;Bonnanaro;;SS;Sardegna
+090012;A977;Bono;;SS;Sardegna
+090013;A978;Bonorva;;SS;Sardegna
+090014;B063;Bortigiadas;;SS;Sardegna
+090015;B064;Borutta;;SS;Sardegna
+090016;B094;Bottidda;;SS;Sardegna
+090017;B246;Buddusò;;SS;Sardegna
+090018;B264;Bultei;;SS;Sardegna
+090019;B265;Bulzi;;SS;Sardegna
+090020;B276;Burgos;;SS;Sardegna
+090021;B378;Calangianus;;SS;Sardegna
+090022;B772;Cargeghe;;SS;Sardegna
+090023;C272;Castelsardo;;SS;Sardegna
+090024;C600;Cheremule;;SS;Sardegna
+090025;C613;Chiaramonti;;SS;Sardegna
+090026;C818;Codrongianos;;SS;Sardegna
+090027;D100;Cossoine;;SS;Sardegna
+090028;D441;Esporlatu;;SS;Sardegna
+090029;D637;Florinas;;SS;Sardegna
+090030;E019;Giave;;SS;Sardegna
+090031;E285;Illorai;;SS;Sardegna
+090032;E376;Ittireddu;;SS;Sardegna
+090033;E377;Ittiri;;SS;Sardegna
+090034;E401;Laerru;;SS;Sardegna
+090035;E425;La Maddalena;;SS;Sardegna
+090036;E747;Luogosanto;;SS;Sardegna
+090037;E752;Luras;;SS;Sardegna
+090038;E902;Mara;;SS;Sardegna
+090039;E992;Martis;;SS;Sardegna
+090040;F542;Monteleone Rocca Doria;;SS;Sardegna
+090041;F667;Monti;;SS;Sardegna
+090042;F721;Mores;;SS;Sardegna
+090043;F818;Muros;;SS;Sardegna
+090044;F975;Nughedu San Nicolò;;SS;Sardegna
+090045;F976;Nule;;SS;Sardegna
+090046;F977;Nulvi;;SS;Sardegna
+090047;G015;Olbia;;SS;Sardegna
+090048;G046;Olmedo;;SS;Sardegna
+090049;G153;Oschiri;;SS;Sardegna
+090050;G156;Osilo;;SS;Sardegna
+090051;G178;Ossi;;SS;Sardegna
+090052;G203;Ozieri;;SS;Sardegna
+090053;G225;Padria;;SS;Sardegna
+090054;G258;Palau;;SS;Sardegna
+090055;G376;Pattada;;SS;Sardegna
+090056;G450;Perfugas;;SS;Sardegna
+090057;G740;Ploaghe;;SS;Sardegna
+090058;G924;Porto Torres;;SS;Sardegna
+090059;G962;Pozzomaggiore;;SS;Sardegna
+090060;H095;Putifigari;;SS;Sardegna
+090061;H507;Romana;;SS;Sardegna
+090062;H848;Aglientu;;SS;Sardegna
+090063;I312;Santa Teresa Gallura;;SS;Sardegna
+090064;I452;Sassari;;SS;Sardegna
+090065;I565;Sedini;;SS;Sardegna
+090066;I598;Semestene;;SS;Sardegna
+090067;I614;Sennori;;SS;Sardegna
+090068;I732;Siligo;;SS;Sardegna
+090069;I863;Sorso;;SS;Sardegna
+090070;L093;Tempio Pausania;;SS;Sardegna
+090071;L158;Thiesi;;SS;Sardegna
+090072;L180;Tissi;;SS;Sardegna
+090073;L235;Torralba;;SS;Sardegna
+090074;L428;Trinità d'Agultu e Vignola;;SS;Sardegna
+090075;L464;Tula;;SS;Sardegna
+090076;L503;Uri;;SS;Sardegna
+090077;L509;Usini;;SS;Sardegna
+090078;L989;Villanova Monteleone;;SS;Sardegna
+090079;L604;Valledoria;;SS;Sardegna
+090080;L088;Telti;;SS;Sardegna
+090081;M214;Badesi;;SS;Sardegna
+090082;M259;Viddalba;;SS;Sardegna
+090083;M274;Golfo Aranci;;SS;Sardegna
+090084;M275;Loiri Porto San Paolo;;SS;Sardegna
+090085;M276;Sant'Antonio di Gallura;;SS;Sardegna
+090086;M282;Tergu;;SS;Sardegna
+090087;M284;Santa Maria Coghinas;;SS;Sardegna
+090088;M292;Erula;;SS;Sardegna
+090089;M290;Stintino;;SS;Sardegna
+090090;M301;Padru;;SS;Sardegna
+090091;B248;Budoni;;SS;Sardegna
+090092;I329;San Teodoro;;SS;Sardegna
+091001;A407;Aritzo;;NU;Sardegna
+091002;A454;Arzana;;NU;Sardegna
+091003;A492;Atzara;;NU;Sardegna
+091004;A503;Austis;;NU;Sardegna
+091005;A663;Bari Sardo;;NU;Sardegna
+091006;A722;Baunei;;NU;Sardegna
+091007;A776;Belvì;;NU;Sardegna
+091008;A880;Birori;;NU;Sardegna
+091009;A895;Bitti;;NU;Sardegna
+091010;A948;Bolotana;;NU;Sardegna
+091011;B056;Borore;;NU;Sardegna
+091012;B062;Bortigali;;NU;Sardegna
+091016;D287;Desulo;;NU;Sardegna
+091017;D345;Dorgali;;NU;Sardegna
+091018;D376;Dualchi;;NU;Sardegna
+091019;D395;Elini;;NU;Sardegna
+091024;D665;Fonni;;NU;Sardegna
+091025;D842;Gadoni;;NU;Sardegna
+091026;D859;Gairo;;NU;Sardegna
+091027;D888;Galtellì;;NU;Sardegna
+091028;D947;Gavoi;;NU;Sardegna
+091031;E049;Girasole;;NU;Sardegna
+091032;E283;Ilbono;;NU;Sardegna
+091033;E323;Irgoli;;NU;Sardegna
+091035;E387;Jerzu;;NU;Sardegna
+091037;E441;Lanusei;;NU;Sardegna
+091038;E517;Lei;;NU;Sardegna
+091039;E644;Loceri;;NU;Sardegna
+091040;E646;Loculi;;NU;Sardegna
+091041;E647;Lodè;;NU;Sardegna
+091042;E700;Lotzorai;;NU;Sardegna
+091043;E736;Lula;;NU;Sardegna
+091044;E788;Macomer;;NU;Sardegna
+091046;E874;Mamoiada;;NU;Sardegna
+091047;F073;Meana Sardo;;NU;Sardegna
+091050;F933;Noragugume;;NU;Sardegna
+091051;F979;Nuoro;;NU;Sardegna
+091055;G031;Oliena;;NU;Sardegna
+091056;G044;Ollolai;;NU;Sardegna
+091057;G058;Olzai;;NU;Sardegna
+091058;G064;Onanì;;NU;Sardegna
+091059;G070;Onifai;;NU;Sardegna
+091060;G071;Oniferi;;NU;Sardegna
+091061;G084;Orani;;NU;Sardegna
+091062;G097;Orgosolo;;NU;Sardegna
+091063;G119;Orosei;;NU;Sardegna
+091064;G120;Orotelli;;NU;Sardegna
+091066;G146;Ortueri;;NU;Sardegna
+091067;G147;Orune;;NU;Sardegna
+091068;G154;Osidda;;NU;Sardegna
+091069;G158;Osini;;NU;Sardegna
+091070;G191;Ottana;;NU;Sardegna
+091071;G201;Ovodda;;NU;Sardegna
+091072;G445;Perdasdefogu;;NU;Sardegna
+091073;G929;Posada;;NU;Sardegna
+091077;I448;Sarule;;NU;Sardegna
+091083;I730;Silanus;;NU;Sardegna
+091084;I748;Sindia;;NU;Sardegna
+091085;I751;Siniscola;;NU;Sardegna
+091086;I851;Sorgono;;NU;Sardegna
+091088;L036;Talana;;NU;Sardegna
+091089;L140;Tertenia;;NU;Sardegna
+091090;L153;Teti;;NU;Sardegna
+091091;L160;Tiana;;NU;Sardegna
+091093;L202;Tonara;;NU;Sardegna
+091094;L231;Torpè;;NU;Sardegna
+091095;A355;Tortolì;;NU;Sardegna
+091097;L423;Triei;;NU;Sardegna
+091098;L489;Ulassai;;NU;Sardegna
+091099;L506;Urzulei;;NU;Sardegna
+091100;L514;Ussassai;;NU;Sardegna
+091101;L953;Villagrande Strisaili;;NU;Sardegna
+091103;M285;Cardedu;;NU;Sardegna
+091104;E649;Lodine;;NU;Sardegna
+092003;A474;Assemini;;CA;Sardegna
+092009;B354;Cagliari;;CA;Sardegna
+092011;B675;Capoterra;;CA;Sardegna
+092015;D259;Decimomannu;;CA;Sardegna
+092037;E903;Maracalagonis;;CA;Sardegna
+092050;H088;Pula;;CA;Sardegna
+092051;H118;Quartu Sant'Elena;;CA;Sardegna
+092066;I443;Sarroch;;CA;Sardegna
+092068;I580;Selargius;;CA;Sardegna
+092074;I695;Sestu;;CA;Sardegna
+092075;I699;Settimo San Pietro;;CA;Sardegna
+092080;I752;Sinnai;;CA;Sardegna
+092090;L521;Uta;;CA;Sardegna
+092099;I118;Villa San Pietro;;CA;Sardegna
+092105;H119;Quartucciu;;CA;Sardegna
+092108;D399;Elmas;;CA;Sardegna
+092109;F383;Monserrato;;CA;Sardegna
+093001;A283;Andreis;;PN;Friuli-Venezia Giulia
+093002;A354;Arba;;PN;Friuli-Venezia Giulia
+093004;A516;Aviano;;PN;Friuli-Venezia Giulia
+093005;A530;Azzano Decimo;;PN;Friuli-Venezia Giulia
+093006;A640;Barcis;;PN;Friuli-Venezia Giulia
+093007;B215;Brugnera;;PN;Friuli-Venezia Giulia
+093008;B247;Budoia;;PN;Friuli-Venezia Giulia
+093009;B598;Caneva;;PN;Friuli-Venezia Giulia
+093010;B940;Casarsa della Delizia;;PN;Friuli-Venezia Giulia
+093011;C217;Castelnovo del Friuli;;PN;Friuli-Venezia Giulia
+093012;C385;Cavasso Nuovo;;PN;Friuli-Venezia Giulia
+093013;C640;Chions;;PN;Friuli-Venezia Giulia
+093014;C699;Cimolais;;PN;Friuli-Venezia Giulia
+093015;C790;Claut;;PN;Friuli-Venezia Giulia
+093016;C791;Clauzetto;;PN;Friuli-Venezia Giulia
+093017;C991;Cordenons;;PN;Friuli-Venezia Giulia
+093018;C993;Cordovado;;PN;Friuli-Venezia Giulia
+093019;D426;Erto e Casso;;PN;Friuli-Venezia Giulia
+093020;D487;Fanna;;PN;Friuli-Venezia Giulia
+093021;D621;Fiume Veneto;;PN;Friuli-Venezia Giulia
+093022;D670;Fontanafredda;;PN;Friuli-Venezia Giulia
+093024;D804;Frisanco;;PN;Friuli-Venezia Giulia
+093025;E889;Maniago;;PN;Friuli-Venezia Giulia
+093026;F089;Meduno;;PN;Friuli-Venezia Giulia
+093027;F596;Montereale Valcellina;;PN;Friuli-Venezia Giulia
+093028;F750;Morsano al Tagliamento;;PN;Friuli-Venezia Giulia
+093029;G353;Pasiano di Pordenone;;PN;Friuli-Venezia Giulia
+093030;G680;Pinzano al Tagliamento;;PN;Friuli-Venezia Giulia
+093031;G780;Polcenigo;;PN;Friuli-Venezia Giulia
+093032;G886;Porcia;;PN;Friuli-Venezia Giulia
+093033;G888;Pordenone;;PN;Friuli-Venezia Giulia
+093034;G994;Prata di Pordenone;;PN;Friuli-Venezia Giulia
+093035;H010;Pravisdomini;;PN;Friuli-Venezia Giulia
+093036;H609;Roveredo in Piano;;PN;Friuli-Venezia Giulia
+093037;H657;Sacile;;PN;Friuli-Venezia Giulia
+093038;H891;San Giorgio della Richinvelda;;PN;Friuli-Venezia Giulia
+093039;H999;San Martino al Tagliamento;;PN;Friuli-Venezia Giulia
+093040;I136;San Quirino;;PN;Friuli-Venezia Giulia
+093041;I403;San Vito al Tagliamento;;PN;Friuli-Venezia Giulia
+093042;I621;Sequals;;PN;Friuli-Venezia Giulia
+093043;I686;Sesto al Reghena;;PN;Friuli-Venezia Giulia
+093044;I904;Spilimbergo;;PN;Friuli-Venezia Giulia
+093045;L324;Tramonti di Sopra;;PN;Friuli-Venezia Giulia
+093046;L325;Tramonti di Sotto;;PN;Friuli-Venezia Giulia
+093047;L347;Travesio;;PN;Friuli-Venezia Giulia
+093049;M085;Vito d'Asio;;PN;Friuli-Venezia Giulia
+093050;M096;Vivaro;;PN;Friuli-Venezia Giulia
+093051;M190;Zoppola;;PN;Friuli-Venezia Giulia
+093052;M265;Vajont;;PN;Friuli-Venezia Giulia
+093053;M346;Valvasone Arzene;;PN;Friuli-Venezia Giulia
+094001;A051;Acquaviva d'Isernia;;IS;Molise
+094002;A080;Agnone;;IS;Molise
+094003;A567;Bagnoli del Trigno;;IS;Molise
+094004;A761;Belmonte del Sannio;;IS;Molise
+094005;B630;Cantalupo nel Sannio;;IS;Molise
+094006;B682;Capracotta;;IS;Molise
+094007;B810;Carovilli;;IS;Molise
+094008;B830;Carpinone;;IS;Molise
+094009;C082;Castel del Giudice;;IS;Molise
+094010;C246;Castelpetroso;;IS;Molise
+094011;C247;Castelpizzuto;;IS;Molise
+094012;C270;Castel San Vincenzo;;IS;Molise
+094013;C200;Castelverrino;;IS;Molise
+094014;C534;Cerro al Volturno;;IS;Molise
+094015;C620;Chiauci;;IS;Molise
+094016;C769;Civitanova del Sannio;;IS;Molise
+094017;C878;Colli a Volturno;;IS;Molise
+094018;C941;Conca Casale;;IS;Molise
+094019;D595;Filignano;;IS;Molise
+094020;D703;Forlì del Sannio;;IS;Molise
+094021;D715;Fornelli;;IS;Molise
+094022;D811;Frosolone;;IS;Molise
+094023;E335;Isernia;;IS;Molise
+094024;E669;Longano;;IS;Molise
+094025;E778;Macchia d'Isernia;;IS;Molise
+094026;E779;Macchiagodena;;IS;Molise
+094027;F239;Miranda;;IS;Molise
+094028;F429;Montaquila;;IS;Molise
+094029;F580;Montenero Val Cocchiara;;IS;Molise
+094030;F601;Monteroduni;;IS;Molise
+094031;G486;Pesche;;IS;Molise
+094032;G495;Pescolanciano;;IS;Molise
+094033;G497;Pescopennataro;;IS;Molise
+094034;G523;Pettoranello del Molise;;IS;Molise
+094035;G606;Pietrabbondante;;IS;Molise
+094036;G727;Pizzone;;IS;Molise
+094037;B317;Poggio Sannita;;IS;Molise
+094038;G954;Pozzilli;;IS;Molise
+094039;H308;Rionero Sannitico;;IS;Molise
+094040;H420;Roccamandolfi;;IS;Molise
+094041;H445;Roccasicura;;IS;Molise
+094042;H458;Rocchetta a Volturno;;IS;Molise
+094043;I096;San Pietro Avellana;;IS;Molise
+094044;I189;Sant'Agapito;;IS;Molise
+094045;I238;Santa Maria del Molise;;IS;Molise
+094046;I282;Sant'Angelo del Pesco;;IS;Molise
+094047;B466;Sant'Elena Sannita;;IS;Molise
+094048;I507;Scapoli;;IS;Molise
+094049;I679;Sessano del Molise;;IS;Molise
+094050;I682;Sesto Campano;;IS;Molise
+094051;L696;Vastogirardi;;IS;Molise
+094052;L725;Venafro;;IS;Molise
+095001;A007;Abbasanta;;OR;Sardegna
+095002;A097;Aidomaggiore;;OR;Sardegna
+095003;A126;Albagiara;;OR;Sardegna
+095004;A180;Ales;;OR;Sardegna
+095005;A204;Allai;;OR;Sardegna
+095006;A357;Arborea;;OR;Sardegna
+095007;A380;Ardauli;;OR;Sardegna
+095008;A477;Assolo;;OR;Sardegna
+095009;A480;Asuni;;OR;Sardegna
+095010;A614;Baradili;;OR;Sardegna
+095011;A621;Baratili San Pietro;;OR;Sardegna
+095012;A655;Baressa;;OR;Sardegna
+095013;A721;Bauladu;;OR;Sardegna
+095014;A856;Bidonì;;OR;Sardegna
+095015;A960;Bonarcado;;OR;Sardegna
+095016;B055;Boroneddu;;OR;Sardegna
+095017;B281;Busachi;;OR;Sardegna
+095018;B314;Cabras;;OR;Sardegna
+095019;D200;Cuglieri;;OR;Sardegna
+095020;D695;Fordongianus;;OR;Sardegna
+095021;E004;Ghilarza;;OR;Sardegna
+095022;E087;Gonnoscodina;;OR;Sardegna
+095023;D585;Gonnosnò;;OR;Sardegna
+095024;E088;Gonnostramatza;;OR;Sardegna
+095025;E972;Marrubiu;;OR;Sardegna
+095026;F050;Masullas;;OR;Sardegna
+095027;F208;Milis;;OR;Sardegna
+095028;F270;Mogorella;;OR;Sardegna
+095029;F272;Mogoro;;OR;Sardegna
+095030;F727;Morgongiori;;OR;Sardegna
+095031;F840;Narbolia;;OR;Sardegna
+095032;F867;Neoneli;;OR;Sardegna
+095033;F934;Norbello;;OR;Sardegna
+095034;F974;Nughedu Santa Vittoria;;OR;Sardegna
+095035;F980;Nurachi;;OR;Sardegna
+095036;F985;Nureci;;OR;Sardegna
+095037;G043;Ollastra;;OR;Sardegna
+095038;G113;Oristano;;OR;Sardegna
+095039;G286;Palmas Arborea;;OR;Sardegna
+095040;G379;Pau;;OR;Sardegna
+095041;G384;Paulilatino;;OR;Sardegna
+095042;G817;Pompu;;OR;Sardegna
+095043;H301;Riola Sardo;;OR;Sardegna
+095044;F271;Ruinas;;OR;Sardegna
+095045;H756;Samugheo;;OR;Sardegna
+095046;A368;San Nicolò d'Arcidano;;OR;Sardegna
+095047;I205;Santa Giusta;;OR;Sardegna
+095048;I298;Villa Sant'Antonio;;OR;Sardegna
+095049;I374;Santu Lussurgiu;;OR;Sardegna
+095050;I384;San Vero Milis;;OR;Sardegna
+095051;I503;Scano di Montiferro;;OR;Sardegna
+095052;I564;Sedilo;;OR;Sardegna
+095053;I605;Seneghe;;OR;Sardegna
+095054;I609;Senis;;OR;Sardegna
+095055;I613;Sennariolo;;OR;Sardegna
+095056;I717;Siamaggiore;;OR;Sardegna
+095057;I718;Siamanna;;OR;Sardegna
+095058;I742;Simala;;OR;Sardegna
+095059;I743;Simaxis;;OR;Sardegna
+095060;I749;Sini;;OR;Sardegna
+095061;I757;Siris;;OR;Sardegna
+095062;I791;Solarussa;;OR;Sardegna
+095063;I861;Sorradile;;OR;Sardegna
+095064;L023;Tadasuni;;OR;Sardegna
+095065;L122;Terralba;;OR;Sardegna
+095066;L321;Tramatza;;OR;Sardegna
+095067;L393;Tresnuraghes;;OR;Sardegna
+095068;L488;Ulà Tirso;;OR;Sardegna
+095069;L496;Uras;;OR;Sardegna
+095070;L508;Usellus;;OR;Sardegna
+095071;L991;Villanova Truschedu;;OR;Sardegna
+095072;M030;Villaurbana;;OR;Sardegna
+095073;A609;Villa Verde;;OR;Sardegna
+095074;M153;Zeddiani;;OR;Sardegna
+095075;M168;Zerfaliu;;OR;Sardegna
+095076;I721;Siapiccia;;OR;Sardegna
+095077;D214;Curcuris;;OR;Sardegna
+095078;I778;Soddì;;OR;Sardegna
+095079;B068;Bosa;;OR;Sardegna
+095080;D640;Flussio;;OR;Sardegna
+095082;E400;Laconi;;OR;Sardegna
+095083;E825;Magomadas;;OR;Sardegna
+095084;F261;Modolo;;OR;Sardegna
+095085;F698;Montresta;;OR;Sardegna
+095086;H661;Sagama;;OR;Sardegna
+095087;L006;Suni;;OR;Sardegna
+095088;L172;Tinnura;;OR;Sardegna
+096001;A107;Ailoche;;BI;Piemonte
+096002;A280;Andorno Micca;;BI;Piemonte
+096003;A784;Benna;;BI;Piemonte
+096004;A859;Biella;;BI;Piemonte
+096005;A876;Bioglio;;BI;Piemonte
+096006;B058;Borriana;;BI;Piemonte
+096007;B229;Brusnengo;;BI;Piemonte
+096008;B417;Callabiana;;BI;Piemonte
+096009;B457;Camandona;;BI;Piemonte
+096010;B465;Camburzano;;BI;Piemonte
+096012;B586;Candelo;;BI;Piemonte
+096013;B708;Caprile;;BI;Piemonte
+096014;B933;Casapinta;;BI;Piemonte
+096015;C155;Castelletto Cervo;;BI;Piemonte
+096016;C363;Cavaglià;;BI;Piemonte
+096018;C532;Cerrione;;BI;Piemonte
+096019;C819;Coggiola;;BI;Piemonte
+096020;D094;Cossato;;BI;Piemonte
+096021;D165;Crevacuore;;BI;Piemonte
+096023;D219;Curino;;BI;Piemonte
+096024;D339;Donato;;BI;Piemonte
+096025;D350;Dorzano;;BI;Piemonte
+096026;D848;Gaglianico;;BI;Piemonte
+096027;E024;Gifflenga;;BI;Piemonte
+096028;E130;Graglia;;BI;Piemonte
+096030;E821;Magnano;;BI;Piemonte
+096031;F037;Massazza;;BI;Piemonte
+096032;F042;Masserano;;BI;Piemonte
+096033;F167;Mezzana Mortigliengo;;BI;Piemonte
+096034;F189;Miagliano;;BI;Piemonte
+096035;F369;Mongrando;;BI;Piemonte
+096037;F776;Mottalciata;;BI;Piemonte
+096038;F833;Muzzano;;BI;Piemonte
+096039;F878;Netro;;BI;Piemonte
+096040;F992;Occhieppo Inferiore;;BI;Piemonte
+096041;F993;Occhieppo Superiore;;BI;Piemonte
+096042;G521;Pettinengo;;BI;Piemonte
+096043;G577;Piatto;;BI;Piemonte
+096044;G594;Piedicavallo;;BI;Piemonte
+096046;G798;Pollone;;BI;Piemonte
+096047;G820;Ponderano;;BI;Piemonte
+096048;G927;Portula;;BI;Piemonte
+096049;G980;Pralungo;;BI;Piemonte
+096050;G974;Pray;;BI;Piemonte
+096053;H538;Ronco Biellese;;BI;Piemonte
+096054;H553;Roppolo;;BI;Piemonte
+096055;H561;Rosazza;;BI;Piemonte
+096056;H662;Sagliano Micca;;BI;Piemonte
+096057;H681;Sala Biellese;;BI;Piemonte
+096058;H726;Salussola;;BI;Piemonte
+096059;H821;Sandigliano;;BI;Piemonte
+096063;I847;Sordevolo;;BI;Piemonte
+096064;I868;Sostegno;;BI;Piemonte
+096065;I980;Strona;;BI;Piemonte
+096066;L075;Tavigliano;;BI;Piemonte
+096067;L116;Ternengo;;BI;Piemonte
+096068;L193;Tollegno;;BI;Piemonte
+096069;L239;Torrazzo;;BI;Piemonte
+096071;L556;Valdengo;;BI;Piemonte
+096072;L586;Vallanzengo;;BI;Piemonte
+096074;L620;Valle San Nicolao;;BI;Piemonte
+096075;L712;Veglio;;BI;Piemonte
+096076;L785;Verrone;;BI;Piemonte
+096077;L880;Vigliano Biellese;;BI;Piemonte
+096078;L933;Villa del Bosco;;BI;Piemonte
+096079;L978;Villanova Biellese;;BI;Piemonte
+096080;M098;Viverone;;BI;Piemonte
+096081;M179;Zimone;;BI;Piemonte
+096082;M196;Zubiena;;BI;Piemonte
+096083;M201;Zumaglia;;BI;Piemonte
+096085;M371;Lessona;;BI;Piemonte
+096086;M373;Campiglia Cervo;;BI;Piemonte
+096087;M414;Quaregna Cerreto;;BI;Piemonte
+096088;M417;Valdilana;;BI;Piemonte
+097001;A005;Abbadia Lariana;;LC;Lombardia
+097002;A112;Airuno;;LC;Lombardia
+097003;A301;Annone di Brianza;;LC;Lombardia
+097004;A594;Ballabio;;LC;Lombardia
+097005;A683;Barzago;;LC;Lombardia
+097006;A686;Barzanò;;LC;Lombardia
+097007;A687;Barzio;;LC;Lombardia
+097008;A745;Bellano;;LC;Lombardia
+097009;B081;Bosisio Parini;;LC;Lombardia
+097010;B194;Brivio;;LC;Lombardia
+097011;B261;Bulciago;;LC;Lombardia
+097012;B396;Calco;;LC;Lombardia
+097013;B423;Calolziocorte;;LC;Lombardia
+097014;B763;Carenno;;LC;Lombardia
+097015;B937;Casargo;;LC;Lombardia
+097016;B943;Casatenovo;;LC;Lombardia
+097017;B996;Cassago Brianza;;LC;Lombardia
+097018;C024;Cassina Valsassina;;LC;Lombardia
+097019;C187;Castello di Brianza;;LC;Lombardia
+097020;C521;Cernusco Lombardone;;LC;Lombardia
+097021;C563;Cesana Brianza;;LC;Lombardia
+097022;C752;Civate;;LC;Lombardia
+097023;C839;Colico;;LC;Lombardia
+097024;C851;Colle Brianza;;LC;Lombardia
+097025;D065;Cortenova;;LC;Lombardia
+097026;D112;Costa Masnaga;;LC;Lombardia
+097027;D131;Crandola Valsassina;;LC;Lombardia
+097028;D143;Cremella;;LC;Lombardia
+097029;D145;Cremeno;;LC;Lombardia
+097030;D280;Dervio;;LC;Lombardia
+097031;D327;Dolzago;;LC;Lombardia
+097032;D346;Dorio;;LC;Lombardia
+097033;D398;Ello;;LC;Lombardia
+097034;D428;Erve;;LC;Lombardia
+097035;D436;Esino Lario;;LC;Lombardia
+097036;D865;Galbiate;;LC;Lombardia
+097037;D913;Garbagnate Monastero;;LC;Lombardia
+097038;D926;Garlate;;LC;Lombardia
+097039;E287;Imbersago;;LC;Lombardia
+097040;E305;Introbio;;LC;Lombardia
+097042;E507;Lecco;;LC;Lombardia
+097043;E581;Lierna;;LC;Lombardia
+097044;E656;Lomagna;;LC;Lombardia
+097045;E858;Malgrate;;LC;Lombardia
+097046;E879;Mandello del Lario;;LC;Lombardia
+097047;E947;Margno;;LC;Lombardia
+097048;F133;Merate;;LC;Lombardia
+097049;F248;Missaglia;;LC;Lombardia
+097050;F265;Moggio;;LC;Lombardia
+097051;F304;Molteno;;LC;Lombardia
+097052;F561;Monte Marenzo;;LC;Lombardia
+097053;F657;Montevecchia;;LC;Lombardia
+097054;F674;Monticello Brianza;;LC;Lombardia
+097055;F758;Morterone;;LC;Lombardia
+097056;F887;Nibionno;;LC;Lombardia
+097057;G009;Oggiono;;LC;Lombardia
+097058;G026;Olgiate Molgora;;LC;Lombardia
+097059;G030;Olginate;;LC;Lombardia
+097060;G040;Oliveto Lario;;LC;Lombardia
+097061;G161;Osnago;;LC;Lombardia
+097062;G218;Paderno d'Adda;;LC;Lombardia
+097063;G241;Pagnona;;LC;Lombardia
+097064;G336;Parlasco;;LC;Lombardia
+097065;G368;Pasturo;;LC;Lombardia
+097067;G456;Perledo;;LC;Lombardia
+097068;G485;Pescate;;LC;Lombardia
+097069;H028;Premana;;LC;Lombardia
+097070;H063;Primaluna;;LC;Lombardia
+097071;G223;Robbiate;;LC;Lombardia
+097072;H486;Rogeno;;LC;Lombardia
+097074;I243;Santa Maria Hoè;;LC;Lombardia
+097075;I759;Sirone;;LC;Lombardia
+097076;I761;Sirtori;;LC;Lombardia
+097077;I994;Sueglio;;LC;Lombardia
+097078;I996;Suello;;LC;Lombardia
+097079;L022;Taceno;;LC;Lombardia
+097082;L581;Valgreghentino;;LC;Lombardia
+097083;L634;Valmadrera;;LC;Lombardia
+097084;L680;Varenna;;LC;Lombardia
+097086;L751;Vercurago;;LC;Lombardia
+097090;L866;Viganò;;LC;Lombardia
+097091;M337;Verderio;;LC;Lombardia
+097092;M348;La Valletta Brianza;;LC;Lombardia
+097093;M395;Valvarrone;;LC;Lombardia
+098001;A004;Abbadia Cerreto;;LO;Lombardia
+098002;A811;Bertonico;;LO;Lombardia
+098003;A919;Boffalora d'Adda;;LO;Lombardia
+098004;A995;Borghetto Lodigiano;;LO;Lombardia
+098005;B017;Borgo San Giovanni;;LO;Lombardia
+098006;B141;Brembio;;LO;Lombardia
+098008;B887;Casaletto Lodigiano;;LO;Lombardia
+098009;B899;Casalmaiocco;;LO;Lombardia
+098010;B910;Casalpusterlengo;;LO;Lombardia
+098011;B961;Caselle Landi;;LO;Lombardia
+098012;B958;Caselle Lurani;;LO;Lombardia
+098013;C228;Castelnuovo Bocca d'Adda;;LO;Lombardia
+098014;C304;Castiglione d'Adda;;LO;Lombardia
+098015;C329;Castiraga Vidardo;;LO;Lombardia
+098017;C394;Cavenago d'Adda;;LO;Lombardia
+098018;C555;Cervignano d'Adda;;LO;Lombardia
+098019;C816;Codogno;;LO;Lombardia
+098020;C917;Comazzo;;LO;Lombardia
+098021;D021;Cornegliano Laudense;;LO;Lombardia
+098022;D028;Corno Giovine;;LO;Lombardia
+098023;D029;Cornovecchio;;LO;Lombardia
+098024;D068;Corte Palasio;;LO;Lombardia
+098025;D159;Crespiatica;;LO;Lombardia
+098026;D660;Fombio;;LO;Lombardia
+098027;D868;Galgagnano;;LO;Lombardia
+098028;E127;Graffignana;;LO;Lombardia
+098029;E238;Guardamiglio;;LO;Lombardia
+098030;E627;Livraga;;LO;Lombardia
+098031;E648;Lodi;;LO;Lombardia
+098032;E651;Lodi Vecchio;;LO;Lombardia
+098033;E777;Maccastorna;;LO;Lombardia
+098034;E840;Mairago;;LO;Lombardia
+098035;E852;Maleo;;LO;Lombardia
+098036;E994;Marudo;;LO;Lombardia
+098037;F028;Massalengo;;LO;Lombardia
+098038;F102;Meleti;;LO;Lombardia
+098039;F149;Merlino;;LO;Lombardia
+098040;F423;Montanaso Lombardo;;LO;Lombardia
+098041;F801;Mulazzano;;LO;Lombardia
+098042;G107;Orio Litta;;LO;Lombardia
+098043;G166;Ospedaletto Lodigiano;;LO;Lombardia
+098044;G171;Ossago Lodigiano;;LO;Lombardia
+098045;G096;Pieve Fissiraga;;LO;Lombardia
+098046;H701;Salerano sul Lambro;;LO;Lombardia
+098047;H844;San Fiorano;;LO;Lombardia
+098048;I012;San Martino in Strada;;LO;Lombardia
+098049;I140;San Rocco al Porto;;LO;Lombardia
+098050;I274;Sant'Angelo Lodigiano;;LO;Lombardia
+098051;I362;Santo Stefano Lodigiano;;LO;Lombardia
+098052;I561;Secugnago;;LO;Lombardia
+098053;I612;Senna Lodigiana;;LO;Lombardia
+098054;I815;Somaglia;;LO;Lombardia
+098055;I848;Sordio;;LO;Lombardia
+098056;F260;Tavazzano con Villavesco;;LO;Lombardia
+098057;L125;Terranova dei Passerini;;LO;Lombardia
+098058;L469;Turano Lodigiano;;LO;Lombardia
+098059;L572;Valera Fratta;;LO;Lombardia
+098060;L977;Villanova del Sillaro;;LO;Lombardia
+098061;M158;Zelo Buon Persico;;LO;Lombardia
+098062;M393;Castelgerundo;;LO;Lombardia
+099001;A747;Bellaria-Igea Marina;;RN;Emilia-Romagna
+099002;C357;Cattolica;;RN;Emilia-Romagna
+099003;D004;Coriano;;RN;Emilia-Romagna
+099004;D961;Gemmano;;RN;Emilia-Romagna
+099005;F244;Misano Adriatico;;RN;Emilia-Romagna
+099006;F346;Mondaino;;RN;Emilia-Romagna
+099008;F502;Montefiore Conca;;RN;Emilia-Romagna
+099009;F523;Montegridolfo;;RN;Emilia-Romagna
+099011;F715;Morciano di Romagna;;RN;Emilia-Romagna
+099013;H274;Riccione;;RN;Emilia-Romagna
+099014;H294;Rimini;;RN;Emilia-Romagna
+099015;H724;Saludecio;;RN;Emilia-Romagna
+099016;H801;San Clemente;;RN;Emilia-Romagna
+099017;H921;San Giovanni in Marignano;;RN;Emilia-Romagna
+099018;I304;Santarcangelo di Romagna;;RN;Emilia-Romagna
+099020;L797;Verucchio;;RN;Emilia-Romagna
+099021;C080;Casteldelci;;RN;Emilia-Romagna
+099022;E838;Maiolo;;RN;Emilia-Romagna
+099023;F137;Novafeltria;;RN;Emilia-Romagna
+099024;G433;Pennabilli;;RN;Emilia-Romagna
+099025;H949;San Leo;;RN;Emilia-Romagna
+099026;I201;Sant'Agata Feltria;;RN;Emilia-Romagna
+099027;L034;Talamello;;RN;Emilia-Romagna
+099028;M324;Poggio Torriana;;RN;Emilia-Romagna
+099029;M368;Montescudo-Monte Colombo;;RN;Emilia-Romagna
+100001;B626;Cantagallo;;PO;Toscana
+100002;B794;Carmignano;;PO;Toscana
+100003;F572;Montemurlo;;PO;Toscana
+100004;G754;Poggio a Caiano;;PO;Toscana
+100005;G999;Prato;;PO;Toscana
+100006;L537;Vaiano;;PO;Toscana
+100007;L775;Vernio;;PO;Toscana
+101001;A772;Belvedere di Spinello;;KR;Calabria
+101002;B319;Caccuri;;KR;Calabria
+101003;B771;Carfizzi;;KR;Calabria
+101004;B857;Casabona;;KR;Calabria
+101005;B968;Castelsilano;;KR;Calabria
+101006;C501;Cerenzia;;KR;Calabria
+101007;C725;Cirò;;KR;Calabria
+101008;C726;Cirò Marina;;KR;Calabria
+101009;D123;Cotronei;;KR;Calabria
+101010;D122;Crotone;;KR;Calabria
+101011;D189;Crucoli;;KR;Calabria
+101012;D236;Cutro;;KR;Calabria
+101013;E339;Isola di Capo Rizzuto;;KR;Calabria
+101014;F108;Melissa;;KR;Calabria
+101015;F157;Mesoraca;;KR;Calabria
+101016;G278;Pallagorio;;KR;Calabria
+101017;G508;Petilia Policastro;;KR;Calabria
+101018;H383;Roccabernarda;;KR;Calabria
+101019;H403;Rocca di Neto;;KR;Calabria
+101020;I026;San Mauro Marchesato;;KR;Calabria
+101021;I057;San Nicola dell'Alto;;KR;Calabria
+101022;I308;Santa Severina;;KR;Calabria
+101023;I468;Savelli;;KR;Calabria
+101024;I494;Scandale;;KR;Calabria
+101025;I982;Strongoli;;KR;Calabria
+101026;L492;Umbriatico;;KR;Calabria
+101027;L802;Verzino;;KR;Calabria
+102001;A043;Acquaro;;VV;Calabria
+102002;A386;Arena;;VV;Calabria
+102003;B169;Briatico;;VV;Calabria
+102004;B197;Brognaturo;;VV;Calabria
+102005;B655;Capistrano;;VV;Calabria
+102006;C581;Cessaniti;;VV;Calabria
+102007;D253;Dasà;;VV;Calabria
+102008;D303;Dinami;;VV;Calabria
+102009;D364;Drapia;;VV;Calabria
+102010;D453;Fabrizia;;VV;Calabria
+102011;D587;Filadelfia;;VV;Calabria
+102012;D589;Filandari;;VV;Calabria
+102013;D596;Filogaso;;VV;Calabria
+102014;D762;Francavilla Angitola;;VV;Calabria
+102015;D767;Francica;;VV;Calabria
+102016;D988;Gerocarne;;VV;Calabria
+102017;E321;Ionadi;;VV;Calabria
+102018;E389;Joppolo;;VV;Calabria
+102019;E590;Limbadi;;VV;Calabria
+102020;E836;Maierato;;VV;Calabria
+102021;F207;Mileto;;VV;Calabria
+102022;F364;Mongiana;;VV;Calabria
+102023;F607;Monterosso Calabro;;VV;Calabria
+102024;F843;Nardodipace;;VV;Calabria
+102025;F893;Nicotera;;VV;Calabria
+102026;G335;Parghelia;;VV;Calabria
+102027;G722;Pizzo;;VV;Calabria
+102028;G728;Pizzoni;;VV;Calabria
+102029;G785;Polia;;VV;Calabria
+102030;H271;Ricadi;;VV;Calabria
+102031;H516;Rombiolo;;VV;Calabria
+102032;H785;San Calogero;;VV;Calabria
+102033;H807;San Costantino Calabro;;VV;Calabria
+102034;H941;San Gregorio d'Ippona;;VV;Calabria
+102035;I058;San Nicola da Crissa;;VV;Calabria
+102036;I350;Sant'Onofrio;;VV;Calabria
+102037;I639;Serra San Bruno;;VV;Calabria
+102038;I744;Simbario;;VV;Calabria
+102039;I853;Sorianello;;VV;Calabria
+102040;I854;Soriano Calabro;;VV;Calabria
+102041;I884;Spadola;;VV;Calabria
+102042;I905;Spilinga;;VV;Calabria
+102043;I945;Stefanaconi;;VV;Calabria
+102044;L452;Tropea;;VV;Calabria
+102045;L607;Vallelonga;;VV;Calabria
+102046;L699;Vazzano;;VV;Calabria
+102047;F537;Vibo Valentia;;VV;Calabria
+102048;M138;Zaccanopoli;;VV;Calabria
+102049;M143;Zambrone;;VV;Calabria
+102050;M204;Zungri;;VV;Calabria
+103001;A317;Antrona Schieranco;;VB;Piemonte
+103002;A325;Anzola d'Ossola;;VB;Piemonte
+103003;A409;Arizzano;;VB;Piemonte
+103004;A427;Arola;;VB;Piemonte
+103005;A497;Aurano;;VB;Piemonte
+103006;A534;Baceno;;VB;Piemonte
+103007;A610;Bannio Anzino;;VB;Piemonte
+103008;A725;Baveno;;VB;Piemonte
+103009;A733;Bee;;VB;Piemonte
+103010;A742;Belgirate;;VB;Piemonte
+103011;A834;Beura-Cardezza;;VB;Piemonte
+103012;A925;Bognanco;;VB;Piemonte
+103013;B207;Brovello-Carpugnino;;VB;Piemonte
+103014;B380;Calasca-Castiglione;;VB;Piemonte
+103015;B463;Cambiasca;;VB;Piemonte
+103016;B610;Cannero Riviera;;VB;Piemonte
+103017;B615;Cannobio;;VB;Piemonte
+103018;B694;Caprezzo;;VB;Piemonte
+103019;B876;Casale Corte Cerro;;VB;Piemonte
+103021;C478;Ceppo Morelli;;VB;Piemonte
+103022;C567;Cesara;;VB;Piemonte
+103023;D099;Cossogno;;VB;Piemonte
+103024;D134;Craveggia;;VB;Piemonte
+103025;D168;Crevoladossola;;VB;Piemonte
+103026;D177;Crodo;;VB;Piemonte
+103028;D332;Domodossola;;VB;Piemonte
+103029;D374;Druogno;;VB;Piemonte
+103031;D706;Formazza;;VB;Piemonte
+103032;D984;Germagno;;VB;Piemonte
+103033;E003;Ghiffa;;VB;Piemonte
+103034;E028;Gignese;;VB;Piemonte
+103035;E153;Gravellona Toce;;VB;Piemonte
+103036;E269;Gurro;;VB;Piemonte
+103037;E304;Intragna;;VB;Piemonte
+103038;E685;Loreglia;;VB;Piemonte
+103039;E790;Macugnaga;;VB;Piemonte
+103040;E795;Madonna del Sasso;;VB;Piemonte
+103041;E853;Malesco;;VB;Piemonte
+103042;F010;Masera;;VB;Piemonte
+103043;F048;Massiola;;VB;Piemonte
+103044;F146;Mergozzo;;VB;Piemonte
+103045;F192;Miazzina;;VB;Piemonte
+103046;F483;Montecrestese;;VB;Piemonte
+103047;F639;Montescheno;;VB;Piemonte
+103048;F932;Nonio;;VB;Piemonte
+103049;G007;Oggebbio;;VB;Piemonte
+103050;G062;Omegna;;VB;Piemonte
+103051;G117;Ornavasso;;VB;Piemonte
+103052;G280;Pallanzeno;;VB;Piemonte
+103053;G600;Piedimulera;;VB;Piemonte
+103054;G658;Pieve Vergonte;;VB;Piemonte
+103055;H030;Premeno;;VB;Piemonte
+103056;H033;Premia;;VB;Piemonte
+103057;H037;Premosello-Chiovenda;;VB;Piemonte
+103058;H106;Quarna Sopra;;VB;Piemonte
+103059;H107;Quarna Sotto;;VB;Piemonte
+103060;H203;Re;;VB;Piemonte
+103061;H777;San Bernardino Verbano;;VB;Piemonte
+103062;I249;Santa Maria Maggiore;;VB;Piemonte
+103064;I976;Stresa;;VB;Piemonte
+103065;L187;Toceno;;VB;Piemonte
+103066;L333;Trarego Viggiona;;VB;Piemonte
+103067;L336;Trasquera;;VB;Piemonte
+103068;L450;Trontano;;VB;Piemonte
+103069;L651;Valstrona;;VB;Piemonte
+103070;L666;Vanzone con San Carlo;;VB;Piemonte
+103071;L691;Varzo;;VB;Piemonte
+103072;L746;Verbania;;VB;Piemonte
+103074;L889;Vignone;;VB;Piemonte
+103075;L906;Villadossola;;VB;Piemonte
+103076;M042;Villette;;VB;Piemonte
+103077;M111;Vogogna;;VB;Piemonte
+103078;M370;Borgomezzavalle;;VB;Piemonte
+103079;M404;Valle Cannobina;;VB;Piemonte
+108001;A087;Agrate Brianza;;MB;Lombardia
+108002;A096;Aicurzio;;MB;Lombardia
+108003;A159;Albiate;;MB;Lombardia
+108004;A376;Arcore;;MB;Lombardia
+108005;A668;Barlassina;;MB;Lombardia
+108006;A759;Bellusco;;MB;Lombardia
+108007;A802;Bernareggio;;MB;Lombardia
+108008;A818;Besana in Brianza;;MB;Lombardia
+108009;A849;Biassono;;MB;Lombardia
+108010;B105;Bovisio-Masciago;;MB;Lombardia
+108011;B187;Briosco;;MB;Lombardia
+108012;B212;Brugherio;;MB;Lombardia
+108013;B272;Burago di Molgora;;MB;Lombardia
+108014;B501;Camparada;;MB;Lombardia
+108015;B729;Carate Brianza;;MB;Lombardia
+108016;B798;Carnate;;MB;Lombardia
+108017;C395;Cavenago di Brianza;;MB;Lombardia
+108018;C512;Ceriano Laghetto;;MB;Lombardia
+108019;C566;Cesano Maderno;;MB;Lombardia
+108020;C820;Cogliate;;MB;Lombardia
+108021;C952;Concorezzo;;MB;Lombardia
+108022;D038;Correzzana;;MB;Lombardia
+108023;D286;Desio;;MB;Lombardia
+108024;E063;Giussano;;MB;Lombardia
+108025;E504;Lazzate;;MB;Lombardia
+108026;E550;Lesmo;;MB;Lombardia
+108027;E591;Limbiate;;MB;Lombardia
+108028;E617;Lissone;;MB;Lombardia
+108029;E786;Macherio;;MB;Lombardia
+108030;F078;Meda;;MB;Lombardia
+108031;F165;Mezzago;;MB;Lombardia
+108032;F247;Misinto;;MB;Lombardia
+108033;F704;Monza;;MB;Lombardia
+108034;F797;Muggiò;;MB;Lombardia
+108035;F944;Nova Milanese;;MB;Lombardia
+108036;G116;Ornago;;MB;Lombardia
+108037;H233;Renate;;MB;Lombardia
+108038;H537;Ronco Briantino;;MB;Lombardia
+108039;I625;Seregno;;MB;Lombardia
+108040;I709;Seveso;;MB;Lombardia
+108041;I878;Sovico;;MB;Lombardia
+108042;I998;Sulbiate;;MB;Lombardia
+108043;L434;Triuggio;;MB;Lombardia
+108044;L511;Usmate Velate;;MB;Lombardia
+108045;L677;Varedo;;MB;Lombardia
+108046;L704;Vedano al Lambro;;MB;Lombardia
+108047;L709;Veduggio con Colzano;;MB;Lombardia
+108048;L744;Verano Brianza;;MB;Lombardia
+108049;M017;Villasanta;;MB;Lombardia
+108050;M052;Vimercate;;MB;Lombardia
+108051;B289;Busnago;;MB;Lombardia
+108052;B671;Caponago;;MB;Lombardia
+108053;D019;Cornate d'Adda;;MB;Lombardia
+108054;E530;Lentate sul Seveso;;MB;Lombardia
+108055;H529;Roncello;;MB;Lombardia
+109001;A233;Altidona;;FM;Marche
+109002;A252;Amandola;;FM;Marche
+109003;A760;Belmonte Piceno;;FM;Marche
+109004;B534;Campofilone;;FM;Marche
+109005;D477;Falerone;;FM;Marche
+109006;D542;Fermo;;FM;Marche
+109007;D760;Francavilla d'Ete;;FM;Marche
+109008;E208;Grottazzolina;;FM;Marche
+109009;E447;Lapedona;;FM;Marche
+109010;E807;Magliano di Tenna;;FM;Marche
+109011;F021;Massa Fermana;;FM;Marche
+109012;F379;Monsampietro Morico;;FM;Marche
+109013;F428;Montappone;;FM;Marche
+109014;F493;Montefalcone Appennino;;FM;Marche
+109015;F509;Montefortino;;FM;Marche
+109016;F517;Monte Giberto;;FM;Marche
+109017;F520;Montegiorgio;;FM;Marche
+109018;F522;Montegranaro;;FM;Marche
+109019;F536;Monteleone di Fermo;;FM;Marche
+109020;F549;Montelparo;;FM;Marche
+109021;F599;Monte Rinaldo;;FM;Marche
+109022;F614;Monterubbiano;;FM;Marche
+109023;F626;Monte San Pietrangeli;;FM;Marche
+109024;F653;Monte Urano;;FM;Marche
+109025;F664;Monte Vidon Combatte;;FM;Marche
+109026;F665;Monte Vidon Corrado;;FM;Marche
+109027;F697;Montottone;;FM;Marche
+109028;F722;Moresco;;FM;Marche
+109029;G137;Ortezzano;;FM;Marche
+109030;G403;Pedaso;;FM;Marche
+109031;G516;Petritoli;;FM;Marche
+109032;G873;Ponzano di Fermo;;FM;Marche
+109033;G920;Porto San Giorgio;;FM;Marche
+109034;G921;Porto Sant'Elpidio;;FM;Marche
+109035;H182;Rapagnano;;FM;Marche
+109036;I315;Santa Vittoria in Matenano;;FM;Marche
+109037;I324;Sant'Elpidio a Mare;;FM;Marche
+109038;C070;Servigliano;;FM;Marche
+109039;I774;Smerillo;;FM;Marche
+109040;L279;Torre San Patrizio;;FM;Marche
+110001;A285;Andria;;BT;Puglia
+110002;A669;Barletta;;BT;Puglia
+110003;A883;Bisceglie;;BT;Puglia
+110004;B619;Canosa di Puglia;;BT;Puglia
+110005;E946;Margherita di Savoia;;BT;Puglia
+110006;F220;Minervino Murge;;BT;Puglia
+110007;H839;San Ferdinando di Puglia;;BT;Puglia
+110008;I907;Spinazzola;;BT;Puglia
+110009;L328;Trani;;BT;Puglia
+110010;B915;Trinitapoli;;BT;Puglia
+111001;A359;Arbus;;SU;Sardegna
+111002;A419;Armungia;;SU;Sardegna
+111003;A597;Ballao;;SU;Sardegna
+111004;A677;Barrali;;SU;Sardegna
+111005;A681;Barumini;;SU;Sardegna
+111006;B250;Buggerru;;SU;Sardegna
+111007;B274;Burcei;;SU;Sardegna
+111008;B383;Calasetta;;SU;Sardegna
+111009;B745;Carbonia;;SU;Sardegna
+111010;B789;Carloforte;;SU;Sardegna
+111011;M288;Castiadas;;SU;Sardegna
+111012;C882;Collinas;;SU;Sardegna
+111013;D260;Decimoputzu;;SU;Sardegna
+111014;D323;Dolianova;;SU;Sardegna
+111015;D333;Domus de Maria;;SU;Sardegna
+111016;D334;Domusnovas;;SU;Sardegna
+111017;D344;Donori;;SU;Sardegna
+111018;D430;Escalaplano;;SU;Sardegna
+111019;D431;Escolca;;SU;Sardegna
+111020;D443;Esterzili;;SU;Sardegna
+111021;D639;Fluminimaggiore;;SU;Sardegna
+111022;D827;Furtei;;SU;Sardegna
+111023;D968;Genoni;;SU;Sardegna
+111024;D970;Genuri;;SU;Sardegna
+111025;D982;Gergei;;SU;Sardegna
+111026;D994;Gesico;;SU;Sardegna
+111027;D997;Gesturi;;SU;Sardegna
+111028;E022;Giba;;SU;Sardegna
+111029;E084;Goni;;SU;Sardegna
+111030;E086;Gonnesa;;SU;Sardegna
+111031;E085;Gonnosfanadiga;;SU;Sardegna
+111032;E234;Guamaggiore;;SU;Sardegna
+111033;E252;Guasila;;SU;Sardegna
+111034;E270;Guspini;;SU;Sardegna
+111035;E281;Iglesias;;SU;Sardegna
+111036;E336;Isili;;SU;Sardegna
+111037;E464;Las Plassas;;SU;Sardegna
+111038;E742;Lunamatrona;;SU;Sardegna
+111039;E877;Mandas;;SU;Sardegna
+111040;M270;Masainas;;SU;Sardegna
+111041;F333;Monastir;;SU;Sardegna
+111042;F808;Muravera;;SU;Sardegna
+111043;F822;Musei;;SU;Sardegna
+111044;F841;Narcao;;SU;Sardegna
+111045;F981;Nuragus;;SU;Sardegna
+111046;F982;Nurallao;;SU;Sardegna
+111047;F983;Nuraminis;;SU;Sardegna
+111048;F986;Nurri;;SU;Sardegna
+111049;F991;Nuxis;;SU;Sardegna
+111050;G122;Orroli;;SU;Sardegna
+111051;G133;Ortacesus;;SU;Sardegna
+111052;G207;Pabillonis;;SU;Sardegna
+111053;G382;Pauli Arbarei;;SU;Sardegna
+111054;G446;Perdaxius;;SU;Sardegna
+111055;G669;Pimentel;;SU;Sardegna
+111056;M291;Piscinas;;SU;Sardegna
+111057;G922;Portoscuso;;SU;Sardegna
+111058;H659;Sadali;;SU;Sardegna
+111059;H738;Samassi;;SU;Sardegna
+111060;H739;Samatzai;;SU;Sardegna
+111061;H766;San Basilio;;SU;Sardegna
+111062;H856;San Gavino Monreale;;SU;Sardegna
+111063;G287;San Giovanni Suergiu;;SU;Sardegna
+111064;G383;San Nicolò Gerrei;;SU;Sardegna
+111065;I166;San Sperate;;SU;Sardegna
+111066;I402;San Vito;;SU;Sardegna
+111067;H974;Sanluri;;SU;Sardegna
+111068;I182;Santadi;;SU;Sardegna
+111069;I271;Sant'Andrea Frius;;SU;Sardegna
+111070;M209;Sant'Anna Arresi;;SU;Sardegna
+111071;I294;Sant'Antioco;;SU;Sardegna
+111072;I428;Sardara;;SU;Sardegna
+111073;I570;Segariu;;SU;Sardegna
+111074;I582;Selegas;;SU;Sardegna
+111075;I615;Senorbì;;SU;Sardegna
+111076;I624;Serdiana;;SU;Sardegna
+111077;I647;Serramanna;;SU;Sardegna
+111078;I667;Serrenti;;SU;Sardegna
+111079;I668;Serri;;SU;Sardegna
+111080;I705;Setzu;;SU;Sardegna
+111081;I706;Seui;;SU;Sardegna
+111082;I707;Seulo;;SU;Sardegna
+111083;I724;Siddi;;SU;Sardegna
+111084;I734;Siliqua;;SU;Sardegna
+111085;I735;Silius;;SU;Sardegna
+111086;I765;Siurgus Donigala;;SU;Sardegna
+111087;I797;Soleminis;;SU;Sardegna
+111088;I995;Suelli;;SU;Sardegna
+111089;L154;Teulada;;SU;Sardegna
+111090;L337;Tratalias;;SU;Sardegna
+111091;L463;Tuili;;SU;Sardegna
+111092;L473;Turri;;SU;Sardegna
+111093;L512;Ussana;;SU;Sardegna
+111094;L513;Ussaramanna;;SU;Sardegna
+111095;L613;Vallermosa;;SU;Sardegna
+111096;L924;Villacidro;;SU;Sardegna
+111097;L966;Villamar;;SU;Sardegna
+111098;L968;Villamassargia;;SU;Sardegna
+111099;L992;Villanova Tulo;;SU;Sardegna
+111100;L986;Villanovaforru;;SU;Sardegna
+111101;L987;Villanovafranca;;SU;Sardegna
+111102;M278;Villaperuccio;;SU;Sardegna
+111103;L998;Villaputzu;;SU;Sardegna
+111104;M016;Villasalto;;SU;Sardegna
+111105;B738;Villasimius;;SU;Sardegna
+111106;M025;Villasor;;SU;Sardegna
+111107;M026;Villaspeciosa;;SU;Sardegna`;
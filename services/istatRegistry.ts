@@ -0,0 +1,122 @@
+// --- ISTAT Municipality Registry ---
+// Offline table of Italian comuni (ISTAT code, Belfiore cadastral code, province, region) used to check that an
+// Input row's comune belongs to its provincia, to correct likely typos and to fill in provinces that are not recognised.
+
+import { ISTAT_MUNICIPALITIES, ISTAT_MUNICIPALITIES_SOURCE } from './istatMunicipalities';
+import { municipalitySimilarity, normalizeMunicipality, MUNICIPALITY_MATCH_THRESHOLD } from './municipality';
+
+export interface IstatMunicipality {
+    istatCode: string;         // "016219"
+    cadastralCode: string;     // Belfiore code, also used in fiscal codes: "L400"
+    name: string;              // Italian name: "Bolzano"
+    otherName: string;         // Name in the other official language: "Bozen"
+    province: string;          // Sigla: "BZ"
+    region: string;
+}
+
+// False for a partial table (see cli/build-istat-registry.ts): comuni missing from it are then not reported as unknown
+export const ISTAT_REGISTRY_COMPLETE = ISTAT_MUNICIPALITIES_SOURCE.complete;
+
+// Day the ISTAT list refers to: its province codes are those in force then
+export const ISTAT_REGISTRY_DATE = new Date(`${ISTAT_MUNICIPALITIES_SOURCE.validOn}T00:00:00Z`);
+
+let registry: IstatMunicipality[] | null = null;
+let byName: Map<string, IstatMunicipality[]> | null = null;
+
+// Parsed on first use so the table costs nothing for callers that never look a comune up
+const loadRegistry = (): { entries: IstatMunicipality[], index: Map<string, IstatMunicipality[]> } => {
+    if (!registry || !byName) {
+        registry = ISTAT_MUNICIPALITIES.split('\n').filter(Boolean).map(line => {
+            const [istatCode, cadastralCode, name, otherName, province, region] = line.split(';');
+            return { istatCode, cadastralCode, name, otherName, province, region };
+        });
+        byName = new Map();
+        registry.forEach(m => {
+            [m.name, m.otherName].filter(Boolean).forEach(n => {
+                const key = normalizeMunicipality(n);
+                const list = byName!.get(key) || [];
+                if (!list.includes(m)) list.push(m);
+                byName!.set(key, list);
+            });
+        });
+    }
+    return { entries: registry, index: byName };
+};
+
+export const getIstatMunicipalities = (): IstatMunicipality[] => loadRegistry().entries;
+
+// Comuni with exactly this name after normalization (homonyms such as Samone TO/TN return several)
+export const findMunicipalities = (name: any, province?: string): IstatMunicipality[] => {
+    const { index } = loadRegistry();
+    const found: IstatMunicipality[] = [];
+    String(name ?? '').split(/\s*\/\s*|\s+-\s+/).forEach(variant => {
+        (index.get(normalizeMunicipality(variant)) || []).forEach(m => {
+            if (!found.includes(m)) found.push(m);
+        });
+    });
+    return province ? found.filter(m => m.province === province) : found;
+};
+
+// Whether a comune filed under `registryCode` in the registry belongs to `province`. The registry's codes are those in
+// force on ISTAT_REGISTRY_DATE; callers comparing with later codes pass registryProvinceMatches (services/provinces.ts).
+export type ProvinceMatcher = (registryCode: string, province: string) => boolean;
+
+const sameCode: ProvinceMatcher = (registryCode, province) => registryCode === province;
+
+export const lookupIstatCode = (name: any, province: string, sameProvince: ProvinceMatcher = sameCode): string => {
+    const found = findMunicipalities(name).filter(m => sameProvince(m.province, province));
+    return found.length === 1 ? found[0].istatCode : '';
+};
+
+export type MunicipalityCheckStatus =
+    | 'ok'                       // Comune found in the given province
+    | 'corrected'                // Not found, but one comune of the province is close enough to be a typo
+    | 'province-mismatch'        // Comune exists, but in another province
+    | 'province-from-registry'   // Province not recognised; taken from the only comune with this name
+    | 'unknown';                 // Not in the registry (only meaningful when ISTAT_REGISTRY_COMPLETE)
+
+export interface MunicipalityCheck {
+    status: MunicipalityCheckStatus;
+    municipality: IstatMunicipality | null;   // Registry entry the row was matched to, if any
+    candidates: IstatMunicipality[];          // For mismatches: where the comune actually is
+    score: number;
+}
+
+// province: two-letter code of a recognised province, or null when the Input province is unknown
+export const checkMunicipality = (name: any, province: string | null, sameProvince: ProvinceMatcher = sameCode): MunicipalityCheck => {
+    const exact = findMunicipalities(name);
+
+    if (!province) {
+        return exact.length === 1
+            ? { status: 'province-from-registry', municipality: exact[0], candidates: exact, score: 1 }
+            : { status: 'unknown', municipality: null, candidates: exact, score: 0 };
+    }
+
+    const inProvince = exact.filter(m => sameProvince(m.province, province));
+    if (inProvince.length > 0) {
+        return { status: 'ok', municipality: inProvince[0], candidates: inProvince, score: 1 };
+    }
+    if (exact.length > 0) {
+        return { status: 'province-mismatch', municipality: null, candidates: exact, score: 1 };
+    }
+
+    // Typo correction is limited to the row's own province and only applied to a single clear winner
+    let best: IstatMunicipality | null = null;
+    let bestScore = 0;
+    let tie = false;
+    for (const m of loadRegistry().entries) {
+        if (!sameProvince(m.province, province)) continue;
+        const score = municipalitySimilarity(name, m.otherName ? `${m.name}/${m.otherName}` : m.name);
+        if (score > bestScore) {
+            best = m;
+            bestScore = score;
+            tie = false;
+        } else if (score === bestScore) {
+            tie = true;
+        }
+    }
+    if (best && !tie && bestScore >= MUNICIPALITY_MATCH_THRESHOLD) {
+        return { status: 'corrected', municipality: best, candidates: [best], score: Number(bestScore.toFixed(2)) };
+    }
+    return { status: 'unknown', municipality: null, candidates: [], score: Number(bestScore.toFixed(2)) };
+};
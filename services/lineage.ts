@@ -0,0 +1,99 @@
+// --- Parcel Lineage ---
+// Cadastral parcels are split (frazionamento: 345 -> 345, 812, 813) and merged (fusione: 345 + 346 -> 345), so the
+// foglio/particella in the Input file may no longer exist in the register the owners were retrieved from. A
+// "Variations" sheet lists old -> new pairs; following them forwards (successors) and backwards (predecessors) finds
+// the parcels a land has become, or came from, and the Parcel_IDs their owners are filed under.
+// Parcels are compared on comune, foglio and particella; a variation without a comune applies to every comune.
+
+import { matchMunicipality } from './municipality';
+
+export interface ParcelRef {
+    comune: string;     // '' = any comune
+    foglio: string;
+    particella: string;
+}
+
+export interface ParcelVariation {
+    from: ParcelRef;    // Parcel before the variation
+    to: ParcelRef;      // Parcel after it
+    type: string;       // As written: "Frazionamento", "Fusione", ...
+    date: string;
+    row: number;        // Excel row number (header is row 1)
+}
+
+export type LineageDirection = 'successor' | 'predecessor';
+
+export interface LineageStep {
+    ref: ParcelRef;
+    direction: LineageDirection;
+    depth: number;                  // 1 = direct successor/predecessor
+    variation: ParcelVariation;     // Variation that led to this parcel
+}
+
+// Chains longer than this are treated as a loop in the Variations sheet
+export const MAX_LINEAGE_DEPTH = 10;
+
+const text = (val: any): string => (val === null || val === undefined ? '' : String(val).trim());
+
+// "0345", "345.0" and "345" are the same particella
+const cadastralNumber = (val: any): string => {
+    const s = text(val).split('.')[0];
+    return /^\d+$/.test(s) ? String(parseInt(s, 10)) : s.toUpperCase();
+};
+
+export const sameParcel = (a: ParcelRef, b: ParcelRef): boolean => {
+    if (cadastralNumber(a.foglio) !== cadastralNumber(b.foglio) || cadastralNumber(a.particella) !== cadastralNumber(b.particella)) return false;
+    return !a.comune || !b.comune || matchMunicipality(a.comune, b.comune).matched;
+};
+
+// "12/345"
+export const formatParcelRef = (ref: ParcelRef): string => `${cadastralNumber(ref.foglio)}/${cadastralNumber(ref.particella)}`;
+
+// Variations sheet rows (canonical columns, see columnProfiles); rows missing a foglio or particella are skipped.
+// A new foglio left empty means the parcel stayed on the same foglio.
+export const parseVariations = (rows: any[]): { variations: ParcelVariation[], skipped: number[] } => {
+    const variations: ParcelVariation[] = [];
+    const skipped: number[] = [];
+    (rows || []).forEach((r: any, i: number) => {
+        const comune = text(r.comune);
+        const from = { comune, foglio: text(r.foglio_old), particella: text(r.particella_old) };
+        const to = { comune, foglio: text(r.foglio_new) || from.foglio, particella: text(r.particella_new) };
+        if (!from.foglio || !from.particella || !to.particella) {
+            if (Object.values(r).some(v => text(v))) skipped.push(i + 2);
+            return;
+        }
+        if (sameParcel(from, to)) return; // Same parcel before and after: nothing to follow
+        variations.push({ from, to, type: text(r.tipo), date: text(r.data), row: i + 2 });
+    });
+    return { variations, skipped };
+};
+
+// Parcels reached from `ref` in one direction, nearest first. The comune of the start parcel carries over to
+// variations that do not name one.
+export const walkLineage = (variations: ParcelVariation[], ref: ParcelRef, direction: LineageDirection): LineageStep[] => {
+    const steps: LineageStep[] = [];
+    const visited: ParcelRef[] = [ref];
+    let frontier: ParcelRef[] = [ref];
+    for (let depth = 1; depth <= MAX_LINEAGE_DEPTH && frontier.length > 0; depth++) {
+        const next: ParcelRef[] = [];
+        frontier.forEach(current => {
+            variations.forEach(v => {
+                const [origin, target] = direction === 'successor' ? [v.from, v.to] : [v.to, v.from];
+                if (!sameParcel(origin, current)) return;
+                const found = { ...target, comune: target.comune || current.comune };
+                if (visited.some(p => sameParcel(p, found))) return;
+                visited.push(found);
+                next.push(found);
+                steps.push({ ref: found, direction, depth, variation: v });
+            });
+        });
+        frontier = next;
+    }
+    return steps;
+};
+
+// "successor 12/812 (Frazionamento 2021-03-04)"
+export const describeLineageStep = (step: LineageStep): string => {
+    const about = [step.variation.type, step.variation.date].filter(Boolean).join(' ');
+    return `${step.direction} ${formatParcelRef(step.ref)}${about ? ` (${about})` : ''}`;
+};
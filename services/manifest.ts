@@ -0,0 +1,110 @@
+// --- Run Bundle & Manifest ---
+// "Download all": every output file of a run, the log as text and a manifest.json in one ZIP, with file names
+// built from a template so bundles from different projects and days can sit in the same folder.
+
+import type { OutputData } from './transformer';
+import type { FileType, LogEntry } from '../types';
+import { buildOutputFiles } from './exporter';
+import { buildZip, safeFileName } from './zip';
+
+// Bump when a change alters the generated files (i.e. whenever the golden CSVs change)
+export const TRANSFORMER_VERSION = '1.3.1';
+
+export const DEFAULT_FILE_NAME_TEMPLATE = '{project}_{name}_{date}';
+
+// Placeholders: {project}, {date} (YYYY-MM-DD), {name} (e.g. "scouted_data"). {name} is appended when missing,
+// otherwise every file of a run would get the same name.
+export const applyFileNameTemplate = (template: string, values: { project: string, date: Date, name: string }): string => {
+    const t = template.includes('{name}') ? template : `${template}_{name}`;
+    const date = [values.date.getFullYear(), values.date.getMonth() + 1, values.date.getDate()].map(n => String(n).padStart(2, '0')).join('-');
+    const name = t
+        .replace(/\{project\}/g, values.project.trim())
+        .replace(/\{date\}/g, date)
+        .replace(/\{name\}/g, values.name)
+        .replace(/([_\-\s])[_\-\s]+/g, '$1')      // Separators left around an empty placeholder
+        .replace(/^[_\-\s]+|[_\-\s]+$/g, '');
+    return safeFileName(name);
+};
+
+// "scouted_data.csv" -> "AreaNord_scouted_data_2025-03-07.csv"
+export const templatedFileName = (template: string, values: { project: string, date: Date }, fileName: string): string => {
+    const dot = fileName.lastIndexOf('.');
+    const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+    const ext = dot > 0 ? fileName.slice(dot) : '';
+    return `${applyFileNameTemplate(template, { ...values, name: base })}${ext}`;
+};
+
+const toHex = (buffer: ArrayBuffer): string => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const sha256Hex = async (data: ArrayBuffer | Uint8Array): Promise<string> => {
+    return toHex(await crypto.subtle.digest('SHA-256', data));
+};
+
+export const formatLogText = (logs: LogEntry[]): string => {
+    return logs.map(l => `${l.timestamp} [${l.type}] ${l.message}`).join('\r\n') + (logs.length > 0 ? '\r\n' : '');
+};
+
+export interface RunSource {
+    role: FileType;
+    fileName: string;
+    sha256: string;     // '' when the original file is not available (e.g. a session saved before hashes were kept)
+}
+
+export interface RunManifest {
+    transformerVersion: string;
+    generatedAt: string;
+    project: string;
+    profileId: string;
+    sources: RunSource[];
+    rowCounts: { [dataset: string]: number };
+    files: { fileName: string, bytes: number }[];
+}
+
+export interface RunBundleOptions {
+    project: string;
+    profileId: string;
+    sources: RunSource[];
+    logs: LogEntry[];
+    template?: string;
+    date?: Date;
+}
+
+const byteLength = (content: string | ArrayBuffer | Uint8Array): number => {
+    return typeof content === 'string' ? new TextEncoder().encode(content).length : content.byteLength;
+};
+
+export const buildRunBundle = (output: OutputData, options: RunBundleOptions, xlsx: any = window.XLSX): { fileName: string, content: Uint8Array, manifest: RunManifest } => {
+    const date = options.date || new Date();
+    const template = options.template || DEFAULT_FILE_NAME_TEMPLATE;
+    const values = { project: options.project, date };
+
+    const files = [
+        ...buildOutputFiles(output, xlsx),
+        { fileName: 'log.txt', content: formatLogText(options.logs) },
+    ].map(f => ({ fileName: templatedFileName(template, values, f.fileName), content: f.content }));
+
+    const manifest: RunManifest = {
+        transformerVersion: TRANSFORMER_VERSION,
+        generatedAt: date.toISOString(),
+        project: options.project,
+        profileId: options.profileId,
+        sources: options.sources,
+        rowCounts: {
+            scouted: output.scouted.length,
+            retrieved: output.retrieved.length,
+            contacted: output.contacted.length,
+            csvScouted: output.csvScouted.length,
+            csvRetrieved: output.csvRetrieved.length,
+            csvContacted: output.csvContacted.length,
+            owners: output.owners ? output.owners.length : 0,
+            qualityIssues: output.quality ? output.quality.length : 0,
+        },
+        files: files.map(f => ({ fileName: f.fileName, bytes: byteLength(f.content) })),
+    };
+
+    const content = buildZip([
+        ...files.map(f => ({ path: f.fileName, content: f.content })),
+        { path: 'manifest.json', content: JSON.stringify(manifest, null, 2) },
+    ], xlsx);
+    return { fileName: `${applyFileNameTemplate(template, { ...values, name: 'outputs' })}.zip`, content, manifest };
+};
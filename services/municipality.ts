@@ -0,0 +1,83 @@
+// --- Municipality Matching ---
+// Compares comune names from different sources ("Sant'Angelo" vs "S. Angelo", "Comune di Forlì" vs "Forli",
+// "Bolzano/Bozen" vs "Bozen") for the geographic owner filter. Names are normalized first, then scored by similarity.
+
+// Accepted as the same municipality from this score up; anything below 1 is logged as a low-confidence match
+export const MUNICIPALITY_MATCH_THRESHOLD = 0.85;
+
+// Administrative prefixes that are not part of the name
+const PREFIXES = /^(comune|municipio|frazione|fraz|localita|loc)\s+(di|de|del|della|dei)?\s*/;
+
+// "San", "Santo", "Santa", "Sant'", "S." and "St." are written interchangeably
+const SAINT_TOKENS = new Set(['san', 'santo', 'santa', 'sant', 's', 'st']);
+
+// Articles/prepositions that are often dropped ("Reggio nell'Emilia" vs "Reggio Emilia")
+const STOPWORDS = new Set(['di', 'de', 'del', 'della', 'dei', 'delle', 'nel', 'nell', 'nella', 'sul', 'sull', 'sulla', 'in', 'e', 'd', 'l']);
+
+// Lowercase, strip accents, apostrophes, punctuation, a trailing "(BG)" and administrative prefixes; unify abbreviations
+export const normalizeMunicipality = (name: any): string => {
+    let s = String(name ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    s = s.replace(/\([^)]*\)/g, ' ');            // "Treviglio (BG)"
+    s = s.replace(/[^a-z0-9]+/g, ' ').trim();   // Apostrophes and dots too: "Sant'Angelo" -> "sant angelo"
+    s = s.replace(PREFIXES, '');
+    return s
+        .split(' ')
+        .filter(t => t && !STOPWORDS.has(t))
+        .map(t => (SAINT_TOKENS.has(t) ? 's' : t))
+        .join(' ');
+};
+
+// Bilingual names ("Bolzano/Bozen", "Aosta - Aoste") match on either language
+export const municipalityVariants = (name: any): string[] => {
+    const variants = String(name ?? '')
+        .split(/\s*\/\s*|\s+-\s+/)
+        .map(normalizeMunicipality)
+        .filter(Boolean);
+    return variants.length > 0 ? variants : [''];
+};
+
+// Edit distance where swapping two adjacent letters counts as one edit ("Trevilgio" -> "Treviglio")
+const editDistance = (a: string, b: string): number => {
+    if (a === b) return 0;
+    if (!a.length) return b.length;
+    if (!b.length) return a.length;
+    const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+    for (let j = 1; j <= b.length; j++) d[0][j] = j;
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[a.length][b.length];
+};
+
+// 1 = same name after normalization, 0 = nothing in common. Spaces are ignored ("Santangelo" = "Sant Angelo").
+export const municipalitySimilarity = (a: any, b: any): number => {
+    let best = 0;
+    municipalityVariants(a).forEach(va => {
+        municipalityVariants(b).forEach(vb => {
+            const x = va.replace(/ /g, '');
+            const y = vb.replace(/ /g, '');
+            if (!x || !y) return;
+            const score = 1 - editDistance(x, y) / Math.max(x.length, y.length);
+            if (score > best) best = score;
+        });
+    });
+    return best;
+};
+
+export interface MunicipalityMatch {
+    matched: boolean;
+    score: number;
+    lowConfidence: boolean;   // Accepted, but not an exact match after normalization
+}
+
+export const matchMunicipality = (candidate: any, target: any, threshold: number = MUNICIPALITY_MATCH_THRESHOLD): MunicipalityMatch => {
+    const score = municipalitySimilarity(candidate, target);
+    const matched = score >= threshold;
+    return { matched, score: Number(score.toFixed(2)), lowConfidence: matched && score < 1 };
+};
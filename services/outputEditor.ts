@@ -0,0 +1,69 @@
+// --- Manual edits on generated output ---
+// Edits made in the preview grid are written back into OutputData so the downloaded files include them.
+
+import { mapToCsvRow } from './transformer';
+import type { OutputData } from './transformer';
+
+export type CsvDatasetKey = 'csvScouted' | 'csvRetrieved' | 'csvContacted';
+export type DatasetKey = 'scouted' | 'retrieved' | 'contacted' | CsvDatasetKey;
+
+// Each internal dataset and the CSV rows derived from it (same index on both sides)
+export const CSV_DATASETS: { [key in 'scouted' | 'retrieved' | 'contacted']: { csvKey: CsvDatasetKey, status: string } } = {
+    scouted: { csvKey: 'csvScouted', status: 'Scouted' },
+    retrieved: { csvKey: 'csvRetrieved', status: 'Retrieved' },
+    contacted: { csvKey: 'csvContacted', status: 'Contacted' },
+};
+
+const INTERNAL_KEYS = Object.keys(CSV_DATASETS) as ('scouted' | 'retrieved' | 'contacted')[];
+
+const isInternalKey = (key: DatasetKey): key is 'scouted' | 'retrieved' | 'contacted' => key in CSV_DATASETS;
+
+// Land External ID of a row, read from the CSV row at the same index for internal datasets
+const externalIdAt = (output: OutputData, key: DatasetKey, rowIndex: number): string => {
+    const csvKey = isInternalKey(key) ? CSV_DATASETS[key].csvKey : key;
+    const csvRow = (output[csvKey] || [])[rowIndex];
+    return csvRow ? String(csvRow['Land External ID'] || '') : '';
+};
+
+// Set one cell in place on `next` (a shallow copy of the output); internal edits re-generate the CSV row
+const setCell = (next: OutputData, key: DatasetKey, rowIndex: number, column: string, value: string) => {
+    const updatedRow = { ...next[key][rowIndex], [column]: value };
+    next[key] = next[key].map((r, i) => (i === rowIndex ? updatedRow : r));
+
+    if (isInternalKey(key)) {
+        const { csvKey, status } = CSV_DATASETS[key];
+        const csvRows = next[csvKey];
+        if (csvRows && rowIndex < csvRows.length) {
+            next[csvKey] = csvRows.map((r, i) => (i === rowIndex ? mapToCsvRow(updatedRow, status) : r));
+        }
+    }
+};
+
+// Return a new OutputData with one cell changed.
+// Editing an internal dataset re-generates the matching Salesforce CSV row (overwriting earlier direct CSV edits on that row);
+// editing a CSV dataset only changes that CSV row.
+// The same parcel in the other Cargas (same Land External ID) gets the edit too where it held the same value, so a corrected
+// owner reaches every upload while each Carga keeps its own Lead Status and the Scouted placeholders and blanks.
+export const updateOutputCell = (output: OutputData, key: DatasetKey, rowIndex: number, column: string, value: string): OutputData => {
+    const rows = output[key];
+    if (!rows || rowIndex < 0 || rowIndex >= rows.length) return output;
+
+    const previous = String(rows[rowIndex][column] ?? '');
+    const externalId = externalIdAt(output, key, rowIndex);
+    const next: OutputData = { ...output };
+    setCell(next, key, rowIndex, column, value);
+
+    if (!externalId) return next;
+    const siblings: DatasetKey[] = isInternalKey(key) ? INTERNAL_KEYS : INTERNAL_KEYS.map(k => CSV_DATASETS[k].csvKey);
+    siblings.filter(k => k !== key).forEach(k => {
+        const siblingRows = next[k] || [];
+        siblingRows.forEach((r, i) => {
+            if (externalIdAt(output, k, i) !== externalId) return;
+            if (!(column in r) || String(r[column] ?? '') !== previous) return;
+            if (previous === '' && (k === 'scouted' || k === CSV_DATASETS.scouted.csvKey)) return; // Scouted leads have no owner yet
+            setCell(next, k, i, column, value);
+        });
+    });
+
+    return next;
+};
@@ -0,0 +1,159 @@
+// --- Manual Overrides ---
+// Corrections that survive a re-run. Fixing a wrong main owner in a downloaded CSV is lost the next time the files
+// are generated; an override is kept (browser localStorage, or a spreadsheet for the CLI) and runProcess applies it
+// on every run, after processOwnersForLand has resolved the owner. Overrides never touch the source workbooks:
+// removing one gives back the computed values on the next run.
+
+import { findColumnKey } from './columnProfiles';
+import { classifyOwner, normalizeFiscalCode } from './fiscalCode';
+import type { ValidationResult } from './transformer';
+
+export type OverrideField = 'fiscalCode' | 'email' | 'firstName' | 'lastName' | 'cp' | 'leadStatus';
+
+export interface ParcelOverride {
+    key: string;            // Land External ID, or a Parcel_ID (then it applies to every land with that Parcel_ID)
+    fiscalCode: string;     // Main owner fiscal code; '' leaves the computed value
+    email: string;
+    firstName: string;
+    lastName: string;
+    cp: string;
+    leadStatus: string;
+    exclude: boolean;       // Leave the parcel out of every Carga
+    note: string;           // Why the override exists; not applied
+}
+
+// Spreadsheet column per field, with the headers accepted on import
+export const OVERRIDE_COLUMNS: { field: OverrideField | 'key' | 'exclude' | 'note', label: string, aliases: string[] }[] = [
+    { field: 'key', label: 'Key', aliases: ['Land External ID', 'External ID', 'Parcel_ID', 'Parcel ID'] },
+    { field: 'fiscalCode', label: 'Fiscal Code', aliases: ['Main Owner Fiscal Code', 'Codice Fiscale', 'CF'] },
+    { field: 'email', label: 'Email', aliases: ['PEC', 'Main Owner Email'] },
+    { field: 'firstName', label: 'First Name', aliases: ['Main Owner Name', 'Nome'] },
+    { field: 'lastName', label: 'Last Name', aliases: ['Main Owner Last Name', 'Cognome'] },
+    { field: 'cp', label: 'CP', aliases: ['CAP', 'Postal Code'] },
+    { field: 'leadStatus', label: 'Lead Status', aliases: ['Status'] },
+    { field: 'exclude', label: 'Exclude', aliases: ['Excluded', 'Escludi'] },
+    { field: 'note', label: 'Note', aliases: ['Notes', 'Comment'] },
+];
+
+export const OVERRIDE_FIELD_LABELS: { [key in OverrideField]: string } = {
+    fiscalCode: 'Fiscal Code',
+    email: 'Email',
+    firstName: 'First Name',
+    lastName: 'Last Name',
+    cp: 'CP',
+    leadStatus: 'Lead Status',
+};
+
+export const OVERRIDE_FIELDS = Object.keys(OVERRIDE_FIELD_LABELS) as OverrideField[];
+
+export const emptyOverride = (key: string = ''): ParcelOverride => ({
+    key, fiscalCode: '', email: '', firstName: '', lastName: '', cp: '', leadStatus: '', exclude: false, note: '',
+});
+
+const text = (val: any): string => (val === null || val === undefined ? '' : String(val).trim());
+
+const sameKey = (a: string, b: string): boolean => text(a).toUpperCase() === text(b).toUpperCase();
+
+// "x", "yes", "true", "si", "1" (any case) exclude the parcel
+const isTruthy = (val: any): boolean => /^(x|yes|y|true|si|s\u00ec|1)$/i.test(text(val));
+
+// Nothing to apply: no field set and not excluded
+export const isBlankOverride = (o: ParcelOverride): boolean => !o.exclude && OVERRIDE_FIELDS.every(f => !text(o[f]));
+
+// "Fiscal Code 'RSSMRA80A01H501U', Email 'a@pec.it'" or "excluded"
+export const describeOverride = (o: ParcelOverride): string => {
+    if (o.exclude) return 'excluded';
+    return OVERRIDE_FIELDS.filter(f => text(o[f])).map(f => `${OVERRIDE_FIELD_LABELS[f]} '${text(o[f])}'`).join(', ');
+};
+
+// The override for a land: one keyed by its External ID wins over one keyed by its Parcel_ID
+export const findOverride = (overrides: ParcelOverride[], externalId: string, parcelId: any): ParcelOverride | undefined => {
+    return overrides.find(o => sameKey(o.key, externalId)) || overrides.find(o => sameKey(o.key, text(parcelId)));
+};
+
+// Add an override, or replace the one with the same key
+export const upsertOverride = (overrides: ParcelOverride[], override: ParcelOverride): ParcelOverride[] => {
+    const cleaned = { ...override, key: text(override.key) };
+    const index = overrides.findIndex(o => sameKey(o.key, cleaned.key));
+    if (index < 0) return [...overrides, cleaned];
+    return overrides.map((o, i) => (i === index ? cleaned : o));
+};
+
+export const removeOverride = (overrides: ParcelOverride[], key: string): ParcelOverride[] => overrides.filter(o => !sameKey(o.key, key));
+
+// Problems that do not stop an override from being applied but are probably typos
+export const overrideWarnings = (o: ParcelOverride): string[] => {
+    const warnings: string[] = [];
+    if (o.fiscalCode && classifyOwner(o.fiscalCode) === 'invalid') warnings.push(`fiscal code '${o.fiscalCode}' is not valid`);
+    if (o.email && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(o.email)) warnings.push(`email '${o.email}' does not look like an address`);
+    return warnings;
+};
+
+const fromRecord = (r: any): ParcelOverride => {
+    const o = emptyOverride(text(r.key));
+    OVERRIDE_FIELDS.forEach(f => {
+        o[f] = text(r[f]);
+    });
+    o.fiscalCode = normalizeFiscalCode(o.fiscalCode);
+    o.exclude = r.exclude === true || isTruthy(r.exclude);
+    o.note = text(r.note);
+    return o;
+};
+
+// Overrides kept as JSON (browser localStorage); anything unreadable is ignored
+export const parseStoredOverrides = (json: string | null): ParcelOverride[] => {
+    if (!json) return [];
+    try {
+        const parsed = JSON.parse(json);
+        if (!Array.isArray(parsed)) return [];
+        return parsed.filter(r => r && text(r.key)).map(fromRecord);
+    } catch {
+        return [];
+    }
+};
+
+// Read the first sheet of an overrides spreadsheet. Rows without a key or without anything to apply are skipped;
+// a key listed twice keeps its last row.
+export const parseOverrideSheet = (jsonData: { [sheetName: string]: any[] }, fileName: string): { overrides: ParcelOverride[], validation: ValidationResult } => {
+    const errors: string[] = [];
+    const sheetName = Object.keys(jsonData)[0];
+    const sheet = sheetName ? jsonData[sheetName] : [];
+    if (!sheet || sheet.length === 0) {
+        errors.push(`Overrides file '${fileName}' is empty.`);
+        return { overrides: [], validation: { isValid: false, errors } };
+    }
+
+    const keys = Object.keys(sheet[0]);
+    const columns = new Map<string, string>();
+    OVERRIDE_COLUMNS.forEach(c => {
+        const col = findColumnKey(keys, [c.label, ...c.aliases]);
+        if (col) columns.set(c.field, col);
+    });
+    if (!columns.has('key')) {
+        errors.push(`Overrides file '${fileName}' is missing the 'Key' column (Land External ID or Parcel_ID). Found columns: ${keys.join(', ')}`);
+        return { overrides: [], validation: { isValid: false, errors } };
+    }
+
+    let overrides: ParcelOverride[] = [];
+    sheet.forEach(row => {
+        const record: any = {};
+        columns.forEach((col, field) => {
+            record[field] = row[col];
+        });
+        const o = fromRecord(record);
+        if (!o.key || isBlankOverride(o)) return;
+        overrides = upsertOverride(overrides, o);
+    });
+    return { overrides, validation: { isValid: true, errors } };
+};
+
+// One row per override in the import layout, for the spreadsheet export
+export const overridesToRows = (overrides: ParcelOverride[]): any[] => {
+    return overrides.map(o => {
+        const row: any = {};
+        OVERRIDE_COLUMNS.forEach(c => {
+            row[c.label] = c.field === 'exclude' ? (o.exclude ? 'x' : '') : o[c.field];
+        });
+        return row;
+    });
+};
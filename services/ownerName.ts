@@ -0,0 +1,176 @@
+// --- Owner Name Parser ---
+// Cadastral registers write owners as one string: "ROSSI MARIO FU GIUSEPPE PROPRIETA' PER 1/2", "DE LUCA ANNA MARIA
+// nata a ROMA", "AGRICOLA BIANCHI S.S.". This splits such a string into the owner's name and the text around it
+// (parentage, right held, birth clause), tells companies and public bodies from people, and splits people into
+// first and last name, assuming the register's "COGNOME NOME" order unless the codice fiscale says otherwise.
+
+export type OwnerEntityType = 'person' | 'company' | 'public-body';
+
+export interface ParsedOwnerName {
+    raw: string;
+    name: string;           // Cleaned full name as written, without birth clause, parentage or right ("ROSSI MARIO")
+    entityType: OwnerEntityType;
+    firstName: string;      // Empty for companies and public bodies
+    lastName: string;       // Surname, or the whole name of a company / public body
+    displayName: string;    // Title case, first name first: "Mario Rossi", "Agricola Bianchi S.s."
+    legalForm: string;      // "S.r.l.", "Soc. agr.", ... ('' for people)
+    parentage: string;      // "FU GIUSEPPE" / "; DI ANTONIO" -> "GIUSEPPE" / "ANTONIO"
+    right: string;          // Right or role as written: "PROPRIETA' PER 1/2", "usufruttuario"
+}
+
+// Company legal forms: pattern on the normalized (uppercase, accent-free) name and the label used in display names
+const LEGAL_FORMS: { label: string, pattern: RegExp }[] = [
+    { label: 'S.r.l.s.', pattern: /\bS\.?\s?R\.?\s?L\.?\s?S\b\.?/ },
+    { label: 'S.r.l.', pattern: /\bS\.?\s?R\.?\s?L\b\.?/ },
+    { label: 'S.p.a.', pattern: /\bS\.?\s?P\.?\s?A\b\.?/ },
+    { label: 'S.a.p.a.', pattern: /\bS\.?\s?A\.?\s?P\.?\s?A\b\.?/ },
+    { label: 'S.a.s.', pattern: /\bS\.?\s?A\.?\s?S\b\.?/ },
+    { label: 'S.n.c.', pattern: /\bS\.?\s?N\.?\s?C\b\.?/ },
+    { label: 'S.c.a.r.l.', pattern: /\bS\.?\s?C\.?\s?A\.?\s?R\.?\s?L\b\.?/ },
+    { label: 'Soc. agr.', pattern: /\bSOC(?:IETA'?|\.)?\s*AGR(?:ICOLA|\.)?(?![A-Z])/ },
+    { label: 'Soc. coop.', pattern: /\bSOC(?:IETA'?|\.)?\s*COOP(?:ERATIVA|\.)?(?![A-Z])|\bCOOPERATIVA\b/ },
+    { label: 'S.s.', pattern: /\bS\.\s?S\.|\bS\.?\s?S\.?$|\bSOCIETA'?\s+SEMPLICE\b/ },
+    { label: 'Consorzio', pattern: /\bCONSORZIO\b/ },
+    { label: 'Fondazione', pattern: /\bFONDAZIONE\b/ },
+    { label: 'Associazione', pattern: /\bASSOCIAZIONE\b/ },
+];
+
+// Owners that are neither people nor companies: the State, local authorities, church bodies
+const PUBLIC_BODY_PATTERN = /^(?:COMUNE|PROVINCIA|REGIONE|CITTA'? METROPOLITANA|DEMANIO|AGENZIA DEL DEMANIO|STATO|MINISTERO|ENTE|AZIENDA SANITARIA|A\.?S\.?L|PARROCCHIA|DIOCESI|CONSORZIO DI BONIFICA)\b/;
+
+// Rights and roles written after the name; everything from the keyword on is the right
+const RIGHT_PATTERN = /\s*\(?\b(?:NUD[AO]\s+PROPRIET|COMPROPRIET|PROPRIET|USUFRUTT|SUPERFICI|ENFITEU|LIVELLAR|DIRITTO\s+D|ONERI|CONCEDENTE|TITOLARE)/;
+
+// Particles that belong to the following word of a surname ("DE LUCA", "DELLA ROVERE", "LO PRESTI")
+const SURNAME_PARTICLES = new Set(['DE', 'DI', 'DEL', 'DELLA', 'DELLO', 'DELLE', 'DEGLI', 'DEI', 'DAL', 'DALLA', 'DALLO', 'DA', 'LO', 'LA', 'LI', 'LE', 'MC', 'MAC', 'VAN', 'VON']);
+
+// Uppercase without accents, one character for one character, so match positions are positions in the original text
+const fold = (s: string): string => {
+    return Array.from(s).map(c => {
+        const base = c.length === 1 ? c.normalize('NFD')[0].toUpperCase() : c;
+        return base.length === 1 ? base : c;
+    }).join('');
+};
+
+const collapse = (s: string): string => s.replace(/\s+/g, ' ').trim();
+
+// Generated placeholders that are not names at all
+const stripPlaceholders = (s: string): string => {
+    return s
+        .replace(/Unknown\s+[A-Z]{2}-[\w\d]+-[A-Z0-9]+-\d{4}-\d{5}/gi, '')     // Generated External ID fallback
+        .replace(/Timeout-Pending/gi, '');
+};
+
+// "ROSSI MARIO" -> "Rossi Mario"; "D'ANGELO" -> "D'Angelo"; legal forms keep their own label
+export const toTitleCase = (s: string): string => {
+    return s.toLowerCase().replace(/(^|[\s'\-(/])(\p{L})/gu, (_, sep: string, c: string) => sep + c.toUpperCase());
+};
+
+// --- Codice fiscale name codes ---
+// Characters 1-3 encode the surname and 4-6 the first name, so a valid personal code tells where the surname ends.
+
+const letters = (s: string): string => fold(s).replace(/[^A-Z]/g, '');
+const consonants = (s: string): string => letters(s).replace(/[AEIOU]/g, '');
+const vowels = (s: string): string => letters(s).replace(/[^AEIOU]/g, '');
+
+const surnameCode = (surname: string): string => `${consonants(surname)}${vowels(surname)}XXX`.substring(0, 3);
+
+const firstNameCode = (firstName: string): string => {
+    const c = consonants(firstName);
+    if (c.length >= 4) return c[0] + c[2] + c[3];
+    return `${c}${vowels(firstName)}XXX`.substring(0, 3);
+};
+
+// Split by the fiscal code: the first split (surname-first, then first-name-first) whose codes match
+const splitByFiscalCode = (tokens: string[], fiscalCode: string): { firstName: string, lastName: string } | null => {
+    const code = String(fiscalCode || '').replace(/\s+/g, '').toUpperCase();
+    if (!/^[A-Z]{6}/.test(code) || code.length !== 16) return null;
+    for (let i = 1; i < tokens.length; i++) {
+        const head = tokens.slice(0, i).join(' ');
+        const tail = tokens.slice(i).join(' ');
+        if (surnameCode(head) === code.substring(0, 3) && firstNameCode(tail) === code.substring(3, 6)) return { lastName: head, firstName: tail };
+    }
+    for (let i = 1; i < tokens.length; i++) {
+        const head = tokens.slice(0, i).join(' ');
+        const tail = tokens.slice(i).join(' ');
+        if (firstNameCode(head) === code.substring(3, 6) && surnameCode(tail) === code.substring(0, 3)) return { firstName: head, lastName: tail };
+    }
+    return null;
+};
+
+// Surname first: leading particles plus the next word ("DE LA CRUZ"), the rest is the first name
+const splitSurnameFirst = (tokens: string[]): { firstName: string, lastName: string } => {
+    let end = 0;
+    while (end < tokens.length - 1 && SURNAME_PARTICLES.has(fold(tokens[end]))) end++;
+    end = Math.min(end + 1, tokens.length);
+    // Always leave a first name when there are at least two words
+    if (end === tokens.length && tokens.length > 1) end = tokens.length - 1;
+    return { lastName: tokens.slice(0, end).join(' '), firstName: tokens.slice(end).join(' ') };
+};
+
+const findLegalForm = (normalized: string): string => {
+    const match = LEGAL_FORMS.find(f => f.pattern.test(normalized));
+    return match ? match.label : '';
+};
+
+export const parseOwnerName = (raw: any, fiscalCode: string = ''): ParsedOwnerName => {
+    const text = typeof raw === 'string' ? raw : '';
+    let s = collapse(stripPlaceholders(text));
+    let parentage = '';
+    let right = '';
+
+    // Birth clause: "nato a ROMA il ...", "nata a", "nato/a a", "nato il 01/01/1950"
+    s = s.split(/\s+nat[oa](?:\/a)?\s+(?:a|il)\s+/i)[0];
+
+    // Semicolon: the register puts parentage or notes after it ("; DI ANTONIO", ";FU LUIGI")
+    const [beforeSemicolon, ...afterSemicolon] = s.split(';');
+    s = beforeSemicolon;
+    const note = collapse(afterSemicolon.join(';'));
+    const noteParentage = note.match(/^(?:FU|DI)\s+(.+)$/i);
+    if (noteParentage) {
+        parentage = collapse(noteParentage[1].split(RIGHT_PATTERN)[0]);
+    }
+    const noteRight = note.match(RIGHT_PATTERN);
+    if (noteRight && noteRight.index !== undefined) right = collapse(note.substring(noteRight.index).replace(/[()]/g, ''));
+
+    // Right held: "PROPRIETA' PER 1/2", "(USUFRUTTUARIO)", "nuda proprietà per 1000/1000"
+    s = collapse(s);
+    const rightMatch = fold(s).match(RIGHT_PATTERN);
+    if (rightMatch && rightMatch.index !== undefined && rightMatch.index > 0) {
+        right = right || collapse(s.substring(rightMatch.index).replace(/[()]/g, ''));
+        s = collapse(s.substring(0, rightMatch.index));
+    }
+
+    const normalized = fold(s);
+    const legalForm = findLegalForm(normalized);
+    const entityType: OwnerEntityType = PUBLIC_BODY_PATTERN.test(normalized) ? 'public-body' : legalForm ? 'company' : 'person';
+
+    if (entityType !== 'person') {
+        let display = toTitleCase(s);
+        if (legalForm) {
+            const form = LEGAL_FORMS.find(f => f.label === legalForm) as { label: string, pattern: RegExp };
+            const m = normalized.match(form.pattern);
+            if (m && m.index !== undefined) {
+                display = collapse(`${toTitleCase(s.substring(0, m.index))} ${legalForm} ${toTitleCase(s.substring(m.index + m[0].length))}`);
+            }
+        }
+        return { raw: text, name: s, entityType, firstName: '', lastName: s, displayName: display, legalForm, parentage, right };
+    }
+
+    // Parentage after the name: "ROSSI MARIO FU GIUSEPPE", "ROSSI MARIO DI GIUSEPPE" (only with surname and first name before it)
+    let tokens = s.split(' ').filter(Boolean);
+    const fuIndex = tokens.findIndex((t, i) => i >= 2 && fold(t) === 'FU');
+    const diIndex = tokens.length >= 4 && fold(tokens[tokens.length - 2]) === 'DI' ? tokens.length - 2 : -1;
+    const parentIndex = fuIndex >= 0 ? fuIndex : diIndex;
+    if (parentIndex >= 2) {
+        parentage = parentage || tokens.slice(parentIndex + 1).join(' ');
+        tokens = tokens.slice(0, parentIndex);
+    }
+    const name = tokens.join(' ');
+
+    const split = tokens.length <= 1
+        ? { lastName: name, firstName: '' }
+        : splitByFiscalCode(tokens, fiscalCode) || splitSurnameFirst(tokens);
+    const displayName = collapse(`${toTitleCase(split.firstName)} ${toTitleCase(split.lastName)}`);
+    return { raw: text, name, entityType, firstName: split.firstName, lastName: split.lastName, displayName, legalForm: '', parentage, right };
+};
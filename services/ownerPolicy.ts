@@ -0,0 +1,207 @@
+// --- Owner Selection Policies ---
+// The rules processOwnersForLand applies to pick the owners of a parcel and its main owner, as named, ordered,
+// individually toggled steps. A policy is plain data so it can be saved as a preset and sent to the worker.
+//
+// Three stages, each applied in policy order:
+//   filter      drops owners before the main owner is chosen
+//   main-owner  criteria compared in order to rank the remaining owners; the first row still wins a full tie
+//   name-source where the main owner's first/last name come from; the first enabled source with a name wins
+
+export type OwnerRuleStage = 'filter' | 'main-owner' | 'name-source';
+
+export type OwnerRuleId =
+    | 'exclude-public-entities'
+    | 'corporate-priority'
+    | 'individual-priority'
+    | 'ownership-right'
+    | 'highest-quota'
+    | 'has-pec'
+    | 'split-name'
+    | 'full-name';
+
+export interface OwnerRuleDefinition {
+    id: OwnerRuleId;
+    stage: OwnerRuleStage;
+    name: string;
+    description: string;
+}
+
+export interface OwnerPolicyRule {
+    id: OwnerRuleId;
+    enabled: boolean;
+}
+
+export interface OwnerPolicy {
+    id: string;
+    name: string;
+    description: string;
+    rules: OwnerPolicyRule[];   // Every rule exactly once, in the order they are applied
+    builtIn?: boolean;
+}
+
+export const OWNER_RULES: OwnerRuleDefinition[] = [
+    {
+        id: 'exclude-public-entities',
+        stage: 'filter',
+        name: 'Exclude public entities',
+        description: 'Drop owners whose fiscal code is numeric and starts with 8 or 9 (public and non-commercial entities)',
+    },
+    {
+        id: 'corporate-priority',
+        stage: 'filter',
+        name: 'Corporate Priority',
+        description: 'Drop individual owners when the parcel has a company owner (numeric fiscal code)',
+    },
+    {
+        id: 'individual-priority',
+        stage: 'filter',
+        name: 'Individual Priority',
+        description: 'Drop company owners when the parcel has an individual owner (alphanumeric fiscal code)',
+    },
+    {
+        id: 'ownership-right',
+        stage: 'main-owner',
+        name: 'Full or bare ownership',
+        description: 'Prefer an owner holding full or bare ownership (or no stated right) over usufruct, surface or other rights',
+    },
+    {
+        id: 'highest-quota',
+        stage: 'main-owner',
+        name: 'Highest quota',
+        description: 'Main owner is the owner with the highest Owners_Normalized quota',
+    },
+    {
+        id: 'has-pec',
+        stage: 'main-owner',
+        name: 'Owner with a PEC',
+        description: 'Prefer an owner with a PEC address',
+    },
+    {
+        id: 'split-name',
+        stage: 'name-source',
+        name: 'nome/cognome',
+        description: 'First and last name from the All_Raw_Data nome/cognome columns',
+    },
+    {
+        id: 'full-name',
+        stage: 'name-source',
+        name: 'Full name',
+        description: 'owner_name/denominazione_owner parsed: people split into first and last name, companies kept whole as last name',
+    },
+];
+
+export const OWNER_RULE_STAGE_LABELS: { [key in OwnerRuleStage]: string } = {
+    'filter': 'Filter',
+    'main-owner': 'Main owner',
+    'name-source': 'Name source',
+};
+
+export const DEFAULT_OWNER_POLICY_ID = 'standard';
+
+const rules = (order: OwnerRuleId[], enabled: OwnerRuleId[]): OwnerPolicyRule[] => {
+    return order.map(id => ({ id, enabled: enabled.includes(id) }));
+};
+
+export const OWNER_POLICIES: OwnerPolicy[] = [
+    {
+        id: DEFAULT_OWNER_POLICY_ID,
+        name: 'Standard (Corporate Priority)',
+        description: 'Companies before individuals, owners before usufructuaries, main owner by highest quota, nome/cognome before the full name',
+        builtIn: true,
+        rules: rules(
+            ['exclude-public-entities', 'corporate-priority', 'individual-priority', 'ownership-right', 'highest-quota', 'has-pec', 'split-name', 'full-name'],
+            ['corporate-priority', 'ownership-right', 'highest-quota', 'split-name', 'full-name'],
+        ),
+    },
+    {
+        id: 'standard-pec',
+        name: 'Standard, PEC breaks ties',
+        description: 'As Standard; between owners with the same quota, one with a PEC becomes the main owner',
+        builtIn: true,
+        rules: rules(
+            ['exclude-public-entities', 'corporate-priority', 'individual-priority', 'ownership-right', 'highest-quota', 'has-pec', 'split-name', 'full-name'],
+            ['corporate-priority', 'ownership-right', 'highest-quota', 'has-pec', 'split-name', 'full-name'],
+        ),
+    },
+    {
+        id: 'private-individuals',
+        name: 'Private individuals first',
+        description: 'Public entities excluded, individuals before companies, PEC breaks quota ties',
+        builtIn: true,
+        rules: rules(
+            ['exclude-public-entities', 'individual-priority', 'corporate-priority', 'ownership-right', 'highest-quota', 'has-pec', 'split-name', 'full-name'],
+            ['exclude-public-entities', 'individual-priority', 'ownership-right', 'highest-quota', 'has-pec', 'split-name', 'full-name'],
+        ),
+    },
+];
+
+export const DEFAULT_OWNER_POLICY = OWNER_POLICIES[0];
+
+export const getOwnerRule = (id: OwnerRuleId): OwnerRuleDefinition | undefined => OWNER_RULES.find(r => r.id === id);
+
+// Enabled rules of one stage, in policy order
+export const enabledRules = (policy: OwnerPolicy, stage: OwnerRuleStage): OwnerRuleId[] => {
+    return policy.rules.filter(r => r.enabled && getOwnerRule(r.id)?.stage === stage).map(r => r.id);
+};
+
+// "Corporate Priority > Highest quota > nome/cognome > Full name"
+export const describeRules = (policy: OwnerPolicy): string => {
+    const active = policy.rules.filter(r => r.enabled).map(r => getOwnerRule(r.id)?.name || r.id);
+    return active.length > 0 ? active.join(' > ') : 'no rules enabled';
+};
+
+export const describePolicy = (policy: OwnerPolicy): string => `${policy.name}: ${describeRules(policy)}`;
+
+// Stored policies may predate a rule or come from a hand-edited file: drop unknown rules, append missing ones disabled
+export const normalizePolicy = (policy: OwnerPolicy): OwnerPolicy => {
+    const seen = new Set<OwnerRuleId>();
+    const known = (policy.rules || []).filter(r => {
+        if (!getOwnerRule(r.id) || seen.has(r.id)) return false;
+        seen.add(r.id);
+        return true;
+    }).map(r => ({ id: r.id, enabled: Boolean(r.enabled) }));
+    const missing = OWNER_RULES.filter(r => !seen.has(r.id)).map(r => ({ id: r.id, enabled: false }));
+    return { id: String(policy.id), name: String(policy.name || policy.id), description: String(policy.description || ''), rules: [...known, ...missing] };
+};
+
+// Custom presets are kept as JSON (browser localStorage); anything unreadable is ignored
+export const parseStoredPolicies = (json: string | null): OwnerPolicy[] => {
+    if (!json) return [];
+    try {
+        const parsed = JSON.parse(json);
+        if (!Array.isArray(parsed)) return [];
+        return parsed
+            .filter(p => p && typeof p.id === 'string' && Array.isArray(p.rules))
+            .filter(p => !OWNER_POLICIES.some(b => b.id === p.id))
+            .map(normalizePolicy);
+    } catch {
+        return [];
+    }
+};
+
+// Save the rules of `policy` as a custom preset; a custom preset with the same name (case-insensitive) is overwritten
+export const savePolicyPreset = (customPolicies: OwnerPolicy[], policy: OwnerPolicy, name: string): { policies: OwnerPolicy[], saved: OwnerPolicy } => {
+    const existing = customPolicies.find(p => p.name.trim().toLowerCase() === name.trim().toLowerCase());
+    const saved: OwnerPolicy = {
+        id: existing ? existing.id : `custom-${Date.now().toString(36)}`,
+        name: name.trim(),
+        description: `Custom preset: ${describeRules(policy)}`,
+        rules: policy.rules.map(r => ({ ...r })),
+    };
+    const policies = existing ? customPolicies.map(p => (p.id === existing.id ? saved : p)) : [...customPolicies, saved];
+    return { policies, saved };
+};
+
+// Move a rule one place up (-1) or down (+1)
+export const moveRule = (policy: OwnerPolicy, id: OwnerRuleId, direction: -1 | 1): OwnerPolicy => {
+    const index = policy.rules.findIndex(r => r.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= policy.rules.length) return policy;
+    const next = [...policy.rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    return { ...policy, rules: next };
+};
+
+export const toggleRule = (policy: OwnerPolicy, id: OwnerRuleId): OwnerPolicy => {
+    return { ...policy, rules: policy.rules.map(r => (r.id === id ? { ...r, enabled: !r.enabled } : r)) };
+};
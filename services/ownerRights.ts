@@ -0,0 +1,50 @@
+// --- Ownership Rights ---
+// Cadastral owners do not all hold the same right: next to full ownership (proprietà) there is bare ownership
+// (nuda proprietà), usufruct (usufrutto), surface rights (superficie) and emphyteusis (enfiteusi / livello).
+// Each right carries its own quota, so a usufructuary and a bare owner can both show "1/1" on the same parcel.
+// The right comes from an Owners_Normalized "diritto" column when the provider delivers one, otherwise from the
+// text after the owner's name ("ROSSI MARIO PROPRIETA' PER 1/2", "BIANCHI LUIGIA (USUFRUTTUARIO)").
+
+import { parseOwnerName } from './ownerName';
+
+export type OwnershipRight = 'full' | 'bare' | 'usufruct' | 'surface' | 'emphyteusis' | 'other' | 'unknown';
+
+export const OWNERSHIP_RIGHT_LABELS: { [key in OwnershipRight]: string } = {
+    'full': 'Full ownership',
+    'bare': 'Bare ownership',
+    'usufruct': 'Usufruct',
+    'surface': 'Surface right',
+    'emphyteusis': 'Emphyteusis',
+    'other': 'Other right',
+    'unknown': '',
+};
+
+// Checked in order: "proprietà superficiaria" is a surface right, not full ownership
+const RIGHT_PATTERNS: { right: OwnershipRight, pattern: RegExp }[] = [
+    { right: 'bare', pattern: /\bNUD[AO]\s*PROPR|\bBARE\s+OWNER/ },
+    { right: 'surface', pattern: /\bSUPERFICI|\bSURFACE/ },
+    { right: 'usufruct', pattern: /\bUSUFR|\bUSUFRUCT/ },
+    { right: 'emphyteusis', pattern: /\bENFITEU|\bLIVELL|\bEMPHYTEU/ },
+    { right: 'full', pattern: /\b(?:COM)?PROPR|\bOWNERSHIP\b|\bOWNER\b|\bFREEHOLD\b/ },
+    { right: 'other', pattern: /\bDIRITTO\b|\bUSO\b|\bABITAZIONE\b|\bSERVITU|\bONERI\b|\bCONCEDENTE\b|\bRIGHT\b/ },
+];
+
+// "nuda proprietà per 1/2" -> 'bare'; anything not recognised as a right -> 'unknown'
+export const parseOwnershipRight = (text: any): OwnershipRight => {
+    const s = String(text ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase();
+    if (!s.trim()) return 'unknown';
+    const match = RIGHT_PATTERNS.find(p => p.pattern.test(s));
+    return match ? match.right : 'unknown';
+};
+
+// Right of an Owners_Normalized (owner_name) or All_Raw_Data (denominazione_owner) row: the diritto column first,
+// then the right written after the name
+export const ownerRight = (row: any): OwnershipRight => {
+    const fromColumn = parseOwnershipRight(row?.diritto);
+    if (fromColumn !== 'unknown') return fromColumn;
+    return parseOwnershipRight(parseOwnerName(row?.owner_name || row?.denominazione_owner || '').right);
+};
+
+// Rights that make up the ownership of the parcel; an owner without a stated right is taken to be an owner.
+// Their quotas add up to 1, while usufruct, surface rights and emphyteusis carry quotas of their own.
+export const isOwnershipRight = (right: OwnershipRight): boolean => right === 'full' || right === 'bare' || right === 'unknown';
@@ -0,0 +1,25 @@
+// --- Owners (Contacts) Dataset ---
+// One row per owner per parcel, built from the same filtered Owners_Normalized / All_Raw_Data rows that
+// processOwnersForLand uses, so Salesforce can create Contact-to-Land junction records for every co-owner
+// instead of relying on the truncated "All Owners" string.
+
+export interface OwnerContact {
+    'Land External ID': string;
+    'Parcel_ID': string;
+    'First Name': string;
+    'Last Name': string;
+    'Fiscal Code': string;
+    'Fiscal Code Status': string;
+    'Quota': string;
+    'Ownership Right': string;   // "Bare ownership", "Usufruct", ... ('' when no right is stated)
+    'Email': string;             // PEC from All_Companies_Found
+    'Is Company': 'True' | 'False';
+    'Is Main Owner': 'True' | 'False';
+}
+
+// Owners of the parcels in a Carga (matched on Land External ID)
+export const ownersForRows = (owners: OwnerContact[] | undefined, csvRows: any[]): OwnerContact[] => {
+    if (!owners) return [];
+    const ids = new Set(csvRows.map(r => r['Land External ID']));
+    return owners.filter(o => ids.has(o['Land External ID']));
+};
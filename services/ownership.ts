@@ -0,0 +1,78 @@
+// --- Quota Consistency & Over-Ownership Resolution ---
+// Sums the Owners_Normalized quotas of a parcel and resolves duplicate owner rows (same CF listed twice)
+// that push the total above 1. Only ownership rights count toward the total (see isOwnershipRight).
+
+import { normalizeFiscalCode } from './fiscalCode';
+import { isOwnershipRight } from './ownerRights';
+import type { OwnershipRight } from './ownerRights';
+
+export type OwnershipStatus = 'ok' | 'over' | 'under' | 'no-quota';
+
+export const OWNERSHIP_STATUS_LABELS: { [key in OwnershipStatus]: string } = {
+    'ok': 'OK',
+    'over': 'Over 100%',
+    'under': 'Under 100%',
+    'no-quota': 'No Quota',
+};
+
+// Tolerance when checking that quotas add up to 1 (fractions like 1/3 are not exact in floating point)
+export const QUOTA_TOLERANCE = 0.001;
+
+export interface OwnershipResult {
+    rows: any[];            // Owners_Normalized rows left after resolution, in their original order
+    duplicates: any[];      // Rows dropped as duplicates of an owner already counted
+    total: number;
+    status: OwnershipStatus;
+    resolved: boolean;      // Duplicates were dropped and the total is now within tolerance
+}
+
+export const ownershipStatus = (total: number, rowCount: number): OwnershipStatus => {
+    if (rowCount === 0 || total === 0) return 'no-quota';
+    if (total > 1 + QUOTA_TOLERANCE) return 'over';
+    if (total < 1 - QUOTA_TOLERANCE) return 'under';
+    return 'ok';
+};
+
+// Round for display so 1/3 + 1/3 + 1/3 shows as 1 rather than 0.9999999999999999
+export const roundQuota = (q: number): number => Number(q.toFixed(4));
+
+// Only an inflated total is resolved: a CF listed twice with a total of 1 or less may hold two different rights.
+// For each duplicated CF and right the row with the highest quota is kept (first row wins ties). A usufructuary
+// and a bare owner both at 1/1 are not over-ownership: usufruct and other limited rights are left out of the
+// total, unless the parcel has no ownership rows at all.
+export const resolveOwnership = (rows: any[], parseQuota: (q: any) => number, rightOf: (r: any) => OwnershipRight = () => 'unknown'): OwnershipResult => {
+    const sum = (list: any[]) => {
+        const owned = list.filter(r => isOwnershipRight(rightOf(r)));
+        return (owned.length > 0 ? owned : list).reduce((acc, r) => acc + parseQuota(r.quota), 0);
+    };
+    const total = sum(rows);
+
+    if (total <= 1 + QUOTA_TOLERANCE) {
+        return { rows, duplicates: [], total, status: ownershipStatus(total, rows.length), resolved: false };
+    }
+
+    const keyOf = (r: any): string => {
+        const cf = normalizeFiscalCode(r.owner_cf);
+        return cf ? `${cf}|${rightOf(r)}` : '';
+    };
+    const keepByCf = new Map<string, any>();
+    rows.forEach(r => {
+        const key = keyOf(r);
+        if (!key) return;
+        const kept = keepByCf.get(key);
+        if (!kept || parseQuota(r.quota) > parseQuota(kept.quota)) keepByCf.set(key, r);
+    });
+
+    const kept = rows.filter(r => {
+        const key = keyOf(r);
+        return !key || keepByCf.get(key) === r;
+    });
+    const duplicates = rows.filter(r => !kept.includes(r));
+    if (duplicates.length === 0) {
+        return { rows, duplicates, total, status: 'over', resolved: false };
+    }
+
+    const resolvedTotal = sum(kept);
+    const status = ownershipStatus(resolvedTotal, kept.length);
+    return { rows: kept, duplicates, total: resolvedTotal, status, resolved: status === 'ok' };
+};
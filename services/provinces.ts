@@ -0,0 +1,242 @@
+// --- Provinces ---
+// Versioned list of Italian provinces and equivalent entities (metropolitan cities, autonomous provinces, Sicilian
+// free consortia) with the names Salesforce expects in the Land Province picklist. Entities that no longer exist keep
+// their validity dates and successor codes, so old codes in Input files map to the current picklist value.
+
+import { findMunicipalities, ISTAT_REGISTRY_DATE } from './istatRegistry';
+
+export type ProvinceKind = 'province' | 'metropolitan-city' | 'autonomous-province' | 'free-consortium';
+
+export interface ProvinceRecord {
+    name: string;             // Salesforce picklist value
+    code: string;             // Sigla; may be reused by a later entity (e.g. SU, OT)
+    region: string;
+    kind: ProvinceKind;
+    validFrom?: string;       // ISO date, inclusive; open-ended when missing
+    validTo?: string;         // ISO date, exclusive
+    successors?: string[];    // Codes that took over the territory, preferred first
+    aliases?: string[];       // Other spellings seen in Input files
+}
+
+// Sardinia: regional laws abolished Carbonia-Iglesias, Medio Campidano, Ogliastra and Olbia-Tempio in favour of
+// Sud Sardegna (2016), then replaced Sud Sardegna with Sulcis Iglesiente, Medio Campidano, Ogliastra and Gallura
+// Nord-Est Sardegna and made Sassari a metropolitan city (2025). Gallura and Ogliastra took their comuni from Sassari and
+// Nuoro; the metropolitan city of Cagliari kept its code but took in part of Sud Sardegna. Dates are the start of the
+// year the change took effect.
+const SARDINIA_2025 = '2025-01-01';
+
+export const PROVINCES: ProvinceRecord[] = [
+    { name: "Agrigento", code: "AG", region: "Sicilia", kind: 'free-consortium' },
+    { name: "Alessandria", code: "AL", region: "Piemonte", kind: 'province' },
+    { name: "Ancona", code: "AN", region: "Marche", kind: 'province' },
+    { name: "Aosta", code: "AO", region: "Valle d'Aosta", kind: 'province', aliases: ["Aosta/Aoste", "Aoste"] },
+    { name: "Arezzo", code: "AR", region: "Toscana", kind: 'province' },
+    { name: "Ascoli Piceno", code: "AP", region: "Marche", kind: 'province' },
+    { name: "Asti", code: "AT", region: "Piemonte", kind: 'province' },
+    { name: "Avellino", code: "AV", region: "Campania", kind: 'province' },
+    { name: "Bari", code: "BA", region: "Puglia", kind: 'metropolitan-city' },
+    { name: "Barletta-Andria-Trani", code: "BT", region: "Puglia", kind: 'province' },
+    { name: "Belluno", code: "BL", region: "Veneto", kind: 'province' },
+    { name: "Benevento", code: "BN", region: "Campania", kind: 'province' },
+    { name: "Bergamo", code: "BG", region: "Lombardia", kind: 'province' },
+    { name: "Biella", code: "BI", region: "Piemonte", kind: 'province' },
+    { name: "Bologna", code: "BO", region: "Emilia-Romagna", kind: 'metropolitan-city' },
+    { name: "Bolzano", code: "BZ", region: "Trentino-Alto Adige", kind: 'autonomous-province', aliases: ["Bolzano/Bozen", "Bozen"] },
+    { name: "Brescia", code: "BS", region: "Lombardia", kind: 'province' },
+    { name: "Brindisi", code: "BR", region: "Puglia", kind: 'province' },
+    { name: "Cagliari", code: "CA", region: "Sardegna", kind: 'metropolitan-city' },
+    { name: "Caltanissetta", code: "CL", region: "Sicilia", kind: 'free-consortium' },
+    { name: "Campobasso", code: "CB", region: "Molise", kind: 'province' },
+    { name: "Carbonia-Iglesias", code: "CI", region: "Sardegna", kind: 'province', validFrom: '2005-01-01', validTo: '2016-01-01', successors: ['SU'] },
+    { name: "Caserta", code: "CE", region: "Campania", kind: 'province' },
+    { name: "Catania", code: "CT", region: "Sicilia", kind: 'metropolitan-city' },
+    { name: "Catanzaro", code: "CZ", region: "Calabria", kind: 'province' },
+    { name: "Chieti", code: "CH", region: "Abruzzo", kind: 'province' },
+    { name: "Como", code: "CO", region: "Lombardia", kind: 'province' },
+    { name: "Cosenza", code: "CS", region: "Calabria", kind: 'province' },
+    { name: "Cremona", code: "CR", region: "Lombardia", kind: 'province' },
+    { name: "Crotone", code: "KR", region: "Calabria", kind: 'province' },
+    { name: "Cuneo", code: "CN", region: "Piemonte", kind: 'province' },
+    { name: "Enna", code: "EN", region: "Sicilia", kind: 'free-consortium' },
+    { name: "Fermo", code: "FM", region: "Marche", kind: 'province' },
+    { name: "Ferrara", code: "FE", region: "Emilia-Romagna", kind: 'province' },
+    { name: "Firenze", code: "FI", region: "Toscana", kind: 'metropolitan-city' },
+    { name: "Foggia", code: "FG", region: "Puglia", kind: 'province' },
+    { name: "Forlì-Cesena", code: "FC", region: "Emilia-Romagna", kind: 'province' },
+    { name: "Frosinone", code: "FR", region: "Lazio", kind: 'province' },
+    { name: "Genova", code: "GE", region: "Liguria", kind: 'metropolitan-city' },
+    { name: "Gorizia", code: "GO", region: "Friuli-Venezia Giulia", kind: 'province' },
+    { name: "Grosseto", code: "GR", region: "Toscana", kind: 'province' },
+    { name: "Imperia", code: "IM", region: "Liguria", kind: 'province' },
+    { name: "Isernia", code: "IS", region: "Molise", kind: 'province' },
+    { name: "La Spezia", code: "SP", region: "Liguria", kind: 'province' },
+    { name: "L'Aquila", code: "AQ", region: "Abruzzo", kind: 'province' },
+    { name: "Latina", code: "LT", region: "Lazio", kind: 'province' },
+    { name: "Lecce", code: "LE", region: "Puglia", kind: 'province' },
+    { name: "Lecco", code: "LC", region: "Lombardia", kind: 'province' },
+    { name: "Livorno", code: "LI", region: "Toscana", kind: 'province' },
+    { name: "Lodi", code: "LO", region: "Lombardia", kind: 'province' },
+    { name: "Lucca", code: "LU", region: "Toscana", kind: 'province' },
+    { name: "Macerata", code: "MC", region: "Marche", kind: 'province' },
+    { name: "Mantova", code: "MN", region: "Lombardia", kind: 'province' },
+    { name: "Massa-Carrara", code: "MS", region: "Toscana", kind: 'province' },
+    { name: "Matera", code: "MT", region: "Basilicata", kind: 'province' },
+    { name: "Medio Campidano", code: "VS", region: "Sardegna", kind: 'province', validFrom: '2005-01-01', validTo: '2016-01-01', successors: ['VS', 'SU'] },
+    { name: "Messina", code: "ME", region: "Sicilia", kind: 'metropolitan-city' },
+    { name: "Milano", code: "MI", region: "Lombardia", kind: 'metropolitan-city' },
+    { name: "Modena", code: "MO", region: "Emilia-Romagna", kind: 'province' },
+    { name: "Monza e della Brianza", code: "MB", region: "Lombardia", kind: 'province', aliases: ["Monza e Brianza"] },
+    { name: "Napoli", code: "NA", region: "Campania", kind: 'metropolitan-city' },
+    { name: "Novara", code: "NO", region: "Piemonte", kind: 'province' },
+    { name: "Nuoro", code: "NU", region: "Sardegna", kind: 'province', validTo: SARDINIA_2025, successors: ['NU', 'OG'] },
+    { name: "Nuoro", code: "NU", region: "Sardegna", kind: 'province', validFrom: SARDINIA_2025 },
+    { name: "Ogliastra", code: "OG", region: "Sardegna", kind: 'province', validFrom: '2005-01-01', validTo: '2016-01-01', successors: ['OG', 'NU'] },
+    { name: "Olbia-Tempio", code: "OT", region: "Sardegna", kind: 'province', validFrom: '2005-01-01', validTo: '2016-01-01', successors: ['OT', 'SS'] },
+    { name: "Oristano", code: "OR", region: "Sardegna", kind: 'province' },
+    { name: "Padova", code: "PD", region: "Veneto", kind: 'province' },
+    { name: "Palermo", code: "PA", region: "Sicilia", kind: 'metropolitan-city' },
+    { name: "Parma", code: "PR", region: "Emilia-Romagna", kind: 'province' },
+    { name: "Pavia", code: "PV", region: "Lombardia", kind: 'province' },
+    { name: "Perugia", code: "PG", region: "Umbria", kind: 'province' },
+    { name: "Pesaro e Urbino", code: "PU", region: "Marche", kind: 'province', aliases: ["Pesaro Urbino"] },
+    { name: "Pescara", code: "PE", region: "Abruzzo", kind: 'province' },
+    { name: "Piacenza", code: "PC", region: "Emilia-Romagna", kind: 'province' },
+    { name: "Pisa", code: "PI", region: "Toscana", kind: 'province' },
+    { name: "Pistoia", code: "PT", region: "Toscana", kind: 'province' },
+    { name: "Pordenone", code: "PN", region: "Friuli-Venezia Giulia", kind: 'province' },
+    { name: "Potenza", code: "PZ", region: "Basilicata", kind: 'province' },
+    { name: "Prato", code: "PO", region: "Toscana", kind: 'province' },
+    { name: "Ragusa", code: "RG", region: "Sicilia", kind: 'free-consortium' },
+    { name: "Ravenna", code: "RA", region: "Emilia-Romagna", kind: 'province' },
+    { name: "Reggio Calabria", code: "RC", region: "Calabria", kind: 'metropolitan-city' },
+    { name: "Reggio Emilia", code: "RE", region: "Emilia-Romagna", kind: 'province', aliases: ["Reggio nell'Emilia"] },
+    { name: "Rieti", code: "RI", region: "Lazio", kind: 'province' },
+    { name: "Rimini", code: "RN", region: "Emilia-Romagna", kind: 'province' },
+    { name: "Roma", code: "RM", region: "Lazio", kind: 'metropolitan-city' },
+    { name: "Rovigo", code: "RO", region: "Veneto", kind: 'province' },
+    { name: "Salerno", code: "SA", region: "Campania", kind: 'province' },
+    { name: "Sassari", code: "SS", region: "Sardegna", kind: 'province', validTo: SARDINIA_2025, successors: ['SS', 'OT'] },
+    { name: "Sassari", code: "SS", region: "Sardegna", kind: 'metropolitan-city', validFrom: SARDINIA_2025 },
+    { name: "Savona", code: "SV", region: "Liguria", kind: 'province' },
+    { name: "Siena", code: "SI", region: "Toscana", kind: 'province' },
+    { name: "Siracusa", code: "SR", region: "Sicilia", kind: 'free-consortium' },
+    { name: "Sondrio", code: "SO", region: "Lombardia", kind: 'province' },
+    { name: "Taranto", code: "TA", region: "Puglia", kind: 'province' },
+    { name: "Teramo", code: "TE", region: "Abruzzo", kind: 'province' },
+    { name: "Terni", code: "TR", region: "Umbria", kind: 'province' },
+    { name: "Torino", code: "TO", region: "Piemonte", kind: 'metropolitan-city' },
+    { name: "Trapani", code: "TP", region: "Sicilia", kind: 'free-consortium' },
+    { name: "Trento", code: "TN", region: "Trentino-Alto Adige", kind: 'autonomous-province' },
+    { name: "Treviso", code: "TV", region: "Veneto", kind: 'province' },
+    { name: "Trieste", code: "TS", region: "Friuli-Venezia Giulia", kind: 'province' },
+    { name: "Udine", code: "UD", region: "Friuli-Venezia Giulia", kind: 'province' },
+    { name: "Varese", code: "VA", region: "Lombardia", kind: 'province' },
+    { name: "Venezia", code: "VE", region: "Veneto", kind: 'metropolitan-city' },
+    { name: "Verbano-Cusio-Ossola", code: "VB", region: "Piemonte", kind: 'province' },
+    { name: "Vercelli", code: "VC", region: "Piemonte", kind: 'province' },
+    { name: "Verona", code: "VR", region: "Veneto", kind: 'province' },
+    { name: "Vibo Valentia", code: "VV", region: "Calabria", kind: 'province' },
+    { name: "Vicenza", code: "VI", region: "Veneto", kind: 'province' },
+    { name: "Viterbo", code: "VT", region: "Lazio", kind: 'province' },
+    // Sardinia 2016-2025 and from 2025 (see SARDINIA_2025)
+    { name: "Sud Sardegna", code: "SU", region: "Sardegna", kind: 'province', validFrom: '2016-01-01', validTo: SARDINIA_2025, successors: ['SU', 'VS', 'CA'] },
+    { name: "Gallura Nord-Est Sardegna", code: "OT", region: "Sardegna", kind: 'province', validFrom: SARDINIA_2025, aliases: ["Gallura", "Nord-Est Sardegna"] },
+    { name: "Medio Campidano", code: "VS", region: "Sardegna", kind: 'province', validFrom: SARDINIA_2025 },
+    { name: "Ogliastra", code: "OG", region: "Sardegna", kind: 'province', validFrom: SARDINIA_2025 },
+    { name: "Sulcis Iglesiente", code: "SU", region: "Sardegna", kind: 'province', validFrom: SARDINIA_2025 },
+];
+
+// Uppercase without accents, hyphens or an administrative prefix: "Città metropolitana di Milano" -> "MILANO"
+export const provinceKey = (input: any): string => {
+    return String(input ?? '')
+        .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+        .toUpperCase()
+        .replace(/-/g, ' ')
+        .replace(/^(CITTA METROPOLITANA|PROVINCIA AUTONOMA|PROVINCIA|LIBERO CONSORZIO COMUNALE) (DI |DEL |DELLA |DELL'|DEI )?/, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+};
+
+const PROVINCE_INDEX = new Map<string, ProvinceRecord[]>();
+PROVINCES.forEach(p => {
+    [p.name, p.code, ...(p.aliases || [])].forEach(n => {
+        const key = provinceKey(n);
+        const list = PROVINCE_INDEX.get(key) || [];
+        list.push(p);
+        PROVINCE_INDEX.set(key, list);
+    });
+});
+
+const isoDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const isProvinceValidOn = (p: ProvinceRecord, date: Date = new Date()): boolean => {
+    const d = isoDate(date);
+    return (!p.validFrom || p.validFrom <= d) && (!p.validTo || d < p.validTo);
+};
+
+const validByCode = (code: string, date: Date): ProvinceRecord | undefined => {
+    return (PROVINCE_INDEX.get(provinceKey(code)) || []).find(p => p.code === code && isProvinceValidOn(p, date));
+};
+
+// Entities valid on `date` that hold the territory of the entity with `code` on `since`: the entity itself while it
+// lasts, else its successors (Sud Sardegna in 2020 -> Sulcis Iglesiente, Medio Campidano and Cagliari in 2025)
+const provincesHolding = (code: string, since: Date, date: Date): ProvinceRecord[] => {
+    const entity = validByCode(code, since);
+    if (!entity) return [validByCode(code, date)].filter((p): p is ProvinceRecord => Boolean(p));
+    if (isProvinceValidOn(entity, date)) return [entity];
+    return (entity.successors || [entity.code])
+        .map(c => validByCode(c, date))
+        .filter((p): p is ProvinceRecord => Boolean(p));
+};
+
+// True when a comune the ISTAT registry files under `registryCode` can be in the province `code` on `date`. The registry
+// uses the codes in force on its own date, so a 2020 list has Sanluri in SU (Sud Sardegna), which matches SU, VS and CA
+// in 2025. Codes not in the province list only match themselves.
+export const registryProvinceMatches = (registryCode: string, code: string, date: Date = new Date()): boolean => {
+    if (registryCode === code) return true;
+    return provincesHolding(registryCode, ISTAT_REGISTRY_DATE, date).some(p => p.code === code);
+};
+
+export interface ProvinceResolution {
+    province: ProvinceRecord;          // Entity valid on the reference date
+    retired: ProvinceRecord | null;    // The abolished entity the input named, when it had to be mapped
+    ambiguous: ProvinceRecord[];       // Entities the comune could belong to when it did not settle the choice; the first was taken
+}
+
+// Resolve a province name or code to the entity valid on `date`. A retired entity is mapped to the first of its
+// successors that is valid on that date, or to the one that holds the comune when several are (Sud Sardegna).
+// The comune's province in the ISTAT registry is read as of the registry's date: an older list files every Sud Sardegna
+// comune under SU, a code Sulcis Iglesiente took over later, so such a comune does not settle the choice.
+// A code or name that a current entity took over from an abolished one (SU, OT) could mean either: the comune decides,
+// else the current entity is taken and the candidates are returned as ambiguous.
+export const resolveProvince = (input: any, date: Date = new Date(), municipality?: any): ProvinceResolution | null => {
+    const matches = PROVINCE_INDEX.get(provinceKey(input)) || [];
+    if (matches.length === 0) return null;
+    const holders = municipality ? findMunicipalities(municipality).flatMap(m => provincesHolding(m.province, ISTAT_REGISTRY_DATE, date)) : [];
+    const successorsOf = (retired: ProvinceRecord) => (retired.successors || [retired.code])
+        .map(code => validByCode(code, date))
+        .filter((p): p is ProvinceRecord => Boolean(p));
+
+    const current = matches.find(p => isProvinceValidOn(p, date));
+    if (current) {
+        // Entities restored under their old name (Nuoro, Medio Campidano) are the same province, not a reuse
+        const reused = matches.filter(p => p.name !== current.name && p.validTo && p.validTo <= isoDate(date));
+        if (reused.length === 0) return { province: current, retired: null, ambiguous: [] };
+        const candidates = [current, ...reused.flatMap(successorsOf)].filter((p, i, all) => all.indexOf(p) === i);
+        const held = candidates.filter(p => holders.includes(p));
+        const chosen = held.length > 0 ? held : candidates;
+        const province = chosen[0];
+        const retired = province === current ? null : reused.find(r => successorsOf(r).includes(province)) || null;
+        return { province, retired, ambiguous: chosen.length > 1 ? chosen : [] };
+    }
+
+    // Most recently abolished first
+    const retired = [...matches].sort((a, b) => String(b.validTo).localeCompare(String(a.validTo)))[0];
+    const successors = successorsOf(retired);
+    if (successors.length === 0) return null;
+
+    const held = successors.filter(p => holders.includes(p));
+    if (held.length === 1) return { province: held[0], retired, ambiguous: [] };
+    const candidates = held.length > 1 ? held : successors;
+    return { province: candidates[0], retired, ambiguous: candidates.length > 1 ? candidates : [] };
+};
@@ -0,0 +1,238 @@
+// --- Data Quality Report ---
+// Rule-based checks over the merged Input/Results data. Unlike log lines, the issues are kept in OutputData
+// and can be downloaded as a report with per-rule counts and row references.
+
+import type { OwnerType } from './fiscalCode';
+import { QUOTA_TOLERANCE } from './ownership';
+import { ISTAT_REGISTRY_COMPLETE } from './istatRegistry';
+import type { MunicipalityCheck } from './istatRegistry';
+
+export type Severity = 'error' | 'warning' | 'info';
+
+export interface QualityIssue {
+    ruleId: string;
+    severity: Severity;
+    parcelId: string;
+    externalId: string;
+    sheet: string;
+    row: number | '';   // Excel row number (header is row 1)
+    message: string;
+}
+
+// Input sheet row, annotated by runProcess with the values the rules need
+export interface QualityInputRow {
+    row: number;
+    parcelId: string;
+    externalId: string;
+    province: string;
+    provinceKnown: boolean;
+    municipality: string;
+    registry?: MunicipalityCheck;
+    provinceRetired: boolean;    // The Input named an abolished province
+    provinceMappedTo: string;    // Current province an abolished or ambiguous one was mapped to ('' = neither)
+    provinceCandidates: string[]; // Codes the province could map to when the comune did not decide
+    foglio: any;
+    particella: any;
+    area: any;
+}
+
+// Owner row from All_Raw_Data or Owners_Normalized
+export interface QualityOwnerRow {
+    sheet: 'All_Raw_Data' | 'Owners_Normalized';
+    row: number;
+    parcelId: string;
+    cf: string;
+    ownerType: OwnerType;
+    rawName: string;
+    cleanedName: string;
+    quota?: number;
+}
+
+export interface QualityContext {
+    inputRows: QualityInputRow[];
+    ownerRows: QualityOwnerRow[];
+    pecCodes: Set<string>;
+    externalIdsByPid: Map<string, string[]>;
+}
+
+export interface QualityRule {
+    id: string;
+    severity: Severity;
+    description: string;
+    check: (ctx: QualityContext) => Omit<QualityIssue, 'ruleId' | 'severity'>[];
+}
+
+const isCadastralNumber = (val: any): boolean => /^\d+(\.0+)?$/.test(String(val ?? '').trim());
+
+const externalIdsFor = (ctx: QualityContext, pid: string): string => (ctx.externalIdsByPid.get(pid) || []).join(', ');
+
+export const QUALITY_RULES: QualityRule[] = [
+    {
+        id: 'INPUT_MISSING_AREA',
+        severity: 'warning',
+        description: 'Input row has no (or a non-numeric) cadastral area.',
+        check: (ctx) => ctx.inputRows
+            .filter(r => String(r.area ?? '').trim() === '' || isNaN(Number(String(r.area).replace(',', '.'))))
+            .map(r => ({ parcelId: r.parcelId, externalId: r.externalId, sheet: 'Input', row: r.row, message: `Area is '${r.area ?? ''}'` })),
+    },
+    {
+        id: 'INPUT_NON_NUMERIC_FOGLIO',
+        severity: 'error',
+        description: 'Foglio is not a whole number; the External ID cannot be padded reliably.',
+        check: (ctx) => ctx.inputRows
+            .filter(r => !isCadastralNumber(r.foglio))
+            .map(r => ({ parcelId: r.parcelId, externalId: r.externalId, sheet: 'Input', row: r.row, message: `Foglio is '${r.foglio ?? ''}'` })),
+    },
+    {
+        id: 'INPUT_NON_NUMERIC_PARTICELLA',
+        severity: 'error',
+        description: 'Particella is not a whole number; the External ID cannot be padded reliably.',
+        check: (ctx) => ctx.inputRows
+            .filter(r => !isCadastralNumber(r.particella))
+            .map(r => ({ parcelId: r.parcelId, externalId: r.externalId, sheet: 'Input', row: r.row, message: `Particella is '${r.particella ?? ''}'` })),
+    },
+    {
+        id: 'INPUT_UNKNOWN_PROVINCE',
+        severity: 'warning',
+        description: 'Province not found in the province list; its code was guessed from the first letters.',
+        check: (ctx) => ctx.inputRows
+            .filter(r => !r.provinceKnown)
+            .map(r => ({ parcelId: r.parcelId, externalId: r.externalId, sheet: 'Input', row: r.row, message: `Unknown province '${r.province}'` })),
+    },
+    {
+        id: 'INPUT_RETIRED_PROVINCE',
+        severity: 'warning',
+        description: 'Province has been abolished; mapped to the entity that replaced it.',
+        check: (ctx) => ctx.inputRows
+            .filter(r => r.provinceRetired)
+            .map(r => ({ parcelId: r.parcelId, externalId: r.externalId, sheet: 'Input', row: r.row, message: `'${r.province}' mapped to ${r.provinceMappedTo}` })),
+    },
+    {
+        id: 'INPUT_AMBIGUOUS_PROVINCE',
+        severity: 'warning',
+        description: 'Abolished province split between several successors, or code shared with an abolished one, and the comune does not tell which; the first was used.',
+        check: (ctx) => ctx.inputRows
+            .filter(r => r.provinceCandidates.length > 0)
+            .map(r => ({ parcelId: r.parcelId, externalId: r.externalId, sheet: 'Input', row: r.row, message: `'${r.municipality}' in '${r.province}' could be in ${r.provinceCandidates.join('/')}; mapped to ${r.provinceMappedTo}` })),
+    },
+    {
+        id: 'INPUT_PROVINCE_FROM_REGISTRY',
+        severity: 'info',
+        description: 'Province not recognised; taken from the ISTAT registry entry of the comune.',
+        check: (ctx) => ctx.inputRows
+            .filter(r => r.registry?.status === 'province-from-registry')
+            .map(r => ({ parcelId: r.parcelId, externalId: r.externalId, sheet: 'Input', row: r.row, message: `Province '${r.province}' replaced by ${r.registry!.municipality!.province} ('${r.municipality}')` })),
+    },
+    {
+        id: 'INPUT_MUNICIPALITY_CORRECTED',
+        severity: 'info',
+        description: 'Comune not found in its province; replaced by the closest ISTAT name (likely typo).',
+        check: (ctx) => ctx.inputRows
+            .filter(r => r.registry?.status === 'corrected')
+            .map(r => ({ parcelId: r.parcelId, externalId: r.externalId, sheet: 'Input', row: r.row, message: `'${r.municipality}' corrected to '${r.registry!.municipality!.name}' (similarity ${r.registry!.score})` })),
+    },
+    {
+        id: 'INPUT_MUNICIPALITY_PROVINCE_MISMATCH',
+        severity: 'warning',
+        description: 'Comune belongs to a different province in the ISTAT registry.',
+        check: (ctx) => ctx.inputRows
+            .filter(r => r.registry?.status === 'province-mismatch')
+            .map(r => ({ parcelId: r.parcelId, externalId: r.externalId, sheet: 'Input', row: r.row, message: `'${r.municipality}' is in ${r.registry!.candidates.map(m => m.province).join('/')}, not '${r.province}'` })),
+    },
+    {
+        id: 'INPUT_UNKNOWN_MUNICIPALITY',
+        severity: 'warning',
+        description: 'Comune not found in the ISTAT registry (only checked when the full registry is bundled).',
+        check: (ctx) => ISTAT_REGISTRY_COMPLETE
+            ? ctx.inputRows
+                .filter(r => r.registry?.status === 'unknown')
+                .map(r => ({ parcelId: r.parcelId, externalId: r.externalId, sheet: 'Input', row: r.row, message: `Unknown comune '${r.municipality}' in '${r.province}'` }))
+            : [],
+    },
+    {
+        id: 'OWNERS_QUOTA_SUM',
+        severity: 'warning',
+        description: 'Owners_Normalized quotas for the parcel do not add up to 1.',
+        check: (ctx) => {
+            const totals = new Map<string, { sum: number, rows: number[] }>();
+            ctx.ownerRows.filter(o => o.sheet === 'Owners_Normalized').forEach(o => {
+                const t = totals.get(o.parcelId) || { sum: 0, rows: [] };
+                t.sum += o.quota || 0;
+                t.rows.push(o.row);
+                totals.set(o.parcelId, t);
+            });
+            const issues: Omit<QualityIssue, 'ruleId' | 'severity'>[] = [];
+            totals.forEach((t, pid) => {
+                if (Math.abs(t.sum - 1) > QUOTA_TOLERANCE) {
+                    issues.push({
+                        parcelId: pid, externalId: externalIdsFor(ctx, pid), sheet: 'Owners_Normalized', row: t.rows[0],
+                        message: `Quotas sum to ${Number(t.sum.toFixed(4))} over ${t.rows.length} row(s) (rows ${t.rows.join(', ')})`,
+                    });
+                }
+            });
+            return issues;
+        },
+    },
+    {
+        id: 'COMPANY_NO_PEC',
+        severity: 'warning',
+        description: 'Company owner has no PEC in All_Companies_Found and cannot be contacted by certified email.',
+        check: (ctx) => {
+            const seen = new Set<string>();
+            return ctx.ownerRows
+                .filter(o => o.sheet === 'Owners_Normalized' && o.ownerType === 'company' && !ctx.pecCodes.has(o.cf))
+                .filter(o => {
+                    const key = `${o.parcelId}|${o.cf}`;
+                    if (seen.has(key)) return false;
+                    seen.add(key);
+                    return true;
+                })
+                .map(o => ({ parcelId: o.parcelId, externalId: externalIdsFor(ctx, o.parcelId), sheet: o.sheet, row: o.row, message: `No PEC for '${o.cleanedName}' (${o.cf})` }));
+        },
+    },
+    {
+        id: 'OWNER_NAME_EMPTIED',
+        severity: 'warning',
+        description: 'Owner name became empty after cleaning (e.g. only a "nato a" clause or a placeholder).',
+        check: (ctx) => ctx.ownerRows
+            .filter(o => o.rawName.trim() !== '' && o.cleanedName === '')
+            .map(o => ({ parcelId: o.parcelId, externalId: externalIdsFor(ctx, o.parcelId), sheet: o.sheet, row: o.row, message: `Name '${o.rawName}' was emptied by cleaning` })),
+    },
+];
+
+export const runQualityChecks = (ctx: QualityContext, rules: QualityRule[] = QUALITY_RULES): QualityIssue[] => {
+    const issues: QualityIssue[] = [];
+    rules.forEach(rule => {
+        rule.check(ctx).forEach(issue => issues.push({ ruleId: rule.id, severity: rule.severity, ...issue }));
+    });
+    return issues;
+};
+
+export const countBySeverity = (issues: QualityIssue[]): { [key in Severity]: number } => {
+    const counts = { error: 0, warning: 0, info: 0 };
+    issues.forEach(i => counts[i.severity]++);
+    return counts;
+};
+
+// "Summary" sheet: one row per rule, including rules without issues
+export const qualitySummaryRows = (issues: QualityIssue[], rules: QualityRule[] = QUALITY_RULES): any[] => {
+    return rules.map(rule => ({
+        'Rule ID': rule.id,
+        'Severity': rule.severity,
+        'Description': rule.description,
+        'Issues': issues.filter(i => i.ruleId === rule.id).length,
+    }));
+};
+
+// "Issues" sheet: one row per issue
+export const qualityIssueRows = (issues: QualityIssue[]): any[] => {
+    return issues.map(i => ({
+        'Severity': i.severity,
+        'Rule ID': i.ruleId,
+        'Parcel_ID': i.parcelId,
+        'Land External ID': i.externalId,
+        'Sheet': i.sheet,
+        'Row': i.row,
+        'Message': i.message,
+    }));
+};
@@ -0,0 +1,215 @@
+// --- Salesforce Reconciliation ---
+// Reads back what Salesforce did with an upload (Data Loader / Bulk API success and error files, or a report export)
+// and joins it on "Land External ID" to the Carga rows of this run: which leads failed, never arrived, or arrived
+// with values Salesforce changed (truncated text, picklist values rejected and left blank).
+// Each file is matched against one Carga only, since the same External ID can be in more than one.
+
+import { findColumnKey } from './columnProfiles';
+import { leadStatusRank, sameValue } from './delta';
+import type { OutputData, ValidationResult } from './transformer';
+import { CSV_DATASETS } from './outputEditor';
+import type { CsvDatasetKey } from './outputEditor';
+
+export type SalesforceFileKind = 'success' | 'error' | 'report';
+
+export interface SalesforceFile {
+    fileName: string;
+    kind: SalesforceFileKind;
+    rows: Map<string, any>;     // External ID -> row
+    externalIdColumn: string;
+    errorColumn?: string;
+    idColumn?: string;
+    carga: CsvDatasetKey | null; // Carga the file belongs to: chosen by the user or read from its Lead Status (null = infer from its IDs)
+}
+
+export type ReconcileStatus = 'loaded' | 'changed' | 'failed' | 'missing' | 'unverified';
+
+// truncated: Salesforce kept a prefix of the value; cleared: the value was dropped (e.g. a rejected picklist value)
+export type ChangeReason = 'truncated' | 'cleared' | 'different';
+
+export interface SalesforceChange {
+    field: string;
+    sent: string;
+    salesforce: string;
+    reason: ChangeReason;
+}
+
+export interface ReconcileRow {
+    externalId: string;
+    status: ReconcileStatus;
+    changes: SalesforceChange[];
+    error: string;
+    salesforceId: string;
+}
+
+export interface CargaReconciliation {
+    rows: ReconcileRow[];
+    counts: { [key in ReconcileStatus]: number };
+}
+
+export interface ReconcileReport {
+    cargas: { [key in CsvDatasetKey]: CargaReconciliation };
+    files: { fileName: string, kind: SalesforceFileKind, rows: number, carga: CsvDatasetKey | null }[]; // carga null = not reconciled
+}
+
+const EXTERNAL_ID_ALIASES = ['Land External ID', 'Land_External_ID__c', 'External ID', 'External_ID__c'];
+// Bulk API / Data Import Wizard write sf__Error, Data Loader writes ERROR
+const ERROR_ALIASES = ['sf__Error', 'ERROR', 'Error', 'Error Message'];
+const SALESFORCE_ID_ALIASES = ['sf__Id', 'ID', 'Id', 'Record ID', 'Land ID'];
+const LEAD_STATUS_ALIASES = ['Lead Status', 'Lead_Status__c'];
+// Columns only present in load result files, never in a report (Data Loader writes ID and STATUS instead)
+const SUCCESS_MARKERS = ['sf__Created', 'sf__Id'];
+
+const text = (val: any): string => (val === null || val === undefined ? '' : String(val).trim());
+
+// The Carga whose Lead Status most rows of the file carry; a lead moved further along the pipeline does not count
+const cargaFromLeadStatus = (sheet: any[], statusCol: string | undefined): CsvDatasetKey | null => {
+    if (!statusCol) return null;
+    const counts = new Map<CsvDatasetKey, number>();
+    sheet.forEach(row => {
+        const dataset = Object.values(CSV_DATASETS).find(d => d.status.toLowerCase() === text(row[statusCol]).toLowerCase());
+        if (dataset) counts.set(dataset.csvKey, (counts.get(dataset.csvKey) || 0) + 1);
+    });
+    const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+    return ranked.length > 0 && ranked[0][1] !== ranked[1]?.[1] ? ranked[0][0] : null;
+};
+
+// The only Carga holding the most of the file's External IDs, for files without a Lead Status (e.g. error files)
+export const inferCarga = (output: OutputData, file: SalesforceFile): CsvDatasetKey | null => {
+    if (file.carga) return file.carga;
+    const ranked = Object.values(CSV_DATASETS)
+        .map(({ csvKey }) => ({ csvKey, hits: output[csvKey].filter(row => file.rows.has(text(row['Land External ID']))).length }))
+        .sort((a, b) => b.hits - a.hits);
+    return ranked[0].hits > 0 && ranked[0].hits !== ranked[1].hits ? ranked[0].csvKey : null;
+};
+
+// Validate the first sheet of a success/error file or report, detect which of the three it is and index it by External ID
+export const parseSalesforceFile = (jsonData: { [sheetName: string]: any[] }, fileName: string): { file: SalesforceFile | null, validation: ValidationResult } => {
+    const errors: string[] = [];
+    const sheetName = Object.keys(jsonData)[0];
+    const sheet = sheetName ? jsonData[sheetName] : [];
+    if (!sheet || sheet.length === 0) {
+        errors.push(`Salesforce file '${fileName}' is empty.`);
+        return { file: null, validation: { isValid: false, errors } };
+    }
+
+    const keys = Object.keys(sheet[0]);
+    const idCol = findColumnKey(keys, EXTERNAL_ID_ALIASES);
+    if (!idCol) {
+        errors.push(`Salesforce file '${fileName}' is missing the 'Land External ID' column. Found columns: ${keys.join(', ')}`);
+        return { file: null, validation: { isValid: false, errors } };
+    }
+
+    const errorColumn = findColumnKey(keys, ERROR_ALIASES);
+    const isSuccess = Boolean(findColumnKey(keys, SUCCESS_MARKERS)) || (keys.includes('ID') && keys.includes('STATUS'));
+    const kind: SalesforceFileKind = errorColumn ? 'error' : isSuccess ? 'success' : 'report';
+
+    const rows = new Map<string, any>();
+    sheet.forEach(row => {
+        const id = text(row[idCol]);
+        if (id && !rows.has(id)) rows.set(id, row);
+    });
+    return {
+        file: {
+            fileName, kind, rows, externalIdColumn: idCol, errorColumn, idColumn: findColumnKey(keys, SALESFORCE_ID_ALIASES),
+            carga: cargaFromLeadStatus(sheet, findColumnKey(keys, LEAD_STATUS_ALIASES)),
+        },
+        validation: { isValid: true, errors },
+    };
+};
+
+const changeReason = (sent: string, salesforce: string): ChangeReason => {
+    if (salesforce === '') return 'cleared';
+    if (sent.startsWith(salesforce)) return 'truncated';
+    return 'different';
+};
+
+// Fields of the sent row that Salesforce holds with another value; fields absent from the file are not compared
+const compareFields = (row: any, loaded: any): SalesforceChange[] => {
+    const keys = Object.keys(loaded);
+    const changes: SalesforceChange[] = [];
+    Object.keys(row).forEach(field => {
+        if (field === 'Land External ID') return;
+        const col = findColumnKey(keys, [field, `${field}__c`]);
+        if (!col) return;
+        const sent = text(row[field]);
+        const salesforce = text(loaded[col]);
+        if (sameValue(sent, salesforce)) return;
+        // A report taken later may show the lead further along the pipeline; that is progress, not a rejected value
+        if (field === 'Lead Status' && leadStatusRank(salesforce) > leadStatusRank(sent)) return;
+        changes.push({ field, sent, salesforce, reason: changeReason(sent, salesforce) });
+    });
+    return changes;
+};
+
+const reconcileCarga = (csvRows: any[], files: SalesforceFile[]): CargaReconciliation => {
+    const counts = { loaded: 0, changed: 0, failed: 0, missing: 0, unverified: 0 };
+    const confirming = files.filter(f => f.kind !== 'error');
+    const failing = files.filter(f => f.kind === 'error');
+
+    const rows: ReconcileRow[] = csvRows.map(row => {
+        const externalId = text(row['Land External ID']);
+        // The last success file or report wins, so a retry loaded after a failed upload clears the failure
+        const loadedIn = [...confirming].reverse().find(f => f.rows.has(externalId));
+        let result: ReconcileRow;
+        if (loadedIn) {
+            const loaded = loadedIn.rows.get(externalId);
+            const changes = compareFields(row, loaded);
+            const salesforceId = loadedIn.idColumn ? text(loaded[loadedIn.idColumn]) : '';
+            result = { externalId, status: changes.length > 0 ? 'changed' : 'loaded', changes, error: '', salesforceId };
+        } else {
+            const failedIn = [...failing].reverse().find(f => f.rows.has(externalId));
+            if (failedIn) {
+                const error = failedIn.errorColumn ? text(failedIn.rows.get(externalId)[failedIn.errorColumn]) : '';
+                result = { externalId, status: 'failed', changes: [], error, salesforceId: '' };
+            } else {
+                // Without a success file or report there is nothing that could confirm the lead arrived
+                result = { externalId, status: confirming.length > 0 ? 'missing' : 'unverified', changes: [], error: '', salesforceId: '' };
+            }
+        }
+        counts[result.status]++;
+        return result;
+    });
+    return { rows, counts };
+};
+
+export const reconcileRun = (output: OutputData, files: SalesforceFile[]): ReconcileReport => {
+    const assigned = files.map(f => ({ file: f, carga: inferCarga(output, f) }));
+    const filesOf = (key: CsvDatasetKey) => assigned.filter(a => a.carga === key).map(a => a.file);
+    return {
+        cargas: {
+            csvScouted: reconcileCarga(output.csvScouted, filesOf('csvScouted')),
+            csvRetrieved: reconcileCarga(output.csvRetrieved, filesOf('csvRetrieved')),
+            csvContacted: reconcileCarga(output.csvContacted, filesOf('csvContacted')),
+        },
+        files: assigned.map(({ file, carga }) => ({ fileName: file.fileName, kind: file.kind, rows: file.rows.size, carga })),
+    };
+};
+
+// Rows to upload again for a Carga, in the Salesforce CSV layout: leads that failed or never arrived
+export const retryRows = (output: OutputData, report: ReconcileReport, key: CsvDatasetKey): any[] => {
+    const reconciliation = report.cargas[key];
+    return output[key].filter((_, i) => {
+        const r = reconciliation.rows[i];
+        return r && (r.status === 'failed' || r.status === 'missing');
+    });
+};
+
+// One row per changed field (or per lead otherwise) for display and export
+export const reconcileToRows = (report: ReconcileReport, key: CsvDatasetKey): any[] => {
+    const rows: any[] = [];
+    report.cargas[key].rows.forEach(r => {
+        const base = {
+            'Land External ID': r.externalId,
+            'Result': r.status,
+            'Salesforce ID': r.salesforceId,
+            'Error': r.error,
+        };
+        if (r.changes.length === 0) {
+            rows.push({ ...base, 'Field': '', 'Sent': '', 'In Salesforce': '', 'Change': '' });
+        } else {
+            r.changes.forEach(c => rows.push({ ...base, 'Field': c.field, 'Sent': c.sent, 'In Salesforce': c.salesforce, 'Change': c.reason }));
+        }
+    });
+    return rows;
+};
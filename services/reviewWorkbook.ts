@@ -0,0 +1,256 @@
+// --- Review Workbook ---
+// One formatted workbook to review a run before the upload: a sheet per Carga (the Salesforce CSV rows, with the
+// Parcel_ID and a "Review" column listing what needs a look), a summary and the quality issues.
+// SheetJS community edition writes values, number formats, column widths and autofilters but no styles, so frozen
+// headers, header styling, list validation and the row highlighting are added to the sheet XML afterwards, through
+// the same CFB container the ZIP bundle is written with.
+
+import { CSV_DATASETS } from './outputEditor';
+import { qualityIssueRows, qualitySummaryRows } from './quality';
+import { sanitize } from './transformer';
+import type { OutputData } from './transformer';
+import { LEAD_FIELD_TYPES, SALESFORCE_TARGET } from './exportTargets';
+
+export type ReviewFlag = 'missing-owner' | 'unknown-surname' | 'truncated-owners' | 'ambiguous-parcel';
+
+// In highlighting priority order; a row with several flags gets the colour of the first
+export const REVIEW_FLAGS: { id: ReviewFlag, label: string, color: string, description: string }[] = [
+    { id: 'missing-owner', label: 'Missing owner', color: 'FFC7CE', description: 'Retrieved or Contacted lead without an owner' },
+    { id: 'unknown-surname', label: 'Unknown surname', color: 'FFEB9C', description: "Main Owner Last Name is the 'Unknown <External ID>' placeholder" },
+    { id: 'truncated-owners', label: 'All Owners truncated', color: 'F8CBAD', description: 'All Owners is longer than Salesforce accepts and was cut' },
+    { id: 'ambiguous-parcel', label: 'Ambiguous Parcel_ID', color: 'DDEBF7', description: 'The Parcel_ID is shared by several lands' },
+];
+
+const CARGA_SHEETS: { key: 'scouted' | 'retrieved' | 'contacted', sheet: string }[] = [
+    { key: 'scouted', sheet: 'Carga 1 Scouted' },
+    { key: 'retrieved', sheet: 'Carga 2 Retrieved' },
+    { key: 'contacted', sheet: 'Carga 3 Contacted' },
+];
+
+const AREA_FORMAT = '#,##0.0000';
+const INTEGER_FORMAT = '0';
+const HEADER_FILL = 'D9E1F2';
+const SEVERITY_COLORS: { [severity: string]: string } = { error: 'FFC7CE', warning: 'FFEB9C' };
+const MAX_COLUMN_WIDTH = 60;
+
+const ALL_OWNERS_LIMIT = SALESFORCE_TARGET.fields.find(f => f.source === 'allOwners')?.maxLength || 255;
+
+// Salesforce labels holding numbers, booleans: the CSV writes "1,25" and "True", the workbook real numbers and a list
+const fieldsOfType = (type: string): string[] => SALESFORCE_TARGET.fields.filter(f => LEAD_FIELD_TYPES[f.source] === type).map(f => f.label);
+
+const toNumber = (val: any): number | string => {
+    const s = String(val ?? '').trim();
+    if (!s) return '';
+    const n = Number(s.replace(',', '.'));
+    return isNaN(n) ? s : n;
+};
+
+// Parcel_ID per Land External ID and the Parcel_IDs shared by several lands, from the audit trail (one entry per land)
+const parcelIndex = (output: OutputData): { pidOf: Map<string, string>, ambiguous: Set<string> } => {
+    const pidOf = new Map<string, string>();
+    const lands = new Map<string, Set<string>>();
+    (output.audit || []).forEach(a => {
+        pidOf.set(a.externalId, a.parcelId);
+        if (!lands.has(a.parcelId)) lands.set(a.parcelId, new Set());
+        lands.get(a.parcelId)?.add(a.externalId);
+    });
+    const ambiguous = new Set(Array.from(lands.entries()).filter(([, ids]) => ids.size > 1).map(([pid]) => pid));
+    return { pidOf, ambiguous };
+};
+
+// Rows of one Carga sheet: "Review" and "Parcel_ID" followed by the Salesforce CSV columns, numbers as numbers
+export const reviewRows = (output: OutputData, key: 'scouted' | 'retrieved' | 'contacted'): any[] => {
+    const { csvKey, status } = CSV_DATASETS[key];
+    const { pidOf, ambiguous } = parcelIndex(output);
+    const numeric = [...fieldsOfType('decimal'), ...fieldsOfType('integer')];
+    return (output[csvKey] || []).map((csvRow, i) => {
+        const source = (output[key] || [])[i] || {};
+        const externalId = String(csvRow['Land External ID'] ?? '');
+        const pid = pidOf.get(externalId) ?? String(source.Parcel_ID ?? '');
+        const lastName = String(csvRow['Main Owner Last Name'] ?? '');
+
+        const flags: ReviewFlag[] = [];
+        if (status !== 'Scouted' && !Number(csvRow['Number of Owners']) && !lastName) flags.push('missing-owner');
+        if (lastName.startsWith('Unknown ')) flags.push('unknown-surname');
+        if (sanitize(source['All Owners']).length > ALL_OWNERS_LIMIT) flags.push('truncated-owners');
+        if (ambiguous.has(pid)) flags.push('ambiguous-parcel');
+
+        const row: any = {
+            'Review': REVIEW_FLAGS.filter(f => flags.includes(f.id)).map(f => f.label).join('; '),
+            'Parcel_ID': pid,
+        };
+        Object.keys(csvRow).forEach(col => {
+            row[col] = numeric.includes(col) ? toNumber(csvRow[col]) : csvRow[col];
+        });
+        return row;
+    });
+};
+
+// "Summary" sheet: leads and flagged leads per Carga
+export const reviewSummaryRows = (output: OutputData): any[] => {
+    return CARGA_SHEETS.map(({ key, sheet }) => {
+        const rows = reviewRows(output, key);
+        const row: any = { 'Carga': sheet, 'Leads': rows.length, 'Flagged': rows.filter(r => r['Review']).length };
+        REVIEW_FLAGS.forEach(f => {
+            row[f.label] = rows.filter(r => String(r['Review']).split('; ').includes(f.label)).length;
+        });
+        return row;
+    });
+};
+
+// --- Sheet XML ---
+
+interface SheetExtras {
+    highlights: { column: number, label: string, color: string }[];   // Whole row coloured when the column contains the label
+    lists: { column: number, values: string[] }[];                     // In-cell dropdowns (warning only, other values stay allowed)
+}
+
+const xmlEscape = (s: string): string => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Append an element to a counted list ("<fonts count="1">...</fonts>") and return its index
+const appendToList = (xml: string, tag: string, element: string): { xml: string, index: number } => {
+    const empty = new RegExp(`<${tag} count="0"\\s*/>`);
+    if (empty.test(xml)) return { xml: xml.replace(empty, `<${tag} count="1">${element}</${tag}>`), index: 0 };
+    const match = xml.match(new RegExp(`<${tag} count="(\\d+)"([^>]*)>`));
+    if (!match) throw new Error(`styles.xml has no <${tag}> list`);
+    const index = Number(match[1]);
+    const updated = xml
+        .replace(match[0], `<${tag} count="${index + 1}"${match[2]}>`)
+        .replace(`</${tag}>`, `${element}</${tag}>`);
+    return { xml: updated, index };
+};
+
+// Bold header cell style plus one differential (conditional format) fill per colour
+const patchStyles = (xml: string, colors: string[]): { xml: string, headerStyle: number, dxfOf: Map<string, number> } => {
+    let styles = xml;
+    const font = appendToList(styles, 'fonts', '<font><b/><sz val="12"/><color theme="1"/><name val="Calibri"/><family val="2"/><scheme val="minor"/></font>');
+    styles = font.xml;
+    const fill = appendToList(styles, 'fills', `<fill><patternFill patternType="solid"><fgColor rgb="FF${HEADER_FILL}"/><bgColor indexed="64"/></patternFill></fill>`);
+    styles = fill.xml;
+    const xf = appendToList(styles, 'cellXfs', `<xf numFmtId="0" fontId="${font.index}" fillId="${fill.index}" borderId="0" xfId="0" applyFont="1" applyFill="1"/>`);
+    styles = xf.xml;
+    const dxfOf = new Map<string, number>();
+    colors.forEach(color => {
+        if (dxfOf.has(color)) return;
+        const dxf = appendToList(styles, 'dxfs', `<dxf><fill><patternFill patternType="solid"><bgColor rgb="FF${color}"/></patternFill></fill></dxf>`);
+        styles = dxf.xml;
+        dxfOf.set(color, dxf.index);
+    });
+    return { xml: styles, headerStyle: xf.index, dxfOf };
+};
+
+const columnLetter = (index: number): string => {
+    let s = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+    return s;
+};
+
+// Elements that come after conditionalFormatting/dataValidations in the worksheet schema
+const AFTER_VALIDATIONS = /<(?:hyperlinks|printOptions|pageMargins|pageSetup|headerFooter|rowBreaks|colBreaks|ignoredErrors|drawing|legacyDrawing|tableParts|extLst)\b|<\/worksheet>/;
+
+const patchSheet = (xml: string, extras: SheetExtras, headerStyle: number, dxfOf: Map<string, number>, rowCount: number, columnCount: number): string => {
+    // Frozen header row
+    let sheet = xml.replace(/<sheetView ([^>]*?)\/>/, '<sheetView $1><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/><selection pane="bottomLeft" activeCell="A2" sqref="A2"/></sheetView>');
+    // Header cells in bold on a fill
+    sheet = sheet.replace(/<row r="1"([^>]*)>([\s\S]*?)<\/row>/, (_, attrs: string, cells: string) => `<row r="1"${attrs}>${cells.replace(/<c r="/g, `<c s="${headerStyle}" r="`)}</row>`);
+    if (rowCount === 0) return sheet;
+
+    const lastRow = rowCount + 1;
+    const body = `A2:${columnLetter(columnCount - 1)}${lastRow}`;
+    const parts: string[] = [];
+    extras.highlights.forEach((h, i) => {
+        const formula = `ISNUMBER(SEARCH("${h.label}",$${columnLetter(h.column)}2))`;
+        parts.push(`<conditionalFormatting sqref="${body}"><cfRule type="expression" dxfId="${dxfOf.get(h.color)}" priority="${i + 1}"><formula>${xmlEscape(formula)}</formula></cfRule></conditionalFormatting>`);
+    });
+    if (extras.lists.length > 0) {
+        const validations = extras.lists.map(l => {
+            const col = columnLetter(l.column);
+            return `<dataValidation type="list" errorStyle="warning" allowBlank="1" showErrorMessage="1" sqref="${col}2:${col}${lastRow}"><formula1>${xmlEscape(`"${l.values.join(',')}"`)}</formula1></dataValidation>`;
+        });
+        parts.push(`<dataValidations count="${validations.length}">${validations.join('')}</dataValidations>`);
+    }
+    const at = sheet.search(AFTER_VALIDATIONS);
+    return at < 0 ? sheet : sheet.substring(0, at) + parts.join('') + sheet.substring(at);
+};
+
+// --- Workbook ---
+
+const columnWidths = (rows: any[], headers: string[]): { wch: number }[] => {
+    return headers.map(h => {
+        const longest = rows.slice(0, 500).reduce((max, r) => Math.max(max, String(r[h] ?? '').length), h.length);
+        return { wch: Math.min(longest + 2, MAX_COLUMN_WIDTH) };
+    });
+};
+
+const sheetFor = (rows: any[], xlsx: any): { ws: any, headers: string[] } => {
+    const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+    const ws = xlsx.utils.json_to_sheet(rows, { header: headers });
+    ws['!cols'] = columnWidths(rows, headers);
+    if (rows.length > 0) ws['!autofilter'] = { ref: ws['!ref'] };
+    return { ws, headers };
+};
+
+// Number format on every cell of the named columns
+const formatColumns = (ws: any, headers: string[], rowCount: number, columns: string[], format: string) => {
+    headers.forEach((h, c) => {
+        if (!columns.includes(h)) return;
+        for (let r = 1; r <= rowCount; r++) {
+            const cell = ws[`${columnLetter(c)}${r + 1}`];
+            if (cell && cell.t === 'n') cell.z = format;
+        }
+    });
+};
+
+export const buildReviewWorkbook = (output: OutputData, xlsx: any = window.XLSX): Uint8Array => {
+    const wb = xlsx.utils.book_new();
+    const sheets: { extras: SheetExtras, rowCount: number, columnCount: number }[] = [];
+    const add = (name: string, rows: any[], extras: (headers: string[]) => SheetExtras, decorate: (ws: any, headers: string[]) => void = () => {}) => {
+        const { ws, headers } = sheetFor(rows, xlsx);
+        decorate(ws, headers);
+        xlsx.utils.book_append_sheet(wb, ws, name);
+        sheets.push({ extras: extras(headers), rowCount: rows.length, columnCount: Math.max(headers.length, 1) });
+    };
+    const noExtras = (): SheetExtras => ({ highlights: [], lists: [] });
+
+    add('Summary', reviewSummaryRows(output), noExtras);
+
+    const booleans = fieldsOfType('boolean');
+    CARGA_SHEETS.forEach(({ key, sheet }) => {
+        const rows = reviewRows(output, key);
+        add(sheet, rows, headers => ({
+            highlights: REVIEW_FLAGS.map(f => ({ column: 0, label: f.label, color: f.color })),
+            lists: [
+                ...(headers.includes('Lead Status') ? [{ column: headers.indexOf('Lead Status'), values: Object.values(CSV_DATASETS).map(d => d.status) }] : []),
+                ...booleans.filter(b => headers.includes(b)).map(b => ({ column: headers.indexOf(b), values: [...SALESFORCE_TARGET.booleans] })),
+            ],
+        }), (ws, headers) => {
+            formatColumns(ws, headers, rows.length, fieldsOfType('decimal'), AREA_FORMAT);
+            formatColumns(ws, headers, rows.length, fieldsOfType('integer'), INTEGER_FORMAT);
+        });
+    });
+
+    add('Quality Rules', qualitySummaryRows(output.quality || []), noExtras);
+    add('Issues', qualityIssueRows(output.quality || []), headers => ({
+        highlights: Object.keys(SEVERITY_COLORS).map(severity => ({ column: headers.indexOf('Severity'), label: severity, color: SEVERITY_COLORS[severity] })),
+        lists: [],
+    }));
+
+    const bytes = new Uint8Array(xlsx.write(wb, { bookType: 'xlsx', type: 'array' }));
+
+    // Node's CommonJS interop leaves CFB off the `import * as XLSX` namespace (CLI); it is still on the default export
+    const cfb = xlsx.CFB || xlsx.default.CFB;
+    const container = cfb.read(bytes, { type: 'array' });
+    const readXml = (path: string): string => new TextDecoder().decode(cfb.find(container, path).content);
+    const writeXml = (path: string, xml: string) => {
+        cfb.find(container, path).content = new TextEncoder().encode(xml);
+    };
+
+    const colors = [...REVIEW_FLAGS.map(f => f.color), ...Object.values(SEVERITY_COLORS)];
+    const { xml: styles, headerStyle, dxfOf } = patchStyles(readXml('/xl/styles.xml'), colors);
+    writeXml('/xl/styles.xml', styles);
+    sheets.forEach((s, i) => {
+        const path = `/xl/worksheets/sheet${i + 1}.xml`;
+        writeXml(path, patchSheet(readXml(path), s.extras, headerStyle, dxfOf, s.rowCount, s.columnCount));
+    });
+    return cfb.write(container, { fileType: 'zip', type: 'array', compression: true });
+};
@@ -0,0 +1,106 @@
+// --- Session Store ---
+// Persists processing sessions (parsed workbooks, run output and logs) in IndexedDB so a run survives a page
+// refresh and can be reopened, re-downloaded or re-run later without the original Excel files.
+// Summaries and the (large) sheet data live in separate object stores so listing sessions stays cheap.
+
+import type { OutputData } from './transformer';
+import type { FileType, LogEntry } from '../types';
+
+const DB_NAME = 'land-data-tool';
+const DB_VERSION = 1;
+const SUMMARY_STORE = 'sessions';
+const DATA_STORE = 'sessionData';
+
+export interface SessionSummary {
+    id: string;
+    createdAt: string;
+    updatedAt: string;
+    fileNames: { [key in FileType]: string };
+    fileHashes?: { [key in FileType]: string };   // SHA-256 of the source files; missing in sessions saved before it was kept
+    profileId: string;
+    counts: { scouted: number, retrieved: number, contacted: number } | null;  // null until the session has been run
+}
+
+export interface SessionData {
+    id: string;
+    sheets: { [key in FileType]: { [sheetName: string]: any[] } };
+    output: OutputData | null;
+    logs: LogEntry[];
+}
+
+export type StoredSession = SessionSummary & Omit<SessionData, 'id'>;
+
+export const isSessionStoreAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SUMMARY_STORE)) db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error || new Error('Could not open the session database'));
+            };
+        });
+    }
+    return dbPromise;
+};
+
+// Run fn inside a transaction and resolve once the transaction has committed
+const withStores = async <T,>(mode: IDBTransactionMode, fn: (summaries: IDBObjectStore, data: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction([SUMMARY_STORE, DATA_STORE], mode);
+        const request = fn(tx.objectStore(SUMMARY_STORE), tx.objectStore(DATA_STORE));
+        tx.oncomplete = () => resolve(request ? request.result : undefined);
+        tx.onerror = () => reject(tx.error || new Error('Session database transaction failed'));
+        tx.onabort = () => reject(tx.error || new Error('Session database transaction aborted'));
+    });
+};
+
+export const newSessionId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const saveSession = async (session: StoredSession): Promise<void> => {
+    const { sheets, output, logs, ...summary } = session;
+    await withStores('readwrite', (summaries, data) => {
+        summaries.put({ ...summary, updatedAt: new Date().toISOString() });
+        data.put({ id: session.id, sheets, output, logs });
+    });
+};
+
+// Most recent first
+export const listSessions = async (): Promise<SessionSummary[]> => {
+    const all = await withStores<SessionSummary[]>('readonly', (summaries) => summaries.getAll());
+    return (all || []).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const loadSession = async (id: string): Promise<StoredSession | null> => {
+    let summary: SessionSummary | undefined;
+    let data: SessionData | undefined;
+    await withStores('readonly', (summaries, dataStore) => {
+        const s = summaries.get(id);
+        const d = dataStore.get(id);
+        s.onsuccess = () => { summary = s.result; };
+        d.onsuccess = () => { data = d.result; };
+    });
+    if (!summary || !data) return null;
+    return { ...summary, sheets: data.sheets, output: data.output, logs: data.logs };
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+    await withStores('readwrite', (summaries, data) => {
+        summaries.delete(id);
+        data.delete(id);
+    });
+};
+
+export const outputCounts = (output: OutputData | null): SessionSummary['counts'] => {
+    return output ? { scouted: output.scouted.length, retrieved: output.retrieved.length, contacted: output.contacted.length } : null;
+};
@@ -0,0 +1,35 @@
+// --- Transformation Worker ---
+// Runs parsing, validation and runProcess off the main thread so large workbooks don't freeze the tab.
+// The main thread talks to it through services/transformClient.ts.
+
+import * as XLSX from 'xlsx';
+import { parseWorkbook, prepareWorkbook, runProcess } from './transformer';
+import type { LogFunction, ProgressFunction } from './transformer';
+import type { WorkerRequest, WorkerResponse } from './transformClient';
+
+const post = (msg: WorkerResponse) => self.postMessage(msg);
+
+self.addEventListener('message', async (e: MessageEvent<WorkerRequest>) => {
+    const req = e.data;
+    const log: LogFunction = (message, logType = 'info') => post({ id: req.id, kind: 'log', message, logType });
+    const progress: ProgressFunction = (stage, percent) => post({ id: req.id, kind: 'progress', stage, percent });
+
+    try {
+        if (req.kind === 'load') {
+            log(`Reading ${req.file.name}...`);
+            progress('Reading file', 0);
+            const buffer = await req.file.arrayBuffer();
+            progress('Parsing workbook', 30);
+            const rawJson = parseWorkbook(buffer, XLSX);
+            progress('Validating', 80);
+            const result = prepareWorkbook(rawJson, req.fileType, log, req.profileId, req.customProfiles);
+            progress('Done', 100);
+            post({ id: req.id, kind: 'result', result });
+        } else {
+            const output = runProcess(req.inputJson, req.resultsJson, log, progress, req.policy, req.overrides);
+            post({ id: req.id, kind: 'result', result: { output } });
+        }
+    } catch (error) {
+        post({ id: req.id, kind: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+});
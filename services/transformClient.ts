@@ -0,0 +1,136 @@
+// --- Transformation Worker Client ---
+// Main-thread side of services/transform.worker.ts: sends jobs, relays log/progress events and supports cancelling.
+// Falls back to running transformData in-thread when Web Workers are unavailable.
+
+import { transformData } from './transformer';
+import type { LogFunction, ProgressFunction, OutputData, ValidationResult } from './transformer';
+import type { ColumnProfile, ProfileFileType } from './columnProfiles';
+import { DEFAULT_OWNER_POLICY } from './ownerPolicy';
+import type { OwnerPolicy } from './ownerPolicy';
+import type { ParcelOverride } from './overrides';
+
+export type WorkerJob =
+    | { kind: 'load', file: File, fileType: ProfileFileType, profileId: string, customProfiles: ColumnProfile[] }
+    | { kind: 'process', inputJson: any, resultsJson: any, policy: OwnerPolicy, overrides: ParcelOverride[] };
+
+export type WorkerRequest = WorkerJob & { id: number };
+
+export type WorkerResponse =
+    | { id: number, kind: 'log', message: string, logType: 'info' | 'error' | 'success' }
+    | { id: number, kind: 'progress', stage: string, percent: number }
+    | { id: number, kind: 'result', result: any }
+    | { id: number, kind: 'error', message: string };
+
+export interface LoadResult {
+    jsonData: { [sheetName: string]: any[] };
+    validation: ValidationResult;
+    profileId: string;
+}
+
+// Rejection reason for jobs stopped through cancelTransformJobs()
+export class JobCancelledError extends Error {
+    constructor() {
+        super('Job cancelled by user');
+        this.name = 'JobCancelledError';
+    }
+}
+
+interface PendingJob {
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+    log: LogFunction;
+    progress: ProgressFunction;
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingJob>();
+
+const rejectAll = (error: Error) => {
+    pending.forEach(job => job.reject(error));
+    pending.clear();
+};
+
+const handleMessage = (e: MessageEvent<WorkerResponse>) => {
+    const msg = e.data;
+    const job = pending.get(msg.id);
+    if (!job) return; // Late message from a cancelled job
+
+    switch (msg.kind) {
+        case 'log':
+            job.log(msg.message, msg.logType);
+            break;
+        case 'progress':
+            job.progress(msg.stage, msg.percent);
+            break;
+        case 'result':
+            pending.delete(msg.id);
+            job.resolve(msg.result);
+            break;
+        case 'error':
+            pending.delete(msg.id);
+            job.reject(new Error(msg.message));
+            break;
+    }
+};
+
+const getWorker = (): Worker => {
+    if (!worker) {
+        worker = new Worker(new URL('./transform.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = handleMessage;
+        worker.onerror = (e) => {
+            rejectAll(new Error(e.message || 'Worker failed'));
+            worker?.terminate();
+            worker = null;
+        };
+    }
+    return worker;
+};
+
+const runJob = <T,>(job: WorkerJob, log: LogFunction, progress: ProgressFunction): Promise<T> => {
+    const id = nextId++;
+    return new Promise<T>((resolve, reject) => {
+        pending.set(id, { resolve, reject, log, progress });
+        getWorker().postMessage({ ...job, id });
+    });
+};
+
+const workersSupported = () => typeof Worker !== 'undefined';
+
+export const loadWorkbookFile = (
+    file: File,
+    fileType: ProfileFileType,
+    log: LogFunction,
+    profileId: string,
+    progress: ProgressFunction = () => {},
+    customProfiles: ColumnProfile[] = []
+): Promise<LoadResult> => {
+    if (!workersSupported()) {
+        return transformData(fileType, file, log, undefined, undefined, profileId, progress, undefined, undefined, customProfiles) as Promise<LoadResult>;
+    }
+    return runJob<LoadResult>({ kind: 'load', file, fileType, profileId, customProfiles }, log, progress);
+};
+
+export const runTransformation = (
+    inputJson: any,
+    resultsJson: any,
+    log: LogFunction,
+    progress: ProgressFunction = () => {},
+    policy: OwnerPolicy = DEFAULT_OWNER_POLICY,
+    overrides: ParcelOverride[] = []
+): Promise<{ output: OutputData }> => {
+    if (!workersSupported()) {
+        return transformData('process', null, log, inputJson, resultsJson, undefined, progress, policy, overrides) as Promise<{ output: OutputData }>;
+    }
+    return runJob<{ output: OutputData }>({ kind: 'process', inputJson, resultsJson, policy, overrides }, log, progress);
+};
+
+// runProcess is synchronous inside the worker, so the only way to stop it is to terminate the worker.
+// Every running job is rejected with JobCancelledError; the next job starts a fresh worker.
+export const cancelTransformJobs = () => {
+    if (worker) {
+        worker.terminate();
+        worker = null;
+    }
+    rejectAll(new JobCancelledError());
+};
@@ -1,6 +1,33 @@
 
 
-type LogFunction = (message: string, type?: 'info' | 'error' | 'success') => void;
+import { classifyOwner, isPublicEntityCode, normalizeFiscalCode, OWNER_TYPE_LABELS, policyOwnerType } from './fiscalCode';
+import { applyProfile, detectProfile, getProfile, AUTO_PROFILE_ID, COLUMN_PROFILES } from './columnProfiles';
+import type { ColumnProfile, ProfileFileType } from './columnProfiles';
+import type { AuditEvent, ParcelAudit } from './audit';
+import { runQualityChecks, countBySeverity } from './quality';
+import { resolveOwnership, roundQuota, OWNERSHIP_STATUS_LABELS } from './ownership';
+import type { QualityIssue } from './quality';
+import { formatLeadRecord, SALESFORCE_TARGET } from './exportTargets';
+import type { LeadRecord } from './exportTargets';
+import type { OwnerContact } from './owners';
+import { matchMunicipality } from './municipality';
+import { checkMunicipality, lookupIstatCode } from './istatRegistry';
+import type { MunicipalityCheck } from './istatRegistry';
+import { registryProvinceMatches, resolveProvince } from './provinces';
+import type { ProvinceResolution } from './provinces';
+import { DEFAULT_OWNER_POLICY, describePolicy, enabledRules, getOwnerRule } from './ownerPolicy';
+import type { OwnerPolicy, OwnerRuleId } from './ownerPolicy';
+import { parseOwnerName } from './ownerName';
+import { isOwnershipRight, ownerRight, OWNERSHIP_RIGHT_LABELS } from './ownerRights';
+import type { OwnershipRight } from './ownerRights';
+import { describeOverride, findOverride, overrideWarnings } from './overrides';
+import type { ParcelOverride } from './overrides';
+import { describeLineageStep, parseVariations, sameParcel, walkLineage, MAX_LINEAGE_DEPTH } from './lineage';
+import type { LineageDirection, LineageStep, ParcelRef } from './lineage';
+
+export type LogFunction = (message: string, type?: 'info' | 'error' | 'success') => void;
+// Reports the current stage and overall completion (0-100) of a long-running step
+export type ProgressFunction = (stage: string, percent: number) => void;
 
 export interface ValidationResult {
     isValid: boolean;
@@ -14,33 +41,22 @@ export interface OutputData {
     csvScouted: any[];
     csvRetrieved: any[];
     csvContacted: any[];
+    audit: ParcelAudit[];
+    quality: QualityIssue[];
+    owners: OwnerContact[];
 }
 
 // --- Helper Functions ---
 
-const cleanOwnerName = (name: any): string => {
+// Owner name without birth clause, parentage, right held or generated placeholders (see parseOwnerName)
+export const cleanOwnerName = (name: any): string => {
     if (name === null || typeof name === 'undefined' || typeof name !== 'string') {
         return '';
     }
-    let s = name;
-
-    // 1. Remove "Unknown AA-BBBB-..." pattern (generated External ID fallback)
-    s = s.replace(/Unknown\s+[A-Z]{2}-[\w\d]+-[A-Z0-9]+-\d{4}-\d{5}/gi, '');
-
-    // 2. Remove "Timeout-Pending" text if present inside a name
-    s = s.replace(/Timeout-Pending/gi, '');
-
-    // 3. Handle 'nato a', 'nata a' and 'nato/a a' - keep part before it
-    s = s.split(/\s+nat[oa](?:\/a)?\s+a\s+/i)[0];
-    
-    // 4. Handle semicolon separator (often used for parentage like "; DI ANTONIO")
-    s = s.split(';')[0];
-
-    // 5. Collapse multiple spaces and trim
-    return s.replace(/\s+/g, ' ').trim();
+    return parseOwnerName(name).name;
 };
 
-const truncate = (str: any, maxLength: number): string => {
+export const truncate = (str: any, maxLength: number): string => {
     if (!str) return '';
     const s = String(str);
     if (s.length <= maxLength) return s;
@@ -48,18 +64,18 @@ const truncate = (str: any, maxLength: number): string => {
 };
 
 // Remove newlines, tabs, and excess whitespace to prevent CSV breakage
-const sanitize = (val: any): string => {
+export const sanitize = (val: any): string => {
     if (val === null || val === undefined) return '';
     const s = String(val);
     // Replace newline/tab with space, then collapse multiple spaces
     return s.replace(/[\r\n\t]+/g, ' ').replace(/\s+/g, ' ').trim();
 };
 
-const normalizeMuni = (m: any): string => {
+export const normalizeMuni = (m: any): string => {
     return String(m || '').trim().toLowerCase();
 };
 
-const parseQuota = (quotaStr: any): number => {
+export const parseQuota = (quotaStr: any): number => {
     if (quotaStr === null || quotaStr === undefined) return 0;
     const s = String(quotaStr).trim();
     
@@ -80,32 +96,28 @@ const parseQuota = (quotaStr: any): number => {
     return isNaN(f) ? 0 : f;
 };
 
-// Helper to find column case-insensitive and handle aliases
-const findCol = (row: any, candidates: string[]) => {
-    const keys = Object.keys(row);
-    for (const c of candidates) {
-        const found = keys.find(k => k.toLowerCase() === c.toLowerCase());
-        if (found) return row[found];
-    }
-    return undefined;
+// Parse raw workbook bytes into { sheetName: rows[] }.
+// The XLSX library is injectable so the same parsing runs in the browser (CDN global) and in Node (CLI).
+export const parseWorkbook = (data: Uint8Array | ArrayBuffer, xlsx: any = window.XLSX): { [sheetName: string]: any[] } => {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    const workbook = xlsx.read(bytes, { type: 'array' });
+    const result: { [sheetName: string]: any[] } = {};
+    workbook.SheetNames.forEach((sheetName: string) => {
+        const worksheet = workbook.Sheets[sheetName];
+        // Use `defval: ''` to avoid null/undefined for empty cells
+        // Use `raw: false` to get formatted dates if any
+        const jsonData = xlsx.utils.sheet_to_json(worksheet, { defval: '', raw: false, blankrows: false });
+        result[sheetName] = jsonData;
+    });
+    return result;
 };
 
-const readFileSheets = (file: File): Promise<{ [sheetName: string]: any[] }> => {
+export const readFileSheets = (file: File): Promise<{ [sheetName: string]: any[] }> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
         reader.onload = (e: ProgressEvent<FileReader>) => {
             try {
-                const data = new Uint8Array(e.target!.result as ArrayBuffer);
-                const workbook = window.XLSX.read(data, { type: 'array' });
-                const result: { [sheetName: string]: any[] } = {};
-                workbook.SheetNames.forEach((sheetName: string) => {
-                    const worksheet = workbook.Sheets[sheetName];
-                    // Use `defval: ''` to avoid null/undefined for empty cells
-                    // Use `raw: false` to get formatted dates if any
-                    const jsonData = window.XLSX.utils.sheet_to_json(worksheet, { defval: '', raw: false, blankrows: false });
-                    result[sheetName] = jsonData;
-                });
-                resolve(result);
+                resolve(parseWorkbook(e.target!.result as ArrayBuffer));
             } catch (error) {
                 reject(error);
             }
@@ -115,7 +127,7 @@ const readFileSheets = (file: File): Promise<{ [sheetName: string]: any[] }> =>
     });
 };
 
-const validateInputFile = (jsonData: { [sheetName: string]: any[] }): ValidationResult => {
+export const validateInputFile = (jsonData: { [sheetName: string]: any[] }): ValidationResult => {
     const errors: string[] = [];
     if (!jsonData['Hoja1'] && !jsonData['Sheet1']) {
         const foundSheets = Object.keys(jsonData).join(', ');
@@ -137,7 +149,7 @@ const validateInputFile = (jsonData: { [sheetName: string]: any[] }): Validation
     return { isValid: errors.length === 0, errors };
 };
 
-const validateResultsFile = (jsonData: { [sheetName: string]: any[] }): ValidationResult => {
+export const validateResultsFile = (jsonData: { [sheetName: string]: any[] }): ValidationResult => {
     const errors: string[] = [];
     const requiredSheets = ['All_Raw_Data', 'Owners_Normalized', 'All_Companies_Found', 'Final_Mailing_By_Parcel'];
 
@@ -204,161 +216,24 @@ const validateResultsFile = (jsonData: { [sheetName: string]: any[] }): Validati
 
 // --- CSV Helpers & constants ---
 
-// Master list of Italian Provinces with valid Salesforce names, Codes, and Regions
-const ITALIAN_PROVINCES = [
-    { name: "Agrigento", code: "AG", region: "Sicilia" },
-    { name: "Alessandria", code: "AL", region: "Piemonte" },
-    { name: "Ancona", code: "AN", region: "Marche" },
-    { name: "Aosta", code: "AO", region: "Valle d'Aosta" },
-    { name: "Arezzo", code: "AR", region: "Toscana" },
-    { name: "Ascoli Piceno", code: "AP", region: "Marche" },
-    { name: "Asti", code: "AT", region: "Piemonte" },
-    { name: "Avellino", code: "AV", region: "Campania" },
-    { name: "Bari", code: "BA", region: "Puglia" },
-    { name: "Barletta-Andria-Trani", code: "BT", region: "Puglia" },
-    { name: "Belluno", code: "BL", region: "Veneto" },
-    { name: "Benevento", code: "BN", region: "Campania" },
-    { name: "Bergamo", code: "BG", region: "Lombardia" },
-    { name: "Biella", code: "BI", region: "Piemonte" },
-    { name: "Bologna", code: "BO", region: "Emilia-Romagna" },
-    { name: "Bolzano", code: "BZ", region: "Trentino-Alto Adige" },
-    { name: "Brescia", code: "BS", region: "Lombardia" },
-    { name: "Brindisi", code: "BR", region: "Puglia" },
-    { name: "Cagliari", code: "CA", region: "Sardegna" },
-    { name: "Caltanissetta", code: "CL", region: "Sicilia" },
-    { name: "Campobasso", code: "CB", region: "Molise" },
-    { name: "Carbonia-Iglesias", code: "CI", region: "Sardegna" },
-    { name: "Caserta", code: "CE", region: "Campania" },
-    { name: "Catania", code: "CT", region: "Sicilia" },
-    { name: "Catanzaro", code: "CZ", region: "Calabria" },
-    { name: "Chieti", code: "CH", region: "Abruzzo" },
-    { name: "Como", code: "CO", region: "Lombardia" },
-    { name: "Cosenza", code: "CS", region: "Calabria" },
-    { name: "Cremona", code: "CR", region: "Lombardia" },
-    { name: "Crotone", code: "KR", region: "Calabria" },
-    { name: "Cuneo", code: "CN", region: "Piemonte" },
-    { name: "Enna", code: "EN", region: "Sicilia" },
-    { name: "Fermo", code: "FM", region: "Marche" },
-    { name: "Ferrara", code: "FE", region: "Emilia-Romagna" },
-    { name: "Firenze", code: "FI", region: "Toscana" },
-    { name: "Foggia", code: "FG", region: "Puglia" },
-    { name: "Forlì-Cesena", code: "FC", region: "Emilia-Romagna" },
-    { name: "Frosinone", code: "FR", region: "Lazio" },
-    { name: "Genova", code: "GE", region: "Liguria" },
-    { name: "Gorizia", code: "GO", region: "Friuli-Venezia Giulia" },
-    { name: "Grosseto", code: "GR", region: "Toscana" },
-    { name: "Imperia", code: "IM", region: "Liguria" },
-    { name: "Isernia", code: "IS", region: "Molise" },
-    { name: "La Spezia", code: "SP", region: "Liguria" },
-    { name: "L'Aquila", code: "AQ", region: "Abruzzo" },
-    { name: "Latina", code: "LT", region: "Lazio" },
-    { name: "Lecce", code: "LE", region: "Puglia" },
-    { name: "Lecco", code: "LC", region: "Lombardia" },
-    { name: "Livorno", code: "LI", region: "Toscana" },
-    { name: "Lodi", code: "LO", region: "Lombardia" },
-    { name: "Lucca", code: "LU", region: "Toscana" },
-    { name: "Macerata", code: "MC", region: "Marche" },
-    { name: "Mantova", code: "MN", region: "Lombardia" },
-    { name: "Massa-Carrara", code: "MS", region: "Toscana" },
-    { name: "Matera", code: "MT", region: "Basilicata" },
-    { name: "Medio Campidano", code: "VS", region: "Sardegna" },
-    { name: "Messina", code: "ME", region: "Sicilia" },
-    { name: "Milano", code: "MI", region: "Lombardia" },
-    { name: "Modena", code: "MO", region: "Emilia-Romagna" },
-    { name: "Monza e della Brianza", code: "MB", region: "Lombardia" },
-    { name: "Napoli", code: "NA", region: "Campania" },
-    { name: "Novara", code: "NO", region: "Piemonte" },
-    { name: "Nuoro", code: "NU", region: "Sardegna" },
-    { name: "Ogliastra", code: "OG", region: "Sardegna" },
-    { name: "Olbia-Tempio", code: "OT", region: "Sardegna" },
-    { name: "Oristano", code: "OR", region: "Sardegna" },
-    { name: "Padova", code: "PD", region: "Veneto" },
-    { name: "Palermo", code: "PA", region: "Sicilia" },
-    { name: "Parma", code: "PR", region: "Emilia-Romagna" },
-    { name: "Pavia", code: "PV", region: "Lombardia" },
-    { name: "Perugia", code: "PG", region: "Umbria" },
-    { name: "Pesaro e Urbino", code: "PU", region: "Marche" },
-    { name: "Pescara", code: "PE", region: "Abruzzo" },
-    { name: "Piacenza", code: "PC", region: "Emilia-Romagna" },
-    { name: "Pisa", code: "PI", region: "Toscana" },
-    { name: "Pistoia", code: "PT", region: "Toscana" },
-    { name: "Pordenone", code: "PN", region: "Friuli-Venezia Giulia" },
-    { name: "Potenza", code: "PZ", region: "Basilicata" },
-    { name: "Prato", code: "PO", region: "Toscana" },
-    { name: "Ragusa", code: "RG", region: "Sicilia" },
-    { name: "Ravenna", code: "RA", region: "Emilia-Romagna" },
-    { name: "Reggio Calabria", code: "RC", region: "Calabria" },
-    { name: "Reggio Emilia", code: "RE", region: "Emilia-Romagna" },
-    { name: "Rieti", code: "RI", region: "Lazio" },
-    { name: "Rimini", code: "RN", region: "Emilia-Romagna" },
-    { name: "Roma", code: "RM", region: "Lazio" },
-    { name: "Rovigo", code: "RO", region: "Veneto" },
-    { name: "Salerno", code: "SA", region: "Campania" },
-    { name: "Sassari", code: "SS", region: "Sardegna" },
-    { name: "Savona", code: "SV", region: "Liguria" },
-    { name: "Siena", code: "SI", region: "Toscana" },
-    { name: "Siracusa", code: "SR", region: "Sicilia" },
-    { name: "Sondrio", code: "SO", region: "Lombardia" },
-    { name: "Taranto", code: "TA", region: "Puglia" },
-    { name: "Teramo", code: "TE", region: "Abruzzo" },
-    { name: "Terni", code: "TR", region: "Umbria" },
-    { name: "Torino", code: "TO", region: "Piemonte" },
-    { name: "Trapani", code: "TP", region: "Sicilia" },
-    { name: "Trento", code: "TN", region: "Trentino-Alto Adige" },
-    { name: "Treviso", code: "TV", region: "Veneto" },
-    { name: "Trieste", code: "TS", region: "Friuli-Venezia Giulia" },
-    { name: "Udine", code: "UD", region: "Friuli-Venezia Giulia" },
-    { name: "Varese", code: "VA", region: "Lombardia" },
-    { name: "Venezia", code: "VE", region: "Veneto" },
-    { name: "Verbano-Cusio-Ossola", code: "VB", region: "Piemonte" },
-    { name: "Vercelli", code: "VC", region: "Piemonte" },
-    { name: "Verona", code: "VR", region: "Veneto" },
-    { name: "Vibo Valentia", code: "VV", region: "Calabria" },
-    { name: "Vicenza", code: "VI", region: "Veneto" },
-    { name: "Viterbo", code: "VT", region: "Lazio" }
-];
-
-// Generate map for fast lookup by Name or Code (both uppercase)
-const PROVINCE_MAP: { [key: string]: { code: string, region: string, name: string } } = {};
-
-ITALIAN_PROVINCES.forEach(p => {
-    const entry = { code: p.code, region: p.region, name: p.name };
-    // Map Name Upper
-    PROVINCE_MAP[p.name.toUpperCase()] = entry;
-    // Map Code Upper
-    PROVINCE_MAP[p.code.toUpperCase()] = entry;
-    
-    // Handle variants with accents (e.g. Forli vs Forlì)
-    if (p.name.includes('ì') || p.name.includes('à') || p.name.includes('è') || p.name.includes('ò') || p.name.includes('ù')) {
-         const normalized = p.name.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toUpperCase();
-         PROVINCE_MAP[normalized] = entry;
-    }
-});
-
-// Manual overrides for specific input variations
-PROVINCE_MAP['MONZA E BRIANZA'] = PROVINCE_MAP['MONZA E DELLA BRIANZA'];
-PROVINCE_MAP['CARBONIA IGLESIAS'] = PROVINCE_MAP['CARBONIA-IGLESIAS'];
-PROVINCE_MAP['MEDIO-CAMPIDANO'] = PROVINCE_MAP['MEDIO CAMPIDANO'];
-PROVINCE_MAP['OLBIA TEMPIO'] = PROVINCE_MAP['OLBIA-TEMPIO'];
-PROVINCE_MAP['PESARO URBINO'] = PROVINCE_MAP['PESARO E URBINO'];
-PROVINCE_MAP['REGGIO NELL\'EMILIA'] = PROVINCE_MAP['REGGIO EMILIA'];
-PROVINCE_MAP['BOLZANO/BOZEN'] = PROVINCE_MAP['BOLZANO'];
-PROVINCE_MAP['AOSTA/AOSTE'] = PROVINCE_MAP['AOSTA'];
-
-
-const getProvinceDetails = (input: string) => {
-    const key = String(input).toUpperCase().trim();
-    if (PROVINCE_MAP[key]) {
-        return PROVINCE_MAP[key];
+// Province name/code -> current Salesforce picklist value, code and region (see services/provinces.ts)
+export const getProvinceDetails = (input: string, date: Date = new Date()) => {
+    const resolved = resolveProvince(input, date);
+    if (resolved) {
+        const { code, region, name } = resolved.province;
+        return { code, region, name };
     }
     // Fallback logic
+    const key = String(input).toUpperCase().trim();
     if (key.length === 2) {
         return { code: key, region: '', name: input }; // Use input as name if code is unknown
     }
     return { code: key.substring(0, 2).toUpperCase(), region: '', name: input }; // Use input as name
 };
 
-const generateExternalId = (provinceCode: string, municipality: string, section: string, sheet: string, parcel: string) => {
+export const isKnownProvince = (input: any): boolean => resolveProvince(input) !== null;
+
+export const generateExternalId = (provinceCode: string, municipality: string, section: string, sheet: string, parcel: string) => {
     const mun = String(municipality).toUpperCase().replace(/\s+/g, '');
     const sec = section && section.trim() !== '' ? section.trim() : 'X';
     
@@ -373,14 +248,15 @@ const generateExternalId = (provinceCode: string, municipality: string, section:
     return `${provinceCode}-${mun}-${sec}-${sheetStr}-${parcelStr}`;
 };
 
-const formatDecimalForCsv = (val: any): string => {
+export const formatDecimalForCsv = (val: any): string => {
     if (val === null || val === undefined || val === '') return '';
     // Ensure it uses comma for decimal separator for European standard CSVs often used here
     return String(val).replace('.', ',');
 };
 
 
-const mapToCsvRow = (row: any, status: string) => {
+// Neutral lead data for one parcel; export targets decide labels and formats (see services/exportTargets.ts)
+export const toLeadRecord = (row: any, status: string, exportDate: Date = new Date()): LeadRecord => {
     const provDetails = getProvinceDetails(row['Province']);
     const provinceCode = provDetails.code;
     const region = provDetails.region;
@@ -396,14 +272,13 @@ const mapToCsvRow = (row: any, status: string) => {
         row['Parcel']
     );
     
-    // 'True'/'False' strings for CSV
-    let hasVariousOwners = 'False';
-    let numberOfOwners = '';
+    let hasVariousOwners = false;
+    let numberOfOwners: any = '';
     
     if (row['Number of Owners'] !== undefined && row['Number of Owners'] !== null && row['Number of Owners'] !== '') {
-        numberOfOwners = String(row['Number of Owners']);
+        numberOfOwners = row['Number of Owners'];
          if (Number(row['Number of Owners']) > 1) {
-            hasVariousOwners = 'True';
+            hasVariousOwners = true;
         }
     }
     
@@ -426,33 +301,58 @@ const mapToCsvRow = (row: any, status: string) => {
     // "Minimum Scope Group" and "Name" (combined) are NOT in the list.
 
     return {
-        "Land External ID": sanitize(externalId),
-        "Lead Status": status,
-        "Land Province": sanitize(provinceName),
-        "Land Region": sanitize(region),
-        "Municipality": sanitize(row['Municipality']),
-        "Sezione": sanitize(row['Section']),
-        "Foglio": sanitize(row['Sheet']),
-        "Particella": sanitize(row['Parcel']),
-        "Cadastral Area (Ha)": formatDecimalForCsv(row['Cadastral Area (Ha)']),
-        "Main Owner Name": truncate(sanitize(firstName), 40),
-        "Main Owner Last Name": truncate(lastName, 80),
-        "Email": sanitize(row['Email']),
-        "Fiscal Code": sanitize(row['Fiscal Code']),
-        "CP": sanitize(row['CP']),
-        "Has Various Owners": hasVariousOwners,
-        "Number of Owners": numberOfOwners,
-        "All Owners": truncate(sanitize(row['All Owners']), 255)
+        externalId: sanitize(externalId),
+        leadStatus: sanitize(row['Lead Status Override']) || status,
+        province: sanitize(provinceName),
+        provinceCode: sanitize(provinceCode),
+        region: sanitize(region),
+        municipality: sanitize(row['Municipality']),
+        istatCode: lookupIstatCode(row['Municipality'], provinceCode, registryProvinceMatches),
+        section: sanitize(row['Section']),
+        foglio: sanitize(row['Sheet']),
+        particella: sanitize(row['Parcel']),
+        area: row['Cadastral Area (Ha)'] ?? '',
+        firstName,
+        lastName,
+        email: sanitize(row['Email']),
+        fiscalCode: sanitize(row['Fiscal Code']),
+        fiscalCodeStatus: sanitize(row['Fiscal Code Status']),
+        cp: sanitize(row['CP']),
+        hasVariousOwners,
+        numberOfOwners,
+        allOwners: sanitize(row['All Owners']),
+        ownershipTotal: row['Ownership Total'] ?? '',
+        ownershipStatus: sanitize(row['Ownership Status']),
+        lineageMatch: row['Lineage Match'] === true,
+        predecessorIds: sanitize(row['Predecessor External IDs']),
+        exportDate,
     };
 };
 
+// Salesforce import row (the layout of csvScouted/csvRetrieved/csvContacted)
+export const mapToCsvRow = (row: any, status: string) => {
+    return formatLeadRecord(toLeadRecord(row, status), SALESFORCE_TARGET);
+};
+
 // --- Core Transformation Logic ---
-const runProcess = (inputData: any, resultsData: any, log: LogFunction, inputJson?: any, resultsJson?: any): OutputData => {
+
+// Cap on per-row detail lines so large files don't flood the log console
+const MAX_LOGGED_ISSUES = 10;
+
+export const runProcess = (
+    inputData: any,
+    resultsData: any,
+    log: LogFunction,
+    progress: ProgressFunction = () => {},
+    policy: OwnerPolicy = DEFAULT_OWNER_POLICY,
+    overrides: ParcelOverride[] = []
+): OutputData => {
 
     const inputSheet = inputData['Hoja1'] || inputData['Sheet1'];
 
     // --- 1. PREPARE BASE DF (from Input file) ---
     log("Preparing base data (Carga 1)...");
+    progress('Preparing base data', 0);
     let raw_base = [...inputSheet];
     raw_base = raw_base.filter(row => row['Parcel_ID'] != null && row['Parcel_ID'] !== '');
 
@@ -461,11 +361,38 @@ const runProcess = (inputData: any, resultsData: any, log: LogFunction, inputJso
     const pidMap = new Map<string, Set<string>>(); // ParcelID -> Set<ExternalID>
     const df_base: any[] = [];
     let duplicateCount = 0;
+    const registryChecks = new Map<any, MunicipalityCheck>(); // Input row -> ISTAT registry result
+    const mappedProvinces = new Map<any, ProvinceResolution>(); // Input row -> abolished or ambiguous province and the entity taken
+    const landOverrides = new Map<any, ParcelOverride>(); // Input row -> manual override for that land
+    const appliedOverrides: { override: ParcelOverride, externalId: string, changes: string[] }[] = [];
+
+    // Parcel splits and merges from the optional Variations sheet of the Input workbook
+    const { variations, skipped: skippedVariations } = parseVariations(inputData['Variations'] || []);
+    const landRef = (row: any): ParcelRef => ({ comune: String(row['Municipality'] ?? ''), foglio: row['Sheet'], particella: row['Parcel'] });
 
     raw_base.forEach(row => {
         // Map common fields
         row['Province'] = row['provincia'];
         row['Municipality'] = row['comune'];
+
+        // Check comune/provincia against the ISTAT registry; fix typos and unrecognised provinces before the External ID is built
+        // Abolished provinces (e.g. Carbonia-Iglesias) map to the current picklist value; the comune picks between successors
+        // and between the entities sharing a reused code (SU)
+        const province = resolveProvince(row['provincia'], new Date(), row['comune']);
+        if (province?.retired) {
+            row['Province'] = province.province.name;
+        }
+        if (province && (province.retired || province.ambiguous.length > 0)) {
+            mappedProvinces.set(row, province);
+        }
+
+        const registryCheck = checkMunicipality(row['comune'], province ? province.province.code : null, registryProvinceMatches);
+        registryChecks.set(row, registryCheck);
+        if (registryCheck.status === 'corrected' && registryCheck.municipality) {
+            row['Municipality'] = registryCheck.municipality.name;
+        } else if (registryCheck.status === 'province-from-registry' && registryCheck.municipality) {
+            row['Province'] = registryCheck.municipality.province;
+        }
         row['Sheet'] = String(row['foglio']).split('.')[0];
         row['Parcel'] = String(row['particella']).split('.')[0];
         row['Cadastral Area (Ha)'] = row['Area'];
@@ -487,7 +414,35 @@ const runProcess = (inputData: any, resultsData: any, log: LogFunction, inputJso
 
         if (!seenIds.has(extId)) {
             seenIds.add(extId);
-            df_base.push(row);
+            // Per-run land fields (lineage, overrides) go on a copy: a re-run on the same Input data must not inherit them
+            const land = { ...row };
+            // External IDs the parcel had before a split or merge, so Salesforce can link the new land to the old records
+            const predecessors = variations.length > 0 ? walkLineage(variations, landRef(row), 'predecessor') : [];
+            if (predecessors.length > 0) {
+                land['Predecessor External IDs'] = predecessors
+                    .map(step => generateExternalId(provDetails.code, row['Municipality'], row['Section'], step.ref.foglio, step.ref.particella))
+                    .join(', ');
+            }
+            const override = findOverride(overrides, extId, pid);
+            if (!override) {
+                df_base.push(land);
+            } else if (override.exclude) {
+                appliedOverrides.push({ override, externalId: extId, changes: ['excluded from every Carga'] });
+            } else {
+                // Land fields are set before Carga 1 so every Carga carries them; owner fields wait for processOwnersForLand
+                const changes: string[] = [];
+                if (override.cp) {
+                    changes.push(`CP '${land['CP'] ?? ''}' -> '${override.cp}'`);
+                    land['CP'] = override.cp;
+                }
+                if (override.leadStatus) {
+                    changes.push(`Lead Status -> '${override.leadStatus}'`);
+                    land['Lead Status Override'] = override.leadStatus;
+                }
+                appliedOverrides.push({ override, externalId: extId, changes });
+                landOverrides.set(land, override);
+                df_base.push(land);
+            }
         } else {
             duplicateCount++;
         }
@@ -502,17 +457,60 @@ const runProcess = (inputData: any, resultsData: any, log: LogFunction, inputJso
     if (duplicateCount > 0) {
         log(`Removed ${duplicateCount} duplicate parcel(s).`, 'info');
     }
+
+    if (mappedProvinces.size > 0) {
+        log(`Warning: ${mappedProvinces.size} Input row(s) use an abolished province, or a code an abolished one also had, and were mapped to a current one.`, 'error');
+        Array.from(mappedProvinces.entries()).slice(0, MAX_LOGGED_ISSUES).forEach(([row, p]) => {
+            const from = p.retired ? `${p.retired.name}, abolished ${p.retired.validTo}` : 'code also used by an abolished province';
+            const choice = p.ambiguous.length > 0 ? `; '${row['comune']}' could be in ${p.ambiguous.map(a => a.code).join('/')}, check it` : '';
+            log(`  Parcel_ID ${row['Parcel_ID']}: '${row['provincia']}' (${from}) -> ${p.province.name} (${p.province.code})${choice}`, 'error');
+        });
+        if (mappedProvinces.size > MAX_LOGGED_ISSUES) {
+            log(`  ...and ${mappedProvinces.size - MAX_LOGGED_ISSUES} more.`, 'error');
+        }
+    }
+
+    const registryIssues = Array.from(registryChecks.entries()).filter(([, c]) => c.status !== 'ok' && c.status !== 'unknown');
+    if (registryIssues.length > 0) {
+        log(`ISTAT registry: ${registryIssues.length} Input row(s) with a corrected comune, a guessed province or a comune from another province. See the quality report.`, 'info');
+        registryIssues.slice(0, MAX_LOGGED_ISSUES).forEach(([row, c]) => {
+            if (c.status === 'corrected') {
+                log(`  Parcel_ID ${row['Parcel_ID']}: comune '${row['comune']}' corrected to '${c.municipality?.name}' (similarity ${c.score})`, 'info');
+            } else if (c.status === 'province-from-registry') {
+                log(`  Parcel_ID ${row['Parcel_ID']}: province '${row['provincia']}' not recognised, using ${c.municipality?.province} from the registry`, 'info');
+            } else {
+                log(`  Parcel_ID ${row['Parcel_ID']}: '${row['comune']}' is in ${c.candidates.map(m => m.province).join('/')}, not '${row['provincia']}'`, 'error');
+            }
+        });
+        if (registryIssues.length > MAX_LOGGED_ISSUES) {
+            log(`  ...and ${registryIssues.length - MAX_LOGGED_ISSUES} more.`, 'info');
+        }
+    }
     
+    if (variations.length > 0 || skippedVariations.length > 0) {
+        const withPredecessors = df_base.filter(row => row['Predecessor External IDs']).length;
+        log(`Variations: ${variations.length} parcel variation(s) read; ${withPredecessors} land(s) have predecessor parcels.`, 'info');
+        if (skippedVariations.length > 0) {
+            const listed = skippedVariations.slice(0, MAX_LOGGED_ISSUES).join(', ');
+            log(`Warning: ${skippedVariations.length} Variations row(s) skipped (missing old foglio/particella or new particella): row ${listed}${skippedVariations.length > MAX_LOGGED_ISSUES ? ', ...' : ''}`, 'error');
+        }
+    }
+
     if (ambiguousPids.size > 0) {
         log(`Warning: Detected ${ambiguousPids.size} Parcel_IDs associated with multiple distinct lands (Ambiguous IDs). Enabling geographic filtering...`, 'info');
     }
     
     // --- GENERATE CARGA 1 ---
     log("Generating Carga 1: Scouted Lands...");
+    progress('Generating Carga 1', 10);
     const carga1_cols = ['Province', 'Municipality', 'Section', 'Sheet', 'Parcel', 'Cadastral Area (Ha)', 'CP'];
     const scouted = df_base.map(row => {
         const newRow: {[key: string]: any} = {};
         carga1_cols.forEach(col => newRow[col] = row[col] || '');
+        // Kept so an edit in the preview, which re-generates the CSV row from this one, does not drop them
+        ['Lead Status Override', 'Predecessor External IDs'].forEach(col => {
+            if (row[col]) newRow[col] = row[col];
+        });
         return newRow;
     });
 
@@ -521,6 +519,7 @@ const runProcess = (inputData: any, resultsData: any, log: LogFunction, inputJso
 
     // --- 2. PREPARE RETRIEVED DATA (CARGA 2) ---
     log("Preparing 'Retrieved' data (Carga 2)...");
+    progress('Indexing owners', 15);
 
     const pec_map = new Map<string, string>();
     resultsData['All_Companies_Found']
@@ -545,6 +544,15 @@ const runProcess = (inputData: any, resultsData: any, log: LogFunction, inputJso
         return acc;
     }, {});
 
+    // Cadastral parcel -> Parcel_ID, from the Input rows and any All_Raw_Data rows that carry foglio/particella
+    const parcelIndex: { ref: ParcelRef, pid: string }[] = [];
+    if (variations.length > 0) {
+        raw_base.forEach(row => parcelIndex.push({ ref: landRef(row), pid: String(row['Parcel_ID']) }));
+        rawData
+            .filter((r: any) => r.Parcel_ID && r.foglio && r.particella)
+            .forEach((r: any) => parcelIndex.push({ ref: { comune: muniColRaw ? String(r[muniColRaw] ?? '') : '', foglio: r.foglio, particella: r.particella }, pid: String(r.Parcel_ID) }));
+    }
+
     // Group Owners_Normalized by Parcel_ID
     const df_owners_clean = resultsData['Owners_Normalized'].filter((row: any) => row.Parcel_ID);
     const owners_norm_by_pid = df_owners_clean.reduce((acc: any, row: any) => {
@@ -554,21 +562,187 @@ const runProcess = (inputData: any, resultsData: any, log: LogFunction, inputJso
         return acc;
     }, {});
     
-    log("Resolving owner data with ambiguity checks, Corporate Priority, and Over-Ownership resolution...");
+    log("Resolving owner data with ambiguity checks, the owner selection policy, and Over-Ownership resolution...");
+    log(`Owner selection policy: ${describePolicy(policy)}`);
+    const filterRules = enabledRules(policy, 'filter');
+    const mainOwnerRules = enabledRules(policy, 'main-owner');
+    const nameSources = enabledRules(policy, 'name-source');
 
-    let corporatePriorityCount = 0;
+    const policyFilterCounts = new Map<OwnerRuleId, number>(); // Filter rule -> parcels it removed owners from
     let overOwnershipResolvedCount = 0;
     let dataConflictCount = 0;
+    const quotaConflicts: { pid: string, total: number }[] = [];
+    const invalidFiscalCodes: { pid: string, cf: string }[] = [];
+    const lineageMatches: { pid: string, detail: string }[] = [];
+    const lowConfidenceMunis: { pid: string, raw: string, land: string, score: number }[] = [];
+    const audit: ParcelAudit[] = [];
+    const owners: OwnerContact[] = [];
+
+    // Full name split by the parser: people get first/last name, companies and public bodies the whole name as last name
+    const splitFullName = (fullName: any, cf: any): { first: string, last: string } => {
+        const parsed = parseOwnerName(fullName, normalizeFiscalCode(cf));
+        return parsed.entityType === 'person' ? { first: parsed.firstName, last: parsed.lastName } : { first: '', last: parsed.name };
+    };
+
+    // One contact row per owner: Owners_Normalized rows when they matched, otherwise the remaining All_Raw_Data rows
+    const buildOwnerContacts = (externalId: string, pid: any, normRows: any[], rawRows: any[], mainCf: string): OwnerContact[] => {
+        const seen = new Map<string, OwnerContact>();
+        const sources = normRows.length > 0
+            ? normRows.map((r: any) => {
+                const raw = rawRows.find((x: any) => x.cf_owner === r.owner_cf);
+                const split = raw && raw.nome && raw.cognome;
+                const name = split ? { first: raw.nome, last: raw.cognome } : splitFullName(r.owner_name, r.owner_cf);
+                return { cf: r.owner_cf, ...name, quota: r.quota, right: ownerRight(r) };
+            })
+            : rawRows.map((r: any) => {
+                const split = r.nome && r.cognome;
+                const name = split ? { first: r.nome, last: r.cognome } : splitFullName(r.denominazione_owner || r.owner_name || '', r.cf_owner);
+                return { cf: r.cf_owner, ...name, quota: '', right: ownerRight(r) };
+            });
+
+        const contacts: OwnerContact[] = [];
+        sources.forEach(o => {
+            const cf = normalizeFiscalCode(o.cf);
+            const rightLabel = OWNERSHIP_RIGHT_LABELS[o.right];
+            // The same owner listed twice on a parcel is one contact, holding every right listed for them
+            const key = cf || `${o.first}|${o.last}`;
+            const existing = seen.get(key);
+            if (existing) {
+                const rights = existing['Ownership Right'].split(' + ').filter(Boolean);
+                if (rightLabel && !rights.includes(rightLabel)) existing['Ownership Right'] = [...rights, rightLabel].join(' + ');
+                return;
+            }
+            const ownerType = classifyOwner(cf);
+            const contact: OwnerContact = {
+                'Land External ID': externalId,
+                'Parcel_ID': sanitize(pid),
+                'First Name': truncate(sanitize(o.first), 40),
+                'Last Name': truncate(sanitize(o.last), 80),
+                'Fiscal Code': cf,
+                'Fiscal Code Status': cf ? OWNER_TYPE_LABELS[ownerType] : '',
+                'Quota': sanitize(o.quota),
+                'Ownership Right': rightLabel,
+                'Email': sanitize(pec_map.get(o.cf) || ''),
+                'Is Company': ownerType === 'company' ? 'True' : 'False',
+                'Is Main Owner': cf && cf === normalizeFiscalCode(mainCf) ? 'True' : 'False',
+            };
+            seen.set(key, contact);
+            contacts.push(contact);
+        });
+        return contacts;
+    };
+
+    const formatAllOwners = (rows: any[], describe: (r: any) => { name: string, extras: string[] }): string => {
+        const format = (r: any, withRight: boolean): string => {
+            const { name, extras } = describe(r);
+            const all = [...extras, withRight ? OWNERSHIP_RIGHT_LABELS[ownerRight(r)] : ''].filter(Boolean).join(', ');
+            return all ? `${name} [${all}]` : name;
+        };
+        const owned = rows.filter(r => isOwnershipRight(ownerRight(r)));
+        const groups = [owned.map(r => format(r, true)).join(', ')];
+        (['usufruct', 'surface', 'emphyteusis', 'other'] as OwnershipRight[]).forEach(right => {
+            const holders = rows.filter(r => ownerRight(r) === right);
+            if (holders.length > 0) groups.push(`${OWNERSHIP_RIGHT_LABELS[right]}: ${holders.map(r => format(r, false)).join(', ')}`);
+        });
+        return groups.filter(Boolean).join('; ');
+    };
+
+    // Main owner: the candidate ranked first by the policy's main-owner criteria, compared in order; the earlier row wins a full tie
+    const pickMainOwner = (candidates: any[], quotaOf: (r: any) => number, cfOf: (r: any) => any): any => {
+        const score = (r: any, rule: OwnerRuleId): number => {
+            if (rule === 'highest-quota') return quotaOf(r);
+            if (rule === 'ownership-right') return isOwnershipRight(ownerRight(r)) ? 1 : 0;
+            return pec_map.has(cfOf(r)) ? 1 : 0;
+        };
+        let best: any = null;
+        for (const candidate of candidates) {
+            if (best === null) {
+                best = candidate;
+                continue;
+            }
+            for (const rule of mainOwnerRules) {
+                const diff = score(candidate, rule) - score(best, rule);
+                if (diff !== 0) {
+                    if (diff > 0) best = candidate;
+                    break;
+                }
+            }
+        }
+        return best;
+    };
+
+    // "Full or bare ownership (Bare ownership), then Highest quota (0.5), then Owner with a PEC (yes)" for the audit trail
+    const mainOwnerCriteria = (quota: number, cf: any, right: OwnershipRight, rules: OwnerRuleId[] = mainOwnerRules): string => {
+        if (rules.length === 0) return 'First';
+        return rules.map((rule, i) => {
+            const value = rule === 'highest-quota' ? quota : rule === 'ownership-right' ? (OWNERSHIP_RIGHT_LABELS[right] || 'no right stated') : pec_map.has(cf) ? 'yes' : 'no';
+            return `${i === 0 ? '' : 'then '}${getOwnerRule(rule)?.name || rule} (${value})`;
+        }).join(', ');
+    };
+
+    // Parcel_IDs holding the owners of the nearest related parcel, successors first (the Input usually lags behind the
+    // register); every parcel at that distance with owners counts, as the parts of a split keep the owners of the whole
+    const findLineageOwners = (landRow: any): { pids: string[], steps: LineageStep[] } | null => {
+        const ownPid = String(landRow.Parcel_ID);
+        for (const direction of ['successor', 'predecessor'] as LineageDirection[]) {
+            const steps = walkLineage(variations, landRef(landRow), direction);
+            for (let depth = 1; depth <= MAX_LINEAGE_DEPTH; depth++) {
+                const found = steps
+                    .filter(step => step.depth === depth)
+                    .map(step => ({ step, pids: parcelIndex.filter(e => e.pid !== ownPid && raw_by_pid[e.pid] && sameParcel(e.ref, step.ref)).map(e => e.pid) }))
+                    .filter(f => f.pids.length > 0);
+                if (found.length > 0) {
+                    return { pids: Array.from(new Set(found.flatMap(f => f.pids))), steps: found.map(f => f.step) };
+                }
+            }
+        }
+        return null;
+    };
 
     const processOwnersForLand = (landRow: any) => {
         const pid = landRow.Parcel_ID;
         const muni = landRow.Municipality;
         
         let validFiscalCodes = new Set<string>();
-        let mainOwnerRow: any = null;
         let cpValue = '';
 
-        const rawRows = raw_by_pid[pid] || [];
+        const events: AuditEvent[] = [];
+        const rawName = (r: any) => cleanOwnerName(r.denominazione_owner || `${r.nome || ''} ${r.cognome || ''}`);
+
+        // First/last name from the first name source of the policy that has one. A person's full name is split into
+        // first and last name; a company or public body keeps its whole name in Last Name with First Name empty.
+        const resolveOwnerName = (cf: any, split: any, fullName: string, fullNameColumn: string): { first: string, last: string } => {
+            for (const source of nameSources) {
+                if (source === 'split-name' && split && split.nome && split.cognome) {
+                    events.push({ step: 'name-source', outcome: 'info', cf, detail: 'nome/cognome from All_Raw_Data' });
+                    return { first: split.nome, last: split.cognome };
+                }
+                if (source === 'full-name' && cleanOwnerName(fullName)) {
+                    const parsed = parseOwnerName(fullName, normalizeFiscalCode(cf));
+                    const as = parsed.entityType === 'person' ? `first name '${parsed.firstName}', last name '${parsed.lastName}'` : `${parsed.entityType} '${parsed.name}'`;
+                    events.push({ step: 'name-source', outcome: 'info', cf, detail: `Parsed ${fullNameColumn} '${fullName}' as ${as}` });
+                    return splitFullName(fullName, cf);
+                }
+            }
+            events.push({ step: 'name-source', outcome: 'info', cf, detail: 'No name source enabled in the owner policy has a name for this owner' });
+            return { first: '', last: '' };
+        };
+
+        let rawRows = raw_by_pid[pid] || [];
+        let ownerPids = [pid];
+
+        // Step 0: a parcel without owners of its own may have been split or merged; follow the Variations sheet
+        let lineageDetail = '';
+        if (rawRows.length === 0 && parcelIndex.length > 0) {
+            const lineage = findLineageOwners(landRow);
+            if (lineage) {
+                ownerPids = lineage.pids;
+                rawRows = lineage.pids.flatMap(p => raw_by_pid[p]);
+                lineageDetail = `${lineage.steps.map(describeLineageStep).join(', ')}, Parcel_ID ${lineage.pids.join(', ')}`;
+                lineageMatches.push({ pid: String(pid), detail: lineageDetail });
+                events.push({ step: 'lineage', outcome: 'matched', detail: `No All_Raw_Data rows for this Parcel_ID; owners taken from ${lineageDetail}` });
+            }
+        }
         
         // Step 1: Filter Raw Data to find matching owners (Geographic Filter)
         let filteredRaw = rawRows;
@@ -577,35 +751,60 @@ const runProcess = (inputData: any, resultsData: any, log: LogFunction, inputJso
         // Even if ID not ambiguous, filtering is safer if column exists.
         if (muniColRaw && (ambiguousPids.has(String(pid)) || rawRows.length > 0)) {
              filteredRaw = rawRows.filter((r: any) => {
-                const rMuni = normalizeMuni(r[muniColRaw]);
-                // Simple check: matches fully OR implies inclusion (e.g. "Comune di X" matches "X")
-                return rMuni === normalizeMuni(muni) || rMuni.includes(normalizeMuni(muni));
+                // Fuzzy match: accents, apostrophes, "S."/"Sant'", "Comune di ..." and bilingual names are normalized first
+                const match = matchMunicipality(r[muniColRaw], muni);
+                const keep = match.matched;
+                if (match.lowConfidence) {
+                    lowConfidenceMunis.push({ pid: String(pid), raw: String(r[muniColRaw] ?? ''), land: String(muni ?? ''), score: match.score });
+                }
+                events.push({
+                    step: 'geo-filter', outcome: keep ? 'kept' : 'dropped', cf: r.cf_owner, name: rawName(r),
+                    detail: keep
+                        ? `'${r[muniColRaw]}' matches '${muni}' (similarity ${match.score}${match.lowConfidence ? ', low confidence' : ''})`
+                        : `'${r[muniColRaw]}' does not match '${muni}' (similarity ${match.score})`,
+                });
+                return keep;
              });
              // If aggressive filtering removed everyone (mismatch in naming), fall back to all rows ONLY if ID is NOT ambiguous
              if (filteredRaw.length === 0 && !ambiguousPids.has(String(pid))) {
                  filteredRaw = rawRows;
+                 events.push({ step: 'geo-fallback', outcome: 'info', detail: `No row matched '${muni}'; Parcel_ID is not ambiguous, so all ${rawRows.length} row(s) were restored` });
              }
         }
         
-        // --- STEP 1b: Corporate Priority Rule ---
-        // Check if any owner in the filtered list is a Company (CF starts with digit)
-        const hasCompany = filteredRaw.some((r: any) => {
-            const cf = String(r.cf_owner || '').trim();
-            return cf.length > 0 && /^\d/.test(cf);
-        });
+        // Owners of this land before the policy filters, for the quota total (Step 3b)
+        const parcelCfs = new Set(filteredRaw.map((r: any) => r.cf_owner).filter(Boolean));
 
-        if (hasCompany) {
+        // --- STEP 1b: Owner policy filters (Corporate Priority, Individual Priority, public entities) ---
+        filterRules.forEach(rule => {
             const originalCount = filteredRaw.length;
-            filteredRaw = filteredRaw.filter((r: any) => {
-                const cf = String(r.cf_owner || '').trim();
-                // Keep if it looks like a company (starts with digit)
-                return /^\d/.test(cf);
-            });
-            
+            if (rule === 'exclude-public-entities') {
+                filteredRaw = filteredRaw.filter((r: any) => {
+                    const keep = !isPublicEntityCode(r.cf_owner);
+                    if (!keep) {
+                        events.push({ step: 'public-entity', outcome: 'dropped', cf: r.cf_owner, name: rawName(r), detail: 'Public or non-commercial entity excluded by the owner policy' });
+                    }
+                    return keep;
+                });
+            } else {
+                // Keep only owners of the preferred type, if the parcel has any
+                const preferred = rule === 'corporate-priority' ? 'company' : 'person';
+                if (!filteredRaw.some((r: any) => policyOwnerType(r.cf_owner) === preferred)) return;
+                filteredRaw = filteredRaw.filter((r: any) => {
+                    const keep = policyOwnerType(r.cf_owner) === preferred;
+                    if (!keep) {
+                        events.push({
+                            step: rule === 'corporate-priority' ? 'corporate-priority' : 'individual-priority', outcome: 'dropped', cf: r.cf_owner, name: rawName(r),
+                            detail: rule === 'corporate-priority' ? 'Individual owner dropped because a company owner exists' : 'Company owner dropped because an individual owner exists',
+                        });
+                    }
+                    return keep;
+                });
+            }
             if (filteredRaw.length < originalCount) {
-                 corporatePriorityCount++; // Track that we modified this parcel
+                policyFilterCounts.set(rule, (policyFilterCounts.get(rule) || 0) + 1); // Track that we modified this parcel
             }
-        }
+        });
         // -----------------------------------------
 
         // Collect Valid CFs and CP from valid rows
@@ -614,30 +813,51 @@ const runProcess = (inputData: any, resultsData: any, log: LogFunction, inputJso
             if(r.CP) cpValue = r.CP;
         });
 
-        // Step 2: Determine Main Owner from Filtered Raw Rows
-        if (filteredRaw.length > 0) {
-            mainOwnerRow = filteredRaw[0];
-        }
+        // Step 2: Determine Main Owner from Filtered Raw Rows (no quotas here, so only the right and PEC criteria can reorder them)
+        const rawOwnerRules = mainOwnerRules.filter(rule => rule !== 'highest-quota');
+        const mainOwnerRow = pickMainOwner(filteredRaw, () => 0, (r: any) => r.cf_owner);
 
         // Step 3: Filter Normalized Owners using Valid Fiscal Codes
-        const normRows = owners_norm_by_pid[pid] || [];
-        let relevantNormRows = normRows.filter((r: any) => validFiscalCodes.has(r.owner_cf));
-        
-        // Step 4: Determine Main Owner from Normalized Data (Highest Quota)
-        let maxQuota = -1;
-        let mainOwnerNorm: any = null;
-        
-        relevantNormRows.forEach((r: any) => {
-            const q = parseQuota(r.quota);
-            if (q > maxQuota) {
-                maxQuota = q;
-                mainOwnerNorm = r;
-            }
+        const normRows = ownerPids.flatMap(p => owners_norm_by_pid[p] || []);
+        const matchedNormRows = normRows.filter((r: any) => {
+            const matched = validFiscalCodes.has(r.owner_cf);
+            events.push({
+                step: 'normalized-match', outcome: matched ? 'matched' : 'unmatched', cf: r.owner_cf, name: cleanOwnerName(r.owner_name), quota: String(r.quota ?? ''),
+                detail: matched
+                    ? `Quota parsed as ${parseQuota(r.quota)}${OWNERSHIP_RIGHT_LABELS[ownerRight(r)] ? `, right: ${OWNERSHIP_RIGHT_LABELS[ownerRight(r)]}` : ''}`
+                    : 'Fiscal code not among the remaining All_Raw_Data owners',
+            });
+            return matched;
+        });
+
+        // Step 3b: Over-Ownership resolution. Same-CF rows that push the quota sum above 1 are counted once.
+        // The total covers every owner of the land, including those the policy filters dropped; a shared Parcel_ID is
+        // limited to the owners left by the geographic filter. The main owner is still picked among the matched rows.
+        const parcelNormRows = ambiguousPids.has(String(pid)) ? normRows.filter((r: any) => parcelCfs.has(r.owner_cf)) : normRows;
+        const ownership = resolveOwnership(parcelNormRows, parseQuota, ownerRight);
+        const relevantNormRows = ownership.rows.filter((r: any) => matchedNormRows.includes(r));
+        ownership.duplicates.forEach((r: any) => {
+            events.push({ step: 'ownership-total', outcome: 'dropped', cf: r.owner_cf, name: cleanOwnerName(r.owner_name), quota: String(r.quota ?? ''), detail: 'Duplicate row for an owner already counted; inflated the quota sum' });
         });
+        if (ownership.resolved) overOwnershipResolvedCount++;
+        if (ownership.status === 'over' || ownership.status === 'under') {
+            dataConflictCount++;
+            quotaConflicts.push({ pid: String(pid), total: roundQuota(ownership.total) });
+        }
+        if (ownership.rows.length > 0) {
+            events.push({ step: 'ownership-total', outcome: 'info', detail: `Quotas sum to ${roundQuota(ownership.total)} (${OWNERSHIP_STATUS_LABELS[ownership.status]})` });
+        }
+        
+        // Step 4: Determine Main Owner from Normalized Data (by default the highest quota)
+        const mainOwnerNorm: any = pickMainOwner(relevantNormRows, (r: any) => parseQuota(r.quota), (r: any) => r.owner_cf);
 
         // Construct result for this parcel
         // We augment the original landRow with owner info
         const resultRow = { ...landRow };
+        if (lineageDetail) {
+            resultRow['Lineage Match'] = true;
+            resultRow['Lineage'] = lineageDetail;
+        }
         let finalFirstName = '';
         let finalLastName = '';
         
@@ -649,72 +869,211 @@ const runProcess = (inputData: any, resultsData: any, log: LogFunction, inputJso
                 resultRow['Email'] = pec_map.get(mainOwnerNorm.owner_cf);
             }
             resultRow['Fiscal Code'] = mainOwnerNorm.owner_cf;
+            events.push({
+                step: 'main-owner', outcome: 'selected', cf: mainOwnerNorm.owner_cf, name: cleanOwnerName(mainOwnerNorm.owner_name), quota: String(mainOwnerNorm.quota ?? ''),
+                detail: `${mainOwnerCriteria(parseQuota(mainOwnerNorm.quota), mainOwnerNorm.owner_cf, ownerRight(mainOwnerNorm))} among ${relevantNormRows.length} Owners_Normalized row(s); first row wins ties`,
+            });
 
             // Try to find specific raw record for this normalized owner to get Split Names (Nome/Cognome)
             const matchingRaw = filteredRaw.find((r: any) => r.cf_owner === mainOwnerNorm.owner_cf);
-            
-            if (matchingRaw && matchingRaw.nome && matchingRaw.cognome) {
-                // If we have distinct First/Last name in raw data, use them.
-                finalFirstName = matchingRaw.nome;
-                finalLastName = matchingRaw.cognome;
-            } else {
-                // If we only have the Full Name string from normalized data
-                // We map Full Name to Last Name (to avoid duplication in Salesforce Name field)
-                // and leave First Name empty.
-                finalLastName = cleanOwnerName(mainOwnerNorm.owner_name);
-                finalFirstName = ''; 
-            }
+            ({ first: finalFirstName, last: finalLastName } = resolveOwnerName(mainOwnerNorm.owner_cf, matchingRaw, mainOwnerNorm.owner_name, 'owner_name'));
 
         } else if (mainOwnerRow) {
             // Fallback: Raw Data
             resultRow['Fiscal Code'] = mainOwnerRow.cf_owner;
+            events.push({
+                step: 'main-owner', outcome: 'selected', cf: mainOwnerRow.cf_owner, name: rawName(mainOwnerRow),
+                detail: rawOwnerRules.length > 0
+                    ? `No Owners_Normalized match; ${mainOwnerCriteria(0, mainOwnerRow.cf_owner, ownerRight(mainOwnerRow), rawOwnerRules)} among ${filteredRaw.length} remaining All_Raw_Data row(s); first row wins ties`
+                    : 'No Owners_Normalized match; first remaining All_Raw_Data row used',
+            });
              if (pec_map.has(mainOwnerRow.cf_owner)) {
                 resultRow['Email'] = pec_map.get(mainOwnerRow.cf_owner);
             }
 
-            if (mainOwnerRow.nome && mainOwnerRow.cognome) {
-                 finalFirstName = mainOwnerRow.nome;
-                 finalLastName = mainOwnerRow.cognome;
-            } else {
-                 // Only have denominazione or composite
-                 const name = mainOwnerRow.denominazione_owner || mainOwnerRow.owner_name || '';
-                 finalLastName = cleanOwnerName(name);
-                 finalFirstName = '';
-            }
+            // Only have denominazione or composite when nome/cognome are missing
+            ({ first: finalFirstName, last: finalLastName } = resolveOwnerName(mainOwnerRow.cf_owner, mainOwnerRow, mainOwnerRow.denominazione_owner || mainOwnerRow.owner_name || '', 'denominazione_owner'));
+        } else {
+            events.push({ step: 'no-owner', outcome: 'info', detail: rawRows.length === 0 ? 'Parcel_ID not found in All_Raw_Data' : 'All All_Raw_Data rows were filtered out' });
         }
         
+        // Flag malformed codes instead of passing them silently to the Salesforce "Fiscal Code" field
+        const fiscalCode = normalizeFiscalCode(resultRow['Fiscal Code']);
+        if (fiscalCode) {
+            const ownerType = classifyOwner(fiscalCode);
+            resultRow['Fiscal Code Status'] = OWNER_TYPE_LABELS[ownerType];
+            if (ownerType === 'invalid') invalidFiscalCodes.push({ pid: String(pid), cf: fiscalCode });
+        } else {
+            resultRow['Fiscal Code Status'] = '';
+        }
+
         resultRow['Main Owner Name'] = finalFirstName;
         resultRow['Main Owner Last Name'] = finalLastName;
         
         resultRow['Number of Owners'] = relevantNormRows.length > 0 ? relevantNormRows.length : filteredRaw.length;
         
-        // Generate All Owners String: Name [CF, Quota], ...
+        // Generate All Owners String: Name [CF, Quota, Right], ... with usufructuaries and other limited rights
+        // listed after the owners: "...; Usufruct: Name [CF, Quota]"
         if (relevantNormRows.length > 0) {
-            resultRow['All Owners'] = relevantNormRows.map((r: any) => {
+            resultRow['All Owners'] = formatAllOwners(relevantNormRows, (r: any) => {
                 const name = cleanOwnerName(r.owner_name);
-                const cf = r.owner_cf || '';
-                const q = r.quota || '';
-                const extras = [cf, q].filter(Boolean).join(', ');
-                return extras ? `${name} [${extras}]` : name;
-            }).join(', ');
+                return { name, extras: [r.owner_cf || '', r.quota || ''] };
+            });
         } else {
-             resultRow['All Owners'] = filteredRaw.map((r: any) => {
+             resultRow['All Owners'] = formatAllOwners(filteredRaw, (r: any) => {
                  const name = cleanOwnerName(r.denominazione_owner || `${r.nome || ''} ${r.cognome || ''}`);
-                 const cf = r.cf_owner || '';
-                 const extras = [cf].filter(Boolean).join(', ');
-                 return extras ? `${name} [${extras}]` : name;
-             }).join(', ');
+                 return { name, extras: [r.cf_owner || ''] };
+             });
         }
 
         resultRow['CP'] = cpValue;
+
+        const provDetails = getProvinceDetails(landRow.Province);
+        const externalId = generateExternalId(provDetails.code, landRow.Municipality, landRow.Section, landRow.Sheet, landRow.Parcel);
+        owners.push(...buildOwnerContacts(externalId, pid, relevantNormRows, filteredRaw, resultRow['Fiscal Code']));
+
+        resultRow['Ownership Total'] = ownership.rows.length > 0 ? roundQuota(ownership.total) : '';
+        resultRow['Ownership Status'] = ownership.rows.length > 0 ? OWNERSHIP_STATUS_LABELS[ownership.status] : '';
+
+        audit.push({
+            parcelId: String(pid),
+            externalId,
+            municipality: String(muni ?? ''),
+            events,
+        });
         
         return resultRow;
     };
 
+    // Manual override on top of the resolved owner. A forced fiscal code brings that owner's name and PEC along when the
+    // owner is listed on the parcel. Otherwise the owner is added to the Owners dataset and All Owners, and the resolved
+    // owner's name is cleared so the lead does not pair one person's name with another's code. Name and email fields win over both.
+    const applyOwnerOverride = (resultRow: any, override: ParcelOverride, parcelAudit: ParcelAudit): string[] => {
+        const changes: string[] = [];
+        const set = (column: string, value: any) => {
+            const previous = String(resultRow[column] ?? '');
+            if (previous === String(value)) return;
+            changes.push(`${column} '${previous}' -> '${value}'`);
+            resultRow[column] = value;
+        };
+        const contacts = owners.filter(o => o['Land External ID'] === parcelAudit.externalId);
+
+        if (override.fiscalCode) {
+            const cf = normalizeFiscalCode(override.fiscalCode);
+            const ownerType = classifyOwner(cf);
+            const listed = contacts.find(o => o['Fiscal Code'] === cf);
+            set('Fiscal Code', cf);
+            resultRow['Fiscal Code Status'] = OWNER_TYPE_LABELS[ownerType];
+            set('Email', pec_map.get(cf) || '');
+            if (listed) {
+                set('Main Owner Name', listed['First Name']);
+                set('Main Owner Last Name', listed['Last Name']);
+            } else {
+                changes.push(`fiscal code '${cf}' is not listed on the parcel; owner added`);
+                set('Main Owner Name', '');
+                set('Main Owner Last Name', '');
+                const name = sanitize(`${override.lastName} ${override.firstName}`);
+                const entry = name ? `${name} [${cf}]` : `[${cf}]`;
+                set('All Owners', resultRow['All Owners'] ? `${entry}, ${resultRow['All Owners']}` : entry);
+                set('Number of Owners', (Number(resultRow['Number of Owners']) || 0) + 1);
+                owners.push({
+                    'Land External ID': parcelAudit.externalId,
+                    'Parcel_ID': sanitize(resultRow.Parcel_ID),
+                    'First Name': truncate(sanitize(override.firstName), 40),
+                    'Last Name': truncate(sanitize(override.lastName), 80),
+                    'Fiscal Code': cf,
+                    'Fiscal Code Status': OWNER_TYPE_LABELS[ownerType],
+                    'Quota': '',
+                    'Ownership Right': '',
+                    'Email': sanitize(override.email || pec_map.get(cf) || ''),
+                    'Is Company': ownerType === 'company' ? 'True' : 'False',
+                    'Is Main Owner': 'True',
+                });
+            }
+            contacts.forEach(o => {
+                o['Is Main Owner'] = o['Fiscal Code'] === cf ? 'True' : 'False';
+            });
+        }
+        if (override.email) set('Email', override.email);
+        if (override.firstName) set('Main Owner Name', override.firstName);
+        if (override.lastName) set('Main Owner Last Name', override.lastName);
+        if (override.lastName && !Number(resultRow['Number of Owners'])) set('Number of Owners', 1);
+        if (override.cp) resultRow['CP'] = override.cp; // processOwnersForLand took the CP from All_Raw_Data; logged with the land fields
+
+        parcelAudit.events.push({ step: 'override', outcome: 'info', cf: resultRow['Fiscal Code'], detail: `Manual override '${override.key}': ${describeOverride(override)}` });
+        return changes;
+    };
+
     // Calculate owner data for all parcels (needed for both Retrieved and Contacted)
-    const retrievedRaw = df_base.map(row => processOwnersForLand(row));
+    // Owner resolution is the bulk of the work: report it between 20% and 90%, only when the integer percentage changes
+    let lastPercent = -1;
+    const retrievedRaw = df_base.map((row, i) => {
+        const percent = 20 + Math.floor((i / Math.max(1, df_base.length)) * 70);
+        if (percent !== lastPercent) {
+            lastPercent = percent;
+            progress(`Resolving owners (${i}/${df_base.length} parcels)`, percent);
+        }
+        const resultRow = processOwnersForLand(row);
+        const override = landOverrides.get(row);
+        if (override) {
+            // processOwnersForLand has just added this parcel's audit entry
+            const changes = applyOwnerOverride(resultRow, override, audit[audit.length - 1]);
+            appliedOverrides.find(a => a.override === override && a.externalId === audit[audit.length - 1].externalId)?.changes.push(...changes);
+        }
+        return resultRow;
+    });
+
+    if (appliedOverrides.length > 0) {
+        log(`Applied ${appliedOverrides.length} manual override(s):`, 'info');
+        appliedOverrides.forEach(({ override, externalId, changes }) => {
+            const warnings = overrideWarnings(override);
+            const what = changes.length > 0 ? changes.join(', ') : 'no change (values already match)';
+            log(`  ${externalId}${override.key.toUpperCase() === externalId.toUpperCase() ? '' : ` (Parcel_ID ${override.key})`}: ${what}${warnings.length > 0 ? `; warning: ${warnings.join(', ')}` : ''}`, warnings.length > 0 ? 'error' : 'info');
+        });
+    }
+    const unusedOverrides = overrides.filter(o => !appliedOverrides.some(a => a.override === o));
+    if (unusedOverrides.length > 0) {
+        log(`Warning: ${unusedOverrides.length} manual override(s) match no parcel in this run.`, 'error');
+        unusedOverrides.slice(0, MAX_LOGGED_ISSUES).forEach(o => log(`  '${o.key}': ${describeOverride(o)}`, 'error'));
+        if (unusedOverrides.length > MAX_LOGGED_ISSUES) {
+            log(`  ...and ${unusedOverrides.length - MAX_LOGGED_ISSUES} more.`, 'error');
+        }
+    }
     
-    if (corporatePriorityCount > 0) log(`Applied Corporate Priority to ${corporatePriorityCount} parcels.`, 'info');
+    if (lineageMatches.length > 0) {
+        log(`Matched owners through parcel lineage for ${lineageMatches.length} land(s) without owners under their own Parcel_ID. Flagged in 'Lineage Match'.`, 'info');
+        lineageMatches.slice(0, MAX_LOGGED_ISSUES).forEach(({ pid, detail }) => log(`  Parcel_ID ${pid}: ${detail}`, 'info'));
+        if (lineageMatches.length > MAX_LOGGED_ISSUES) {
+            log(`  ...and ${lineageMatches.length - MAX_LOGGED_ISSUES} more.`, 'info');
+        }
+    }
+
+    policyFilterCounts.forEach((count, rule) => log(`Applied ${getOwnerRule(rule)?.name || rule} to ${count} parcels.`, 'info'));
+
+    if (lowConfidenceMunis.length > 0) {
+        log(`Warning: ${lowConfidenceMunis.length} owner row(s) kept on a low-confidence municipality match. Check the Audit sheet.`, 'error');
+        lowConfidenceMunis.slice(0, MAX_LOGGED_ISSUES).forEach(({ pid, raw, land }) => log(`  Parcel_ID ${pid}: '${raw}' ~ '${land}'`, 'error'));
+        if (lowConfidenceMunis.length > MAX_LOGGED_ISSUES) {
+            log(`  ...and ${lowConfidenceMunis.length - MAX_LOGGED_ISSUES} more.`, 'error');
+        }
+    }
+    if (overOwnershipResolvedCount > 0) log(`Resolved Over-Ownership (duplicate owner rows) on ${overOwnershipResolvedCount} parcels.`, 'info');
+
+    if (dataConflictCount > 0) {
+        log(`Warning: ${dataConflictCount} parcel(s) have owner quotas that do not add up to 1. See 'Ownership Status'.`, 'error');
+        quotaConflicts.slice(0, MAX_LOGGED_ISSUES).forEach(({ pid, total }) => log(`  Parcel_ID ${pid}: quotas sum to ${total}`, 'error'));
+        if (quotaConflicts.length > MAX_LOGGED_ISSUES) {
+            log(`  ...and ${quotaConflicts.length - MAX_LOGGED_ISSUES} more.`, 'error');
+        }
+    }
+
+    if (invalidFiscalCodes.length > 0) {
+        log(`Warning: ${invalidFiscalCodes.length} main owner(s) have an invalid fiscal code (checksum or format). Marked as 'Invalid' in 'Fiscal Code Status'.`, 'error');
+        invalidFiscalCodes.slice(0, MAX_LOGGED_ISSUES).forEach(({ pid, cf }) => log(`  Parcel_ID ${pid}: '${cf}'`, 'error'));
+        if (invalidFiscalCodes.length > MAX_LOGGED_ISSUES) {
+            log(`  ...and ${invalidFiscalCodes.length - MAX_LOGGED_ISSUES} more.`, 'error');
+        }
+    }
 
     // --- GENERATE CSVs ---
     // Remove "Minimum Scope Group" from mapping if it exists (it was requested to be removed).
@@ -727,10 +1086,12 @@ const runProcess = (inputData: any, resultsData: any, log: LogFunction, inputJso
 
     const csvRetrieved = retrieved.map(row => mapToCsvRow(row, 'Retrieved'));
     log(`-> Carga 2 generated with ${retrieved.length} rows.`, 'success');
+    log(`-> Owners dataset generated with ${owners.length} contacts.`, 'success');
 
     // --- 3. PREPARE CONTACTED DATA (CARGA 3) ---
     // Filter Carga 2 for those in Final_Mailing_By_Parcel
     log("Preparing 'Contacted' data (Carga 3)...");
+    progress('Generating Carga 3', 95);
     
     const mailingList = resultsData['Final_Mailing_By_Parcel'] || [];
     // Create set of external IDs or Parcel IDs to match
@@ -748,41 +1109,130 @@ const runProcess = (inputData: any, resultsData: any, log: LogFunction, inputJso
     
     log(`-> Carga 3 generated with ${contacted.length} rows.`, 'success');
 
+    // --- 4. DATA QUALITY CHECKS ---
+    log("Running data quality checks...");
+    progress('Running quality checks', 97);
+
+    const externalIdsByPid = new Map<string, string[]>();
+    pidMap.forEach((extIds, pid) => externalIdsByPid.set(pid, Array.from(extIds)));
+
+    const quality = runQualityChecks({
+        inputRows: inputSheet
+            .map((row: any, i: number) => ({ row, excelRow: i + 2 }))
+            .filter(({ row }: any) => row['Parcel_ID'] != null && row['Parcel_ID'] !== '')
+            .map(({ row, excelRow }: any) => {
+                const provDetails = getProvinceDetails(row['Province']);
+                const registry = registryChecks.get(row);
+                const mapped = mappedProvinces.get(row);
+                return {
+                    row: excelRow,
+                    parcelId: String(row['Parcel_ID']),
+                    externalId: generateExternalId(provDetails.code, row['Municipality'], row['Sezione'], row['Sheet'], row['Parcel']),
+                    province: String(row['provincia'] ?? ''),
+                    provinceKnown: isKnownProvince(row['provincia']) || registry?.status === 'province-from-registry',
+                    municipality: String(row['comune'] ?? ''),
+                    registry,
+                    provinceRetired: Boolean(mapped?.retired),
+                    provinceMappedTo: mapped ? `${mapped.province.name} (${mapped.province.code})` : '',
+                    provinceCandidates: mapped ? mapped.ambiguous.map(p => p.code) : [],
+                    foglio: row['foglio'],
+                    particella: row['particella'],
+                    area: row['Area'],
+                };
+            }),
+        ownerRows: [
+            ...rawData.map((r: any, i: number) => ({
+                sheet: 'All_Raw_Data' as const,
+                row: i + 2,
+                parcelId: String(r.Parcel_ID ?? ''),
+                cf: normalizeFiscalCode(r.cf_owner),
+                ownerType: classifyOwner(r.cf_owner),
+                rawName: String(r.denominazione_owner || ''),
+                cleanedName: cleanOwnerName(r.denominazione_owner),
+            })),
+            ...resultsData['Owners_Normalized'].map((r: any, i: number) => ({
+                sheet: 'Owners_Normalized' as const,
+                row: i + 2,
+                parcelId: String(r.Parcel_ID ?? ''),
+                cf: normalizeFiscalCode(r.owner_cf),
+                ownerType: classifyOwner(r.owner_cf),
+                rawName: String(r.owner_name || ''),
+                cleanedName: cleanOwnerName(r.owner_name),
+                quota: parseQuota(r.quota),
+            })).filter((o: any) => o.parcelId),
+        ],
+        pecCodes: new Set(Array.from(pec_map.keys()).map(normalizeFiscalCode)),
+        externalIdsByPid,
+    });
+
+    const severityCounts = countBySeverity(quality);
+    log(`Data quality: ${quality.length} issue(s) (${severityCounts.error} errors, ${severityCounts.warning} warnings, ${severityCounts.info} info). Download the quality report for details.`, severityCounts.error > 0 ? 'error' : 'info');
+    progress('Done', 100);
+
     return {
         scouted,
         retrieved,
         contacted,
         csvScouted,
         csvRetrieved,
-        csvContacted
+        csvContacted,
+        audit,
+        quality,
+        owners
     };
 };
 
+// Map a parsed workbook onto canonical sheet/column names using the selected (or auto-detected) profile, then validate it.
+// User-defined profiles are searched after the built-in ones.
+export const prepareWorkbook = (
+    rawJson: { [sheetName: string]: any[] },
+    type: ProfileFileType,
+    log: LogFunction,
+    profileId: string = AUTO_PROFILE_ID,
+    customProfiles: ColumnProfile[] = []
+): { jsonData: { [sheetName: string]: any[] }, validation: ValidationResult, profileId: string } => {
+    const profiles = [...COLUMN_PROFILES, ...customProfiles];
+    const profile = profileId === AUTO_PROFILE_ID ? detectProfile(rawJson, type, profiles) : getProfile(profileId, profiles);
+    if (!profile) {
+        throw new Error(`Unknown column profile '${profileId}'`);
+    }
+    log(`Using column profile '${profile.name}'${profileId === AUTO_PROFILE_ID ? ' (auto-detected)' : ''}.`);
+
+    const { jsonData, renamed } = applyProfile(rawJson, profile, type);
+    if (renamed.length > 0) {
+        log(`Mapped ${renamed.length} sheet/column name(s): ${renamed.join('; ')}`);
+    }
+
+    const validation = type === 'input' ? validateInputFile(jsonData) : validateResultsFile(jsonData);
+    return { jsonData, validation, profileId: profile.id };
+};
+
 export const transformData = async (
     type: 'input' | 'results' | 'process', 
     file: File | null, 
     log: LogFunction,
     inputJson?: any,
-    resultsJson?: any
-): Promise<{ jsonData?: any, validation?: any, output?: OutputData }> => {
+    resultsJson?: any,
+    profileId: string = AUTO_PROFILE_ID,
+    progress: ProgressFunction = () => {},
+    policy: OwnerPolicy = DEFAULT_OWNER_POLICY,
+    overrides: ParcelOverride[] = [],
+    customProfiles: ColumnProfile[] = []
+): Promise<{ jsonData?: any, validation?: any, output?: OutputData, profileId?: string }> => {
     
     if (type === 'process') {
         if (!inputJson || !resultsJson) throw new Error("Missing data for processing");
-        const output = runProcess(inputJson, resultsJson, log);
+        const output = runProcess(inputJson, resultsJson, log, progress, policy, overrides);
         return { output };
     }
 
     if (!file) throw new Error("No file provided");
     
     log(`Reading ${file.name}...`);
-    const jsonData = await readFileSheets(file);
-    
-    let validation: ValidationResult = { isValid: true, errors: [] };
-    if (type === 'input') {
-        validation = validateInputFile(jsonData);
-    } else {
-        validation = validateResultsFile(jsonData);
-    }
-
-    return { jsonData, validation };
+    progress('Reading file', 0);
+    const rawJson = await readFileSheets(file);
+    progress('Validating', 80);
+    const result = prepareWorkbook(rawJson, type, log, profileId, customProfiles);
+    progress('Done', 100);
+    return result;
 };
@@ -0,0 +1,25 @@
+// --- ZIP Archives ---
+// Bundles generated files into one download with the CFB container writer that ships with SheetJS,
+// so the browser (window.XLSX) and the CLI/tests (the xlsx package) need no extra dependency.
+
+export interface ZipEntry {
+    path: string;                                   // "Project A/scouted_data.csv"; folders are created from the path
+    content: string | ArrayBuffer | Uint8Array;     // Strings are stored as UTF-8
+}
+
+const toBytes = (content: ZipEntry['content']): Uint8Array => {
+    if (typeof content === 'string') return new TextEncoder().encode(content);
+    return content instanceof Uint8Array ? content : new Uint8Array(content);
+};
+
+// Characters Windows does not accept in file or folder names
+export const safeFileName = (name: string): string => {
+    return String(name).replace(/[\\/:*?"<>|\x00-\x1f]+/g, '_').replace(/^[\s.]+|[\s.]+$/g, '') || 'untitled';
+};
+
+export const buildZip = (entries: ZipEntry[], xlsx: any = window.XLSX): Uint8Array => {
+    const cfb = xlsx.CFB;
+    const container = cfb.utils.cfb_new();
+    entries.forEach(entry => cfb.utils.cfb_add(container, entry.path, toBytes(entry.content)));
+    return cfb.write(container, { fileType: 'zip', type: 'array', compression: true });
+};
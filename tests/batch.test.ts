@@ -0,0 +1,64 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { assignBatchFile, batchPairProblem, batchProjectName, buildBatchZip, combineBatchCsv, detectFileRole, pairBatchFiles } from '../services/batch';
+import type { OutputData } from '../services/transformer';
+
+const output = (ids: string[]): OutputData => ({
+    scouted: ids.map(() => ({})),
+    retrieved: [],
+    contacted: [],
+    csvScouted: ids.map(id => ({ 'Land External ID': id, 'Lead Status': 'Scouted' })),
+    csvRetrieved: [],
+    csvContacted: [],
+    audit: [],
+    quality: [],
+    owners: [],
+});
+
+describe('batch file pairing', () => {
+    it('detects the file type and project from the file name', () => {
+        expect(detectFileRole('AreaNord_Input.xlsx')).toBe('input');
+        expect(detectFileRole('AreaNord - Results v2.xlsx')).toBe('results');
+        expect(detectFileRole('notes.xlsx')).toBe('unknown');
+        expect(batchProjectName('AreaNord_Input.xlsx')).toBe('AreaNord');
+        expect(batchProjectName('AreaNord - Results v2.xlsx')).toBe('AreaNord');
+        expect(batchProjectName('Lodi Sud Risultati.xlsx')).toBe('Lodi Sud');
+    });
+
+    it('pairs files by project and reports incomplete pairs', () => {
+        const pairs = pairBatchFiles([
+            'AreaNord_Input.xlsx', 'areanord_results.xlsx', 'Lodi Sud Input.xlsx', 'notes.xlsx',
+        ].map(assignBatchFile));
+        expect(pairs.map(p => p.project)).toEqual(['AreaNord', 'Lodi Sud']);
+        expect(batchPairProblem(pairs[0])).toBeNull();
+        expect(batchPairProblem(pairs[1])).toBe('No Results file');
+    });
+
+    it('honours manual assignments', () => {
+        const pairs = pairBatchFiles([
+            { fileName: 'parcels.xlsx', role: 'input', project: 'Pavia' },
+            { fileName: 'owners export.xlsx', role: 'results', project: 'pavia' },
+        ]);
+        expect(pairs).toEqual([{ project: 'Pavia', inputs: ['parcels.xlsx'], results: ['owners export.xlsx'] }]);
+    });
+});
+
+describe('batch outputs', () => {
+    const projects = [
+        { project: 'North', output: output(['BG-A-X-0001-00001', 'BG-B-X-0001-00002']) },
+        { project: 'South', output: output(['BG-B-X-0001-00002', 'LO-C-X-0001-00003']) },
+    ];
+
+    it('combines Carga CSVs deduplicated by External ID, first project first', () => {
+        const combined = combineBatchCsv(projects, 'csvScouted');
+        expect(combined.rows.map(r => r['Land External ID'])).toEqual(['BG-A-X-0001-00001', 'BG-B-X-0001-00002', 'LO-C-X-0001-00003']);
+        expect(combined.duplicates).toEqual([{ externalId: 'BG-B-X-0001-00002', projects: ['North', 'South'] }]);
+    });
+
+    it('writes one ZIP folder per project', () => {
+        const zip = buildBatchZip(projects, XLSX);
+        const paths = XLSX.CFB.read(zip, { type: 'array' }).FullPaths.filter((p: string) => /\.(csv|xlsx)$/.test(p));
+        expect(paths).toContain('Root Entry/North/scouted_data.csv');
+        expect(paths).toContain('Root Entry/South/quality_report.xlsx');
+    });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { applyProfile, detectProfile, getProfile, normalizeProfile, parseStoredProfiles, saveColumnProfile, setProfileAliases, COLUMN_PROFILES } from '../services/columnProfiles';
+import type { ColumnProfile } from '../services/columnProfiles';
+import { prepareWorkbook } from '../services/transformer';
+import { noop } from './helpers';
+
+const byId = (id: string) => getProfile(id) as ColumnProfile;
+
+const standardInput = { Hoja1: [{ provincia: 'BG', comune: 'Treviglio', foglio: '1', particella: '2', Area: 1, Sezione: '', CP: '24047', Parcel_ID: 'P1' }] };
+const englishInput = { Parcels: [{ Province: 'BG', Municipality: 'Treviglio', Sheet: '1', Parcel: '2', 'Area (ha)': 1, Section: '', ZIP: '24047', 'Parcel ID': 'P1' }] };
+
+// A provider that names the sheet 'Lotti' and uses its own headers
+const customProfile = (): ColumnProfile => {
+    let profile = normalizeProfile({ id: 'acme', name: 'Acme Survey' });
+    profile = setProfileAliases(profile, 'input', 'Hoja1', null, ['Lotti']);
+    profile = setProfileAliases(profile, 'input', 'Hoja1', 'comune', ['Citta']);
+    profile = setProfileAliases(profile, 'input', 'Hoja1', 'foglio', ['Fg']);
+    profile = setProfileAliases(profile, 'input', 'Hoja1', 'particella', ['Mapp']);
+    return setProfileAliases(profile, 'input', 'Hoja1', 'Parcel_ID', ['Codice Lotto']);
+};
+const customInput = { Lotti: [{ provincia: 'BG', Citta: 'Treviglio', Fg: '1', Mapp: '2', Area: 1, 'Codice Lotto': 'P1' }] };
+
+describe('detectProfile', () => {
+    it('picks the profile that resolves the most sheets and columns', () => {
+        expect(detectProfile(englishInput, 'input').id).toBe('english');
+        expect(detectProfile({ Particelle: [{ 'Sigla Provincia': 'BG', 'Nome Comune': 'Treviglio', Mappale: '2' }] }, 'input').id).toBe('catasto-it');
+    });
+
+    it('keeps the standard layout on a tie', () => {
+        expect(detectProfile(standardInput, 'input').id).toBe('default');
+        expect(detectProfile({}, 'results').id).toBe('default');
+    });
+
+    it('considers user-defined profiles only when they are passed in', () => {
+        expect(detectProfile(customInput, 'input').id).not.toBe('acme');
+        expect(detectProfile(customInput, 'input', [...COLUMN_PROFILES, customProfile()]).id).toBe('acme');
+    });
+});
+
+describe('applyProfile', () => {
+    it('renames the sheet and the aliased headers, ignoring case and separators', () => {
+        const { jsonData, renamed } = applyProfile({ parcels: [{ 'postal_code': '24047', province: 'BG', Extra: 'x' }] }, byId('english'), 'input');
+        expect(Object.keys(jsonData)).toEqual(['Hoja1']);
+        expect(jsonData.Hoja1).toEqual([{ CP: '24047', provincia: 'BG', Extra: 'x' }]);
+        expect(renamed).toEqual(["Hoja1: 'province' -> 'provincia'", "Hoja1: 'postal_code' -> 'CP'", "Sheet 'parcels' -> 'Hoja1'"]);
+    });
+
+    it('does not rename an alias when the canonical column is already there', () => {
+        const rows = [{ provincia: 'BG', Province: 'Bergamo' }];
+        const { jsonData, renamed } = applyProfile({ Hoja1: rows }, byId('english'), 'input');
+        expect(jsonData.Hoja1).toBe(rows);
+        expect(renamed).toEqual([]);
+    });
+
+    it('keeps sheets the profile does not map', () => {
+        const { jsonData } = applyProfile({ ...standardInput, Notes: [{ a: 1 }] }, byId('default'), 'input');
+        expect(jsonData.Notes).toEqual([{ a: 1 }]);
+        expect(jsonData.Hoja1).toBe(standardInput.Hoja1);
+    });
+
+    it('maps a workbook with a user-defined profile', () => {
+        const { jsonData } = applyProfile(customInput, customProfile(), 'input');
+        expect(jsonData).toEqual({ Hoja1: [{ provincia: 'BG', comune: 'Treviglio', foglio: '1', particella: '2', Area: 1, Parcel_ID: 'P1' }] });
+    });
+});
+
+describe('user-defined profiles', () => {
+    it('rebuilds stored profiles on the standard layout', () => {
+        const profile = normalizeProfile({
+            id: 'x',
+            input: [{ sheet: 'Hoja1', sheetAliases: [' Lotti ', ''], columns: { comune: ['Citta', 7], unknown: ['Y'] } }, { sheet: 'Other', sheetAliases: ['Z'], columns: {} }],
+        });
+        expect(profile.name).toBe('x');
+        expect(profile.input.map(m => m.sheet)).toEqual(COLUMN_PROFILES[0].input.map(m => m.sheet));
+        expect(profile.input[0].sheetAliases).toEqual(['Lotti']);
+        expect(profile.input[0].columns.comune).toEqual(['Citta', '7']);
+        expect(profile.input[0].columns.unknown).toBeUndefined();
+        expect(profile.results.map(m => m.sheet)).toEqual(COLUMN_PROFILES[0].results.map(m => m.sheet));
+    });
+
+    it('parses one profile or a list and ignores unreadable entries and built-in ids', () => {
+        expect(parseStoredProfiles(JSON.stringify(customProfile())).map(p => p.id)).toEqual(['acme']);
+        expect(parseStoredProfiles(JSON.stringify([customProfile(), { id: 'english' }, { id: 'auto' }, { name: 'no id' }, null])).map(p => p.id)).toEqual(['acme']);
+        expect(parseStoredProfiles('not json')).toEqual([]);
+        expect(parseStoredProfiles(null)).toEqual([]);
+    });
+
+    it('overwrites a saved profile with the same name', () => {
+        const first = saveColumnProfile([], customProfile(), 'Acme');
+        expect(first.saved.id).toMatch(/^custom-/);
+        const edited = setProfileAliases(first.saved, 'input', 'Hoja1', 'CP', ['Cap Postale']);
+        const second = saveColumnProfile(first.profiles, edited, ' acme ');
+        expect(second.profiles).toHaveLength(1);
+        expect(second.saved.id).toBe(first.saved.id);
+        expect(second.saved.input[0].columns.CP).toEqual(['Cap Postale']);
+        expect(saveColumnProfile(second.profiles, customProfile(), 'Other').profiles).toHaveLength(2);
+    });
+
+    it('is used by prepareWorkbook for auto-detection and by id', () => {
+        const auto = prepareWorkbook(customInput, 'input', noop, 'auto', [customProfile()]);
+        expect(auto.profileId).toBe('acme');
+        expect(auto.jsonData.Hoja1[0]).toMatchObject({ comune: 'Treviglio', Parcel_ID: 'P1' });
+        expect(prepareWorkbook(customInput, 'input', noop, 'acme', [customProfile()]).profileId).toBe('acme');
+        expect(() => prepareWorkbook(customInput, 'input', noop, 'acme')).toThrow("Unknown column profile 'acme'");
+    });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { changesOnly, compareWithPrevious, deltaToRows, leadStatusRank, parsePreviousExport, sameValue } from '../services/delta';
+import type { PreviousExport } from '../services/delta';
+import type { OutputData } from '../services/transformer';
+
+const lead = (id: string, status: string, area: string, owner: string) => ({ 'Land External ID': id, 'Lead Status': status, 'Area': area, 'Main Owner Name': owner });
+
+const output: OutputData = {
+    scouted: [],
+    retrieved: [],
+    contacted: [],
+    csvScouted: [],
+    csvRetrieved: [
+        lead('A', 'Retrieved', '1,25', 'ROSSI'),   // new
+        lead('B', 'Retrieved', '1,25', 'ROSSI'),   // unchanged (1.25 == 1,25)
+        lead('C', 'Retrieved', '2', 'VERDI'),      // changed owner
+        lead('D', 'Retrieved', '3', 'BIANCHI'),    // blocked, only the status differs
+        lead('E', 'Retrieved', '4', 'NERI'),       // blocked with a real change
+    ],
+    csvContacted: [],
+    audit: [],
+    quality: [],
+    owners: [],
+};
+
+// A Salesforce report with API field names
+const previousRows = [
+    { Land_External_ID__c: 'B', Lead_Status__c: 'Retrieved', Area__c: '1.25', Main_Owner_Name__c: 'ROSSI' },
+    { Land_External_ID__c: 'C', Lead_Status__c: 'Retrieved', Area__c: '2', Main_Owner_Name__c: 'ROSSI' },
+    { Land_External_ID__c: 'D', Lead_Status__c: 'Contacted', Area__c: '3', Main_Owner_Name__c: 'BIANCHI' },
+    { Land_External_ID__c: 'E', Lead_Status__c: 'Closed Won', Area__c: '4', Main_Owner_Name__c: 'BIANCHI' },
+    { Land_External_ID__c: 'Z', Lead_Status__c: 'Scouted', Area__c: '9', Main_Owner_Name__c: '' },
+];
+
+const load = (rows: any[]): PreviousExport => {
+    const { previous, validation } = parsePreviousExport({ Sheet1: rows });
+    expect(validation.isValid).toBe(true);
+    return previous as PreviousExport;
+};
+
+describe('parsePreviousExport', () => {
+    it('indexes rows by External ID, keeping the first row of a repeated ID', () => {
+        const previous = load([...previousRows, { Land_External_ID__c: 'B', Lead_Status__c: 'Scouted' }, { Land_External_ID__c: ' ' }]);
+        expect(previous.externalIdColumn).toBe('Land_External_ID__c');
+        expect(Array.from(previous.rows.keys())).toEqual(['B', 'C', 'D', 'E', 'Z']);
+        expect(previous.rows.get('B').Lead_Status__c).toBe('Retrieved');
+    });
+
+    it('rejects an empty export or one without an External ID column', () => {
+        expect(parsePreviousExport({ Sheet1: [] }).validation.errors).toEqual(['Previous export is empty.']);
+        const { previous, validation } = parsePreviousExport({ Sheet1: [{ Name: 'x' }] });
+        expect(previous).toBeNull();
+        expect(validation.errors[0]).toMatch(/missing the 'Land External ID' column/);
+    });
+});
+
+describe('compareWithPrevious', () => {
+    const report = compareWithPrevious(output, load(previousRows));
+    const rows = report.cargas.csvRetrieved.rows;
+
+    it('classifies each lead and lists the IDs this run no longer produces', () => {
+        expect(rows.map(r => [r.externalId, r.status, r.blocked])).toEqual([
+            ['A', 'new', false],
+            ['B', 'unchanged', false],
+            ['C', 'changed', false],
+            ['D', 'unchanged', true],
+            ['E', 'changed', true],
+        ]);
+        expect(report.cargas.csvRetrieved.counts).toEqual({ new: 1, changed: 2, unchanged: 2, blocked: 2 });
+        expect(report.missing).toEqual(['Z']);
+    });
+
+    it('diffs fields against report headers and API names', () => {
+        expect(rows[2].changes).toEqual([{ field: 'Main Owner Name', previous: 'ROSSI', current: 'VERDI' }]);
+        expect(rows[4].changes).toEqual([{ field: 'Main Owner Name', previous: 'BIANCHI', current: 'NERI' }]);
+        expect(rows[4].previousLeadStatus).toBe('Closed Won');
+    });
+
+    it('ranks Lead Status along the pipeline', () => {
+        expect(leadStatusRank('')).toBe(0);
+        expect(leadStatusRank(' scouted ')).toBeLessThan(leadStatusRank('Retrieved'));
+        expect(leadStatusRank('Contacted')).toBeLessThan(leadStatusRank('Closed Won'));
+        expect(sameValue('1,25', '1.25')).toBe(true);
+        expect(sameValue('', '0')).toBe(false);
+    });
+});
+
+describe('changesOnly', () => {
+    const report = compareWithPrevious(output, load(previousRows));
+
+    it('sends new and changed leads, keeping the Salesforce Lead Status of blocked ones', () => {
+        const rows = changesOnly(output, report, 'csvRetrieved');
+        expect(rows.map(r => [r['Land External ID'], r['Lead Status']])).toEqual([['A', 'Retrieved'], ['C', 'Retrieved'], ['E', 'Closed Won']]);
+        expect(rows[2]['Main Owner Name']).toBe('NERI');
+        expect(output.csvRetrieved[4]['Lead Status']).toBe('Retrieved');
+    });
+
+    it('marks blocked leads in the delta rows', () => {
+        const rows = deltaToRows(report, 'csvRetrieved');
+        expect(rows.find(r => r['Land External ID'] === 'E')).toMatchObject({ Delta: 'changed', Blocked: 'Yes (Salesforce: Closed Won, kept)', Field: 'Main Owner Name' });
+        expect(rows[rows.length - 1]).toMatchObject({ 'Land External ID': 'Z', Delta: 'missing' });
+    });
+});
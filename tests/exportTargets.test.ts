@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { formatLeadRecord, getExportTarget, serializeForTarget, targetFileName, SALESFORCE_TARGET } from '../services/exportTargets';
+import { mapToCsvRow, toLeadRecord } from '../services/transformer';
+
+const row = {
+    Province: 'BG', Municipality: 'Treviglio', Section: '', Sheet: '12', Parcel: '345', 'Cadastral Area (Ha)': '1.25',
+    'Main Owner Name': 'MARIO', 'Main Owner Last Name': 'ROSSI', 'Number of Owners': 2, 'All Owners': 'ROSSI MARIO, "BIANCHI" LUIGIA',
+    'Ownership Total': 1, 'Ownership Status': 'OK',
+};
+const exportDate = new Date(2025, 2, 7);
+
+describe('export targets', () => {
+    it('the Salesforce target is the mapToCsvRow layout', () => {
+        expect(formatLeadRecord(toLeadRecord(row, 'Retrieved'), SALESFORCE_TARGET)).toEqual(mapToCsvRow(row, 'Retrieved'));
+        expect(serializeForTarget([mapToCsvRow(row, 'Retrieved')], SALESFORCE_TARGET)).toMatch(/^\uFEFF"Land External ID","Lead Status",.*\r\n"BG-TREVIGLIO-X-0012-00345"/s);
+    });
+
+    it('HubSpot uses its own labels, dot decimals, lowercase booleans and US dates', () => {
+        const hubspot = getExportTarget('hubspot')!;
+        const out = formatLeadRecord(toLeadRecord(row, 'Retrieved', exportDate), hubspot);
+        expect(out['Last Name']).toBe('ROSSI');
+        expect(out['City']).toBe('Treviglio');
+        expect(out['Cadastral Area (Ha)']).toBe('1.25');
+        expect(out['Has Various Owners']).toBe('true');
+        expect(out['Import Date']).toBe('03/07/2025');
+        expect(targetFileName(hubspot, 'retrieved')).toBe('retrieved_hubspot.csv');
+    });
+
+    it('generic CSV only quotes values that need it and has no BOM', () => {
+        const generic = getExportTarget('generic-csv')!;
+        const content = serializeForTarget([formatLeadRecord(toLeadRecord(row, 'Retrieved', exportDate), generic)], generic);
+        expect(content.startsWith('external_id,lead_status,')).toBe(true);
+        expect(content).toContain(',"ROSSI MARIO, ""BIANCHI"" LUIGIA",');
+        expect(content).toContain(',2025-03-07');
+    });
+
+    it('JSON Lines keeps native types', () => {
+        const jsonl = getExportTarget('jsonl')!;
+        const line = serializeForTarget([formatLeadRecord(toLeadRecord(row, 'Retrieved', exportDate), jsonl)], jsonl);
+        const parsed = JSON.parse(line.trim());
+        expect(parsed).toMatchObject({ externalId: 'BG-TREVIGLIO-X-0012-00345', area: 1.25, hasVariousOwners: true, numberOfOwners: 2, ownershipTotal: 1, exportDate: '2025-03-07' });
+        expect(targetFileName(jsonl, 'scouted')).toBe('scouted_data.jsonl');
+    });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { classifyOwner, isValidCodiceFiscale, isValidPartitaIva, normalizeFiscalCode, parseFiscalCode, policyOwnerType } from '../services/fiscalCode';
+
+describe('fiscal codes', () => {
+    it('normalizes spacing and case', () => {
+        expect(normalizeFiscalCode(' rssmra80a01 h501u ')).toBe('RSSMRA80A01H501U');
+    });
+
+    it('validates the codice fiscale checksum', () => {
+        expect(isValidCodiceFiscale('RSSMRA80A01H501U')).toBe(true);
+        expect(isValidCodiceFiscale('RSSMRA80A01H501X')).toBe(false);
+        expect(isValidCodiceFiscale('RSSMRA80A01H501')).toBe(false);
+    });
+
+    it('validates the partita IVA check digit', () => {
+        expect(isValidPartitaIva('01234567897')).toBe(true);
+        expect(isValidPartitaIva('01234567890')).toBe(false);
+    });
+
+    it('decodes birth date, sex and Belfiore code, including omocodia', () => {
+        expect(parseFiscalCode('RSSMRA80A01H501U', 2025)).toEqual({ code: 'RSSMRA80A01H501U', type: 'person', birthDate: '1980-01-01', sex: 'M', belfiore: 'H501' });
+        expect(parseFiscalCode('BNCLGU75C41F205O', 2025)).toMatchObject({ birthDate: '1975-03-01', sex: 'F', belfiore: 'F205' });
+        expect(parseFiscalCode('RSSMRA80A01H50MM', 2025)).toMatchObject({ type: 'person', belfiore: 'H501' });
+    });
+
+    it('rejects personal codes with a birth day that does not exist', () => {
+        ['RSSMRA80A00H501V', 'RSSMRA80A32H501C', 'RSSMRA80A72H501G', 'RSSMRA81B29H501R', 'RSSMRA80D31H501D']
+            .forEach(cf => expect(parseFiscalCode(cf, 2025)).toEqual({ code: cf, type: 'invalid' }));
+        expect(parseFiscalCode('RSSMRA80B29H501Q', 2025)).toMatchObject({ type: 'person', birthDate: '1980-02-29' });
+        expect(parseFiscalCode('RSSMRA80D30H501E', 2025)).toMatchObject({ type: 'person', birthDate: '1980-04-30' });
+    });
+
+    it('classifies owners', () => {
+        expect(classifyOwner('01234567897')).toBe('company');
+        expect(classifyOwner('RSSMRA80A01H501U')).toBe('person');
+        expect(classifyOwner('SMNNNA50D12A662X')).toBe('invalid');
+        expect(classifyOwner('')).toBe('invalid');
+    });
+
+    it('treats any numeric code as a company for the owner policy filters', () => {
+        expect(policyOwnerType('01234567890')).toBe('company');
+        expect(policyOwnerType('1234567897')).toBe('company');
+        expect(policyOwnerType('RSSMRA80A01H501X')).toBe('person');
+        expect(policyOwnerType(' ')).toBe('');
+    });
+});
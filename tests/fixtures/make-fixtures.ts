@@ -0,0 +1,66 @@
+// Regenerates tests/fixtures/input.xlsx and results.xlsx.
+// Run with `npx tsx tests/fixtures/make-fixtures.ts`, then refresh the golden CSVs with `UPDATE_GOLDEN=1 npm test`.
+//
+// Each parcel exercises one owner-resolution rule:
+//   P1  two individuals with 1/2 each, "nato a" clause in the name, in the mailing list (Contacted)
+//   P2  company + individual with 1/2 each (Corporate Priority), company listed twice in Owners_Normalized (Over-Ownership)
+//   P3  invalid fiscal code checksum; also a duplicate Input row
+//   P4  ambiguous Parcel_ID used for two lands in different municipalities (geographic filter)
+//   P5  unknown province, quotas adding up to less than 1
+//   P6  no owners found (Scouted only)
+
+import { writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as XLSX from 'xlsx';
+
+const here = dirname(fileURLToPath(import.meta.url));
+
+const writeWorkbook = (fileName: string, sheets: { [sheetName: string]: any[] }) => {
+    const wb = XLSX.utils.book_new();
+    Object.entries(sheets).forEach(([name, rows]) => XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), name));
+    writeFileSync(resolve(here, fileName), XLSX.write(wb, { bookType: 'xlsx', type: 'buffer' }));
+};
+
+writeWorkbook('input.xlsx', {
+    Sheet1: [
+        { provincia: 'Bergamo', comune: 'Treviglio', foglio: '12', particella: '345', Area: '1.25', Sezione: '', CP: '', Parcel_ID: 'P1' },
+        { provincia: 'BG', comune: 'Treviglio', foglio: '12', particella: '346', Area: '0.5', Sezione: 'A', CP: '', Parcel_ID: 'P2' },
+        { provincia: 'Cagliari', comune: "Sant'Antioco", foglio: '3', particella: '77', Area: '2', Sezione: '', CP: '', Parcel_ID: 'P3' },
+        { provincia: 'Bergamo', comune: 'Treviglio', foglio: '12', particella: '345', Area: '1.25', Sezione: '', CP: '', Parcel_ID: 'P1' },
+        { provincia: 'Bergamo', comune: 'Caravaggio', foglio: '5', particella: '10', Area: '3.1', Sezione: '', CP: '24043', Parcel_ID: 'P4' },
+        { provincia: 'Lodi', comune: 'Lodi Vecchio', foglio: '7', particella: '20', Area: '0.75', Sezione: '', CP: '', Parcel_ID: 'P4' },
+        { provincia: 'Xanadu', comune: 'Shangdu', foglio: '1', particella: '2', Area: '', Sezione: '', CP: '', Parcel_ID: 'P5' },
+        { provincia: 'Milano', comune: 'San Donato Milanese', foglio: '40', particella: '1234', Area: '0,8', Sezione: 'B', CP: '', Parcel_ID: 'P6' },
+    ],
+});
+
+writeWorkbook('results.xlsx', {
+    All_Raw_Data: [
+        { Parcel_ID: 'P1', comune: 'Treviglio', cf_owner: 'RSSMRA80A01H501U', denominazione_owner: 'ROSSI MARIO nato a ROMA', nome: 'MARIO', cognome: 'ROSSI', CP: '24047' },
+        { Parcel_ID: 'P1', comune: 'Treviglio', cf_owner: 'BNCLGU75C41F205O', denominazione_owner: 'BIANCHI LUIGIA', nome: '', cognome: '', CP: '24047' },
+        { Parcel_ID: 'P2', comune: 'Treviglio', cf_owner: '01234567897', denominazione_owner: 'AGRICOLA SRL', nome: '', cognome: '', CP: '' },
+        { Parcel_ID: 'P3', comune: 'S. Antioco', cf_owner: 'SMNNNA50D12A662X', denominazione_owner: 'SIMONE ANNA', nome: '', cognome: '', CP: '' },
+        { Parcel_ID: 'P2', comune: 'Treviglio', cf_owner: 'VRDGPP60B02L219M', denominazione_owner: 'VERDI GIUSEPPE', nome: 'GIUSEPPE', cognome: 'VERDI', CP: '' },
+        { Parcel_ID: 'P4', comune: 'Caravaggio', cf_owner: 'GLLLCU70M15F205I', denominazione_owner: 'GALLI LUCA', nome: 'LUCA', cognome: 'GALLI', CP: '24043' },
+        { Parcel_ID: 'P4', comune: 'Lodi Vecchio', cf_owner: 'FRRSRA85T52E648Y', denominazione_owner: 'FERRARI SARA; DI ANTONIO', nome: '', cognome: '', CP: '26855' },
+        { Parcel_ID: 'P5', comune: 'Shangdu', cf_owner: 'CNTPLA55E20A794M', denominazione_owner: 'CONTI PAOLO', nome: 'PAOLO', cognome: 'CONTI', CP: '' },
+    ],
+    Owners_Normalized: [
+        { Parcel_ID: 'P1', owner_name: 'ROSSI MARIO nato a ROMA', owner_cf: 'RSSMRA80A01H501U', quota: '1/2' },
+        { Parcel_ID: 'P1', owner_name: 'BIANCHI LUIGIA', owner_cf: 'BNCLGU75C41F205O', quota: '1/2' },
+        { Parcel_ID: 'P2', owner_name: 'AGRICOLA SRL', owner_cf: '01234567897', quota: '1/2' },
+        { Parcel_ID: 'P2', owner_name: 'AGRICOLA SRL', owner_cf: '01234567897', quota: '500/1000' },
+        { Parcel_ID: 'P2', owner_name: 'VERDI GIUSEPPE', owner_cf: 'VRDGPP60B02L219M', quota: '1/2' },
+        { Parcel_ID: 'P4', owner_name: 'GALLI LUCA', owner_cf: 'GLLLCU70M15F205I', quota: '1/1' },
+        { Parcel_ID: 'P4', owner_name: 'FERRARI SARA; DI ANTONIO', owner_cf: 'FRRSRA85T52E648Y', quota: '1,0' },
+        { Parcel_ID: 'P5', owner_name: 'CONTI PAOLO', owner_cf: 'CNTPLA55E20A794M', quota: '1/3' },
+    ],
+    All_Companies_Found: [
+        { cf: '01234567897', pec_email: 'agricola@pec.it' },
+    ],
+    Final_Mailing_By_Parcel: [
+        { Parcel_ID: 'P1', Full_Name: 'ROSSI MARIO', cf: 'RSSMRA80A01H501U' },
+        { Parcel_ID: 'P2', Full_Name: 'AGRICOLA SRL', cf: '01234567897' },
+    ],
+});
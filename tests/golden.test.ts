@@ -0,0 +1,51 @@
+// Golden-file regression test: runs the fixture workbooks through the full pipeline and compares the three
+// Salesforce CSVs and the Owners dataset with tests/fixtures/golden. Any change to owner resolution shows up as a line diff.
+// After an intended change, refresh the expected files with `UPDATE_GOLDEN=1 npm test` and review the git diff.
+
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { parseWorkbook, prepareWorkbook, runProcess } from '../services/transformer';
+import { buildCsv } from '../services/exporter';
+import type { CsvDatasetKey } from '../services/outputEditor';
+
+const fixtures = resolve(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const goldenDir = resolve(fixtures, 'golden');
+const update = process.env.UPDATE_GOLDEN === '1';
+
+const GOLDEN_FILES: { [key in CsvDatasetKey | 'owners']: string } = {
+    csvScouted: 'scouted_data.csv',
+    csvRetrieved: 'retrieved_data.csv',
+    csvContacted: 'contacted_data.csv',
+    owners: 'owners_data.csv',
+};
+
+const noop = () => {};
+
+const load = (fileName: string, type: 'input' | 'results') => {
+    const raw = parseWorkbook(readFileSync(resolve(fixtures, fileName)), XLSX);
+    const { jsonData, validation } = prepareWorkbook(raw, type, noop);
+    expect(validation.errors).toEqual([]);
+    return jsonData;
+};
+
+// Compare without the BOM and with LF line endings so failures read as plain line diffs
+const normalize = (csv: string) => csv.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+
+describe('golden CSVs', () => {
+    const output = runProcess(load('input.xlsx', 'input'), load('results.xlsx', 'results'), noop);
+
+    (Object.keys(GOLDEN_FILES) as (keyof typeof GOLDEN_FILES)[]).forEach(key => {
+        it(`${GOLDEN_FILES[key]} matches`, () => {
+            const target = resolve(goldenDir, GOLDEN_FILES[key]);
+            const actual = normalize(buildCsv(output[key]));
+            if (update) {
+                mkdirSync(goldenDir, { recursive: true });
+                writeFileSync(target, actual);
+            }
+            expect(actual).toBe(readFileSync(target, 'utf8'));
+        });
+    });
+});
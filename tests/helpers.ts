@@ -0,0 +1,14 @@
+// Shared fixtures for tests that run the pipeline on tests/fixtures/input.xlsx and results.xlsx
+
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as XLSX from 'xlsx';
+import { parseWorkbook, prepareWorkbook } from '../services/transformer';
+
+export const fixtures = resolve(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+export const noop = () => {};
+
+// A fixture workbook, mapped through the column profiles as the app does
+export const load = (fileName: string, type: 'input' | 'results') => prepareWorkbook(parseWorkbook(readFileSync(resolve(fixtures, fileName)), XLSX), type, noop).jsonData;
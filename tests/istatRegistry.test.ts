@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { checkMunicipality, findMunicipalities, getIstatMunicipalities, lookupIstatCode, ISTAT_REGISTRY_COMPLETE } from '../services/istatRegistry';
+import type { ProvinceMatcher } from '../services/istatRegistry';
+import { registryProvinceMatches } from '../services/provinces';
+
+// Province codes as of a day after the 2025 Sardinian reorganisation, read through the (older) registry's codes
+const in2025: ProvinceMatcher = (registryCode, province) => registryProvinceMatches(registryCode, province, new Date(2025, 5, 1));
+const in2020: ProvinceMatcher = (registryCode, province) => registryProvinceMatches(registryCode, province, new Date(2020, 5, 1));
+
+describe('ISTAT registry lookups', () => {
+    it('finds comuni by normalized Italian or other-language name', () => {
+        expect(findMunicipalities('TREVIGLIO')[0]).toMatchObject({ istatCode: '016219', cadastralCode: 'L400', province: 'BG' });
+        expect(findMunicipalities('Bozen')[0].name).toBe('Bolzano');
+        expect(findMunicipalities('Bolzano/Bozen')).toHaveLength(1);
+        expect(findMunicipalities('Forli', 'FC')).toHaveLength(1);
+        expect(findMunicipalities('Treviglio', 'MI')).toEqual([]);
+    });
+
+    it('returns the ISTAT code only for a comune of the given province', () => {
+        expect(lookupIstatCode("Sant'Antioco", 'SU')).toBe('111071');
+        expect(lookupIstatCode('Treviglio', 'LO')).toBe('');
+    });
+
+    it('bundles the full ISTAT list', () => {
+        expect(ISTAT_REGISTRY_COMPLETE).toBe(true);
+        expect(getIstatMunicipalities().length).toBeGreaterThan(7800);
+        expect(lookupIstatCode('Romano di Lombardia', 'BG')).toBe('016183');
+        expect(findMunicipalities('Samone').map(m => m.province).sort()).toEqual(['TN', 'TO']);
+    });
+});
+
+describe('checkMunicipality', () => {
+    it('accepts a comune in its province', () => {
+        expect(checkMunicipality('Lodi Vecchio', 'LO').status).toBe('ok');
+    });
+
+    it('corrects a likely typo within the province', () => {
+        const check = checkMunicipality('Trevilgio', 'BG');
+        expect(check.status).toBe('corrected');
+        expect(check.municipality?.name).toBe('Treviglio');
+        expect(checkMunicipality('Romano di Lombadia', 'BG').municipality?.name).toBe('Romano di Lombardia');
+    });
+
+    it('flags a comune that belongs to another province', () => {
+        const check = checkMunicipality("Sant'Antioco", 'CA');
+        expect(check.status).toBe('province-mismatch');
+        expect(check.candidates.map(m => m.province)).toEqual(['SU']);
+    });
+
+    it('takes an unrecognised province from the registry', () => {
+        expect(checkMunicipality('Caravaggio', null)).toMatchObject({ status: 'province-from-registry', municipality: { province: 'BG' } });
+        expect(checkMunicipality('Shangdu', null).status).toBe('unknown');
+    });
+
+    it('accepts comuni under the province codes in force after the registry date', () => {
+        expect(checkMunicipality('Sanluri', 'VS', in2025).status).toBe('ok');
+        expect(checkMunicipality('Olbia', 'OT', in2025).status).toBe('ok');
+        expect(checkMunicipality('Tempio Pausania', 'OT', in2025).status).toBe('ok');
+        expect(checkMunicipality('Tortolì', 'OG', in2025).status).toBe('ok');
+        expect(checkMunicipality('Olbia', 'SS', in2025).status).toBe('ok');
+        expect(checkMunicipality('Olbia', 'NU', in2025).status).toBe('province-mismatch');
+        expect(checkMunicipality('Sanluri', 'VS', in2020).status).toBe('province-mismatch');
+        expect(checkMunicipality('Sanluri', 'VS').status).toBe('province-mismatch');
+    });
+
+    it('corrects typos and looks up ISTAT codes under the later codes too', () => {
+        expect(checkMunicipality('Sanlury', 'VS', in2025)).toMatchObject({ status: 'corrected', municipality: { name: 'Sanluri' } });
+        expect(lookupIstatCode('Sanluri', 'VS', in2025)).toBe('111067');
+        expect(lookupIstatCode('Olbia', 'OT', in2025)).toBe('090047');
+        expect(lookupIstatCode('Sanluri', 'VS')).toBe('');
+    });
+});
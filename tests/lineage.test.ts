@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { parseVariations, walkLineage } from '../services/lineage';
+import { prepareWorkbook, runProcess } from '../services/transformer';
+import { load, noop } from './helpers';
+
+describe('parcel lineage', () => {
+    // 12/345 split into 12/812 and 12/813, which were later merged into 14/900
+    const { variations, skipped } = parseVariations([
+        { comune: 'Treviglio', foglio_old: '12', particella_old: '345', foglio_new: '', particella_new: '812', tipo: 'Frazionamento', data: '2019-05-02' },
+        { comune: 'Treviglio', foglio_old: '12', particella_old: '345', foglio_new: '12', particella_new: '813', tipo: 'Frazionamento', data: '2019-05-02' },
+        { comune: '', foglio_old: '12', particella_old: '0812', foglio_new: '14', particella_new: '900', tipo: 'Fusione', data: '' },
+        { comune: '', foglio_old: '12', particella_old: '813', foglio_new: '14', particella_new: '900', tipo: 'Fusione', data: '' },
+        { comune: 'Treviglio', foglio_old: '12', particella_old: '', foglio_new: '', particella_new: '999', tipo: '', data: '' },
+    ]);
+
+    it('reads old -> new pairs and reports incomplete rows', () => {
+        expect(variations).toHaveLength(4);
+        expect(variations[0].to).toEqual({ comune: 'Treviglio', foglio: '12', particella: '812' });
+        expect(skipped).toEqual([6]);
+    });
+
+    it('follows splits and merges in both directions, nearest first', () => {
+        const start = { comune: 'Treviglio', foglio: '12', particella: '345' };
+        expect(walkLineage(variations, start, 'successor').map(s => [s.ref.foglio, s.ref.particella, s.depth])).toEqual([
+            ['12', '812', 1],
+            ['12', '813', 1],
+            ['14', '900', 2],
+        ]);
+        const predecessors = walkLineage(variations, { comune: 'Treviglio', foglio: '14', particella: '900' }, 'predecessor');
+        expect(predecessors.map(s => `${s.ref.foglio}/${s.ref.particella}`)).toEqual(['12/0812', '12/813', '12/345']);
+        expect(predecessors[0].ref.comune).toBe('Treviglio');
+        expect(walkLineage(variations, { comune: 'Caravaggio', foglio: '12', particella: '345' }, 'successor')).toEqual([]);
+    });
+
+    it('maps a Variazioni sheet with Italian headers through the column profile', () => {
+        const { jsonData } = prepareWorkbook({
+            Hoja1: [{ provincia: 'BG', comune: 'Treviglio', foglio: '12', particella: '500', Area: '1', Sezione: '', CP: '', Parcel_ID: 'P7' }],
+            Variazioni: [{ Comune: 'Treviglio', 'Foglio Originario': '12', 'Particella Originaria': '500', 'Foglio Derivato': '12', 'Particella Derivata': '345', 'Tipo Variazione': 'Fusione' }],
+        }, 'input', noop);
+        expect(parseVariations(jsonData['Variations']).variations[0]).toMatchObject({ from: { particella: '500' }, to: { particella: '345' }, type: 'Fusione' });
+    });
+});
+
+describe('runProcess with a Variations sheet', () => {
+    const input = load('input.xlsx', 'input');
+    const results = load('results.xlsx', 'results');
+
+    // Land P7 (12/500) was merged into 12/345 (P1), so the register only knows P1's owners
+    const run = () => {
+        const withVariations = JSON.parse(JSON.stringify(input));
+        withVariations['Hoja1'].push({ provincia: 'Bergamo', comune: 'Treviglio', foglio: '12', particella: '500', Area: '0.4', Sezione: '', CP: '', Parcel_ID: 'P7' });
+        withVariations['Variations'] = [{ comune: 'Treviglio', foglio_old: '12', particella_old: '500', foglio_new: '12', particella_new: '345', tipo: 'Fusione', data: '2021-03-04' }];
+        const messages: string[] = [];
+        const output = runProcess(withVariations, JSON.parse(JSON.stringify(results)), (m) => messages.push(m), noop);
+        return { output, messages };
+    };
+
+    it('takes the owners of the successor parcel and flags the match', () => {
+        const { output, messages } = run();
+        const merged = output.csvRetrieved.find(r => r['Land External ID'] === 'BG-TREVIGLIO-X-0012-00500');
+        expect(merged).toMatchObject({ 'Lineage Match': 'True', 'Fiscal Code': 'RSSMRA80A01H501U', 'Number of Owners': '2' });
+        expect(output.retrieved.find(r => r.Parcel_ID === 'P7')?.['Lineage']).toBe('successor 12/345 (Fusione 2021-03-04), Parcel_ID P1');
+        expect(output.owners.filter(o => o['Land External ID'] === 'BG-TREVIGLIO-X-0012-00500')).toHaveLength(2);
+        expect(output.audit.find(a => a.parcelId === 'P7')?.events[0]).toMatchObject({ step: 'lineage', outcome: 'matched' });
+        expect(messages.some(m => m.startsWith('Matched owners through parcel lineage for 1 land(s)'))).toBe(true);
+    });
+
+    it('lists predecessor External IDs on the successor in every Carga', () => {
+        const { output } = run();
+        const current = [...output.csvScouted, ...output.csvRetrieved].filter(r => r['Land External ID'] === 'BG-TREVIGLIO-X-0012-00345');
+        expect(current).toHaveLength(2);
+        current.forEach(r => {
+            expect(r['Predecessor External IDs']).toBe('BG-TREVIGLIO-X-0012-00500');
+            expect(r['Lineage Match']).toBe('False');
+        });
+    });
+});
@@ -0,0 +1,61 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { applyFileNameTemplate, buildRunBundle, sha256Hex, templatedFileName, TRANSFORMER_VERSION } from '../services/manifest';
+import type { OutputData } from '../services/transformer';
+
+const date = new Date(2025, 2, 7, 10, 30);
+
+const output: OutputData = {
+    scouted: [{ 'Land External ID': 'A1' }],
+    retrieved: [],
+    contacted: [],
+    csvScouted: [{ 'Land External ID': 'A1', 'Lead Status': 'Scouted' }],
+    csvRetrieved: [],
+    csvContacted: [],
+    audit: [],
+    quality: [],
+    owners: [],
+};
+
+describe('file name template', () => {
+    it('fills project, name and date', () => {
+        expect(templatedFileName('{project}_{name}_{date}', { project: 'AreaNord', date }, 'scouted_data.csv'))
+            .toBe('AreaNord_scouted_data_2025-03-07.csv');
+        expect(applyFileNameTemplate('{date}-{project}', { project: 'Lodi', date, name: 'log' })).toBe('2025-03-07-Lodi_log');
+    });
+
+    it('drops separators left by an empty project and unsafe characters', () => {
+        expect(templatedFileName('{project}_{name}_{date}', { project: '', date }, 'log.txt')).toBe('log_2025-03-07.txt');
+        expect(templatedFileName('{project}_{name}', { project: 'Nord/Sud', date }, 'log.txt')).toBe('Nord_Sud_log.txt');
+    });
+});
+
+describe('run bundle', () => {
+    it('hashes with SHA-256', async () => {
+        expect(await sha256Hex(new TextEncoder().encode('abc')))
+            .toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
+    it('bundles the output files, the log and the manifest', () => {
+        const { fileName, content, manifest } = buildRunBundle(output, {
+            project: 'AreaNord',
+            profileId: 'default',
+            sources: [{ role: 'input', fileName: 'AreaNord_Input.xlsx', sha256: 'aa' }],
+            logs: [{ timestamp: '10:30:00', type: 'info', message: 'Process started.' }],
+            date,
+        }, XLSX);
+
+        expect(fileName).toBe('AreaNord_outputs_2025-03-07.zip');
+        expect(manifest.transformerVersion).toBe(TRANSFORMER_VERSION);
+        expect(manifest.generatedAt).toBe(date.toISOString());
+        expect(manifest.sources[0].sha256).toBe('aa');
+        expect(manifest.rowCounts.csvScouted).toBe(1);
+        expect(manifest.rowCounts.csvRetrieved).toBe(0);
+
+        const paths = XLSX.CFB.read(content, { type: 'array' }).FullPaths.map((p: string) => p.replace(/^Root Entry\//, ''));
+        expect(paths).toContain('manifest.json');
+        expect(paths).toContain('AreaNord_log_2025-03-07.txt');
+        expect(paths).toContain('AreaNord_scouted_data_2025-03-07.csv');
+        manifest.files.forEach(f => expect(paths).toContain(f.fileName));
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { matchMunicipality, normalizeMunicipality } from '../services/municipality';
+
+describe('normalizeMunicipality', () => {
+    it('strips accents, apostrophes, province suffixes and administrative prefixes', () => {
+        expect(normalizeMunicipality('Forlì')).toBe('forli');
+        expect(normalizeMunicipality("FORLI'")).toBe('forli');
+        expect(normalizeMunicipality('Comune di Treviglio')).toBe('treviglio');
+        expect(normalizeMunicipality('LODI VECCHIO (LO)')).toBe('lodi vecchio');
+    });
+
+    it('unifies saint abbreviations and drops articles', () => {
+        expect(normalizeMunicipality("Sant'Angelo Lodigiano")).toBe(normalizeMunicipality('S. Angelo Lodigiano'));
+        expect(normalizeMunicipality('San Giuliano Milanese')).toBe(normalizeMunicipality('S.Giuliano Milanese'));
+        expect(normalizeMunicipality("Reggio nell'Emilia")).toBe('reggio emilia');
+    });
+});
+
+describe('matchMunicipality', () => {
+    it('matches spelling variants with full confidence', () => {
+        expect(matchMunicipality("Sant'Angelo Lodigiano", 'S. Angelo Lodigiano')).toEqual({ matched: true, score: 1, lowConfidence: false });
+        expect(matchMunicipality('Comune di Forlì', 'Forli').matched).toBe(true);
+    });
+
+    it('matches bilingual names on either language', () => {
+        expect(matchMunicipality('Bolzano/Bozen', 'Bozen').score).toBe(1);
+        expect(matchMunicipality('Aosta', 'Aosta - Aoste').score).toBe(1);
+    });
+
+    it('accepts small typos as low-confidence matches', () => {
+        const match = matchMunicipality('Trevilgio', 'Treviglio');
+        expect(match.matched).toBe(true);
+        expect(match.lowConfidence).toBe(true);
+    });
+
+    it('keeps neighbouring municipalities apart', () => {
+        expect(matchMunicipality('Lodi Vecchio', 'Lodi').matched).toBe(false);
+        expect(matchMunicipality('Caravaggio', 'Lodi Vecchio').matched).toBe(false);
+        expect(matchMunicipality('', 'Lodi').matched).toBe(false);
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { updateOutputCell } from '../services/outputEditor';
+import { emptyOverride } from '../services/overrides';
+import { runProcess } from '../services/transformer';
+import { load, noop } from './helpers';
+
+const P1 = 'BG-TREVIGLIO-X-0012-00345';
+
+describe('editing generated output', () => {
+    const output = runProcess(load('input.xlsx', 'input'), load('results.xlsx', 'results'), noop, noop);
+    const rowOf = (rows: any[]) => rows.findIndex(r => r['Land External ID'] === P1);
+
+    it('carries an owner edit to the same parcel in the other Cargas and their CSVs', () => {
+        const index = rowOf(output.csvRetrieved);
+        const edited = updateOutputCell(output, 'retrieved', index, 'Main Owner Last Name', 'ROSSINI');
+        expect(edited.csvRetrieved[index]['Main Owner Last Name']).toBe('ROSSINI');
+        expect(edited.csvContacted[rowOf(output.csvContacted)]).toMatchObject({ 'Main Owner Last Name': 'ROSSINI', 'Lead Status': 'Contacted' });
+        expect(edited.csvScouted[rowOf(output.csvScouted)]['Main Owner Last Name']).toBe('Pending Owner');
+        expect(output.csvContacted[rowOf(output.csvContacted)]['Main Owner Last Name']).toBe('ROSSI');
+    });
+
+    it('carries a direct CSV edit to the other CSVs but keeps each Lead Status', () => {
+        const index = rowOf(output.csvRetrieved);
+        let edited = updateOutputCell(output, 'csvRetrieved', index, 'Email', 'mario.rossi@pec.it');
+        edited = updateOutputCell(edited, 'csvRetrieved', index, 'Lead Status', 'Contacted');
+        expect(edited.csvContacted[rowOf(output.csvContacted)]['Email']).toBe('mario.rossi@pec.it');
+        expect(edited.csvScouted[rowOf(output.csvScouted)]).toMatchObject({ 'Lead Status': 'Scouted', 'Email': '' });
+        expect(edited.retrieved[index]['Email']).toBe(output.retrieved[index]['Email']);
+    });
+
+    it('keeps a Lead Status override and predecessor parcels when a Scouted row is edited', () => {
+        // Land P7 (12/500) was merged into P1's 12/345
+        const input = load('input.xlsx', 'input');
+        input['Hoja1'].push({ provincia: 'Bergamo', comune: 'Treviglio', foglio: '12', particella: '500', Area: '0.4', Sezione: '', CP: '', Parcel_ID: 'P7' });
+        input['Variations'] = [{ comune: 'Treviglio', foglio_old: '12', particella_old: '500', foglio_new: '12', particella_new: '345', tipo: 'Fusione', data: '2021-03-04' }];
+        const withLineage = runProcess(input, load('results.xlsx', 'results'), noop, noop, undefined, [{ ...emptyOverride(P1), leadStatus: 'Contacted' }]);
+        const index = rowOf(withLineage.csvScouted);
+        const edited = updateOutputCell(withLineage, 'scouted', index, 'CP', '24100');
+        expect(edited.csvScouted[index]).toMatchObject({
+            'CP': '24100',
+            'Lead Status': 'Contacted',
+            'Predecessor External IDs': 'BG-TREVIGLIO-X-0012-00500',
+        });
+    });
+});
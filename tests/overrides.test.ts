@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { emptyOverride, findOverride, overridesToRows, parseOverrideSheet, removeOverride, upsertOverride } from '../services/overrides';
+import type { ParcelOverride } from '../services/overrides';
+import { runProcess } from '../services/transformer';
+import { load, noop } from './helpers';
+
+const P1 = 'BG-TREVIGLIO-X-0012-00345';
+
+describe('override store', () => {
+    it('reads a spreadsheet by header aliases, skipping blank rows and keeping the last row per key', () => {
+        const { overrides, validation } = parseOverrideSheet({
+            Sheet1: [
+                { 'Land External ID': P1, 'Codice Fiscale': ' bnclgu75c41f205o ', 'Escludi': '' },
+                { 'Land External ID': 'P2', 'Codice Fiscale': '', 'Escludi': 'x' },
+                { 'Land External ID': 'P3', 'Codice Fiscale': '', 'Escludi': '' },
+                { 'Land External ID': P1.toLowerCase(), 'Codice Fiscale': 'RSSMRA80A01H501U', 'Escludi': '' },
+            ],
+        }, 'overrides.xlsx');
+        expect(validation.isValid).toBe(true);
+        expect(overrides.map(o => [o.key, o.fiscalCode, o.exclude])).toEqual([
+            [P1.toLowerCase(), 'RSSMRA80A01H501U', false],
+            ['P2', '', true],
+        ]);
+        expect(parseOverrideSheet({ Sheet1: [{ Foo: 1 }] }, 'bad.csv').validation.errors[0]).toMatch(/missing the 'Key' column/);
+        expect(parseOverrideSheet({ Overrides: overridesToRows(overrides) }, 'roundtrip.xlsx').overrides).toEqual(overrides);
+    });
+
+    it('prefers an External ID override over a Parcel_ID override', () => {
+        let overrides: ParcelOverride[] = [];
+        overrides = upsertOverride(overrides, { ...emptyOverride('P1'), cp: '11111' });
+        overrides = upsertOverride(overrides, { ...emptyOverride(P1), cp: '22222' });
+        expect(findOverride(overrides, P1, 'P1')?.cp).toBe('22222');
+        expect(findOverride(overrides, 'OTHER-ID', 'p1')?.cp).toBe('11111');
+        overrides = upsertOverride(overrides, { ...emptyOverride(P1.toLowerCase()), cp: '33333' });
+        expect(overrides).toHaveLength(2);
+        expect(findOverride(removeOverride(overrides, P1), P1, 'P9')).toBeUndefined();
+    });
+});
+
+describe('runProcess with manual overrides', () => {
+    const input = load('input.xlsx', 'input');
+    const results = load('results.xlsx', 'results');
+
+    const run = (overrides: ParcelOverride[]) => {
+        const messages: string[] = [];
+        const output = runProcess(JSON.parse(JSON.stringify(input)), JSON.parse(JSON.stringify(results)), (m) => messages.push(m), noop, undefined, overrides);
+        return { output, messages };
+    };
+
+    it('forces the main owner, lead status and CP and logs each override', () => {
+        const { output, messages } = run([
+            { ...emptyOverride(P1), fiscalCode: 'BNCLGU75C41F205O', leadStatus: 'Contacted', cp: '24100' },
+            { ...emptyOverride('NOT-IN-THIS-RUN'), exclude: true },
+        ]);
+        const row = output.csvRetrieved.find(r => r['Land External ID'] === P1);
+        expect(row).toMatchObject({
+            'Fiscal Code': 'BNCLGU75C41F205O',
+            'Main Owner Name': 'LUIGIA',
+            'Main Owner Last Name': 'BIANCHI',
+            'Lead Status': 'Contacted',
+            'CP': '24100',
+        });
+        const owners = output.owners.filter(o => o['Land External ID'] === P1);
+        expect(owners.map(o => [o['Last Name'], o['Is Main Owner']])).toEqual([['ROSSI', 'False'], ['BIANCHI', 'True']]);
+
+        expect(messages).toContain('Applied 1 manual override(s):');
+        expect(messages.some(m => m.startsWith(`  ${P1}: `) && m.includes("'ROSSI' -> 'BIANCHI'"))).toBe(true);
+        expect(messages).toContain('Warning: 1 manual override(s) match no parcel in this run.');
+    });
+
+    it('does not pair the resolved name with a fiscal code that is not listed on the parcel', () => {
+        const forced = (extra: object) => run([{ ...emptyOverride(P1), fiscalCode: 'GLLLCU70M15F205I', ...extra }]).output.retrieved.find(r => r.Parcel_ID === 'P1');
+        expect(forced({})).toMatchObject({
+            'Fiscal Code': 'GLLLCU70M15F205I',
+            'Main Owner Name': '',
+            'Main Owner Last Name': '',
+            'Number of Owners': 3,
+            'All Owners': '[GLLLCU70M15F205I], ROSSI MARIO [RSSMRA80A01H501U, 1/2], BIANCHI LUIGIA [BNCLGU75C41F205O, 1/2]',
+        });
+        expect(forced({ firstName: 'LUCA', lastName: 'GALLI' })).toMatchObject({ 'Main Owner Name': 'LUCA', 'Main Owner Last Name': 'GALLI' });
+        expect(forced({ firstName: 'LUCA', lastName: 'GALLI' })?.['All Owners']).toMatch(/^GALLI LUCA \[GLLLCU70M15F205I\], ROSSI/);
+    });
+
+    it('gives back the computed values on a re-run of the same Input data without the override', () => {
+        const inputJson = JSON.parse(JSON.stringify(input));
+        const resultsJson = JSON.parse(JSON.stringify(results));
+        runProcess(inputJson, resultsJson, noop, noop, undefined, [{ ...emptyOverride(P1), leadStatus: 'Contacted', cp: '99999' }]);
+        const row = runProcess(inputJson, resultsJson, noop, noop).csvRetrieved.find(r => r['Land External ID'] === P1);
+        expect(row).toMatchObject({ 'Lead Status': 'Retrieved', 'CP': '24047' });
+    });
+
+    it('leaves an excluded parcel out of every Carga', () => {
+        const { output } = run([{ ...emptyOverride(P1), exclude: true }]);
+        const ids = [...output.csvScouted, ...output.csvRetrieved, ...output.csvContacted].map(r => r['Land External ID']);
+        expect(ids).not.toContain(P1);
+        expect(output.owners.some(o => o['Land External ID'] === P1)).toBe(false);
+    });
+});
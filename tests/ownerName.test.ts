@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { parseOwnerName, toTitleCase } from '../services/ownerName';
+
+describe('parseOwnerName', () => {
+    it('splits a register name in COGNOME NOME order', () => {
+        const p = parseOwnerName('ROSSI MARIO');
+        expect(p.entityType).toBe('person');
+        expect(p.lastName).toBe('ROSSI');
+        expect(p.firstName).toBe('MARIO');
+        expect(p.displayName).toBe('Mario Rossi');
+    });
+
+    it('keeps surname particles with the surname', () => {
+        expect(parseOwnerName('DE LUCA ANNA MARIA')).toMatchObject({ lastName: 'DE LUCA', firstName: 'ANNA MARIA' });
+        expect(parseOwnerName('DELLA ROVERE GIULIO')).toMatchObject({ lastName: 'DELLA ROVERE', firstName: 'GIULIO' });
+        expect(parseOwnerName('LO PRESTI SALVATORE')).toMatchObject({ lastName: 'LO PRESTI', firstName: 'SALVATORE' });
+        expect(parseOwnerName('DI STEFANO LUCA').displayName).toBe('Luca Di Stefano');
+    });
+
+    it('uses the codice fiscale to find where a compound surname ends', () => {
+        // First name first: MRT = MARTINI, SRG = SERGIO
+        expect(parseOwnerName('SERGIO MARTINI', 'MRTSRG70A01H501X')).toMatchObject({ lastName: 'MARTINI', firstName: 'SERGIO' });
+        // Double surname: RSS = ROSSI BIANCHI, MRA = MARIO; without the code only ROSSI is taken as surname
+        expect(parseOwnerName('ROSSI BIANCHI MARIO').lastName).toBe('ROSSI');
+        expect(parseOwnerName('ROSSI BIANCHI MARIO', 'RSSMRA80A01H501U')).toMatchObject({ lastName: 'ROSSI BIANCHI', firstName: 'MARIO' });
+    });
+
+    it('separates parentage, right held and birth clause from the name', () => {
+        const p = parseOwnerName("ROSSI MARIO FU GIUSEPPE PROPRIETA' PER 1/2");
+        expect(p).toMatchObject({ name: 'ROSSI MARIO', firstName: 'MARIO', parentage: 'GIUSEPPE', right: "PROPRIETA' PER 1/2" });
+        expect(parseOwnerName('Bianchi Luigia nuda proprietà per 1000/1000')).toMatchObject({ name: 'Bianchi Luigia', right: 'nuda proprietà per 1000/1000' });
+        expect(parseOwnerName('VERDI ANDREA (USUFRUTTUARIO)')).toMatchObject({ name: 'VERDI ANDREA', right: 'USUFRUTTUARIO' });
+        expect(parseOwnerName('FERRARI SARA; DI ANTONIO')).toMatchObject({ name: 'FERRARI SARA', parentage: 'ANTONIO' });
+        expect(parseOwnerName('CONTI PAOLO nato il 20/05/1955').name).toBe('CONTI PAOLO');
+    });
+
+    it('recognises company legal forms and keeps the whole name as last name', () => {
+        const srl = parseOwnerName('AGRICOLA BIANCHI S.R.L.');
+        expect(srl).toMatchObject({ entityType: 'company', legalForm: 'S.r.l.', firstName: '', lastName: 'AGRICOLA BIANCHI S.R.L.' });
+        expect(srl.displayName).toBe('Agricola Bianchi S.r.l.');
+        expect(parseOwnerName('FRATELLI NERI SPA').legalForm).toBe('S.p.a.');
+        expect(parseOwnerName('PODERE ALTO S.S.').legalForm).toBe('S.s.');
+        expect(parseOwnerName('SOC. AGR. LE VIGNE').legalForm).toBe('Soc. agr.');
+        expect(parseOwnerName('SOCIETA AGRICOLA IL GELSO S.S.').entityType).toBe('company');
+    });
+
+    it('recognises public bodies', () => {
+        expect(parseOwnerName('COMUNE DI TREVIGLIO')).toMatchObject({ entityType: 'public-body', firstName: '', lastName: 'COMUNE DI TREVIGLIO' });
+        expect(parseOwnerName('DEMANIO DELLO STATO').entityType).toBe('public-body');
+    });
+
+    it('returns empty parts for placeholders and non-strings', () => {
+        expect(parseOwnerName('Unknown BG-TREVIGLIO-X-0012-00345').name).toBe('');
+        expect(parseOwnerName(undefined)).toMatchObject({ name: '', firstName: '', lastName: '' });
+        expect(parseOwnerName('ROSSI').lastName).toBe('ROSSI');
+    });
+});
+
+describe('toTitleCase', () => {
+    it('capitalises words and apostrophe names', () => {
+        expect(toTitleCase("D'ANGELO MARIA")).toBe("D'Angelo Maria");
+        expect(toTitleCase('DE LUCA-RICCI')).toBe('De Luca-Ricci');
+    });
+});
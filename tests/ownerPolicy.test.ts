@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import {
+    DEFAULT_OWNER_POLICY,
+    OWNER_POLICIES,
+    OWNER_RULES,
+    describePolicy,
+    enabledRules,
+    moveRule,
+    parseStoredPolicies,
+    savePolicyPreset,
+    toggleRule,
+} from '../services/ownerPolicy';
+import type { OwnerPolicy } from '../services/ownerPolicy';
+import { runProcess } from '../services/transformer';
+import { isPublicEntityCode } from '../services/fiscalCode';
+import { load, noop } from './helpers';
+
+const byId = (id: string) => OWNER_POLICIES.find(p => p.id === id) as OwnerPolicy;
+
+describe('owner policies', () => {
+    it('lists every rule once in each built-in preset', () => {
+        OWNER_POLICIES.forEach(p => expect(p.rules.map(r => r.id).sort()).toEqual(OWNER_RULES.map(r => r.id).sort()));
+    });
+
+    it('describes the enabled rules in order', () => {
+        expect(describePolicy(DEFAULT_OWNER_POLICY)).toBe('Standard (Corporate Priority): Corporate Priority > Full or bare ownership > Highest quota > nome/cognome > Full name');
+        expect(enabledRules(DEFAULT_OWNER_POLICY, 'filter')).toEqual(['corporate-priority']);
+    });
+
+    it('toggles and reorders rules', () => {
+        const edited = moveRule(toggleRule(DEFAULT_OWNER_POLICY, 'has-pec'), 'has-pec', -1);
+        expect(enabledRules(edited, 'main-owner')).toEqual(['ownership-right', 'has-pec', 'highest-quota']);
+        expect(moveRule(edited, 'exclude-public-entities', -1)).toBe(edited);
+    });
+
+    it('saves custom presets and reads them back', () => {
+        const { policies, saved } = savePolicyPreset([], toggleRule(DEFAULT_OWNER_POLICY, 'has-pec'), 'Legal 2025');
+        expect(saved.id).not.toBe(DEFAULT_OWNER_POLICY.id);
+        const again = savePolicyPreset(policies, DEFAULT_OWNER_POLICY, 'legal 2025 ');
+        expect(again.policies).toHaveLength(1);
+        expect(again.saved.id).toBe(saved.id);
+
+        const restored = parseStoredPolicies(JSON.stringify([...policies, { id: 'broken' }, { id: 'x', rules: [{ id: 'unknown', enabled: true }] }]));
+        expect(restored.map(p => p.id)).toEqual([saved.id, 'x']);
+        expect(restored[1].rules).toHaveLength(OWNER_RULES.length);
+        expect(restored[1].rules.every(r => !r.enabled)).toBe(true);
+        expect(parseStoredPolicies('not json')).toEqual([]);
+    });
+
+    it('recognises public entity codes', () => {
+        expect(isPublicEntityCode('80012345678')).toBe(true);
+        expect(isPublicEntityCode('01234567897')).toBe(false);
+        expect(isPublicEntityCode('RSSMRA80A01H501U')).toBe(false);
+    });
+});
+
+describe('runProcess with an owner policy', () => {
+    const input = load('input.xlsx', 'input');
+    const results = load('results.xlsx', 'results');
+    const run = (policy: OwnerPolicy, log: (message: string) => void = noop) => {
+        // runProcess maps columns on the Input rows in place; give every run its own copy
+        const copy = JSON.parse(JSON.stringify(input));
+        return runProcess(copy, results, log, noop, policy);
+    };
+    const treviglio346 = (policy: OwnerPolicy) => run(policy).csvRetrieved.find(r => r['Land External ID'] === 'BG-TREVIGLIO-A-0012-00346');
+
+    it('records the active policy in the log', () => {
+        const messages: string[] = [];
+        run(byId('private-individuals'), m => messages.push(m));
+        expect(messages).toContain(`Owner selection policy: ${describePolicy(byId('private-individuals'))}`);
+    });
+
+    it('keeps the company under Corporate Priority and the individual under Individual Priority', () => {
+        expect(treviglio346(DEFAULT_OWNER_POLICY)?.['Fiscal Code']).toBe('01234567897');
+        expect(treviglio346(byId('private-individuals'))?.['Fiscal Code']).toBe('VRDGPP60B02L219M');
+    });
+
+    it('keeps Corporate Priority for a company code that lost its leading zero and flags it as invalid', () => {
+        const edited = JSON.parse(JSON.stringify(results));
+        ['All_Raw_Data', 'Owners_Normalized', 'Final_Mailing_By_Parcel'].forEach(sheet => (edited[sheet] || []).forEach((r: any) => {
+            ['cf_owner', 'owner_cf', 'cf'].forEach(col => { if (r[col] === '01234567897') r[col] = 1234567897; });
+        }));
+        // VERDI first: without the priority rule he would win the quota tie
+        edited['All_Raw_Data'].reverse();
+        edited['Owners_Normalized'].reverse();
+        const row = runProcess(JSON.parse(JSON.stringify(input)), edited, noop, noop).csvRetrieved.find(r => r['Land External ID'] === 'BG-TREVIGLIO-A-0012-00346');
+        expect(row).toMatchObject({ 'Fiscal Code': '1234567897', 'Fiscal Code Status': 'Invalid', 'Number of Owners': '1' });
+    });
+
+    it('splits the full name when nome/cognome is disabled', () => {
+        const row = run(toggleRule(DEFAULT_OWNER_POLICY, 'split-name')).csvRetrieved.find(r => r['Land External ID'] === 'BG-TREVIGLIO-X-0012-00345');
+        expect(row?.['Main Owner Name']).toBe('MARIO');
+        expect(row?.['Main Owner Last Name']).toBe('ROSSI');
+    });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { ownerRight, parseOwnershipRight } from '../services/ownerRights';
+import { runProcess } from '../services/transformer';
+import { load, noop } from './helpers';
+
+describe('parseOwnershipRight', () => {
+    it('recognises cadastral rights in Italian and English', () => {
+        expect(parseOwnershipRight("PROPRIETA' PER 1/2")).toBe('full');
+        expect(parseOwnershipRight('Proprietà')).toBe('full');
+        expect(parseOwnershipRight('nuda proprietà per 1000/1000')).toBe('bare');
+        expect(parseOwnershipRight('USUFRUTTUARIO')).toBe('usufruct');
+        expect(parseOwnershipRight("Proprieta' superficiaria")).toBe('surface');
+        expect(parseOwnershipRight('Diritto del concedente')).toBe('other');
+        expect(parseOwnershipRight('Enfiteusi')).toBe('emphyteusis');
+        expect(parseOwnershipRight('Livellario')).toBe('emphyteusis');
+        expect(parseOwnershipRight('Bare ownership')).toBe('bare');
+        expect(parseOwnershipRight('')).toBe('unknown');
+        expect(parseOwnershipRight('1/2')).toBe('unknown');
+    });
+
+    it('reads the diritto column before the owner text', () => {
+        expect(ownerRight({ owner_name: 'ROSSI MARIO (USUFRUTTUARIO)' })).toBe('usufruct');
+        expect(ownerRight({ owner_name: 'ROSSI MARIO (USUFRUTTUARIO)', diritto: 'Nuda proprietà' })).toBe('bare');
+        expect(ownerRight({ denominazione_owner: "BIANCHI LUIGIA PROPRIETA' PER 1/2" })).toBe('full');
+        expect(ownerRight({ owner_name: 'ROSSI MARIO' })).toBe('unknown');
+    });
+});
+
+describe('runProcess with ownership rights', () => {
+    const input = load('input.xlsx', 'input');
+    const results = load('results.xlsx', 'results');
+
+    // BG-TREVIGLIO-X-0012-00345 (P1): ROSSI MARIO usufructuary, BIANCHI LUIGIA bare owner, both "1/1"
+    const run = () => {
+        const withRights = JSON.parse(JSON.stringify(results));
+        withRights['Owners_Normalized'].forEach((r: any) => {
+            if (r.owner_cf === 'RSSMRA80A01H501U') Object.assign(r, { quota: '1/1', diritto: 'Usufrutto' });
+            if (r.owner_cf === 'BNCLGU75C41F205O') Object.assign(r, { quota: '1/1', diritto: 'Nuda proprietà' });
+        });
+        return runProcess(JSON.parse(JSON.stringify(input)), withRights, noop, noop);
+    };
+
+    it('picks the bare owner over the usufructuary and lists usufructuaries separately', () => {
+        const output = run();
+        const row = output.csvRetrieved.find(r => r['Land External ID'] === 'BG-TREVIGLIO-X-0012-00345');
+        expect(row?.['Fiscal Code']).toBe('BNCLGU75C41F205O');
+        expect(row?.['All Owners']).toBe('BIANCHI LUIGIA [BNCLGU75C41F205O, 1/1, Bare ownership]; Usufruct: ROSSI MARIO [RSSMRA80A01H501U, 1/1]');
+        expect(output.retrieved.find(r => r.Parcel_ID === 'P1')?.['Ownership Status']).toBe('OK');
+
+        const owners = output.owners.filter(o => o['Land External ID'] === 'BG-TREVIGLIO-X-0012-00345');
+        expect(owners.map(o => [o['Last Name'], o['Ownership Right'], o['Is Main Owner']])).toEqual([
+            ['ROSSI', 'Usufruct', 'False'],
+            ['BIANCHI', 'Bare ownership', 'True'],
+        ]);
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { resolveOwnership, ownershipStatus } from '../services/ownership';
+import { parseQuota, runProcess } from '../services/transformer';
+import { ownerRight } from '../services/ownerRights';
+import { load, noop } from './helpers';
+
+const owner = (owner_cf: string, quota: string) => ({ owner_cf, owner_name: owner_cf, quota });
+
+describe('ownershipStatus', () => {
+    it('accepts totals within the tolerance', () => {
+        expect(ownershipStatus(1 / 3 + 1 / 3 + 1 / 3, 3)).toBe('ok');
+        expect(ownershipStatus(1.5, 2)).toBe('over');
+        expect(ownershipStatus(0.5, 1)).toBe('under');
+        expect(ownershipStatus(0, 0)).toBe('no-quota');
+    });
+});
+
+describe('resolveOwnership', () => {
+    it('leaves consistent parcels untouched', () => {
+        const rows = [owner('A', '1/2'), owner('B', '1/2')];
+        const result = resolveOwnership(rows, parseQuota);
+        expect(result.rows).toBe(rows);
+        expect(result.status).toBe('ok');
+        expect(result.resolved).toBe(false);
+    });
+
+    it('drops duplicate rows of the same owner that inflate the total', () => {
+        const rows = [owner('A', '1/1'), owner('a ', '1000/1000')];
+        const result = resolveOwnership(rows, parseQuota);
+        expect(result.rows).toEqual([rows[0]]);
+        expect(result.duplicates).toEqual([rows[1]]);
+        expect(result.total).toBe(1);
+        expect(result.resolved).toBe(true);
+    });
+
+    it('keeps the highest quota of a duplicated owner', () => {
+        const rows = [owner('A', '1/4'), owner('B', '1/2'), owner('A', '1/2')];
+        const result = resolveOwnership(rows, parseQuota);
+        expect(result.rows).toEqual([rows[1], rows[2]]);
+        expect(result.status).toBe('ok');
+    });
+
+    it('flags over-ownership that duplicates do not explain', () => {
+        const result = resolveOwnership([owner('A', '1/1'), owner('B', '1/1')], parseQuota);
+        expect(result.status).toBe('over');
+        expect(result.resolved).toBe(false);
+        expect(result.duplicates).toEqual([]);
+    });
+
+    it('does not merge a repeated owner when the total is not inflated', () => {
+        const rows = [owner('A', '1/2'), owner('A', '1/2')];
+        expect(resolveOwnership(rows, parseQuota).rows).toBe(rows);
+    });
+});
+
+describe('resolveOwnership with ownership rights', () => {
+    const withRight = (owner_cf: string, quota: string, diritto: string) => ({ ...owner(owner_cf, quota), diritto });
+
+    it('leaves usufruct out of the total', () => {
+        const rows = [withRight('A', '1/1', 'Nuda proprietà'), withRight('B', '1/1', 'Usufrutto')];
+        const result = resolveOwnership(rows, parseQuota, ownerRight);
+        expect(result.total).toBe(1);
+        expect(result.status).toBe('ok');
+        expect(result.rows).toBe(rows);
+    });
+
+    it('does not treat one owner holding two rights as a duplicate', () => {
+        const rows = [withRight('A', '1/1', 'Nuda proprietà'), withRight('A', '1/1', 'Usufrutto'), withRight('B', '1/2', 'Proprietà')];
+        const result = resolveOwnership(rows, parseQuota, ownerRight);
+        expect(result.status).toBe('over');
+        expect(result.duplicates).toEqual([]);
+    });
+});
+
+describe('runProcess ownership totals', () => {
+    it('sums the quotas of every owner, including those the owner policy dropped', () => {
+        // P2: AGRICOLA SRL 1/2 (listed twice) and VERDI GIUSEPPE 1/2; Corporate Priority keeps only the company
+        const messages: string[] = [];
+        const output = runProcess(load('input.xlsx', 'input'), load('results.xlsx', 'results'), (m) => messages.push(m), noop);
+        const p2 = output.retrieved.find(r => r.Parcel_ID === 'P2');
+        expect(p2).toMatchObject({ 'Fiscal Code': '01234567897', 'Number of Owners': 1, 'Ownership Total': 1, 'Ownership Status': 'OK' });
+        expect(messages.some(m => m.includes('Parcel_ID P2: quotas sum to'))).toBe(false);
+        expect(output.retrieved.find(r => r.Parcel_ID === 'P5')).toMatchObject({ 'Ownership Total': 0.3333, 'Ownership Status': 'Under 100%' });
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { resolveProvince, provinceKey } from '../services/provinces';
+import { getProvinceDetails, isKnownProvince } from '../services/transformer';
+
+const today = new Date(2025, 5, 1);
+const before2025 = new Date(2020, 5, 1);
+
+describe('provinceKey', () => {
+    it('ignores accents, hyphens and administrative prefixes', () => {
+        expect(provinceKey('Forlì-Cesena')).toBe('FORLI CESENA');
+        expect(provinceKey('Città metropolitana di Milano')).toBe('MILANO');
+        expect(provinceKey('Libero Consorzio Comunale di Ragusa')).toBe('RAGUSA');
+    });
+});
+
+describe('resolveProvince', () => {
+    it('returns current entities without a retired mapping', () => {
+        expect(resolveProvince('Milano', today)).toMatchObject({ province: { code: 'MI', kind: 'metropolitan-city' }, retired: null });
+        expect(resolveProvince('Sassari', before2025)?.province.kind).toBe('province');
+        expect(resolveProvince('Sassari', today)?.province.kind).toBe('metropolitan-city');
+        expect(resolveProvince('Xanadu', today)).toBeNull();
+    });
+
+    it('maps abolished provinces to the entity valid on the reference date', () => {
+        const ci = resolveProvince('Carbonia-Iglesias', today);
+        expect(ci?.retired?.code).toBe('CI');
+        expect(ci?.province.name).toBe('Sulcis Iglesiente');
+        expect(resolveProvince('CI', before2025)?.province.name).toBe('Sud Sardegna');
+        expect(resolveProvince('Olbia-Tempio', today)?.province.name).toBe('Gallura Nord-Est Sardegna');
+        expect(resolveProvince('Olbia-Tempio', before2025)?.province.name).toBe('Sassari');
+    });
+
+    it('uses the comune to choose between several successors', () => {
+        expect(resolveProvince('Sud Sardegna', today, 'Cagliari')).toMatchObject({ province: { code: 'CA' }, ambiguous: [] });
+        expect(resolveProvince('Carbonia-Iglesias', today, 'Carbonia')?.ambiguous).toEqual([]);
+    });
+
+    it('flags the choice as ambiguous when the comune does not settle it', () => {
+        // The bundled ISTAT list files Sanluri under SU, which then meant Sud Sardegna, not today's Sulcis Iglesiente
+        const sanluri = resolveProvince('Sud Sardegna', today, 'Sanluri');
+        expect(sanluri?.province.name).toBe('Sulcis Iglesiente');
+        expect(sanluri?.ambiguous.map(p => p.code)).toEqual(['SU', 'VS', 'CA']);
+        expect(resolveProvince('Sud Sardegna', today, 'Nowhere')?.ambiguous).toHaveLength(3);
+    });
+
+    it('lets the comune decide a code both a current and an abolished province used', () => {
+        // SU is Sulcis Iglesiente today and was Sud Sardegna before 2025
+        const sanluri = resolveProvince('SU', today, 'Sanluri');
+        expect(sanluri).toMatchObject({ province: { name: 'Sulcis Iglesiente' }, retired: null });
+        expect(sanluri?.ambiguous.map(p => p.code)).toEqual(['SU', 'VS', 'CA']);
+        expect(resolveProvince('SU', today, 'Cagliari')).toMatchObject({ province: { code: 'CA' }, retired: { name: 'Sud Sardegna' }, ambiguous: [] });
+        expect(resolveProvince('SU', today)?.ambiguous).toHaveLength(3);
+        expect(resolveProvince('SU', before2025, 'Sanluri')).toMatchObject({ province: { name: 'Sud Sardegna' }, ambiguous: [] });
+    });
+
+    it('restored provinces are current again under their old code', () => {
+        expect(resolveProvince('VS', today)).toMatchObject({ province: { name: 'Medio Campidano' }, retired: null });
+        expect(getProvinceDetails('Ogliastra')).toEqual({ code: 'OG', region: 'Sardegna', name: 'Ogliastra' });
+        expect(isKnownProvince('Carbonia Iglesias')).toBe(true);
+    });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { countBySeverity, qualitySummaryRows, runQualityChecks, QUALITY_RULES } from '../services/quality';
+import type { QualityContext, QualityInputRow, QualityOwnerRow } from '../services/quality';
+import { runProcess } from '../services/transformer';
+import { load, noop } from './helpers';
+
+const inputRow = (row: number, values: Partial<QualityInputRow> = {}): QualityInputRow => ({
+    row, parcelId: `P${row}`, externalId: `EXT-${row}`, province: 'Bergamo', provinceKnown: true, municipality: 'Treviglio',
+    provinceRetired: false, provinceMappedTo: '', provinceCandidates: [], foglio: '12', particella: '345', area: '1,5', ...values,
+});
+
+const ownerRow = (row: number, values: Partial<QualityOwnerRow> = {}): QualityOwnerRow => ({
+    sheet: 'Owners_Normalized', row, parcelId: 'P1', cf: 'RSSMRA80A01H501U', ownerType: 'person', rawName: 'ROSSI MARIO', cleanedName: 'ROSSI MARIO', quota: 1, ...values,
+});
+
+const context = (values: Partial<QualityContext>): QualityContext => ({
+    inputRows: [], ownerRows: [], pecCodes: new Set(), externalIdsByPid: new Map([['P1', ['EXT-A', 'EXT-B']]]), ...values,
+});
+
+const check = (ruleId: string, ctx: QualityContext) => runQualityChecks(ctx, QUALITY_RULES.filter(r => r.id === ruleId));
+
+describe('quality rules', () => {
+    it('flags a foglio or particella that is not a whole number', () => {
+        const ctx = context({
+            inputRows: [
+                inputRow(2),
+                inputRow(3, { foglio: '12.0', particella: 345 }),
+                inputRow(4, { foglio: '12a' }),
+                inputRow(5, { foglio: '', particella: 'A/1' }),
+                inputRow(6, { particella: undefined }),
+            ],
+        });
+        expect(check('INPUT_NON_NUMERIC_FOGLIO', ctx).map(i => [i.row, i.message])).toEqual([[4, "Foglio is '12a'"], [5, "Foglio is ''"]]);
+        expect(check('INPUT_NON_NUMERIC_PARTICELLA', ctx).map(i => [i.row, i.message])).toEqual([[5, "Particella is 'A/1'"], [6, "Particella is ''"]]);
+        expect(check('INPUT_NON_NUMERIC_FOGLIO', ctx)[0]).toMatchObject({ severity: 'error', parcelId: 'P4', externalId: 'EXT-4', sheet: 'Input' });
+    });
+
+    it('reports a reused province code as ambiguous but not as abolished', () => {
+        const ctx = context({
+            inputRows: [
+                inputRow(2, { province: 'SU', municipality: 'Sanluri', provinceMappedTo: 'Sulcis Iglesiente (SU)', provinceCandidates: ['SU', 'VS', 'CA'] }),
+                inputRow(3, { province: 'Carbonia-Iglesias', provinceRetired: true, provinceMappedTo: 'Sulcis Iglesiente (SU)' }),
+            ],
+        });
+        expect(check('INPUT_RETIRED_PROVINCE', ctx).map(i => i.row)).toEqual([3]);
+        expect(check('INPUT_AMBIGUOUS_PROVINCE', ctx).map(i => [i.row, i.message])).toEqual([[2, "'Sanluri' in 'SU' could be in SU/VS/CA; mapped to Sulcis Iglesiente (SU)"]]);
+    });
+
+    it('flags Owners_Normalized quotas that do not add up to 1, on the first row of the parcel', () => {
+        const ctx = context({
+            ownerRows: [
+                ownerRow(2, { quota: 0.5 }),
+                ownerRow(3, { sheet: 'All_Raw_Data', quota: 0.5 }),
+                ownerRow(4, { quota: 1 / 3 }),
+                ownerRow(5, { parcelId: 'P2', quota: 1 / 3 }),
+                ownerRow(6, { parcelId: 'P2', quota: 1 / 3 }),
+                ownerRow(7, { parcelId: 'P2', quota: 1 / 3 }),
+            ],
+        });
+        expect(check('OWNERS_QUOTA_SUM', ctx)).toEqual([{
+            ruleId: 'OWNERS_QUOTA_SUM', severity: 'warning', parcelId: 'P1', externalId: 'EXT-A, EXT-B', sheet: 'Owners_Normalized', row: 2,
+            message: 'Quotas sum to 0.8333 over 2 row(s) (rows 2, 4)',
+        }]);
+    });
+
+    it('flags each company without a PEC once per parcel', () => {
+        const company = { cf: '01234567897', ownerType: 'company' as const, rawName: 'AGRICOLA SRL', cleanedName: 'AGRICOLA SRL' };
+        const ctx = context({
+            ownerRows: [
+                ownerRow(2, company),
+                ownerRow(3, company),
+                ownerRow(4, { ...company, parcelId: 'P2' }),
+                ownerRow(5, { ...company, sheet: 'All_Raw_Data' }),
+                ownerRow(6, { ...company, cf: '00743110157' }),
+                ownerRow(7),
+            ],
+            pecCodes: new Set(['00743110157']),
+        });
+        expect(check('COMPANY_NO_PEC', ctx).map(i => [i.parcelId, i.row, i.message])).toEqual([
+            ['P1', 2, "No PEC for 'AGRICOLA SRL' (01234567897)"],
+            ['P2', 4, "No PEC for 'AGRICOLA SRL' (01234567897)"],
+        ]);
+    });
+
+    it('flags owner names emptied by cleaning, on either sheet', () => {
+        const ctx = context({
+            ownerRows: [
+                ownerRow(2, { rawName: '; DI ANTONIO', cleanedName: '' }),
+                ownerRow(3, { sheet: 'All_Raw_Data', rawName: 'XXX', cleanedName: '' }),
+                ownerRow(4, { rawName: ' ', cleanedName: '' }),
+                ownerRow(5),
+            ],
+        });
+        expect(check('OWNER_NAME_EMPTIED', ctx).map(i => [i.sheet, i.row, i.message])).toEqual([
+            ['Owners_Normalized', 2, "Name '; DI ANTONIO' was emptied by cleaning"],
+            ['All_Raw_Data', 3, "Name 'XXX' was emptied by cleaning"],
+        ]);
+    });
+
+    it('reports issues in rule order and counts them per severity and rule', () => {
+        const ctx = context({ inputRows: [inputRow(2, { foglio: 'x', area: '' })], ownerRows: [ownerRow(3, { quota: 0.5 })] });
+        const issues = runQualityChecks(ctx);
+        expect(issues.map(i => i.ruleId)).toEqual(['INPUT_MISSING_AREA', 'INPUT_NON_NUMERIC_FOGLIO', 'OWNERS_QUOTA_SUM']);
+        expect(countBySeverity(issues)).toEqual({ error: 1, warning: 2, info: 0 });
+        const summary = qualitySummaryRows(issues);
+        expect(summary).toHaveLength(QUALITY_RULES.length);
+        expect(summary.find(r => r['Rule ID'] === 'INPUT_NON_NUMERIC_FOGLIO').Issues).toBe(1);
+        expect(summary.find(r => r['Rule ID'] === 'COMPANY_NO_PEC').Issues).toBe(0);
+    });
+});
+
+describe('quality report of a run', () => {
+    const input = load('input.xlsx', 'input');
+    const results = load('results.xlsx', 'results');
+
+    // P2's foglio is not a number, its company has no PEC and P5's owner name is only a parentage clause
+    const run = () => {
+        const editedInput = JSON.parse(JSON.stringify(input));
+        editedInput['Hoja1'][1].foglio = '12bis';
+        const edited = JSON.parse(JSON.stringify(results));
+        edited['All_Companies_Found'] = [];
+        edited['Owners_Normalized'].filter((r: any) => r.Parcel_ID === 'P5').forEach((r: any) => Object.assign(r, { owner_name: '; DI ANTONIO' }));
+        return runProcess(editedInput, edited, noop, noop);
+    };
+
+    it('references the Excel row of each issue (header is row 1)', () => {
+        const issues = run().quality;
+        const find = (ruleId: string) => issues.filter(i => i.ruleId === ruleId).map(i => [i.parcelId, i.sheet, i.row]);
+        expect(find('INPUT_NON_NUMERIC_FOGLIO')).toEqual([['P2', 'Input', 3]]);
+        expect(find('INPUT_NON_NUMERIC_PARTICELLA')).toEqual([]);
+        expect(find('COMPANY_NO_PEC')).toEqual([['P2', 'Owners_Normalized', 4]]);
+        expect(find('OWNER_NAME_EMPTIED')).toEqual([['P5', 'Owners_Normalized', 9]]);
+        expect(find('OWNERS_QUOTA_SUM')).toEqual([['P2', 'Owners_Normalized', 4], ['P4', 'Owners_Normalized', 7], ['P5', 'Owners_Normalized', 9]]);
+        expect(issues.find(i => i.ruleId === 'OWNERS_QUOTA_SUM' && i.parcelId === 'P2')?.message).toBe('Quotas sum to 1.5 over 3 row(s) (rows 4, 5, 6)');
+    });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { inferCarga, parseSalesforceFile, reconcileRun, reconcileToRows, retryRows } from '../services/reconcile';
+import type { SalesforceFile } from '../services/reconcile';
+import type { OutputData } from '../services/transformer';
+
+const lead = (id: string, province: string) => ({ 'Land External ID': id, 'Lead Status': 'Scouted', 'Province': province, 'Area': '1,25' });
+
+const output: OutputData = {
+    scouted: [],
+    retrieved: [],
+    contacted: [],
+    csvScouted: [lead('A', 'Bergamo'), lead('B', 'Reggio nell\'Emilia'), lead('C', 'Sud Sardegna'), lead('D', 'Lodi')],
+    csvRetrieved: [],
+    csvContacted: [],
+    audit: [],
+    quality: [],
+    owners: [],
+};
+
+const load = (rows: any[], fileName: string): SalesforceFile => {
+    const { file, validation } = parseSalesforceFile({ Sheet1: rows }, fileName);
+    expect(validation.isValid).toBe(true);
+    return file as SalesforceFile;
+};
+
+describe('parseSalesforceFile', () => {
+    it('detects success files, error files and reports', () => {
+        expect(load([{ sf__Id: '001', sf__Created: 'true', 'Land External ID': 'A' }], 'success.csv').kind).toBe('success');
+        expect(load([{ ID: '001', 'Land External ID': 'A', STATUS: 'Item Created' }], 'success.csv').kind).toBe('success');
+        expect(load([{ sf__Id: '', sf__Error: 'INVALID', 'Land External ID': 'A' }], 'error.csv').kind).toBe('error');
+        expect(load([{ Land_External_ID__c: 'A', Province__c: 'Bergamo' }], 'report.csv').kind).toBe('report');
+    });
+
+    it('rejects files without an External ID column', () => {
+        const { file, validation } = parseSalesforceFile({ Sheet1: [{ Name: 'x' }] }, 'report.csv');
+        expect(file).toBeNull();
+        expect(validation.errors[0]).toMatch(/Land External ID/);
+    });
+});
+
+describe('reconcileRun', () => {
+    const report = reconcileRun(output, [
+        load([
+            { 'Land External ID': 'A', 'Lead Status': 'Retrieved', 'Province': 'Bergamo', 'Area': '1.25' },
+            { 'Land External ID': 'B', 'Lead Status': 'Scouted', 'Province': 'Reggio nell\'Emil', 'Area': '1,25' },
+            { 'Land External ID': 'C', 'Lead Status': 'Scouted', 'Province': '', 'Area': '1,25' },
+        ], 'report.csv'),
+        load([{ sf__Id: '', sf__Error: 'REQUIRED_FIELD_MISSING', 'Land External ID': 'D' }], 'error.csv'),
+    ]);
+    const rows = report.cargas.csvScouted.rows;
+
+    it('classifies each lead of the Carga', () => {
+        expect(rows.map(r => r.status)).toEqual(['loaded', 'changed', 'changed', 'failed']);
+        expect(rows[3].error).toBe('REQUIRED_FIELD_MISSING');
+        expect(report.cargas.csvScouted.counts).toMatchObject({ loaded: 1, changed: 2, failed: 1, missing: 0 });
+    });
+
+    it('explains what Salesforce changed', () => {
+        expect(rows[1].changes).toEqual([{ field: 'Province', sent: 'Reggio nell\'Emilia', salesforce: 'Reggio nell\'Emil', reason: 'truncated' }]);
+        expect(rows[2].changes[0].reason).toBe('cleared');
+        expect(reconcileToRows(report, 'csvScouted')[1]).toMatchObject({ 'Result': 'changed', 'Field': 'Province', 'Change': 'truncated' });
+    });
+
+    it('puts failed and missing leads in the retry CSV', () => {
+        expect(retryRows(output, report, 'csvScouted').map(r => r['Land External ID'])).toEqual(['D']);
+        const withoutD = reconcileRun(output, [load([{ sf__Id: '001', sf__Created: 'true', 'Land External ID': 'A' }], 'success.csv')]);
+        expect(withoutD.cargas.csvScouted.counts.missing).toBe(3);
+        expect(retryRows(output, withoutD, 'csvScouted')).toHaveLength(3);
+    });
+
+    it('marks leads as unverified when only error files are given', () => {
+        const onlyErrors = reconcileRun(output, [load([{ sf__Error: 'x', 'Land External ID': 'D' }], 'error.csv')]);
+        expect(onlyErrors.cargas.csvScouted.counts).toMatchObject({ failed: 1, unverified: 3 });
+    });
+});
+
+describe('Carga of a Salesforce file', () => {
+    // The same parcel is in Carga 1 and Carga 2, with the owner only in Carga 2
+    const crossOutput: OutputData = {
+        ...output,
+        csvScouted: [lead('A', 'Bergamo'), lead('B', 'Lodi')],
+        csvRetrieved: [{ ...lead('A', 'Bergamo'), 'Lead Status': 'Retrieved', 'Main Owner Name': 'ROSSI' }],
+    };
+    const carga2Report = load([{ sf__Id: '001', sf__Created: 'true', 'Land External ID': 'A', 'Lead Status': 'Retrieved', 'Province': 'Bergamo', 'Area': '1,25', 'Main Owner Name': 'ROSSI' }], 'success.csv');
+    const carga2Errors = load([{ sf__Error: 'DUPLICATE_VALUE', 'Land External ID': 'A' }], 'error.csv');
+
+    it('is read from the Lead Status, else from the Carga holding the most of its IDs', () => {
+        expect(carga2Report.carga).toBe('csvRetrieved');
+        expect(carga2Errors.carga).toBeNull();
+        expect(inferCarga(crossOutput, load([{ sf__Error: 'x', 'Land External ID': 'B' }], 'error.csv'))).toBe('csvScouted');
+        expect(inferCarga(crossOutput, carga2Errors)).toBeNull();
+    });
+
+    it('reconciles a file only against its own Carga', () => {
+        const report = reconcileRun(crossOutput, [carga2Report]);
+        expect(report.cargas.csvRetrieved.rows.map(r => r.status)).toEqual(['loaded']);
+        expect(report.cargas.csvScouted.counts).toMatchObject({ loaded: 0, changed: 0, unverified: 2 });
+        expect(report.files[0].carga).toBe('csvRetrieved');
+    });
+
+    it('leaves a file out until its Carga is chosen', () => {
+        const unassigned = reconcileRun(crossOutput, [carga2Errors]);
+        expect(unassigned.files[0].carga).toBeNull();
+        expect(unassigned.cargas.csvScouted.counts.failed + unassigned.cargas.csvRetrieved.counts.failed).toBe(0);
+        const chosen = reconcileRun(crossOutput, [{ ...carga2Errors, carga: 'csvRetrieved' }]);
+        expect(chosen.cargas.csvRetrieved.rows[0]).toMatchObject({ status: 'failed', error: 'DUPLICATE_VALUE' });
+        expect(chosen.cargas.csvScouted.counts.failed).toBe(0);
+    });
+});
@@ -0,0 +1,56 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { buildReviewWorkbook, reviewRows, reviewSummaryRows } from '../services/reviewWorkbook';
+import { runProcess } from '../services/transformer';
+import { load, noop } from './helpers';
+
+describe('review workbook', () => {
+    const input = load('input.xlsx', 'input');
+    const results = load('results.xlsx', 'results');
+
+    // P5 loses its owner's name, P2's company gets a name too long for All Owners, P6 (no owners) is on the mailing list
+    const run = () => {
+        const edited = JSON.parse(JSON.stringify(results));
+        edited['All_Raw_Data'].filter((r: any) => r.Parcel_ID === 'P5').forEach((r: any) => Object.assign(r, { denominazione_owner: '', nome: '', cognome: '' }));
+        edited['Owners_Normalized'].filter((r: any) => r.Parcel_ID === 'P5').forEach((r: any) => Object.assign(r, { owner_name: '' }));
+        edited['Owners_Normalized'].filter((r: any) => r.owner_cf === '01234567897').forEach((r: any) => Object.assign(r, { owner_name: `AGRICOLA ${'DEI COLLI '.repeat(30)}SRL` }));
+        edited['Final_Mailing_By_Parcel'].push({ Parcel_ID: 'P6', Full_Name: '', cf: '' });
+        return runProcess(JSON.parse(JSON.stringify(input)), edited, noop, noop);
+    };
+
+    it('flags rows to review and keeps numbers numeric', () => {
+        const output = run();
+        const retrieved = reviewRows(output, 'retrieved');
+        const review = (id: string) => retrieved.find(r => r['Land External ID'] === id)?.['Review'];
+        expect(review('BG-TREVIGLIO-X-0012-00345')).toBe('');
+        expect(review('XA-SHANGDU-X-0001-00002')).toBe('Unknown surname');
+        expect(review('BG-TREVIGLIO-A-0012-00346')).toBe('All Owners truncated');
+        expect(review('BG-CARAVAGGIO-X-0005-00010')).toBe('Ambiguous Parcel_ID');
+        expect(retrieved[0]).toMatchObject({ 'Parcel_ID': 'P1', 'Cadastral Area (Ha)': 1.25, 'Number of Owners': 2 });
+
+        const contacted = reviewRows(output, 'contacted');
+        expect(contacted.find(r => r['Parcel_ID'] === 'P6')?.['Review']).toBe('Missing owner');
+        // Scouted leads have no owner yet by design
+        expect(reviewRows(output, 'scouted').some(r => String(r['Review']).includes('Missing owner'))).toBe(false);
+
+        expect(reviewSummaryRows(output)[1]).toMatchObject({ 'Carga': 'Carga 2 Retrieved', 'Leads': 6, 'Flagged': 4, 'Ambiguous Parcel_ID': 2 });
+    });
+
+    it('writes a sheet per Carga with frozen, filterable headers, highlighting and dropdowns', () => {
+        const bytes = buildReviewWorkbook(run(), XLSX);
+        const wb = XLSX.read(bytes, { type: 'array' });
+        expect(wb.SheetNames).toEqual(['Summary', 'Carga 1 Scouted', 'Carga 2 Retrieved', 'Carga 3 Contacted', 'Quality Rules', 'Issues']);
+        expect(wb.Sheets['Carga 2 Retrieved']['K2']).toMatchObject({ t: 'n', v: 1.25 });
+
+        const container = XLSX.CFB.read(bytes, { type: 'array' });
+        const xml = (path: string) => new TextDecoder().decode(XLSX.CFB.find(container, path)!.content as Uint8Array);
+        const retrieved = xml('/xl/worksheets/sheet3.xml');
+        expect(retrieved).toContain('<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>');
+        expect(retrieved).toContain('<autoFilter ref="A1:V7"/>');
+        expect(retrieved).toContain('SEARCH(&quot;Unknown surname&quot;,$A2)');
+        expect(retrieved).toMatch(/<dataValidation type="list"[^>]*sqref="D2:D7"><formula1>&quot;Scouted,Retrieved,Contacted&quot;<\/formula1>/);
+        expect(retrieved.indexOf('<conditionalFormatting')).toBeLessThan(retrieved.indexOf('<ignoredErrors'));
+        expect(xml('/xl/styles.xml')).toContain('<dxfs count="4">');
+        expect(xml('/xl/styles.xml')).toContain('formatCode="#,##0.0000"');
+    });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import {
+    cleanOwnerName,
+    formatDecimalForCsv,
+    generateExternalId,
+    getProvinceDetails,
+    isKnownProvince,
+    mapToCsvRow,
+    normalizeMuni,
+    parseQuota,
+    sanitize,
+    truncate,
+    validateInputFile,
+    validateResultsFile,
+} from '../services/transformer';
+
+describe('cleanOwnerName', () => {
+    it('keeps the part before a "nato a" / "nata a" / "nato/a a" clause', () => {
+        expect(cleanOwnerName('ROSSI MARIO nato a ROMA il 01/01/1980')).toBe('ROSSI MARIO');
+        expect(cleanOwnerName('BIANCHI LUIGIA nata a MILANO')).toBe('BIANCHI LUIGIA');
+        expect(cleanOwnerName('VERDI ANDREA nato/a a TORINO')).toBe('VERDI ANDREA');
+    });
+
+    it('drops parentage after a semicolon', () => {
+        expect(cleanOwnerName('FERRARI SARA; DI ANTONIO')).toBe('FERRARI SARA');
+    });
+
+    it('removes generated "Unknown <External ID>" and "Timeout-Pending" placeholders', () => {
+        expect(cleanOwnerName('Unknown BG-TREVIGLIO-X-0012-00345')).toBe('');
+        expect(cleanOwnerName('ROSSI Timeout-Pending MARIO')).toBe('ROSSI MARIO');
+    });
+
+    it('returns an empty string for non-strings', () => {
+        expect(cleanOwnerName(undefined)).toBe('');
+        expect(cleanOwnerName(null)).toBe('');
+        expect(cleanOwnerName(42)).toBe('');
+    });
+});
+
+describe('text helpers', () => {
+    it('sanitize collapses newlines, tabs and repeated spaces', () => {
+        expect(sanitize('  A\r\nB\tC   D ')).toBe('A B C D');
+        expect(sanitize(null)).toBe('');
+    });
+
+    it('truncate cuts to the maximum length', () => {
+        expect(truncate('abcdef', 3)).toBe('abc');
+        expect(truncate('abc', 10)).toBe('abc');
+        expect(truncate(undefined, 3)).toBe('');
+    });
+
+    it('normalizeMuni lowercases and trims', () => {
+        expect(normalizeMuni('  Treviglio ')).toBe('treviglio');
+    });
+
+    it('formatDecimalForCsv uses a decimal comma', () => {
+        expect(formatDecimalForCsv(1.25)).toBe('1,25');
+        expect(formatDecimalForCsv('')).toBe('');
+    });
+});
+
+describe('parseQuota', () => {
+    it('parses fractions, decimal commas and integers', () => {
+        expect(parseQuota('1/2')).toBe(0.5);
+        expect(parseQuota('1000/1000')).toBe(1);
+        expect(parseQuota('0,25')).toBe(0.25);
+        expect(parseQuota(1)).toBe(1);
+    });
+
+    it('returns 0 for empty or unparseable values', () => {
+        expect(parseQuota(undefined)).toBe(0);
+        expect(parseQuota('n/a')).toBe(0);
+    });
+});
+
+describe('provinces', () => {
+    it('resolves names and codes to the Salesforce province', () => {
+        expect(getProvinceDetails('Bergamo')).toEqual({ code: 'BG', region: 'Lombardia', name: 'Bergamo' });
+        expect(getProvinceDetails('bg').code).toBe('BG');
+        expect(isKnownProvince('Bergamo')).toBe(true);
+    });
+
+    it('guesses the code from the first letters of an unknown province', () => {
+        expect(getProvinceDetails('Xanadu')).toEqual({ code: 'XA', region: '', name: 'Xanadu' });
+        expect(isKnownProvince('Xanadu')).toBe(false);
+    });
+});
+
+describe('generateExternalId', () => {
+    it('pads Foglio to 4 and Particella to 5 digits', () => {
+        expect(generateExternalId('BG', 'Treviglio', 'A', '12', '345')).toBe('BG-TREVIGLIO-A-0012-00345');
+    });
+
+    it('uses X for an empty section and removes spaces from the municipality', () => {
+        expect(generateExternalId('MI', 'San Donato Milanese', '', '40', '1234')).toBe('MI-SANDONATOMILANESE-X-0040-01234');
+    });
+
+    it('drops decimals from numeric Foglio/Particella', () => {
+        expect(generateExternalId('BG', 'Treviglio', '', '12.0', '345.0')).toBe('BG-TREVIGLIO-X-0012-00345');
+    });
+});
+
+describe('mapToCsvRow', () => {
+    const row = {
+        Province: 'BG', Municipality: 'Treviglio', Section: '', Sheet: '12', Parcel: '345', 'Cadastral Area (Ha)': 1.25,
+        'Main Owner Name': 'MARIO', 'Main Owner Last Name': 'ROSSI', 'Number of Owners': 2, 'All Owners': 'ROSSI MARIO, BIANCHI LUIGIA',
+    };
+
+    it('puts "Pending Owner" on Scouted rows', () => {
+        const csv = mapToCsvRow(row, 'Scouted');
+        expect(csv['Main Owner Name']).toBe('');
+        expect(csv['Main Owner Last Name']).toBe('Pending Owner');
+    });
+
+    it('keeps the owner on Retrieved rows and flags multiple owners', () => {
+        const csv = mapToCsvRow(row, 'Retrieved');
+        expect(csv['Land External ID']).toBe('BG-TREVIGLIO-X-0012-00345');
+        expect(csv['Land Province']).toBe('Bergamo');
+        expect(csv['Land Region']).toBe('Lombardia');
+        expect(csv['Main Owner Last Name']).toBe('ROSSI');
+        expect(csv['Has Various Owners']).toBe('True');
+        expect(csv['Cadastral Area (Ha)']).toBe('1,25');
+    });
+
+    it('falls back to "Unknown <External ID>" for Retrieved rows without a last name, but not for Contacted', () => {
+        const noOwner = { ...row, 'Main Owner Last Name': '' };
+        expect(mapToCsvRow(noOwner, 'Retrieved')['Main Owner Last Name']).toBe('Unknown BG-TREVIGLIO-X-0012-00345');
+        expect(mapToCsvRow(noOwner, 'Contacted')['Main Owner Last Name']).toBe('');
+    });
+});
+
+describe('validation', () => {
+    it('accepts Hoja1 or Sheet1 with the required columns', () => {
+        const row = { provincia: '', comune: '', foglio: '', particella: '', Area: '', Sezione: '', CP: '', Parcel_ID: '' };
+        expect(validateInputFile({ Sheet1: [row] }).isValid).toBe(true);
+        expect(validateInputFile({ Hoja1: [{ provincia: 'BG' }] }).errors[0]).toMatch(/missing columns: comune/);
+        expect(validateInputFile({ Foo: [row] }).isValid).toBe(false);
+    });
+
+    it('reports every missing Results sheet', () => {
+        const result = validateResultsFile({ All_Raw_Data: [] });
+        expect(result.isValid).toBe(false);
+        expect(result.errors[0]).toMatch(/Owners_Normalized, All_Companies_Found, Final_Mailing_By_Parcel/);
+    });
+});
@@ -7,3 +7,8 @@ export interface LogEntry {
   type: 'info' | 'error' | 'success';
   timestamp: string;
 }
+
+export interface JobProgress {
+  stage: string;
+  percent: number;
+}